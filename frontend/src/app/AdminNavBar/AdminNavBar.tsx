@@ -13,6 +13,8 @@ import {
   useDisclosure,
 } from '@chakra-ui/react'
 
+import { UserRole } from '~shared/types/user'
+
 import { BxsHelpCircle } from '~assets/icons/BxsHelpCircle'
 import { BxsRocket } from '~assets/icons/BxsRocket'
 import { ReactComponent as BrandMarkSvg } from '~assets/svgs/brand/brand-mark-colour.svg'
@@ -21,7 +23,12 @@ import {
   EMERGENCY_CONTACT_KEY_PREFIX,
   ROLLOUT_ANNOUNCEMENT_KEY_PREFIX,
 } from '~constants/localStorage'
-import { DASHBOARD_ROUTE } from '~constants/routes'
+import {
+  AGENCIES_ROUTE,
+  AGENCY_FORMS_SUBROUTE,
+  DASHBOARD_ROUTE,
+  TEMPLATES_ROUTE,
+} from '~constants/routes'
 import { ADMIN_FEEDBACK_SESSION_KEY } from '~constants/sessionStorage'
 import { useIsMobile } from '~hooks/useIsMobile'
 import { useLocalStorage } from '~hooks/useLocalStorage'
@@ -258,9 +265,25 @@ export const AdminNavBar = ({ isMenuOpen }: AdminNavBarProps): JSX.Element => {
             defaultIsOpen={isMenuOpen}
             menuListProps={{ maxWidth: '19rem' }}
           >
+            <Menu.Item as={ReactLink} to={TEMPLATES_ROUTE}>
+              Templates
+            </Menu.Item>
             <Menu.Item as={ReactLink} to="/billing">
               Billing
             </Menu.Item>
+            {user?.role === UserRole.SuperAdmin ? (
+              <Menu.Item as={ReactLink} to={AGENCIES_ROUTE}>
+                Agencies
+              </Menu.Item>
+            ) : null}
+            {user?.role === UserRole.AgencyAdmin ? (
+              <Menu.Item
+                as={ReactLink}
+                to={`${AGENCIES_ROUTE}/${user.agency._id}/${AGENCY_FORMS_SUBROUTE}`}
+              >
+                Agency forms
+              </Menu.Item>
+            ) : null}
             <Menu.Item onClick={onContactModalOpen}>
               Emergency contact
             </Menu.Item>
@@ -8,6 +8,8 @@ import {
   ADMINFORM_ROUTE,
   ADMINFORM_SETTINGS_SUBROUTE,
   ADMINFORM_USETEMPLATE_ROUTE,
+  AGENCIES_ROUTE,
+  AGENCY_FORMS_SUBROUTE,
   BILLING_ROUTE,
   DASHBOARD_ROUTE,
   LANDING_PAYMENTS_ROUTE,
@@ -18,6 +20,8 @@ import {
   PRIVACY_POLICY_ROUTE,
   PUBLICFORM_ROUTE,
   RESULTS_FEEDBACK_SUBROUTE,
+  RESULTS_INSIGHTS_SUBROUTE,
+  TEMPLATES_ROUTE,
   TOU_ROUTE,
   USE_TEMPLATE_REDIRECT_SUBROUTE,
 } from '~constants/routes'
@@ -31,12 +35,15 @@ import {
   FeedbackPage,
   FormResultsLayout,
   IndividualResponsePage,
+  InsightsPage,
   ResponsesLayout,
   ResponsesPage,
 } from '~features/admin-form/responses'
 import { SettingsPage } from '~features/admin-form/settings/SettingsPage'
 import { SgidLoginPage } from '~features/login'
 import { FormPaymentPage } from '~features/public-form/components/FormPaymentPage/FormPaymentPage'
+import { AgenciesPage, AgencyFormsPage, AgencyPage } from '~features/agencies'
+import { TemplatesPage } from '~features/templates'
 import { BillingPage } from '~features/user/billing'
 
 import { HashRouterElement } from './HashRouterElement'
@@ -107,6 +114,22 @@ export const AppRouter = (): JSX.Element => {
           path={BILLING_ROUTE}
           element={<PrivateElement element={<BillingPage />} />}
         />
+        <Route
+          path={TEMPLATES_ROUTE}
+          element={<PrivateElement element={<TemplatesPage />} />}
+        />
+        <Route
+          path={AGENCIES_ROUTE}
+          element={<PrivateElement element={<AgenciesPage />} />}
+        />
+        <Route
+          path={`${AGENCIES_ROUTE}/:agencyId`}
+          element={<PrivateElement element={<AgencyPage />} />}
+        />
+        <Route
+          path={`${AGENCIES_ROUTE}/:agencyId/${AGENCY_FORMS_SUBROUTE}`}
+          element={<PrivateElement element={<AgencyFormsPage />} />}
+        />
         <Route path={PUBLICFORM_ROUTE}>
           <Route
             index
@@ -162,6 +185,10 @@ export const AppRouter = (): JSX.Element => {
               path={RESULTS_FEEDBACK_SUBROUTE}
               element={<FeedbackPage />}
             />
+            <Route
+              path={RESULTS_INSIGHTS_SUBROUTE}
+              element={<InsightsPage />}
+            />
           </Route>
         </Route>
         <Route
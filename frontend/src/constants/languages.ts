@@ -0,0 +1,12 @@
+import { Language } from '~shared/types/form'
+
+/**
+ * Names of the languages which forms can be filled in, written in each
+ * language so that respondents can recognise their own.
+ */
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  [Language.English]: 'English',
+  [Language.Chinese]: '中文',
+  [Language.Malay]: 'Bahasa Melayu',
+  [Language.Tamil]: 'தமிழ்',
+}
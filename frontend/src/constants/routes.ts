@@ -8,6 +8,9 @@ export const TOU_ROUTE = '/terms'
 export const PRIVACY_POLICY_ROUTE = '/privacy'
 
 export const BILLING_ROUTE = '/billing'
+export const TEMPLATES_ROUTE = '/templates'
+export const AGENCIES_ROUTE = '/agencies'
+export const AGENCY_FORMS_SUBROUTE = 'forms'
 
 // Cannot use regex match in react-router@6, which means we need to validate
 // the regex in PublicFormPage.
@@ -44,9 +47,10 @@ export const ACTIVE_ADMINFORM_BUILDER_ROUTE_REGEX = new RegExp(
 /** Responses tab has no subroute, its the index results route. */
 export const RESULTS_RESPONSES_SUBROUTE = ''
 export const RESULTS_FEEDBACK_SUBROUTE = 'feedback'
+export const RESULTS_INSIGHTS_SUBROUTE = 'insights'
 
 export const ACTIVE_ADMINFORM_RESULTS_ROUTE_REGEX = new RegExp(
-  `${ADMINFORM_ROUTE}/([a-fA-F0-9]{24})/${ADMINFORM_RESULTS_SUBROUTE}(/${RESULTS_FEEDBACK_SUBROUTE})?/?`,
+  `${ADMINFORM_ROUTE}/([a-fA-F0-9]{24})/${ADMINFORM_RESULTS_SUBROUTE}(/${RESULTS_FEEDBACK_SUBROUTE}|/${RESULTS_INSIGHTS_SUBROUTE})?/?`,
   'i',
 )
 export const PAYMENT_PAGE_SUBROUTE = 'payment/:paymentId'
@@ -6,3 +6,9 @@
  * Key to store whether admin should be shown the feedback modal
  */
 export const ADMIN_FEEDBACK_SESSION_KEY = 'admin-feedback-key'
+
+/**
+ * Prefix of keys storing whether a view of a public form has been counted in
+ * the current session
+ */
+export const FORM_VIEW_RECORDED_SESSION_KEY_PREFIX = 'form-view-recorded-'
@@ -183,6 +183,7 @@ export const submitStorageModeFormPreview = async ({
   formInputs,
   formId,
   publicKey,
+  paymentsField,
 }: SubmitStorageFormArgs) => {
   const filteredInputs = filterHiddenInputs({
     formFields,
@@ -193,6 +194,7 @@ export const submitStorageModeFormPreview = async ({
     formFields,
     formInputs: filteredInputs,
     publicKey,
+    paymentsField,
   })
 
   return ApiService.post<SubmissionResponseDto>(
@@ -241,6 +243,7 @@ export const submitStorageModeFormPreviewWithFetch = async ({
   formInputs,
   formId,
   publicKey,
+  paymentsField,
 }: SubmitStorageFormArgs): Promise<SubmissionResponseDto> => {
   const filteredInputs = filterHiddenInputs({
     formFields,
@@ -251,6 +254,7 @@ export const submitStorageModeFormPreviewWithFetch = async ({
     formFields,
     formInputs: filteredInputs,
     publicKey,
+    paymentsField,
   })
 
   const response = await fetch(
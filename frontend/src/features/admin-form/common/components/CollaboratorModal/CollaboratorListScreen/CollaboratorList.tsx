@@ -44,8 +44,14 @@ export const CollaboratorList = (): JSX.Element => {
     handleForwardToRemoveSelf,
     formId,
   } = useCollaboratorWizard()
-  const { collaborators, user, isFormAdmin, form, isLoading, hasEditAccess } =
-    useAdminFormCollaborators(formId)
+  const {
+    collaborators,
+    user,
+    isFormAdmin,
+    form,
+    isLoading,
+    canManageCollaborators,
+  } = useAdminFormCollaborators(formId)
 
   const { mutateUpdateCollaborator, mutateRemoveCollaborator } =
     useMutateCollaborators()
@@ -150,7 +156,7 @@ export const CollaboratorList = (): JSX.Element => {
             key={row.email}
             isLoading={isLoading}
           >
-            {hasEditAccess ? (
+            {canManageCollaborators ? (
               <Stack
                 w="100%"
                 direction="row"
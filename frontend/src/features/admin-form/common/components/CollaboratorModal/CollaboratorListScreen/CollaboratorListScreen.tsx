@@ -6,19 +6,21 @@ import { useCollaboratorWizard } from '../CollaboratorWizardContext'
 
 import { AddCollaboratorInput } from './AddCollaboratorInput'
 import { CollaboratorList } from './CollaboratorList'
+import { RoleMatrix } from './RoleMatrix'
 
 export const CollaboratorListScreen = (): JSX.Element => {
   const { formId } = useCollaboratorWizard()
-  const { hasEditAccess } = useAdminFormCollaborators(formId)
+  const { canManageCollaborators } = useAdminFormCollaborators(formId)
   return (
     <>
       <ModalHeader color="secondary.700">
-        {hasEditAccess ? 'Manage collaborators' : 'Collaborators'}
+        {canManageCollaborators ? 'Manage collaborators' : 'Collaborators'}
       </ModalHeader>
       <ModalBody whiteSpace="pre-wrap">
         <Stack spacing="2.5rem" pb="2rem">
-          {hasEditAccess ? <AddCollaboratorInput /> : null}
+          {canManageCollaborators ? <AddCollaboratorInput /> : null}
           <CollaboratorList />
+          <RoleMatrix />
         </Stack>
       </ModalBody>
     </>
@@ -0,0 +1,76 @@
+import {
+  Box,
+  Collapse,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useDisclosure,
+} from '@chakra-ui/react'
+
+import { FormPermissionScope } from '~shared/types/form/form'
+import { COLLABORATOR_ROLE_ACCESS } from '~shared/utils/collaborator-roles'
+
+import Button from '~components/Button'
+
+import { DROPDOWN_ROLE_TO_COLLABORATOR_ROLE } from '../constants'
+
+const SCOPE_LABELS: Record<FormPermissionScope, string> = {
+  [FormPermissionScope.Build]: 'Form',
+  [FormPermissionScope.Settings]: 'Settings',
+  [FormPermissionScope.Collaborators]: 'Collaborators',
+  [FormPermissionScope.Responses]: 'Responses',
+  [FormPermissionScope.Payments]: 'Payments',
+}
+
+/** Table of the access each collaborator role has to each part of the form. */
+export const RoleMatrix = (): JSX.Element => {
+  const { isOpen, onToggle } = useDisclosure()
+
+  return (
+    <Box>
+      <Button variant="link" onClick={onToggle}>
+        {isOpen ? 'Hide role permissions' : 'What can each role do?'}
+      </Button>
+      <Collapse in={isOpen} style={{ width: '100%' }}>
+        <Box overflowX="auto" mt="1rem">
+          <Table variant="solid" colorScheme="secondary" size="sm">
+            <Thead>
+              <Tr>
+                <Th>Role</Th>
+                {Object.values(FormPermissionScope).map((scope) => (
+                  <Th key={scope}>{SCOPE_LABELS[scope]}</Th>
+                ))}
+              </Tr>
+            </Thead>
+            <Tbody>
+              {Object.entries(DROPDOWN_ROLE_TO_COLLABORATOR_ROLE).map(
+                ([dropdownRole, role]) => (
+                  <Tr key={role}>
+                    <Td>
+                      <Text textStyle="body-2" fontWeight={500}>
+                        {dropdownRole}
+                      </Text>
+                    </Td>
+                    {Object.values(FormPermissionScope).map((scope) => (
+                      <Td key={scope}>
+                        {COLLABORATOR_ROLE_ACCESS[role].write.includes(scope)
+                          ? 'Edit'
+                          : COLLABORATOR_ROLE_ACCESS[role].read.includes(scope)
+                          ? 'View'
+                          : '-'}
+                      </Td>
+                    ))}
+                  </Tr>
+                ),
+              )}
+            </Tbody>
+          </Table>
+        </Box>
+      </Collapse>
+    </Box>
+  )
+}
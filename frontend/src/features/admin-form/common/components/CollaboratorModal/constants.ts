@@ -1,5 +1,25 @@
+import { CollaboratorRole } from '~shared/types/form/form'
+
 export enum DropdownRole {
   Owner = 'Owner',
   Editor = 'Editor',
   Viewer = 'Viewer',
+  ResponsesViewer = 'Responses viewer',
+  EditorWithoutResponses = 'Editor without responses',
+  SettingsManager = 'Settings manager',
+  PaymentManager = 'Payment manager',
+}
+
+/** Collaborator role corresponding to each dropdown role except the owner. */
+export const DROPDOWN_ROLE_TO_COLLABORATOR_ROLE: Record<
+  Exclude<DropdownRole, DropdownRole.Owner>,
+  CollaboratorRole
+> = {
+  [DropdownRole.Editor]: CollaboratorRole.Editor,
+  [DropdownRole.Viewer]: CollaboratorRole.Viewer,
+  [DropdownRole.ResponsesViewer]: CollaboratorRole.ResponsesViewer,
+  [DropdownRole.EditorWithoutResponses]:
+    CollaboratorRole.EditorWithoutResponses,
+  [DropdownRole.SettingsManager]: CollaboratorRole.SettingsManager,
+  [DropdownRole.PaymentManager]: CollaboratorRole.PaymentManager,
 }
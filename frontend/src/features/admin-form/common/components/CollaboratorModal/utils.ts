@@ -1,19 +1,35 @@
-import { FormPermission } from '~shared/types/form/form'
+import { CollaboratorRole, FormPermission } from '~shared/types/form/form'
+import {
+  getCollaboratorRole,
+  isWriteRole,
+} from '~shared/utils/collaborator-roles'
 
-import { DropdownRole } from './constants'
+import { DropdownRole, DROPDOWN_ROLE_TO_COLLABORATOR_ROLE } from './constants'
 
 export const permissionsToRole = (permission: FormPermission): DropdownRole => {
-  return permission.write ? DropdownRole.Editor : DropdownRole.Viewer
+  switch (getCollaboratorRole(permission)) {
+    case CollaboratorRole.Editor:
+      return DropdownRole.Editor
+    case CollaboratorRole.Viewer:
+      return DropdownRole.Viewer
+    case CollaboratorRole.ResponsesViewer:
+      return DropdownRole.ResponsesViewer
+    case CollaboratorRole.EditorWithoutResponses:
+      return DropdownRole.EditorWithoutResponses
+    case CollaboratorRole.SettingsManager:
+      return DropdownRole.SettingsManager
+    case CollaboratorRole.PaymentManager:
+      return DropdownRole.PaymentManager
+  }
 }
 
 export const roleToPermission = (
   role: DropdownRole,
 ): Omit<FormPermission, 'email'> => {
-  switch (role) {
-    case DropdownRole.Owner:
-    case DropdownRole.Editor:
-      return { write: true }
-    case DropdownRole.Viewer:
-      return { write: false }
-  }
+  // Previous owners remain on the form as editors.
+  const collaboratorRole =
+    DROPDOWN_ROLE_TO_COLLABORATOR_ROLE[
+      role === DropdownRole.Owner ? DropdownRole.Editor : role
+    ]
+  return { write: isWriteRole(collaboratorRole), role: collaboratorRole }
 }
@@ -1,6 +1,7 @@
 import { useCallback } from 'react'
 import { useMutation, useQueryClient } from 'react-query'
 import { useNavigate, useParams } from 'react-router-dom'
+import simplur from 'simplur'
 
 import {
   AdminFormDto,
@@ -11,6 +12,10 @@ import {
   PaymentsUpdateDto,
   StartPageUpdateDto,
 } from '~shared/types/form/form'
+import {
+  FormIssueStatus,
+  UpdateFormIssueBodyDto,
+} from '~shared/types/form/form_issue'
 
 import { DASHBOARD_ROUTE } from '~constants/routes'
 import { useToast } from '~hooks/useToast'
@@ -28,8 +33,14 @@ import {
   submitStorageModeFormPreview,
   submitStorageModeFormPreviewWithFetch,
 } from '../common/AdminViewFormService'
-import { downloadFormIssue } from '../responses/FeedbackPage/issue/IssueService'
+import {
+  downloadFormIssue,
+  replyToFormIssue,
+  updateFormIssue,
+  updateFormIssuesStatus,
+} from '../responses/FeedbackPage/issue/IssueService'
 import { downloadFormReview } from '../responses/FeedbackPage/review/ReviewService'
+import { adminFormIssueKeys } from '../responses/queries'
 
 import { useCollaboratorWizard } from './components/CollaboratorModal/CollaboratorWizardContext'
 import { permissionsToRole } from './components/CollaboratorModal/utils'
@@ -66,6 +77,21 @@ export type DownloadFormIssuesMutationArgs = {
   count: number | undefined
 }
 
+export type UpdateFormIssueMutationArgs = {
+  issueId: string
+  update: UpdateFormIssueBodyDto
+}
+
+export type UpdateFormIssuesStatusMutationArgs = {
+  issueIds: string[]
+  status: FormIssueStatus
+}
+
+export type ReplyToFormIssueMutationArgs = {
+  issueId: string
+  message: string
+}
+
 enum FormCollaboratorAction {
   UPDATE,
   ADD,
@@ -494,6 +520,8 @@ export const useFormFeedbackMutations = () => {
 }
 
 export const useFormIssueMutations = () => {
+  const { formId } = useParams()
+  const queryClient = useQueryClient()
   const toast = useToast({ status: 'success', isClosable: true })
 
   const handleError = useCallback(
@@ -520,5 +548,64 @@ export const useFormIssueMutations = () => {
     },
   )
 
-  return { downloadFormIssueMutation: downloadFormIssuesMutation }
+  const updateFormIssueMutation = useMutation(
+    ({ issueId, update }: UpdateFormIssueMutationArgs) => {
+      if (!formId) throw new Error('No formId provided')
+      return updateFormIssue(formId, issueId, update)
+    },
+    {
+      onSuccess: () => {
+        if (formId) {
+          queryClient.invalidateQueries(adminFormIssueKeys.id(formId))
+        }
+        toast({
+          description: 'Issue updated',
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  const updateFormIssuesStatusMutation = useMutation(
+    ({ issueIds, status }: UpdateFormIssuesStatusMutationArgs) => {
+      if (!formId) throw new Error('No formId provided')
+      return updateFormIssuesStatus(formId, { issueIds, status })
+    },
+    {
+      onSuccess: ({ updatedCount }) => {
+        if (formId) {
+          queryClient.invalidateQueries(adminFormIssueKeys.id(formId))
+        }
+        toast({
+          description: simplur`${[updatedCount]} issue[|s] updated`,
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  const replyToFormIssueMutation = useMutation(
+    ({ issueId, message }: ReplyToFormIssueMutationArgs) => {
+      if (!formId) throw new Error('No formId provided')
+      return replyToFormIssue(formId, issueId, { message })
+    },
+    {
+      onSuccess: () => {
+        if (formId) {
+          queryClient.invalidateQueries(adminFormIssueKeys.id(formId))
+        }
+        toast({
+          description: 'Your reply has been sent',
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  return {
+    downloadFormIssueMutation: downloadFormIssuesMutation,
+    updateFormIssueMutation,
+    updateFormIssuesStatusMutation,
+    replyToFormIssueMutation,
+  }
 }
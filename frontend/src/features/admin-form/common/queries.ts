@@ -2,7 +2,16 @@ import { useMemo } from 'react'
 import { useQuery, UseQueryOptions, UseQueryResult } from 'react-query'
 import { useParams } from 'react-router-dom'
 
-import { AdminFormDto, PreviewFormViewDto } from '~shared/types/form/form'
+import {
+  AdminFormDto,
+  FormPermissionScope,
+  PreviewFormViewDto,
+} from '~shared/types/form/form'
+import { UserRole } from '~shared/types/user'
+import {
+  getCollaboratorRole,
+  hasCollaboratorRoleAccess,
+} from '~shared/utils/collaborator-roles'
 
 import { ApiError } from '~typings/core'
 
@@ -96,9 +105,20 @@ export const useAdminFormCollaborators = (formId: string) => {
     [form, user],
   )
 
+  // Agency admins have the same permissions as the owners of the forms of
+  // their agency.
+  const isAgencyAdmin = useMemo(
+    () =>
+      !!user &&
+      !!form &&
+      user.role === UserRole.AgencyAdmin &&
+      user.agency._id === form.admin.agency._id,
+    [form, user],
+  )
+
   const hasEditAccess = useMemo(() => {
     if (!form || !user) return false
-    if (isFormAdmin) return true
+    if (isFormAdmin || isAgencyAdmin) return true
     // Collaborators is source of truth if it has already loaded.
     if (collaborators) {
       return collaborators.some(
@@ -111,7 +131,25 @@ export const useAdminFormCollaborators = (formId: string) => {
       (perms) =>
         perms.write && perms.email.toLowerCase() === user.email.toLowerCase(),
     )
-  }, [collaborators, form, isFormAdmin, user])
+  }, [collaborators, form, isAgencyAdmin, isFormAdmin, user])
+
+  // Only editors can manage the other collaborators of the form, so that
+  // collaborators cannot grant themselves a role with more access.
+  const canManageCollaborators = useMemo(() => {
+    if (!form || !user) return false
+    if (isFormAdmin || isAgencyAdmin) return true
+    const permission = (collaborators ?? form.permissionList).find(
+      (perms) => perms.email.toLowerCase() === user.email.toLowerCase(),
+    )
+    return (
+      !!permission &&
+      hasCollaboratorRoleAccess(
+        getCollaboratorRole(permission),
+        FormPermissionScope.Collaborators,
+        true,
+      )
+    )
+  }, [collaborators, form, isAgencyAdmin, isFormAdmin, user])
 
   return {
     user,
@@ -119,7 +157,9 @@ export const useAdminFormCollaborators = (formId: string) => {
     collaborators,
     isLoading: isCollabLoading || isAdminFormLoading || isUserLoading,
     isFormAdmin,
+    isAgencyAdmin,
     hasEditAccess,
+    canManageCollaborators,
   }
 }
 
@@ -23,6 +23,7 @@ import IconButton from '~components/IconButton'
 import Tooltip from '~components/Tooltip'
 import {
   AttachmentField,
+  CalculationField,
   CheckboxField,
   ChildrenCompoundField,
   DateField,
@@ -478,6 +479,8 @@ const FieldRow = ({ field, ...rest }: FieldRowProps) => {
       return <NumberField schema={field} {...rest} />
     case BasicField.Decimal:
       return <DecimalField schema={field} {...rest} />
+    case BasicField.Calculation:
+      return <CalculationField schema={field} {...rest} />
     case BasicField.Date:
       return <DateField schema={field} {...rest} />
     case BasicField.Dropdown:
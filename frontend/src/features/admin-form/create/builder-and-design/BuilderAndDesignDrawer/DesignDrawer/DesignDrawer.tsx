@@ -50,7 +50,11 @@ import {
   useDirtyFieldStore,
 } from '../../../builder-and-design/useDirtyFieldStore'
 import { validateNumberInput } from '../../../builder-and-design/utils/validateNumberInput'
-import { CreatePageDrawerContentContainer } from '../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../common'
 import { CreatePageDrawerCloseButton } from '../../../common/CreatePageDrawer/CreatePageDrawerCloseButton'
 import { FormFieldDrawerActions } from '../EditFieldDrawer/edit-fieldtype/common/FormFieldDrawerActions'
 import {
@@ -62,6 +66,14 @@ type DesignDrawerProps = {
   startPage: FormStartPage
 }
 
+const START_PAGE_TRANSLATABLE_CONTENTS = [
+  {
+    name: 'paragraphTranslations',
+    label: 'Instructions for your form',
+    isTextarea: true,
+  },
+] as const
+
 export const DesignInput = (): JSX.Element | null => {
   const toast = useToast({ status: 'danger' })
   const { formId } = useParams()
@@ -90,6 +102,7 @@ export const DesignInput = (): JSX.Element | null => {
   )
 
   const setIsDirty = useDirtyFieldStore(setIsDirtySelector)
+  const translationLanguages = useTranslationLanguages()
 
   const setToEditingHeader = useCallback(
     () => setDesignState(DesignState.EditingHeader),
@@ -365,6 +378,15 @@ export const DesignInput = (): JSX.Element | null => {
         <FormErrorMessage>{errors.paragraph?.message}</FormErrorMessage>
       </FormControl>
 
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={START_PAGE_TRANSLATABLE_CONTENTS}
+          isReadOnly={startPageMutation.isLoading}
+        />
+      ) : null}
+
       <FormFieldDrawerActions
         isLoading={startPageMutation.isLoading}
         handleClick={handleClick}
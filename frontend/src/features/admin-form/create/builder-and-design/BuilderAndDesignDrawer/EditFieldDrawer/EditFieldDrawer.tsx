@@ -27,6 +27,7 @@ import {
 } from './edit-fieldtype/EditMyInfoChildren'
 import {
   EditAttachment,
+  EditCalculation,
   EditCheckbox,
   EditDate,
   EditDecimal,
@@ -144,6 +145,8 @@ export const MemoFieldDrawerContent = memo<MemoFieldDrawerContentProps>(
         return <EditDate {...props} field={field} />
       case BasicField.Decimal:
         return <EditDecimal {...props} field={field} />
+      case BasicField.Calculation:
+        return <EditCalculation {...props} field={field} />
       case BasicField.Section:
         return <EditHeader {...props} field={field} />
       case BasicField.Uen:
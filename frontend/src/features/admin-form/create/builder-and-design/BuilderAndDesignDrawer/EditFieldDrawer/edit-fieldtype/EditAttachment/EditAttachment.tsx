@@ -28,7 +28,12 @@ import Toggle from '~components/Toggle'
 import { useCreateTabForm } from '~features/admin-form/create/builder-and-design/useCreateTabForm'
 import { getAttachmentSizeLimit } from '~features/admin-form/create/builder-and-design/utils/getAttachmentSizeLimit'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
@@ -40,6 +45,8 @@ type EditAttachmentProps = EditFieldProps<AttachmentFieldBase>
 const EDIT_ATTACHMENT_FIELD_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
   'required',
   'attachmentSize',
 ] as const
@@ -81,6 +88,8 @@ export const EditAttachment = ({ field }: EditAttachmentProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -199,6 +208,14 @@ export const EditAttachment = ({ field }: EditAttachmentProps): JSX.Element => {
       <InlineMessage useMarkdown>
         {`View our [complete list](${ACCEPTED_FILETYPES_SPREADSHEET}) of accepted file types. Please also read our [FAQ on email reliability](${GUIDE_EMAIL_RELIABILITY}) relating to unaccepted file types.`}
       </InlineMessage>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
@@ -0,0 +1,221 @@
+import { useMemo } from 'react'
+import { Controller, RegisterOptions } from 'react-hook-form'
+import { FormControl } from '@chakra-ui/react'
+import { extend, pick } from 'lodash'
+
+import { CalculationFieldBase } from '~shared/types/field'
+import {
+  CALCULATION_SOURCE_FIELDS,
+  getFormulaFieldIds,
+  MAX_CALCULATION_DECIMAL_PLACES,
+  validateFormula,
+} from '~shared/utils/calculation'
+
+import { createBaseValidationRules } from '~utils/fieldValidation'
+import { SingleSelect } from '~components/Dropdown'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import Input from '~components/Input'
+import NumberInput from '~components/NumberInput'
+import Textarea from '~components/Textarea'
+
+import { useCreateTabForm } from '~features/admin-form/create/builder-and-design/useCreateTabForm'
+import { augmentWithQuestionNo } from '~features/form/utils'
+
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
+import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
+import { EditFieldProps } from '../common/types'
+import { useEditFieldForm } from '../common/useEditFieldForm'
+
+type EditCalculationProps = EditFieldProps<CalculationFieldBase>
+
+const EDIT_CALCULATION_FIELD_KEYS = [
+  'title',
+  'description',
+  'titleTranslations',
+  'descriptionTranslations',
+  'formula',
+  'decimalPlaces',
+] as const
+
+type EditCalculationInputs = Pick<
+  CalculationFieldBase,
+  typeof EDIT_CALCULATION_FIELD_KEYS[number]
+>
+
+export const EditCalculation = ({
+  field,
+}: EditCalculationProps): JSX.Element => {
+  const {
+    register,
+    control,
+    formState: { errors },
+    getValues,
+    setValue,
+    buttonText,
+    handleUpdateField,
+    isLoading,
+    handleCancel,
+  } = useEditFieldForm<EditCalculationInputs, CalculationFieldBase>({
+    field,
+    transform: {
+      input: (inputField) => pick(inputField, EDIT_CALCULATION_FIELD_KEYS),
+      output: (formOutput, originalField) =>
+        extend({}, originalField, formOutput, {
+          // Calculated values are always present, so the field need not be
+          // required.
+          required: false,
+          formula: formOutput.formula.trim(),
+          decimalPlaces: Number(formOutput.decimalPlaces),
+        }),
+    },
+  })
+
+  const translationLanguages = useTranslationLanguages()
+
+  const { data: form } = useCreateTabForm()
+
+  // Fields which can be referenced in the formula.
+  const sourceFieldItems = useMemo(
+    () =>
+      augmentWithQuestionNo(form?.form_fields ?? [])
+        .filter((formField) =>
+          CALCULATION_SOURCE_FIELDS.includes(formField.fieldType),
+        )
+        .map((formField) => ({
+          value: formField._id,
+          label: `${formField.questionNumber}. ${formField.title}`,
+        })),
+    [form?.form_fields],
+  )
+
+  const requiredValidationRule = useMemo(
+    () => createBaseValidationRules({ required: true }),
+    [],
+  )
+
+  const formulaValidationRule: RegisterOptions<
+    EditCalculationInputs,
+    'formula'
+  > = useMemo(
+    () => ({
+      validate: (formula: string) => {
+        const syntaxError = validateFormula(formula)
+        if (syntaxError) return syntaxError
+        const sourceFieldIds = sourceFieldItems.map(({ value }) => value)
+        return (
+          getFormulaFieldIds(formula).every((fieldId) =>
+            sourceFieldIds.includes(fieldId),
+          ) ||
+          'Formula can only reference Number, Decimal, Rating and Checkbox fields'
+        )
+      },
+    }),
+    [sourceFieldItems],
+  )
+
+  const decimalPlacesValidationRule: RegisterOptions<
+    EditCalculationInputs,
+    'decimalPlaces'
+  > = useMemo(
+    () => ({
+      validate: (val) =>
+        (Number.isInteger(Number(val)) &&
+          Number(val) >= 0 &&
+          Number(val) <= MAX_CALCULATION_DECIMAL_PLACES) ||
+        `Decimal places must be a whole number from 0 to ${MAX_CALCULATION_DECIMAL_PLACES}`,
+    }),
+    [],
+  )
+
+  const handleInsertField = (fieldId: string) => {
+    if (!fieldId) return
+    setValue('formula', `${getValues('formula')} {${fieldId}}`.trim(), {
+      shouldValidate: true,
+    })
+  }
+
+  return (
+    <CreatePageDrawerContentContainer>
+      <FormControl isRequired isReadOnly={isLoading} isInvalid={!!errors.title}>
+        <FormLabel>Question</FormLabel>
+        <Input autoFocus {...register('title', requiredValidationRule)} />
+        <FormErrorMessage>{errors?.title?.message}</FormErrorMessage>
+      </FormControl>
+      <FormControl
+        isRequired
+        isReadOnly={isLoading}
+        isInvalid={!!errors.description}
+      >
+        <FormLabel>Description</FormLabel>
+        <Textarea {...register('description')} />
+        <FormErrorMessage>{errors?.description?.message}</FormErrorMessage>
+      </FormControl>
+      <FormControl
+        isRequired
+        isReadOnly={isLoading}
+        isInvalid={!!errors.formula}
+      >
+        <FormLabel description="Use +, -, *, / and brackets. Unanswered fields count as 0, and checkbox fields count the number of options selected.">
+          Formula
+        </FormLabel>
+        <Textarea
+          placeholder="e.g. {fieldA} * 1.5"
+          {...register('formula', formulaValidationRule)}
+        />
+        <FormErrorMessage>{errors?.formula?.message}</FormErrorMessage>
+      </FormControl>
+      <FormControl isReadOnly={isLoading}>
+        <FormLabel>Insert field into formula</FormLabel>
+        <SingleSelect
+          name="insertField"
+          isClearable={false}
+          items={sourceFieldItems}
+          value=""
+          onChange={handleInsertField}
+          placeholder="Select a field"
+        />
+      </FormControl>
+      <FormControl
+        isRequired
+        isReadOnly={isLoading}
+        isInvalid={!!errors.decimalPlaces}
+      >
+        <FormLabel>Decimal places</FormLabel>
+        <Controller
+          name="decimalPlaces"
+          control={control}
+          rules={decimalPlacesValidationRule}
+          render={({ field: { value, ...field } }) => (
+            <NumberInput
+              inputMode="numeric"
+              showSteppers={false}
+              value={value ?? ''}
+              {...field}
+            />
+          )}
+        />
+        <FormErrorMessage>{errors?.decimalPlaces?.message}</FormErrorMessage>
+      </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
+      <FormFieldDrawerActions
+        isLoading={isLoading}
+        buttonText={buttonText}
+        handleClick={handleUpdateField}
+        handleCancel={handleCancel}
+      />
+    </CreatePageDrawerContentContainer>
+  )
+}
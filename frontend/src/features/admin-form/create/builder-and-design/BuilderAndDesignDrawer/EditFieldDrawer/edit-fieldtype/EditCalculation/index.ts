@@ -0,0 +1 @@
+export { EditCalculation } from './EditCalculation'
@@ -15,9 +15,14 @@ import Toggle from '~components/Toggle'
 
 import { validateNumberInput } from '~features/admin-form/create/builder-and-design/utils/validateNumberInput'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
 import {
   DUPLICATE_OTHERS_VALIDATION,
+  OPTIONS_FIELD_TRANSLATABLE_CONTENTS,
   SPLIT_TEXTAREA_TRANSFORM,
   SPLIT_TEXTAREA_VALIDATION,
 } from '../common/constants'
@@ -30,6 +35,9 @@ type EditCheckboxProps = EditFieldProps<CheckboxFieldBase>
 const EDIT_CHECKBOX_FIELD_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
+  'fieldOptionsTranslations',
   'required',
   'othersRadioButton',
   'validateByValue',
@@ -97,6 +105,8 @@ export const EditCheckbox = ({ field }: EditCheckboxProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -295,6 +305,14 @@ export const EditCheckbox = ({ field }: EditCheckboxProps): JSX.Element => {
           </FormErrorMessage>
         </FormControl>
       </Box>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={OPTIONS_FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
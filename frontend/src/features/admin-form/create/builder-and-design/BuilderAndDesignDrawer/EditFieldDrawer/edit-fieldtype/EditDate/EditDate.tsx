@@ -38,7 +38,12 @@ import Toggle from '~components/Toggle'
 
 import { useCreatePageSidebarLayout } from '~features/admin-form/create/common/CreatePageSideBarLayoutContext'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
@@ -58,6 +63,8 @@ const INVALID_DAYS_OPTIONS: InvalidDaysOptions[] = [
 const EDIT_DATE_FIELD_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
   'required',
   'invalidDays',
 ] as const
@@ -199,6 +206,8 @@ export const EditDate = ({ field }: EditDateProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const hasInvalidDaysRestriction = useWatch({
     control,
     name: 'hasInvalidDays',
@@ -397,6 +406,14 @@ export const EditDate = ({ field }: EditDateProps): JSX.Element => {
           </FormControl>
         )}
       </Stack>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
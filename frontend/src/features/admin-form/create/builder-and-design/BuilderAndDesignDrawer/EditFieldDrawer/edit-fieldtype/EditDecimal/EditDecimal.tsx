@@ -13,7 +13,12 @@ import NumberInput from '~components/NumberInput'
 import Textarea from '~components/Textarea'
 import Toggle from '~components/Toggle'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
@@ -23,6 +28,8 @@ type EditDecimalProps = EditFieldProps<DecimalFieldBase>
 const EDIT_DECIMAL_FIELD_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
   'required',
   'ValidationOptions',
   'validateByValue',
@@ -69,6 +76,8 @@ export const EditDecimal = ({ field }: EditDecimalProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const watchValidateByValue = watch('validateByValue')
 
   const requiredValidationRule = useMemo(
@@ -159,6 +168,14 @@ export const EditDecimal = ({ field }: EditDecimalProps): JSX.Element => {
           {errors?.ValidationOptions?.customMax?.message}
         </FormErrorMessage>
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
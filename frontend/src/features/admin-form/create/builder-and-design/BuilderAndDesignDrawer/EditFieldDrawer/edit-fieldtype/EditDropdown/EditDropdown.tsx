@@ -11,8 +11,13 @@ import Input from '~components/Input'
 import Textarea from '~components/Textarea'
 import Toggle from '~components/Toggle'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
 import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import {
+  OPTIONS_FIELD_TRANSLATABLE_CONTENTS,
   SPLIT_TEXTAREA_TRANSFORM,
   SPLIT_TEXTAREA_VALIDATION,
 } from '../common/constants'
@@ -22,7 +27,14 @@ import { useEditFieldForm } from '../common/useEditFieldForm'
 
 type EditDropdownProps = EditFieldProps<DropdownFieldBase>
 
-const EDIT_DROPDOWN_FIELD_KEYS = ['title', 'description', 'required'] as const
+const EDIT_DROPDOWN_FIELD_KEYS = [
+  'title',
+  'description',
+  'titleTranslations',
+  'descriptionTranslations',
+  'fieldOptionsTranslations',
+  'required',
+] as const
 
 type EditDropdownKeys = typeof EDIT_DROPDOWN_FIELD_KEYS[number]
 
@@ -51,6 +63,7 @@ const transformDropdownEditFormToField = (
 export const EditDropdown = ({ field }: EditDropdownProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -65,6 +78,8 @@ export const EditDropdown = ({ field }: EditDropdownProps): JSX.Element => {
     mode: 'onBlur',
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -101,6 +116,14 @@ export const EditDropdown = ({ field }: EditDropdownProps): JSX.Element => {
           {errors?.fieldOptionsString?.message}
         </FormErrorMessage>
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={OPTIONS_FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
@@ -14,9 +14,16 @@ import Input from '~components/Input'
 import Textarea from '~components/Textarea'
 import Toggle from '~components/Toggle'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
 import { useCreateTabForm } from '../../../../useCreateTabForm'
-import { SPLIT_TEXTAREA_TRANSFORM } from '../common/constants'
+import {
+  FIELD_TRANSLATABLE_CONTENTS,
+  SPLIT_TEXTAREA_TRANSFORM,
+} from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
@@ -24,11 +31,26 @@ import { useEditFieldForm } from '../common/useEditFieldForm'
 const EDIT_EMAIL_FIELD_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
   'required',
   'isVerifiable',
   'autoReplyOptions',
 ] as const
 
+const AUTOREPLY_TRANSLATABLE_CONTENTS = [
+  ...FIELD_TRANSLATABLE_CONTENTS,
+  {
+    name: 'autoReplyOptions.autoReplySubjectTranslations',
+    label: 'Email confirmation subject',
+  },
+  {
+    name: 'autoReplyOptions.autoReplyMessageTranslations',
+    label: 'Email confirmation content',
+    isTextarea: true,
+  },
+] as const
+
 type EditEmailProps = EditFieldProps<EmailFieldBase>
 
 type EditEmailInputs = Pick<
@@ -67,6 +89,7 @@ const transformEmailEditFormToField = (
 export const EditEmail = ({ field }: EditEmailProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -81,6 +104,8 @@ export const EditEmail = ({ field }: EditEmailProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const watchedHasAllowedEmailDomains = watch('hasAllowedEmailDomains')
   const watchedHasAutoReply = watch('autoReplyOptions.hasAutoReply')
 
@@ -235,6 +260,18 @@ export const EditEmail = ({ field }: EditEmailProps): JSX.Element => {
           </>
         )}
       </Box>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={
+            watchedHasAutoReply
+              ? AUTOREPLY_TRANSLATABLE_CONTENTS
+              : FIELD_TRANSLATABLE_CONTENTS
+          }
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
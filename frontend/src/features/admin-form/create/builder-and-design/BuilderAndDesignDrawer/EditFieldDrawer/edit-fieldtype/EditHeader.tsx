@@ -10,7 +10,11 @@ import FormLabel from '~components/FormControl/FormLabel'
 import Input from '~components/Input'
 import Textarea from '~components/Textarea'
 
-import { CreatePageDrawerContentContainer } from '../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../common'
 
 import { FormFieldDrawerActions } from './common/FormFieldDrawerActions'
 import { EditFieldProps } from './common/types'
@@ -18,11 +22,20 @@ import { useEditFieldForm } from './common/useEditFieldForm'
 
 type EditHeaderProps = EditFieldProps<SectionFieldBase>
 
-type EditHeaderInputs = Pick<SectionFieldBase, 'title' | 'description'>
+type EditHeaderInputs = Pick<
+  SectionFieldBase,
+  'title' | 'description' | 'titleTranslations' | 'descriptionTranslations'
+>
+
+const HEADER_TRANSLATABLE_CONTENTS = [
+  { name: 'titleTranslations', label: 'Section heading' },
+  { name: 'descriptionTranslations', label: 'Description', isTextarea: true },
+] as const
 
 export const EditHeader = ({ field }: EditHeaderProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -31,12 +44,20 @@ export const EditHeader = ({ field }: EditHeaderProps): JSX.Element => {
   } = useEditFieldForm<EditHeaderInputs, SectionFieldBase>({
     field,
     transform: {
-      input: (inputField) => pick(inputField, ['title', 'description']),
+      input: (inputField) =>
+        pick(inputField, [
+          'title',
+          'description',
+          'titleTranslations',
+          'descriptionTranslations',
+        ]),
       output: (formOutput, originalField) =>
         extend({}, originalField, formOutput),
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -54,6 +75,14 @@ export const EditHeader = ({ field }: EditHeaderProps): JSX.Element => {
         <Textarea {...register('description')} />
         <FormErrorMessage>{errors?.description?.message}</FormErrorMessage>
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={HEADER_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
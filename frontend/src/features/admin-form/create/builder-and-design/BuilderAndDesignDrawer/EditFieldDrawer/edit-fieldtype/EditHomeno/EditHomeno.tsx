@@ -11,7 +11,12 @@ import Input from '~components/Input'
 import Textarea from '~components/Textarea'
 import Toggle from '~components/Toggle'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
@@ -19,6 +24,8 @@ import { useEditFieldForm } from '../common/useEditFieldForm'
 const EDIT_HOMENO_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
   'required',
   'allowIntlNumbers',
 ] as const
@@ -30,6 +37,7 @@ type EditHomenoInputs = Pick<HomenoFieldBase, typeof EDIT_HOMENO_KEYS[number]>
 export const EditHomeno = ({ field }: EditHomenoProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -44,6 +52,8 @@ export const EditHomeno = ({ field }: EditHomenoProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -74,6 +84,14 @@ export const EditHomeno = ({ field }: EditHomenoProps): JSX.Element => {
           label="Allow international numbers"
         />
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
@@ -19,7 +19,11 @@ import FormErrorMessage from '~components/FormControl/FormErrorMessage'
 import FormLabel from '~components/FormControl/FormLabel'
 import Textarea from '~components/Textarea'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
@@ -28,7 +32,15 @@ import { UploadedImage, UploadImageInput } from './UploadImageInput'
 
 type EditImageProps = EditFieldProps<ImageFieldBase>
 
-const EDIT_IMAGE_KEYS = ['title', 'description'] as const
+const EDIT_IMAGE_KEYS = [
+  'title',
+  'description',
+  'descriptionTranslations',
+] as const
+
+const IMAGE_TRANSLATABLE_CONTENTS = [
+  { name: 'descriptionTranslations', label: 'Description', isTextarea: true },
+] as const
 
 export type EditImageInputs = Pick<
   ImageFieldBase,
@@ -138,6 +150,8 @@ export const EditImage = ({ field }: EditImageProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -191,6 +205,14 @@ export const EditImage = ({ field }: EditImageProps): JSX.Element => {
         <Textarea {...register('description', requiredValidationRule)} />
         <FormErrorMessage>{errors?.description?.message}</FormErrorMessage>
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={IMAGE_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading || isSubmitting}
         buttonText={buttonText}
@@ -16,14 +16,25 @@ import Toggle from '~components/Toggle'
 
 import { validateNumberInput } from '~features/admin-form/create/builder-and-design/utils/validateNumberInput'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
 
 export type EditLongTextProps = EditFieldProps<LongTextFieldBase>
 
-const EDIT_LONGTEXT_FIELD_KEYS = ['title', 'description', 'required'] as const
+const EDIT_LONGTEXT_FIELD_KEYS = [
+  'title',
+  'description',
+  'titleTranslations',
+  'descriptionTranslations',
+  'required',
+] as const
 
 type EditLongTextInputs = Pick<
   LongTextFieldBase,
@@ -87,6 +98,8 @@ export const EditLongText = ({ field }: EditLongTextProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -190,6 +203,14 @@ export const EditLongText = ({ field }: EditLongTextProps): JSX.Element => {
           {errors?.ValidationOptions?.customVal?.message}
         </FormErrorMessage>
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
@@ -13,8 +13,13 @@ import Toggle from '~components/Toggle'
 
 import { useFreeSmsQuota } from '~features/admin-form/common/queries'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
 import { useCreateTabForm } from '../../../../useCreateTabForm'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
@@ -26,6 +31,8 @@ import { TwilioCredentialsMessage } from './TwilioCredentialsMessage'
 const EDIT_MOBILE_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
   'required',
   'isVerifiable',
   'allowIntlNumbers',
@@ -38,6 +45,7 @@ type EditMobileInputs = Pick<MobileFieldBase, typeof EDIT_MOBILE_KEYS[number]>
 export const EditMobile = ({ field }: EditMobileProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -52,6 +60,8 @@ export const EditMobile = ({ field }: EditMobileProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -125,6 +135,14 @@ export const EditMobile = ({ field }: EditMobileProps): JSX.Element => {
             hasTwilioCredentials={hasTwilioCredentials}
           />
         </Box>
+        {translationLanguages.length ? (
+          <TranslationInputs
+            control={control}
+            languages={translationLanguages}
+            contents={FIELD_TRANSLATABLE_CONTENTS}
+            isReadOnly={isLoading}
+          />
+        ) : null}
         <FormFieldDrawerActions
           isLoading={isLoading}
           buttonText={buttonText}
@@ -11,19 +11,32 @@ import Input from '~components/Input'
 import Textarea from '~components/Textarea'
 import Toggle from '~components/Toggle'
 
-import { CreatePageDrawerContentContainer } from '../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../common'
 
+import { FIELD_TRANSLATABLE_CONTENTS } from './common/constants'
 import { FormFieldDrawerActions } from './common/FormFieldDrawerActions'
 import { EditFieldProps } from './common/types'
 import { useEditFieldForm } from './common/useEditFieldForm'
 
 type EditNricProps = EditFieldProps<NricFieldBase>
 
-type EditNricInputs = Pick<NricFieldBase, 'title' | 'description' | 'required'>
+type EditNricInputs = Pick<
+  NricFieldBase,
+  | 'title'
+  | 'description'
+  | 'titleTranslations'
+  | 'descriptionTranslations'
+  | 'required'
+>
 
 export const EditNric = ({ field }: EditNricProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -33,12 +46,20 @@ export const EditNric = ({ field }: EditNricProps): JSX.Element => {
     field,
     transform: {
       input: (inputField) =>
-        pick(inputField, ['title', 'description', 'required']),
+        pick(inputField, [
+          'title',
+          'description',
+          'titleTranslations',
+          'descriptionTranslations',
+          'required',
+        ]),
       output: (formOutput, originalField) =>
         extend({}, originalField, formOutput),
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -59,6 +80,14 @@ export const EditNric = ({ field }: EditNricProps): JSX.Element => {
       <FormControl isReadOnly={isLoading}>
         <Toggle {...register('required')} label="Required" />
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
@@ -16,14 +16,25 @@ import Toggle from '~components/Toggle'
 
 import { validateNumberInput } from '~features/admin-form/create/builder-and-design/utils/validateNumberInput'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
 
 type EditNumberProps = EditFieldProps<NumberFieldBase>
 
-const EDIT_NUMBER_FIELD_KEYS = ['title', 'description', 'required'] as const
+const EDIT_NUMBER_FIELD_KEYS = [
+  'title',
+  'description',
+  'titleTranslations',
+  'descriptionTranslations',
+  'required',
+] as const
 
 type EditNumberInputs = Pick<
   NumberFieldBase,
@@ -89,6 +100,8 @@ export const EditNumber = ({ field }: EditNumberProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -197,6 +210,14 @@ export const EditNumber = ({ field }: EditNumberProps): JSX.Element => {
           {errors?.ValidationOptions?.customVal?.message}
         </FormErrorMessage>
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
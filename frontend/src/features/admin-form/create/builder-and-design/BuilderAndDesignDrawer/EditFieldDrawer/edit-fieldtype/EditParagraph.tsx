@@ -9,7 +9,11 @@ import FormErrorMessage from '~components/FormControl/FormErrorMessage'
 import FormLabel from '~components/FormControl/FormLabel'
 import Textarea from '~components/Textarea'
 
-import { CreatePageDrawerContentContainer } from '../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../common'
 
 import { FormFieldDrawerActions } from './common/FormFieldDrawerActions'
 import { EditFieldProps } from './common/types'
@@ -17,11 +21,19 @@ import { useEditFieldForm } from './common/useEditFieldForm'
 
 type EditParagraphProps = EditFieldProps<StatementFieldBase>
 
-type EditParagraphInputs = Pick<StatementFieldBase, 'description'>
+type EditParagraphInputs = Pick<
+  StatementFieldBase,
+  'description' | 'descriptionTranslations'
+>
+
+const PARAGRAPH_TRANSLATABLE_CONTENTS = [
+  { name: 'descriptionTranslations', label: 'Paragraph', isTextarea: true },
+] as const
 
 export const EditParagraph = ({ field }: EditParagraphProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -33,12 +45,15 @@ export const EditParagraph = ({ field }: EditParagraphProps): JSX.Element => {
       input: (inputField) => ({
         title: 'Statement',
         description: inputField.description,
+        descriptionTranslations: inputField.descriptionTranslations,
       }),
       output: (formOutput, originalField) =>
         extend({}, originalField, formOutput),
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -58,6 +73,14 @@ export const EditParagraph = ({ field }: EditParagraphProps): JSX.Element => {
         />
         <FormErrorMessage>{errors?.description?.message}</FormErrorMessage>
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={PARAGRAPH_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
@@ -11,9 +11,14 @@ import Input from '~components/Input'
 import Textarea from '~components/Textarea'
 import Toggle from '~components/Toggle'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
 import {
   DUPLICATE_OTHERS_VALIDATION,
+  OPTIONS_FIELD_TRANSLATABLE_CONTENTS,
   SPLIT_TEXTAREA_TRANSFORM,
   SPLIT_TEXTAREA_VALIDATION,
 } from '../common/constants'
@@ -26,6 +31,9 @@ type EditRadioProps = EditFieldProps<RadioFieldBase>
 const EDIT_RADIO_FIELD_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
+  'fieldOptionsTranslations',
   'required',
   'othersRadioButton',
 ] as const
@@ -57,6 +65,7 @@ const transformRadioEditFormToField = (
 export const EditRadio = ({ field }: EditRadioProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -72,6 +81,8 @@ export const EditRadio = ({ field }: EditRadioProps): JSX.Element => {
     mode: 'onBlur',
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -122,6 +133,14 @@ export const EditRadio = ({ field }: EditRadioProps): JSX.Element => {
           {errors?.fieldOptionsString?.message}
         </FormErrorMessage>
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={OPTIONS_FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
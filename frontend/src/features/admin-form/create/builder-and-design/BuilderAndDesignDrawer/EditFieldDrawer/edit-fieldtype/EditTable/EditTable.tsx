@@ -23,7 +23,12 @@ import Toggle from '~components/Toggle'
 import { isTemporaryColumnId } from '~features/admin-form/create/builder-and-design/utils/columnCreation'
 import { validateNumberInput } from '~features/admin-form/create/builder-and-design/utils/validateNumberInput'
 
-import { CreatePageDrawerContentContainer } from '../../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../../common'
+import { FIELD_TRANSLATABLE_CONTENTS } from '../common/constants'
 import { FormFieldDrawerActions } from '../common/FormFieldDrawerActions'
 import { EditFieldProps } from '../common/types'
 import { useEditFieldForm } from '../common/useEditFieldForm'
@@ -33,6 +38,8 @@ import { EditTableColumns } from './EditTableColumns'
 const EDIT_TABLE_FIELD_KEYS = [
   'title',
   'description',
+  'titleTranslations',
+  'descriptionTranslations',
   'required',
   'addMoreRows',
   'minimumRows',
@@ -109,6 +116,8 @@ export const EditTable = ({ field }: EditTableProps): JSX.Element => {
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const { register, getValues, control } = formMethods
   const { errors } = useFormState({ control })
 
@@ -200,6 +209,14 @@ export const EditTable = ({ field }: EditTableProps): JSX.Element => {
       <FormProvider {...formMethods}>
         <EditTableColumns isLoading={isLoading} />
       </FormProvider>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
@@ -11,8 +11,13 @@ import Input from '~components/Input'
 import Textarea from '~components/Textarea'
 import Toggle from '~components/Toggle'
 
-import { CreatePageDrawerContentContainer } from '../../../../common'
+import {
+  CreatePageDrawerContentContainer,
+  TranslationInputs,
+  useTranslationLanguages,
+} from '../../../../common'
 
+import { FIELD_TRANSLATABLE_CONTENTS } from './common/constants'
 import { FormFieldDrawerActions } from './common/FormFieldDrawerActions'
 import { EditFieldProps } from './common/types'
 import { useEditFieldForm } from './common/useEditFieldForm'
@@ -21,12 +26,17 @@ type EditYesNoProps = EditFieldProps<YesNoFieldBase>
 
 type EditYesNoInputs = Pick<
   YesNoFieldBase,
-  'title' | 'description' | 'required'
+  | 'title'
+  | 'description'
+  | 'titleTranslations'
+  | 'descriptionTranslations'
+  | 'required'
 >
 
 export const EditYesNo = ({ field }: EditYesNoProps): JSX.Element => {
   const {
     register,
+    control,
     formState: { errors },
     buttonText,
     handleUpdateField,
@@ -36,12 +46,20 @@ export const EditYesNo = ({ field }: EditYesNoProps): JSX.Element => {
     field,
     transform: {
       input: (inputField) =>
-        pick(inputField, ['title', 'description', 'required']),
+        pick(inputField, [
+          'title',
+          'description',
+          'titleTranslations',
+          'descriptionTranslations',
+          'required',
+        ]),
       output: (formOutput, originalField) =>
         extend({}, originalField, formOutput),
     },
   })
 
+  const translationLanguages = useTranslationLanguages()
+
   const requiredValidationRule = useMemo(
     () => createBaseValidationRules({ required: true }),
     [],
@@ -62,6 +80,14 @@ export const EditYesNo = ({ field }: EditYesNoProps): JSX.Element => {
       <FormControl isReadOnly={isLoading}>
         <Toggle {...register('required')} label="Required" />
       </FormControl>
+      {translationLanguages.length ? (
+        <TranslationInputs
+          control={control}
+          languages={translationLanguages}
+          contents={FIELD_TRANSLATABLE_CONTENTS}
+          isReadOnly={isLoading}
+        />
+      ) : null}
       <FormFieldDrawerActions
         isLoading={isLoading}
         buttonText={buttonText}
@@ -27,3 +27,13 @@ export const DUPLICATE_OTHERS_VALIDATION = (hasOthers: boolean) => ({
     )
   },
 })
+
+export const FIELD_TRANSLATABLE_CONTENTS = [
+  { name: 'titleTranslations', label: 'Question' },
+  { name: 'descriptionTranslations', label: 'Description', isTextarea: true },
+] as const
+
+export const OPTIONS_FIELD_TRANSLATABLE_CONTENTS = [
+  ...FIELD_TRANSLATABLE_CONTENTS,
+  { name: 'fieldOptionsTranslations', label: 'Options', isOptions: true },
+] as const
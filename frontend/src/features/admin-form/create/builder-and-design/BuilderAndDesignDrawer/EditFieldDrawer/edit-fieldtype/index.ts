@@ -1,4 +1,5 @@
 export * from './EditAttachment'
+export * from './EditCalculation'
 export * from './EditCheckbox'
 export * from './EditDate'
 export * from './EditDecimal'
@@ -50,6 +50,13 @@ import {
 } from '../usePaymentStore'
 
 import { FixedPaymentAmountField } from './FixedPaymentAmountField'
+import {
+  fromProductInputs,
+  NEW_PRODUCT,
+  ProductInputs,
+  ProductsPaymentField,
+  toProductInputs,
+} from './ProductsPaymentField'
 import { VariablePaymentAmountField } from './VariablePaymentAmountField'
 
 export type FormPaymentsInput = Omit<
@@ -59,6 +66,7 @@ export type FormPaymentsInput = Omit<
   display_amount: string
   display_min_amount: string
   display_max_amount: string
+  display_products: ProductInputs[]
 }
 
 const PaymentInput = ({
@@ -93,12 +101,15 @@ const PaymentInput = ({
           display_min_amount: centsToDollars(paymentsData?.min_amount ?? 0),
           display_max_amount: centsToDollars(paymentsData?.max_amount ?? 0),
         }
+      : paymentsData?.payment_type === PaymentType.Products
+      ? { display_products: toProductInputs(paymentsData.products) }
       : { display_amount: centsToDollars(paymentsData?.amount_cents ?? 0) }
   const {
     register,
     formState: { errors, dirtyFields },
     control,
     handleSubmit,
+    setValue,
   } = useForm<FormPaymentsInput>({
     mode: 'onChange',
     defaultValues: {
@@ -122,6 +133,7 @@ const PaymentInput = ({
         display_amount,
         display_min_amount,
         display_max_amount,
+        display_products,
         ...rest
       } = paymentsInputs
       setData({
@@ -129,6 +141,7 @@ const PaymentInput = ({
         min_amount: dollarsToCents(display_min_amount ?? '0'),
         max_amount: dollarsToCents(display_max_amount ?? '0'),
         amount_cents: dollarsToCents(display_amount ?? '0'),
+        products: fromProductInputs(display_products),
       })
     },
     [setData],
@@ -147,6 +160,16 @@ const PaymentInput = ({
     Object.values(clonedWatchedInputs),
   ])
 
+  // Start the product catalogue with a product for admins to fill in
+  useEffect(() => {
+    if (
+      watchedInputs.payment_type === PaymentType.Products &&
+      !watchedInputs.display_products?.length
+    ) {
+      setValue('display_products', [NEW_PRODUCT])
+    }
+  }, [setValue, watchedInputs.display_products, watchedInputs.payment_type])
+
   const handleUpdatePayments = handleSubmit(() => {
     if (isDisabled || !paymentsData) {
       // do not mutate if payments is disabled or unavailable
@@ -198,6 +221,12 @@ const PaymentInput = ({
                   description:
                     'Payment amount is defined by respondent. Suitable for donations or amounts unique to each respondent.',
                 },
+                {
+                  value: PaymentType.Products,
+                  label: 'Product catalogue',
+                  description:
+                    'Respondents choose products and quantities from a list defined by form admin. Suitable for merchandise or tickets.',
+                },
               ]}
               {...field}
             />
@@ -229,7 +258,16 @@ const PaymentInput = ({
         <Textarea {...register('description')} />
         <FormErrorMessage>{errors.description?.message}</FormErrorMessage>
       </FormControl>
-      {paymentsData?.payment_type === PaymentType.Variable ? (
+      {paymentsData?.payment_type === PaymentType.Products ? (
+        <ProductsPaymentField
+          isLoading={paymentsMutation.isLoading}
+          errors={errors}
+          isDisabled={isDisabled}
+          control={control}
+          register={register}
+          input={clonedWatchedInputs}
+        />
+      ) : paymentsData?.payment_type === PaymentType.Variable ? (
         <VariablePaymentAmountField
           isLoading={paymentsMutation.isLoading}
           errors={errors}
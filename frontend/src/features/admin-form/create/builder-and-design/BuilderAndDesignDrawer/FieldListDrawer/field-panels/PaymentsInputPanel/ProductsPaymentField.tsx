@@ -0,0 +1,282 @@
+import { useCallback } from 'react'
+import {
+  Controller,
+  RegisterOptions,
+  useFieldArray,
+  UseFormReturn,
+} from 'react-hook-form'
+import { BiPlus, BiTrash } from 'react-icons/bi'
+import {
+  Box,
+  Flex,
+  FormControl,
+  Stack,
+  StackDivider,
+  Text,
+  Textarea,
+} from '@chakra-ui/react'
+
+import { Product } from '~shared/types'
+
+import { usePaymentFieldValidation } from '~hooks/usePaymentFieldValidation'
+import { centsToDollars, dollarsToCents } from '~utils/payments'
+import Button from '~components/Button'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import IconButton from '~components/IconButton'
+import Input from '~components/Input'
+import MoneyInput from '~components/MoneyInput'
+
+import { FormPaymentsInput } from './PaymentsInputPanel'
+
+export type ProductInputs = {
+  productId?: string
+  name: string
+  description: string
+  display_amount: string
+  min_qty: string
+  max_qty: string
+  stock: string
+}
+
+export const NEW_PRODUCT: ProductInputs = {
+  name: '',
+  description: '',
+  display_amount: '',
+  min_qty: '1',
+  max_qty: '1',
+  stock: '',
+}
+
+export const toProductInputs = (products: Product[] = []): ProductInputs[] =>
+  products.map(
+    ({ _id, name, description, amount_cents, min_qty, max_qty, stock }) => ({
+      productId: _id,
+      name,
+      description: description ?? '',
+      display_amount: centsToDollars(amount_cents),
+      min_qty: String(min_qty),
+      max_qty: String(max_qty),
+      stock: stock === undefined ? '' : String(stock),
+    }),
+  )
+
+export const fromProductInputs = (inputs: ProductInputs[] = []): Product[] =>
+  inputs.map(
+    ({
+      productId,
+      name,
+      description,
+      display_amount,
+      min_qty,
+      max_qty,
+      stock,
+    }) => ({
+      _id: productId,
+      name,
+      description,
+      amount_cents: dollarsToCents(display_amount ?? '0'),
+      min_qty: Number(min_qty),
+      max_qty: Number(max_qty),
+      stock: stock.trim() === '' ? undefined : Number(stock),
+    }),
+  )
+
+const validateQuantity = (min: number) => (value: string) => {
+  const quantity = Number(value)
+  return (
+    (value.trim() !== '' && Number.isInteger(quantity) && quantity >= min) ||
+    `Enter a whole number of at least ${min}`
+  )
+}
+
+/**
+ * Inputs for the catalogue of products which respondents can choose from,
+ * with the price and the quantities allowed for each product.
+ */
+export const ProductsPaymentField = ({
+  isLoading,
+  errors,
+  isDisabled,
+  control,
+  register,
+  input,
+}: {
+  isLoading: boolean
+  isDisabled: boolean
+  errors: UseFormReturn<FormPaymentsInput>['formState']['errors']
+  control: UseFormReturn<FormPaymentsInput>['control']
+  register: UseFormReturn<FormPaymentsInput>['register']
+  input: FormPaymentsInput
+}) => {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'display_products',
+  })
+
+  const amountValidation: RegisterOptions<
+    FormPaymentsInput,
+    `display_products.${number}.display_amount`
+  > = usePaymentFieldValidation<
+    FormPaymentsInput,
+    `display_products.${number}.display_amount`
+  >()
+
+  const handleAddProduct = useCallback(() => append(NEW_PRODUCT), [append])
+
+  return (
+    <Stack spacing="1.5rem">
+      <Box>
+        <Text textStyle="subhead-1" color="secondary.700">
+          Products
+        </Text>
+        <Text textStyle="body-2" color="secondary.400" mt="0.25rem">
+          Respondents choose the products and quantities they are paying for.
+          Prices should include GST.
+        </Text>
+      </Box>
+      <Stack
+        divider={<StackDivider borderColor="secondary.100" />}
+        spacing="2rem"
+      >
+        {fields.map((field, index) => {
+          const productErrors = errors.display_products?.[index]
+          return (
+            <Stack key={field.id} spacing="1rem">
+              <FormControl
+                isReadOnly={isLoading}
+                isDisabled={isDisabled}
+                isInvalid={!!productErrors?.name}
+                isRequired
+              >
+                <Flex justify="space-between" align="flex-end">
+                  <FormLabel>Product name</FormLabel>
+                  <IconButton
+                    mb="0.75rem"
+                    variant="clear"
+                    colorScheme="danger"
+                    aria-label="Remove product"
+                    icon={<BiTrash />}
+                    isDisabled={isDisabled || fields.length === 1}
+                    onClick={() => remove(index)}
+                  />
+                </Flex>
+                <Input
+                  {...register(`display_products.${index}.name`, {
+                    required: 'This field is required',
+                  })}
+                />
+                <FormErrorMessage>
+                  {productErrors?.name?.message}
+                </FormErrorMessage>
+              </FormControl>
+              <FormControl isReadOnly={isLoading} isDisabled={isDisabled}>
+                <FormLabel>Description</FormLabel>
+                <Textarea
+                  {...register(`display_products.${index}.description`)}
+                />
+              </FormControl>
+              <FormControl
+                isReadOnly={isLoading}
+                isDisabled={isDisabled}
+                isInvalid={!!productErrors?.display_amount}
+                isRequired
+              >
+                <FormLabel>Unit price</FormLabel>
+                <Controller
+                  name={`display_products.${index}.display_amount`}
+                  control={control}
+                  rules={amountValidation}
+                  render={({ field }) => (
+                    <MoneyInput
+                      flex={1}
+                      step={0}
+                      inputMode="decimal"
+                      placeholder="0.00"
+                      {...field}
+                    />
+                  )}
+                />
+                <FormErrorMessage>
+                  {productErrors?.display_amount?.message}
+                </FormErrorMessage>
+              </FormControl>
+              <Stack direction={{ base: 'column', md: 'row' }} spacing="1rem">
+                <FormControl
+                  isReadOnly={isLoading}
+                  isDisabled={isDisabled}
+                  isInvalid={!!productErrors?.min_qty}
+                  isRequired
+                >
+                  <FormLabel>Minimum quantity</FormLabel>
+                  <Input
+                    inputMode="numeric"
+                    {...register(`display_products.${index}.min_qty`, {
+                      validate: validateQuantity(0),
+                    })}
+                  />
+                  <FormErrorMessage>
+                    {productErrors?.min_qty?.message}
+                  </FormErrorMessage>
+                </FormControl>
+                <FormControl
+                  isReadOnly={isLoading}
+                  isDisabled={isDisabled}
+                  isInvalid={!!productErrors?.max_qty}
+                  isRequired
+                >
+                  <FormLabel>Maximum quantity</FormLabel>
+                  <Input
+                    inputMode="numeric"
+                    {...register(`display_products.${index}.max_qty`, {
+                      validate: (value) =>
+                        validateQuantity(
+                          Math.max(
+                            Number(input.display_products?.[index]?.min_qty) ||
+                              0,
+                            1,
+                          ),
+                        )(value),
+                    })}
+                  />
+                  <FormErrorMessage>
+                    {productErrors?.max_qty?.message}
+                  </FormErrorMessage>
+                </FormControl>
+              </Stack>
+              <FormControl
+                isReadOnly={isLoading}
+                isDisabled={isDisabled}
+                isInvalid={!!productErrors?.stock}
+              >
+                <FormLabel description="Total quantity available across all responses. Leave empty for unlimited stock.">
+                  Stock
+                </FormLabel>
+                <Input
+                  inputMode="numeric"
+                  {...register(`display_products.${index}.stock`, {
+                    validate: (value) =>
+                      value.trim() === '' || validateQuantity(0)(value),
+                  })}
+                />
+                <FormErrorMessage>
+                  {productErrors?.stock?.message}
+                </FormErrorMessage>
+              </FormControl>
+            </Stack>
+          )
+        })}
+      </Stack>
+      <Box>
+        <Button
+          variant="outline"
+          leftIcon={<BiPlus fontSize="1.5rem" />}
+          isDisabled={isDisabled}
+          onClick={handleAddProduct}
+        >
+          Add product
+        </Button>
+      </Box>
+    </Stack>
+  )
+}
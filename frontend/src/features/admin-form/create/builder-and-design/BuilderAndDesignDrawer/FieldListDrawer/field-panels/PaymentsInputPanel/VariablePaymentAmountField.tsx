@@ -1,12 +1,17 @@
+import { useMemo } from 'react'
 import { Controller, RegisterOptions, UseFormReturn } from 'react-hook-form'
-import { FormControl, HStack } from '@chakra-ui/react'
+import { FormControl, HStack, VStack } from '@chakra-ui/react'
+
+import { BasicField } from '~shared/types/field'
 
 import { usePaymentFieldValidation } from '~hooks/usePaymentFieldValidation'
 import { centsToDollars, dollarsToCents, formatCurrency } from '~utils/payments'
+import { SingleSelect } from '~components/Dropdown'
 import FormErrorMessage from '~components/FormControl/FormErrorMessage'
 import FormLabel from '~components/FormControl/FormLabel'
 import Input from '~components/Input'
 
+import { useAdminForm } from '~features/admin-form/common/queries'
 import { useEnv } from '~features/env/queries'
 
 import { FormPaymentsInput } from './PaymentsInputPanel'
@@ -33,6 +38,15 @@ export const VariablePaymentAmountField = ({
     } = {},
   } = useEnv()
 
+  const { data: form } = useAdminForm()
+  const calculationFieldItems = useMemo(
+    () =>
+      (form?.form_fields ?? [])
+        .filter((field) => field.fieldType === BasicField.Calculation)
+        .map((field) => ({ value: field._id, label: field.title })),
+    [form?.form_fields],
+  )
+
   const minAmountInDollars = `S${formatCurrency(
     Number(centsToDollars(minPaymentAmountCents)),
   )}`
@@ -55,61 +69,82 @@ export const VariablePaymentAmountField = ({
     msgWhenEmpty: `The maximum amount is ${maxAmountInDollars}`,
   })
   return (
-    <FormControl
-      isReadOnly={isLoading}
-      // these invalid checks are required to trigger FormErrorMessage to display
-      isInvalid={!!errors[MIN_FIELD_KEY]?.message || !!errors[MAX_FIELD_KEY]}
-    >
-      <FormLabel
-        isRequired
-        description="Customise the amount that respondents are allowed to define"
+    <VStack spacing="2rem" align="stretch">
+      <FormControl isReadOnly={isLoading} isDisabled={isDisabled}>
+        <FormLabel description="Charge respondents the result of a calculation field instead of an amount they enter">
+          Calculated amount
+        </FormLabel>
+        <Controller
+          name="calculation_field_id"
+          control={control}
+          render={({ field: { value, onChange, ...field } }) => (
+            <SingleSelect
+              isClearable
+              placeholder="Respondent enters the amount"
+              items={calculationFieldItems}
+              value={value ?? ''}
+              onChange={(fieldId) => onChange(fieldId || undefined)}
+              {...field}
+            />
+          )}
+        />
+      </FormControl>
+      <FormControl
+        isReadOnly={isLoading}
+        // these invalid checks are required to trigger FormErrorMessage to display
+        isInvalid={!!errors[MIN_FIELD_KEY]?.message || !!errors[MAX_FIELD_KEY]}
       >
-        Payment amount limit
-      </FormLabel>
-      <HStack>
-        <FormControl
-          isInvalid={!!errors[MIN_FIELD_KEY]}
-          isDisabled={isDisabled}
-        >
-          <FormLabel isRequired>Minimum Amount</FormLabel>
-          <Controller
-            name={MIN_FIELD_KEY}
-            control={control}
-            rules={minAmountValidation}
-            render={({ field }) => (
-              <Input
-                flex={1}
-                step={0}
-                inputMode="decimal"
-                placeholder={minAmountInDollars}
-                {...field}
-              />
-            )}
-          />
-        </FormControl>
-        <FormControl
-          isInvalid={!!errors[MAX_FIELD_KEY]}
-          isDisabled={isDisabled}
+        <FormLabel
+          isRequired
+          description="Customise the amount that respondents are allowed to define"
         >
-          <FormLabel isRequired>Maximum Amount</FormLabel>
-          <Controller
-            name={MAX_FIELD_KEY}
-            control={control}
-            rules={maxAmountValidation}
-            render={({ field }) => (
-              <Input
-                flex={1}
-                step={0}
-                inputMode="decimal"
-                placeholder={maxAmountInDollars}
-                {...field}
-              />
-            )}
-          />
-        </FormControl>
-      </HStack>
-      <FormErrorMessage>{errors[MIN_FIELD_KEY]?.message}</FormErrorMessage>
-      <FormErrorMessage>{errors[MAX_FIELD_KEY]?.message}</FormErrorMessage>
-    </FormControl>
+          Payment amount limit
+        </FormLabel>
+        <HStack>
+          <FormControl
+            isInvalid={!!errors[MIN_FIELD_KEY]}
+            isDisabled={isDisabled}
+          >
+            <FormLabel isRequired>Minimum Amount</FormLabel>
+            <Controller
+              name={MIN_FIELD_KEY}
+              control={control}
+              rules={minAmountValidation}
+              render={({ field }) => (
+                <Input
+                  flex={1}
+                  step={0}
+                  inputMode="decimal"
+                  placeholder={minAmountInDollars}
+                  {...field}
+                />
+              )}
+            />
+          </FormControl>
+          <FormControl
+            isInvalid={!!errors[MAX_FIELD_KEY]}
+            isDisabled={isDisabled}
+          >
+            <FormLabel isRequired>Maximum Amount</FormLabel>
+            <Controller
+              name={MAX_FIELD_KEY}
+              control={control}
+              rules={maxAmountValidation}
+              render={({ field }) => (
+                <Input
+                  flex={1}
+                  step={0}
+                  inputMode="decimal"
+                  placeholder={maxAmountInDollars}
+                  {...field}
+                />
+              )}
+            />
+          </FormControl>
+        </HStack>
+        <FormErrorMessage>{errors[MIN_FIELD_KEY]?.message}</FormErrorMessage>
+        <FormErrorMessage>{errors[MAX_FIELD_KEY]?.message}</FormErrorMessage>
+      </FormControl>
+    </VStack>
   )
 }
@@ -32,6 +32,7 @@ export const BASIC_FIELDS_ORDERED = [
   BasicField.Attachment,
   BasicField.Number,
   BasicField.Decimal,
+  BasicField.Calculation,
   BasicField.Nric,
   BasicField.Uen,
 ]
@@ -120,6 +120,15 @@ export const getFieldCreationMeta = (fieldType: BasicField): FieldCreateDto => {
         size: '',
       }
     }
+    case BasicField.Calculation: {
+      return {
+        fieldType,
+        ...baseMeta,
+        required: false,
+        formula: '',
+        decimalPlaces: 2,
+      }
+    }
     case BasicField.Decimal: {
       return {
         fieldType,
@@ -0,0 +1,133 @@
+import { ChangeEvent, useCallback, useMemo } from 'react'
+import { Control, FieldValues, Path, useController } from 'react-hook-form'
+import { FormControl, Stack } from '@chakra-ui/react'
+
+import {
+  Language,
+  TranslationMapping,
+  TranslationOptionMapping,
+} from '~shared/types/form'
+
+import { LANGUAGE_LABELS } from '~constants/languages'
+import FormLabel from '~components/FormControl/FormLabel'
+import Input from '~components/Input'
+import Textarea from '~components/Textarea'
+
+import { useAdminForm } from '~features/admin-form/common/queries'
+
+export interface TranslatableContent<T extends FieldValues> {
+  /** Name of the input holding the translations of the content. */
+  name: Path<T>
+  /** Label of the original content in the drawer. */
+  label: string
+  isTextarea?: boolean
+  /**
+   * Whether the content is a list of options, which are translated one per
+   * line in the same order as the original options.
+   */
+  isOptions?: boolean
+}
+
+interface TranslationInputsProps<T extends FieldValues> {
+  control: Control<T>
+  languages: Language[]
+  contents: readonly TranslatableContent<T>[]
+  isReadOnly?: boolean
+}
+
+/**
+ * Returns the languages which the form being built can be translated into,
+ * i.e. its supported languages other than English.
+ */
+export const useTranslationLanguages = (): Language[] => {
+  const { data: form } = useAdminForm()
+  return useMemo(() => form?.supportedLanguages ?? [], [form])
+}
+
+/**
+ * Inputs for the translations of each given piece of content into each of the
+ * given languages. Translations which are left empty are removed, so that the
+ * original English content is shown to respondents instead.
+ */
+export const TranslationInputs = <T extends FieldValues>({
+  contents,
+  ...props
+}: TranslationInputsProps<T>): JSX.Element => {
+  return (
+    <Stack spacing="2rem">
+      {contents.map((content) => (
+        <ContentTranslationInputs
+          key={content.name}
+          content={content}
+          {...props}
+        />
+      ))}
+    </Stack>
+  )
+}
+
+const ContentTranslationInputs = <T extends FieldValues>({
+  control,
+  languages,
+  content,
+  isReadOnly,
+}: Omit<TranslationInputsProps<T>, 'contents'> & {
+  content: TranslatableContent<T>
+}): JSX.Element => {
+  const {
+    field: { value, onChange },
+  } = useController({ control, name: content.name })
+
+  const translations = value as
+    | (TranslationMapping | TranslationOptionMapping)[]
+    | undefined
+
+  const getTranslation = useCallback(
+    (language: Language) => {
+      const translation = translations?.find(
+        (mapping) => mapping.language === language,
+      )?.translation
+      if (!translation) return ''
+      return Array.isArray(translation) ? translation.join('\n') : translation
+    },
+    [translations],
+  )
+
+  const handleChange = useCallback(
+    (language: Language) =>
+      (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const otherTranslations = (translations ?? []).filter(
+          (mapping) => mapping.language !== language,
+        )
+        if (!e.target.value) return onChange(otherTranslations)
+        const translation = content.isOptions
+          ? e.target.value.split('\n')
+          : e.target.value
+        return onChange([...otherTranslations, { language, translation }])
+      },
+    [content.isOptions, onChange, translations],
+  )
+
+  const InputComponent =
+    content.isTextarea || content.isOptions ? Textarea : Input
+
+  return (
+    <Stack spacing="1rem">
+      {languages.map((language) => (
+        <FormControl key={language} isReadOnly={isReadOnly}>
+          <FormLabel
+            description={
+              content.isOptions
+                ? 'Enter one option per line, in the same order as the options'
+                : undefined
+            }
+          >{`${content.label} (${LANGUAGE_LABELS[language]})`}</FormLabel>
+          <InputComponent
+            value={getTranslation(language)}
+            onChange={handleChange(language)}
+          />
+        </FormControl>
+      ))}
+    </Stack>
+  )
+}
@@ -2,3 +2,4 @@ export * from './CreatePageContent'
 export * from './CreatePageDrawer'
 export * from './CreatePageSidebar'
 export * from './CreatePageSidebarContext'
+export * from './TranslationInputs'
@@ -101,6 +101,12 @@ export const BASICFIELD_TO_DRAWER_META: {
     isSubmitted: true,
   },
 
+  [BasicField.Calculation]: {
+    label: 'Calculation',
+    icon: BiCalculator,
+    isSubmitted: true,
+  },
+
   [BasicField.Dropdown]: {
     label: 'Dropdown',
     icon: BiCaretDownSquare,
@@ -30,7 +30,9 @@ import {
 } from '../builder-and-design/useDirtyFieldStore'
 import {
   CreatePageDrawerContentContainer,
+  TranslationInputs,
   useCreatePageSidebar,
+  useTranslationLanguages,
 } from '../common'
 import { CreatePageDrawerCloseButton } from '../common/CreatePageDrawer/CreatePageDrawerCloseButton'
 import { CreatePageDrawerContainer } from '../common/CreatePageDrawer/CreatePageDrawerContainer'
@@ -54,6 +56,16 @@ const buttonLinkRules: RegisterOptions<FormEndPage, 'buttonLink'> = {
     'Please enter a valid URL (starting with https:// or http://)',
 } as FieldValues
 
+const END_PAGE_TRANSLATABLE_CONTENTS = [
+  { name: 'titleTranslations', label: 'Title' },
+  {
+    name: 'paragraphTranslations',
+    label: 'Follow-up instructions',
+    isTextarea: true,
+  },
+  { name: 'buttonTextTranslations', label: 'Button text' },
+] as const
+
 export const EndPageInput = ({
   isPayment = false,
 }: {
@@ -63,6 +75,7 @@ export const EndPageInput = ({
   const { endPageMutation } = useMutateFormPage()
 
   const setIsDirty = useDirtyFieldStore(setIsDirtySelector)
+  const translationLanguages = useTranslationLanguages()
 
   const { endPageData, setData, setToInactive } = useEndPageStore(
     useCallback(
@@ -184,6 +197,14 @@ export const EndPageInput = ({
             <FormErrorMessage>{errors.buttonLink?.message}</FormErrorMessage>
           </FormControl>
         </Stack>
+        {translationLanguages.length && !isPayment ? (
+          <TranslationInputs
+            control={control}
+            languages={translationLanguages}
+            contents={END_PAGE_TRANSLATABLE_CONTENTS}
+            isReadOnly={endPageMutation.isLoading}
+          />
+        ) : null}
       </Stack>
 
       <Stack
@@ -13,27 +13,51 @@ import {
   Stack,
   VisuallyHidden,
 } from '@chakra-ui/react'
+import { format, isValid, parse } from 'date-fns'
 import { Dictionary, get, pickBy, range } from 'lodash'
 
 import { LOGIC_MAP } from '~shared/modules/logic'
 import { BasicField } from '~shared/types/field'
-import { LogicIfValue, LogicType } from '~shared/types/form'
+import {
+  LogicConditionState,
+  LogicIfValue,
+  LogicType,
+} from '~shared/types/form'
 
 import { useHasChanged } from '~hooks/useHasChanged'
 import { useWatchDependency } from '~hooks/useWatchDependency'
 import { convertToStringArray } from '~utils/stringFormat'
+import { DateRangeValue } from '~components/Calendar'
+import { DatePicker } from '~components/DatePicker'
+import { DateRangePicker } from '~components/DateRangePicker'
 import { MultiSelect, SingleSelect } from '~components/Dropdown'
 import FormErrorMessage from '~components/FormControl/FormErrorMessage'
 import IconButton from '~components/IconButton'
+import Input from '~components/Input'
 import NumberInput from '~components/NumberInput'
 
 import { BASICFIELD_TO_DRAWER_META } from '~features/admin-form/create/constants'
 import { EditLogicInputs } from '~features/admin-form/create/logic/types'
 import { FormFieldWithQuestionNo } from '~features/form/types'
+import { LOGIC_DATE_VALUE_FORMAT } from '~features/logic/constants'
 import { getIfLogicType } from '~features/logic/utils'
 
 import { BlockLabelText } from './BlockLabelText'
 
+/**
+ * Transforms ISO date condition values to and from the Date objects used by
+ * the date pickers.
+ */
+const dateTransform = {
+  input: (value: unknown): Date | null => {
+    if (typeof value !== 'string') return null
+    const date = parse(value, LOGIC_DATE_VALUE_FORMAT, new Date())
+    return isValid(date) ? date : null
+  },
+  output: (date: Date | null): string =>
+    date ? format(date, LOGIC_DATE_VALUE_FORMAT) : '',
+}
+
 export interface EditConditionBlockProps {
   index: number
   isLoading: boolean
@@ -69,6 +93,7 @@ export const EditConditionBlock = ({
   )
   const conditionStateValue = watch(`${name}.state`)
   const ifValueTypeValue = watch(`${name}.ifValueType`)
+  const isEmptyCondition = conditionStateValue === LogicConditionState.IsEmpty
   const logicTypeValue = watch('logicType')
   const showValueWatch = useWatchDependency(watch, 'show')
   const currentSelectedField = useMemo(() => {
@@ -100,6 +125,16 @@ export const EditConditionBlock = ({
     }
   }, [hasFieldIdChanged, name, resetField])
 
+  /**
+   * Effect to clear the value if the condition does not compare against any
+   * value.
+   */
+  useEffect(() => {
+    if (isEmptyCondition) {
+      setValue(`${name}.value`, '')
+    }
+  }, [isEmptyCondition, name, setValue])
+
   useEffect(() => {
     if (!currentSelectedField) {
       resetField(`${name}.ifValueType`)
@@ -154,6 +189,7 @@ export const EditConditionBlock = ({
       case BasicField.YesNo:
         return ['Yes', 'No']
       case BasicField.Radio:
+      case BasicField.Checkbox:
         if (mappedField.othersRadioButton) {
           // 'Others' does not show up in fieldOptions
           return mappedField.fieldOptions.concat('Others')
@@ -187,18 +223,27 @@ export const EditConditionBlock = ({
 
   const validateValueInputComponent = useCallback(
     (val) => {
+      if (isEmptyCondition) return true
       switch (ifValueTypeValue) {
         case LogicIfValue.Number: {
-          if (currentSelectedField?.fieldType === BasicField.Decimal)
+          if (
+            currentSelectedField?.fieldType === BasicField.Decimal ||
+            currentSelectedField?.fieldType === BasicField.Calculation
+          )
             // Mimics behavior of actual decimal field in public forms
             return !val || !isNaN(Number(val)) || 'Please enter a valid decimal'
           return true
         }
+        case LogicIfValue.DateRange:
+          return (
+            (Array.isArray(val) && val.length === 2) ||
+            'Please select a start and end date'
+          )
         default:
           return true
       }
     },
-    [currentSelectedField?.fieldType, ifValueTypeValue],
+    [currentSelectedField?.fieldType, ifValueTypeValue, isEmptyCondition],
   )
 
   const renderValueInputComponent = useCallback(
@@ -211,6 +256,9 @@ export const EditConditionBlock = ({
       }
       const { value, ...rest } = field
 
+      // Emptiness conditions do not compare against any value.
+      if (isEmptyCondition) return null
+
       switch (ifValueTypeValue) {
         case LogicIfValue.SingleSelect:
           return (
@@ -247,6 +295,50 @@ export const EditConditionBlock = ({
             />
           )
         }
+        case LogicIfValue.Date:
+          return (
+            <DatePicker
+              isDisabled={!conditionStateValue || isLoading}
+              {...rest}
+              value={dateTransform.input(value)}
+              onChange={(date) => rest.onChange(dateTransform.output(date))}
+            />
+          )
+        case LogicIfValue.DateRange: {
+          const [start, end] = convertToStringArray(value)
+          return (
+            <DateRangePicker
+              isDisabled={!conditionStateValue || isLoading}
+              {...rest}
+              value={
+                [
+                  dateTransform.input(start),
+                  dateTransform.input(end),
+                ] as DateRangeValue
+              }
+              onChange={([nextStart, nextEnd]) =>
+                rest.onChange(
+                  [nextStart, nextEnd]
+                    .filter((date): date is Date => !!date)
+                    .map(dateTransform.output),
+                )
+              }
+            />
+          )
+        }
+        case LogicIfValue.Text:
+          return (
+            <Input
+              isDisabled={!conditionStateValue || isLoading}
+              placeholder={
+                conditionStateValue === LogicConditionState.EndsWithDomain
+                  ? 'e.g. @example.gov.sg'
+                  : undefined
+              }
+              value={String(value ?? '')}
+              {...rest}
+            />
+          )
         case undefined:
           return (
             <SingleSelect
@@ -263,6 +355,7 @@ export const EditConditionBlock = ({
       conditionValueItems,
       currentSelectedField?.fieldType,
       ifValueTypeValue,
+      isEmptyCondition,
       isLoading,
     ],
   )
@@ -369,7 +462,7 @@ export const EditConditionBlock = ({
               </FormControl>
               <FormControl
                 id={`${name}.value`}
-                isRequired
+                isRequired={!isEmptyCondition}
                 isReadOnly={isLoading}
                 isInvalid={!!get(errors, `${name}.value`)}
                 minW={{ md: logicValueWrapperWidth }}
@@ -385,7 +478,8 @@ export const EditConditionBlock = ({
                   control={control}
                   name={`${name}.value`}
                   rules={{
-                    required: 'Please enter logic criteria.',
+                    required:
+                      !isEmptyCondition && 'Please enter logic criteria.',
                     validate: validateValueInputComponent,
                   }}
                   render={({ field }) => renderValueInputComponent(field)}
@@ -1,6 +1,23 @@
 import { Divider, Flex, Text } from '@chakra-ui/react'
 
-export const EditConditionBlockDivider = (): JSX.Element => {
+import { LogicGroupOperator } from '~shared/types/form'
+
+import Button from '~components/Button'
+
+export interface EditConditionBlockDividerProps {
+  operator?: LogicGroupOperator
+  /** If provided, the operator can be toggled by clicking on it. */
+  handleToggleOperator?: () => void
+  isDisabled?: boolean
+}
+
+export const EditConditionBlockDivider = ({
+  operator = LogicGroupOperator.And,
+  handleToggleOperator,
+  isDisabled,
+}: EditConditionBlockDividerProps): JSX.Element => {
+  const operatorLabel = operator.toUpperCase()
+
   return (
     <Flex w="100%" my="2rem">
       <Divider
@@ -8,9 +25,22 @@ export const EditConditionBlockDivider = (): JSX.Element => {
         ml={{ base: '-1.5rem', md: '-2rem' }}
         pr={{ base: '1.5rem', md: '2rem' }}
       />
-      <Text p="0.625rem" textStyle="subhead-3" color="secondary.500">
-        AND
-      </Text>
+      {handleToggleOperator ? (
+        <Button
+          variant="clear"
+          colorScheme="secondary"
+          textStyle="subhead-3"
+          isDisabled={isDisabled}
+          onClick={handleToggleOperator}
+          aria-label={`Conditions are combined with ${operatorLabel}, click to change`}
+        >
+          {operatorLabel}
+        </Button>
+      ) : (
+        <Text p="0.625rem" textStyle="subhead-3" color="secondary.500">
+          {operatorLabel}
+        </Text>
+      )}
       <Divider
         alignSelf="center"
         mr={{ base: '-1.5rem', md: '-2rem' }}
@@ -1,19 +1,31 @@
 import { useEffect, useMemo, useState } from 'react'
 import { Controller, UseFormReturn } from 'react-hook-form'
-import { BiShow, BiX } from 'react-icons/bi'
+import {
+  BiCheckSquare,
+  BiEditAlt,
+  BiShow,
+  BiSkipNext,
+  BiX,
+} from 'react-icons/bi'
 import { FormControl, Stack, Text } from '@chakra-ui/react'
 import get from 'lodash/get'
 import simplur from 'simplur'
 
-import { FormFieldDto } from '~shared/types/field'
+import { isLogicSettableField } from '~shared/modules/logic'
+import { BasicField, FormFieldDto } from '~shared/types/field'
 import { LogicType } from '~shared/types/form'
 
 import { useWatchDependency } from '~hooks/useWatchDependency'
 import { MultiSelect, SingleSelect } from '~components/Dropdown'
 import FormErrorMessage from '~components/FormControl/FormErrorMessage'
 import InlineMessage from '~components/InlineMessage'
+import Input from '~components/Input'
 import Textarea from '~components/Textarea'
 
+import {
+  TranslationInputs,
+  useTranslationLanguages,
+} from '~features/admin-form/create/common/TranslationInputs'
 import { BASICFIELD_TO_DRAWER_META } from '~features/admin-form/create/constants'
 import { EditLogicInputs } from '~features/admin-form/create/logic/types'
 import { FormFieldWithQuestionNo } from '~features/form/types'
@@ -22,6 +34,14 @@ import { getLogicFieldLabel } from '../../utils/getLogicFieldLabel'
 
 import { BlockLabelText } from './BlockLabelText'
 
+const PREVENT_SUBMIT_TRANSLATABLE_CONTENTS = [
+  {
+    name: 'preventSubmitMessageTranslations',
+    label: 'Message',
+    isTextarea: true,
+  },
+] as const
+
 interface ThenShowBlockProps {
   isLoading: boolean
   formMethods: UseFormReturn<EditLogicInputs>
@@ -58,6 +78,21 @@ export const ThenShowBlock = ({
         value: LogicType.PreventSubmit,
         icon: BiX,
       },
+      {
+        label: 'Require field(s)',
+        value: LogicType.RequireFields,
+        icon: BiCheckSquare,
+      },
+      {
+        label: 'Set field value',
+        value: LogicType.SetFieldValue,
+        icon: BiEditAlt,
+      },
+      {
+        label: 'Skip to section',
+        value: LogicType.SkipToSection,
+        icon: BiSkipNext,
+      },
     ]
   }, [])
 
@@ -67,14 +102,28 @@ export const ThenShowBlock = ({
   useEffect(() => {
     resetField('show')
     resetField('preventSubmitMessage')
+    resetField('preventSubmitMessageTranslations')
+    resetField('require')
+    resetField('setField')
+    resetField('setValue')
+    resetField('skipToSection')
   }, [resetField, logicTypeValue])
 
   // Label changes depending on logic type.
-  const currentShowLabel = useMemo(() => {
-    // Default to `show`
-    return logicTypeValue === LogicType.PreventSubmit
-      ? 'preventSubmitMessage'
-      : 'show'
+  const [currentShowLabel, currentShowText] = useMemo(() => {
+    switch (logicTypeValue) {
+      case LogicType.PreventSubmit:
+        return ['preventSubmitMessage', 'Show']
+      case LogicType.RequireFields:
+        return ['require', 'Require']
+      case LogicType.SetFieldValue:
+        return ['setField', 'Set']
+      case LogicType.SkipToSection:
+        return ['skipToSection', 'Skip to']
+      // Default to `show`
+      default:
+        return ['show', 'Show']
+    }
   }, [logicTypeValue])
 
   const [deletedFieldsCount, setDeletedFieldsCount] = useState(0)
@@ -178,7 +227,7 @@ export const ThenShowBlock = ({
           id={`${currentShowLabel}-label`}
           htmlFor={currentShowLabel}
         >
-          Show
+          {currentShowText}
         </BlockLabelText>
         <ThenLogicInput
           formFields={formFields}
@@ -205,23 +254,37 @@ const ThenLogicInput = ({
     formState: { errors },
   } = formMethods
 
+  const translationLanguages = useTranslationLanguages()
+
   const logicTypeValue = watch('logicType')
   const logicConditionsWatch = useWatchDependency(watch, 'conditions')
 
   const thenValueItems = useMemo(() => {
-    // Return every field except fields that are already used in the logic.
-    if (logicTypeValue === LogicType.ShowFields) {
-      if (!formFields || !mapIdToField) return []
-      const usedFieldIds = new Set(
-        logicConditionsWatch.value.map((condition) => condition.field),
-      )
-      return formFields
-        .filter((f) => !usedFieldIds.has(f._id))
-        .map((f) => ({
-          value: f._id,
-          label: getLogicFieldLabel(mapIdToField[f._id]),
-          icon: BASICFIELD_TO_DRAWER_META[f.fieldType].icon,
-        }))
+    if (!formFields || !mapIdToField) return []
+    const usedFieldIds = new Set(
+      logicConditionsWatch.value.map((condition) => condition.field),
+    )
+    const toItem = (f: FormFieldDto) => ({
+      value: f._id,
+      label: getLogicFieldLabel(mapIdToField[f._id]),
+      icon: BASICFIELD_TO_DRAWER_META[f.fieldType].icon,
+    })
+    switch (logicTypeValue) {
+      // Return every field except fields that are already used in the logic.
+      case LogicType.ShowFields:
+      case LogicType.RequireFields:
+        return formFields.filter((f) => !usedFieldIds.has(f._id)).map(toItem)
+      case LogicType.SetFieldValue:
+        return formFields
+          .filter(
+            (f) =>
+              !usedFieldIds.has(f._id) && isLogicSettableField(f.fieldType),
+          )
+          .map(toItem)
+      case LogicType.SkipToSection:
+        return formFields
+          .filter((f) => f.fieldType === BasicField.Section)
+          .map(toItem)
     }
     return []
     // Watch entire <***>Watch variables since <***>Watch.value is a Proxy object
@@ -229,26 +292,155 @@ const ThenLogicInput = ({
   }, [formFields, logicConditionsWatch, mapIdToField, logicTypeValue])
 
   if (logicTypeValue === LogicType.PreventSubmit) {
+    return (
+      <Stack direction="column" spacing="0.75rem" flex={1} minW={0}>
+        <FormControl
+          id="preventSubmitMessage"
+          isReadOnly={isLoading}
+          isRequired
+          isInvalid={!!errors.preventSubmitMessage}
+        >
+          <Textarea
+            {...register('preventSubmitMessage', {
+              required: {
+                value: !!getValues('logicType'),
+                message:
+                  'Please enter a message to display when submission is prevented',
+              },
+            })}
+            placeholder="Custom message to be displayed when submission is prevented"
+          />
+          <FormErrorMessage>
+            {errors.preventSubmitMessage?.message}
+          </FormErrorMessage>
+        </FormControl>
+        {translationLanguages.length ? (
+          <TranslationInputs
+            control={control}
+            languages={translationLanguages}
+            contents={PREVENT_SUBMIT_TRANSLATABLE_CONTENTS}
+            isReadOnly={isLoading}
+          />
+        ) : null}
+      </Stack>
+    )
+  }
+
+  if (logicTypeValue === LogicType.RequireFields) {
     return (
       <FormControl
-        id="preventSubmitMessage"
+        id="require"
         isReadOnly={isLoading}
         isRequired
-        isInvalid={!!errors.preventSubmitMessage}
+        isInvalid={!!errors.require}
+        minW={0}
       >
-        <Textarea
-          {...register('preventSubmitMessage', {
+        <Controller
+          name="require"
+          control={control}
+          rules={{
             required: {
               value: !!getValues('logicType'),
               message:
-                'Please enter a message to display when submission is prevented',
+                'Please select fields to require if logic criteria is met.',
+            },
+          }}
+          render={({ field: { value, ...rest } }) => (
+            <MultiSelect
+              isDisabled={isLoading}
+              placeholder={null}
+              items={thenValueItems}
+              values={value ?? []}
+              isSelectedItemFullWidth
+              {...rest}
+            />
+          )}
+        />
+        <FormErrorMessage>{get(errors, 'require.message')}</FormErrorMessage>
+      </FormControl>
+    )
+  }
+
+  if (logicTypeValue === LogicType.SetFieldValue) {
+    return (
+      <Stack direction="column" spacing="0.75rem" flex={1} minW={0}>
+        <FormControl
+          id="setField"
+          isReadOnly={isLoading}
+          isRequired
+          isInvalid={!!errors.setField}
+        >
+          <Controller
+            name="setField"
+            control={control}
+            rules={{
+              required: {
+                value: !!getValues('logicType'),
+                message:
+                  'Please select a field to set if logic criteria is met.',
+              },
+            }}
+            render={({ field }) => (
+              <SingleSelect
+                isDisabled={isLoading}
+                isClearable={false}
+                placeholder="Select a field"
+                items={thenValueItems}
+                {...field}
+              />
+            )}
+          />
+          <FormErrorMessage>{errors.setField?.message}</FormErrorMessage>
+        </FormControl>
+        <FormControl
+          id="setValue"
+          isReadOnly={isLoading}
+          isRequired
+          isInvalid={!!errors.setValue}
+        >
+          <Input
+            {...register('setValue', {
+              required: {
+                value: !!getValues('logicType'),
+                message: 'Please enter a value to set on the field',
+              },
+            })}
+            placeholder="Value to set on the field"
+          />
+          <FormErrorMessage>{errors.setValue?.message}</FormErrorMessage>
+        </FormControl>
+      </Stack>
+    )
+  }
+
+  if (logicTypeValue === LogicType.SkipToSection) {
+    return (
+      <FormControl
+        id="skipToSection"
+        isReadOnly={isLoading}
+        isRequired
+        isInvalid={!!errors.skipToSection}
+      >
+        <Controller
+          name="skipToSection"
+          control={control}
+          rules={{
+            required: {
+              value: !!getValues('logicType'),
+              message: 'Please select a section to skip to.',
             },
-          })}
-          placeholder="Custom message to be displayed when submission is prevented"
+          }}
+          render={({ field }) => (
+            <SingleSelect
+              isDisabled={isLoading}
+              isClearable={false}
+              placeholder="Select a section"
+              items={thenValueItems}
+              {...field}
+            />
+          )}
         />
-        <FormErrorMessage>
-          {errors.preventSubmitMessage?.message}
-        </FormErrorMessage>
+        <FormErrorMessage>{errors.skipToSection?.message}</FormErrorMessage>
       </FormControl>
     )
   }
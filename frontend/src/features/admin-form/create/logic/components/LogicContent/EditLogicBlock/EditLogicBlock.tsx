@@ -1,8 +1,11 @@
-import { useCallback, useLayoutEffect, useMemo, useRef } from 'react'
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react'
 import { useFieldArray, useForm } from 'react-hook-form'
 import { Stack } from '@chakra-ui/react'
 import { merge } from 'lodash'
 
+import { getDefaultConditionGroup } from '~shared/modules/logic'
+import { LogicGroupOperator } from '~shared/types/form'
+
 import {
   setToInactiveSelector,
   useAdminLogicStore,
@@ -47,6 +50,30 @@ export const useEditLogicBlock = ({
 
   const wrapperRef = useRef<HTMLDivElement | null>(null)
 
+  // The logic builder only supports combining all conditions with a single
+  // operator. Nested condition groups can be created via the API, and are kept
+  // as long as the conditions are not added or removed.
+  const [operator, setOperator] = useState(
+    defaultValues?.conditionGroup?.operator ?? LogicGroupOperator.And,
+  )
+  const hasNestedConditionGroup = useMemo(
+    () =>
+      !!defaultValues?.conditionGroup?.items.some(
+        (item) => typeof item !== 'number',
+      ),
+    [defaultValues?.conditionGroup],
+  )
+
+  const handleToggleOperator = useCallback(
+    () =>
+      setOperator((prev) =>
+        prev === LogicGroupOperator.And
+          ? LogicGroupOperator.Or
+          : LogicGroupOperator.And,
+      ),
+    [],
+  )
+
   useLayoutEffect(() => {
     if (wrapperRef.current) {
       wrapperRef.current.scrollIntoView({
@@ -75,7 +102,17 @@ export const useEditLogicBlock = ({
     [logicConditionBlocks.length, remove],
   )
 
-  const handleSubmit = formMethods.handleSubmit((inputs) => onSubmit(inputs))
+  const handleSubmit = formMethods.handleSubmit((inputs) => {
+    const conditionGroup =
+      hasNestedConditionGroup &&
+      defaultValues?.conditions?.length === inputs.conditions.length
+        ? defaultValues.conditionGroup
+        : {
+            ...getDefaultConditionGroup(inputs.conditions.length),
+            operator,
+          }
+    return onSubmit({ ...inputs, conditionGroup })
+  })
 
   return {
     formMethods,
@@ -88,6 +125,10 @@ export const useEditLogicBlock = ({
     logicableFields,
     mapIdToField,
     formFields,
+    operator,
+    handleToggleOperator: hasNestedConditionGroup
+      ? undefined
+      : handleToggleOperator,
   }
 }
 
@@ -115,12 +156,20 @@ export const EditLogicBlock = ({
     logicableFields,
     mapIdToField,
     formFields,
+    operator,
+    handleToggleOperator,
   } = useEditLogicBlock({ defaultValues, onSubmit })
 
   return (
     <EditConditionWrapper ref={wrapperRef}>
       <Stack
-        divider={<EditConditionBlockDivider />}
+        divider={
+          <EditConditionBlockDivider
+            operator={operator}
+            handleToggleOperator={handleToggleOperator}
+            isDisabled={isLoading}
+          />
+        }
         direction="column"
         py="1.5rem"
         px={{ base: '1.5rem', md: '2rem' }}
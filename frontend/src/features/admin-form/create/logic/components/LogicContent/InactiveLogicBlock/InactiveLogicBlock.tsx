@@ -9,7 +9,13 @@ import {
   Text,
 } from '@chakra-ui/react'
 
-import { LogicDto, LogicType } from '~shared/types/form'
+import { getConditionGroup } from '~shared/modules/logic'
+import {
+  LogicConditionState,
+  LogicDto,
+  LogicGroupOperator,
+  LogicType,
+} from '~shared/types/form'
 
 import IconButton from '~components/IconButton'
 
@@ -40,6 +46,14 @@ export const InactiveLogicBlock = ({
   // Prevent editing logic if some other logic block is being edited.
   const isPreventEdit = useMemo(() => !!stateData, [stateData])
 
+  // Label joining conditions. Logic with nested condition groups can only be
+  // created via the API, and is summarised as 'and/or'.
+  const conditionJoinLabel = useMemo(() => {
+    const { operator, items } = getConditionGroup(logic)
+    if (items.some((item) => typeof item !== 'number')) return 'and/or'
+    return operator === LogicGroupOperator.Or ? 'or' : 'and'
+  }, [logic])
+
   const renderThenContent = useMemo(() => {
     if (!mapIdToField) return null
 
@@ -84,6 +98,41 @@ export const InactiveLogicBlock = ({
             <LogicBadge>{logic.preventSubmitMessage}</LogicBadge>
           </>
         )
+      case LogicType.RequireFields:
+        return (
+          <>
+            <Text>then require</Text>
+            <Stack direction="column" spacing="0.25rem">
+              {logic.require.map((fieldId, index) => (
+                <FieldLogicBadge
+                  key={index}
+                  field={mapIdToField[fieldId]}
+                  defaults={{
+                    variant: 'info',
+                    message:
+                      'This field was deleted and has been removed from your logic',
+                  }}
+                />
+              ))}
+            </Stack>
+          </>
+        )
+      case LogicType.SetFieldValue:
+        return (
+          <>
+            <Text>then set</Text>
+            <FieldLogicBadge field={mapIdToField[logic.setField]} />
+            <Text>to</Text>
+            <LogicBadge>{logic.setValue}</LogicBadge>
+          </>
+        )
+      case LogicType.SkipToSection:
+        return (
+          <>
+            <Text>then skip to</Text>
+            <FieldLogicBadge field={mapIdToField[logic.skipToSection]} />
+          </>
+        )
     }
   }, [logic, mapIdToField])
 
@@ -135,7 +184,7 @@ export const InactiveLogicBlock = ({
               color="secondary.500"
             >
               <Stack>
-                <Text>{index === 0 ? 'If' : 'and'}</Text>
+                <Text>{index === 0 ? 'If' : conditionJoinLabel}</Text>
                 <FieldLogicBadge
                   field={mapIdToField[condition.field]}
                   defaults={{
@@ -147,7 +196,9 @@ export const InactiveLogicBlock = ({
               </Stack>
               <Stack>
                 <Text>{condition.state}</Text>
-                <LogicConditionValues value={condition.value} />
+                {condition.state === LogicConditionState.IsEmpty ? null : (
+                  <LogicConditionValues value={condition.value} />
+                )}
               </Stack>
             </Stack>
           ))}
@@ -30,8 +30,19 @@ export const useAdminFormLogic = () => {
     () =>
       form?.form_logics.reduce((set, logic) => {
         logic.conditions.map((cond) => cond.field).forEach((id) => set.add(id))
-        if (logic.logicType === LogicType.ShowFields) {
-          logic.show.forEach((id) => set.add(id))
+        switch (logic.logicType) {
+          case LogicType.ShowFields:
+            logic.show.forEach((id) => set.add(id))
+            break
+          case LogicType.RequireFields:
+            logic.require.forEach((id) => set.add(id))
+            break
+          case LogicType.SetFieldValue:
+            set.add(logic.setField)
+            break
+          case LogicType.SkipToSection:
+            set.add(logic.skipToSection)
+            break
         }
         return set
       }, new Set()),
@@ -43,12 +54,18 @@ export const useAdminFormLogic = () => {
     return form.form_logics.some(
       (logic) =>
         // Logic is errored if some condition does not exist, or all the
-        // show fields do not exist.
+        // fields acted on do not exist.
         logic.conditions.some(
           (condition) => !(condition.field in mapIdToField),
         ) ||
         (logic.logicType === LogicType.ShowFields &&
-          logic.show.every((field) => !(field in mapIdToField))),
+          logic.show.every((field) => !(field in mapIdToField))) ||
+        (logic.logicType === LogicType.RequireFields &&
+          logic.require.every((field) => !(field in mapIdToField))) ||
+        (logic.logicType === LogicType.SetFieldValue &&
+          !(logic.setField in mapIdToField)) ||
+        (logic.logicType === LogicType.SkipToSection &&
+          !(logic.skipToSection in mapIdToField)),
     )
   }, [form?.form_logics, mapIdToField])
 
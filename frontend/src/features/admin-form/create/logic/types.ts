@@ -1,7 +1,10 @@
 import {
   FormLogic,
   PreventSubmitLogic,
+  RequireFieldsLogic,
+  SetFieldValueLogic,
   ShowFieldLogic,
+  SkipToSectionLogic,
 } from '~shared/types/form'
 
 export enum AdminEditLogicState {
@@ -11,5 +14,10 @@ export enum AdminEditLogicState {
 
 export type EditLogicInputs = FormLogic & {
   preventSubmitMessage?: PreventSubmitLogic['preventSubmitMessage']
+  preventSubmitMessageTranslations?: PreventSubmitLogic['preventSubmitMessageTranslations']
   show?: ShowFieldLogic['show']
+  require?: RequireFieldsLogic['require']
+  setField?: SetFieldValueLogic['setField']
+  setValue?: SetFieldValueLogic['setValue']
+  skipToSection?: SkipToSectionLogic['skipToSection']
 }
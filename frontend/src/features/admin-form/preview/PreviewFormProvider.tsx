@@ -228,6 +228,7 @@ export const PreviewFormProvider = ({
                 {
                   ...formData,
                   publicKey: form.publicKey,
+                  paymentsField: form.payments_field,
                 },
                 {
                   onSuccess,
@@ -268,6 +269,7 @@ export const PreviewFormProvider = ({
                   {
                     ...formData,
                     publicKey: form.publicKey,
+                    paymentsField: form.payments_field,
                   },
                   {
                     onSuccess,
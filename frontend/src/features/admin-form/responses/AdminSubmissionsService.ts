@@ -1,12 +1,17 @@
+import {
+  PaymentRefundBodyDto,
+  PaymentsReportQueryDto,
+} from '~shared/types/payment'
 import {
   FormSubmissionMetadataQueryDto,
   StorageModeSubmissionDto,
   StorageModeSubmissionMetadataList,
   SubmissionCountQueryDto,
+  SubmissionPaymentDto,
 } from '~shared/types/submission'
 
 import formsgSdk from '~utils/formSdk'
-import { ApiService } from '~services/ApiService'
+import { API_BASE_URL, ApiService } from '~services/ApiService'
 
 import { ADMIN_FORM_ENDPOINT } from '../common/AdminViewFormService'
 
@@ -100,3 +105,44 @@ export const getDecryptedSubmissionById = async ({
     responses: processedContent,
   }
 }
+
+/**
+ * Refunds the payment of a response, in full or in part
+ * @param formId the form the payment was made for
+ * @param paymentId the payment to refund
+ * @param refund the amount in cents and reason of the refund
+ * @returns The refunded payment
+ */
+export const refundSubmissionPayment = async ({
+  formId,
+  paymentId,
+  ...refund
+}: PaymentRefundBodyDto & {
+  formId: string
+  paymentId: string
+}): Promise<SubmissionPaymentDto> => {
+  return ApiService.post<SubmissionPaymentDto>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/payments/${paymentId}/refunds`,
+    refund,
+  ).then(({ data }) => data)
+}
+
+/**
+ * Gets the url to download the payments report of a form from
+ * @param formId the form to download the payments report of
+ * @param query the date range and format of the report, and whether to verify the report with Stripe
+ * @returns The url of the payments report
+ */
+export const getPaymentsReportUrl = (
+  formId: string,
+  { startDate, endDate, format, verifyWithStripe }: PaymentsReportQueryDto,
+): string => {
+  const searchParams = new URLSearchParams()
+  if (startDate && endDate) {
+    searchParams.set('startDate', startDate)
+    searchParams.set('endDate', endDate)
+  }
+  if (format) searchParams.set('format', format)
+  if (verifyWithStripe) searchParams.set('verifyWithStripe', 'true')
+  return `${API_BASE_URL}${ADMIN_FORM_ENDPOINT}/${formId}/payments/report?${searchParams}`
+}
@@ -1,4 +1,4 @@
-import { useCallback, useState } from 'react'
+import { useCallback, useMemo, useState } from 'react'
 import { UseMutationResult } from 'react-query'
 import { useParams } from 'react-router-dom'
 import {
@@ -10,15 +10,28 @@ import {
   Icon,
   Text,
 } from '@chakra-ui/react'
+import { format } from 'date-fns'
 import simplur from 'simplur'
 
-import { ProcessedFeedbackMeta, ProcessedIssueMeta } from '~shared/types'
+import {
+  FeedbackRatingDistribution,
+  FeedbackRatingTrend,
+  FormFeedbackMetaQueryDto,
+  FormIssueMetaQueryDto,
+  FormIssueStatus,
+  FormResponseMode,
+  ProcessedFeedbackMeta,
+  ProcessedIssueMeta,
+} from '~shared/types'
 
 import Pagination from '~/components/Pagination'
 
 import { BxsInfoCircle } from '~assets/icons'
 import { useIsMobile } from '~hooks/useIsMobile'
 import Button, { ButtonProps } from '~components/Button'
+import { DateRangeValue } from '~components/Calendar'
+import { DateRangePicker } from '~components/DateRangePicker'
+import { SingleSelect } from '~components/Dropdown'
 import Tooltip from '~components/Tooltip'
 
 import {
@@ -27,12 +40,24 @@ import {
   useFormFeedbackMutations,
   useFormIssueMutations,
 } from '~features/admin-form/common/mutations'
-import { useAdminForm } from '~features/admin-form/common/queries'
+import {
+  useAdminForm,
+  useAdminFormCollaborators,
+} from '~features/admin-form/common/queries'
 
 import { useFormFeedback, useFormIssues } from '../queries'
 
-import { ISSUE_TABLE_COLUMNS } from './issue/IssueTable'
-import { REVIEW_TABLE_COLUMNS } from './review/ReviewTable'
+import { IssueDetailsModal } from './issue/IssueDetailsModal'
+import {
+  getSelectableIssueTableColumns,
+  ISSUE_TABLE_COLUMNS,
+} from './issue/IssueTable'
+import { IssueTriageBar } from './issue/IssueTriageBar'
+import { RatingBreakdown } from './review/RatingBreakdown'
+import {
+  REVIEW_TABLE_COLUMNS,
+  REVIEW_TABLE_COLUMNS_WITH_RESPONSE,
+} from './review/ReviewTable'
 import { EmptyFeedback } from './EmptyFeedback'
 import { FeedbackDownloadButton } from './FeedbackDownloadButton'
 import {
@@ -53,12 +78,18 @@ interface Feedback {
 
 interface Issue extends Feedback {
   data: ProcessedIssueMeta[] | undefined
+  /** Whether the issues are filtered by status or assignee. */
+  isFiltered: boolean
   download: UseMutationResult<void, Error, DownloadFormIssuesMutationArgs>
 }
 
 interface Review extends Feedback {
   data: ProcessedFeedbackMeta[] | undefined
   average: string | undefined
+  ratingDistribution: FeedbackRatingDistribution | undefined
+  ratingTrend: FeedbackRatingTrend | undefined
+  /** Whether the reviews are filtered by date range or rating. */
+  isFiltered: boolean
   download: UseMutationResult<void, Error, DownloadFormFeedbackMutationArgs>
 }
 
@@ -66,6 +97,8 @@ export const FeedbackPage = (): JSX.Element => {
   // Extract form information
   const { data: form } = useAdminForm()
   const { formId } = useParams()
+  if (!formId) throw new Error('No formId provided')
+  const { hasEditAccess } = useAdminFormCollaborators(formId)
 
   // Meta for feedback page
   const isMobile = useIsMobile()
@@ -74,27 +107,127 @@ export const FeedbackPage = (): JSX.Element => {
     FeedbackType.Issues,
   )
 
+  // Filters for form reviews
+  const [reviewDateRange, setReviewDateRange] = useState<DateRangeValue>([
+    null,
+    null,
+  ])
+  const [reviewRating, setReviewRating] = useState<string>('')
+  const reviewFilters = useMemo(() => {
+    const filters: FormFeedbackMetaQueryDto = {}
+    const [start, end] = reviewDateRange
+    if (start && end) {
+      filters.startDate = format(start, 'yyyy-MM-dd')
+      filters.endDate = format(end, 'yyyy-MM-dd')
+    }
+    if (reviewRating) {
+      filters.rating = Number(reviewRating)
+    }
+    return filters
+  }, [reviewDateRange, reviewRating])
+
+  const handleReviewDateRangeChange = useCallback((range: DateRangeValue) => {
+    setReviewDateRange(range)
+    setCurrentPage(1)
+  }, [])
+  const handleReviewRatingChange = useCallback((rating: string) => {
+    setReviewRating(rating)
+    setCurrentPage(1)
+  }, [])
+
   // Hooks for form reviews
-  const { data: reviewData, isLoading: isReviewLoading } = useFormFeedback()
+  const { data: reviewData, isLoading: isReviewLoading } =
+    useFormFeedback(reviewFilters)
   const reviewDownload = useFormFeedbackMutations().downloadFormFeedbackMutation
   const reviewProps: Review = {
     count: reviewData?.count,
     data: reviewData?.feedback,
     average: reviewData?.average,
+    ratingDistribution: reviewData?.ratingDistribution,
+    ratingTrend: reviewData?.ratingTrend,
+    isFiltered: Object.keys(reviewFilters).length > 0,
     download: reviewDownload,
     isGetLoading: isReviewLoading,
   }
 
+  // Filters and selection for form issues
+  const [issueStatusFilter, setIssueStatusFilter] = useState<string>('')
+  const [issueAssigneeFilter, setIssueAssigneeFilter] = useState<string>('')
+  const [selectedIssueIds, setSelectedIssueIds] = useState<Set<string>>(
+    new Set(),
+  )
+  const [openedIssueId, setOpenedIssueId] = useState<string | null>(null)
+  const issueFilters = useMemo(() => {
+    const filters: FormIssueMetaQueryDto = {}
+    if (issueStatusFilter) {
+      filters.status = issueStatusFilter as FormIssueStatus
+    }
+    if (issueAssigneeFilter) {
+      filters.assignee = issueAssigneeFilter
+    }
+    return filters
+  }, [issueStatusFilter, issueAssigneeFilter])
+
+  const handleIssueStatusFilterChange = useCallback((status: string) => {
+    setIssueStatusFilter(status)
+    setSelectedIssueIds(new Set())
+    setCurrentPage(1)
+  }, [])
+  const handleIssueAssigneeFilterChange = useCallback((assignee: string) => {
+    setIssueAssigneeFilter(assignee)
+    setSelectedIssueIds(new Set())
+    setCurrentPage(1)
+  }, [])
+  const handleToggleIssue = useCallback((issueId: string) => {
+    setSelectedIssueIds((prev) => {
+      const next = new Set(prev)
+      if (!next.delete(issueId)) next.add(issueId)
+      return next
+    })
+  }, [])
+
   // Hooks for form issues
-  const { data: issueData, isLoading: isIssueLoading } = useFormIssues()
-  const issueDownload = useFormIssueMutations().downloadFormIssueMutation
+  const { data: issueData, isLoading: isIssueLoading } =
+    useFormIssues(issueFilters)
+  const { downloadFormIssueMutation, updateFormIssuesStatusMutation } =
+    useFormIssueMutations()
   const issueProps: Issue = {
     count: issueData?.count,
     data: issueData?.issues,
-    download: issueDownload,
+    isFiltered: Object.keys(issueFilters).length > 0,
+    download: downloadFormIssueMutation,
     isGetLoading: isIssueLoading,
   }
 
+  const issueAssigneeOptions = useMemo(
+    () =>
+      form
+        ? [form.admin.email, ...form.permissionList.map(({ email }) => email)]
+        : [],
+    [form],
+  )
+  const openedIssue = useMemo(
+    () =>
+      issueData?.issues.find((issue) => issue._id === openedIssueId) ?? null,
+    [issueData, openedIssueId],
+  )
+  const issueTableColumns = useMemo(
+    () =>
+      hasEditAccess
+        ? getSelectableIssueTableColumns(selectedIssueIds, handleToggleIssue)
+        : ISSUE_TABLE_COLUMNS,
+    [hasEditAccess, selectedIssueIds, handleToggleIssue],
+  )
+
+  const handleBulkIssueStatusUpdate = useCallback(
+    (status: FormIssueStatus) =>
+      updateFormIssuesStatusMutation.mutate(
+        { issueIds: [...selectedIssueIds], status },
+        { onSuccess: () => setSelectedIssueIds(new Set()) },
+      ),
+    [selectedIssueIds, updateFormIssuesStatusMutation],
+  )
+
   // Download button handler
   const handleFeedbackDownloadClick = useCallback(() => {
     if (!formId || !form?.title) return
@@ -124,7 +257,12 @@ export const FeedbackPage = (): JSX.Element => {
   }
 
   // Handle page empty state
-  if (issueProps.count === 0 && reviewProps.count === 0) {
+  if (
+    issueProps.count === 0 &&
+    reviewProps.count === 0 &&
+    !issueProps.isFiltered &&
+    !reviewProps.isFiltered
+  ) {
     return <EmptyFeedback />
   }
 
@@ -189,6 +327,47 @@ export const FeedbackPage = (): JSX.Element => {
           />
         </Box>
       </Grid>
+      {currentFeedbackType === FeedbackType.Reviews ? (
+        <>
+          <Flex
+            mb="1.5rem"
+            gap="0.5rem"
+            flexDir={{ base: 'column', md: 'row' }}
+            justify="flex-end"
+          >
+            <Box w={{ base: '100%', md: '10rem' }}>
+              <SingleSelect
+                name="reviewRating"
+                value={reviewRating}
+                onChange={handleReviewRatingChange}
+                items={REVIEW_RATING_ITEMS}
+                placeholder="All ratings"
+              />
+            </Box>
+            <DateRangePicker
+              value={reviewDateRange}
+              onChange={handleReviewDateRangeChange}
+            />
+          </Flex>
+          <Box mb="2rem">
+            <RatingBreakdown
+              ratingDistribution={reviewProps.ratingDistribution ?? []}
+              ratingTrend={reviewProps.ratingTrend ?? []}
+            />
+          </Box>
+        </>
+      ) : (
+        <IssueTriageBar
+          statusFilter={issueStatusFilter}
+          onStatusFilterChange={handleIssueStatusFilterChange}
+          assigneeFilter={issueAssigneeFilter}
+          onAssigneeFilterChange={handleIssueAssigneeFilterChange}
+          assigneeOptions={issueAssigneeOptions}
+          selectedCount={selectedIssueIds.size}
+          onBulkStatusUpdate={handleBulkIssueStatusUpdate}
+          isUpdating={updateFormIssuesStatusMutation.isLoading}
+        />
+      )}
       <Box mb="3rem" overflow="auto" flex={1}>
         <FeedbackTable
           feedbackData={
@@ -198,12 +377,27 @@ export const FeedbackPage = (): JSX.Element => {
           }
           feedbackColumns={
             currentFeedbackType === FeedbackType.Issues
-              ? ISSUE_TABLE_COLUMNS
+              ? issueTableColumns
+              : // Only reviews of storage mode forms can be linked to their
+              // responses, as responses to email mode forms are not stored.
+              form?.responseMode === FormResponseMode.Encrypt
+              ? REVIEW_TABLE_COLUMNS_WITH_RESPONSE
               : REVIEW_TABLE_COLUMNS
           }
           currentPage={currentPage - 1}
+          onRowClick={
+            currentFeedbackType === FeedbackType.Issues
+              ? (row) => setOpenedIssueId((row as ProcessedIssueMeta)._id)
+              : undefined
+          }
         />
       </Box>
+      <IssueDetailsModal
+        issue={openedIssue}
+        onClose={() => setOpenedIssueId(null)}
+        assigneeOptions={issueAssigneeOptions}
+        canEdit={hasEditAccess}
+      />
       <Box
         display={getDisplayTableProp(
           currentFeedbackType,
@@ -226,9 +420,15 @@ export const FeedbackPage = (): JSX.Element => {
   )
 }
 
+const REVIEW_RATING_ITEMS = [5, 4, 3, 2, 1].map((rating) => ({
+  value: String(rating),
+  label: simplur`${[rating]} star[|s]`,
+}))
+
 const getReviewInformationComponent = (
   average: string | undefined,
   count: number | undefined,
+  isFiltered: boolean,
 ): JSX.Element => {
   return (
     <Grid
@@ -252,7 +452,9 @@ const getReviewInformationComponent = (
           <Text as="span" color="primary.500">
             {count}
           </Text>
-          {simplur` ${[count || 0]}review[|s] to date`}
+          {simplur` ${[count || 0]}review[|s] ${
+            isFiltered ? 'matching filters' : 'to date'
+          }`}
         </Text>
       </Box>
     </Grid>
@@ -289,7 +491,11 @@ const getInformationGridComponent = (
   if (currentFeedbackType === FeedbackType.Issues) {
     return getIssueInformationComponent(issueProps.count)
   }
-  return getReviewInformationComponent(reviewProps.average, reviewProps.count)
+  return getReviewInformationComponent(
+    reviewProps.average,
+    reviewProps.count,
+    reviewProps.isFiltered,
+  )
 }
 
 const getFeedbackTypeButtonProps = (
@@ -14,14 +14,18 @@ import { ProcessedFeedbackMeta, ProcessedIssueMeta } from '~shared/types/form'
 import { BxsChevronDown } from '~assets/icons/BxsChevronDown'
 import { BxsChevronUp } from '~assets/icons/BxsChevronUp'
 
+type FeedbackRow = ProcessedFeedbackMeta | ProcessedIssueMeta
+
 export const FeedbackTable = ({
   feedbackData,
   feedbackColumns,
   currentPage,
+  onRowClick,
 }: {
   feedbackData: ProcessedFeedbackMeta[] | ProcessedIssueMeta[] | undefined
   feedbackColumns: Column[]
   currentPage: number
+  onRowClick?: (row: FeedbackRow) => void
 }) => {
   const {
     prepareRow,
@@ -123,7 +127,16 @@ export const FeedbackTable = ({
         {page.map((row) => {
           prepareRow(row)
           return (
-            <Tr as="div" {...row.getRowProps()} px={0}>
+            <Tr
+              as="div"
+              {...row.getRowProps()}
+              px={0}
+              {...(onRowClick && {
+                cursor: 'pointer',
+                _hover: { bg: 'primary.100' },
+                onClick: () => onRowClick(row.original as FeedbackRow),
+              })}
+            >
               {row.cells.map((cell) => {
                 return (
                   <Td as="div" {...cell.getCellProps()}>
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  Box,
+  Divider,
+  FormControl,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  SimpleGrid,
+  Stack,
+  Text,
+  useBreakpointValue,
+} from '@chakra-ui/react'
+import { format } from 'date-fns'
+
+import { FormIssueStatus, ProcessedIssueMeta } from '~shared/types'
+
+import Button from '~components/Button'
+import { SingleSelect } from '~components/Dropdown'
+import FormLabel from '~components/FormControl/FormLabel'
+import { ModalCloseButton } from '~components/Modal'
+import Textarea from '~components/Textarea'
+
+import { useFormIssueMutations } from '~features/admin-form/common/mutations'
+
+import { FORM_ISSUE_STATUS_ITEMS } from './IssueStatusCell'
+
+const formatTimestamp = (timestamp: number): string =>
+  format(new Date(timestamp), 'd MMM yyyy, h:mm a')
+
+export interface IssueDetailsModalProps {
+  issue: ProcessedIssueMeta | null
+  onClose: () => void
+  /** Emails of the form admin and collaborators the issue can be assigned to. */
+  assigneeOptions: string[]
+  /** Whether the current user can triage the issue. */
+  canEdit: boolean
+}
+
+export const IssueDetailsModal = ({
+  issue,
+  onClose,
+  assigneeOptions,
+  canEdit,
+}: IssueDetailsModalProps): JSX.Element => {
+  const modalSize = useBreakpointValue({
+    base: 'mobile',
+    xs: 'mobile',
+    md: 'md',
+  })
+  const { updateFormIssueMutation, replyToFormIssueMutation } =
+    useFormIssueMutations()
+
+  const [note, setNote] = useState('')
+  const [reply, setReply] = useState('')
+
+  // Reset drafts when a different issue is opened.
+  useEffect(() => {
+    setNote('')
+    setReply('')
+  }, [issue?._id])
+
+  const handleStatusChange = useCallback(
+    (status: string) => {
+      if (!issue || !status) return
+      updateFormIssueMutation.mutate({
+        issueId: issue._id,
+        update: { status: status as FormIssueStatus },
+      })
+    },
+    [issue, updateFormIssueMutation],
+  )
+
+  const handleAssigneeChange = useCallback(
+    (assignee: string) => {
+      if (!issue) return
+      updateFormIssueMutation.mutate({
+        issueId: issue._id,
+        update: { assignee: assignee || null },
+      })
+    },
+    [issue, updateFormIssueMutation],
+  )
+
+  const handleAddNote = useCallback(() => {
+    if (!issue || !note.trim()) return
+    updateFormIssueMutation.mutate(
+      { issueId: issue._id, update: { note } },
+      { onSuccess: () => setNote('') },
+    )
+  }, [issue, note, updateFormIssueMutation])
+
+  const handleSendReply = useCallback(() => {
+    if (!issue || !reply.trim()) return
+    replyToFormIssueMutation.mutate(
+      { issueId: issue._id, message: reply },
+      { onSuccess: () => setReply('') },
+    )
+  }, [issue, reply, replyToFormIssueMutation])
+
+  return (
+    <Modal isOpen={!!issue} onClose={onClose} size={modalSize}>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalCloseButton />
+        <ModalHeader pr="4rem">Issue #{issue?.index}</ModalHeader>
+        <ModalBody pb="2rem">
+          {issue ? (
+            <Stack spacing="1.5rem">
+              <Box>
+                <Text textStyle="caption-2" color="secondary.400">
+                  Reported {formatTimestamp(issue.timestamp)}
+                  {issue.email ? ` by ${issue.email}` : ''}
+                </Text>
+                <Text textStyle="body-1" mt="0.5rem" whiteSpace="pre-wrap">
+                  {issue.issue}
+                </Text>
+              </Box>
+              <SimpleGrid columns={{ base: 1, md: 2 }} spacing="1rem">
+                <FormControl isReadOnly={!canEdit}>
+                  <FormLabel>Status</FormLabel>
+                  <SingleSelect
+                    name="issueStatus"
+                    value={issue.status}
+                    onChange={handleStatusChange}
+                    items={FORM_ISSUE_STATUS_ITEMS}
+                    isClearable={false}
+                  />
+                </FormControl>
+                <FormControl isReadOnly={!canEdit}>
+                  <FormLabel>Assignee</FormLabel>
+                  <SingleSelect
+                    name="issueAssignee"
+                    value={issue.assignee ?? ''}
+                    onChange={handleAssigneeChange}
+                    items={assigneeOptions}
+                    placeholder="Unassigned"
+                  />
+                </FormControl>
+              </SimpleGrid>
+              <Divider />
+              <Box>
+                <Text textStyle="subhead-1" mb="0.5rem">
+                  Internal notes
+                </Text>
+                <Text textStyle="caption-2" color="secondary.400" mb="1rem">
+                  Notes are only visible to the form admin and collaborators.
+                </Text>
+                <Stack spacing="0.75rem" mb="1rem">
+                  {issue.notes.map(({ content, createdBy, timestamp }) => (
+                    <Box key={`${createdBy}-${timestamp}`}>
+                      <Text textStyle="caption-2" color="secondary.400">
+                        {createdBy}, {formatTimestamp(timestamp)}
+                      </Text>
+                      <Text textStyle="body-2" whiteSpace="pre-wrap">
+                        {content}
+                      </Text>
+                    </Box>
+                  ))}
+                </Stack>
+                {canEdit ? (
+                  <Stack spacing="0.5rem" align="flex-end">
+                    <Textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="Add a note"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleAddNote}
+                      isDisabled={!note.trim()}
+                      isLoading={updateFormIssueMutation.isLoading}
+                    >
+                      Add note
+                    </Button>
+                  </Stack>
+                ) : null}
+              </Box>
+              {issue.email && canEdit ? (
+                <>
+                  <Divider />
+                  <Box>
+                    <Text textStyle="subhead-1" mb="0.5rem">
+                      Reply to reporter
+                    </Text>
+                    <Text textStyle="caption-2" color="secondary.400" mb="1rem">
+                      {issue.lastRepliedTimestamp
+                        ? `Last replied ${formatTimestamp(
+                            issue.lastRepliedTimestamp,
+                          )}. `
+                        : ''}
+                      Your reply will be emailed to {issue.email}, and they can
+                      respond to you directly.
+                    </Text>
+                    <Stack spacing="0.5rem" align="flex-end">
+                      <Textarea
+                        value={reply}
+                        onChange={(e) => setReply(e.target.value)}
+                        placeholder="Write a reply"
+                      />
+                      <Button
+                        onClick={handleSendReply}
+                        isDisabled={!reply.trim()}
+                        isLoading={replyToFormIssueMutation.isLoading}
+                      >
+                        Send reply
+                      </Button>
+                    </Stack>
+                  </Box>
+                </>
+              ) : null}
+            </Stack>
+          ) : null}
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  )
+}
@@ -1,15 +1,83 @@
-import { FormIssueDto, FormIssueMetaDto } from '~shared/types'
+import {
+  FormIssueDto,
+  FormIssueMetaDto,
+  FormIssueMetaQueryDto,
+  ReplyFormIssueBodyDto,
+  UpdateFormIssueBodyDto,
+  UpdateFormIssuesStatusBodyDto,
+  UpdateFormIssuesStatusResponseDto,
+} from '~shared/types'
 
 import { ApiService } from '~services/ApiService'
 
 import { ADMIN_FORM_ENDPOINT } from '~features/admin-form/common/AdminViewFormService'
 import { IssueCsvGenerator } from '~features/admin-form/responses/FeedbackPage/utils/IssueCsvGenerator'
 
+/**
+ * Retrieves issues for a given form.
+ * @param formId the id of the form to retrieve issues for
+ * @param filters the optional status and assignee to filter issues by
+ * @returns the issues of the form
+ */
 export const getFormIssues = async (
   formId: string,
+  filters?: FormIssueMetaQueryDto,
 ): Promise<FormIssueMetaDto> => {
   return ApiService.get<FormIssueMetaDto>(
     `${ADMIN_FORM_ENDPOINT}/${formId}/issues`,
+    { params: filters },
+  ).then(({ data }) => data)
+}
+
+/**
+ * Updates the status, assignee or notes of an issue.
+ * @param formId the id of the form the issue was reported on
+ * @param issueId the id of the issue to update
+ * @param update the changes to make to the issue
+ * @returns the updated issue
+ */
+export const updateFormIssue = async (
+  formId: string,
+  issueId: string,
+  update: UpdateFormIssueBodyDto,
+): Promise<FormIssueDto> => {
+  return ApiService.patch<FormIssueDto>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/issues/${issueId}`,
+    update,
+  ).then(({ data }) => data)
+}
+
+/**
+ * Updates the status of multiple issues at once.
+ * @param formId the id of the form the issues were reported on
+ * @param body the ids of the issues to update and their new status
+ * @returns the number of issues updated
+ */
+export const updateFormIssuesStatus = async (
+  formId: string,
+  body: UpdateFormIssuesStatusBodyDto,
+): Promise<UpdateFormIssuesStatusResponseDto> => {
+  return ApiService.patch<UpdateFormIssuesStatusResponseDto>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/issues`,
+    body,
+  ).then(({ data }) => data)
+}
+
+/**
+ * Emails a reply to the respondent who reported an issue.
+ * @param formId the id of the form the issue was reported on
+ * @param issueId the id of the issue to reply to
+ * @param body the reply to send
+ * @returns the replied issue
+ */
+export const replyToFormIssue = async (
+  formId: string,
+  issueId: string,
+  body: ReplyFormIssueBodyDto,
+): Promise<FormIssueDto> => {
+  return ApiService.post<FormIssueDto>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/issues/${issueId}/reply`,
+    body,
   ).then(({ data }) => data)
 }
 
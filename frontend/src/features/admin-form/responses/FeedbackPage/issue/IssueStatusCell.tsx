@@ -0,0 +1,36 @@
+import { Badge } from '@chakra-ui/react'
+
+import { FormIssueStatus } from '~shared/types'
+
+export const FORM_ISSUE_STATUS_LABELS: Record<FormIssueStatus, string> = {
+  [FormIssueStatus.New]: 'New',
+  [FormIssueStatus.Acknowledged]: 'Acknowledged',
+  [FormIssueStatus.Resolved]: 'Resolved',
+}
+
+const FORM_ISSUE_STATUS_COLOR_SCHEMES: Record<FormIssueStatus, string> = {
+  [FormIssueStatus.New]: 'primary',
+  [FormIssueStatus.Acknowledged]: 'warning',
+  [FormIssueStatus.Resolved]: 'success',
+}
+
+export const FORM_ISSUE_STATUS_ITEMS = Object.values(FormIssueStatus).map(
+  (status) => ({ value: status, label: FORM_ISSUE_STATUS_LABELS[status] }),
+)
+
+export interface IssueStatusCellProps {
+  value: FormIssueStatus
+}
+
+export const IssueStatusCell = ({
+  value,
+}: IssueStatusCellProps): JSX.Element => {
+  return (
+    <Badge
+      variant="subtle"
+      colorScheme={FORM_ISSUE_STATUS_COLOR_SCHEMES[value]}
+    >
+      {FORM_ISSUE_STATUS_LABELS[value]}
+    </Badge>
+  )
+}
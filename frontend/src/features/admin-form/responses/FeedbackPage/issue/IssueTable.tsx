@@ -1,7 +1,13 @@
 import { Column } from 'react-table'
 
+import { ProcessedIssueMeta } from '~shared/types'
+
+import Checkbox from '~components/Checkbox'
+
 import { DateCell } from '~features/admin-form/responses/FeedbackPage/DateCell'
 
+import { IssueStatusCell } from './IssueStatusCell'
+
 export const ISSUE_TABLE_COLUMNS: Column[] = [
   {
     Header: '#',
@@ -36,4 +42,52 @@ export const ISSUE_TABLE_COLUMNS: Column[] = [
     width: 120,
     maxWidth: 300,
   },
+  {
+    Header: 'Status',
+    accessor: 'status',
+    sortType: 'basic',
+    Cell: IssueStatusCell,
+    minWidth: 120,
+    width: 120,
+    disableResizing: true,
+  },
+  {
+    Header: 'Assignee',
+    accessor: 'assignee',
+    sortType: 'basic',
+    minWidth: 120,
+    width: 120,
+    maxWidth: 300,
+  },
+]
+
+/**
+ * Columns of the issue table with a leading checkbox column, for selecting
+ * issues to update the status of in bulk.
+ * @param selectedIssueIds the ids of the currently selected issues
+ * @param onToggleIssue callback invoked when an issue is selected or deselected
+ */
+export const getSelectableIssueTableColumns = (
+  selectedIssueIds: Set<string>,
+  onToggleIssue: (issueId: string) => void,
+): Column[] => [
+  {
+    id: 'select',
+    Header: '',
+    accessor: '_id',
+    Cell: ({ row }: { row: { original: ProcessedIssueMeta } }) => (
+      <Checkbox
+        aria-label="Select issue"
+        isChecked={selectedIssueIds.has(row.original._id)}
+        onChange={() => onToggleIssue(row.original._id)}
+        // Prevent the row from being clicked when toggling the checkbox.
+        onClick={(e) => e.stopPropagation()}
+      />
+    ),
+    disableSortBy: true,
+    disableResizing: true,
+    minWidth: 56,
+    width: 56,
+  },
+  ...ISSUE_TABLE_COLUMNS,
 ]
@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { Box, Flex, Text } from '@chakra-ui/react'
+import simplur from 'simplur'
+
+import { FormIssueStatus } from '~shared/types'
+
+import Button from '~components/Button'
+import { SingleSelect } from '~components/Dropdown'
+
+import { FORM_ISSUE_STATUS_ITEMS } from './IssueStatusCell'
+
+export interface IssueTriageBarProps {
+  statusFilter: string
+  onStatusFilterChange: (status: string) => void
+  assigneeFilter: string
+  onAssigneeFilterChange: (assignee: string) => void
+  assigneeOptions: string[]
+  selectedCount: number
+  onBulkStatusUpdate: (status: FormIssueStatus) => void
+  isUpdating: boolean
+}
+
+/**
+ * Filters for the issue table, and actions to update the status of the
+ * selected issues in bulk.
+ */
+export const IssueTriageBar = ({
+  statusFilter,
+  onStatusFilterChange,
+  assigneeFilter,
+  onAssigneeFilterChange,
+  assigneeOptions,
+  selectedCount,
+  onBulkStatusUpdate,
+  isUpdating,
+}: IssueTriageBarProps): JSX.Element => {
+  const [bulkStatus, setBulkStatus] = useState<string>(FormIssueStatus.Resolved)
+
+  return (
+    <Flex
+      mb="1.5rem"
+      gap="0.5rem"
+      flexDir={{ base: 'column', md: 'row' }}
+      justify="space-between"
+      align={{ base: 'stretch', md: 'center' }}
+    >
+      <Flex gap="0.5rem" flexDir={{ base: 'column', md: 'row' }}>
+        <Box w={{ base: '100%', md: '12rem' }}>
+          <SingleSelect
+            name="issueStatusFilter"
+            value={statusFilter}
+            onChange={onStatusFilterChange}
+            items={FORM_ISSUE_STATUS_ITEMS}
+            placeholder="All statuses"
+          />
+        </Box>
+        <Box w={{ base: '100%', md: '16rem' }}>
+          <SingleSelect
+            name="issueAssigneeFilter"
+            value={assigneeFilter}
+            onChange={onAssigneeFilterChange}
+            items={assigneeOptions}
+            placeholder="All assignees"
+          />
+        </Box>
+      </Flex>
+      {selectedCount > 0 ? (
+        <Flex gap="0.5rem" align="center">
+          <Text textStyle="body-2" color="secondary.500" whiteSpace="nowrap">
+            {simplur`${[selectedCount]} issue[|s] selected`}
+          </Text>
+          <Box w="10rem">
+            <SingleSelect
+              name="issueBulkStatus"
+              value={bulkStatus}
+              onChange={setBulkStatus}
+              items={FORM_ISSUE_STATUS_ITEMS}
+              isClearable={false}
+            />
+          </Box>
+          <Button
+            isLoading={isUpdating}
+            onClick={() => onBulkStatusUpdate(bulkStatus as FormIssueStatus)}
+          >
+            Update
+          </Button>
+        </Flex>
+      ) : null}
+    </Flex>
+  )
+}
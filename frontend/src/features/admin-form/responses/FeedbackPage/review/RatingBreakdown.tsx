@@ -0,0 +1,120 @@
+import { useMemo } from 'react'
+import { Box, Flex, Grid, SimpleGrid, Text, Tooltip } from '@chakra-ui/react'
+import simplur from 'simplur'
+
+import {
+  FeedbackRatingDistribution,
+  FeedbackRatingTrend,
+} from '~shared/types/form'
+
+interface RatingBreakdownProps {
+  ratingDistribution: FeedbackRatingDistribution
+  ratingTrend: FeedbackRatingTrend
+}
+
+const RatingDistributionChart = ({
+  ratingDistribution,
+}: Pick<RatingBreakdownProps, 'ratingDistribution'>): JSX.Element => {
+  const maxCount = useMemo(
+    () => Math.max(0, ...ratingDistribution.map(({ count }) => count)),
+    [ratingDistribution],
+  )
+
+  return (
+    <Grid templateColumns="auto 1fr auto" gap="0.5rem" alignItems="center">
+      {[...ratingDistribution].reverse().map(({ rating, count }) => (
+        <Box display="contents" key={rating}>
+          <Text textStyle="body-2" color="secondary.500">
+            {rating}
+          </Text>
+          <Box h="0.75rem" bg="neutral.200" borderRadius="2px">
+            <Box
+              h="100%"
+              w={maxCount ? `${(count / maxCount) * 100}%` : 0}
+              bg="primary.500"
+              borderRadius="2px"
+            />
+          </Box>
+          <Text textStyle="caption-1" color="secondary.400" textAlign="right">
+            {count.toLocaleString()}
+          </Text>
+        </Box>
+      ))}
+    </Grid>
+  )
+}
+
+const RatingTrendChart = ({
+  ratingTrend,
+}: Pick<RatingBreakdownProps, 'ratingTrend'>): JSX.Element => {
+  if (ratingTrend.length === 0) {
+    return (
+      <Text textStyle="body-2" color="secondary.400">
+        No reviews in this period.
+      </Text>
+    )
+  }
+
+  return (
+    <Box overflowX="auto">
+      {/* Bar heights are the average rating of the day, out of 5. */}
+      <Flex align="flex-end" h="7.5rem" minW="100%" gap="2px">
+        {ratingTrend.map(({ date, count, average }) => (
+          <Tooltip
+            key={date}
+            label={simplur`${date}: ${average} average from ${[
+              count,
+            ]}review[|s]`}
+            placement="top"
+          >
+            <Box
+              flex="1 0 0.5rem"
+              maxW="2rem"
+              h={`${(Number(average) / 5) * 100}%`}
+              minH="2px"
+              bg="primary.500"
+              borderTopRadius="2px"
+              aria-label={simplur`${date}: ${average} average from ${[
+                count,
+              ]}review[|s]`}
+            />
+          </Tooltip>
+        ))}
+      </Flex>
+      <Flex justify="space-between" mt="0.5rem">
+        <Text textStyle="caption-1" color="secondary.400">
+          {ratingTrend[0].date}
+        </Text>
+        <Text textStyle="caption-1" color="secondary.400">
+          {ratingTrend[ratingTrend.length - 1].date}
+        </Text>
+      </Flex>
+    </Box>
+  )
+}
+
+/**
+ * Distribution of the ratings of the form's reviews, alongside the daily
+ * average rating of the reviews matching the current filters.
+ */
+export const RatingBreakdown = ({
+  ratingDistribution,
+  ratingTrend,
+}: RatingBreakdownProps): JSX.Element => {
+  return (
+    <SimpleGrid columns={{ base: 1, md: 2 }} spacing="2rem">
+      <Box>
+        <Text textStyle="subhead-1" color="secondary.700" mb="1rem">
+          Rating distribution
+        </Text>
+        <RatingDistributionChart ratingDistribution={ratingDistribution} />
+      </Box>
+      <Box>
+        <Text textStyle="subhead-1" color="secondary.700" mb="1rem">
+          Average rating over time
+        </Text>
+        <RatingTrendChart ratingTrend={ratingTrend} />
+      </Box>
+    </SimpleGrid>
+  )
+}
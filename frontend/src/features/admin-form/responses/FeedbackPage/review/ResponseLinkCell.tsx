@@ -0,0 +1,26 @@
+import { Link as ReactLink, useParams } from 'react-router-dom'
+
+import { ADMINFORM_RESULTS_SUBROUTE, ADMINFORM_ROUTE } from '~constants/routes'
+
+import Link from '~components/Link'
+
+export interface ResponseLinkCellProps {
+  value?: string
+}
+
+export const ResponseLinkCell = ({
+  value: submissionId,
+}: ResponseLinkCellProps): JSX.Element | null => {
+  const { formId } = useParams()
+
+  if (!formId || !submissionId) return null
+
+  return (
+    <Link
+      as={ReactLink}
+      to={`${ADMINFORM_ROUTE}/${formId}/${ADMINFORM_RESULTS_SUBROUTE}/${submissionId}`}
+    >
+      View
+    </Link>
+  )
+}
@@ -1,15 +1,27 @@
-import { FormFeedbackDto, FormFeedbackMetaDto } from '~shared/types/form'
+import {
+  FormFeedbackDto,
+  FormFeedbackMetaDto,
+  FormFeedbackMetaQueryDto,
+} from '~shared/types/form'
 
 import { ApiService } from '~services/ApiService'
 
 import { ADMIN_FORM_ENDPOINT } from '../../../common/AdminViewFormService'
 import { FeedbackCsvGenerator } from '../utils/FeedbackCsvGenerator'
 
+/**
+ * Retrieves feedback for a given form.
+ * @param formId the id of the form to retrieve feedback for
+ * @param filters the optional date range and rating to filter feedback by
+ * @returns the feedback of the form, with its rating distribution and trend
+ */
 export const getFormFeedback = async (
   formId: string,
+  filters?: FormFeedbackMetaQueryDto,
 ): Promise<FormFeedbackMetaDto> => {
   return ApiService.get<FormFeedbackMetaDto>(
     `${ADMIN_FORM_ENDPOINT}/${formId}/feedback`,
+    { params: filters },
   ).then(({ data }) => data)
 }
 
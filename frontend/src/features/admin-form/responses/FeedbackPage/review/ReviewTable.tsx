@@ -2,6 +2,8 @@ import { Column } from 'react-table'
 
 import { DateCell } from '~features/admin-form/responses/FeedbackPage/DateCell'
 
+import { ResponseLinkCell } from './ResponseLinkCell'
+
 export const REVIEW_TABLE_COLUMNS: Column[] = [
   {
     Header: '#',
@@ -37,3 +39,20 @@ export const REVIEW_TABLE_COLUMNS: Column[] = [
     disableResizing: true,
   },
 ]
+
+/**
+ * Columns of the review table for storage mode forms, whose reviews can be
+ * linked to the responses they were submitted with.
+ */
+export const REVIEW_TABLE_COLUMNS_WITH_RESPONSE: Column[] = [
+  ...REVIEW_TABLE_COLUMNS,
+  {
+    Header: 'Response',
+    accessor: 'submissionId',
+    Cell: ResponseLinkCell,
+    disableSortBy: true,
+    minWidth: 90,
+    width: 90,
+    disableResizing: true,
+  },
+]
@@ -1,7 +1,7 @@
 import { isValid } from 'date-fns'
 import { formatInTimeZone } from 'date-fns-tz'
 
-import { FormIssueDto } from '~shared/types'
+import { FormIssueDto, FormIssueStatus } from '~shared/types'
 
 import { CsvGenerator } from '../../common/utils/CsvGenerator'
 import { processFormulaInjectionText } from '../../ResponsesPage/storage/utils/processFormulaInjection'
@@ -12,7 +12,7 @@ import { processFormulaInjectionText } from '../../ResponsesPage/storage/utils/p
 export class IssueCsvGenerator extends CsvGenerator {
   constructor(expectedNumberOfRecords: number) {
     super(expectedNumberOfRecords, 0)
-    this.setHeader(['Date', 'Issue', 'Email'])
+    this.setHeader(['Date', 'Issue', 'Email', 'Status', 'Assignee'])
   }
 
   /**
@@ -33,6 +33,13 @@ export class IssueCsvGenerator extends CsvGenerator {
       ? processFormulaInjectionText(issue.issue)
       : ''
 
-    this.addLine([createdAt, issueComment, issue.email ? issue.email : ''])
+    this.addLine([
+      createdAt,
+      issueComment,
+      issue.email ? issue.email : '',
+      // Issues reported before triage was introduced have no status.
+      issue.status ?? FormIssueStatus.New,
+      issue.assignee ?? '',
+    ])
   }
 }
@@ -1,14 +1,26 @@
 import { BiCheck } from 'react-icons/bi'
 import { IconType } from 'react-icons/lib'
-import { Box, Divider, Flex, Icon, Link, Text } from '@chakra-ui/react'
+import {
+  Box,
+  Divider,
+  Flex,
+  Icon,
+  Link,
+  Text,
+  useDisclosure,
+} from '@chakra-ui/react'
 import { keyBy } from 'lodash'
 
 import { PaymentStatus, SubmissionPaymentDto } from '~shared/types'
 
+import { formatCurrency } from '~utils/payments'
+import Button from '~components/Button'
 import { Tag } from '~components/Tag'
 
 import { getPaymentDataView } from '../common/utils/getPaymentDataView'
 
+import { RefundPaymentModal } from './RefundPaymentModal'
+
 type PaymentSectionProps = {
   payment: SubmissionPaymentDto
   formId: string
@@ -18,6 +30,8 @@ export const PaymentSection = ({
   payment,
   formId,
 }: PaymentSectionProps): JSX.Element | null => {
+  const refundModal = useDisclosure()
+
   if (!payment) return null
 
   const paymentDataMap = keyBy(
@@ -44,6 +58,14 @@ export const PaymentSection = ({
   // Error: the payment is invalid and should not reach this state
   if (!paymentTagProps) return null
 
+  const refunds = payment.refunds ?? []
+  const refundableAmount =
+    payment.amount - refunds.reduce((sum, { amount }) => sum + amount, 0)
+  const isRefundable =
+    refundableAmount > 0 &&
+    (payment.status === PaymentStatus.Succeeded ||
+      payment.status === PaymentStatus.PartiallyRefunded)
+
   return (
     <Flex flexDir="column" gap="4rem">
       <Flex flexDir="column" gap="1.25rem">
@@ -62,7 +84,41 @@ export const PaymentSection = ({
           </Box>
           <PaymentDataItem {...paymentDataMap['transactionFee']} />
         </Flex>
+        {isRefundable ? (
+          <Box>
+            <Button
+              variant="outline"
+              colorScheme="danger"
+              onClick={refundModal.onOpen}
+            >
+              Refund payment
+            </Button>
+          </Box>
+        ) : null}
       </Flex>
+      {refunds.length ? (
+        <Flex flexDir="column" gap="1.25rem">
+          <Text textStyle="h2" as="h2" color="primary.500">
+            Refunds
+          </Text>
+          <Flex flexDir="column" gap="0.75rem">
+            {refunds.map((refund, index) => (
+              <PaymentDataItem
+                key={index}
+                name={refund.created}
+                value={[
+                  `${formatCurrency(refund.amount / 100)} by ${
+                    refund.refundedBy
+                  }`,
+                  refund.reason,
+                ]
+                  .filter(Boolean)
+                  .join(': ')}
+              />
+            ))}
+          </Flex>
+        </Flex>
+      ) : null}
       <Flex flexDir="column" gap="1.25rem">
         <PaymentDataHeader name="Payout" {...payoutTagProps} />
         <Flex flexDir="column" gap="0.75rem">
@@ -70,6 +126,12 @@ export const PaymentSection = ({
           <PaymentDataItem {...paymentDataMap['payoutDate']} />
         </Flex>
       </Flex>
+      <RefundPaymentModal
+        isOpen={refundModal.isOpen}
+        onClose={refundModal.onClose}
+        paymentId={payment.id}
+        refundableAmount={refundableAmount}
+      />
     </Flex>
   )
 }
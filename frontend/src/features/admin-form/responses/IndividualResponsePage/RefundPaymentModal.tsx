@@ -0,0 +1,168 @@
+import { useCallback, useEffect } from 'react'
+import { Controller, useForm } from 'react-hook-form'
+import { useParams } from 'react-router-dom'
+import {
+  FormControl,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Stack,
+  Text,
+  Textarea,
+  useBreakpointValue,
+} from '@chakra-ui/react'
+
+import { centsToDollars, dollarsToCents, formatCurrency } from '~utils/payments'
+import Button from '~components/Button'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import { ModalCloseButton } from '~components/Modal'
+import MoneyInput from '~components/MoneyInput'
+
+import { useMutateRefundPayment } from './mutations'
+
+type RefundPaymentInputs = {
+  display_amount: string
+  reason: string
+}
+
+interface RefundPaymentModalProps {
+  isOpen: boolean
+  onClose: () => void
+  paymentId: string
+  /** Amount of the payment which has not been refunded, in cents. */
+  refundableAmount: number
+}
+
+export const RefundPaymentModal = ({
+  isOpen,
+  onClose,
+  paymentId,
+  refundableAmount,
+}: RefundPaymentModalProps): JSX.Element => {
+  const modalSize = useBreakpointValue({
+    base: 'mobile',
+    xs: 'mobile',
+    md: 'md',
+  })
+
+  const { formId, submissionId } = useParams()
+  if (!formId || !submissionId) {
+    throw new Error('No formId or submissionId provided')
+  }
+
+  const { refundPaymentMutation } = useMutateRefundPayment(formId, submissionId)
+
+  const {
+    control,
+    register,
+    reset,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<RefundPaymentInputs>()
+
+  // Refund the whole remaining amount by default.
+  useEffect(() => {
+    if (!isOpen) return
+    reset({ display_amount: centsToDollars(refundableAmount), reason: '' })
+  }, [isOpen, refundableAmount, reset])
+
+  const handleRefund = useCallback(
+    ({ display_amount, reason }: RefundPaymentInputs) =>
+      refundPaymentMutation.mutate(
+        {
+          paymentId,
+          amount: dollarsToCents(display_amount),
+          reason: reason.trim() || undefined,
+        },
+        { onSuccess: onClose },
+      ),
+    [onClose, paymentId, refundPaymentMutation],
+  )
+
+  return (
+    <Modal size={modalSize} isOpen={isOpen} onClose={onClose}>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalCloseButton />
+        <ModalHeader color="secondary.700">Refund payment</ModalHeader>
+        <ModalBody whiteSpace="pre-wrap">
+          <Stack spacing="1.5rem">
+            <Text textStyle="body-2" color="secondary.500">
+              Refunds are made from your connected Stripe account and cannot be
+              undone. The payer will be notified by email.
+            </Text>
+            <FormControl isInvalid={!!errors.display_amount} isRequired>
+              <FormLabel
+                description={`Up to ${formatCurrency(
+                  refundableAmount / 100,
+                )} can be refunded.`}
+              >
+                Refund amount
+              </FormLabel>
+              <Controller
+                name="display_amount"
+                control={control}
+                rules={{
+                  validate: (value) => {
+                    const amount = dollarsToCents(value ?? '')
+                    return (
+                      (/^\d+(\.\d{1,2})?$/.test(value?.trim() ?? '') &&
+                        amount > 0 &&
+                        amount <= refundableAmount) ||
+                      'Enter an amount more than zero and not more than the amount which can be refunded'
+                    )
+                  },
+                }}
+                render={({ field }) => (
+                  <MoneyInput
+                    step={0}
+                    inputMode="decimal"
+                    placeholder="0.00"
+                    {...field}
+                  />
+                )}
+              />
+              <FormErrorMessage>
+                {errors.display_amount?.message}
+              </FormErrorMessage>
+            </FormControl>
+            <FormControl>
+              <FormLabel description="Included in the email to the payer.">
+                Reason
+              </FormLabel>
+              <Textarea {...register('reason')} />
+            </FormControl>
+          </Stack>
+        </ModalBody>
+        <ModalFooter>
+          <Stack
+            direction={modalSize === 'mobile' ? 'column' : 'row'}
+            w="100%"
+            justify="flex-end"
+          >
+            <Button
+              variant="clear"
+              colorScheme="secondary"
+              isFullWidth={modalSize === 'mobile'}
+              onClick={onClose}
+            >
+              Cancel
+            </Button>
+            <Button
+              colorScheme="danger"
+              isFullWidth={modalSize === 'mobile'}
+              isLoading={refundPaymentMutation.isLoading}
+              onClick={handleSubmit(handleRefund)}
+            >
+              Refund payment
+            </Button>
+          </Stack>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  )
+}
@@ -1,9 +1,16 @@
 import { useCallback } from 'react'
-import { useMutation } from 'react-query'
+import { useMutation, useQueryClient } from 'react-query'
 import FileSaver from 'file-saver'
 
+import { PaymentRefundBodyDto } from '~shared/types/payment'
+import { SubmissionPaymentDto } from '~shared/types/submission'
+
+import { ApiError } from '~typings/core'
+
 import { useToast } from '~hooks/useToast'
 
+import { refundSubmissionPayment } from '../AdminSubmissionsService'
+import { adminFormResponsesKeys } from '../queries'
 import { AttachmentsDownloadMap } from '../ResponsesPage/storage/types'
 import {
   downloadAndDecryptAttachment,
@@ -79,3 +86,45 @@ export const useMutateDownloadAttachments = () => {
 
   return { downloadAttachmentMutation, downloadAttachmentsAsZipMutation }
 }
+
+export const useMutateRefundPayment = (
+  formId: string,
+  submissionId: string,
+) => {
+  const queryClient = useQueryClient()
+  const toast = useToast({ status: 'success', isClosable: true })
+
+  const refundPaymentMutation = useMutation(
+    ({
+      paymentId,
+      ...refund
+    }: PaymentRefundBodyDto & {
+      paymentId: string
+    }) => refundSubmissionPayment({ formId, paymentId, ...refund }),
+    {
+      onSuccess: (payment) => {
+        // The individual response is never refetched, so update its payment
+        // in place.
+        queryClient.setQueryData<
+          { payment?: SubmissionPaymentDto } | undefined
+        >(adminFormResponsesKeys.individual(formId, submissionId), (old) =>
+          old ? { ...old, payment } : old,
+        )
+        toast.closeAll()
+        toast({
+          description:
+            'The refund has been issued. The payer will be notified by email.',
+        })
+      },
+      onError: (error: ApiError) => {
+        toast.closeAll()
+        toast({
+          description: error.message,
+          status: 'danger',
+        })
+      },
+    },
+  )
+
+  return { refundPaymentMutation }
+}
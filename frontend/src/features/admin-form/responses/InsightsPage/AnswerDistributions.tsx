@@ -0,0 +1,73 @@
+import { Box, Flex, Stack, StackDivider, Text } from '@chakra-ui/react'
+import simplur from 'simplur'
+
+import { AnswerDistribution } from '~shared/types'
+
+interface AnswerDistributionsProps {
+  answerDistributions: AnswerDistribution[]
+}
+
+const AnswerDistributionField = ({
+  title,
+  answers,
+}: AnswerDistribution): JSX.Element => {
+  const total = answers.reduce((sum, { count }) => sum + count, 0)
+
+  return (
+    <Box>
+      <Text textStyle="subhead-2" color="secondary.700">
+        {title}
+      </Text>
+      <Text textStyle="caption-1" color="secondary.400" mb="0.75rem">
+        {simplur`${[total]} answer[|s]`}
+      </Text>
+      <Stack spacing="0.5rem">
+        {answers.map(({ answer, count }) => {
+          const percentage = total ? (count / total) * 100 : 0
+          return (
+            <Box key={answer}>
+              <Flex justify="space-between" textStyle="body-2">
+                <Text color="secondary.500">{answer}</Text>
+                <Text color="secondary.400" flexShrink={0} ml="1rem">
+                  {count.toLocaleString()} ({percentage.toFixed(0)}%)
+                </Text>
+              </Flex>
+              <Box h="0.5rem" bg="neutral.200" borderRadius="2px">
+                <Box
+                  h="100%"
+                  w={`${percentage}%`}
+                  bg="primary.500"
+                  borderRadius="2px"
+                />
+              </Box>
+            </Box>
+          )
+        })}
+      </Stack>
+    </Box>
+  )
+}
+
+/**
+ * Breakdown of the answers to the choice fields of an email mode form. Only
+ * answers submitted since answers started being counted are included.
+ */
+export const AnswerDistributions = ({
+  answerDistributions,
+}: AnswerDistributionsProps): JSX.Element => {
+  if (answerDistributions.length === 0) {
+    return (
+      <Text textStyle="body-2" color="secondary.400">
+        This form has no choice fields to break down.
+      </Text>
+    )
+  }
+
+  return (
+    <Stack divider={<StackDivider borderColor="neutral.300" />} spacing="2rem">
+      {answerDistributions.map((distribution) => (
+        <AnswerDistributionField key={distribution.fieldId} {...distribution} />
+      ))}
+    </Stack>
+  )
+}
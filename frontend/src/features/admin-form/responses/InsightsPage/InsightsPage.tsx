@@ -0,0 +1,167 @@
+import { useMemo, useState } from 'react'
+import {
+  Box,
+  Container,
+  Flex,
+  Grid,
+  SimpleGrid,
+  Skeleton,
+  Stack,
+  Text,
+} from '@chakra-ui/react'
+import { format } from 'date-fns'
+import simplur from 'simplur'
+
+import { FormResponseMode } from '~shared/types'
+
+import { DateRangeValue } from '~components/Calendar'
+import { DateRangePicker } from '~components/DateRangePicker'
+import InlineMessage from '~components/InlineMessage'
+
+import { useAdminForm } from '~features/admin-form/common/queries'
+
+import { useFormInsights } from '../queries'
+
+import { AnswerDistributions } from './AnswerDistributions'
+import { SubmissionsOverTimeChart } from './SubmissionsOverTimeChart'
+
+const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '-'
+  const totalSeconds = Math.round(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return minutes ? `${minutes}m ${seconds}s` : `${seconds}s`
+}
+
+const InsightStat = ({
+  label,
+  value,
+  isLoaded,
+}: {
+  label: string
+  value: string
+  isLoaded: boolean
+}): JSX.Element => (
+  <Flex
+    flexDir="column"
+    p="1rem"
+    border="1px solid"
+    borderColor="neutral.300"
+    borderRadius="4px"
+  >
+    <Text textStyle="caption-2" color="secondary.400">
+      {label}
+    </Text>
+    <Skeleton isLoaded={isLoaded}>
+      <Text textStyle="h2" color="secondary.700">
+        {value}
+      </Text>
+    </Skeleton>
+  </Flex>
+)
+
+export const InsightsPage = (): JSX.Element => {
+  const { data: form } = useAdminForm()
+  const [dateRange, setDateRange] = useState<DateRangeValue>([null, null])
+
+  const dates = useMemo(() => {
+    const [start, end] = dateRange
+    if (!start || !end) return undefined
+    return {
+      startDate: format(start, 'yyyy-MM-dd'),
+      endDate: format(end, 'yyyy-MM-dd'),
+    }
+  }, [dateRange])
+
+  const { data: insights, isLoading } = useFormInsights(dates)
+
+  return (
+    <Container
+      overflowY="auto"
+      p="1.5rem"
+      maxW="69.5rem"
+      flex={1}
+      display="flex"
+      flexDir="column"
+    >
+      <Grid
+        mb="1.5rem"
+        alignItems="end"
+        color="secondary.500"
+        gridTemplateColumns={{ base: 'auto', md: '1fr auto' }}
+        gridGap="0.5rem"
+      >
+        <Skeleton isLoaded={!isLoading}>
+          <Text textStyle="h4">
+            <Text as="span" color="primary.500">
+              {insights?.submissionCount.toLocaleString()}
+            </Text>
+            {simplur` ${[insights?.submissionCount ?? 0]}response[|s] ${
+              dates ? 'in date range' : 'to date'
+            }`}
+          </Text>
+        </Skeleton>
+        <DateRangePicker value={dateRange} onChange={setDateRange} />
+      </Grid>
+
+      <Stack spacing="2.5rem" mb="3rem">
+        <SimpleGrid columns={{ base: 1, sm: 2, lg: 4 }} spacing="1rem">
+          <InsightStat
+            label="Views"
+            value={insights?.viewCount.toLocaleString() ?? '-'}
+            isLoaded={!isLoading}
+          />
+          <InsightStat
+            label="Views to responses"
+            value={
+              insights?.conversionRate === null ||
+              insights?.conversionRate === undefined
+                ? '-'
+                : `${(insights.conversionRate * 100).toFixed(1)}%`
+            }
+            isLoaded={!isLoading}
+          />
+          <InsightStat
+            label="Median completion time"
+            value={formatDuration(insights?.medianCompletionTimeMs ?? null)}
+            isLoaded={!isLoading}
+          />
+          <InsightStat
+            label="Average fields shown"
+            value={insights?.averageVisibleFieldsCount?.toFixed(1) ?? '-'}
+            isLoaded={!isLoading}
+          />
+        </SimpleGrid>
+
+        <Box>
+          <Text textStyle="subhead-1" color="secondary.700" mb="1rem">
+            Responses over time
+          </Text>
+          <Skeleton isLoaded={!isLoading}>
+            <SubmissionsOverTimeChart
+              submissionsOverTime={insights?.submissionsOverTime ?? []}
+            />
+          </Skeleton>
+        </Box>
+
+        <Box>
+          <Text textStyle="subhead-1" color="secondary.700" mb="1rem">
+            Answers
+          </Text>
+          {form?.responseMode === FormResponseMode.Email ? (
+            <Skeleton isLoaded={!isLoading}>
+              <AnswerDistributions
+                answerDistributions={insights?.answerDistributions ?? []}
+              />
+            </Skeleton>
+          ) : (
+            <InlineMessage>
+              Answer breakdowns are only available for email mode forms, as
+              responses to storage mode forms are end-to-end encrypted.
+            </InlineMessage>
+          )}
+        </Box>
+      </Stack>
+    </Container>
+  )
+}
@@ -0,0 +1,21 @@
+import { FormInsightsDto, FormInsightsQueryDto } from '~shared/types'
+
+import { ApiService } from '~services/ApiService'
+
+import { ADMIN_FORM_ENDPOINT } from '../../common/AdminViewFormService'
+
+/**
+ * Retrieves the insights of a form.
+ * @param formId the id of the form to retrieve the insights of
+ * @param dates the optional date range to retrieve the insights within
+ * @returns the insights of the form
+ */
+export const getFormInsights = async (
+  formId: string,
+  dates?: FormInsightsQueryDto,
+): Promise<FormInsightsDto> => {
+  return ApiService.get<FormInsightsDto>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/insights`,
+    { params: dates },
+  ).then(({ data }) => data)
+}
@@ -0,0 +1,62 @@
+import { useMemo } from 'react'
+import { Box, Flex, Text, Tooltip } from '@chakra-ui/react'
+import simplur from 'simplur'
+
+import { SubmissionsOverTime } from '~shared/types'
+
+interface SubmissionsOverTimeChartProps {
+  submissionsOverTime: SubmissionsOverTime
+}
+
+/**
+ * Bar chart of the number of responses received on each day which had
+ * responses.
+ */
+export const SubmissionsOverTimeChart = ({
+  submissionsOverTime,
+}: SubmissionsOverTimeChartProps): JSX.Element => {
+  const maxCount = useMemo(
+    () => Math.max(0, ...submissionsOverTime.map(({ count }) => count)),
+    [submissionsOverTime],
+  )
+
+  if (submissionsOverTime.length === 0) {
+    return (
+      <Text textStyle="body-2" color="secondary.400">
+        No responses yet.
+      </Text>
+    )
+  }
+
+  return (
+    <Box overflowX="auto">
+      <Flex align="flex-end" h="10rem" minW="100%" gap="2px">
+        {submissionsOverTime.map(({ date, count }) => (
+          <Tooltip
+            key={date}
+            label={simplur`${date}: ${[count]}response[|s]`}
+            placement="top"
+          >
+            <Box
+              flex="1 0 0.5rem"
+              maxW="2rem"
+              h={`${(count / maxCount) * 100}%`}
+              minH="2px"
+              bg="primary.500"
+              borderTopRadius="2px"
+              aria-label={simplur`${date}: ${[count]}response[|s]`}
+            />
+          </Tooltip>
+        ))}
+      </Flex>
+      <Flex justify="space-between" mt="0.5rem">
+        <Text textStyle="caption-1" color="secondary.400">
+          {submissionsOverTime[0].date}
+        </Text>
+        <Text textStyle="caption-1" color="secondary.400">
+          {submissionsOverTime[submissionsOverTime.length - 1].date}
+        </Text>
+      </Flex>
+    </Box>
+  )
+}
@@ -0,0 +1 @@
+export { InsightsPage } from './InsightsPage'
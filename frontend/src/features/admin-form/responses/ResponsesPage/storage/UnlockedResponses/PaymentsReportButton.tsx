@@ -0,0 +1,92 @@
+import { useMemo } from 'react'
+import { useParams } from 'react-router-dom'
+import { Box, MenuButton } from '@chakra-ui/react'
+import { differenceInCalendarDays } from 'date-fns'
+
+import { MAX_VERIFIED_PAYMENTS_REPORT_DAYS } from '~shared/constants/form'
+import { PaymentsReportFormat } from '~shared/types/payment'
+
+import { BxsChevronDown } from '~assets/icons/BxsChevronDown'
+import { BxsChevronUp } from '~assets/icons/BxsChevronUp'
+import Button from '~components/Button'
+import Menu from '~components/Menu'
+
+import { getPaymentsReportUrl } from '../../../AdminSubmissionsService'
+import { useStorageResponsesContext } from '../StorageResponsesContext'
+
+/**
+ * Downloads the report of the payments of the form within the selected date
+ * range, for reconciliation by finance teams.
+ */
+export const PaymentsReportButton = (): JSX.Element => {
+  const { formId } = useParams()
+  if (!formId) throw new Error('No formId provided')
+
+  const { dateRange } = useStorageResponsesContext()
+
+  // Each payment is retrieved from Stripe when verifying, so verified reports
+  // are limited to short date ranges.
+  const canVerifyWithStripe = useMemo(() => {
+    const [startDate, endDate] = dateRange
+    return (
+      !!startDate &&
+      !!endDate &&
+      differenceInCalendarDays(new Date(endDate), new Date(startDate)) <
+        MAX_VERIFIED_PAYMENTS_REPORT_DAYS
+    )
+  }, [dateRange])
+
+  const reportUrls = useMemo(() => {
+    const [startDate, endDate] = dateRange
+    const getUrl = (format: PaymentsReportFormat, verifyWithStripe = false) =>
+      getPaymentsReportUrl(formId, {
+        startDate,
+        endDate,
+        format,
+        verifyWithStripe,
+      })
+    return {
+      csv: getUrl(PaymentsReportFormat.Csv),
+      json: getUrl(PaymentsReportFormat.Json),
+      verifiedCsv: getUrl(PaymentsReportFormat.Csv, true),
+    }
+  }, [dateRange, formId])
+
+  return (
+    <Box justifySelf="flex-end">
+      <Menu placement="bottom-end">
+        {({ isOpen }) => (
+          <>
+            <MenuButton
+              as={Button}
+              variant="outline"
+              isActive={isOpen}
+              aria-label="Payments report options"
+              rightIcon={isOpen ? <BxsChevronUp /> : <BxsChevronDown />}
+            >
+              Payments report
+            </MenuButton>
+            <Menu.List>
+              <Menu.Item as="a" href={reportUrls.csv} download>
+                CSV
+              </Menu.Item>
+              <Menu.Item as="a" href={reportUrls.json} target="_blank">
+                JSON
+              </Menu.Item>
+              {canVerifyWithStripe ? (
+                <Menu.Item as="a" href={reportUrls.verifiedCsv} download>
+                  CSV verified with Stripe
+                </Menu.Item>
+              ) : (
+                <Menu.Item isDisabled>
+                  CSV verified with Stripe (select up to{' '}
+                  {MAX_VERIFIED_PAYMENTS_REPORT_DAYS} days)
+                </Menu.Item>
+              )}
+            </Menu.List>
+          </>
+        )}
+      </Menu>
+    </Box>
+  )
+}
@@ -3,15 +3,18 @@ import { Box, Flex, Grid, Skeleton, Stack, Text } from '@chakra-ui/react'
 import { format, isValid } from 'date-fns'
 import simplur from 'simplur'
 
-import { DateString } from '~shared/types'
+import { DateString, FormResponseMode } from '~shared/types'
 
 import { DateRangeValue } from '~components/Calendar'
 import { DateRangePicker } from '~components/DateRangePicker'
 import Pagination from '~components/Pagination'
 
+import { useAdminForm } from '~features/admin-form/common/queries'
+
 import { useStorageResponsesContext } from '../StorageResponsesContext'
 
 import { DownloadButton } from './DownloadButton'
+import { PaymentsReportButton } from './PaymentsReportButton'
 import { ResponsesTable } from './ResponsesTable'
 import { SubmissionSearchbar } from './SubmissionSearchbar'
 import { useUnlockedResponses } from './UnlockedResponsesProvider'
@@ -64,6 +67,12 @@ export const UnlockedResponses = (): JSX.Element => {
 
   const { dateRange, setDateRange } = useStorageResponsesContext()
 
+  const { data: form } = useAdminForm()
+  const isPaymentsForm =
+    form?.responseMode === FormResponseMode.Encrypt
+      ? form.payments_field.enabled
+      : false
+
   const prettifiedResponsesCount = useMemo(
     () =>
       submissionId
@@ -121,6 +130,7 @@ export const UnlockedResponses = (): JSX.Element => {
               setDateRange(transform.output(nextDateRange))
             }
           />
+          {isPaymentsForm ? <PaymentsReportButton /> : null}
           <DownloadButton />
         </Stack>
       </Grid>
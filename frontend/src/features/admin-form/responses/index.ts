@@ -1,4 +1,5 @@
 export { FeedbackPage } from './FeedbackPage'
 export { FormResultsLayout } from './FormResultsLayout'
 export { IndividualResponsePage } from './IndividualResponsePage'
+export { InsightsPage } from './InsightsPage'
 export { ResponsesLayout, ResponsesPage } from './ResponsesPage'
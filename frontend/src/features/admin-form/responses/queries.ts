@@ -2,7 +2,14 @@ import { useMemo } from 'react'
 import { useQuery, UseQueryResult } from 'react-query'
 import { useParams } from 'react-router-dom'
 
-import { FormFeedbackMetaDto, FormIssueMetaDto } from '~shared/types'
+import {
+  FormFeedbackMetaDto,
+  FormFeedbackMetaQueryDto,
+  FormInsightsDto,
+  FormInsightsQueryDto,
+  FormIssueMetaDto,
+  FormIssueMetaQueryDto,
+} from '~shared/types'
 import {
   FormSubmissionMetadataQueryDto,
   StorageModeSubmissionMetadataList,
@@ -13,6 +20,7 @@ import { adminFormKeys } from '../common/queries'
 
 import { getFormIssues } from './FeedbackPage/issue/IssueService'
 import { getFormFeedback } from './FeedbackPage/review/ReviewService'
+import { getFormInsights } from './InsightsPage/InsightsService'
 import { useStorageResponsesContext } from './ResponsesPage/storage/StorageResponsesContext'
 import {
   countFormSubmissions,
@@ -42,10 +50,20 @@ export const adminFormResponsesKeys = {
 export const adminFormFeedbackKeys = {
   base: [...adminFormKeys.base, 'feedback'] as const,
   id: (id: string) => [...adminFormFeedbackKeys.base, id] as const,
+  filters: (id: string, filters: FormFeedbackMetaQueryDto) =>
+    [...adminFormFeedbackKeys.id(id), filters] as const,
 }
 export const adminFormIssueKeys = {
   base: [...adminFormKeys.base, 'issues'] as const,
   id: (id: string) => [...adminFormIssueKeys.base, id] as const,
+  filters: (id: string, filters: FormIssueMetaQueryDto) =>
+    [...adminFormIssueKeys.id(id), filters] as const,
+}
+export const adminFormInsightsKeys = {
+  base: [...adminFormKeys.base, 'insights'] as const,
+  id: (id: string) => [...adminFormInsightsKeys.base, id] as const,
+  dates: (id: string, dates: [startDate: string, endDate: string] | []) =>
+    [...adminFormInsightsKeys.id(id), ...dates] as const,
 }
 
 /**
@@ -106,25 +124,53 @@ export const useFormResponses = ({
 /**
  * @precondition Must be wrapped in a Router as `useParam` is used.
  */
-export const useFormFeedback = (): UseQueryResult<FormFeedbackMetaDto> => {
+export const useFormFeedback = (
+  filters: FormFeedbackMetaQueryDto = {},
+): UseQueryResult<FormFeedbackMetaDto> => {
   const { formId } = useParams()
   if (!formId) throw new Error('No formId provided')
 
   return useQuery(
-    adminFormFeedbackKeys.id(formId),
-    () => getFormFeedback(formId),
-    { staleTime: 0 },
+    adminFormFeedbackKeys.filters(formId, filters),
+    () => getFormFeedback(formId, filters),
+    { staleTime: 0, keepPreviousData: true },
   )
 }
 
 /**
  * @precondition Must be wrapped in a Router as `useParam` is used.
  */
-export const useFormIssues = (): UseQueryResult<FormIssueMetaDto> => {
+export const useFormIssues = (
+  filters: FormIssueMetaQueryDto = {},
+): UseQueryResult<FormIssueMetaDto> => {
   const { formId } = useParams()
   if (!formId) throw new Error('No formId provided')
 
-  return useQuery(adminFormIssueKeys.id(formId), () => getFormIssues(formId), {
-    staleTime: 0,
-  })
+  return useQuery(
+    adminFormIssueKeys.filters(formId, filters),
+    () => getFormIssues(formId, filters),
+    { staleTime: 0, keepPreviousData: true },
+  )
+}
+
+/**
+ * @precondition Must be wrapped in a Router as `useParam` is used.
+ */
+export const useFormInsights = (
+  dates?: FormInsightsQueryDto,
+): UseQueryResult<FormInsightsDto> => {
+  const { formId } = useParams()
+  if (!formId) throw new Error('No formId provided')
+
+  let dateParams: [startDate: string, endDate: string] | [] = []
+
+  if (dates?.startDate && dates.endDate) {
+    dateParams = [dates.startDate, dates.endDate]
+  }
+
+  return useQuery(
+    adminFormInsightsKeys.dates(formId, dateParams),
+    () => getFormInsights(formId, dateParams.length ? dates : undefined),
+    { staleTime: 0, keepPreviousData: true },
+  )
 }
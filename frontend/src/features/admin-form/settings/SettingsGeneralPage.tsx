@@ -3,7 +3,10 @@ import { Divider } from '@chakra-ui/react'
 import { FormCaptchaToggle } from './components/FormCaptchaToggle'
 import { FormCustomisationSection } from './components/FormCustomisationSection'
 import { FormDetailsSection } from './components/FormDetailsSection'
+import { FormLanguagesSettings } from './components/FormLanguagesSettings'
 import { FormLimitToggle } from './components/FormLimitToggle'
+import { FormMultiPageToggle } from './components/FormMultiPageToggle'
+import { FormScheduleToggle } from './components/FormScheduleToggle'
 import { FormStatusToggle } from './components/FormStatusToggle'
 import { GeneralTabHeader } from './components/GeneralTabHeader'
 
@@ -13,10 +16,15 @@ export const SettingsGeneralPage = (): JSX.Element => {
       <GeneralTabHeader />
       <FormStatusToggle />
       <FormLimitToggle />
+      <FormScheduleToggle />
       <FormCustomisationSection />
       <Divider my="2.5rem" />
       <FormCaptchaToggle />
       <Divider my="2.5rem" />
+      <FormMultiPageToggle />
+      <Divider my="2.5rem" />
+      <FormLanguagesSettings />
+      <Divider my="2.5rem" />
       <FormDetailsSection />
     </>
   )
@@ -0,0 +1,159 @@
+import { useState } from 'react'
+import { BiDownload } from 'react-icons/bi'
+import { useParams } from 'react-router-dom'
+import {
+  Box,
+  Flex,
+  Skeleton,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { union } from 'lodash'
+
+import {
+  FormAuditAction,
+  FormAuditLogDto,
+} from '~shared/types/form/form_audit_log'
+
+import Badge from '~components/Badge'
+import Button from '~components/Button'
+import Pagination from '~components/Pagination'
+
+import { CategoryHeader } from './components/CategoryHeader'
+import { AUDIT_LOGS_PAGE_SIZE, useFormAuditLogs } from './queries'
+import { getFormAuditLogsDownloadUrl } from './SettingsService'
+
+const DATETIME_DISPLAY_FORMAT = 'd MMM yyyy, h:mm a'
+
+const AUDIT_ACTION_LABELS: Record<FormAuditAction, string> = {
+  [FormAuditAction.ArchiveForm]: 'Deleted form',
+  [FormAuditAction.CreateField]: 'Added field',
+  [FormAuditAction.UpdateField]: 'Edited field',
+  [FormAuditAction.DuplicateField]: 'Duplicated field',
+  [FormAuditAction.ReorderField]: 'Moved field',
+  [FormAuditAction.DeleteField]: 'Deleted field',
+  [FormAuditAction.CreateLogic]: 'Added logic',
+  [FormAuditAction.UpdateLogic]: 'Edited logic',
+  [FormAuditAction.DeleteLogic]: 'Deleted logic',
+  [FormAuditAction.UpdateSettings]: 'Changed settings',
+  [FormAuditAction.UpdateStartPage]: 'Edited start page',
+  [FormAuditAction.UpdateEndPage]: 'Edited end page',
+  [FormAuditAction.UpdateCollaborators]: 'Changed collaborators',
+  [FormAuditAction.TransferOwnership]: 'Transferred ownership',
+  [FormAuditAction.UpdatePayments]: 'Changed payments',
+  [FormAuditAction.UpdateTwilio]: 'Changed Twilio credentials',
+  [FormAuditAction.DeleteTwilio]: 'Removed Twilio credentials',
+  [FormAuditAction.UpdateGoLink]: 'Set GoGov link',
+}
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '-'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const FormAuditLogRow = ({
+  auditLog,
+}: {
+  auditLog: FormAuditLogDto
+}): JSX.Element => {
+  const changedProperties = union(
+    Object.keys(auditLog.before),
+    Object.keys(auditLog.after),
+  )
+
+  return (
+    <Tr>
+      <Td whiteSpace="nowrap">
+        {format(new Date(auditLog.created), DATETIME_DISPLAY_FORMAT)}
+      </Td>
+      <Td>{auditLog.actor}</Td>
+      <Td>
+        <Badge variant="subtle" colorScheme="primary">
+          {AUDIT_ACTION_LABELS[auditLog.action]}
+        </Badge>
+      </Td>
+      <Td>
+        <Stack spacing="0.25rem">
+          {changedProperties.map((property) => (
+            <Text key={property} textStyle="body-2" wordBreak="break-word">
+              <b>{property}</b>: {formatAuditValue(auditLog.before[property])} →{' '}
+              {formatAuditValue(auditLog.after[property])}
+            </Text>
+          ))}
+        </Stack>
+      </Td>
+    </Tr>
+  )
+}
+
+export const SettingsHistoryPage = (): JSX.Element => {
+  const { formId } = useParams()
+  if (!formId) throw new Error('No formId provided')
+
+  const [currentPage, setCurrentPage] = useState(1)
+  const { data, isLoading } = useFormAuditLogs(currentPage)
+
+  return (
+    <>
+      <CategoryHeader>History</CategoryHeader>
+      <Flex justify="space-between" align="center" mb="1.5rem" gap="1rem">
+        <Text textStyle="body-1" color="secondary.500">
+          Changes made to this form by you and your collaborators.
+        </Text>
+        <Button
+          as="a"
+          href={getFormAuditLogsDownloadUrl(formId)}
+          download
+          variant="outline"
+          leftIcon={<BiDownload fontSize="1.5rem" />}
+          flexShrink={0}
+        >
+          Download CSV
+        </Button>
+      </Flex>
+      <Skeleton isLoaded={!isLoading}>
+        {data?.auditLogs.length ? (
+          <Box overflowX="auto">
+            <Table variant="solid" colorScheme="secondary">
+              <Thead>
+                <Tr>
+                  <Th>Date</Th>
+                  <Th>Changed by</Th>
+                  <Th>Action</Th>
+                  <Th>Changes</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {data.auditLogs.map((auditLog) => (
+                  <FormAuditLogRow key={auditLog._id} auditLog={auditLog} />
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        ) : (
+          <Text textStyle="body-2" color="secondary.400">
+            No changes have been made to this form yet.
+          </Text>
+        )}
+      </Skeleton>
+      {data && data.count > AUDIT_LOGS_PAGE_SIZE ? (
+        <Box mt="1.5rem">
+          <Pagination
+            totalCount={data.count}
+            currentPage={currentPage}
+            pageSize={AUDIT_LOGS_PAGE_SIZE}
+            onPageChange={setCurrentPage}
+          />
+        </Box>
+      ) : null}
+    </>
+  )
+}
@@ -1,5 +1,12 @@
 import { useEffect, useState } from 'react'
-import { BiCodeBlock, BiCog, BiDollar, BiKey, BiMessage } from 'react-icons/bi'
+import {
+  BiCodeBlock,
+  BiCog,
+  BiDollar,
+  BiHistory,
+  BiKey,
+  BiMessage,
+} from 'react-icons/bi'
 import { useNavigate, useParams } from 'react-router-dom'
 import {
   Box,
@@ -24,11 +31,18 @@ import { useAdminFormCollaborators } from '../common/queries'
 import { SettingsTab } from './components/SettingsTab'
 import { SettingsAuthPage } from './SettingsAuthPage'
 import { SettingsGeneralPage } from './SettingsGeneralPage'
+import { SettingsHistoryPage } from './SettingsHistoryPage'
 import { SettingsPaymentsPage } from './SettingsPaymentsPage'
 import { SettingsTwilioPage } from './SettingsTwilioPage'
 import { SettingsWebhooksPage } from './SettingsWebhooksPage'
 
-const settingsTabsOrder = ['general', 'singpass', 'twilio', 'webhooks']
+const settingsTabsOrder = [
+  'general',
+  'singpass',
+  'twilio',
+  'webhooks',
+  'history',
+]
 
 export const SettingsPage = (): JSX.Element => {
   const { formId, settingsTab } = useParams()
@@ -117,6 +131,7 @@ export const SettingsPage = (): JSX.Element => {
             <SettingsTab label="Singpass" icon={BiKey} />
             <SettingsTab label="Twilio credentials" icon={BiMessage} />
             <SettingsTab label="Webhooks" icon={BiCodeBlock} />
+            <SettingsTab label="History" icon={BiHistory} />
             {displayPayments && (
               <SettingsTab label="Payments" icon={BiDollar} />
             )}
@@ -139,6 +154,9 @@ export const SettingsPage = (): JSX.Element => {
           <TabPanel>
             <SettingsWebhooksPage />
           </TabPanel>
+          <TabPanel>
+            <SettingsHistoryPage />
+          </TabPanel>
           {displayPayments && (
             <TabPanel>
               <SettingsPaymentsPage />
@@ -1,13 +1,28 @@
 import Stripe from 'stripe'
 
+import {
+  FormAuditLogQueryDto,
+  FormAuditLogsDto,
+} from '~shared/types/form/form_audit_log'
 import {
   EmailFormSettings,
   FormSettings,
+  FormWebhook,
+  FormWebhookEndpoint,
   SettingsUpdateDto,
   StorageFormSettings,
+  WebhookRetryPolicy,
 } from '~shared/types/form/form'
 
-import { ApiService } from '~services/ApiService'
+import {
+  RedeliverWebhookBodyDto,
+  RedeliverWebhooksResponseDto,
+  WebhookDeliveriesQueryDto,
+  WebhookDeliveryDto,
+  WebhookEventType,
+} from '~shared/types/webhook'
+
+import { API_BASE_URL, ApiService } from '~services/ApiService'
 
 import { TwilioCredentials } from '../../../../../shared/types/twilio'
 import { ADMIN_FORM_ENDPOINT } from '../common/AdminViewFormService'
@@ -49,6 +64,13 @@ export const updateFormLimit: UpdateFormFn<'submissionLimit'> = async (
   return updateFormSettings(formId, { submissionLimit: newLimit })
 }
 
+export const updateFormSchedule = async (
+  formId: string,
+  schedule: Pick<FormSettings, 'opensAt' | 'closesAt'>,
+) => {
+  return updateFormSettings(formId, schedule)
+}
+
 export const updateFormCaptcha: UpdateFormFn<'hasCaptcha'> = async (
   formId,
   newHasCaptcha,
@@ -56,6 +78,21 @@ export const updateFormCaptcha: UpdateFormFn<'hasCaptcha'> = async (
   return updateFormSettings(formId, { hasCaptcha: newHasCaptcha })
 }
 
+export const updateFormMultiPage: UpdateFormFn<'isMultiPage'> = async (
+  formId,
+  newIsMultiPage,
+) => {
+  return updateFormSettings(formId, { isMultiPage: newIsMultiPage })
+}
+
+export const updateFormSupportedLanguages: UpdateFormFn<
+  'supportedLanguages'
+> = async (formId, newSupportedLanguages) => {
+  return updateFormSettings(formId, {
+    supportedLanguages: newSupportedLanguages,
+  })
+}
+
 export const updateFormInactiveMessage: UpdateFormFn<
   'inactiveMessage'
 > = async (formId, newMessage) => {
@@ -112,6 +149,40 @@ export const updateFormWebhookRetries = async (
   })
 }
 
+export const updateFormWebhookDeliveryOptions = async (
+  formId: string,
+  nextOptions: Pick<FormWebhook, 'hmacSecret' | 'headers'>,
+) => {
+  return updateFormSettings(formId, { webhook: nextOptions })
+}
+
+export const updateFormAdditionalWebhookEndpoints = async (
+  formId: string,
+  nextEndpoints: FormWebhookEndpoint[],
+) => {
+  return updateFormSettings(formId, {
+    webhook: { additionalEndpoints: nextEndpoints },
+  })
+}
+
+export const updateFormWebhookRetryPolicy = async (
+  formId: string,
+  nextRetryPolicy: WebhookRetryPolicy,
+) => {
+  return updateFormSettings(formId, {
+    webhook: { retryPolicy: nextRetryPolicy },
+  })
+}
+
+export const updateFormWebhookEvents = async (
+  formId: string,
+  nextEvents: WebhookEventType[],
+) => {
+  return updateFormSettings(formId, {
+    webhook: { events: nextEvents },
+  })
+}
+
 export const updateBusinessInfo: UpdateStorageFormFn<'business'> = async (
   formId,
   newBusinessField: StorageFormSettings['business'],
@@ -175,3 +246,52 @@ export const validateStripeAccount = async (formId: string) => {
     `${ADMIN_FORM_ENDPOINT}/${formId}/stripe/validate`,
   ).then(({ data }) => data)
 }
+
+export const getWebhookDeliveries = async (
+  formId: string,
+  status?: WebhookDeliveriesQueryDto['status'],
+) => {
+  return ApiService.get<WebhookDeliveryDto[]>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/webhooks/deliveries`,
+    { params: { status } as WebhookDeliveriesQueryDto },
+  ).then(({ data }) => data)
+}
+
+export const redeliverWebhook = async (
+  formId: string,
+  submissionId: string,
+  endpointId?: string,
+) => {
+  return ApiService.post<RedeliverWebhooksResponseDto>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/webhooks/deliveries/${submissionId}/redeliver`,
+    { endpointId } as RedeliverWebhookBodyDto,
+  ).then(({ data }) => data)
+}
+
+export const redeliverFailedWebhooks = async (
+  formId: string,
+  since: string,
+) => {
+  return ApiService.post<RedeliverWebhooksResponseDto>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/webhooks/deliveries/redeliver`,
+    { since },
+  ).then(({ data }) => data)
+}
+
+export const getFormAuditLogs = async (
+  formId: string,
+  query: FormAuditLogQueryDto,
+) => {
+  return ApiService.get<FormAuditLogsDto>(
+    `${ADMIN_FORM_ENDPOINT}/${formId}/audit-logs`,
+    { params: query },
+  ).then(({ data }) => data)
+}
+
+/**
+ * Gets the url to download all the changes made to a form as a CSV file from
+ * @param formId the form to download the changes of
+ * @returns The url of the CSV file
+ */
+export const getFormAuditLogsDownloadUrl = (formId: string): string =>
+  `${API_BASE_URL}${ADMIN_FORM_ENDPOINT}/${formId}/audit-logs/download`
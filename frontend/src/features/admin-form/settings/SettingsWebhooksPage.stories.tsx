@@ -4,6 +4,7 @@ import { FormResponseMode, FormSettings } from '~shared/types/form'
 
 import {
   getAdminFormSettings,
+  getWebhookDeliveries,
   patchAdminFormSettings,
 } from '~/mocks/msw/handlers/admin-form'
 
@@ -24,6 +25,7 @@ const buildMswRoutes = ({
 } = {}) => [
   getAdminFormSettings({ overrides, delay }),
   patchAdminFormSettings({ overrides }),
+  getWebhookDeliveries({ delay }),
 ]
 
 export default {
@@ -0,0 +1,60 @@
+import { useCallback } from 'react'
+import { CheckboxGroup, FormControl, Skeleton, Wrap } from '@chakra-ui/react'
+
+import { TRANSLATABLE_LANGUAGES } from '~shared/constants/form'
+import { Language } from '~shared/types/form'
+
+import { LANGUAGE_LABELS } from '~constants/languages'
+import Checkbox from '~components/Checkbox'
+import FormLabel from '~components/FormControl/FormLabel'
+
+import { useMutateFormSettings } from '../mutations'
+import { useAdminFormSettings } from '../queries'
+
+export const FormLanguagesSettings = (): JSX.Element => {
+  const { data: settings, isLoading: isLoadingSettings } =
+    useAdminFormSettings()
+
+  const { mutateFormSupportedLanguages } = useMutateFormSettings()
+
+  const handleChange = useCallback(
+    (nextLanguages: Language[]) => {
+      if (
+        !settings ||
+        isLoadingSettings ||
+        mutateFormSupportedLanguages.isLoading
+      ) {
+        return
+      }
+      // Keep languages in a consistent order regardless of selection order.
+      return mutateFormSupportedLanguages.mutate(
+        TRANSLATABLE_LANGUAGES.filter((language) =>
+          nextLanguages.includes(language),
+        ),
+      )
+    },
+    [isLoadingSettings, mutateFormSupportedLanguages, settings],
+  )
+
+  return (
+    <Skeleton isLoaded={!isLoadingSettings && !!settings}>
+      <FormControl isDisabled={mutateFormSupportedLanguages.isLoading}>
+        <FormLabel description="Respondents can switch the form to these languages. Questions which have not been translated are shown in English.">
+          Form languages
+        </FormLabel>
+        <CheckboxGroup
+          value={settings?.supportedLanguages ?? []}
+          onChange={handleChange}
+        >
+          <Wrap spacing="0.75rem">
+            {TRANSLATABLE_LANGUAGES.map((language) => (
+              <Checkbox key={language} value={language} w="auto">
+                {LANGUAGE_LABELS[language]}
+              </Checkbox>
+            ))}
+          </Wrap>
+        </CheckboxGroup>
+      </FormControl>
+    </Skeleton>
+  )
+}
@@ -0,0 +1,37 @@
+import { useCallback, useMemo } from 'react'
+import { Skeleton } from '@chakra-ui/react'
+
+import Toggle from '~components/Toggle'
+
+import { useMutateFormSettings } from '../mutations'
+import { useAdminFormSettings } from '../queries'
+
+export const FormMultiPageToggle = (): JSX.Element => {
+  const { data: settings, isLoading: isLoadingSettings } =
+    useAdminFormSettings()
+
+  const isMultiPage = useMemo(
+    () => settings && settings?.isMultiPage,
+    [settings],
+  )
+
+  const { mutateFormMultiPage } = useMutateFormSettings()
+
+  const handleToggleMultiPage = useCallback(() => {
+    if (!settings || isLoadingSettings || mutateFormMultiPage.isLoading) return
+    const nextIsMultiPage = !settings.isMultiPage
+    return mutateFormMultiPage.mutate(nextIsMultiPage)
+  }, [isLoadingSettings, mutateFormMultiPage, settings])
+
+  return (
+    <Skeleton isLoaded={!isLoadingSettings && !!settings}>
+      <Toggle
+        isLoading={mutateFormMultiPage.isLoading}
+        isChecked={isMultiPage}
+        label="Split form into pages"
+        description="Each section starts a new page. Respondents must complete each page before moving on to the next."
+        onChange={() => handleToggleMultiPage()}
+      />
+    </Skeleton>
+  )
+}
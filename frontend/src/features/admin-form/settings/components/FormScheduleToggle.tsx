@@ -0,0 +1,138 @@
+import { useCallback, useMemo, useState } from 'react'
+import { FormControl, Skeleton, Stack } from '@chakra-ui/react'
+import { addDays, format, isValid, parseISO, startOfHour } from 'date-fns'
+
+import { FormSettings } from '~shared/types/form/form'
+
+import Button from '~components/Button'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import Input from '~components/Input'
+import Toggle from '~components/Toggle'
+
+import { useMutateFormSettings } from '../mutations'
+import { useAdminFormSettings } from '../queries'
+
+// Format accepted by datetime-local inputs.
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm"
+
+const toInputValue = (date: string | null): string =>
+  date ? format(new Date(date), DATETIME_INPUT_FORMAT) : ''
+
+const toDateString = (value: string): string | null => {
+  const date = parseISO(value)
+  return isValid(date) ? date.toISOString() : null
+}
+
+interface FormScheduleBlockProps {
+  initialOpensAt: string
+  initialClosesAt: string
+}
+
+const FormScheduleBlock = ({
+  initialOpensAt,
+  initialClosesAt,
+}: FormScheduleBlockProps): JSX.Element => {
+  const [opensAt, setOpensAt] = useState(initialOpensAt)
+  const [closesAt, setClosesAt] = useState(initialClosesAt)
+
+  const { mutateFormSchedule } = useMutateFormSettings()
+
+  const error = useMemo(() => {
+    if (opensAt && closesAt && closesAt <= opensAt) {
+      return 'Closing time must be after opening time'
+    }
+    return undefined
+  }, [closesAt, opensAt])
+
+  const isUnchanged = opensAt === initialOpensAt && closesAt === initialClosesAt
+
+  const handleSave = useCallback(() => {
+    if (error) return
+    return mutateFormSchedule.mutate({
+      opensAt: toDateString(opensAt),
+      closesAt: toDateString(closesAt),
+    })
+  }, [closesAt, error, mutateFormSchedule, opensAt])
+
+  return (
+    <FormControl mt="2rem" isInvalid={!!error}>
+      <FormLabel description="Your form will automatically open and close at the set times. Leave either time empty to open or close your form manually.">
+        Form schedule
+      </FormLabel>
+      <Stack direction={{ base: 'column', md: 'row' }} spacing="1rem">
+        <FormControl>
+          <FormLabel>Opens at</FormLabel>
+          <Input
+            type="datetime-local"
+            value={opensAt}
+            onChange={(e) => setOpensAt(e.target.value)}
+          />
+        </FormControl>
+        <FormControl>
+          <FormLabel>Closes at</FormLabel>
+          <Input
+            type="datetime-local"
+            value={closesAt}
+            onChange={(e) => setClosesAt(e.target.value)}
+          />
+        </FormControl>
+      </Stack>
+      <FormErrorMessage>{error}</FormErrorMessage>
+      <Button
+        mt="1rem"
+        isDisabled={!!error || isUnchanged}
+        isLoading={mutateFormSchedule.isLoading}
+        onClick={handleSave}
+      >
+        Save schedule
+      </Button>
+    </FormControl>
+  )
+}
+
+const hasSchedule = (settings?: FormSettings): boolean =>
+  !!settings && (settings.opensAt !== null || settings.closesAt !== null)
+
+export const FormScheduleToggle = (): JSX.Element => {
+  const { data: settings, isLoading: isLoadingSettings } =
+    useAdminFormSettings()
+
+  const isScheduled = useMemo(() => hasSchedule(settings), [settings])
+
+  const { mutateFormSchedule } = useMutateFormSettings()
+
+  const handleToggleSchedule = useCallback(() => {
+    if (!settings || isLoadingSettings || mutateFormSchedule.isLoading) return
+
+    // Case toggling schedule off.
+    if (hasSchedule(settings)) {
+      return mutateFormSchedule.mutate({ opensAt: null, closesAt: null })
+    }
+
+    // Case toggling schedule on, defaulting to closing a week from now.
+    return mutateFormSchedule.mutate({
+      opensAt: null,
+      closesAt: startOfHour(addDays(new Date(), 7)).toISOString(),
+    })
+  }, [isLoadingSettings, mutateFormSchedule, settings])
+
+  return (
+    <Skeleton isLoaded={!isLoadingSettings && !!settings} mt="2rem">
+      <Toggle
+        isLoading={mutateFormSchedule.isLoading}
+        isChecked={isScheduled}
+        label="Schedule form opening and closing"
+        onChange={() => handleToggleSchedule()}
+      />
+      {settings && isScheduled && (
+        <FormScheduleBlock
+          // Remount with the latest saved schedule after each update.
+          key={`${settings.opensAt}-${settings.closesAt}`}
+          initialOpensAt={toInputValue(settings.opensAt)}
+          initialClosesAt={toInputValue(settings.closesAt)}
+        />
+      )}
+    </Skeleton>
+  )
+}
@@ -0,0 +1,220 @@
+import { useCallback, useEffect } from 'react'
+import { useFieldArray, useForm } from 'react-hook-form'
+import { BiPlus, BiTrash } from 'react-icons/bi'
+import {
+  Box,
+  Flex,
+  FormControl,
+  Stack,
+  StackDivider,
+  Text,
+} from '@chakra-ui/react'
+import validator from 'validator'
+
+import { MAX_ADDITIONAL_WEBHOOK_ENDPOINTS } from '~shared/constants/webhook'
+
+import Button from '~components/Button'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import IconButton from '~components/IconButton'
+import Input from '~components/Input'
+import Toggle from '~components/Toggle'
+
+import { useMutateFormSettings } from '../../mutations'
+import { useAdminFormSettings } from '../../queries'
+
+import {
+  formatWebhookHeaders,
+  generateWebhookHmacSecret,
+  getWebhookHmacSecretUpdate,
+  parseWebhookHeaders,
+  validateWebhookHeaders,
+  validateWebhookHmacSecret,
+} from './utils'
+import { WebhookDeliveryOptionsFields } from './WebhookDeliveryOptionsFields'
+
+type AdditionalWebhookEndpointInputs = {
+  endpoints: {
+    endpointId?: string
+    url: string
+    isRetryEnabled: boolean
+    hasHmacSecret: boolean
+    hmacSecret: string
+    isHmacSecretRemoved: boolean
+    headers: string
+  }[]
+}
+
+const NEW_ENDPOINT: AdditionalWebhookEndpointInputs['endpoints'][number] = {
+  url: '',
+  isRetryEnabled: false,
+  hasHmacSecret: false,
+  hmacSecret: '',
+  isHmacSecretRemoved: false,
+  headers: '',
+}
+
+export const AdditionalWebhookEndpoints = (): JSX.Element | null => {
+  const { data: settings } = useAdminFormSettings()
+  const { mutateAdditionalWebhookEndpoints } = useMutateFormSettings()
+  const {
+    control,
+    register,
+    reset,
+    setValue,
+    watch,
+    handleSubmit,
+    formState: { errors, isDirty },
+  } = useForm<AdditionalWebhookEndpointInputs>()
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: 'endpoints',
+  })
+
+  useEffect(() => {
+    if (!settings) return
+    reset({
+      endpoints: (settings.webhook.additionalEndpoints ?? []).map(
+        (endpoint) => ({
+          endpointId: endpoint._id,
+          url: endpoint.url,
+          isRetryEnabled: endpoint.isRetryEnabled,
+          hasHmacSecret: !!endpoint.hasHmacSecret,
+          hmacSecret: '',
+          isHmacSecretRemoved: false,
+          headers: formatWebhookHeaders(endpoint.headers),
+        }),
+      ),
+    })
+  }, [reset, settings])
+
+  const handleAddEndpoint = useCallback(() => append(NEW_ENDPOINT), [append])
+
+  const handleSave = handleSubmit(({ endpoints }) =>
+    mutateAdditionalWebhookEndpoints.mutate(
+      endpoints.map(
+        ({
+          endpointId,
+          url,
+          isRetryEnabled,
+          hmacSecret,
+          isHmacSecretRemoved,
+          headers,
+        }) => ({
+          _id: endpointId,
+          url: url.trim(),
+          isRetryEnabled,
+          hmacSecret: getWebhookHmacSecretUpdate(
+            hmacSecret,
+            isHmacSecretRemoved,
+          ),
+          headers: parseWebhookHeaders(headers),
+        }),
+      ),
+    ),
+  )
+
+  if (!settings?.webhook.url) return null
+
+  return (
+    <Stack spacing="1.5rem">
+      <Box>
+        <Text textStyle="subhead-1" color="secondary.700">
+          Additional endpoints
+        </Text>
+        <Text textStyle="body-2" color="secondary.400" mt="0.25rem">
+          Webhooks are also sent to these endpoints, each with its own signing,
+          headers and retries.
+        </Text>
+      </Box>
+      {fields.length ? (
+        <Stack
+          divider={<StackDivider borderColor="secondary.100" />}
+          spacing="2rem"
+        >
+          {fields.map((field, index) => (
+            <Stack key={field.id} spacing="1.5rem">
+              <FormControl isInvalid={!!errors.endpoints?.[index]?.url}>
+                <Flex justify="space-between" align="flex-end">
+                  <FormLabel isRequired>Endpoint URL</FormLabel>
+                  <IconButton
+                    mb="0.75rem"
+                    variant="clear"
+                    colorScheme="danger"
+                    fontSize="1.25rem"
+                    icon={<BiTrash />}
+                    aria-label="Remove endpoint"
+                    onClick={() => remove(index)}
+                  />
+                </Flex>
+                <Input
+                  placeholder="https://your-webhook.com/url"
+                  {...register(`endpoints.${index}.url`, {
+                    validate: (url) =>
+                      validator.isURL(url, {
+                        protocols: ['https'],
+                        require_protocol: true,
+                      }) || 'Please enter a valid URL (starting with https://)',
+                  })}
+                />
+                <FormErrorMessage>
+                  {errors.endpoints?.[index]?.url?.message}
+                </FormErrorMessage>
+              </FormControl>
+              <Toggle
+                {...register(`endpoints.${index}.isRetryEnabled`)}
+                label="Enable retries"
+              />
+              <WebhookDeliveryOptionsFields
+                hmacSecretProps={register(`endpoints.${index}.hmacSecret`, {
+                  validate: validateWebhookHmacSecret,
+                })}
+                hmacSecretError={errors.endpoints?.[index]?.hmacSecret?.message}
+                headersProps={register(`endpoints.${index}.headers`, {
+                  validate: validateWebhookHeaders,
+                })}
+                headersError={errors.endpoints?.[index]?.headers?.message}
+                hasHmacSecret={
+                  field.hasHmacSecret &&
+                  !watch(`endpoints.${index}.isHmacSecretRemoved`)
+                }
+                onRemoveSecret={() => {
+                  setValue(`endpoints.${index}.hmacSecret`, '', {
+                    shouldValidate: true,
+                  })
+                  setValue(`endpoints.${index}.isHmacSecretRemoved`, true, {
+                    shouldDirty: true,
+                  })
+                }}
+                onGenerateSecret={() =>
+                  setValue(
+                    `endpoints.${index}.hmacSecret`,
+                    generateWebhookHmacSecret(),
+                    { shouldDirty: true, shouldValidate: true },
+                  )
+                }
+              />
+            </Stack>
+          ))}
+        </Stack>
+      ) : null}
+      <Stack direction={{ base: 'column', md: 'row' }} spacing="1rem">
+        <Button
+          variant="outline"
+          leftIcon={<BiPlus fontSize="1.5rem" />}
+          isDisabled={fields.length >= MAX_ADDITIONAL_WEBHOOK_ENDPOINTS}
+          onClick={handleAddEndpoint}
+        >
+          Add endpoint
+        </Button>
+        <Button
+          isDisabled={!isDirty}
+          isLoading={mutateAdditionalWebhookEndpoints.isLoading}
+          onClick={handleSave}
+        >
+          Save endpoints
+        </Button>
+      </Stack>
+    </Stack>
+  )
+}
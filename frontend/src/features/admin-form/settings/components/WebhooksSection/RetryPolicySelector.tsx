@@ -0,0 +1,163 @@
+import { useEffect } from 'react'
+import { Controller, useForm } from 'react-hook-form'
+import { Box, FormControl, Stack } from '@chakra-ui/react'
+
+import {
+  MAX_CUSTOM_WEBHOOK_BACKOFF_MINUTES,
+  MAX_CUSTOM_WEBHOOK_RETRIES,
+} from '~shared/constants/webhook'
+import { WebhookRetryProfile } from '~shared/types/form/form'
+
+import Button from '~components/Button'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import NumberInput from '~components/NumberInput'
+import Radio from '~components/Radio'
+
+import { useMutateFormSettings } from '../../mutations'
+import { useAdminFormSettings } from '../../queries'
+
+const RETRY_PROFILE_LABELS: Record<WebhookRetryProfile, string> = {
+  [WebhookRetryProfile.Aggressive]:
+    'Aggressive: 5 retries within the first hour',
+  [WebhookRetryProfile.Standard]: 'Standard: 6 retries over about a day',
+  [WebhookRetryProfile.LongTail]: 'Long tail: 9 retries over three days',
+  [WebhookRetryProfile.Custom]: 'Custom',
+}
+
+const DEFAULT_MAX_RETRIES = 5
+const DEFAULT_BACKOFF_MINUTES = 5
+
+type RetryPolicyInputs = {
+  profile: WebhookRetryProfile
+  maxRetries: string
+  backoffMinutes: string
+}
+
+const validateWholeNumber = (max: number) => (value: string) => {
+  const number = Number(value)
+  return (
+    (Number.isInteger(number) && number >= 1 && number <= max) ||
+    `Enter a whole number from 1 to ${max}`
+  )
+}
+
+export const RetryPolicySelector = (): JSX.Element | null => {
+  const { data: settings } = useAdminFormSettings()
+  const { mutateWebhookRetryPolicy } = useMutateFormSettings()
+  const {
+    control,
+    reset,
+    watch,
+    handleSubmit,
+    formState: { errors, isDirty },
+  } = useForm<RetryPolicyInputs>()
+
+  useEffect(() => {
+    if (!settings) return
+    const retryPolicy = settings.webhook.retryPolicy
+    reset({
+      profile: retryPolicy?.profile ?? WebhookRetryProfile.Standard,
+      maxRetries: String(retryPolicy?.maxRetries ?? DEFAULT_MAX_RETRIES),
+      backoffMinutes: String(
+        retryPolicy?.backoffMinutes ?? DEFAULT_BACKOFF_MINUTES,
+      ),
+    })
+  }, [reset, settings])
+
+  const profile = watch('profile')
+
+  const handleSave = handleSubmit(({ profile, maxRetries, backoffMinutes }) =>
+    mutateWebhookRetryPolicy.mutate(
+      profile === WebhookRetryProfile.Custom
+        ? {
+            profile,
+            maxRetries: Number(maxRetries),
+            backoffMinutes: Number(backoffMinutes),
+          }
+        : { profile },
+    ),
+  )
+
+  if (!settings?.webhook.url) return null
+
+  return (
+    <Stack spacing="1.5rem">
+      <FormControl>
+        <FormLabel description="How often webhooks are retried for endpoints with retries enabled. Webhooks which fail every retry are listed as failed in the deliveries below.">
+          Retry policy
+        </FormLabel>
+        <Controller
+          control={control}
+          name="profile"
+          render={({ field: { value, onChange } }) => (
+            <Radio.RadioGroup value={value} onChange={onChange}>
+              {Object.values(WebhookRetryProfile).map((retryProfile) => (
+                <Radio key={retryProfile} value={retryProfile}>
+                  {RETRY_PROFILE_LABELS[retryProfile]}
+                </Radio>
+              ))}
+            </Radio.RadioGroup>
+          )}
+        />
+      </FormControl>
+      {profile === WebhookRetryProfile.Custom ? (
+        <Stack direction={{ base: 'column', md: 'row' }} spacing="1rem">
+          <FormControl isInvalid={!!errors.maxRetries}>
+            <FormLabel isRequired>Maximum retries</FormLabel>
+            <Controller
+              control={control}
+              name="maxRetries"
+              rules={{
+                validate: validateWholeNumber(MAX_CUSTOM_WEBHOOK_RETRIES),
+              }}
+              render={({ field }) => (
+                <NumberInput
+                  inputMode="numeric"
+                  showSteppers={false}
+                  precision={0}
+                  {...field}
+                />
+              )}
+            />
+            <FormErrorMessage>{errors.maxRetries?.message}</FormErrorMessage>
+          </FormControl>
+          <FormControl isInvalid={!!errors.backoffMinutes}>
+            <FormLabel isRequired description="Doubles after each retry.">
+              Minutes before first retry
+            </FormLabel>
+            <Controller
+              control={control}
+              name="backoffMinutes"
+              rules={{
+                validate: validateWholeNumber(
+                  MAX_CUSTOM_WEBHOOK_BACKOFF_MINUTES,
+                ),
+              }}
+              render={({ field }) => (
+                <NumberInput
+                  inputMode="numeric"
+                  showSteppers={false}
+                  precision={0}
+                  {...field}
+                />
+              )}
+            />
+            <FormErrorMessage>
+              {errors.backoffMinutes?.message}
+            </FormErrorMessage>
+          </FormControl>
+        </Stack>
+      ) : null}
+      <Box>
+        <Button
+          isDisabled={!isDirty}
+          isLoading={mutateWebhookRetryPolicy.isLoading}
+          onClick={handleSave}
+        >
+          Save retry policy
+        </Button>
+      </Box>
+    </Stack>
+  )
+}
@@ -0,0 +1,211 @@
+import { useCallback, useState } from 'react'
+import {
+  Box,
+  FormControl,
+  Skeleton,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react'
+import { format, isValid, parseISO, startOfDay, subDays } from 'date-fns'
+
+import {
+  WebhookDeliveryDto,
+  WebhookDeliveryStatus,
+} from '~shared/types/webhook'
+
+import Badge from '~components/Badge'
+import Button from '~components/Button'
+import FormLabel from '~components/FormControl/FormLabel'
+import Input from '~components/Input'
+import Toggle from '~components/Toggle'
+
+import { useMutateWebhookDeliveries } from '../../mutations'
+import { useAdminFormSettings, useWebhookDeliveries } from '../../queries'
+
+// Format accepted by datetime-local inputs.
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm"
+const DATETIME_DISPLAY_FORMAT = 'd MMM yyyy, h:mm a'
+
+const STATUS_BADGE_PROPS: Record<
+  WebhookDeliveryStatus,
+  { colorScheme: string; label: string }
+> = {
+  [WebhookDeliveryStatus.Success]: { colorScheme: 'success', label: 'Success' },
+  [WebhookDeliveryStatus.PendingRetry]: {
+    colorScheme: 'warning',
+    label: 'Pending retry',
+  },
+  [WebhookDeliveryStatus.Failed]: { colorScheme: 'danger', label: 'Failed' },
+}
+
+const formatDateTime = (date: string): string =>
+  format(new Date(date), DATETIME_DISPLAY_FORMAT)
+
+const WebhookDeliveryRow = ({
+  delivery,
+}: {
+  delivery: WebhookDeliveryDto
+}): JSX.Element => {
+  const { mutateRedeliverWebhook } = useMutateWebhookDeliveries()
+  const { colorScheme, label } = STATUS_BADGE_PROPS[delivery.status]
+
+  return (
+    <Tr>
+      <Td>
+        <Text textStyle="body-2">{delivery.submissionId}</Text>
+        <Text textStyle="caption-2" color="secondary.400">
+          Submitted {formatDateTime(delivery.submissionTime)}
+        </Text>
+      </Td>
+      <Td>
+        <Text textStyle="body-2" wordBreak="break-all">
+          {delivery.webhookUrl}
+        </Text>
+      </Td>
+      <Td>
+        <Badge variant="subtle" colorScheme={colorScheme}>
+          {label}
+        </Badge>
+        {delivery.nextAttemptAt ? (
+          <Text textStyle="caption-2" color="secondary.400" mt="0.25rem">
+            Next retry {formatDateTime(delivery.nextAttemptAt)}
+          </Text>
+        ) : null}
+      </Td>
+      <Td>{delivery.responseStatus || 'No response'}</Td>
+      <Td>
+        {delivery.latencyMs !== undefined ? `${delivery.latencyMs} ms` : '-'}
+      </Td>
+      <Td>
+        {delivery.attemptCount}
+        <Text textStyle="caption-2" color="secondary.400">
+          Last {formatDateTime(delivery.lastAttemptAt)}
+        </Text>
+      </Td>
+      <Td>
+        {delivery.status !== WebhookDeliveryStatus.PendingRetry ? (
+          <Button
+            variant="link"
+            isLoading={mutateRedeliverWebhook.isLoading}
+            onClick={() =>
+              mutateRedeliverWebhook.mutate({
+                submissionId: delivery.submissionId,
+                endpointId: delivery.endpointId,
+              })
+            }
+          >
+            Redeliver
+          </Button>
+        ) : null}
+      </Td>
+    </Tr>
+  )
+}
+
+const RedeliverFailedBlock = (): JSX.Element => {
+  const [since, setSince] = useState(() =>
+    format(startOfDay(subDays(new Date(), 1)), DATETIME_INPUT_FORMAT),
+  )
+  const { mutateRedeliverFailedWebhooks } = useMutateWebhookDeliveries()
+
+  const sinceDate = parseISO(since)
+
+  const handleRedeliverFailed = useCallback(() => {
+    if (!isValid(sinceDate)) return
+    return mutateRedeliverFailedWebhooks.mutate(sinceDate.toISOString())
+  }, [mutateRedeliverFailedWebhooks, sinceDate])
+
+  return (
+    <FormControl>
+      <FormLabel description="Resend the webhooks of submissions made since this time which have failed and will not be retried.">
+        Redeliver failed webhooks
+      </FormLabel>
+      <Stack direction={{ base: 'column', md: 'row' }} spacing="1rem">
+        <Input
+          type="datetime-local"
+          value={since}
+          onChange={(e) => setSince(e.target.value)}
+        />
+        <Button
+          flexShrink={0}
+          isDisabled={!isValid(sinceDate)}
+          isLoading={mutateRedeliverFailedWebhooks.isLoading}
+          onClick={handleRedeliverFailed}
+        >
+          Redeliver failed
+        </Button>
+      </Stack>
+    </FormControl>
+  )
+}
+
+export const WebhookDeliveries = (): JSX.Element | null => {
+  const { data: settings } = useAdminFormSettings()
+  const [isFailedOnly, setIsFailedOnly] = useState(false)
+  const { data: deliveries, isLoading } = useWebhookDeliveries(
+    isFailedOnly ? WebhookDeliveryStatus.Failed : undefined,
+  )
+
+  if (!settings?.webhook.url) return null
+
+  return (
+    <Stack spacing="1.5rem">
+      <Box>
+        <Text textStyle="subhead-1" color="secondary.700">
+          Recent deliveries
+        </Text>
+        <Text textStyle="body-2" color="secondary.400" mt="0.25rem">
+          Webhooks sent for your latest submissions, most recent first.
+        </Text>
+      </Box>
+      <Toggle
+        isChecked={isFailedOnly}
+        label="Only show failed deliveries"
+        description="Webhooks which failed and will not be retried again. Redeliver them once your endpoint is fixed."
+        onChange={(e) => setIsFailedOnly(e.target.checked)}
+      />
+      <Skeleton isLoaded={!isLoading}>
+        {deliveries?.length ? (
+          <Box overflowX="auto">
+            <Table variant="solid" colorScheme="secondary">
+              <Thead>
+                <Tr>
+                  <Th>Submission</Th>
+                  <Th>Endpoint</Th>
+                  <Th>Status</Th>
+                  <Th>Response</Th>
+                  <Th>Latency</Th>
+                  <Th>Attempts</Th>
+                  <Th />
+                </Tr>
+              </Thead>
+              <Tbody>
+                {deliveries.map((delivery) => (
+                  <WebhookDeliveryRow
+                    key={`${delivery.submissionId}-${
+                      delivery.endpointId ?? ''
+                    }`}
+                    delivery={delivery}
+                  />
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        ) : (
+          <Text textStyle="body-2" color="secondary.500">
+            {isFailedOnly
+              ? 'No webhooks have failed recently.'
+              : 'No webhooks have been sent yet.'}
+          </Text>
+        )}
+      </Skeleton>
+      <RedeliverFailedBlock />
+    </Stack>
+  )
+}
@@ -0,0 +1,99 @@
+import { useCallback, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { Box, Stack } from '@chakra-ui/react'
+
+import Button from '~components/Button'
+
+import { useMutateFormSettings } from '../../mutations'
+import { useAdminFormSettings } from '../../queries'
+
+import {
+  formatWebhookHeaders,
+  generateWebhookHmacSecret,
+  getWebhookHmacSecretUpdate,
+  parseWebhookHeaders,
+  validateWebhookHeaders,
+  validateWebhookHmacSecret,
+} from './utils'
+import { WebhookDeliveryOptionsFields } from './WebhookDeliveryOptionsFields'
+
+type WebhookDeliveryOptionsInputs = {
+  hmacSecret: string
+  isHmacSecretRemoved: boolean
+  headers: string
+}
+
+export const WebhookDeliveryOptions = (): JSX.Element | null => {
+  const { data: settings } = useAdminFormSettings()
+  const { mutateWebhookDeliveryOptions } = useMutateFormSettings()
+  const {
+    register,
+    reset,
+    setValue,
+    watch,
+    handleSubmit,
+    formState: { errors, isDirty },
+  } = useForm<WebhookDeliveryOptionsInputs>()
+
+  useEffect(() => {
+    if (!settings) return
+    reset({
+      hmacSecret: '',
+      isHmacSecretRemoved: false,
+      headers: formatWebhookHeaders(settings.webhook.headers),
+    })
+  }, [reset, settings])
+
+  const handleGenerateSecret = useCallback(
+    () =>
+      setValue('hmacSecret', generateWebhookHmacSecret(), {
+        shouldDirty: true,
+        shouldValidate: true,
+      }),
+    [setValue],
+  )
+
+  const handleRemoveSecret = useCallback(() => {
+    setValue('hmacSecret', '', { shouldValidate: true })
+    setValue('isHmacSecretRemoved', true, { shouldDirty: true })
+  }, [setValue])
+
+  const handleSave = handleSubmit(
+    ({ hmacSecret, isHmacSecretRemoved, headers }) =>
+      mutateWebhookDeliveryOptions.mutate({
+        hmacSecret: getWebhookHmacSecretUpdate(hmacSecret, isHmacSecretRemoved),
+        headers: parseWebhookHeaders(headers),
+      }),
+  )
+
+  if (!settings?.webhook.url) return null
+
+  return (
+    <Stack spacing="1.5rem">
+      <WebhookDeliveryOptionsFields
+        hmacSecretProps={register('hmacSecret', {
+          validate: validateWebhookHmacSecret,
+        })}
+        hmacSecretError={errors.hmacSecret?.message}
+        headersProps={register('headers', {
+          validate: validateWebhookHeaders,
+        })}
+        headersError={errors.headers?.message}
+        hasHmacSecret={
+          settings.webhook.hasHmacSecret && !watch('isHmacSecretRemoved')
+        }
+        onGenerateSecret={handleGenerateSecret}
+        onRemoveSecret={handleRemoveSecret}
+      />
+      <Box>
+        <Button
+          isDisabled={!isDirty}
+          isLoading={mutateWebhookDeliveryOptions.isLoading}
+          onClick={handleSave}
+        >
+          Save signing and headers
+        </Button>
+      </Box>
+    </Stack>
+  )
+}
@@ -0,0 +1,78 @@
+import { UseFormRegisterReturn } from 'react-hook-form'
+import { FormControl, Stack } from '@chakra-ui/react'
+
+import Button from '~components/Button'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import Input from '~components/Input'
+import Textarea from '~components/Textarea'
+
+interface WebhookDeliveryOptionsFieldsProps {
+  hmacSecretProps: UseFormRegisterReturn
+  hmacSecretError?: string
+  headersProps: UseFormRegisterReturn
+  headersError?: string
+  /** Whether a secret is stored, which is not shown as it is write-only. */
+  hasHmacSecret?: boolean
+  onGenerateSecret: () => void
+  onRemoveSecret: () => void
+}
+
+/**
+ * Inputs for the HMAC secret and custom headers of a webhook endpoint.
+ */
+export const WebhookDeliveryOptionsFields = ({
+  hmacSecretProps,
+  hmacSecretError,
+  headersProps,
+  headersError,
+  hasHmacSecret,
+  onGenerateSecret,
+  onRemoveSecret,
+}: WebhookDeliveryOptionsFieldsProps): JSX.Element => {
+  return (
+    <>
+      <FormControl isInvalid={!!hmacSecretError}>
+        <FormLabel description="Webhooks will also be signed with HMAC-SHA256 using this secret in the X-FormSG-Hmac-Signature header, so that your system can verify them without the FormSG SDK.">
+          HMAC signing secret
+        </FormLabel>
+        <Stack direction={{ base: 'column', md: 'row' }} spacing="1rem">
+          <Input
+            placeholder={
+              hasHmacSecret
+                ? 'A secret is set. Enter a new secret to replace it'
+                : 'Leave empty to not sign with HMAC'
+            }
+            autoComplete="off"
+            {...hmacSecretProps}
+          />
+          <Button flexShrink={0} variant="outline" onClick={onGenerateSecret}>
+            Generate
+          </Button>
+          {hasHmacSecret ? (
+            <Button
+              flexShrink={0}
+              variant="clear"
+              colorScheme="danger"
+              onClick={onRemoveSecret}
+            >
+              Remove
+            </Button>
+          ) : null}
+        </Stack>
+        <FormErrorMessage>{hmacSecretError}</FormErrorMessage>
+      </FormControl>
+      <FormControl isInvalid={!!headersError}>
+        <FormLabel description="Sent with every webhook, e.g. to authorise with an API gateway. Enter one header per line as Name: value. Saved values are hidden, and are kept as long as they are left hidden.">
+          Custom headers
+        </FormLabel>
+        <Textarea
+          placeholder="Authorization: Bearer your-token"
+          fontFamily="monospace"
+          {...headersProps}
+        />
+        <FormErrorMessage>{headersError}</FormErrorMessage>
+      </FormControl>
+    </>
+  )
+}
@@ -0,0 +1,74 @@
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { Box, FormControl, Stack } from '@chakra-ui/react'
+
+import { WebhookEventType } from '~shared/types/webhook'
+
+import Button from '~components/Button'
+import Checkbox from '~components/Checkbox'
+import FormLabel from '~components/FormControl/FormLabel'
+
+import { useMutateFormSettings } from '../../mutations'
+import { useAdminFormSettings } from '../../queries'
+
+const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  [WebhookEventType.PaymentStatusChanged]:
+    'Payment status changes, e.g. refunds and disputes',
+  [WebhookEventType.FormStatusChanged]: 'Form is opened, closed or deleted',
+  [WebhookEventType.CollaboratorsChanged]: 'Collaborators are changed',
+  [WebhookEventType.SubmissionEmailBounced]:
+    'Emails sent for a submission bounce, e.g. email confirmations',
+}
+
+type WebhookEventInputs = {
+  events: WebhookEventType[]
+}
+
+export const WebhookEventSubscriptions = (): JSX.Element | null => {
+  const { data: settings } = useAdminFormSettings()
+  const { mutateWebhookEvents } = useMutateFormSettings()
+  const {
+    register,
+    reset,
+    handleSubmit,
+    formState: { isDirty },
+  } = useForm<WebhookEventInputs>()
+
+  useEffect(() => {
+    if (!settings) return
+    reset({ events: settings.webhook.events ?? [] })
+  }, [reset, settings])
+
+  const handleSave = handleSubmit(({ events }) =>
+    // Unchecking every checkbox yields false instead of an empty array.
+    mutateWebhookEvents.mutate(events || []),
+  )
+
+  if (!settings?.webhook.url) return null
+
+  return (
+    <Stack spacing="1.5rem">
+      <FormControl>
+        <FormLabel description="Webhooks are also sent to all endpoints when these events occur, signed and retried in the same way as submissions.">
+          Event webhooks
+        </FormLabel>
+        <Stack spacing="0.75rem">
+          {Object.values(WebhookEventType).map((eventType) => (
+            <Checkbox key={eventType} value={eventType} {...register('events')}>
+              {WEBHOOK_EVENT_LABELS[eventType]}
+            </Checkbox>
+          ))}
+        </Stack>
+      </FormControl>
+      <Box>
+        <Button
+          isDisabled={!isDirty}
+          isLoading={mutateWebhookEvents.isLoading}
+          onClick={handleSave}
+        >
+          Save events
+        </Button>
+      </Box>
+    </Stack>
+  )
+}
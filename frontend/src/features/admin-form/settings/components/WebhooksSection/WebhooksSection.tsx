@@ -1,6 +1,11 @@
 import { Stack } from '@chakra-ui/react'
 
+import { AdditionalWebhookEndpoints } from './AdditionalWebhookEndpoints'
+import { RetryPolicySelector } from './RetryPolicySelector'
 import { RetryToggle } from './RetryToggle'
+import { WebhookDeliveries } from './WebhookDeliveries'
+import { WebhookDeliveryOptions } from './WebhookDeliveryOptions'
+import { WebhookEventSubscriptions } from './WebhookEventSubscriptions'
 import { WebhookUrlInput } from './WebhookUrlInput'
 
 export const WebhooksSection = (): JSX.Element => {
@@ -8,6 +13,11 @@ export const WebhooksSection = (): JSX.Element => {
     <Stack spacing="2.5rem">
       <WebhookUrlInput />
       <RetryToggle />
+      <RetryPolicySelector />
+      <WebhookDeliveryOptions />
+      <AdditionalWebhookEndpoints />
+      <WebhookEventSubscriptions />
+      <WebhookDeliveries />
     </Stack>
   )
 }
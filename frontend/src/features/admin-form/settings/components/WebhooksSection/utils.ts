@@ -0,0 +1,79 @@
+import {
+  MAX_WEBHOOK_HEADERS,
+  MIN_WEBHOOK_HMAC_SECRET_LENGTH,
+  RESERVED_WEBHOOK_HEADERS,
+  WEBHOOK_HEADER_NAME_REGEX,
+} from '~shared/constants/webhook'
+import { WebhookHeader } from '~shared/types/form/form'
+
+/**
+ * Formats webhook headers for editing, one `Name: value` header per line.
+ */
+export const formatWebhookHeaders = (headers?: WebhookHeader[]): string =>
+  (headers ?? []).map(({ name, value }) => `${name}: ${value}`).join('\n')
+
+/**
+ * Parses webhook headers entered one `Name: value` header per line. Blank
+ * lines are ignored.
+ */
+export const parseWebhookHeaders = (text: string): WebhookHeader[] =>
+  text
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const separatorIndex = line.indexOf(':')
+      return {
+        name: line.slice(0, separatorIndex).trim(),
+        value: line.slice(separatorIndex + 1).trim(),
+      }
+    })
+
+export const validateWebhookHeaders = (text: string): true | string => {
+  const lines = text.split('\n').filter((line) => line.trim())
+  if (lines.length > MAX_WEBHOOK_HEADERS) {
+    return `You can add at most ${MAX_WEBHOOK_HEADERS} headers`
+  }
+  if (lines.some((line) => !line.includes(':'))) {
+    return 'Enter each header on its own line as Name: value'
+  }
+  const names = parseWebhookHeaders(text).map(({ name }) => name.toLowerCase())
+  const invalidName = names.find(
+    (name) => !WEBHOOK_HEADER_NAME_REGEX.test(name),
+  )
+  if (invalidName !== undefined) {
+    return `"${invalidName}" is not a valid header name`
+  }
+  const reservedName = names.find((name) =>
+    RESERVED_WEBHOOK_HEADERS.includes(name),
+  )
+  if (reservedName) {
+    return `The ${reservedName} header is set by FormSG and cannot be changed`
+  }
+  if (new Set(names).size !== names.length) {
+    return 'Each header can only be added once'
+  }
+  return true
+}
+
+export const validateWebhookHmacSecret = (secret: string): true | string =>
+  !secret ||
+  secret.length >= MIN_WEBHOOK_HMAC_SECRET_LENGTH ||
+  `Secret must be at least ${MIN_WEBHOOK_HMAC_SECRET_LENGTH} characters long`
+
+/**
+ * Returns the HMAC secret to update a webhook endpoint with. Stored secrets are
+ * write-only, so they are kept by leaving the secret out unless a new secret
+ * is entered or the stored secret is removed.
+ */
+export const getWebhookHmacSecretUpdate = (
+  secret: string,
+  isRemoved: boolean,
+): string | undefined => secret.trim() || (isRemoved ? '' : undefined)
+
+/**
+ * Generates a random secret for signing webhooks with.
+ */
+export const generateWebhookHmacSecret = (): string =>
+  Array.from(window.crypto.getRandomValues(new Uint8Array(32)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('')
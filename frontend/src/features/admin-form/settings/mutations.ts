@@ -3,15 +3,20 @@ import { useMutation, useQueryClient } from 'react-query'
 import { useParams } from 'react-router-dom'
 import simplur from 'simplur'
 
+import { Language } from '~shared/types/form'
 import {
   AdminFormDto,
   FormAuthType,
   FormResponseMode,
   FormSettings,
   FormStatus,
+  FormWebhook,
+  FormWebhookEndpoint,
   StorageFormSettings,
+  WebhookRetryPolicy,
 } from '~shared/types/form/form'
 import { TwilioCredentials } from '~shared/types/twilio'
+import { WebhookEventType } from '~shared/types/webhook'
 
 import { ApiError } from '~typings/core'
 
@@ -25,17 +30,26 @@ import { adminFormSettingsKeys } from './queries'
 import {
   createStripeAccount,
   deleteTwilioCredentials,
+  redeliverFailedWebhooks,
+  redeliverWebhook,
   unlinkStripeAccount,
   updateBusinessInfo,
+  updateFormAdditionalWebhookEndpoints,
   updateFormAuthType,
   updateFormCaptcha,
   updateFormEmails,
   updateFormEsrvcId,
   updateFormInactiveMessage,
   updateFormLimit,
+  updateFormMultiPage,
+  updateFormSchedule,
   updateFormStatus,
+  updateFormSupportedLanguages,
   updateFormTitle,
+  updateFormWebhookDeliveryOptions,
   updateFormWebhookRetries,
+  updateFormWebhookEvents,
+  updateFormWebhookRetryPolicy,
   updateFormWebhookUrl,
   updateGstEnabledFlag,
   updateTwilioCredentials,
@@ -133,6 +147,21 @@ export const useMutateFormSettings = () => {
     },
   )
 
+  const mutateFormSchedule = useMutation(
+    (nextSchedule: Pick<FormSettings, 'opensAt' | 'closesAt'>) =>
+      updateFormSchedule(formId, nextSchedule),
+    {
+      onSuccess: (newData) => {
+        const toastScheduleMessage =
+          newData.opensAt || newData.closesAt
+            ? 'Your form schedule has been updated.'
+            : 'The schedule on your form is removed.'
+        handleSuccess({ newData, toastDescription: toastScheduleMessage })
+      },
+      onError: handleError,
+    },
+  )
+
   const mutateFormCaptcha = useMutation(
     (nextHasCaptcha: boolean) => updateFormCaptcha(formId, nextHasCaptcha),
     {
@@ -148,6 +177,35 @@ export const useMutateFormSettings = () => {
     },
   )
 
+  const mutateFormMultiPage = useMutation(
+    (nextIsMultiPage: boolean) => updateFormMultiPage(formId, nextIsMultiPage),
+    {
+      onSuccess: (newData) => {
+        handleSuccess({
+          newData,
+          toastDescription: `Your form is now ${
+            newData.isMultiPage ? 'split into pages' : 'shown on a single page'
+          }.`,
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  const mutateFormSupportedLanguages = useMutation(
+    (nextSupportedLanguages: Language[]) =>
+      updateFormSupportedLanguages(formId, nextSupportedLanguages),
+    {
+      onSuccess: (newData) => {
+        handleSuccess({
+          newData,
+          toastDescription: "Your form's languages have been updated.",
+        })
+      },
+      onError: handleError,
+    },
+  )
+
   const mutateFormTitle = useMutation(
     (nextTitle: string) => updateFormTitle(formId, nextTitle),
     {
@@ -290,6 +348,62 @@ export const useMutateFormSettings = () => {
     },
   )
 
+  const mutateWebhookRetryPolicy = useMutation(
+    (nextRetryPolicy: WebhookRetryPolicy) =>
+      updateFormWebhookRetryPolicy(formId, nextRetryPolicy),
+    {
+      onSuccess: (newData) => {
+        handleSuccess({
+          newData,
+          toastDescription: 'Webhook retry policy has been updated.',
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  const mutateWebhookEvents = useMutation(
+    (nextEvents: WebhookEventType[]) =>
+      updateFormWebhookEvents(formId, nextEvents),
+    {
+      onSuccess: (newData) => {
+        handleSuccess({
+          newData,
+          toastDescription: 'Webhook events have been updated.',
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  const mutateWebhookDeliveryOptions = useMutation(
+    (nextOptions: Pick<FormWebhook, 'hmacSecret' | 'headers'>) =>
+      updateFormWebhookDeliveryOptions(formId, nextOptions),
+    {
+      onSuccess: (newData) => {
+        handleSuccess({
+          newData,
+          toastDescription: 'Webhook signing and headers have been updated.',
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  const mutateAdditionalWebhookEndpoints = useMutation(
+    (nextEndpoints: FormWebhookEndpoint[]) =>
+      updateFormAdditionalWebhookEndpoints(formId, nextEndpoints),
+    {
+      onSuccess: (newData) => {
+        handleSuccess({
+          newData,
+          toastDescription: 'Additional webhook endpoints have been updated.',
+        })
+      },
+      onError: handleError,
+    },
+  )
+
   const mutateFormBusiness = useMutation(
     (businessInfo: StorageFormSettings['business']) =>
       updateBusinessInfo(formId, businessInfo),
@@ -321,10 +435,17 @@ export const useMutateFormSettings = () => {
   return {
     mutateWebhookRetries,
     mutateFormWebhookUrl,
+    mutateWebhookRetryPolicy,
+    mutateWebhookEvents,
+    mutateWebhookDeliveryOptions,
+    mutateAdditionalWebhookEndpoints,
     mutateFormStatus,
     mutateFormLimit,
+    mutateFormSchedule,
     mutateFormInactiveMessage,
     mutateFormCaptcha,
+    mutateFormMultiPage,
+    mutateFormSupportedLanguages,
     mutateFormEmails,
     mutateFormTitle,
     mutateFormAuthType,
@@ -390,6 +511,59 @@ export const useMutateTwilioCreds = () => {
   }
 }
 
+export const useMutateWebhookDeliveries = () => {
+  const { formId } = useParams()
+  if (!formId) throw new Error('No formId provided')
+
+  const queryClient = useQueryClient()
+  const toast = useToast({ status: 'success', isClosable: true })
+
+  const handleSuccess = useCallback(
+    ({ count }: { count: number }) => {
+      queryClient.invalidateQueries(
+        adminFormSettingsKeys.webhook_deliveries(formId),
+      )
+      toast.closeAll()
+      toast({
+        description: simplur`${count} webhook[|s] [has|have] been queued for redelivery.`,
+      })
+    },
+    [formId, queryClient, toast],
+  )
+
+  const handleError = useCallback(
+    (error: Error) => {
+      toast.closeAll()
+      toast({
+        description: error.message,
+        status: 'danger',
+      })
+    },
+    [toast],
+  )
+
+  const mutateRedeliverWebhook = useMutation(
+    ({
+      submissionId,
+      endpointId,
+    }: {
+      submissionId: string
+      endpointId?: string
+    }) => redeliverWebhook(formId, submissionId, endpointId),
+    { onSuccess: handleSuccess, onError: handleError },
+  )
+
+  const mutateRedeliverFailedWebhooks = useMutation(
+    (since: string) => redeliverFailedWebhooks(formId, since),
+    { onSuccess: handleSuccess, onError: handleError },
+  )
+
+  return {
+    mutateRedeliverWebhook,
+    mutateRedeliverFailedWebhooks,
+  }
+}
+
 export const useMutateStripeAccount = () => {
   const { formId } = useParams()
   if (!formId) throw new Error('No formId provided')
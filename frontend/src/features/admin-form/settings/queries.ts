@@ -3,10 +3,22 @@ import { useQuery, UseQueryResult } from 'react-query'
 import { useParams } from 'react-router-dom'
 
 import { FormSettings } from '~shared/types/form/form'
+import { FormAuditLogsDto } from '~shared/types/form/form_audit_log'
+import {
+  WebhookDeliveryDto,
+  WebhookDeliveryStatus,
+} from '~shared/types/webhook'
 
 import { adminFormKeys } from '../common/queries'
 
-import { getFormSettings, validateStripeAccount } from './SettingsService'
+import {
+  getFormAuditLogs,
+  getFormSettings,
+  getWebhookDeliveries,
+  validateStripeAccount,
+} from './SettingsService'
+
+export const AUDIT_LOGS_PAGE_SIZE = 10
 
 export const adminFormSettingsKeys = {
   base: [...adminFormKeys.base, 'settings'] as const,
@@ -15,6 +27,12 @@ export const adminFormSettingsKeys = {
     [...adminFormSettingsKeys.id(id), 'payment_channel'] as const,
   payment_field: (id: string) =>
     [...adminFormSettingsKeys.id(id), 'payment_field'] as const,
+  webhook_deliveries: (id: string) =>
+    [...adminFormSettingsKeys.id(id), 'webhook_deliveries'] as const,
+  webhook_deliveries_by_status: (id: string, status?: WebhookDeliveryStatus) =>
+    [...adminFormSettingsKeys.webhook_deliveries(id), { status }] as const,
+  audit_logs: (id: string, page: number) =>
+    [...adminFormSettingsKeys.id(id), 'audit_logs', { page }] as const,
 }
 
 /**
@@ -31,6 +49,40 @@ export const useAdminFormSettings = (): UseQueryResult<FormSettings> => {
   )
 }
 
+/**
+ * @precondition Must be wrapped in a Router as `useParam` is used.
+ * @param status if provided, only deliveries with this status are retrieved
+ */
+export const useWebhookDeliveries = (
+  status?: WebhookDeliveryStatus,
+): UseQueryResult<WebhookDeliveryDto[]> => {
+  const { formId } = useParams()
+  if (!formId) throw new Error('No formId provided')
+
+  return useQuery(
+    adminFormSettingsKeys.webhook_deliveries_by_status(formId, status),
+    () => getWebhookDeliveries(formId, status),
+    { staleTime: 0 },
+  )
+}
+
+/**
+ * @precondition Must be wrapped in a Router as `useParam` is used.
+ * @param page the page of the changes made to the form to retrieve
+ */
+export const useFormAuditLogs = (
+  page: number,
+): UseQueryResult<FormAuditLogsDto> => {
+  const { formId } = useParams()
+  if (!formId) throw new Error('No formId provided')
+
+  return useQuery(
+    adminFormSettingsKeys.audit_logs(formId, page),
+    () => getFormAuditLogs(formId, { page, pageSize: AUDIT_LOGS_PAGE_SIZE }),
+    { staleTime: 0, keepPreviousData: true },
+  )
+}
+
 export const useAdminFormPayments = () => {
   const { formId } = useParams()
   if (!formId) throw new Error('No formId provided')
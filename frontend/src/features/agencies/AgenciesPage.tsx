@@ -0,0 +1,123 @@
+import { Link as ReactLink } from 'react-router-dom'
+import {
+  Box,
+  Container,
+  Flex,
+  Link,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  Skeleton,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useDisclosure,
+} from '@chakra-ui/react'
+
+import { CreateAgencyBodyDto } from '~shared/types'
+
+import { AdminNavBar } from '~/app/AdminNavBar'
+
+import { AGENCIES_ROUTE } from '~constants/routes'
+import { fillHeightCss } from '~utils/fillHeightCss'
+import Button from '~components/Button'
+import { ModalCloseButton } from '~components/Modal'
+
+import { AgencyForm } from './components/AgencyForm'
+import { useAgencyMutations } from './mutations'
+import { useAgencies } from './queries'
+
+export const AgenciesPage = (): JSX.Element => {
+  const { data: agencies, isLoading } = useAgencies()
+  const { createAgencyMutation } = useAgencyMutations()
+  const { isOpen, onOpen, onClose } = useDisclosure()
+
+  const handleCreateAgency = (params: CreateAgencyBodyDto) =>
+    createAgencyMutation.mutate(params, { onSuccess: onClose })
+
+  return (
+    <Flex direction="column" css={fillHeightCss}>
+      <AdminNavBar />
+      <Container
+        overflowY="auto"
+        px={{ base: '1.5rem', md: '1.25rem' }}
+        py={{ base: '1.5rem', md: '3rem' }}
+        maxW="69.5rem"
+        flex={1}
+        display="flex"
+        flexDir="column"
+        color="secondary.500"
+      >
+        <Flex
+          justify="space-between"
+          align={{ base: 'flex-start', md: 'center' }}
+          flexDir={{ base: 'column', md: 'row' }}
+          gap="1rem"
+          mb="2rem"
+        >
+          <Box>
+            <Text as="h2" textStyle="h2" color="secondary.700">
+              Agencies
+            </Text>
+            <Text textStyle="body-1" mt="0.5rem">
+              Agencies and the email domains their users can log in with.
+            </Text>
+          </Box>
+          <Button onClick={onOpen}>Create agency</Button>
+        </Flex>
+        <Skeleton isLoaded={!isLoading}>
+          <Box overflowX="auto">
+            <Table variant="solid" colorScheme="secondary">
+              <Thead>
+                <Tr>
+                  <Th>Agency</Th>
+                  <Th>Email domains</Th>
+                  <Th isNumeric>Users</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {agencies?.map((agency) => (
+                  <Tr key={agency._id}>
+                    <Td>
+                      <Link
+                        as={ReactLink}
+                        to={`${AGENCIES_ROUTE}/${agency._id}`}
+                      >
+                        {agency.shortName}
+                      </Link>
+                      <Text textStyle="caption-2" color="secondary.400">
+                        {agency.fullName}
+                      </Text>
+                    </Td>
+                    <Td>{agency.emailDomain.join(', ')}</Td>
+                    <Td isNumeric>{agency.userCount}</Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        </Skeleton>
+      </Container>
+      <Modal isOpen={isOpen} onClose={onClose} size="lg">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalCloseButton />
+          <ModalHeader>Create agency</ModalHeader>
+          <ModalBody pb="2rem">
+            <AgencyForm
+              submitLabel="Create agency"
+              isSubmitting={createAgencyMutation.isLoading}
+              onSubmit={handleCreateAgency}
+            />
+          </ModalBody>
+        </ModalContent>
+      </Modal>
+    </Flex>
+  )
+}
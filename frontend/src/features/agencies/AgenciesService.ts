@@ -0,0 +1,135 @@
+import {
+  AgencyAdminListItemDto,
+  AgencyAdminViewDto,
+  AgencyAuditLogDto,
+  AgencyDto,
+  AgencyFormDto,
+  AgencyFormQueryDto,
+  AgencyUserDto,
+  CreateAgencyBodyDto,
+  TransferAgencyFormsOwnershipBodyDto,
+  TransferAgencyFormsOwnershipResponseDto,
+  UpdateAgencyBodyDto,
+  UpdateAgencyUserBodyDto,
+} from '~shared/types'
+
+import { ApiService } from '~services/ApiService'
+
+export const AGENCIES_ENDPOINT = '/agencies'
+
+/**
+ * Retrieves all agencies. Only available to super-admins.
+ * @returns the agencies with their number of users
+ */
+export const getAgencies = async (): Promise<AgencyAdminListItemDto[]> => {
+  return ApiService.get<AgencyAdminListItemDto[]>(AGENCIES_ENDPOINT).then(
+    ({ data }) => data,
+  )
+}
+
+/**
+ * Retrieves the agency of the given id, with its users.
+ * @param agencyId the id of the agency to retrieve
+ * @returns the agency, its users and the number of forms they own
+ */
+export const getAgency = async (
+  agencyId: string,
+): Promise<AgencyAdminViewDto> => {
+  return ApiService.get<AgencyAdminViewDto>(
+    `${AGENCIES_ENDPOINT}/${agencyId}`,
+  ).then(({ data }) => data)
+}
+
+/**
+ * Retrieves the changes made to the agency of the given id.
+ * @param agencyId the id of the agency
+ * @returns the changes made to the agency, most recent first
+ */
+export const getAgencyAuditLogs = async (
+  agencyId: string,
+): Promise<AgencyAuditLogDto[]> => {
+  return ApiService.get<AgencyAuditLogDto[]>(
+    `${AGENCIES_ENDPOINT}/${agencyId}/audit-logs`,
+  ).then(({ data }) => data)
+}
+
+/**
+ * Creates an agency.
+ * @param params the details of the agency
+ * @returns the created agency
+ */
+export const createAgency = async (
+  params: CreateAgencyBodyDto,
+): Promise<AgencyDto> => {
+  return ApiService.post<AgencyDto>(AGENCIES_ENDPOINT, params).then(
+    ({ data }) => data,
+  )
+}
+
+/**
+ * Updates the given fields of an agency.
+ * @param agencyId the id of the agency to update
+ * @param update the fields of the agency to update
+ * @returns the updated agency
+ */
+export const updateAgency = async (
+  agencyId: string,
+  update: UpdateAgencyBodyDto,
+): Promise<AgencyDto> => {
+  return ApiService.patch<AgencyDto>(
+    `${AGENCIES_ENDPOINT}/${agencyId}`,
+    update,
+  ).then(({ data }) => data)
+}
+
+/**
+ * Assigns or removes the agency admin role of a user of an agency.
+ * @param agencyId the id of the agency of the user
+ * @param userId the id of the user to update
+ * @param body the role to assign, or null to remove the role
+ * @returns the updated user
+ */
+export const updateAgencyUser = async (
+  agencyId: string,
+  userId: string,
+  body: UpdateAgencyUserBodyDto,
+): Promise<Pick<AgencyUserDto, '_id' | 'email' | 'role'>> => {
+  return ApiService.patch<Pick<AgencyUserDto, '_id' | 'email' | 'role'>>(
+    `${AGENCIES_ENDPOINT}/${agencyId}/users/${userId}`,
+    body,
+  ).then(({ data }) => data)
+}
+
+/**
+ * Retrieves the forms owned by users of an agency. Only available to agency
+ * admins of the agency.
+ * @param agencyId the id of the agency
+ * @param query the email of the owner to filter forms by, if any
+ * @returns the forms of the agency, most recently modified first
+ */
+export const getAgencyForms = async (
+  agencyId: string,
+  query: AgencyFormQueryDto = {},
+): Promise<AgencyFormDto[]> => {
+  return ApiService.get<AgencyFormDto[]>(
+    `${AGENCIES_ENDPOINT}/${agencyId}/forms`,
+    { params: query },
+  ).then(({ data }) => data)
+}
+
+/**
+ * Transfers the ownership of forms of an agency to another user of the
+ * agency.
+ * @param agencyId the id of the agency
+ * @param body the ids of the forms and the email of the new owner
+ * @returns the transferred forms and the forms which could not be transferred
+ */
+export const transferAgencyFormsOwnership = async (
+  agencyId: string,
+  body: TransferAgencyFormsOwnershipBodyDto,
+): Promise<TransferAgencyFormsOwnershipResponseDto> => {
+  return ApiService.post<TransferAgencyFormsOwnershipResponseDto>(
+    `${AGENCIES_ENDPOINT}/${agencyId}/forms/transfer-owner`,
+    body,
+  ).then(({ data }) => data)
+}
@@ -0,0 +1,276 @@
+import { useCallback, useState } from 'react'
+import { Link as ReactLink, useParams } from 'react-router-dom'
+import {
+  Box,
+  Container,
+  Flex,
+  Link,
+  Skeleton,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useDisclosure,
+} from '@chakra-ui/react'
+import { format } from 'date-fns'
+import isEmail from 'validator/lib/isEmail'
+
+import { AgencyFormDto, FormStatus } from '~shared/types'
+
+import { AdminNavBar } from '~/app/AdminNavBar'
+
+import { ADMINFORM_ROUTE } from '~constants/routes'
+import { fillHeightCss } from '~utils/fillHeightCss'
+import Badge from '~components/Badge'
+import Button from '~components/Button'
+import Checkbox from '~components/Checkbox'
+import Input from '~components/Input'
+import Searchbar from '~components/Searchbar'
+
+import CollaboratorModal from '~features/admin-form/common/components/CollaboratorModal'
+import { useUser } from '~features/user/queries'
+
+import { useAgencyFormsMutations } from './mutations'
+import { useAgencyForms } from './queries'
+
+const DATETIME_DISPLAY_FORMAT = 'd MMM yyyy, h:mm a'
+
+interface AgencyFormRowProps {
+  form: AgencyFormDto
+  isSelected: boolean
+  onToggleSelected: (formId: string) => void
+  onOpenCollaborators: (formId: string) => void
+  onDeactivate: (formId: string) => void
+  isDeactivating: boolean
+}
+
+const AgencyFormRow = ({
+  form,
+  isSelected,
+  onToggleSelected,
+  onOpenCollaborators,
+  onDeactivate,
+  isDeactivating,
+}: AgencyFormRowProps): JSX.Element => {
+  const isPublic = form.status === FormStatus.Public
+
+  return (
+    <Tr>
+      <Td>
+        <Checkbox
+          aria-label={`Select ${form.title}`}
+          isChecked={isSelected}
+          onChange={() => onToggleSelected(form._id)}
+        />
+      </Td>
+      <Td>
+        <Link as={ReactLink} to={`${ADMINFORM_ROUTE}/${form._id}`}>
+          {form.title}
+        </Link>
+        <Text textStyle="caption-2" color="secondary.400">
+          Edited {format(new Date(form.lastModified), DATETIME_DISPLAY_FORMAT)}
+        </Text>
+      </Td>
+      <Td>{form.admin}</Td>
+      <Td>
+        <Badge variant="subtle" colorScheme={isPublic ? 'success' : 'neutral'}>
+          {isPublic ? 'Open' : 'Closed'}
+        </Badge>
+      </Td>
+      <Td isNumeric>{form.collaboratorCount}</Td>
+      <Td>
+        <Stack direction="row" spacing="1rem" justify="flex-end">
+          <Button variant="link" onClick={() => onOpenCollaborators(form._id)}>
+            Collaborators
+          </Button>
+          {isPublic ? (
+            <Button
+              variant="link"
+              colorScheme="danger"
+              isDisabled={isDeactivating}
+              onClick={() => onDeactivate(form._id)}
+            >
+              Deactivate
+            </Button>
+          ) : null}
+        </Stack>
+      </Td>
+    </Tr>
+  )
+}
+
+export const AgencyFormsPage = (): JSX.Element => {
+  const { agencyId } = useParams()
+  if (!agencyId) throw new Error('No agencyId provided')
+
+  const { user } = useUser()
+  const [ownerEmail, setOwnerEmail] = useState('')
+  const { data: forms, isLoading } = useAgencyForms(
+    agencyId,
+    ownerEmail ? { ownerEmail } : {},
+  )
+  const { transferAgencyFormsMutation, deactivateAgencyFormMutation } =
+    useAgencyFormsMutations(agencyId)
+
+  const [selectedFormIds, setSelectedFormIds] = useState<string[]>([])
+  const [newOwnerEmail, setNewOwnerEmail] = useState('')
+  const [collaboratorsFormId, setCollaboratorsFormId] = useState<string>()
+  const collaboratorModalDisclosure = useDisclosure()
+
+  const handleSearch = useCallback((searchTerm: string) => {
+    setOwnerEmail(searchTerm.trim())
+    setSelectedFormIds([])
+  }, [])
+
+  const handleToggleSelected = useCallback(
+    (formId: string) =>
+      setSelectedFormIds((formIds) =>
+        formIds.includes(formId)
+          ? formIds.filter((id) => id !== formId)
+          : [...formIds, formId],
+      ),
+    [],
+  )
+
+  const isAllSelected =
+    !!forms?.length && selectedFormIds.length === forms.length
+
+  const handleToggleAllSelected = useCallback(
+    () =>
+      setSelectedFormIds(
+        isAllSelected ? [] : forms?.map(({ _id }) => _id) ?? [],
+      ),
+    [forms, isAllSelected],
+  )
+
+  const handleOpenCollaborators = useCallback(
+    (formId: string) => {
+      setCollaboratorsFormId(formId)
+      collaboratorModalDisclosure.onOpen()
+    },
+    [collaboratorModalDisclosure],
+  )
+
+  const handleTransferForms = useCallback(
+    () =>
+      transferAgencyFormsMutation.mutate(
+        { formIds: selectedFormIds, email: newOwnerEmail.trim() },
+        {
+          onSuccess: () => {
+            setSelectedFormIds([])
+            setNewOwnerEmail('')
+          },
+        },
+      ),
+    [newOwnerEmail, selectedFormIds, transferAgencyFormsMutation],
+  )
+
+  return (
+    <Flex direction="column" css={fillHeightCss}>
+      <AdminNavBar />
+      <Container
+        overflowY="auto"
+        px={{ base: '1.5rem', md: '1.25rem' }}
+        py={{ base: '1.5rem', md: '3rem' }}
+        maxW="69.5rem"
+        flex={1}
+        display="flex"
+        flexDir="column"
+        color="secondary.500"
+      >
+        <Text as="h2" textStyle="h2" color="secondary.700">
+          {user?.agency.shortName} forms
+        </Text>
+        <Text textStyle="body-1" mt="0.5rem" mb="2rem">
+          Forms owned by users of your agency. Transfer the forms of officers
+          who have left to another officer, manage their collaborators, or
+          deactivate them.
+        </Text>
+        <Flex
+          mb="1.5rem"
+          gap="1rem"
+          flexDir={{ base: 'column', md: 'row' }}
+          justify="space-between"
+        >
+          <Box flex={1} maxW={{ md: '24rem' }}>
+            <Searchbar
+              isExpandable={false}
+              onSearch={handleSearch}
+              placeholder="Search by owner email"
+            />
+          </Box>
+          <Stack direction={{ base: 'column', md: 'row' }} spacing="0.5rem">
+            <Input
+              type="email"
+              placeholder="New owner email"
+              value={newOwnerEmail}
+              onChange={(e) => setNewOwnerEmail(e.target.value)}
+            />
+            <Button
+              flexShrink={0}
+              isDisabled={
+                selectedFormIds.length === 0 || !isEmail(newOwnerEmail.trim())
+              }
+              isLoading={transferAgencyFormsMutation.isLoading}
+              onClick={handleTransferForms}
+            >
+              Transfer {selectedFormIds.length || ''} selected
+            </Button>
+          </Stack>
+        </Flex>
+        <Skeleton isLoaded={!isLoading}>
+          {forms?.length ? (
+            <Box overflowX="auto">
+              <Table variant="solid" colorScheme="secondary">
+                <Thead>
+                  <Tr>
+                    <Th>
+                      <Checkbox
+                        aria-label="Select all forms"
+                        isChecked={isAllSelected}
+                        onChange={handleToggleAllSelected}
+                      />
+                    </Th>
+                    <Th>Form</Th>
+                    <Th>Owner</Th>
+                    <Th>Status</Th>
+                    <Th isNumeric>Collaborators</Th>
+                    <Th />
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {forms.map((form) => (
+                    <AgencyFormRow
+                      key={form._id}
+                      form={form}
+                      isSelected={selectedFormIds.includes(form._id)}
+                      onToggleSelected={handleToggleSelected}
+                      onOpenCollaborators={handleOpenCollaborators}
+                      onDeactivate={deactivateAgencyFormMutation.mutate}
+                      isDeactivating={deactivateAgencyFormMutation.isLoading}
+                    />
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          ) : (
+            <Text textStyle="body-1" color="secondary.400">
+              {ownerEmail
+                ? 'No forms are owned by this user.'
+                : 'No forms are owned by users of your agency yet.'}
+            </Text>
+          )}
+        </Skeleton>
+      </Container>
+      <CollaboratorModal
+        isOpen={collaboratorModalDisclosure.isOpen}
+        formId={collaboratorsFormId}
+        onClose={collaboratorModalDisclosure.onClose}
+      />
+    </Flex>
+  )
+}
@@ -0,0 +1,233 @@
+import { useParams } from 'react-router-dom'
+import {
+  Box,
+  Container,
+  Flex,
+  Skeleton,
+  Stack,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react'
+import { format } from 'date-fns'
+import { isEqual } from 'lodash'
+
+import {
+  AgencyAuditAction,
+  AgencyAuditLogDto,
+  AgencyAuditValues,
+  CreateAgencyBodyDto,
+  UserRole,
+} from '~shared/types'
+
+import { AdminNavBar } from '~/app/AdminNavBar'
+
+import { fillHeightCss } from '~utils/fillHeightCss'
+import Badge from '~components/Badge'
+import Checkbox from '~components/Checkbox'
+
+import { AgencyForm } from './components/AgencyForm'
+import { useAgencyMutations } from './mutations'
+import { useAgency, useAgencyAuditLogs } from './queries'
+
+const DATETIME_DISPLAY_FORMAT = 'd MMM yyyy, h:mm a'
+
+const formatDateTime = (date: string): string =>
+  format(new Date(date), DATETIME_DISPLAY_FORMAT)
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '-'
+  if (Array.isArray(value)) return value.join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const AUDIT_ACTION_LABELS: Record<AgencyAuditAction, string> = {
+  [AgencyAuditAction.Create]: 'Created',
+  [AgencyAuditAction.Update]: 'Updated',
+  [AgencyAuditAction.UpdateUserRole]: 'Role changed',
+}
+
+const AgencyAuditLogRow = ({
+  auditLog,
+}: {
+  auditLog: AgencyAuditLogDto
+}): JSX.Element => {
+  const changedFields = Object.keys(
+    auditLog.after,
+  ) as (keyof AgencyAuditValues)[]
+
+  return (
+    <Tr>
+      <Td>{formatDateTime(auditLog.created)}</Td>
+      <Td>{auditLog.actor}</Td>
+      <Td>
+        <Badge
+          variant="subtle"
+          colorScheme={
+            auditLog.action === AgencyAuditAction.Create ? 'success' : 'primary'
+          }
+        >
+          {AUDIT_ACTION_LABELS[auditLog.action]}
+        </Badge>
+      </Td>
+      <Td>
+        <Stack spacing="0.25rem">
+          {changedFields.map((field) => (
+            <Text key={field} textStyle="body-2" wordBreak="break-all">
+              <Text as="span" fontWeight={500}>
+                {field}:
+              </Text>{' '}
+              {auditLog.action !== AgencyAuditAction.Create &&
+              !isEqual(auditLog.before[field], auditLog.after[field])
+                ? `${formatAuditValue(
+                    auditLog.before[field],
+                  )} → ${formatAuditValue(auditLog.after[field])}`
+                : formatAuditValue(auditLog.after[field])}
+            </Text>
+          ))}
+        </Stack>
+      </Td>
+    </Tr>
+  )
+}
+
+export const AgencyPage = (): JSX.Element => {
+  const { agencyId } = useParams()
+  if (!agencyId) throw new Error('No agencyId provided')
+
+  const { data, isLoading } = useAgency(agencyId)
+  const { data: auditLogs, isLoading: isAuditLogsLoading } =
+    useAgencyAuditLogs(agencyId)
+  const { updateAgencyMutation, updateAgencyUserMutation } =
+    useAgencyMutations()
+
+  const handleUpdateAgency = (update: CreateAgencyBodyDto) =>
+    updateAgencyMutation.mutate({ agencyId, update })
+
+  return (
+    <Flex direction="column" css={fillHeightCss}>
+      <AdminNavBar />
+      <Container
+        overflowY="auto"
+        px={{ base: '1.5rem', md: '1.25rem' }}
+        py={{ base: '1.5rem', md: '3rem' }}
+        maxW="69.5rem"
+        flex={1}
+        display="flex"
+        flexDir="column"
+        color="secondary.500"
+      >
+        <Skeleton isLoaded={!isLoading} mb="3rem">
+          <Text as="h2" textStyle="h2" color="secondary.700">
+            {data?.agency.shortName ?? 'Agency'}
+          </Text>
+          <Text textStyle="body-1" mt="0.5rem" mb="2rem">
+            {data?.agency.fullName}
+          </Text>
+          {data ? (
+            <Box maxW="42rem">
+              <AgencyForm
+                // Resets the form with the saved details of the agency.
+                key={data.agency.lastModified}
+                agency={data.agency}
+                submitLabel="Save changes"
+                isSubmitting={updateAgencyMutation.isLoading}
+                onSubmit={handleUpdateAgency}
+              />
+            </Box>
+          ) : null}
+        </Skeleton>
+
+        <Text textStyle="h4" color="secondary.700">
+          Users
+        </Text>
+        <Text textStyle="body-2" color="secondary.400" mt="0.25rem" mb="1rem">
+          {data
+            ? `${data.users.length} users who own ${data.formCount} forms in total`
+            : null}
+        </Text>
+        <Skeleton isLoaded={!isLoading} mb="3rem">
+          <Box overflowX="auto">
+            <Table variant="solid" colorScheme="secondary">
+              <Thead>
+                <Tr>
+                  <Th>Email</Th>
+                  <Th>Last accessed</Th>
+                  <Th isNumeric>Forms</Th>
+                  <Th>Agency admin</Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {data?.users.map((user) => (
+                  <Tr key={user._id}>
+                    <Td>{user.email}</Td>
+                    <Td>
+                      {user.lastAccessed
+                        ? formatDateTime(user.lastAccessed)
+                        : '-'}
+                    </Td>
+                    <Td isNumeric>{user.formCount}</Td>
+                    <Td>
+                      {user.role === UserRole.SuperAdmin ? (
+                        <Text textStyle="caption-2">Super-admin</Text>
+                      ) : (
+                        <Checkbox
+                          aria-label={`Make ${user.email} an agency admin`}
+                          isChecked={user.role === UserRole.AgencyAdmin}
+                          isDisabled={updateAgencyUserMutation.isLoading}
+                          onChange={(e) =>
+                            updateAgencyUserMutation.mutate({
+                              agencyId,
+                              userId: user._id,
+                              role: e.target.checked
+                                ? UserRole.AgencyAdmin
+                                : null,
+                            })
+                          }
+                        />
+                      )}
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </Box>
+        </Skeleton>
+
+        <Text textStyle="h4" color="secondary.700" mb="1rem">
+          Audit log
+        </Text>
+        <Skeleton isLoaded={!isAuditLogsLoading}>
+          {auditLogs?.length ? (
+            <Box overflowX="auto">
+              <Table variant="solid" colorScheme="secondary">
+                <Thead>
+                  <Tr>
+                    <Th>Date</Th>
+                    <Th>Changed by</Th>
+                    <Th>Action</Th>
+                    <Th>Changes</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {auditLogs.map((auditLog) => (
+                    <AgencyAuditLogRow key={auditLog._id} auditLog={auditLog} />
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          ) : (
+            <Text textStyle="body-2" color="secondary.400">
+              No changes have been made to this agency yet.
+            </Text>
+          )}
+        </Skeleton>
+      </Container>
+    </Flex>
+  )
+}
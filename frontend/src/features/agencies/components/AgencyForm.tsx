@@ -0,0 +1,192 @@
+import { ChangeEvent, useCallback, useRef, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import {
+  Box,
+  FormControl,
+  Image,
+  Input as ChakraInput,
+  Stack,
+} from '@chakra-ui/react'
+import { get } from 'lodash'
+
+import { VALID_UPLOAD_FILE_TYPES } from '~shared/constants/file'
+import { AgencyDto, CreateAgencyBodyDto } from '~shared/types'
+
+import { useToast } from '~hooks/useToast'
+import { uploadAgencyLogo } from '~services/FileHandlerService'
+import Button from '~components/Button'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import Input from '~components/Input'
+
+type AgencyFormInputs = {
+  shortName: string
+  fullName: string
+  // Comma-separated email domains.
+  emailDomain: string
+  logo: string
+  businessAddress: string
+  businessGstRegNo: string
+}
+
+const toFormInputs = (agency?: AgencyDto): AgencyFormInputs => ({
+  shortName: agency?.shortName ?? '',
+  fullName: agency?.fullName ?? '',
+  emailDomain: agency?.emailDomain.join(', ') ?? '',
+  logo: agency?.logo ?? '',
+  businessAddress: agency?.business?.address ?? '',
+  businessGstRegNo: agency?.business?.gstRegNo ?? '',
+})
+
+const toAgencyParams = ({
+  shortName,
+  fullName,
+  emailDomain,
+  logo,
+  businessAddress,
+  businessGstRegNo,
+}: AgencyFormInputs): CreateAgencyBodyDto => ({
+  shortName: shortName.trim(),
+  fullName: fullName.trim(),
+  emailDomain: emailDomain
+    .split(',')
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+  logo: logo.trim(),
+  ...(businessAddress.trim() && businessGstRegNo.trim()
+    ? {
+        business: {
+          address: businessAddress.trim(),
+          gstRegNo: businessGstRegNo.trim(),
+        },
+      }
+    : {}),
+})
+
+interface AgencyFormProps {
+  // Agency to edit, if any.
+  agency?: AgencyDto
+  submitLabel: string
+  isSubmitting: boolean
+  onSubmit: (params: CreateAgencyBodyDto) => void
+}
+
+export const AgencyForm = ({
+  agency,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+}: AgencyFormProps): JSX.Element => {
+  const toast = useToast({ status: 'danger', isClosable: true })
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isUploadingLogo, setIsUploadingLogo] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<AgencyFormInputs>({ defaultValues: toFormInputs(agency) })
+
+  const logo = watch('logo')
+
+  const handleUploadLogo = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const image = event.target.files?.[0]
+      // Allow the same file to be selected again.
+      event.target.value = ''
+      if (!image) return
+
+      setIsUploadingLogo(true)
+      return uploadAgencyLogo({ image })
+        .then(({ url }) => setValue('logo', url, { shouldValidate: true }))
+        .catch((error: Error) => toast({ description: error.message }))
+        .finally(() => setIsUploadingLogo(false))
+    },
+    [setValue, toast],
+  )
+
+  const handleFormSubmit = handleSubmit((inputs) =>
+    onSubmit(toAgencyParams(inputs)),
+  )
+
+  return (
+    <Stack spacing="1.5rem">
+      <FormControl isRequired isInvalid={!!errors.shortName}>
+        <FormLabel>Short name</FormLabel>
+        <Input
+          {...register('shortName', {
+            required: 'Please enter a short name',
+          })}
+        />
+        <FormErrorMessage>{get(errors, 'shortName.message')}</FormErrorMessage>
+      </FormControl>
+      <FormControl isRequired isInvalid={!!errors.fullName}>
+        <FormLabel>Full name</FormLabel>
+        <Input
+          {...register('fullName', {
+            required: 'Please enter the full name of the agency',
+          })}
+        />
+        <FormErrorMessage>{get(errors, 'fullName.message')}</FormErrorMessage>
+      </FormControl>
+      <FormControl isRequired isInvalid={!!errors.emailDomain}>
+        <FormLabel description="Separate multiple domains with commas. Users can only log in with emails of these domains.">
+          Email domains
+        </FormLabel>
+        <Input
+          placeholder="agency.gov.sg"
+          {...register('emailDomain', {
+            required: 'Please enter at least one email domain',
+          })}
+        />
+        <FormErrorMessage>
+          {get(errors, 'emailDomain.message')}
+        </FormErrorMessage>
+      </FormControl>
+      <FormControl isRequired isInvalid={!!errors.logo}>
+        <FormLabel>Logo</FormLabel>
+        <Stack direction={{ base: 'column', md: 'row' }} spacing="0.5rem">
+          <Input {...register('logo', { required: 'Please upload a logo' })} />
+          <Button
+            variant="outline"
+            flexShrink={0}
+            isLoading={isUploadingLogo}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Upload logo
+          </Button>
+          <ChakraInput
+            ref={fileInputRef}
+            type="file"
+            accept={VALID_UPLOAD_FILE_TYPES.join(',')}
+            display="none"
+            onChange={handleUploadLogo}
+          />
+        </Stack>
+        <FormErrorMessage>{get(errors, 'logo.message')}</FormErrorMessage>
+        {logo ? (
+          <Box mt="0.75rem">
+            <Image src={logo} alt="Agency logo" maxH="4rem" />
+          </Box>
+        ) : null}
+      </FormControl>
+      <FormControl>
+        <FormLabel description="Shown on invoices. Leave blank if the agency is not billed.">
+          Business address
+        </FormLabel>
+        <Input {...register('businessAddress')} />
+      </FormControl>
+      <FormControl>
+        <FormLabel>GST registration number</FormLabel>
+        <Input {...register('businessGstRegNo')} />
+      </FormControl>
+      <Box>
+        <Button isLoading={isSubmitting} onClick={handleFormSubmit}>
+          {submitLabel}
+        </Button>
+      </Box>
+    </Stack>
+  )
+}
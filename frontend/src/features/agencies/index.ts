@@ -0,0 +1,3 @@
+export { AgenciesPage } from './AgenciesPage'
+export { AgencyPage } from './AgencyPage'
+export { AgencyFormsPage } from './AgencyFormsPage'
@@ -0,0 +1,143 @@
+import { useMutation, useQueryClient } from 'react-query'
+
+import {
+  CreateAgencyBodyDto,
+  FormStatus,
+  TransferAgencyFormsOwnershipBodyDto,
+  UpdateAgencyBodyDto,
+  UpdateAgencyUserBodyDto,
+} from '~shared/types'
+
+import { ApiError } from '~typings/core'
+
+import { useToast } from '~hooks/useToast'
+
+import { updateFormStatus } from '~features/admin-form/settings/SettingsService'
+
+import {
+  createAgency,
+  transferAgencyFormsOwnership,
+  updateAgency,
+  updateAgencyUser,
+} from './AgenciesService'
+import { agenciesKeys } from './queries'
+
+export const useAgencyMutations = () => {
+  const queryClient = useQueryClient()
+  const toast = useToast({ status: 'success', isClosable: true })
+
+  const handleError = (error: ApiError) => {
+    toast.closeAll()
+    toast({ description: error.message, status: 'danger' })
+  }
+
+  const createAgencyMutation = useMutation(
+    (params: CreateAgencyBodyDto) => createAgency(params),
+    {
+      onSuccess: (agency) => {
+        queryClient.invalidateQueries(agenciesKeys.all)
+        toast.closeAll()
+        toast({ description: `${agency.shortName} has been created.` })
+      },
+      onError: handleError,
+    },
+  )
+
+  const updateAgencyMutation = useMutation(
+    ({ agencyId, update }: { agencyId: string; update: UpdateAgencyBodyDto }) =>
+      updateAgency(agencyId, update),
+    {
+      onSuccess: (agency) => {
+        // Also refreshes the audit log of the agency.
+        queryClient.invalidateQueries(agenciesKeys.id(agency._id))
+        queryClient.invalidateQueries(agenciesKeys.all, { exact: true })
+        toast.closeAll()
+        toast({ description: `${agency.shortName} has been updated.` })
+      },
+      onError: handleError,
+    },
+  )
+
+  const updateAgencyUserMutation = useMutation(
+    ({
+      agencyId,
+      userId,
+      ...body
+    }: {
+      agencyId: string
+      userId: string
+    } & UpdateAgencyUserBodyDto) => updateAgencyUser(agencyId, userId, body),
+    {
+      onSuccess: (user, { agencyId }) => {
+        queryClient.invalidateQueries(agenciesKeys.id(agencyId), {
+          exact: true,
+        })
+        queryClient.invalidateQueries(agenciesKeys.auditLogs(agencyId))
+        toast.closeAll()
+        toast({
+          description: user.role
+            ? `${user.email} is now an agency admin.`
+            : `${user.email} is no longer an agency admin.`,
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  return {
+    createAgencyMutation,
+    updateAgencyMutation,
+    updateAgencyUserMutation,
+  }
+}
+
+export const useAgencyFormsMutations = (agencyId: string) => {
+  const queryClient = useQueryClient()
+  const toast = useToast({ status: 'success', isClosable: true })
+
+  const handleError = (error: ApiError) => {
+    toast.closeAll()
+    toast({ description: error.message, status: 'danger' })
+  }
+
+  const invalidateAgencyForms = () =>
+    queryClient.invalidateQueries([...agenciesKeys.id(agencyId), 'forms'])
+
+  const transferAgencyFormsMutation = useMutation(
+    (body: TransferAgencyFormsOwnershipBodyDto) =>
+      transferAgencyFormsOwnership(agencyId, body),
+    {
+      onSuccess: ({ transferred, failed }, { email }) => {
+        invalidateAgencyForms()
+        toast.closeAll()
+        const description = `${transferred.length} form(s) have been transferred to ${email}.`
+        if (!failed.length) {
+          toast({ description })
+          return
+        }
+        const failedForms = failed
+          .map(({ title, message }) => `${title} (${message})`)
+          .join(', ')
+        toast({
+          status: 'warning',
+          description: `${description} These forms could not be transferred: ${failedForms}`,
+        })
+      },
+      onError: handleError,
+    },
+  )
+
+  const deactivateAgencyFormMutation = useMutation(
+    (formId: string) => updateFormStatus(formId, FormStatus.Private),
+    {
+      onSuccess: () => {
+        invalidateAgencyForms()
+        toast.closeAll()
+        toast({ description: 'The form has been deactivated.' })
+      },
+      onError: handleError,
+    },
+  )
+
+  return { transferAgencyFormsMutation, deactivateAgencyFormMutation }
+}
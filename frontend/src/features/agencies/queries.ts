@@ -0,0 +1,57 @@
+import { useQuery, UseQueryResult } from 'react-query'
+
+import {
+  AgencyAdminListItemDto,
+  AgencyAdminViewDto,
+  AgencyAuditLogDto,
+  AgencyFormDto,
+  AgencyFormQueryDto,
+} from '~shared/types'
+
+import { ApiError } from '~typings/core'
+
+import {
+  getAgencies,
+  getAgency,
+  getAgencyAuditLogs,
+  getAgencyForms,
+} from './AgenciesService'
+
+export const agenciesKeys = {
+  all: ['agencies'] as const,
+  id: (agencyId: string) => [...agenciesKeys.all, agencyId] as const,
+  auditLogs: (agencyId: string) =>
+    [...agenciesKeys.id(agencyId), 'auditLogs'] as const,
+  forms: (agencyId: string, query: AgencyFormQueryDto = {}) =>
+    [...agenciesKeys.id(agencyId), 'forms', query] as const,
+}
+
+export const useAgencies = (): UseQueryResult<
+  AgencyAdminListItemDto[],
+  ApiError
+> => {
+  return useQuery(agenciesKeys.all, () => getAgencies())
+}
+
+export const useAgency = (
+  agencyId: string,
+): UseQueryResult<AgencyAdminViewDto, ApiError> => {
+  return useQuery(agenciesKeys.id(agencyId), () => getAgency(agencyId))
+}
+
+export const useAgencyAuditLogs = (
+  agencyId: string,
+): UseQueryResult<AgencyAuditLogDto[], ApiError> => {
+  return useQuery(agenciesKeys.auditLogs(agencyId), () =>
+    getAgencyAuditLogs(agencyId),
+  )
+}
+
+export const useAgencyForms = (
+  agencyId: string,
+  query: AgencyFormQueryDto = {},
+): UseQueryResult<AgencyFormDto[], ApiError> => {
+  return useQuery(agenciesKeys.forms(agencyId, query), () =>
+    getAgencyForms(agencyId, query),
+  )
+}
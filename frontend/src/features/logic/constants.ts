@@ -7,9 +7,17 @@ export const ALLOWED_LOGIC_FIELDS_ARRAY: LogicableField[] = [
   BasicField.Rating,
   BasicField.Number,
   BasicField.Decimal,
+  BasicField.Calculation,
   BasicField.Dropdown,
+  BasicField.Checkbox,
+  BasicField.Date,
+  BasicField.ShortText,
+  BasicField.Email,
 ]
 
+/** Date condition values are stored as ISO dates. */
+export const LOGIC_DATE_VALUE_FORMAT = 'yyyy-MM-dd'
+
 export const ALLOWED_LOGIC_FIELDS = new Set(
   ALLOWED_LOGIC_FIELDS_ARRAY,
 ) as Set<BasicField>
@@ -1,5 +1,5 @@
 import { BasicField, FormFieldDto } from '~shared/types/field'
-import { FormCondition } from '~shared/types/form'
+import { LogicDto } from '~shared/types/form'
 
 type FieldId = FormFieldDto['_id']
 
@@ -7,6 +7,6 @@ export type FieldIdSet = Set<FieldId>
 export type FieldIdToType = Record<FieldId, BasicField>
 
 export type GroupedLogicMeta = {
-  groupedLogic: Record<FieldId, FormCondition[][]>
+  groupedLogic: Record<FieldId, LogicDto[]>
   hasInvalidLogic: boolean
 }
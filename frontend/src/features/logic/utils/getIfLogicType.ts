@@ -20,6 +20,15 @@ export const getIfLogicType = ({
         ? LogicIfValue.SingleSelect
         : LogicIfValue.MultiSelect
     }
+    case BasicField.Checkbox:
+      return LogicIfValue.MultiSelect
+    case BasicField.Date:
+      return conditionState === LogicConditionState.Between
+        ? LogicIfValue.DateRange
+        : LogicIfValue.Date
+    case BasicField.ShortText:
+    case BasicField.Email:
+      return LogicIfValue.Text
     case BasicField.Children:
     case BasicField.Rating:
     case BasicField.YesNo:
@@ -0,0 +1,86 @@
+import { DeepPartialSkipArrayKey, UnpackNestedValue } from 'react-hook-form'
+import { CamelCasedProperties } from 'type-fest'
+
+import { FormDto } from '~shared/types/form'
+
+import { FormFieldValues } from '~templates/Field'
+
+import { FieldIdSet, FieldIdToType } from '../types'
+
+import { allConditionsExist } from './allConditionsExist'
+import { isLogicUnitSatisfied } from './isLogicUnitSatisfied'
+import { isRequireFieldsLogic, isSetFieldValueLogic } from './typeguards'
+
+type LogicFieldActionsProps = CamelCasedProperties<
+  Pick<FormDto, 'form_fields' | 'form_logics'>
+> & {
+  visibleFieldIds: FieldIdSet
+}
+
+/**
+ * Gets the map of visible field ids to their field type, used to check that
+ * the conditions of logic units are visible.
+ */
+const getVisibleFieldMap = (
+  formFields: FormDto['form_fields'],
+  visibleFieldIds: FieldIdSet,
+) =>
+  formFields.reduce<FieldIdToType>((acc, ff) => {
+    if (visibleFieldIds.has(ff._id)) {
+      acc[ff._id] = ff.fieldType
+    }
+    return acc
+  }, {})
+
+/**
+ * Gets the IDs of visible fields that are required by satisfied
+ * RequireFields logic, regardless of whether they are required in the form.
+ * Similar to current implementation in `src/shared/util/logic.ts` for backend
+ * @param formInputs the field responses to retrieve logic units for.
+ * @param formProps the form fields, form logics and currently visible field ids.
+ * @returns a set of IDs of fields required by logic
+ */
+export const getLogicRequiredFieldIds = (
+  formInputs: UnpackNestedValue<DeepPartialSkipArrayKey<FormFieldValues>>,
+  { formFields, formLogics, visibleFieldIds }: LogicFieldActionsProps,
+): FieldIdSet => {
+  const visibleFieldMap = getVisibleFieldMap(formFields, visibleFieldIds)
+  const requiredFieldIds: FieldIdSet = new Set()
+  formLogics.filter(isRequireFieldsLogic).forEach((logicUnit) => {
+    if (
+      allConditionsExist(logicUnit.conditions, visibleFieldMap) &&
+      isLogicUnitSatisfied(formInputs, logicUnit, visibleFieldMap)
+    ) {
+      logicUnit.require
+        .filter((fieldId) => visibleFieldIds.has(fieldId))
+        .forEach((fieldId) => requiredFieldIds.add(fieldId))
+    }
+  })
+  return requiredFieldIds
+}
+
+/**
+ * Gets the values that satisfied SetFieldValue logic sets on visible fields.
+ * If multiple logic units set the same field, the last one takes precedence.
+ * Similar to current implementation in `src/shared/util/logic.ts` for backend
+ * @param formInputs the field responses to retrieve logic units for.
+ * @param formProps the form fields, form logics and currently visible field ids.
+ * @returns a map of field IDs to the values set on them by logic
+ */
+export const getLogicFieldValues = (
+  formInputs: UnpackNestedValue<DeepPartialSkipArrayKey<FormFieldValues>>,
+  { formFields, formLogics, visibleFieldIds }: LogicFieldActionsProps,
+): Map<string, string> => {
+  const visibleFieldMap = getVisibleFieldMap(formFields, visibleFieldIds)
+  const fieldValues = new Map<string, string>()
+  formLogics.filter(isSetFieldValueLogic).forEach((logicUnit) => {
+    if (
+      visibleFieldIds.has(logicUnit.setField) &&
+      allConditionsExist(logicUnit.conditions, visibleFieldMap) &&
+      isLogicUnitSatisfied(formInputs, logicUnit, visibleFieldMap)
+    ) {
+      fieldValues.set(logicUnit.setField, logicUnit.setValue)
+    }
+  })
+  return fieldValues
+}
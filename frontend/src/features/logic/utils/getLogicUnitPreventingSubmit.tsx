@@ -1,6 +1,14 @@
 import { DeepPartialSkipArrayKey, UnpackNestedValue } from 'react-hook-form'
 
-import { FormCondition, FormDto, PreventSubmitLogicDto } from '~shared/types'
+import {
+  evaluateConditionGroup,
+  getConditionGroup,
+} from '~shared/modules/logic'
+import {
+  FormDto,
+  LogicConditionState,
+  PreventSubmitLogicDto,
+} from '~shared/types'
 
 import { FormFieldValues } from '~templates/Field'
 
@@ -31,26 +39,34 @@ const getPreventSubmitConditions = (
 }
 
 /**
- * Checks if an array of conditions is satisfied.
+ * Checks if the conditions of a logic unit are satisfied, combined according
+ * to the logic unit's condition group.
  * @param formInputs the responses to retrieve logic units for.
  * @param logicUnit an unit representing a single logic condition slice.
  * @param visibleFieldMap the map with keys of field IDs that are visible, which is used to ensure that conditions are visible
- * @returns true if all the conditions are satisfied, false otherwise
+ * @returns true if the condition group is satisfied, false otherwise
  */
 const isLogicUnitSatisfied = (
   formInputs: UnpackNestedValue<DeepPartialSkipArrayKey<FormFieldValues>>,
-  logicUnit: FormCondition[],
+  logicUnit: PreventSubmitLogicDto,
   fieldIdToType: FieldIdToType,
 ): boolean => {
-  return logicUnit.every((condition) => {
-    const conditionField = formInputs[condition.field]
-    const conditionFieldType = fieldIdToType[condition.field]
-    return (
-      conditionField !== undefined &&
-      !!conditionFieldType &&
-      isConditionFulfilled(conditionField, condition, conditionFieldType)
-    )
-  })
+  const conditionGroup = getConditionGroup(logicUnit)
+  return evaluateConditionGroup(
+    conditionGroup,
+    logicUnit.conditions,
+    (condition) => {
+      const conditionField = formInputs[condition.field]
+      const conditionFieldType = fieldIdToType[condition.field]
+      if (!conditionFieldType) return false
+      // Fields that have not been filled in can still fulfil emptiness
+      // conditions.
+      if (conditionField === undefined) {
+        return condition.state === LogicConditionState.IsEmpty
+      }
+      return isConditionFulfilled(conditionField, condition, conditionFieldType)
+    },
+  )
 }
 
 /**
@@ -86,10 +102,6 @@ export const getLogicUnitPreventingSubmit = ({
     fieldIdToType,
   )
   return preventSubmitConditions.find((logicUnit) =>
-    isLogicUnitSatisfied(
-      filteredFormInputs,
-      logicUnit.conditions,
-      fieldIdToType,
-    ),
+    isLogicUnitSatisfied(filteredFormInputs, logicUnit, fieldIdToType),
   )
 }
@@ -1,48 +1,24 @@
-import {
-  DeepPartial,
-  DeepPartialSkipArrayKey,
-  UnpackNestedValue,
-} from 'react-hook-form'
+import { DeepPartialSkipArrayKey, UnpackNestedValue } from 'react-hook-form'
 import { CamelCasedProperties } from 'type-fest'
 
-import { FormCondition, FormDto } from '~shared/types/form'
+import { FormDto, LogicDto, SkipToSectionLogicDto } from '~shared/types/form'
 
 import { FormFieldValues } from '~templates/Field'
 
 import { FieldIdSet, FieldIdToType } from '../types'
 
+import { allConditionsExist } from './allConditionsExist'
 import { groupLogicUnitsByField } from './groupLogicUnitsByField'
-import { isConditionFulfilled } from './isConditionFulfilled'
-
-/**
- * Checks if an array of conditions is satisfied.
- * @param formInputs the inputs to the form to retrieve logic units for.
- * @param logicUnit the logic units to check.
- * @param visibleFieldMap the map with visible field ids as keys, which is used to ensure that conditions are visible
- * @returns true if all the conditions are satisfied, false otherwise
- */
-const isLogicUnitSatisfied = (
-  formInputs: DeepPartial<FormFieldValues>,
-  logicUnit: FormCondition[],
-  visibleFieldMap: FieldIdToType,
-): boolean => {
-  return logicUnit.every((condition) => {
-    const inputFieldType = visibleFieldMap[condition.field]
-    // If the field is not visible, then the field type will not be in the map.
-    if (!inputFieldType) return false
-    const input = formInputs[condition.field]
-    return (
-      input !== undefined &&
-      isConditionFulfilled(input, condition, inputFieldType)
-    )
-  })
-}
+import { isLogicUnitSatisfied } from './isLogicUnitSatisfied'
+import { isSkipToSectionLogic } from './typeguards'
 
 /**
  * Gets the IDs of visible fields in a form according to its responses.
  * This function loops through all the form fields until the set of visible
  * fields no longer changes. The first loop adds all the fields with no
  * conditions attached, the second adds fields which are made visible due to fields added in the previous loop, and so on.
+ * Fields skipped over by satisfied SkipToSection logic are never visible.
+ * Similar to current implementation in `src/shared/util/logic.ts` for backend
  * @param formInputs the field responses to retrieve logic units for.
  * @param formProps the form fields and form logics to determine visible field ids.
  * @returns a set of IDs of visible fields in the submission
@@ -60,6 +36,50 @@ export const getVisibleFieldIds = (
   }, {})
 
   const { groupedLogic } = groupLogicUnitsByField(formLogics, idToFieldTypeMap)
+  const skippedFieldIds: FieldIdSet = new Set()
+  let visibleFieldMap = getShownFieldMap(
+    formInputs,
+    formFields,
+    groupedLogic,
+    skippedFieldIds,
+  )
+  // Skip logic is applied in form order, so that a skip can hide the
+  // conditions of skip logic further down the form.
+  getSkipToSectionLogics(formLogics, formFields, idToFieldTypeMap).forEach(
+    ({ logicUnit, skippedIds }) => {
+      if (
+        skippedIds.length > 0 &&
+        isLogicUnitSatisfied(formInputs, logicUnit, visibleFieldMap)
+      ) {
+        skippedIds.forEach((fieldId) => skippedFieldIds.add(fieldId))
+        visibleFieldMap = getShownFieldMap(
+          formInputs,
+          formFields,
+          groupedLogic,
+          skippedFieldIds,
+        )
+      }
+    },
+  )
+
+  return new Set(Object.keys(visibleFieldMap))
+}
+
+/**
+ * Gets the fields shown by ShowFields logic, excluding the given skipped
+ * fields.
+ * @param formInputs the field responses to retrieve logic units for.
+ * @param formFields the fields of the form.
+ * @param groupedLogic the ShowFields logic units grouped by the field they show.
+ * @param skippedFieldIds the set of field ids that have been skipped.
+ * @returns a map with the shown field ids as keys
+ */
+const getShownFieldMap = (
+  formInputs: UnpackNestedValue<DeepPartialSkipArrayKey<FormFieldValues>>,
+  formFields: FormDto['form_fields'],
+  groupedLogic: Record<string, LogicDto[]>,
+  skippedFieldIds: FieldIdSet,
+): FieldIdToType => {
   const visibleFieldMap: FieldIdToType = {}
   // Loop continues until no more changes made
   let changesMade = true
@@ -78,6 +98,7 @@ export const getVisibleFieldIds = (
       // 2) Show X if A=1
       if (
         !visibleFieldMap[field._id] &&
+        !skippedFieldIds.has(field._id) &&
         (!logicUnits ||
           logicUnits.some((logicUnit) =>
             isLogicUnitSatisfied(formInputs, logicUnit, visibleFieldMap),
@@ -88,6 +109,44 @@ export const getVisibleFieldIds = (
       }
     })
   }
+  return visibleFieldMap
+}
 
-  return new Set(Object.keys(visibleFieldMap))
+/**
+ * Gets the valid SkipToSection logic units of a form, together with the ids
+ * of the fields each of them skips over, in form order.
+ * A logic unit skips over the fields after the last field referenced in its
+ * conditions, up to but excluding the section it skips to.
+ * @param formLogics the logic units of the form.
+ * @param formFields the fields of the form.
+ * @param idToFieldTypeMap map of all form field ids to their field type.
+ * @returns the skip logic units and their skipped field ids
+ */
+const getSkipToSectionLogics = (
+  formLogics: FormDto['form_logics'],
+  formFields: FormDto['form_fields'],
+  idToFieldTypeMap: FieldIdToType,
+): { logicUnit: SkipToSectionLogicDto; skippedIds: string[] }[] => {
+  const formFieldIds = formFields.map((field) => field._id)
+  return formLogics
+    .filter(isSkipToSectionLogic)
+    .filter((logicUnit) =>
+      allConditionsExist(logicUnit.conditions, idToFieldTypeMap),
+    )
+    .map((logicUnit) => {
+      const lastConditionIndex = Math.max(
+        ...logicUnit.conditions.map(({ field }) => formFieldIds.indexOf(field)),
+      )
+      const sectionIndex = formFieldIds.indexOf(logicUnit.skipToSection)
+      return {
+        logicUnit,
+        lastConditionIndex,
+        skippedIds:
+          sectionIndex > lastConditionIndex
+            ? formFieldIds.slice(lastConditionIndex + 1, sectionIndex)
+            : [],
+      }
+    })
+    .sort((a, b) => a.lastConditionIndex - b.lastConditionIndex)
+    .map(({ logicUnit, skippedIds }) => ({ logicUnit, skippedIds }))
 }
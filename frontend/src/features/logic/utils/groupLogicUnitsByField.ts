@@ -34,38 +34,8 @@ import { isShowFieldsLogic } from './typeguards'
  * ]
  *
  * meta.groupedLogic = {
- *   '1001': [
- *     [
- *       {
- *         field: '1003',
- *         ifValueType: 'single-select',
- *         state: 'is equals to',
- *         value: 'Option 1',
- *       },
- *       {
- *         field: '1004',
- *         ifValueType: 'single-select',
- *         state: 'is equals to',
- *         value: 'Yes',
- *       },
- *     ],
- *   ],
- *   '1002': [
- *     [
- *       {
- *         field: '1003',
- *         ifValueType: 'single-select',
- *         state: 'is equals to',
- *         value: 'Option 1',
- *       },
- *       {
- *         field: '1004',
- *         ifValueType: 'single-select',
- *         state: 'is equals to',
- *         value: 'Yes',
- *       },
- *     ],
- *   ],
+ *   '1001': [formLogics[0]],
+ *   '1002': [formLogics[0]],
  * }
  * @caption If "1001" is deleted, "1002" will still be rendered since we just won't add "1001" into logicUnitsGroupedByField
  *
@@ -95,7 +65,7 @@ export const groupLogicUnitsByField = (
           acc.groupedLogic[fieldId] = acc.groupedLogic[fieldId]
             ? acc.groupedLogic[fieldId]
             : []
-          acc.groupedLogic[fieldId].push(logicUnit.conditions)
+          acc.groupedLogic[fieldId].push(logicUnit)
         }
       })
       return acc
@@ -1,3 +1,4 @@
 export * from './getIfLogicType'
 export * from './getLogicUnitPreventingSubmit'
 export * from './getVisibleFieldIds'
+export * from './getLogicFieldActions'
@@ -1,4 +1,5 @@
 import { DeepPartial } from 'react-hook-form'
+import { format, isValid, parse } from 'date-fns'
 
 import { BasicField } from '~shared/types/field'
 import {
@@ -8,9 +9,15 @@ import {
 } from '~shared/types/form'
 
 import { FormFieldValue } from '~templates/Field'
+import { CHECKBOX_OTHERS_INPUT_VALUE } from '~templates/Field/Checkbox/CheckboxField'
+import { DATE_PARSE_FORMAT } from '~templates/Field/Date/DateField'
 import { RADIO_OTHERS_INPUT_VALUE } from '~templates/Field/Radio/RadioField'
 
+import { LOGIC_DATE_VALUE_FORMAT } from '../constants'
+
 import {
+  isCheckboxFormFieldValue,
+  isEmailFormFieldValue,
   isLogicableField,
   isRadioFormFieldValue,
   isValueStringArray,
@@ -24,13 +31,159 @@ const getCurrentFieldValue = (
     case BasicField.Radio:
     case BasicField.Number:
     case BasicField.Decimal:
+    case BasicField.Calculation:
     case BasicField.Dropdown:
     case BasicField.Rating:
     case BasicField.YesNo:
+    case BasicField.Checkbox:
+    case BasicField.Date:
+    case BasicField.ShortText:
+    case BasicField.Email:
       return input
   }
 }
 
+/**
+ * Returns the options selected in the checkbox field, with the 'Others' option
+ * only counted as selected if its input has a value.
+ * Similar to current implementation in `src/shared/util/logic.ts` for backend
+ */
+const getCheckedValues = (
+  input: DeepPartial<FormFieldValue<BasicField.Checkbox>>,
+): string[] => {
+  if (!input.value) return []
+  return input.value
+    .filter((value): value is string => !!value)
+    .map((value) => value.trim())
+    .filter(
+      (value) => value !== CHECKBOX_OTHERS_INPUT_VALUE || !!input.othersInput,
+    )
+}
+
+/**
+ * Converts a date value into an ISO date string so that dates can be compared
+ * lexicographically.
+ * @returns the ISO date string, or null if the value is not a valid date
+ */
+const toLogicDateValue = (value: string, dateFormat: string) => {
+  const date = parse(value, dateFormat, new Date())
+  return isValid(date) ? format(date, LOGIC_DATE_VALUE_FORMAT) : null
+}
+
+const isCheckboxConditionFulfilled = (
+  checkedValues: string[],
+  condition: FormCondition,
+): boolean => {
+  // Checkbox fields that have not been answered do not fulfil any condition.
+  if (checkedValues.length === 0) return false
+
+  const condValuesArray = Array.isArray(condition.value)
+    ? condition.value.map(String)
+    : [String(condition.value)]
+  const isOptionChecked = (option: string) =>
+    checkedValues.includes(option) ||
+    (option === 'Others' && checkedValues.includes(CHECKBOX_OTHERS_INPUT_VALUE))
+
+  switch (condition.state) {
+    case LogicConditionState.ContainsAny:
+      return condValuesArray.some(isOptionChecked)
+    case LogicConditionState.ContainsAll:
+      return condValuesArray.every(isOptionChecked)
+    default:
+      return false
+  }
+}
+
+const isDateConditionFulfilled = (
+  input: string,
+  condition: FormCondition,
+): boolean => {
+  const currentDate = toLogicDateValue(input, DATE_PARSE_FORMAT)
+  if (!currentDate) return false
+
+  const condDates = (
+    Array.isArray(condition.value) ? condition.value : [condition.value]
+  ).map((value) => toLogicDateValue(String(value), LOGIC_DATE_VALUE_FORMAT))
+  if (condDates.some((date) => !date)) return false
+  const [startDate, endDate] = condDates as string[]
+
+  switch (condition.state) {
+    case LogicConditionState.Before:
+      return currentDate < startDate
+    case LogicConditionState.After:
+      return currentDate > startDate
+    case LogicConditionState.Between:
+      // Both ends of the range are inclusive.
+      return !!endDate && currentDate >= startDate && currentDate <= endDate
+    default:
+      return false
+  }
+}
+
+const isTextConditionFulfilled = (
+  input: string,
+  condition: FormCondition,
+): boolean => {
+  const currentValue = input.toLowerCase()
+  const condValue = String(condition.value).toLowerCase()
+
+  switch (condition.state) {
+    case LogicConditionState.Contains:
+      return currentValue.includes(condValue)
+    case LogicConditionState.EndsWithDomain: {
+      const domain = condValue.replace(/^@/, '')
+      // Subdomains of the given domain also fulfil the condition.
+      return (
+        currentValue.endsWith(`@${domain}`) ||
+        currentValue.endsWith(`.${domain}`)
+      )
+    }
+    default:
+      return false
+  }
+}
+
+/**
+ * Checks if the condition is fulfilled for the fields that only support
+ * conditions on their content (checkbox, date, short text and email fields).
+ * @returns `undefined` if the field type is not one of these fields
+ */
+const isContentConditionFulfilled = (
+  input: DeepPartial<FormFieldValue<LogicableField>> | undefined,
+  condition: FormCondition,
+  fieldType: LogicableField,
+): boolean | undefined => {
+  switch (fieldType) {
+    case BasicField.Checkbox: {
+      const checkedValues =
+        input && isCheckboxFormFieldValue(input, fieldType)
+          ? getCheckedValues(input)
+          : []
+      return condition.state === LogicConditionState.IsEmpty
+        ? checkedValues.length === 0
+        : isCheckboxConditionFulfilled(checkedValues, condition)
+    }
+    case BasicField.Date:
+    case BasicField.ShortText:
+    case BasicField.Email: {
+      const currentValue = (
+        input && isEmailFormFieldValue(input, fieldType)
+          ? input.value ?? ''
+          : String(input ?? '')
+      ).trim()
+      if (condition.state === LogicConditionState.IsEmpty) {
+        return currentValue === ''
+      }
+      if (currentValue === '') return false
+      return fieldType === BasicField.Date
+        ? isDateConditionFulfilled(currentValue, condition)
+        : isTextConditionFulfilled(currentValue, condition)
+    }
+    default:
+      return undefined
+  }
+}
+
 /**
  * Utility function to trim condition.value strings
  * Trim logic condition for backward compability as some logic conditions have trailing whitespac
@@ -64,6 +217,13 @@ export const isConditionFulfilled = (
   const args = { fieldType, input }
   if (!isLogicableField(args)) return false
 
+  const isContentFulfilled = isContentConditionFulfilled(
+    args.input,
+    conditionTrimmed,
+    args.fieldType,
+  )
+  if (isContentFulfilled !== undefined) return isContentFulfilled
+
   // TODO #4279: Revisit decision to trim after React rollout is complete
   let currentValueTrimmed
   const currentValue = getCurrentFieldValue(args.input, args.fieldType)
@@ -82,6 +242,14 @@ export const isConditionFulfilled = (
   }
 
   switch (conditionTrimmed.state) {
+    case LogicConditionState.NotEqual:
+      // Unanswered fields have returned early above, and hence never fulfil
+      // this condition.
+      return !isConditionFulfilled(
+        input,
+        { ...condition, state: LogicConditionState.Equal },
+        fieldType,
+      )
     case LogicConditionState.Lte:
       return Number(currentValueTrimmed) <= Number(conditionTrimmed.value)
     case LogicConditionState.Gte:
@@ -125,7 +293,12 @@ export const isConditionFulfilled = (
       }
       // In angular, number equality is string=== but decimal equality is number===.
       // Need to replicate this behavior for backward-compatibility.
-      if (fieldType === BasicField.Decimal) {
+      // Calculated values are also compared by value, as they are formatted
+      // to a fixed number of decimal places.
+      if (
+        fieldType === BasicField.Decimal ||
+        fieldType === BasicField.Calculation
+      ) {
         return Number(currentValueTrimmed) === Number(conditionTrimmed.value)
       }
       return String(conditionTrimmed.value) === String(currentValueTrimmed)
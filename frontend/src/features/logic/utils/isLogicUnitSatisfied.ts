@@ -0,0 +1,46 @@
+import { DeepPartial } from 'react-hook-form'
+
+import {
+  evaluateConditionGroup,
+  getConditionGroup,
+} from '~shared/modules/logic'
+import { LogicConditionState, LogicDto } from '~shared/types/form'
+
+import { FormFieldValues } from '~templates/Field'
+
+import { FieldIdToType } from '../types'
+
+import { isConditionFulfilled } from './isConditionFulfilled'
+
+/**
+ * Checks if the conditions of a logic unit are satisfied, combined according
+ * to the logic unit's condition group.
+ * Similar to current implementation in `src/shared/util/logic.ts` for backend
+ * @param formInputs the inputs to the form to retrieve logic units for.
+ * @param logicUnit the logic units to check.
+ * @param visibleFieldMap the map with visible field ids as keys, which is used to ensure that conditions are visible
+ * @returns true if the condition group is satisfied, false otherwise
+ */
+export const isLogicUnitSatisfied = (
+  formInputs: DeepPartial<FormFieldValues>,
+  logicUnit: LogicDto,
+  visibleFieldMap: FieldIdToType,
+): boolean => {
+  const conditionGroup = getConditionGroup(logicUnit)
+  return evaluateConditionGroup(
+    conditionGroup,
+    logicUnit.conditions,
+    (condition) => {
+      const inputFieldType = visibleFieldMap[condition.field]
+      // If the field is not visible, then the field type will not be in the map.
+      if (!inputFieldType) return false
+      const input = formInputs[condition.field]
+      // Fields that have not been filled in can still fulfil emptiness
+      // conditions.
+      if (input === undefined) {
+        return condition.state === LogicConditionState.IsEmpty
+      }
+      return isConditionFulfilled(input, condition, inputFieldType)
+    },
+  )
+}
@@ -7,7 +7,10 @@ import {
   LogicDto,
   LogicType,
   PreventSubmitLogicDto,
+  RequireFieldsLogicDto,
+  SetFieldValueLogicDto,
   ShowFieldLogicDto,
+  SkipToSectionLogicDto,
 } from '~shared/types/form'
 
 import { FormFieldValue } from '~templates/Field'
@@ -26,12 +29,44 @@ export const isPreventSubmitLogic = (
   return formLogic.logicType === LogicType.PreventSubmit
 }
 
+export const isRequireFieldsLogic = (
+  formLogic: LogicDto,
+): formLogic is RequireFieldsLogicDto => {
+  return formLogic.logicType === LogicType.RequireFields
+}
+
+export const isSetFieldValueLogic = (
+  formLogic: LogicDto,
+): formLogic is SetFieldValueLogicDto => {
+  return formLogic.logicType === LogicType.SetFieldValue
+}
+
+export const isSkipToSectionLogic = (
+  formLogic: LogicDto,
+): formLogic is SkipToSectionLogicDto => {
+  return formLogic.logicType === LogicType.SkipToSection
+}
+
 export const isRadioFormFieldValue = <F extends BasicField>(
   value: DeepPartial<FormFieldValue<LogicableField>>,
   fieldType: F,
 ): value is FormFieldValue<BasicField.Radio> => {
   return fieldType === BasicField.Radio && value !== undefined
 }
+export const isCheckboxFormFieldValue = <F extends BasicField>(
+  value: DeepPartial<FormFieldValue<LogicableField>>,
+  fieldType: F,
+): value is FormFieldValue<BasicField.Checkbox> => {
+  return fieldType === BasicField.Checkbox && value !== undefined
+}
+
+export const isEmailFormFieldValue = <F extends BasicField>(
+  value: DeepPartial<FormFieldValue<LogicableField>>,
+  fieldType: F,
+): value is FormFieldValue<BasicField.Email> => {
+  return fieldType === BasicField.Email && value !== undefined
+}
+
 export const isLogicableField = (args: {
   fieldType: BasicField
   input: DeepPartial<FormFieldValue>
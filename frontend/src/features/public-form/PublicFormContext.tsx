@@ -8,7 +8,9 @@ import {
 } from 'react'
 import { UseQueryResult } from 'react-query'
 
-import { PublicFormViewDto } from '~shared/types/form'
+import { Language, PublicFormViewDto } from '~shared/types/form'
+
+import { PageVisit } from './utils/formPages'
 
 export type SubmissionData = {
   /** Submission id */
@@ -61,6 +63,15 @@ export interface PublicFormContextProps
 
   /** Sets the current number of visible fields in the form in public forms only*/
   setNumVisibleFields?: Dispatch<SetStateAction<number>>
+
+  /** Sets the pages visited by the respondent of a multi-page form in public forms only */
+  setPageVisits?: Dispatch<SetStateAction<PageVisit[]>>
+
+  /** Language the form is shown in to the respondent in public forms only */
+  language?: Language
+
+  /** Sets the language the form is shown in to the respondent in public forms only */
+  setLanguage?: Dispatch<SetStateAction<Language>>
 }
 
 export const PublicFormContext = createContext<
@@ -10,9 +10,11 @@ import { FormSectionsProvider } from './components/FormFields/FormSectionsContex
 import { FormFooter } from './components/FormFooter'
 import FormInstructions from './components/FormInstructions'
 import FormIssueFeedback from './components/FormIssueFeedback'
+import FormLanguageSwitcher from './components/FormLanguageSwitcher'
 import { PublicFormLogo } from './components/FormLogo'
 import FormStartPage from './components/FormStartPage'
 import { PublicFormWrapper } from './components/PublicFormWrapper'
+import { useRecordFormView } from './hooks/useRecordFormView'
 import { PublicFormProvider } from './PublicFormProvider'
 
 export const PublicFormPage = (): JSX.Element => {
@@ -20,6 +22,8 @@ export const PublicFormPage = (): JSX.Element => {
 
   if (!formId) throw new Error('No formId provided')
 
+  useRecordFormView(formId)
+
   // Get date time in miliseconds when user first loads the form
   const startTime = Date.now()
 
@@ -31,6 +35,7 @@ export const PublicFormPage = (): JSX.Element => {
           <PublicFormLogo />
           <FormStartPage />
           <PublicFormWrapper>
+            <FormLanguageSwitcher />
             <FormInstructions />
             <FormFields />
             <FormIssueFeedback />
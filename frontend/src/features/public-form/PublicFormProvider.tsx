@@ -8,7 +8,7 @@ import {
 } from 'react'
 import { Helmet } from 'react-helmet-async'
 import { SubmitHandler } from 'react-hook-form'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useDisclosure } from '@chakra-ui/react'
 import { datadogLogs } from '@datadog/browser-logs'
 import { differenceInMilliseconds, isPast } from 'date-fns'
@@ -18,13 +18,14 @@ import simplur from 'simplur'
 import {
   featureFlags,
   PAYMENT_CONTACT_FIELD_ID,
+  PAYMENT_PRODUCT_QUANTITIES_FIELD_ID,
   PAYMENT_VARIABLE_INPUT_AMOUNT_FIELD_ID,
 } from '~shared/constants'
-import { PaymentType } from '~shared/types'
 import { CaptchaTypes } from '~shared/types/captcha'
 import {
   FormAuthType,
   FormResponseMode,
+  Language,
   PublicFormDto,
 } from '~shared/types/form'
 
@@ -32,7 +33,6 @@ import { MONGODB_ID_REGEX } from '~constants/routes'
 import { useBrowserStm } from '~hooks/payments'
 import { useTimeout } from '~hooks/useTimeout'
 import { useToast } from '~hooks/useToast'
-import { dollarsToCents } from '~utils/payments'
 import { HttpError } from '~services/ApiService'
 import { FormFieldValues } from '~templates/Field'
 
@@ -57,11 +57,22 @@ import {
   useTransactionMutations,
 } from '~features/verifiable-fields'
 
+import {
+  DRAFT_KEY_SEARCH_PARAM,
+  LOGIN_DRAFT_AUTH_TYPES,
+} from './components/FormDraft'
 import { FormNotFound } from './components/FormNotFound'
 import { usePublicAuthMutations, usePublicFormMutations } from './mutations'
 import { PublicFormContext, SubmissionData } from './PublicFormContext'
+import { discardFormDraft } from './PublicFormService'
 import { usePublicFormView } from './queries'
-import { axiosDebugFlow } from './utils'
+import {
+  axiosDebugFlow,
+  getPageResponseMetadata,
+  getSubmissionPayments,
+  PageVisit,
+  translateForm,
+} from './utils'
 
 interface PublicFormProviderProps {
   formId: string
@@ -121,6 +132,8 @@ export const PublicFormProvider = ({
   // Once form has been submitted, submission data will be set here.
   const [submissionData, setSubmissionData] = useState<SubmissionData>()
   const [numVisibleFields, setNumVisibleFields] = useState(0)
+  const [pageVisits, setPageVisits] = useState<PageVisit[]>([])
+  const [language, setLanguage] = useState<Language>(Language.English)
 
   const { data, isLoading, error, ...rest } = usePublicFormView(
     formId,
@@ -135,6 +148,20 @@ export const PublicFormProvider = ({
     }
   }, [submissionData])
 
+  const [searchParams] = useSearchParams()
+  const authType = data?.form.authType
+
+  // Discard the respondent's draft once their responses have been submitted.
+  useEffect(() => {
+    if (!submissionData) return
+    const draftKey = searchParams.get(DRAFT_KEY_SEARCH_PARAM) ?? undefined
+    if (!draftKey && !(authType && LOGIN_DRAFT_AUTH_TYPES.includes(authType))) {
+      return
+    }
+    // Drafts expire eventually, so failures to discard them can be ignored.
+    discardFormDraft(formId, draftKey).catch(() => undefined)
+  }, [authType, formId, searchParams, submissionData])
+
   const {
     data: { captchaPublicKey, turnstileSiteKey, useFetchForSubmissions } = {},
   } = useEnv(/* enabled= */ !!data?.form.hasCaptcha)
@@ -257,11 +284,13 @@ export const PublicFormProvider = ({
     FormFieldValues & {
       [PAYMENT_CONTACT_FIELD_ID]?: { value: string }
       [PAYMENT_VARIABLE_INPUT_AMOUNT_FIELD_ID]: string
+      [PAYMENT_PRODUCT_QUANTITIES_FIELD_ID]?: string[]
     }
   > = useCallback(
     async ({
       [PAYMENT_CONTACT_FIELD_ID]: paymentReceiptEmailField,
       [PAYMENT_VARIABLE_INPUT_AMOUNT_FIELD_ID]: paymentVariableInputAmountField,
+      [PAYMENT_PRODUCT_QUANTITIES_FIELD_ID]: paymentProductQuantitiesField,
       ...formInputs
     }) => {
       const { form } = data ?? {}
@@ -300,7 +329,11 @@ export const PublicFormProvider = ({
           numVisibleFields: isPaymentEnabled
             ? numVisibleFields + 1
             : numVisibleFields,
+          pages: form.isMultiPage
+            ? getPageResponseMetadata(pageVisits, Date.now())
+            : undefined,
         },
+        language: language === Language.English ? undefined : language,
       }
 
       const logMeta = {
@@ -413,18 +446,16 @@ export const PublicFormProvider = ({
                 {
                   ...formData,
                   publicKey: form.publicKey,
+                  paymentsField: form.payments_field,
                   captchaResponse,
                   captchaType,
                   paymentReceiptEmail: paymentReceiptEmailField?.value,
-                  ...(form.payments_field.payment_type === PaymentType.Variable
-                    ? {
-                        payments: {
-                          amount_cents: dollarsToCents(
-                            paymentVariableInputAmountField,
-                          ),
-                        },
-                      }
-                    : {}),
+                  payments: getSubmissionPayments(
+                    form.payments_field,
+                    formInputs,
+                    paymentVariableInputAmountField,
+                    paymentProductQuantitiesField,
+                  ),
                 },
                 {
                   onSuccess: ({
@@ -482,18 +513,16 @@ export const PublicFormProvider = ({
                 {
                   ...formData,
                   publicKey: form.publicKey,
+                  paymentsField: form.payments_field,
                   captchaResponse,
                   captchaType,
                   paymentReceiptEmail: paymentReceiptEmailField?.value,
-                  ...(form.payments_field.payment_type === PaymentType.Variable
-                    ? {
-                        payments: {
-                          amount_cents: dollarsToCents(
-                            paymentVariableInputAmountField,
-                          ),
-                        },
-                      }
-                    : {}),
+                  payments: getSubmissionPayments(
+                    form.payments_field,
+                    formInputs,
+                    paymentVariableInputAmountField,
+                    paymentProductQuantitiesField,
+                  ),
                 },
                 {
                   onSuccess: ({
@@ -557,8 +586,10 @@ export const PublicFormProvider = ({
       submitStorageModeFormFetchMutation,
       useFetchForSubmissions,
       numVisibleFields,
+      pageVisits,
       startTime,
       isPaymentEnabled,
+      language,
     ],
   )
 
@@ -577,6 +608,13 @@ export const PublicFormProvider = ({
     [data?.form, data?.spcpSession],
   )
 
+  // Submissions are still created from the original form, as responses are
+  // recorded against the original questions and options.
+  const translatedForm = useMemo(
+    () => data?.form && translateForm(data.form, language),
+    [data?.form, language],
+  )
+
   if (isNotFormId) {
     return <NotFoundErrorPage />
   }
@@ -596,9 +634,13 @@ export const PublicFormProvider = ({
         isPaymentEnabled,
         isPreview: false,
         setNumVisibleFields,
+        setPageVisits,
+        language,
+        setLanguage,
         ...commonFormValues,
         ...data,
         ...rest,
+        form: translatedForm,
       }}
     >
       <Helmet title={isFormNotFound ? 'Form not found' : data?.form.title} />
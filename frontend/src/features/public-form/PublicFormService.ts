@@ -1,13 +1,18 @@
 import { SubmitFormIssueBodyDto, SuccessMessageDto } from '~shared/types'
 import { FormFieldDto, PaymentFieldsDto } from '~shared/types/field'
 import {
+  FormDraftDto,
+  FormDraftSavedDto,
+  Language,
   PublicFormAuthLogoutDto,
   PublicFormAuthRedirectDto,
+  SaveFormDraftBodyDto,
   SubmitFormFeedbackBodyDto,
 } from '~shared/types/form'
 import {
   FormAuthType,
   FormDto,
+  FormPaymentsField,
   PublicFormViewDto,
 } from '~shared/types/form/form'
 import {
@@ -45,6 +50,19 @@ export const getPublicFormView = async (
     .then(transformAllIsoStringsToDate)
 }
 
+/**
+ * Counts a view of the form for its insights.
+ * @param formId FormId of form which was viewed
+ * @returns Success message
+ */
+export const recordPublicFormView = async (
+  formId: string,
+): Promise<SuccessMessageDto> => {
+  return ApiService.post<SuccessMessageDto>(
+    `${PUBLIC_FORMS_ENDPOINT}/${formId}/views`,
+  ).then(({ data }) => data)
+}
+
 /**
  * Gets the redirect url for public form login
  * @param formId form id of form to log in.
@@ -83,11 +101,16 @@ export type SubmitEmailFormArgs = {
   formLogics: FormDto['form_logics']
   formInputs: FormFieldValues
   responseMetadata?: ResponseMetadata
+  /** Language the respondent filled in the form in, if not English */
+  language?: Language
   paymentReceiptEmail?: string
   payments?: PaymentFieldsDto
 }
 
-export type SubmitStorageFormArgs = SubmitEmailFormArgs & { publicKey: string }
+export type SubmitStorageFormArgs = SubmitEmailFormArgs & {
+  publicKey: string
+  paymentsField?: FormPaymentsField
+}
 
 export const submitEmailModeForm = async ({
   formFields,
@@ -97,6 +120,7 @@ export const submitEmailModeForm = async ({
   captchaResponse = null,
   captchaType = '',
   responseMetadata,
+  language,
 }: SubmitEmailFormArgs): Promise<SubmissionResponseDto> => {
   const filteredInputs = filterHiddenInputs({
     formFields,
@@ -107,6 +131,7 @@ export const submitEmailModeForm = async ({
     formFields,
     filteredInputs,
     responseMetadata,
+    language,
   )
 
   return ApiService.post<SubmissionResponseDto>(
@@ -131,7 +156,9 @@ export const submitStorageModeForm = async ({
   captchaType = '',
   paymentReceiptEmail,
   responseMetadata,
+  language,
   payments,
+  paymentsField,
 }: SubmitStorageFormArgs) => {
   const filteredInputs = filterHiddenInputs({
     formFields,
@@ -143,8 +170,10 @@ export const submitStorageModeForm = async ({
     formInputs: filteredInputs,
     publicKey,
     responseMetadata,
+    language,
     paymentReceiptEmail,
     payments,
+    paymentsField,
   })
   return ApiService.post<SubmissionResponseDto>(
     `${PUBLIC_FORMS_ENDPOINT}/${formId}/submissions/encrypt`,
@@ -167,6 +196,7 @@ export const submitEmailModeFormWithFetch = async ({
   captchaResponse = null,
   captchaType = '',
   responseMetadata,
+  language,
 }: SubmitEmailFormArgs): Promise<SubmissionResponseDto> => {
   const filteredInputs = filterHiddenInputs({
     formFields,
@@ -177,6 +207,7 @@ export const submitEmailModeFormWithFetch = async ({
     formFields,
     filteredInputs,
     responseMetadata,
+    language,
   )
 
   // Add captcha response to query string
@@ -210,7 +241,9 @@ export const submitStorageModeFormWithFetch = async ({
   captchaType = '',
   paymentReceiptEmail,
   responseMetadata,
+  language,
   payments,
+  paymentsField,
 }: SubmitStorageFormArgs) => {
   const filteredInputs = filterHiddenInputs({
     formFields,
@@ -222,8 +255,10 @@ export const submitStorageModeFormWithFetch = async ({
     formInputs: filteredInputs,
     publicKey,
     responseMetadata,
+    language,
     paymentReceiptEmail,
     payments,
+    paymentsField,
   })
 
   // Add captcha response to query string
@@ -280,3 +315,51 @@ export const submitFormIssue = async (
     issueToPost,
   ).then(({ data }) => data)
 }
+
+/**
+ * Saves the respondent's draft of a form.
+ * @param formId the id of the form to save the draft of
+ * @param draftToSave the draft responses, with the email to send the resume link to for new drafts, or the key of the draft to update
+ * @returns the draft key for new drafts and the expiry of the draft
+ */
+export const saveFormDraft = async (
+  formId: string,
+  draftToSave: SaveFormDraftBodyDto,
+): Promise<FormDraftSavedDto> => {
+  return ApiService.post<FormDraftSavedDto>(
+    `${PUBLIC_FORMS_ENDPOINT}/${formId}/drafts`,
+    draftToSave,
+  ).then(({ data }) => data)
+}
+
+/**
+ * Gets the respondent's draft of a form.
+ * @param formId the id of the form to get the draft of
+ * @param draftKey the key of the draft from the resume link, for forms without authentication
+ * @returns the draft responses and expiry
+ */
+export const getFormDraft = async (
+  formId: string,
+  draftKey?: string,
+): Promise<FormDraftDto> => {
+  return ApiService.post<FormDraftDto>(
+    `${PUBLIC_FORMS_ENDPOINT}/${formId}/drafts/resume`,
+    { draftKey },
+  ).then(({ data }) => data)
+}
+
+/**
+ * Discards the respondent's draft of a form.
+ * @param formId the id of the form to discard the draft of
+ * @param draftKey the key of the draft from the resume link, for forms without authentication
+ * @returns success message
+ */
+export const discardFormDraft = async (
+  formId: string,
+  draftKey?: string,
+): Promise<SuccessMessageDto> => {
+  return ApiService.delete<SuccessMessageDto>(
+    `${PUBLIC_FORMS_ENDPOINT}/${formId}/drafts`,
+    { data: { draftKey } },
+  ).then(({ data }) => data)
+}
@@ -0,0 +1,101 @@
+import { useCallback } from 'react'
+import { useFormContext } from 'react-hook-form'
+import { useSearchParams } from 'react-router-dom'
+import { useDisclosure } from '@chakra-ui/react'
+import { format } from 'date-fns'
+
+import { FormDraftSavedDto } from '~shared/types'
+import { FormFieldDto } from '~shared/types/field'
+
+import { ThemeColorScheme } from '~theme/foundations/colours'
+import { useIsMobile } from '~hooks/useIsMobile'
+import { useToast } from '~hooks/useToast'
+import Button from '~components/Button'
+import { FormFieldValues } from '~templates/Field'
+
+import { usePublicFormDraftMutations } from '../../mutations'
+import { usePublicFormContext } from '../../PublicFormContext'
+import { getDraftResponses } from '../../utils'
+
+import { DRAFT_KEY_SEARCH_PARAM, LOGIN_DRAFT_AUTH_TYPES } from './constants'
+import { SaveDraftModal } from './SaveDraftModal'
+
+interface SaveDraftButtonProps {
+  formFields: FormFieldDto[]
+  colorTheme: string
+}
+
+export const SaveDraftButton = ({
+  formFields,
+  colorTheme,
+}: SaveDraftButtonProps): JSX.Element => {
+  const isMobile = useIsMobile()
+  const toast = useToast({ status: 'success', isClosable: true })
+  const { isOpen, onOpen, onClose } = useDisclosure()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { form, formId } = usePublicFormContext()
+  const { getValues } = useFormContext<FormFieldValues>()
+  const { saveFormDraftMutation } = usePublicFormDraftMutations(formId)
+
+  const draftKey = searchParams.get(DRAFT_KEY_SEARCH_PARAM) ?? undefined
+  const isLoginDraft = !!form && LOGIN_DRAFT_AUTH_TYPES.includes(form.authType)
+
+  const handleSaved = useCallback(
+    ({ draftKey: newDraftKey, expireAt }: FormDraftSavedDto) => {
+      if (newDraftKey) {
+        // Keep the key of new drafts so that further saves update the draft.
+        searchParams.set(DRAFT_KEY_SEARCH_PARAM, newDraftKey)
+        setSearchParams(searchParams, { replace: true })
+      }
+      onClose()
+      toast({
+        description: `Your draft has been saved until ${format(
+          new Date(expireAt),
+          'd MMM yyyy',
+        )}.${newDraftKey ? ' We have emailed you a link to continue.' : ''}`,
+      })
+    },
+    [onClose, searchParams, setSearchParams, toast],
+  )
+
+  const saveDraft = useCallback(
+    (email?: string) =>
+      saveFormDraftMutation.mutate(
+        {
+          responses: getDraftResponses(formFields, getValues()),
+          email,
+          draftKey,
+        },
+        { onSuccess: handleSaved },
+      ),
+    [draftKey, formFields, getValues, handleSaved, saveFormDraftMutation],
+  )
+
+  const handleClick = useCallback(() => {
+    // Drafts of authenticated forms are tied to the respondent's login, and
+    // existing drafts are updated with their key.
+    if (isLoginDraft || draftKey) return saveDraft()
+    onOpen()
+  }, [draftKey, isLoginDraft, onOpen, saveDraft])
+
+  return (
+    <>
+      <Button
+        isFullWidth={isMobile}
+        w="100%"
+        variant="outline"
+        colorScheme={`theme-${colorTheme}` as ThemeColorScheme}
+        isLoading={saveFormDraftMutation.isLoading && !isOpen}
+        onClick={handleClick}
+      >
+        Save draft
+      </Button>
+      <SaveDraftModal
+        isOpen={isOpen}
+        onClose={onClose}
+        isSaving={saveFormDraftMutation.isLoading}
+        onSave={saveDraft}
+      />
+    </>
+  )
+}
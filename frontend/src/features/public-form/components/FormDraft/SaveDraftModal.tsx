@@ -0,0 +1,117 @@
+import { useForm } from 'react-hook-form'
+import {
+  chakra,
+  FormControl,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Stack,
+  Text,
+  useBreakpointValue,
+} from '@chakra-ui/react'
+import isEmail from 'validator/lib/isEmail'
+
+import { BasicField } from '~shared/types'
+
+import { INVALID_EMAIL_ERROR, REQUIRED_ERROR } from '~constants/validation'
+import { useIsMobile } from '~hooks/useIsMobile'
+import Button from '~components/Button'
+import FormErrorMessage from '~components/FormControl/FormErrorMessage'
+import FormLabel from '~components/FormControl/FormLabel'
+import Input from '~components/Input'
+import { ModalCloseButton } from '~components/Modal'
+
+type SaveDraftInputs = {
+  email: string
+}
+
+export interface SaveDraftModalProps {
+  isOpen: boolean
+  onClose: () => void
+  isSaving: boolean
+  onSave: (email: string) => void
+}
+
+export const SaveDraftModal = ({
+  isOpen,
+  onClose,
+  isSaving,
+  onSave,
+}: SaveDraftModalProps): JSX.Element => {
+  const modalSize = useBreakpointValue({
+    base: 'mobile',
+    xs: 'mobile',
+    md: 'md',
+  })
+  const isMobile = useIsMobile()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<SaveDraftInputs>({ defaultValues: { email: '' } })
+
+  const handleSave = handleSubmit(({ email }) => onSave(email))
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size={modalSize}>
+      <ModalOverlay />
+      <ModalContent>
+        <ModalCloseButton />
+        <chakra.form noValidate onSubmit={handleSave}>
+          <ModalHeader
+            pt="2rem"
+            pb={{ base: '1.625rem', xs: '2rem' }}
+            pr="4rem"
+          >
+            <Text textStyle={{ base: '1.25rem', md: '1.5rem' }}>
+              Save your draft
+            </Text>
+          </ModalHeader>
+          <ModalBody>
+            <Text pb="1.5rem" textStyle="body-2" mt="0">
+              We will email you a link to continue filling in this form. Anyone
+              with the link can view your saved responses, so do not share it.
+              Attachments are not saved.
+            </Text>
+            <FormControl isInvalid={!!errors.email}>
+              <FormLabel isRequired>Email</FormLabel>
+              <Input
+                type={BasicField.Email}
+                placeholder="me@example.com"
+                {...register('email', {
+                  required: REQUIRED_ERROR,
+                  validate: {
+                    validEmail: (value) =>
+                      isEmail(value) || INVALID_EMAIL_ERROR,
+                  },
+                })}
+              />
+              <FormErrorMessage>
+                {errors.email && errors.email.message}
+              </FormErrorMessage>
+            </FormControl>
+          </ModalBody>
+          <ModalFooter mt={{ base: '2.5rem', md: '0' }}>
+            <Stack
+              w="100%"
+              spacing="1rem"
+              justify="right"
+              direction={{ base: 'column-reverse', md: 'row' }}
+            >
+              <Button isFullWidth={isMobile} variant="clear" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button isFullWidth={isMobile} type="submit" isLoading={isSaving}>
+                Save and email link
+              </Button>
+            </Stack>
+          </ModalFooter>
+        </chakra.form>
+      </ModalContent>
+    </Modal>
+  )
+}
@@ -0,0 +1,14 @@
+import { FormAuthType } from '~shared/types/form'
+
+/** Search param containing the key of drafts of forms without authentication. */
+export const DRAFT_KEY_SEARCH_PARAM = 'draft'
+
+/**
+ * Authentication types whose drafts are tied to the respondent's login instead
+ * of a link. Must be kept in sync with the draft service on the server.
+ */
+export const LOGIN_DRAFT_AUTH_TYPES = [
+  FormAuthType.SP,
+  FormAuthType.CP,
+  FormAuthType.SGID,
+]
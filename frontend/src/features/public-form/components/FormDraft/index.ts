@@ -0,0 +1,2 @@
+export { DRAFT_KEY_SEARCH_PARAM, LOGIN_DRAFT_AUTH_TYPES } from './constants'
+export { SaveDraftButton } from './SaveDraftButton'
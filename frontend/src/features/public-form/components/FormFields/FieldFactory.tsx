@@ -1,10 +1,13 @@
 import { memo } from 'react'
+import { isEqual } from 'lodash'
 
 import { BasicField } from '~shared/types/field'
 import { FormColorTheme } from '~shared/types/form'
+import { getOptionsTranslation } from '~shared/utils/translation'
 
 import {
   AttachmentField,
+  CalculationField,
   CheckboxField,
   ChildrenCompoundField,
   DateField,
@@ -48,20 +51,42 @@ interface FieldFactoryProps {
 
 export const FieldFactory = memo(
   ({ field, ...rest }: FieldFactoryProps) => {
-    const { myInfoChildrenBirthRecords } = usePublicFormContext()
+    const { myInfoChildrenBirthRecords, language } = usePublicFormContext()
     switch (field.fieldType) {
       case BasicField.Section:
         return <SectionField schema={field} {...rest} />
       case BasicField.Checkbox:
-        return <CheckboxField schema={field} {...rest} />
+        return (
+          <CheckboxField
+            schema={field}
+            optionLabels={getOptionsTranslation(
+              field.fieldOptions,
+              field.fieldOptionsTranslations,
+              language,
+            )}
+            {...rest}
+          />
+        )
       case BasicField.Radio:
-        return <RadioField schema={field} {...rest} />
+        return (
+          <RadioField
+            schema={field}
+            optionLabels={getOptionsTranslation(
+              field.fieldOptions,
+              field.fieldOptionsTranslations,
+              language,
+            )}
+            {...rest}
+          />
+        )
       case BasicField.Nric:
         return <NricField schema={field} {...rest} />
       case BasicField.Number:
         return <NumberField schema={field} {...rest} />
       case BasicField.Decimal:
         return <DecimalField schema={field} {...rest} />
+      case BasicField.Calculation:
+        return <CalculationField schema={field} {...rest} />
       case BasicField.ShortText:
         return <ShortTextField schema={field} {...rest} />
       case BasicField.LongText:
@@ -69,7 +94,17 @@ export const FieldFactory = memo(
       case BasicField.YesNo:
         return <YesNoField schema={field} {...rest} />
       case BasicField.Dropdown:
-        return <DropdownField schema={field} {...rest} />
+        return (
+          <DropdownField
+            schema={field}
+            optionLabels={getOptionsTranslation(
+              field.fieldOptions,
+              field.fieldOptionsTranslations,
+              language,
+            )}
+            {...rest}
+          />
+        )
       case BasicField.Date:
         return <DateField schema={field} {...rest} />
       case BasicField.Uen:
@@ -118,5 +153,8 @@ export const FieldFactory = memo(
   },
   (prevProps, nextProps) =>
     prevProps.field._id === nextProps.field._id &&
-    prevProps.field.questionNumber === nextProps.field.questionNumber,
+    prevProps.field.questionNumber === nextProps.field.questionNumber &&
+    // Logic can make fields required and set their values.
+    prevProps.field.required === nextProps.field.required &&
+    isEqual(prevProps.prefill, nextProps.prefill),
 )
@@ -1,5 +1,10 @@
-import { useEffect, useMemo } from 'react'
-import { FormProvider, SubmitHandler, useForm } from 'react-hook-form'
+import { useCallback, useEffect, useMemo } from 'react'
+import {
+  FormProvider,
+  SubmitErrorHandler,
+  SubmitHandler,
+  useForm,
+} from 'react-hook-form'
 import { useSearchParams } from 'react-router-dom'
 import { Box, Stack } from '@chakra-ui/react'
 import { isEmpty, times } from 'lodash'
@@ -18,10 +23,15 @@ import {
 } from '~features/myinfo/utils'
 import { useFetchPrefillQuery } from '~features/public-form/hooks/useFetchPrefillQuery'
 import { usePublicFormContext } from '~features/public-form/PublicFormContext'
+import { usePublicFormDraft } from '~features/public-form/queries'
+
+import { DRAFT_KEY_SEARCH_PARAM, LOGIN_DRAFT_AUTH_TYPES } from '../FormDraft'
 
 import { PaymentPreview } from '../../../../templates/Field/PaymentPreview/PaymentPreview'
 import { PublicFormPaymentResumeModal } from '../FormPaymentPage/FormPaymentResumeModal'
 
+import { FormPageProgress } from './FormPageProgress'
+import { useFormPages } from './FormPagesContext'
 import { PublicFormSubmitButton } from './PublicFormSubmitButton'
 import { VisibleFormFields } from './VisibleFormFields'
 
@@ -47,6 +57,18 @@ export const FormFields = ({
 }: FormFieldsProps): JSX.Element => {
   useFetchPrefillQuery()
   const [searchParams] = useSearchParams()
+  const { form, formId, isPreview } = usePublicFormContext()
+
+  // Drafts are resumed with the key from the link emailed to the respondent,
+  // or with the respondent's login for authenticated forms.
+  const draftKey = searchParams.get(DRAFT_KEY_SEARCH_PARAM) ?? undefined
+  const { data: draft } = usePublicFormDraft(
+    formId,
+    draftKey,
+    /* enabled= */ !isPreview &&
+      (!!draftKey ||
+        (!!form && LOGIN_DRAFT_AUTH_TYPES.includes(form.authType))),
+  )
 
   const fieldPrefillMap = useMemo(() => {
     // Return object containing field id and query param value only if id exists in form fields.
@@ -71,7 +93,7 @@ export const FormFields = ({
   )
 
   const defaultFormValues = useMemo(() => {
-    return augmentedFormFields.reduce<FormFieldValues>((acc, field) => {
+    const values = augmentedFormFields.reduce<FormFieldValues>((acc, field) => {
       // If server returns field with default value, use that.
       if (hasExistingFieldValue(field)) {
         acc[field._id] = extractPreviewValue(field)
@@ -95,7 +117,9 @@ export const FormFields = ({
       }
       return acc
     }, {})
-  }, [augmentedFormFields, fieldPrefillMap])
+    // Answers in the respondent's draft take precedence over prefilled values.
+    return { ...values, ...(draft?.responses as FormFieldValues | undefined) }
+  }, [augmentedFormFields, draft, fieldPrefillMap])
 
   const formMethods = useForm<FormFieldValues>({
     defaultValues: defaultFormValues,
@@ -115,7 +139,19 @@ export const FormFields = ({
     }
   }, [defaultFormValues, isDirty, reset])
 
-  const { form } = usePublicFormContext()
+  const { isMultiPage, visiblePageIndices, currentPageIndex, goToFieldPage } =
+    useFormPages()
+
+  const isLastPage =
+    !isMultiPage ||
+    visiblePageIndices.every((pageIndex) => pageIndex <= currentPageIndex)
+
+  // Show the page with the first invalid field, which may be on another page
+  // if answers on earlier pages were changed.
+  const handleInvalidSubmit: SubmitErrorHandler<FormFieldValues> = useCallback(
+    (errors) => goToFieldPage(Object.keys(errors)),
+    [goToFieldPage],
+  )
 
   const hasLockedPrefills = Object.values(fieldPrefillMap).some(
     (field) => field.lockPrefill && field.prefillValue,
@@ -133,6 +169,9 @@ export const FormFields = ({
         {!!formFields?.length && (
           <Box bg="white" py="2.5rem" px={{ base: '1rem', md: '2.5rem' }}>
             <Stack spacing="2.25rem">
+              {isMultiPage ? (
+                <FormPageProgress colorTheme={colorTheme} />
+              ) : null}
               {isEmpty(fieldPrefillMap) ? null : hasLockedNormalPrefills ? (
                 // If there are both locked and non-locked prefills, show this message.
                 <InlineMessage variant="warning">
@@ -163,7 +202,8 @@ export const FormFields = ({
             </Stack>
           </Box>
         )}
-        {form?.responseMode === FormResponseMode.Encrypt &&
+        {isLastPage &&
+          form?.responseMode === FormResponseMode.Encrypt &&
           form?.payments_field.enabled && (
             <Box
               mt="2.5rem"
@@ -179,7 +219,11 @@ export const FormFields = ({
           )}
         <PublicFormPaymentResumeModal />
         <PublicFormSubmitButton
-          onSubmit={onSubmit ? formMethods.handleSubmit(onSubmit) : undefined}
+          onSubmit={
+            onSubmit
+              ? formMethods.handleSubmit(onSubmit, handleInvalidSubmit)
+              : undefined
+          }
           formFields={augmentedFormFields}
           formLogics={formLogics}
           colorTheme={colorTheme}
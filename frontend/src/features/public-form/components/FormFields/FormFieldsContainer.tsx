@@ -8,6 +8,7 @@ import { usePublicFormContext } from '~features/public-form/PublicFormContext'
 import { FormAuth } from '../FormAuth'
 
 import { FormFields } from './FormFields'
+import { FormPagesProvider } from './FormPagesContext'
 import { FormFieldsSkeleton } from './FormFieldsSkeleton'
 
 export const FormFieldsContainer = (): JSX.Element | null => {
@@ -31,12 +32,17 @@ export const FormFieldsContainer = (): JSX.Element | null => {
     }
 
     return (
-      <FormFields
+      <FormPagesProvider
         formFields={form.form_fields}
-        formLogics={form.form_logics}
-        colorTheme={form.startPage.colorTheme}
-        onSubmit={handleSubmitForm}
-      />
+        isMultiPage={form.isMultiPage}
+      >
+        <FormFields
+          formFields={form.form_fields}
+          formLogics={form.form_logics}
+          colorTheme={form.startPage.colorTheme}
+          onSubmit={handleSubmitForm}
+        />
+      </FormPagesProvider>
     )
   }, [form, handleSubmitForm, isAuthRequired, isLoading])
 
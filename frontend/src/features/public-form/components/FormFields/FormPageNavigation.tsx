@@ -0,0 +1,88 @@
+import { useCallback } from 'react'
+import { UseFormTrigger } from 'react-hook-form'
+import { Stack } from '@chakra-ui/react'
+
+import { ThemeColorScheme } from '~theme/foundations/colours'
+import { useIsMobile } from '~hooks/useIsMobile'
+import Button from '~components/Button'
+import { FormFieldValues } from '~templates/Field'
+
+import { useFormPages } from './FormPagesContext'
+
+interface FormPageNavigationProps {
+  colorTheme: string
+  trigger: UseFormTrigger<FormFieldValues>
+  /** Whether the respondent is on the last page, where the form is submitted. */
+  isLastPage: boolean
+}
+
+/**
+ * Back and next buttons of multi-page forms. Respondents can only go to the
+ * next page once the fields on the current page are valid.
+ */
+export const FormPageNavigation = ({
+  colorTheme,
+  trigger,
+  isLastPage,
+}: FormPageNavigationProps): JSX.Element => {
+  const isMobile = useIsMobile()
+  const {
+    pages,
+    visiblePageIndices,
+    currentPageIndex,
+    visibleFieldIds,
+    goToPage,
+  } = useFormPages()
+
+  // Pages hidden by logic are skipped in both directions.
+  const previousPageIndex = visiblePageIndices
+    .filter((index) => index < currentPageIndex)
+    .pop()
+  const nextPageIndex = visiblePageIndices.find(
+    (index) => index > currentPageIndex,
+  )
+
+  const handleNext = useCallback(async () => {
+    if (nextPageIndex === undefined) return
+    const currentPageFieldIds = pages[currentPageIndex].fieldIds.filter(
+      (fieldId) => visibleFieldIds?.has(fieldId),
+    )
+    const isPageValid = await trigger(currentPageFieldIds, {
+      shouldFocus: true,
+    })
+    if (isPageValid) goToPage(nextPageIndex)
+  }, [
+    currentPageIndex,
+    goToPage,
+    nextPageIndex,
+    pages,
+    trigger,
+    visibleFieldIds,
+  ])
+
+  return (
+    <Stack direction={{ base: 'column-reverse', md: 'row' }} spacing="1rem">
+      {previousPageIndex !== undefined ? (
+        <Button
+          isFullWidth={isMobile}
+          w="100%"
+          variant="outline"
+          colorScheme={`theme-${colorTheme}` as ThemeColorScheme}
+          onClick={() => goToPage(previousPageIndex)}
+        >
+          Back
+        </Button>
+      ) : null}
+      {isLastPage ? null : (
+        <Button
+          isFullWidth={isMobile}
+          w="100%"
+          colorScheme={`theme-${colorTheme}` as ThemeColorScheme}
+          onClick={handleNext}
+        >
+          Next
+        </Button>
+      )}
+    </Stack>
+  )
+}
@@ -0,0 +1,35 @@
+import { Progress, Stack, Text } from '@chakra-ui/react'
+
+import { FormColorTheme } from '~shared/types/form'
+
+import { ThemeColorScheme } from '~theme/foundations/colours'
+
+import { useFormPages } from './FormPagesContext'
+
+interface FormPageProgressProps {
+  colorTheme: FormColorTheme
+}
+
+export const FormPageProgress = ({
+  colorTheme,
+}: FormPageProgressProps): JSX.Element | null => {
+  const { visiblePageIndices, currentPageIndex } = useFormPages()
+
+  const pageNumber = visiblePageIndices.indexOf(currentPageIndex) + 1
+  const numPages = visiblePageIndices.length
+
+  if (numPages <= 1 || pageNumber === 0) return null
+
+  return (
+    <Stack spacing="0.5rem">
+      <Text textStyle="caption-1" color="secondary.500">
+        Page {pageNumber} of {numPages}
+      </Text>
+      <Progress
+        aria-label={`Page ${pageNumber} of ${numPages}`}
+        value={(pageNumber / numPages) * 100}
+        colorScheme={`theme-${colorTheme}` as ThemeColorScheme}
+      />
+    </Stack>
+  )
+}
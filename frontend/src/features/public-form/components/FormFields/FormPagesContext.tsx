@@ -0,0 +1,151 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+
+import { FormFieldDto } from '~shared/types/field'
+
+import { FieldIdSet } from '~features/logic/types'
+import { usePublicFormContext } from '~features/public-form/PublicFormContext'
+import {
+  FormPage,
+  getFormPages,
+  isPageVisible,
+} from '~features/public-form/utils/formPages'
+
+interface FormPagesContextProps {
+  /** Whether the form is split into pages at each section. */
+  isMultiPage: boolean
+  pages: FormPage[]
+  /** Indices of the pages shown to the respondent, given the current logic. */
+  visiblePageIndices: number[]
+  currentPageIndex: number
+  /** Ids of the fields on the current page, including its section. */
+  currentPageFieldIds?: FieldIdSet
+  /** Ids of the fields currently visible, given the current logic. */
+  visibleFieldIds?: FieldIdSet
+  setVisibleFieldIdsForPages: (visibleFieldIds: FieldIdSet) => void
+  goToPage: (pageIndex: number) => void
+  /** Navigates to the first page containing any of the given fields. */
+  goToFieldPage: (fieldIds: string[]) => void
+}
+
+const FormPagesContext = createContext<FormPagesContextProps | undefined>(
+  undefined,
+)
+
+interface FormPagesProviderProps {
+  formFields: FormFieldDto[]
+  isMultiPage: boolean
+  children: React.ReactNode
+}
+
+export const FormPagesProvider = ({
+  formFields,
+  isMultiPage,
+  children,
+}: FormPagesProviderProps): JSX.Element => {
+  const { setPageVisits } = usePublicFormContext()
+  const [visibleFieldIds, setVisibleFieldIds] = useState<FieldIdSet>()
+  const [currentPageIndex, setCurrentPageIndex] = useState(0)
+
+  const pages = useMemo(
+    () => (isMultiPage ? getFormPages(formFields) : []),
+    [formFields, isMultiPage],
+  )
+
+  const visiblePageIndices = useMemo(() => {
+    if (!visibleFieldIds) return []
+    return pages.reduce<number[]>((indices, page, index) => {
+      if (isPageVisible(page, visibleFieldIds)) indices.push(index)
+      return indices
+    }, [])
+  }, [pages, visibleFieldIds])
+
+  const currentPageFieldIds = useMemo(() => {
+    const currentPage = pages[currentPageIndex]
+    if (!currentPage) return
+    const fieldIds = new Set(currentPage.fieldIds)
+    if (currentPage.sectionId) fieldIds.add(currentPage.sectionId)
+    return fieldIds
+  }, [currentPageIndex, pages])
+
+  const enterPage = useCallback(
+    (pageIndex: number) => {
+      setCurrentPageIndex(pageIndex)
+      setPageVisits?.((visits) =>
+        visits.concat({
+          sectionId: pages[pageIndex]?.sectionId,
+          enteredAt: Date.now(),
+        }),
+      )
+    },
+    [pages, setPageVisits],
+  )
+
+  const goToPage = useCallback(
+    (pageIndex: number) => {
+      enterPage(pageIndex)
+      window.scrollTo(0, 0)
+    },
+    [enterPage],
+  )
+
+  const goToFieldPage = useCallback(
+    (fieldIds: string[]) => {
+      const pageIndex = pages.findIndex((page) =>
+        fieldIds.some(
+          (fieldId) =>
+            page.sectionId === fieldId || page.fieldIds.includes(fieldId),
+        ),
+      )
+      if (pageIndex !== -1 && pageIndex !== currentPageIndex) {
+        goToPage(pageIndex)
+      }
+    },
+    [currentPageIndex, goToPage, pages],
+  )
+
+  // Start on the first page shown to the respondent.
+  const [hasStarted, setHasStarted] = useState(false)
+  const firstVisiblePageIndex = visiblePageIndices[0]
+  useEffect(() => {
+    if (!isMultiPage || hasStarted || firstVisiblePageIndex === undefined) {
+      return
+    }
+    setHasStarted(true)
+    enterPage(firstVisiblePageIndex)
+  }, [enterPage, firstVisiblePageIndex, hasStarted, isMultiPage])
+
+  return (
+    <FormPagesContext.Provider
+      value={{
+        isMultiPage,
+        pages,
+        visiblePageIndices,
+        currentPageIndex,
+        currentPageFieldIds: isMultiPage ? currentPageFieldIds : undefined,
+        visibleFieldIds,
+        setVisibleFieldIdsForPages: setVisibleFieldIds,
+        goToPage,
+        goToFieldPage,
+      }}
+    >
+      {children}
+    </FormPagesContext.Provider>
+  )
+}
+
+export const useFormPages = (): FormPagesContextProps => {
+  const context = useContext(FormPagesContext)
+  if (!context) {
+    throw new Error(
+      `useFormPages must be used within a FormPagesProvider component`,
+    )
+  }
+  return context
+}
@@ -14,10 +14,14 @@ import { FormFieldValues, VerifiableFieldValues } from '~templates/Field'
 import { getLogicUnitPreventingSubmit } from '~features/logic/utils'
 
 import { usePublicFormContext } from '../../PublicFormContext'
+import { SaveDraftButton } from '../FormDraft'
 import { DuplicatePaymentModal } from '../DuplicatePaymentModal/DuplicatePaymentModal'
 import { FormPaymentModal } from '../FormPaymentModal/FormPaymentModal'
 import { getPreviousPaymentId } from '../FormPaymentPage/FormPaymentService'
 
+import { FormPageNavigation } from './FormPageNavigation'
+import { useFormPages } from './FormPagesContext'
+
 interface PublicFormSubmitButtonProps {
   formFields: MyInfoFormField<FormField>[]
   formLogics: LogicDto[]
@@ -43,6 +47,12 @@ export const PublicFormSubmitButton = ({
   const { isSubmitting } = useFormState()
   const formInputs = useWatch<FormFieldValues>({}) as FormFieldValues
   const { formId, isPaymentEnabled, isPreview } = usePublicFormContext()
+  const { isMultiPage, visiblePageIndices, currentPageIndex } = useFormPages()
+
+  // The form is only submitted from the last page of multi-page forms.
+  const isLastPage =
+    !isMultiPage ||
+    visiblePageIndices.every((pageIndex) => pageIndex <= currentPageIndex)
 
   const paymentEmailField = formInputs[
     PAYMENT_CONTACT_FIELD_ID
@@ -96,28 +106,44 @@ export const PublicFormSubmitButton = ({
           />
         )
       ) : null}
-      <Button
-        isFullWidth={isMobile}
-        w="100%"
-        colorScheme={`theme-${colorTheme}` as ThemeColorScheme}
-        type="button"
-        isLoading={isSubmitting}
-        isDisabled={!!preventSubmissionLogic || !onSubmit}
-        loadingText="Submitting"
-        onClick={isPaymentEnabled && !isPreview ? checkBeforeOpen : onSubmit}
-      >
-        <VisuallyHidden>End of form.</VisuallyHidden>
-        {preventSubmissionLogic
-          ? 'Submission disabled'
-          : isPaymentEnabled
-          ? 'Proceed to pay'
-          : 'Submit now'}
-      </Button>
-      {preventSubmissionLogic ? (
-        <InlineMessage variant="warning">
-          {preventSubmissionLogic.preventSubmitMessage}
-        </InlineMessage>
+      {isMultiPage ? (
+        <FormPageNavigation
+          colorTheme={colorTheme}
+          trigger={trigger}
+          isLastPage={isLastPage}
+        />
+      ) : null}
+      {isLastPage ? (
+        <>
+          <Button
+            isFullWidth={isMobile}
+            w="100%"
+            colorScheme={`theme-${colorTheme}` as ThemeColorScheme}
+            type="button"
+            isLoading={isSubmitting}
+            isDisabled={!!preventSubmissionLogic || !onSubmit}
+            loadingText="Submitting"
+            onClick={
+              isPaymentEnabled && !isPreview ? checkBeforeOpen : onSubmit
+            }
+          >
+            <VisuallyHidden>End of form.</VisuallyHidden>
+            {preventSubmissionLogic
+              ? 'Submission disabled'
+              : isPaymentEnabled
+              ? 'Proceed to pay'
+              : 'Submit now'}
+          </Button>
+          {preventSubmissionLogic ? (
+            <InlineMessage variant="warning">
+              {preventSubmissionLogic.preventSubmitMessage}
+            </InlineMessage>
+          ) : null}
+        </>
       ) : null}
+      {isPreview ? null : (
+        <SaveDraftButton formFields={formFields} colorTheme={colorTheme} />
+      )}
     </Stack>
   )
 }
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react'
-import { Control, useWatch } from 'react-hook-form'
+import { Control, useFormContext, useWatch } from 'react-hook-form'
+import { Box } from '@chakra-ui/react'
 
 import { FormColorTheme, LogicDto } from '~shared/types/form'
 
@@ -7,11 +8,17 @@ import { FormFieldValues } from '~templates/Field'
 
 import { FormFieldWithQuestionNo } from '~features/form/types'
 import { augmentWithQuestionNo } from '~features/form/utils'
-import { getVisibleFieldIds } from '~features/logic/utils'
+import {
+  getLogicFieldValues,
+  getLogicRequiredFieldIds,
+  getVisibleFieldIds,
+} from '~features/logic/utils'
 import { usePublicFormContext } from '~features/public-form/PublicFormContext'
+import { getCalculatedFieldValues } from '~features/public-form/utils/getCalculatedFieldValues'
 
 import { FieldFactory } from './FieldFactory'
 import { PrefillMap } from './FormFields'
+import { useFormPages } from './FormPagesContext'
 import { useFormSections } from './FormSectionsContext'
 
 interface VisibleFormFieldsProps {
@@ -35,7 +42,15 @@ export const VisibleFormFields = ({
 }: VisibleFormFieldsProps) => {
   const watchedValues = useWatch({ control })
   const { setVisibleFieldIdsForScrollData } = useFormSections()
+  const { currentPageFieldIds, setVisibleFieldIdsForPages } = useFormPages()
   const [visibleFormFields, setVisibleFormFields] = useState(formFields)
+  const [logicFieldValues, setLogicFieldValues] = useState<Map<string, string>>(
+    new Map(),
+  )
+  const [calculatedFieldValues, setCalculatedFieldValues] = useState<
+    Map<string, string>
+  >(new Map())
+  const { getValues, setValue } = useFormContext<FormFieldValues>()
   const { setNumVisibleFields } = usePublicFormContext()
 
   useEffect(() => {
@@ -44,9 +59,29 @@ export const VisibleFormFields = ({
       formLogics,
     })
     setVisibleFieldIdsForScrollData(visibleFieldIds)
-    const visibleFields = formFields.filter((field) =>
-      visibleFieldIds.has(field._id),
+    setVisibleFieldIdsForPages(visibleFieldIds)
+    const logicRequiredFieldIds = getLogicRequiredFieldIds(watchedValues, {
+      formFields,
+      formLogics,
+      visibleFieldIds,
+    })
+    setLogicFieldValues(
+      getLogicFieldValues(watchedValues, {
+        formFields,
+        formLogics,
+        visibleFieldIds,
+      }),
     )
+    setCalculatedFieldValues(
+      getCalculatedFieldValues(watchedValues, { formFields, visibleFieldIds }),
+    )
+    const visibleFields = formFields
+      .filter((field) => visibleFieldIds.has(field._id))
+      .map((field) =>
+        logicRequiredFieldIds.has(field._id)
+          ? { ...field, required: true }
+          : field,
+      )
     const visibleFieldsWithQuestionNo = augmentWithQuestionNo(visibleFields)
     setVisibleFormFields(visibleFieldsWithQuestionNo)
 
@@ -58,20 +93,54 @@ export const VisibleFormFields = ({
     formFields,
     formLogics,
     setVisibleFieldIdsForScrollData,
+    setVisibleFieldIdsForPages,
     watchedValues,
     setNumVisibleFields,
   ])
 
+  // Apply values set by logic and calculated values. Only fields whose values
+  // differ are set, so that the resulting rerender does not set them again.
+  useEffect(() => {
+    const applyValue = (value: string, fieldId: string) => {
+      if (getValues(fieldId) !== value) {
+        setValue(fieldId, value, { shouldValidate: true })
+      }
+    }
+    logicFieldValues.forEach(applyValue)
+    calculatedFieldValues.forEach(applyValue)
+  }, [calculatedFieldValues, getValues, logicFieldValues, setValue])
+
   return (
     <>
-      {visibleFormFields.map((field) => (
-        <FieldFactory
-          colorTheme={colorTheme}
-          field={field}
-          key={field._id}
-          prefill={fieldPrefillMap[field._id]}
-        />
-      ))}
+      {visibleFormFields.map((field) => {
+        const fieldFactory = (
+          <FieldFactory
+            colorTheme={colorTheme}
+            field={field}
+            key={field._id}
+            prefill={
+              logicFieldValues.has(field._id)
+                ? {
+                    prefillValue: logicFieldValues.get(field._id) ?? '',
+                    lockPrefill: true,
+                  }
+                : fieldPrefillMap[field._id]
+            }
+          />
+        )
+        // Fields on other pages of multi-page forms are hidden instead of
+        // unmounted, so that they are still validated on submission.
+        return currentPageFieldIds ? (
+          <Box
+            key={field._id}
+            display={currentPageFieldIds.has(field._id) ? undefined : 'none'}
+          >
+            {fieldFactory}
+          </Box>
+        ) : (
+          fieldFactory
+        )
+      })}
     </>
   )
 }
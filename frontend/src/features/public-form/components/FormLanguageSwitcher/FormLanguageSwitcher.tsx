@@ -0,0 +1,59 @@
+import { useCallback, useMemo } from 'react'
+import { Box, Flex, FormControl } from '@chakra-ui/react'
+
+import { Language } from '~shared/types/form'
+
+import { LANGUAGE_LABELS } from '~constants/languages'
+import { SingleSelect } from '~components/Dropdown/SingleSelect'
+import FormLabel from '~components/FormControl/FormLabel'
+
+import { usePublicFormContext } from '~features/public-form/PublicFormContext'
+
+export const FormLanguageSwitcher = (): JSX.Element | null => {
+  const { form, submissionData, language, setLanguage } = usePublicFormContext()
+
+  const languageItems = useMemo(
+    () =>
+      [Language.English, ...(form?.supportedLanguages ?? [])].map((value) => ({
+        value,
+        label: LANGUAGE_LABELS[value],
+      })),
+    [form?.supportedLanguages],
+  )
+
+  const handleChange = useCallback(
+    (value: string) => {
+      // Fall back to English if the selection is cleared.
+      setLanguage?.((value as Language) || Language.English)
+    },
+    [setLanguage],
+  )
+
+  if (
+    submissionData ||
+    !setLanguage ||
+    !form?.supportedLanguages ||
+    form.supportedLanguages.length === 0
+  ) {
+    return null
+  }
+
+  return (
+    <Flex justify="center">
+      <Flex w="100%" maxW="57rem" justify="flex-end" mb="1.5rem">
+        <Box w={{ base: '100%', md: '16rem' }}>
+          <FormControl>
+            <FormLabel>Language</FormLabel>
+            <SingleSelect
+              name="formLanguage"
+              value={language ?? Language.English}
+              onChange={handleChange}
+              items={languageItems}
+              isClearable={false}
+            />
+          </FormControl>
+        </Box>
+      </Flex>
+    </Flex>
+  )
+}
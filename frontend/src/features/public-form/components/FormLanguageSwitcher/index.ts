@@ -0,0 +1 @@
+export { FormLanguageSwitcher as default } from './FormLanguageSwitcher'
@@ -0,0 +1,29 @@
+import { useWatch } from 'react-hook-form'
+
+import { dollarsToCents } from '~utils/payments'
+
+import { PaymentItemDetailsBlock } from './PaymentItemDetailsBlock'
+import { CalculatedItemDetailProps } from './types'
+
+/**
+ * Shows the amount to pay for variable payments whose amount is given by a
+ * calculation field, updating as the calculated value changes.
+ * @precondition Must have a parent `react-hook-form#FormProvider` component.
+ */
+export const CalculatedPaymentItemDetailsBlock = ({
+  calculationFieldId,
+  ...props
+}: CalculatedItemDetailProps): JSX.Element => {
+  const calculatedValue = useWatch({ name: calculationFieldId })
+
+  return (
+    <PaymentItemDetailsBlock
+      {...props}
+      paymentAmount={
+        calculatedValue
+          ? dollarsToCents(Number(calculatedValue).toFixed(2))
+          : undefined
+      }
+    />
+  )
+}
@@ -0,0 +1,133 @@
+import { useFormContext, useWatch } from 'react-hook-form'
+import {
+  Box,
+  Flex,
+  FormControl,
+  FormErrorMessage,
+  Stack,
+  Text,
+} from '@chakra-ui/react'
+
+import { PAYMENT_PRODUCT_QUANTITIES_FIELD_ID } from '~shared/constants'
+
+import { centsToDollars } from '~utils/payments'
+import Input from '~components/Input'
+
+import PaymentItemNameDescription from './PaymentItemNameDescription'
+import { ProductsItemDetailProps } from './types'
+
+type ProductQuantitiesInputs = {
+  [PAYMENT_PRODUCT_QUANTITIES_FIELD_ID]: string[]
+}
+
+/**
+ * Lets respondents choose the quantity of each product in the product
+ * catalogue, showing the total amount to pay.
+ * @precondition Must have a parent `react-hook-form#FormProvider` component.
+ */
+export const ProductsPaymentItemDetailsField = ({
+  paymentDescription,
+  paymentItemName,
+  colorTheme,
+  products,
+}: ProductsItemDetailProps): JSX.Element => {
+  const {
+    register,
+    getValues,
+    formState: { errors },
+  } = useFormContext<ProductQuantitiesInputs>()
+  const quantities: string[] | undefined = useWatch({
+    name: PAYMENT_PRODUCT_QUANTITIES_FIELD_ID,
+  })
+
+  const totalCents = products.reduce(
+    (total, { amount_cents }, index) =>
+      total + amount_cents * (Number(quantities?.[index]) || 0),
+    0,
+  )
+
+  return (
+    <Box>
+      <PaymentItemNameDescription
+        paymentDescription={paymentDescription}
+        paymentItemName={paymentItemName}
+      />
+      <Stack spacing="1rem">
+        {products.map(
+          ({ _id, name, description, amount_cents, ...qty }, index) => {
+            const minQuantity = Math.max(qty.min_qty, 1)
+            return (
+              <FormControl
+                key={_id}
+                isInvalid={
+                  !!errors[PAYMENT_PRODUCT_QUANTITIES_FIELD_ID]?.[index]
+                }
+              >
+                <Flex justify="space-between" align="center" gap="1rem">
+                  <Box>
+                    <Text textStyle="subhead-1">{name}</Text>
+                    {description ? (
+                      <Text textStyle="body-2">{description}</Text>
+                    ) : null}
+                    <Text textStyle="body-2" color="secondary.500">
+                      S${centsToDollars(amount_cents)} each
+                    </Text>
+                  </Box>
+                  <Input
+                    w="6rem"
+                    flexShrink={0}
+                    inputMode="numeric"
+                    placeholder="0"
+                    aria-label={`Quantity of ${name}`}
+                    {...register(
+                      `${PAYMENT_PRODUCT_QUANTITIES_FIELD_ID}.${index}`,
+                      {
+                        validate: (value) => {
+                          const quantity = Number(value || 0)
+                          if (
+                            index === 0 &&
+                            getValues(
+                              PAYMENT_PRODUCT_QUANTITIES_FIELD_ID,
+                            ).every((quantity) => !Number(quantity))
+                          ) {
+                            return 'Please select at least one product'
+                          }
+                          return (
+                            quantity === 0 ||
+                            (Number.isInteger(quantity) &&
+                              quantity >= minQuantity &&
+                              quantity <= qty.max_qty) ||
+                            `Please enter a quantity from ${minQuantity} to ${qty.max_qty}`
+                          )
+                        },
+                      },
+                    )}
+                  />
+                </Flex>
+                <FormErrorMessage>
+                  {
+                    errors[PAYMENT_PRODUCT_QUANTITIES_FIELD_ID]?.[index]
+                      ?.message
+                  }
+                </FormErrorMessage>
+              </FormControl>
+            )
+          },
+        )}
+      </Stack>
+      <Box
+        mt="1rem"
+        backgroundColor={`theme-${colorTheme}.100`}
+        borderWidth="1px"
+        borderColor={`theme-${colorTheme}.300`}
+        borderRadius="4px"
+        p="0.7rem"
+      >
+        <Text textStyle="subhead-1">Total</Text>
+        <Box as="h2" textStyle="h2">
+          S${centsToDollars(totalCents)}
+        </Box>
+      </Box>
+    </Box>
+  )
+}
@@ -1,5 +1,7 @@
+export * from './CalculatedPaymentItemDetailsBlock'
 export * from './CreatePaymentIntentFailureBlock'
 export * from './PaymentItemDetailsBlock'
 export * from './PaymentStack'
+export * from './ProductsPaymentItemDetailsField'
 export * from './PaymentSuccessSvgr'
 export * from './VariablePaymentItemDetailBlock'
@@ -1,4 +1,4 @@
-import { FormColorTheme } from '~shared/types'
+import { FormColorTheme, Product } from '~shared/types'
 
 export interface PaymentItemNameDescriptionProps {
   paymentItemName: string | undefined
@@ -16,3 +16,11 @@ export interface VariableItemDetailProps extends PaymentItemDetailsProps {
 export interface FixedItemDetailProps extends PaymentItemDetailsProps {
   paymentAmount: number | undefined
 }
+
+export interface CalculatedItemDetailProps extends PaymentItemDetailsProps {
+  calculationFieldId: string
+}
+
+export interface ProductsItemDetailProps extends PaymentItemDetailsProps {
+  products: Product[]
+}
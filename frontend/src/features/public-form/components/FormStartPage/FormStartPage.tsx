@@ -37,7 +37,8 @@ export const FormStartPage = ({
       showHeader={showHeaderAndMiniHeader}
       loggedInId={spcpSession?.userName}
       showMiniHeader={showHeaderAndMiniHeader}
-      activeSectionId={activeSectionId}
+      // Sections of multi-page forms are navigated as pages instead.
+      activeSectionId={form?.isMultiPage ? undefined : activeSectionId}
       miniHeaderRef={miniHeaderRef}
       onMobileDrawerOpen={onMobileDrawerOpen}
       handleLogout={handleLogout}
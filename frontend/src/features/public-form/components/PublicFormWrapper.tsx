@@ -34,17 +34,20 @@ export const PublicFormWrapper = ({
 }: PublicFormWrapperProps): JSX.Element => {
   const { form, isAuthRequired } = usePublicFormContext()
 
+  // Sections of multi-page forms are navigated as pages instead.
+  const showSectionSidebar = !isAuthRequired && !form?.isMultiPage
+
   const bgColour = useBgColor({
     colorTheme: form?.startPage.colorTheme,
   })
 
   return (
     <Flex bg={bgColour} p={{ base: 0, md: '1.5rem' }} flex={1} justify="center">
-      {isAuthRequired ? null : <SectionSidebar />}
+      {showSectionSidebar ? <SectionSidebar /> : null}
       <Flex flexDir="column" maxW="57rem" w="100%">
         {children}
       </Flex>
-      {isAuthRequired ? null : <Spacer />}
+      {showSectionSidebar ? <Spacer /> : null}
     </Flex>
   )
 }
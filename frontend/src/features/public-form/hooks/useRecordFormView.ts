@@ -0,0 +1,25 @@
+import { useEffect } from 'react'
+
+import { FORM_VIEW_RECORDED_SESSION_KEY_PREFIX } from '~constants/sessionStorage'
+import { useSessionStorage } from '~hooks/useSessionStorage'
+
+import { recordPublicFormView } from '../PublicFormService'
+
+/**
+ * Counts a view of the form for its insights once per browser session, so that
+ * reloading the form does not count further views.
+ * @param formId id of the form being viewed
+ */
+export const useRecordFormView = (formId: string): void => {
+  const [isViewRecorded, setIsViewRecorded] = useSessionStorage<boolean>(
+    `${FORM_VIEW_RECORDED_SESSION_KEY_PREFIX}${formId}`,
+    false,
+  )
+
+  useEffect(() => {
+    if (isViewRecorded) return
+    setIsViewRecorded(true)
+    // Views are only counted for insights, so failures can be ignored.
+    recordPublicFormView(formId).catch(() => undefined)
+  }, [formId, isViewRecorded, setIsViewRecorded])
+}
@@ -2,6 +2,7 @@ import { useMutation } from 'react-query'
 
 import {
   FormAuthType,
+  SaveFormDraftBodyDto,
   SubmitFormFeedbackBodyDto,
   SubmitFormIssueBodyDto,
 } from '~shared/types/form'
@@ -12,6 +13,7 @@ import { useStorePrefillQuery } from './hooks/useStorePrefillQuery'
 import {
   getPublicFormAuthRedirectUrl,
   logoutPublicForm,
+  saveFormDraft,
   SubmitEmailFormArgs,
   submitEmailModeForm,
   submitEmailModeFormWithFetch,
@@ -125,3 +127,17 @@ export const useSubmitFormIssueMutations = (formId: string) => {
   )
   return { submitFormIssueMutation }
 }
+
+export const usePublicFormDraftMutations = (formId: string) => {
+  const toast = useToast({ isClosable: true })
+
+  const saveFormDraftMutation = useMutation(
+    (args: SaveFormDraftBodyDto) => saveFormDraft(formId, args),
+    {
+      onError: (error: Error) => {
+        toast({ status: 'danger', description: error.message })
+      },
+    },
+  )
+  return { saveFormDraftMutation }
+}
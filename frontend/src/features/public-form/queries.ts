@@ -1,18 +1,21 @@
 import { useQuery, UseQueryResult } from 'react-query'
 
+import { FormDraftDto } from '~shared/types/form'
 import { PublicFormViewDto } from '~shared/types/form/form'
 
 import { ApiError } from '~typings/core'
 
 import { MONGODB_ID_REGEX } from '~constants/routes'
 
-import { getPublicFormView } from './PublicFormService'
+import { getFormDraft, getPublicFormView } from './PublicFormService'
 
 export const publicFormKeys = {
   // All keys map to either an array or function returning an array for
   // consistency
   base: ['publicForm'] as const,
   id: (formId: string) => [...publicFormKeys.base, formId] as const,
+  draft: (formId: string, draftKey?: string) =>
+    [...publicFormKeys.id(formId), 'draft', draftKey] as const,
 }
 
 export const usePublicFormView = (
@@ -30,3 +33,21 @@ export const usePublicFormView = (
     },
   )
 }
+
+export const usePublicFormDraft = (
+  formId: string,
+  draftKey?: string,
+  /** Extra override to determine whether query is enabled */
+  enabled = true,
+): UseQueryResult<FormDraftDto, ApiError> => {
+  return useQuery<FormDraftDto, ApiError>(
+    publicFormKeys.draft(formId, draftKey),
+    () => getFormDraft(formId, draftKey),
+    {
+      // Only load the draft once, so that it does not overwrite later changes.
+      staleTime: Infinity,
+      retry: false,
+      enabled: MONGODB_ID_REGEX.test(formId) && enabled,
+    },
+  )
+}
@@ -3,17 +3,16 @@ import { encode as encodeBase64 } from '@stablelib/base64'
 import { chain, forOwn, isEmpty, keyBy, omit, pick } from 'lodash'
 
 import { BasicField, FormFieldDto, PaymentFieldsDto } from '~shared/types/field'
-import {
-  EmailResponse,
-  FieldResponse,
-  MobileResponse,
-} from '~shared/types/response'
+import { Language } from '~shared/types/form'
+import { FormPaymentsField } from '~shared/types/form/form'
+import { FieldResponse } from '~shared/types/response'
 import {
   ResponseMetadata,
   StorageModeAttachment,
   StorageModeAttachmentsMap,
   StorageModeSubmissionContentDto,
 } from '~shared/types/submission'
+import { getPaymentCalculationFieldIds } from '~shared/utils/calculation'
 
 import fileArrayBuffer from '~/utils/fileArrayBuffer'
 
@@ -37,24 +36,30 @@ export const createEncryptedSubmissionData = async ({
   formInputs,
   publicKey,
   responseMetadata,
+  language,
   paymentReceiptEmail,
   payments,
+  paymentsField,
 }: {
   formFields: FormFieldDto[]
   formInputs: FormFieldValues
   publicKey: string
   responseMetadata?: ResponseMetadata
+  language?: Language
   paymentReceiptEmail?: string
   payments?: PaymentFieldsDto
+  paymentsField?: FormPaymentsField
 }): Promise<StorageModeSubmissionContentDto> => {
   const responses = createResponsesArray(formFields, formInputs)
   const encryptedContent = formsgSdk.crypto.encrypt(responses, publicKey)
   // Edge case: We still send email/verifiable fields to the server in plaintext
   // even with end-to-end encryption in order to support email autoreplies and
-  // signature verification (for when signature has expired).
+  // signature verification (for when signature has expired), as well as
+  // fields needed to verify a calculated payment amount.
   const filteredResponses = filterSendableStorageModeResponses(
     formFields,
     responses,
+    paymentsField,
   )
   const attachments = await getEncryptedAttachmentsMap(
     formFields,
@@ -70,6 +75,7 @@ export const createEncryptedSubmissionData = async ({
     payments,
     version: ENCRYPT_VERSION,
     responseMetadata,
+    language,
   }
 }
 
@@ -81,13 +87,17 @@ export const createEmailSubmissionFormData = (
   formFields: FormFieldDto[],
   formInputs: FormFieldValues,
   responseMetadata?: ResponseMetadata,
+  language?: Language,
 ) => {
   const responses = createResponsesArray(formFields, formInputs)
   const attachments = getAttachmentsMap(formFields, formInputs)
 
   // Convert content to FormData object.
   const formData = new FormData()
-  formData.append('body', JSON.stringify({ responses, responseMetadata }))
+  formData.append(
+    'body',
+    JSON.stringify({ responses, responseMetadata, language }),
+  )
 
   if (!isEmpty(attachments)) {
     forOwn(attachments, (attachment, fieldId) => {
@@ -152,14 +162,22 @@ const getAttachmentsMap = (
  * Utility to filter out responses that should be sent to the server. This includes:
  * 1. Email fields that have an autoreply enabled.
  * 2. Verifiable fields to verify its signature on the backend.
+ * 3. The calculation field giving the payment amount, and the fields its
+ * formula references, to verify the payment amount on the backend.
  */
 const filterSendableStorageModeResponses = (
   formFields: FormFieldDto[],
   responses: FieldResponse[],
+  paymentsField?: FormPaymentsField,
 ) => {
   const mapFieldIdToField = keyBy(formFields, '_id')
+  const paymentCalculationFieldIds = getPaymentCalculationFieldIds(
+    formFields,
+    paymentsField,
+  )
   return responses
-    .filter((r): r is EmailResponse | MobileResponse => {
+    .filter((r) => {
+      if (paymentCalculationFieldIds.includes(r._id)) return true
       switch (r.fieldType) {
         case BasicField.Email: {
           const field = mapFieldIdToField[r._id]
@@ -176,7 +194,16 @@ const filterSendableStorageModeResponses = (
           return false
       }
     })
-    .map((r) => pick(r, ['fieldType', '_id', 'answer', 'signature']))
+    .map(
+      (r) =>
+        pick(r, [
+          'fieldType',
+          '_id',
+          'answer',
+          'answerArray',
+          'signature',
+        ]) as StorageModeSubmissionContentDto['responses'][number],
+    )
 }
 const encryptAttachment = async (
   attachment: File,
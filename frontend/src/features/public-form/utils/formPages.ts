@@ -0,0 +1,76 @@
+import { MAX_RESPONSE_METADATA_PAGES } from '~shared/constants/form'
+import { BasicField, FormFieldDto } from '~shared/types/field'
+import { PageResponseMetadata } from '~shared/types/submission'
+
+import { FieldIdSet } from '~features/logic/types'
+
+export type FormPage = {
+  /** Id of the section which starts the page, if any. */
+  sectionId?: string
+  /** Ids of the fields on the page, excluding the section. */
+  fieldIds: string[]
+}
+
+export type PageVisit = {
+  sectionId?: string
+  /** Time the respondent entered the page in ms from epoch. */
+  enteredAt: number
+}
+
+/**
+ * Splits the fields of a multi-page form into pages, starting a new page at
+ * each section.
+ */
+export const getFormPages = (
+  formFields: Pick<FormFieldDto, '_id' | 'fieldType'>[],
+): FormPage[] => {
+  return formFields.reduce<FormPage[]>((pages, field) => {
+    if (field.fieldType === BasicField.Section) {
+      pages.push({ sectionId: field._id, fieldIds: [] })
+    } else if (pages.length === 0) {
+      pages.push({ fieldIds: [field._id] })
+    } else {
+      pages[pages.length - 1].fieldIds.push(field._id)
+    }
+    return pages
+  }, [])
+}
+
+/**
+ * A page is shown if any of its fields are visible, or if it only contains a
+ * section which is visible. Pages whose fields are all hidden by logic, e.g.
+ * skipped sections, are not shown.
+ */
+export const isPageVisible = (
+  page: FormPage,
+  visibleFieldIds: FieldIdSet,
+): boolean => {
+  if (page.fieldIds.length === 0) {
+    return !!page.sectionId && visibleFieldIds.has(page.sectionId)
+  }
+  return page.fieldIds.some((fieldId) => visibleFieldIds.has(fieldId))
+}
+
+/**
+ * Computes the time spent on each page of the form from the pages visited by
+ * the respondent, in the order the pages were first visited.
+ * @param pageVisits the pages visited by the respondent, in order
+ * @param submittedAt the time the form was submitted in ms from epoch
+ */
+export const getPageResponseMetadata = (
+  pageVisits: PageVisit[],
+  submittedAt: number,
+): PageResponseMetadata[] => {
+  const metadata: PageResponseMetadata[] = []
+  pageVisits.forEach(({ sectionId, enteredAt }, index) => {
+    const leftAt = pageVisits[index + 1]?.enteredAt ?? submittedAt
+    const timeSpentMs = Math.max(leftAt - enteredAt, 0)
+    const pageMetadata = metadata.find((page) => page.sectionId === sectionId)
+    if (pageMetadata) {
+      pageMetadata.timeSpentMs += timeSpentMs
+    } else {
+      metadata.push(sectionId ? { sectionId, timeSpentMs } : { timeSpentMs })
+    }
+  })
+  return metadata.slice(0, MAX_RESPONSE_METADATA_PAGES)
+}
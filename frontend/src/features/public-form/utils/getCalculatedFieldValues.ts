@@ -0,0 +1,76 @@
+import { DeepPartial } from 'react-hook-form'
+
+import { BasicField, FormFieldDto } from '~shared/types/field'
+import {
+  evaluateFormula,
+  formatCalculationResult,
+  getCalculationSourceValue,
+} from '~shared/utils/calculation'
+
+import type { FormFieldValues } from '~templates/Field/types'
+
+/**
+ * Converts a form input into the answer used to evaluate formulas, i.e. the
+ * selected options for checkbox fields and the string value for other fields.
+ */
+const getSourceAnswer = (
+  input: DeepPartial<FormFieldValues>[string],
+): string | string[] | undefined => {
+  if (typeof input === 'string') return input
+  if (input && typeof input === 'object' && 'value' in input) {
+    const { value } = input
+    if (Array.isArray(value)) {
+      return value.filter((option): option is string => !!option)
+    }
+    // Unanswered checkbox fields have a value of `false`.
+    return value === false ? [] : undefined
+  }
+  return undefined
+}
+
+/**
+ * Computes the values of the visible calculation fields of a form.
+ * Similar to `getCalculatedAnswers` in `src/app/utils/field-validation/calculation.ts` for backend,
+ * fields which are hidden or unanswered evaluate to 0.
+ * @returns map of calculation field ids to their values
+ */
+export const getCalculatedFieldValues = (
+  formInputs: DeepPartial<FormFieldValues>,
+  {
+    formFields,
+    visibleFieldIds,
+  }: {
+    formFields: FormFieldDto[]
+    visibleFieldIds: Set<string>
+  },
+): Map<string, string> => {
+  const sourceValues: Record<string, number> = {}
+  formFields.forEach((field) => {
+    if (!visibleFieldIds.has(field._id)) return
+    const value = getCalculationSourceValue(
+      field.fieldType,
+      getSourceAnswer(formInputs[field._id]),
+    )
+    if (value !== undefined) {
+      sourceValues[field._id] = value
+    }
+  })
+
+  const calculatedValues = new Map<string, string>()
+  formFields.forEach((field) => {
+    if (
+      field.fieldType !== BasicField.Calculation ||
+      !visibleFieldIds.has(field._id)
+    ) {
+      return
+    }
+    calculatedValues.set(
+      field._id,
+      formatCalculationResult(
+        evaluateFormula(field.formula, sourceValues),
+        field.decimalPlaces,
+      ),
+    )
+  })
+  return calculatedValues
+}
@@ -0,0 +1,45 @@
+import { omit } from 'lodash'
+
+import { FormDraftResponses } from '~shared/types'
+import { BasicField, FormFieldDto } from '~shared/types/field'
+
+import { FormFieldValues, VerifiableFieldValues } from '~templates/Field'
+
+// Cannot import from directory index because of circular imports.
+import { isMyInfo } from '~features/myinfo/utils/isMyInfo'
+
+/**
+ * Fields whose answers are not saved in drafts. Attachments cannot be
+ * serialised, and calculation fields are recomputed from other answers.
+ */
+const NON_DRAFT_FIELD_TYPES = [BasicField.Attachment, BasicField.Calculation]
+
+/**
+ * Returns the answers to save in a draft of the form. MyInfo fields are not
+ * saved as they are prefilled again when the respondent logs in, and verified
+ * fields have to be verified again when the draft is resumed.
+ */
+export const getDraftResponses = (
+  formFields: FormFieldDto[],
+  formInputs: FormFieldValues,
+): FormDraftResponses => {
+  return formFields.reduce<FormDraftResponses>((acc, field) => {
+    const input = formInputs[field._id]
+    if (
+      input === undefined ||
+      NON_DRAFT_FIELD_TYPES.includes(field.fieldType) ||
+      isMyInfo(field)
+    ) {
+      return acc
+    }
+    switch (field.fieldType) {
+      case BasicField.Email:
+      case BasicField.Mobile:
+        acc[field._id] = omit(input as VerifiableFieldValues, 'signature')
+        break
+      default:
+        acc[field._id] = input
+    }
+    return acc
+  }, {})
+}
@@ -0,0 +1,38 @@
+import { PaymentFieldsDto } from '~shared/types/field'
+import { FormPaymentsField, PaymentType } from '~shared/types/form/form'
+
+import { dollarsToCents } from '~utils/payments'
+
+import type { FormFieldValues } from '~templates/Field/types'
+
+import { getVariablePaymentAmount } from './getVariablePaymentAmount'
+
+/**
+ * Returns the payment details to submit with the response, which are the
+ * amount to pay for variable payments and the products chosen for product
+ * catalogue payments. Fixed payments have no payment details to submit.
+ */
+export const getSubmissionPayments = (
+  paymentsField: FormPaymentsField,
+  formInputs: FormFieldValues,
+  inputAmount: string,
+  productQuantities: string[] = [],
+): PaymentFieldsDto | undefined => {
+  switch (paymentsField.payment_type) {
+    case PaymentType.Variable:
+      return {
+        amount_cents: dollarsToCents(
+          getVariablePaymentAmount(paymentsField, formInputs, inputAmount),
+        ),
+      }
+    case PaymentType.Products:
+      return {
+        products: paymentsField.products.flatMap(({ _id }, index) => {
+          const quantity = Number(productQuantities[index])
+          return _id && quantity ? [{ productId: _id, quantity }] : []
+        }),
+      }
+    default:
+      return undefined
+  }
+}
@@ -0,0 +1,25 @@
+import { FormPaymentsField, PaymentType } from '~shared/types'
+
+import type { FormFieldValues } from '~templates/Field/types'
+
+/**
+ * Returns the amount to pay for variable payments, in dollars. This is the
+ * value of the calculation field set as the payment amount, if any, or
+ * otherwise the amount entered by the respondent.
+ */
+export const getVariablePaymentAmount = (
+  paymentsField: FormPaymentsField,
+  formInputs: FormFieldValues,
+  inputAmount: string,
+): string => {
+  if (
+    paymentsField.payment_type !== PaymentType.Variable ||
+    !paymentsField.calculation_field_id
+  ) {
+    return inputAmount
+  }
+  const calculatedValue = formInputs[paymentsField.calculation_field_id]
+  return typeof calculatedValue === 'string' && calculatedValue
+    ? Number(calculatedValue).toFixed(2)
+    : '0'
+}
@@ -1,4 +1,10 @@
 export * from './axiosDebugFlow'
 export * from './createSubmission'
 export * from './filterHiddenInputs'
+export * from './formPages'
+export * from './getCalculatedFieldValues'
+export * from './getDraftResponses'
+export * from './getSubmissionPayments'
+export * from './getVariablePaymentAmount'
 export * from './inputTransformation'
+export * from './translateForm'
@@ -246,6 +246,7 @@ export const transformInputsToOutputs = (
       )
     case BasicField.Number:
     case BasicField.Decimal:
+    case BasicField.Calculation:
     case BasicField.ShortText:
     case BasicField.LongText:
     case BasicField.HomeNo:
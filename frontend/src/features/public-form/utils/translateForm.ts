@@ -0,0 +1,77 @@
+import { FormFieldDto } from '~shared/types/field'
+import { Language, LogicType, PublicFormDto } from '~shared/types/form'
+import { getTranslation } from '~shared/utils/translation'
+
+const translateField = (
+  field: FormFieldDto,
+  language: Language,
+): FormFieldDto => ({
+  ...field,
+  title: getTranslation(field.title, field.titleTranslations, language),
+  description: getTranslation(
+    field.description,
+    field.descriptionTranslations,
+    language,
+  ),
+})
+
+/**
+ * Translates the content of the form shown to respondents into the given
+ * language. Content which has not been translated is left in English.
+ *
+ * Options of fields are not translated here, as the original options are the
+ * values submitted and checked by logic. Their translations are only shown as
+ * labels by the fields.
+ */
+export const translateForm = (
+  form: PublicFormDto,
+  language: Language,
+): PublicFormDto => {
+  if (language === Language.English) return form
+
+  const { startPage, endPage } = form
+  return {
+    ...form,
+    form_fields: form.form_fields.map((field) =>
+      translateField(field, language),
+    ),
+    form_logics: form.form_logics.map((logic) =>
+      logic.logicType === LogicType.PreventSubmit
+        ? {
+            ...logic,
+            preventSubmitMessage: getTranslation(
+              logic.preventSubmitMessage,
+              logic.preventSubmitMessageTranslations,
+              language,
+            ),
+          }
+        : logic,
+    ),
+    startPage: {
+      ...startPage,
+      paragraph:
+        startPage.paragraph &&
+        getTranslation(
+          startPage.paragraph,
+          startPage.paragraphTranslations,
+          language,
+        ),
+    },
+    endPage: {
+      ...endPage,
+      title: getTranslation(endPage.title, endPage.titleTranslations, language),
+      paragraph:
+        endPage.paragraph &&
+        getTranslation(
+          endPage.paragraph,
+          endPage.paragraphTranslations,
+          language,
+        ),
+      buttonText: getTranslation(
+        endPage.buttonText,
+        endPage.buttonTextTranslations,
+        language,
+      ),
+    },
+  }
+}
@@ -1,6 +1,7 @@
 import {
   AttachmentResponse,
   BasicField,
+  CalculationResponse,
   CheckboxResponse,
   ChildBirthRecordsResponse,
   DateResponse,
@@ -54,6 +55,8 @@ export const validateResponses = (responses: unknown): FieldResponse[] => {
         return MobileResponse.parse(response)
       case BasicField.Decimal:
         return DecimalResponse.parse(response)
+      case BasicField.Calculation:
+        return CalculationResponse.parse(response)
       case BasicField.Attachment:
         return AttachmentResponse.parse(response)
       case BasicField.Checkbox:
@@ -0,0 +1,104 @@
+import { useMemo, useState } from 'react'
+import {
+  Box,
+  Container,
+  Flex,
+  SimpleGrid,
+  Skeleton,
+  Text,
+} from '@chakra-ui/react'
+
+import { FormTemplateCategory, FormTemplateQueryDto } from '~shared/types'
+
+import { AdminNavBar } from '~/app/AdminNavBar'
+
+import { fillHeightCss } from '~utils/fillHeightCss'
+import { SingleSelect } from '~components/Dropdown'
+import Searchbar from '~components/Searchbar'
+
+import { TemplateCard } from './components/TemplateCard'
+import { FORM_TEMPLATE_CATEGORY_ITEMS } from './constants'
+import { useFormTemplates } from './queries'
+
+export const TemplatesPage = (): JSX.Element => {
+  const [category, setCategory] = useState<string>('')
+  const [searchTerm, setSearchTerm] = useState<string>('')
+
+  const query = useMemo(() => {
+    const query: FormTemplateQueryDto = {}
+    if (category) {
+      query.category = category as FormTemplateCategory
+    }
+    if (searchTerm) {
+      query.searchTerm = searchTerm
+    }
+    return query
+  }, [category, searchTerm])
+
+  const { data: templates, isLoading } = useFormTemplates(query)
+
+  return (
+    <Flex direction="column" css={fillHeightCss}>
+      <AdminNavBar />
+      <Container
+        overflowY="auto"
+        px={{ base: '1.5rem', md: '1.25rem' }}
+        py={{ base: '1.5rem', md: '3rem' }}
+        maxW="69.5rem"
+        flex={1}
+        display="flex"
+        flexDir="column"
+        color="secondary.500"
+      >
+        <Text as="h2" textStyle="h2" color="secondary.700">
+          Templates
+        </Text>
+        <Text textStyle="body-1" mt="0.5rem" mb="2rem">
+          Start from a form that has been published by an agency.
+        </Text>
+        <Flex
+          mb="2rem"
+          gap="0.5rem"
+          flexDir={{ base: 'column', md: 'row' }}
+          justify="space-between"
+        >
+          <Box flex={1} maxW={{ md: '24rem' }}>
+            <Searchbar
+              isExpandable={false}
+              onSearch={setSearchTerm}
+              placeholder="Search templates"
+            />
+          </Box>
+          <Box w={{ base: '100%', md: '14rem' }}>
+            <SingleSelect
+              name="templateCategory"
+              value={category}
+              onChange={setCategory}
+              items={FORM_TEMPLATE_CATEGORY_ITEMS}
+              placeholder="All categories"
+            />
+          </Box>
+        </Flex>
+        {isLoading ? (
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} spacing="1.5rem">
+            {Array.from({ length: 6 }, (_, index) => (
+              <Skeleton key={index} h="14rem" />
+            ))}
+          </SimpleGrid>
+        ) : templates?.length ? (
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} spacing="1.5rem">
+            {templates.map((template) => (
+              <TemplateCard key={template._id} template={template} />
+            ))}
+          </SimpleGrid>
+        ) : (
+          <Text textStyle="body-1" color="secondary.400">
+            {Object.keys(query).length > 0
+              ? 'No templates match your search.'
+              : 'No templates have been published yet.'}
+          </Text>
+        )}
+      </Container>
+    </Flex>
+  )
+}
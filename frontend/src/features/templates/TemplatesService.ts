@@ -0,0 +1,20 @@
+import { FormTemplateDto, FormTemplateQueryDto } from '~shared/types'
+
+import { ApiService } from '~services/ApiService'
+
+import { ADMIN_FORM_ENDPOINT } from '~features/admin-form/common/AdminViewFormService'
+
+const TEMPLATES_ENDPOINT = `${ADMIN_FORM_ENDPOINT}/templates`
+
+/**
+ * Retrieves the templates in the templates gallery.
+ * @param query the optional category and search term to filter templates by
+ * @returns the templates matching the query, most used first
+ */
+export const getFormTemplates = async (
+  query?: FormTemplateQueryDto,
+): Promise<FormTemplateDto[]> => {
+  return ApiService.get<FormTemplateDto[]>(TEMPLATES_ENDPOINT, {
+    params: query,
+  }).then(({ data }) => data)
+}
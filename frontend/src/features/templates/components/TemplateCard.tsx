@@ -0,0 +1,66 @@
+import { Link as ReactLink } from 'react-router-dom'
+import { Flex, Image, Stack, Text } from '@chakra-ui/react'
+import simplur from 'simplur'
+
+import { FormTemplateDto } from '~shared/types'
+
+import { ADMINFORM_ROUTE, ADMINFORM_USETEMPLATE_ROUTE } from '~constants/routes'
+import Badge from '~components/Badge'
+import Button from '~components/Button'
+
+import { FORM_TEMPLATE_CATEGORY_LABELS } from '../constants'
+
+export interface TemplateCardProps {
+  template: FormTemplateDto
+}
+
+export const TemplateCard = ({ template }: TemplateCardProps): JSX.Element => {
+  return (
+    <Stack
+      spacing="1rem"
+      p="1.5rem"
+      bg="white"
+      border="1px solid"
+      borderColor="neutral.300"
+      borderRadius="4px"
+      justify="space-between"
+    >
+      <Stack spacing="0.75rem">
+        <Flex justify="space-between" align="center" gap="0.5rem">
+          <Badge variant="subtle" colorScheme="primary">
+            {FORM_TEMPLATE_CATEGORY_LABELS[template.category]}
+          </Badge>
+          <Text textStyle="caption-1" color="secondary.400">
+            {simplur`Used ${[template.useCount]} time[|s]`}
+          </Text>
+        </Flex>
+        <Text textStyle="h4" color="secondary.700">
+          {template.title}
+        </Text>
+        <Text textStyle="body-2" color="secondary.500" noOfLines={3}>
+          {template.description}
+        </Text>
+      </Stack>
+      <Flex justify="space-between" align="center" gap="0.5rem">
+        <Flex align="center" gap="0.5rem" minW={0}>
+          <Image
+            src={template.agency.logo}
+            alt={template.agency.fullName}
+            boxSize="1.5rem"
+            objectFit="contain"
+          />
+          <Text textStyle="caption-1" color="secondary.400" noOfLines={1}>
+            {template.agency.shortName.toUpperCase()}
+          </Text>
+        </Flex>
+        <Button
+          as={ReactLink}
+          to={`${ADMINFORM_ROUTE}/${template.formId}/${ADMINFORM_USETEMPLATE_ROUTE}`}
+          variant="outline"
+        >
+          Use template
+        </Button>
+      </Flex>
+    </Stack>
+  )
+}
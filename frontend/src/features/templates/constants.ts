@@ -0,0 +1,20 @@
+import { FormTemplateCategory } from '~shared/types'
+
+export const FORM_TEMPLATE_CATEGORY_LABELS: Record<
+  FormTemplateCategory,
+  string
+> = {
+  [FormTemplateCategory.Application]: 'Application',
+  [FormTemplateCategory.Booking]: 'Booking',
+  [FormTemplateCategory.Feedback]: 'Feedback',
+  [FormTemplateCategory.Registration]: 'Registration',
+  [FormTemplateCategory.Survey]: 'Survey',
+  [FormTemplateCategory.Others]: 'Others',
+}
+
+export const FORM_TEMPLATE_CATEGORY_ITEMS = Object.values(
+  FormTemplateCategory,
+).map((category) => ({
+  value: category,
+  label: FORM_TEMPLATE_CATEGORY_LABELS[category],
+}))
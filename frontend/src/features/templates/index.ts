@@ -0,0 +1 @@
+export { TemplatesPage } from './TemplatesPage'
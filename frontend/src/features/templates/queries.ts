@@ -0,0 +1,21 @@
+import { useQuery, UseQueryResult } from 'react-query'
+
+import { FormTemplateDto, FormTemplateQueryDto } from '~shared/types'
+
+import { ApiError } from '~typings/core'
+
+import { getFormTemplates } from './TemplatesService'
+
+export const templatesKeys = {
+  all: ['templates'] as const,
+  query: (query: FormTemplateQueryDto) =>
+    [...templatesKeys.all, query] as const,
+}
+
+export const useFormTemplates = (
+  query: FormTemplateQueryDto = {},
+): UseQueryResult<FormTemplateDto[], ApiError> => {
+  return useQuery(templatesKeys.query(query), () => getFormTemplates(query), {
+    keepPreviousData: true,
+  })
+}
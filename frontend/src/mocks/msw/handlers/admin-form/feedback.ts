@@ -32,6 +32,17 @@ const generateFormFeedbackMeta = (): FormFeedbackMetaDto => {
         timestamp: 1585670500000,
       },
     ],
+    ratingDistribution: [
+      { rating: 1, count: 0 },
+      { rating: 2, count: 0 },
+      { rating: 3, count: 1 },
+      { rating: 4, count: 1 },
+      { rating: 5, count: 1 },
+    ],
+    ratingTrend: [
+      { date: '2021-04-01', count: 2, average: '3.50' },
+      { date: '2021-04-02', count: 1, average: '5.00' },
+    ],
   }
 }
 
@@ -62,6 +73,11 @@ export const getEmptyAdminFormFeedback = () => {
         ctx.json<FormFeedbackMetaDto>({
           count: 0,
           feedback: [],
+          ratingDistribution: [1, 2, 3, 4, 5].map((rating) => ({
+            rating,
+            count: 0,
+          })),
+          ratingTrend: [],
         }),
       )
     },
@@ -591,11 +591,15 @@ export const createMockForm = (
         responseMode: FormResponseMode.Email,
         emails: ['test@example.com'],
         hasCaptcha: false,
+        isMultiPage: false,
+        supportedLanguages: [],
         authType: FormAuthType.NIL,
         status: FormStatus.Public,
         inactiveMessage:
           'If you think this is a mistake, please contact the agency that gave you the form link!',
         submissionLimit: null,
+        opensAt: null,
+        closesAt: null,
         form_fields: [],
         form_logics: [],
         payments_channel: { channel: PaymentChannel.Unconnected },
@@ -1,6 +1,6 @@
 import { rest } from 'msw'
 
-import { FormIssueMetaDto } from '~shared/types'
+import { FormIssueMetaDto, FormIssueStatus } from '~shared/types'
 
 export const getEmptyAdminFormIssue = () => {
   return rest.get<FormIssueMetaDto>(
@@ -1161,6 +1161,11 @@ const generateFormIssueMeta = (): FormIssueMetaDto => {
         index: 153,
         timestamp: 1585756952000,
       },
-    ],
+    ].map((issue) => ({
+      ...issue,
+      _id: issue.index.toString(16).padStart(24, '0'),
+      status: FormIssueStatus.New,
+      notes: [],
+    })),
   }
 }
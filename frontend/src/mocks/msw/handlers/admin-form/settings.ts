@@ -6,6 +6,12 @@ import {
   STORAGE_FORM_SETTINGS_FIELDS,
 } from '~shared/constants/form'
 import { FormId, FormResponseMode, FormSettings } from '~shared/types/form/form'
+import { DateString } from '~shared/types/generic'
+import { SubmissionId } from '~shared/types/submission'
+import {
+  WebhookDeliveryDto,
+  WebhookDeliveryStatus,
+} from '~shared/types/webhook'
 
 import { createMockForm } from './form'
 
@@ -73,3 +79,60 @@ export const patchAdminFormSettings = ({
     },
   )
 }
+
+export const MOCK_WEBHOOK_DELIVERIES: WebhookDeliveryDto[] = [
+  {
+    submissionId: '64a3e1f2b7c9d80012345678' as SubmissionId,
+    submissionTime: '2023-07-04T08:00:00.000Z' as DateString,
+    webhookUrl: 'https://example.com/webhook',
+    status: WebhookDeliveryStatus.PendingRetry,
+    responseStatus: 503,
+    latencyMs: 10003,
+    attemptCount: 2,
+    lastAttemptAt: '2023-07-04T08:05:12.000Z' as DateString,
+    nextAttemptAt: '2023-07-04T09:02:41.000Z' as DateString,
+  },
+  {
+    submissionId: '64a3e0a1b7c9d80012345677' as SubmissionId,
+    submissionTime: '2023-07-04T07:30:00.000Z' as DateString,
+    webhookUrl: 'https://example.com/webhook',
+    status: WebhookDeliveryStatus.Success,
+    responseStatus: 200,
+    latencyMs: 182,
+    attemptCount: 1,
+    lastAttemptAt: '2023-07-04T07:30:01.000Z' as DateString,
+  },
+  {
+    submissionId: '64a2b5c0b7c9d80012345676' as SubmissionId,
+    submissionTime: '2023-07-03T02:15:00.000Z' as DateString,
+    webhookUrl: 'https://example.com/webhook',
+    status: WebhookDeliveryStatus.Failed,
+    responseStatus: 0,
+    attemptCount: 7,
+    lastAttemptAt: '2023-07-04T00:40:27.000Z' as DateString,
+  },
+]
+
+export const getWebhookDeliveries = ({
+  delay = 0,
+  deliveries = MOCK_WEBHOOK_DELIVERIES,
+}: {
+  delay?: number | 'infinite'
+  deliveries?: WebhookDeliveryDto[]
+} = {}) => {
+  return rest.get<WebhookDeliveryDto[]>(
+    '/api/v3/admin/forms/:formId/webhooks/deliveries',
+    (req, res, ctx) => {
+      const status = req.url.searchParams.get('status')
+      return res(
+        ctx.delay(delay),
+        ctx.status(200),
+        ctx.json(
+          status
+            ? deliveries.filter((delivery) => delivery.status === status)
+            : deliveries,
+        ),
+      )
+    },
+  )
+}
@@ -14,6 +14,7 @@ export type UploadedFileData = {
 type PresignUrlEndpoint =
   | `/admin/forms/${string}/images/presign`
   | `/admin/forms/${string}/logos/presign`
+  | '/agencies/logos/presign'
 
 type UploadImageParams = {
   image: File
@@ -165,3 +166,19 @@ export const uploadLogo = async ({
     fileId,
   })
 }
+
+/**
+ * Uploads an agency logo to the backend. Only available to super-admins.
+ * @param arg.image The logo to upload.
+ */
+export const uploadAgencyLogo = async ({
+  image,
+}: Pick<UploadImageParams, 'image'>): Promise<UploadedFileData> => {
+  const fileId = `${Date.now()}-${image.name.toLowerCase()}`
+
+  return uploadFile({
+    url: '/agencies/logos/presign',
+    file: image,
+    fileId,
+  })
+}
@@ -0,0 +1,42 @@
+/**
+ * @precondition Must have a parent `react-hook-form#FormProvider` component.
+ */
+import { useMemo } from 'react'
+import { useFormContext } from 'react-hook-form'
+
+import { createBaseValidationRules } from '~utils/fieldValidation'
+import Input from '~components/Input'
+
+import { BaseFieldProps, FieldContainer } from '../FieldContainer'
+import { CalculationFieldSchema, SingleAnswerFieldInput } from '../types'
+
+export interface CalculationFieldProps extends BaseFieldProps {
+  schema: CalculationFieldSchema
+}
+
+/**
+ * Read-only field showing the result of the field's formula. Its value is set
+ * by the parent form whenever the fields referenced in the formula change.
+ */
+export const CalculationField = ({
+  schema,
+}: CalculationFieldProps): JSX.Element => {
+  const validationRules = useMemo(
+    () => createBaseValidationRules(schema),
+    [schema],
+  )
+
+  const { register } = useFormContext<SingleAnswerFieldInput>()
+
+  return (
+    <FieldContainer schema={schema}>
+      <Input
+        aria-label={`${schema.questionNumber}. ${schema.title}`}
+        defaultValue=""
+        isReadOnly
+        preventDefaultOnEnter
+        {...register(schema._id, validationRules)}
+      />
+    </FieldContainer>
+  )
+}
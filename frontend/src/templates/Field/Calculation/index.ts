@@ -0,0 +1 @@
+export { CalculationField as default } from './CalculationField'
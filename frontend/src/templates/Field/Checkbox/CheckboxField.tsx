@@ -24,6 +24,8 @@ export const CHECKBOX_OTHERS_INPUT_VALUE =
 
 export interface CheckboxFieldProps extends BaseFieldProps {
   schema: CheckboxFieldSchema
+  /** Labels to show for each option in place of the option itself, if any. */
+  optionLabels?: string[]
 }
 
 /**
@@ -32,6 +34,7 @@ export interface CheckboxFieldProps extends BaseFieldProps {
 export const CheckboxField = ({
   schema,
   colorTheme = FormColorTheme.Blue,
+  optionLabels,
 }: CheckboxFieldProps): JSX.Element => {
   const fieldColorScheme = useMemo(
     () => `theme-${colorTheme}` as const,
@@ -86,10 +89,10 @@ export const CheckboxField = ({
             key={idx}
             value={o}
             defaultValue=""
-            aria-label={o}
+            aria-label={optionLabels?.[idx] ?? o}
             {...register(checkboxInputName, validationRules)}
           >
-            {o}
+            {optionLabels?.[idx] ?? o}
           </Checkbox>
         ))}
         {schema.fieldOptions.length === 1 ? (
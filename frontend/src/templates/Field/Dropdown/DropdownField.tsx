@@ -11,6 +11,8 @@ import { DropdownFieldSchema, SingleAnswerFieldInput } from '../types'
 
 export interface DropdownFieldProps extends BaseFieldProps {
   schema: DropdownFieldSchema
+  /** Labels to show for each option in place of the option itself, if any. */
+  optionLabels?: string[]
 }
 
 /**
@@ -19,6 +21,7 @@ export interface DropdownFieldProps extends BaseFieldProps {
 export const DropdownField = ({
   schema,
   colorTheme = FormColorTheme.Blue,
+  optionLabels,
   ...fieldContainerProps
 }: DropdownFieldProps): JSX.Element => {
   const validationRules = useMemo(
@@ -26,6 +29,17 @@ export const DropdownField = ({
     [schema],
   )
 
+  const items = useMemo(
+    () =>
+      optionLabels
+        ? schema.fieldOptions.map((value, idx) => ({
+            value,
+            label: optionLabels[idx] ?? value,
+          }))
+        : schema.fieldOptions,
+    [optionLabels, schema.fieldOptions],
+  )
+
   const { control } = useFormContext<SingleAnswerFieldInput>()
 
   return (
@@ -38,7 +52,7 @@ export const DropdownField = ({
         render={({ field }) => (
           <SingleSelect
             colorScheme={`theme-${colorTheme}`}
-            items={schema.fieldOptions}
+            items={items}
             {...field}
           />
         )}
@@ -15,7 +15,9 @@ import { useSectionColor } from '~templates/Field/Section/SectionField'
 import { VerifiableFieldBuilderContainer } from '~features/admin-form/create/builder-and-design/BuilderAndDesignContent/FieldRow/VerifiableFieldBuilderContainer'
 import { getFieldCreationMeta } from '~features/admin-form/create/builder-and-design/utils/fieldCreation'
 import {
+  CalculatedPaymentItemDetailsBlock,
   PaymentItemDetailsBlock,
+  ProductsPaymentItemDetailsField,
   VariablePaymentItemDetailsField,
 } from '~features/public-form/components/FormPaymentPage/components'
 import {
@@ -49,7 +51,22 @@ export const PaymentPreview = ({
         Payment
       </Box>
       <Box mb="2rem">
-        {paymentDetails.payment_type === PaymentType.Variable ? (
+        {paymentDetails.payment_type === PaymentType.Products ? (
+          <ProductsPaymentItemDetailsField
+            paymentItemName={paymentDetails.name}
+            colorTheme={colorTheme}
+            paymentDescription={paymentDetails.description}
+            products={paymentDetails.products}
+          />
+        ) : paymentDetails.payment_type === PaymentType.Variable &&
+          paymentDetails.calculation_field_id ? (
+          <CalculatedPaymentItemDetailsBlock
+            paymentItemName={paymentDetails.name}
+            colorTheme={colorTheme}
+            paymentDescription={paymentDetails.description}
+            calculationFieldId={paymentDetails.calculation_field_id}
+          />
+        ) : paymentDetails.payment_type === PaymentType.Variable ? (
           <VariablePaymentItemDetailsField
             paymentItemName={paymentDetails.name}
             colorTheme={colorTheme}
@@ -18,6 +18,8 @@ export const RADIO_OTHERS_INPUT_VALUE = '!!FORMSG_INTERNAL_RADIO_OTHERS_VALUE!!'
 
 export interface RadioFieldProps extends BaseFieldProps {
   schema: RadioFieldSchema
+  /** Labels to show for each option in place of the option itself, if any. */
+  optionLabels?: string[]
 }
 
 /**
@@ -26,6 +28,7 @@ export interface RadioFieldProps extends BaseFieldProps {
 export const RadioField = ({
   schema,
   colorTheme = FormColorTheme.Blue,
+  optionLabels,
 }: RadioFieldProps): JSX.Element => {
   const fieldColorScheme = useMemo(
     () => `theme-${colorTheme}` as const,
@@ -100,7 +103,7 @@ export const RadioField = ({
                 // Required should apply to radio group rather than individual radio.
                 isRequired={false}
               >
-                {option}
+                {optionLabels?.[idx] ?? option}
               </Radio>
             ))}
             {schema.othersRadioButton ? (
@@ -1,4 +1,5 @@
 import AttachmentField from './Attachment'
+import CalculationField from './Calculation'
 import CheckboxField from './Checkbox'
 import ChildrenCompoundField from './ChildrenCompound'
 import DateField from './Date'
@@ -24,6 +25,7 @@ export * from './types'
 
 export {
   AttachmentField,
+  CalculationField,
   CheckboxField,
   ChildrenCompoundField,
   DateField,
@@ -3,6 +3,7 @@ import { Merge } from 'type-fest'
 import {
   AttachmentFieldBase,
   BasicField,
+  CalculationFieldBase,
   CheckboxFieldBase,
   DateFieldBase,
   DecimalFieldBase,
@@ -72,6 +73,7 @@ export type FormFieldValue<F extends BasicField = BasicField> = F extends
   | BasicField.Nric
   | BasicField.Uen
   | BasicField.Date
+  | BasicField.Calculation
   ? SingleAnswerValue
   : F extends BasicField.YesNo
   ? YesNoFieldValue
@@ -139,6 +141,8 @@ export type ImageFieldSchema = FormFieldWithId<ImageFieldBase>
 
 // With question number
 export type AttachmentFieldSchema = FormFieldWithQuestionNo<AttachmentFieldBase>
+export type CalculationFieldSchema =
+  FormFieldWithQuestionNo<CalculationFieldBase>
 export type CheckboxFieldSchema = FormFieldWithQuestionNo<CheckboxFieldBase>
 export type DateFieldSchema = FormFieldWithQuestionNo<DateFieldBase>
 export type DecimalFieldSchema = FormFieldWithQuestionNo<DecimalFieldBase>
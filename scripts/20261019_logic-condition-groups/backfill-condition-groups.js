@@ -0,0 +1,79 @@
+/* eslint-disable */
+
+/**
+ * This script backfills the `conditionGroup` of every existing logic unit with
+ * a single AND group over all of its conditions, which is equivalent to how
+ * logic without a condition group is evaluated.
+ */
+
+// BEFORE
+// Count total number of logic units
+const beforePipelineAllUnits = [
+  { '$match': { 'form_logics': { '$exists': true, '$not': { '$size': 0 } } } },
+  { '$project': { 'form_logics': 1 } },
+  { '$unwind': '$form_logics' },
+  { '$count': 'numLogicUnits' }
+]
+db.getCollection('forms').aggregate(beforePipelineAllUnits)
+
+// Count number of logic units without conditionGroup field. Should be equal to total number of logic units.
+const beforePipelineNoConditionGroup = [
+  { '$match': { 'form_logics': { '$elemMatch': { 'conditionGroup': { '$exists': false } } } } },
+  { '$project': { 'form_logics': 1 } },
+  { '$unwind': '$form_logics' },
+  { '$match': { 'form_logics.conditionGroup': { '$exists': false } } },
+  { '$count': 'numLogicUnits' }
+]
+db.getCollection('forms').aggregate(beforePipelineNoConditionGroup)
+
+// UPDATE
+db.getCollection('forms').updateMany(
+  { 'form_logics': { '$elemMatch': { 'conditionGroup': { '$exists': false } } } },
+  [
+    {
+      '$set': {
+        'form_logics': {
+          '$map': {
+            'input': '$form_logics',
+            'as': 'logicUnit',
+            'in': {
+              '$cond': [
+                { '$eq': [{ '$type': '$$logicUnit.conditionGroup' }, 'missing'] },
+                {
+                  '$mergeObjects': [
+                    '$$logicUnit',
+                    {
+                      'conditionGroup': {
+                        'operator': 'and',
+                        'items': { '$range': [0, { '$size': '$$logicUnit.conditions' }] }
+                      }
+                    }
+                  ]
+                },
+                '$$logicUnit'
+              ]
+            }
+          }
+        }
+      }
+    }
+  ]
+)
+
+// AFTER
+// Count number of logic units without conditionGroup field. Should be 0 if there were no updates in between.
+db.getCollection('forms').aggregate(beforePipelineNoConditionGroup)
+
+// Count number of AND logic units whose condition group does not reference all conditions. Should be 0 right after
+// the update, before admins start nesting condition groups.
+const afterPipelineMismatchedGroups = [
+  { '$match': { 'form_logics': { '$exists': true, '$not': { '$size': 0 } } } },
+  { '$project': { 'form_logics': 1 } },
+  { '$unwind': '$form_logics' },
+  { '$match': { '$expr': { '$and': [
+    { '$eq': ['$form_logics.conditionGroup.operator', 'and'] },
+    { '$ne': [{ '$size': '$form_logics.conditionGroup.items' }, { '$size': '$form_logics.conditions' }] }
+  ] } } },
+  { '$count': 'numLogicUnits' }
+]
+db.getCollection('forms').aggregate(afterPipelineMismatchedGroups)
@@ -132,6 +132,12 @@ export const types: BasicFieldBlock[] = [
     submitted: true,
     answerArray: true,
   },
+  {
+    name: BasicField.Calculation,
+    value: 'Calculation',
+    submitted: true,
+    answerArray: false,
+  },
 ]
 
 /**
@@ -1,3 +1,5 @@
+import { Language } from '../types/form/form_translation'
+
 const PUBLIC_FORM_FIELDS = <const>[
   'admin',
   'authType',
@@ -6,8 +8,10 @@ const PUBLIC_FORM_FIELDS = <const>[
   'form_fields',
   'form_logics',
   'hasCaptcha',
+  'isMultiPage',
   'startPage',
   'status',
+  'supportedLanguages',
   'title',
   '_id',
   'responseMode',
@@ -23,11 +27,15 @@ export const STORAGE_PUBLIC_FORM_FIELDS = <const>[
 const FORM_SETTINGS_FIELDS = <const>[
   'responseMode',
   'authType',
+  'closesAt',
   'esrvcId',
   'hasCaptcha',
   'inactiveMessage',
+  'isMultiPage',
+  'opensAt',
   'status',
   'submissionLimit',
+  'supportedLanguages',
   'title',
   'webhook',
 ]
@@ -56,3 +64,25 @@ export const ADMIN_FORM_META_FIELDS = <const>[
 export const PAYMENT_CONTACT_FIELD_ID = 'payment_contact_field'
 export const PAYMENT_VARIABLE_INPUT_AMOUNT_FIELD_ID =
   'payment_variable_input_amount_field_id'
+export const PAYMENT_PRODUCT_QUANTITIES_FIELD_ID =
+  'payment_product_quantities_field_id'
+
+/**
+ * Maximum number of days of payments in a payments report verified with
+ * Stripe, as each payment is retrieved from Stripe.
+ */
+export const MAX_VERIFIED_PAYMENTS_REPORT_DAYS = 31
+
+/**
+ * Maximum number of pages of a multi-page form whose time spent is recorded in
+ * the metadata of a response.
+ */
+export const MAX_RESPONSE_METADATA_PAGES = 100
+
+/**
+ * Languages which the content of a form can be translated into. Forms are
+ * always written in English, which is therefore not a translation.
+ */
+export const TRANSLATABLE_LANGUAGES = Object.values(Language).filter(
+  (language) => language !== Language.English,
+)
@@ -2,3 +2,4 @@ export * from './file'
 export * from './form'
 export * from './links'
 export * from './feature-flags'
+export * from './webhook'
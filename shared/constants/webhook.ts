@@ -0,0 +1,35 @@
+// Constants relating to webhook settings used across the application.
+
+/**
+ * Maximum number of endpoints which webhooks can be sent to in addition to the
+ * primary webhook URL of a form.
+ */
+export const MAX_ADDITIONAL_WEBHOOK_ENDPOINTS = 4
+
+/** Maximum number of custom headers per webhook endpoint. */
+export const MAX_WEBHOOK_HEADERS = 10
+
+export const MIN_WEBHOOK_HMAC_SECRET_LENGTH = 32
+
+export const WEBHOOK_HMAC_SIGNATURE_HEADER = 'X-FormSG-Hmac-Signature'
+
+/** Headers set by FormSG, which cannot be overridden by custom headers. */
+export const RESERVED_WEBHOOK_HEADERS = [
+  'content-length',
+  'content-type',
+  'host',
+  'x-formsg-signature',
+  WEBHOOK_HMAC_SIGNATURE_HEADER.toLowerCase(),
+]
+
+export const WEBHOOK_HEADER_NAME_REGEX = /^[A-Za-z0-9-]+$/
+
+/**
+ * Returned to admins in place of custom header values, which are write-only.
+ * Headers updated with this value keep their stored value.
+ */
+export const WEBHOOK_HEADER_VALUE_MASK = '********'
+
+export const MAX_CUSTOM_WEBHOOK_RETRIES = 10
+
+export const MAX_CUSTOM_WEBHOOK_BACKOFF_MINUTES = 60
@@ -0,0 +1,100 @@
+import { FormConditionGroup, LogicGroupOperator } from '../../types/form'
+
+/** Maximum nesting depth of condition groups, including the root group. */
+export const MAX_CONDITION_GROUP_DEPTH = 3
+
+/**
+ * Returns the condition group of logic without one, where all conditions have
+ * to be fulfilled.
+ * @param numConditions the number of conditions in the logic
+ */
+export const getDefaultConditionGroup = (
+  numConditions: number,
+): FormConditionGroup => ({
+  operator: LogicGroupOperator.And,
+  items: Array.from({ length: numConditions }, (_, index) => index),
+})
+
+/**
+ * Returns the condition group to evaluate the given logic with.
+ * @param logic the logic to retrieve the condition group of
+ */
+export const getConditionGroup = (logic: {
+  conditions: unknown[]
+  conditionGroup?: FormConditionGroup
+}): FormConditionGroup =>
+  logic.conditionGroup ?? getDefaultConditionGroup(logic.conditions.length)
+
+/**
+ * Evaluates a condition group against the logic's conditions. Used by both the
+ * frontend and backend so that logic is evaluated identically.
+ * @param group the condition group to evaluate
+ * @param conditions the conditions of the logic the group belongs to
+ * @param isConditionFulfilled callback to check whether a single condition is fulfilled
+ * @returns true if the group is fulfilled, false otherwise
+ */
+export const evaluateConditionGroup = <T>(
+  group: FormConditionGroup,
+  conditions: T[],
+  isConditionFulfilled: (condition: T) => boolean,
+): boolean => {
+  const isItemFulfilled = (item: FormConditionGroup['items'][number]) => {
+    if (typeof item !== 'number') {
+      return evaluateConditionGroup(item, conditions, isConditionFulfilled)
+    }
+    const condition = conditions[item]
+    return condition !== undefined && isConditionFulfilled(condition)
+  }
+  return group.operator === LogicGroupOperator.Or
+    ? group.items.some(isItemFulfilled)
+    : group.items.every(isItemFulfilled)
+}
+
+/**
+ * Checks that a condition group is well-formed, i.e. that groups are not empty,
+ * not nested deeper than MAX_CONDITION_GROUP_DEPTH, and that every condition is
+ * referenced exactly once.
+ * @param group the condition group to validate
+ * @param numConditions the number of conditions in the logic
+ * @returns an error message if the group is invalid, undefined otherwise
+ */
+export const validateConditionGroup = (
+  group: FormConditionGroup,
+  numConditions: number,
+): string | undefined => {
+  const referencedIndices = new Set<number>()
+
+  const validateGroup = (
+    currentGroup: FormConditionGroup,
+    depth: number,
+  ): string | undefined => {
+    if (depth > MAX_CONDITION_GROUP_DEPTH) {
+      return `Condition groups cannot be nested more than ${MAX_CONDITION_GROUP_DEPTH} levels deep`
+    }
+    if (currentGroup.items.length === 0) {
+      return 'Condition groups cannot be empty'
+    }
+    for (const item of currentGroup.items) {
+      if (typeof item !== 'number') {
+        const error = validateGroup(item, depth + 1)
+        if (error) return error
+        continue
+      }
+      if (!Number.isInteger(item) || item < 0 || item >= numConditions) {
+        return 'Condition group references a condition that does not exist'
+      }
+      if (referencedIndices.has(item)) {
+        return 'Condition group references a condition more than once'
+      }
+      referencedIndices.add(item)
+    }
+    return undefined
+  }
+
+  const error = validateGroup(group, 1)
+  if (error) return error
+  if (referencedIndices.size !== numConditions) {
+    return 'Condition group must reference every condition'
+  }
+  return undefined
+}
@@ -1,15 +1,24 @@
 import { BasicField } from '../../types/field'
-import { LogicCondition, LogicConditionState } from '../../types/form'
+import {
+  LogicCondition,
+  LogicConditionState,
+  LogicSettableField,
+} from '../../types/form'
 
 const LOGIC_CONDITIONS: LogicCondition[] = [
   [
     BasicField.Dropdown,
-    [LogicConditionState.Equal, LogicConditionState.Either],
+    [
+      LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
+      LogicConditionState.Either,
+    ],
   ],
   [
     BasicField.Number,
     [
       LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
       LogicConditionState.Lte,
       LogicConditionState.Gte,
     ],
@@ -18,6 +27,7 @@ const LOGIC_CONDITIONS: LogicCondition[] = [
     BasicField.Decimal,
     [
       LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
       LogicConditionState.Lte,
       LogicConditionState.Gte,
     ],
@@ -26,14 +36,78 @@ const LOGIC_CONDITIONS: LogicCondition[] = [
     BasicField.Rating,
     [
       LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
+      LogicConditionState.Lte,
+      LogicConditionState.Gte,
+    ],
+  ],
+  [
+    BasicField.Calculation,
+    [
+      LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
       LogicConditionState.Lte,
       LogicConditionState.Gte,
     ],
   ],
   [BasicField.YesNo, [LogicConditionState.Equal]],
-  [BasicField.Radio, [LogicConditionState.Equal, LogicConditionState.Either]],
+  [
+    BasicField.Radio,
+    [
+      LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
+      LogicConditionState.Either,
+    ],
+  ],
+  [
+    BasicField.Checkbox,
+    [
+      LogicConditionState.ContainsAny,
+      LogicConditionState.ContainsAll,
+      LogicConditionState.IsEmpty,
+    ],
+  ],
+  [
+    BasicField.Date,
+    [
+      LogicConditionState.Before,
+      LogicConditionState.After,
+      LogicConditionState.Between,
+      LogicConditionState.IsEmpty,
+    ],
+  ],
+  [
+    BasicField.ShortText,
+    [LogicConditionState.Contains, LogicConditionState.IsEmpty],
+  ],
+  [
+    BasicField.Email,
+    [
+      LogicConditionState.Contains,
+      LogicConditionState.EndsWithDomain,
+      LogicConditionState.IsEmpty,
+    ],
+  ],
 ]
 
 export const LOGIC_MAP = new Map<BasicField, LogicConditionState[]>(
   LOGIC_CONDITIONS,
 )
+
+/**
+ * Field types whose value can be set by SetFieldValue logic.
+ */
+export const LOGIC_SETTABLE_FIELDS: LogicSettableField[] = [
+  BasicField.ShortText,
+  BasicField.LongText,
+  BasicField.Number,
+  BasicField.Decimal,
+  BasicField.Dropdown,
+  BasicField.Radio,
+  BasicField.YesNo,
+]
+
+export const isLogicSettableField = (
+  fieldType: BasicField,
+): fieldType is LogicSettableField =>
+  (LOGIC_SETTABLE_FIELDS as BasicField[]).includes(fieldType)
@@ -1 +1,2 @@
+export * from './condition-group'
 export * from './constants'
@@ -1,6 +1,8 @@
 import type { Opaque } from 'type-fest'
 import { z } from 'zod'
 import { DateString } from './generic'
+import type { FormId, FormResponseMode, FormStatus } from './form/form'
+import type { UserRole } from './user'
 
 export type AgencyId = Opaque<string, 'AgencyId'>
 export const AgencyId = z.string() as unknown as z.Schema<AgencyId>
@@ -36,3 +38,88 @@ export const PublicAgencyDto = AgencyDto.pick({
   logo: true,
 })
 export type PublicAgencyDto = z.infer<typeof PublicAgencyDto>
+
+export type CreateAgencyBodyDto = {
+  shortName: string
+  fullName: string
+  emailDomain: string[]
+  logo: string
+  business?: AgencyBase['business']
+}
+
+export type UpdateAgencyBodyDto = Partial<CreateAgencyBodyDto>
+
+// Agencies as listed to super-admins.
+export type AgencyAdminListItemDto = AgencyDto & {
+  userCount: number
+}
+
+export type AgencyUserDto = {
+  _id: string
+  email: string
+  lastAccessed?: DateString
+  role?: UserRole
+  // Number of forms owned by the user, including archived forms.
+  formCount: number
+}
+
+export type UpdateAgencyUserBodyDto = {
+  // Null to remove the role of the user.
+  role: UserRole.AgencyAdmin | null
+}
+
+export type AgencyAdminViewDto = {
+  agency: AgencyDto
+  users: AgencyUserDto[]
+  formCount: number
+}
+
+export enum AgencyAuditAction {
+  Create = 'CREATE',
+  Update = 'UPDATE',
+  UpdateUserRole = 'UPDATE_USER_ROLE',
+}
+
+// Changed fields of the agency, or the email and role of the user of the
+// agency whose role was changed.
+export type AgencyAuditValues = Partial<
+  CreateAgencyBodyDto & { user: string; role: UserRole | null }
+>
+
+export type AgencyAuditLogDto = {
+  _id: string
+  agency: AgencyId
+  action: AgencyAuditAction
+  // Email of the super-admin who made the change.
+  actor: string
+  // Values before and after the change.
+  before: AgencyAuditValues
+  after: AgencyAuditValues
+  created: DateString
+}
+
+export type AgencyFormQueryDto = {
+  ownerEmail?: string
+}
+
+export type AgencyFormDto = {
+  _id: FormId
+  title: string
+  status: FormStatus
+  responseMode: FormResponseMode
+  // Email of the owner of the form.
+  admin: string
+  collaboratorCount: number
+  lastModified: DateString
+}
+
+export type TransferAgencyFormsOwnershipBodyDto = {
+  formIds: FormId[]
+  email: string
+}
+
+export type TransferAgencyFormsOwnershipResponseDto = {
+  transferred: AgencyFormDto[]
+  // Forms which could not be transferred, with the reason why.
+  failed: { _id: FormId; title: string; message: string }[]
+}
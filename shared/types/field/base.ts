@@ -1,3 +1,5 @@
+import { TranslationMapping } from '../form/form_translation'
+
 export enum BasicField {
   Section = 'section',
   Statement = 'statement',
@@ -20,6 +22,7 @@ export enum BasicField {
   Table = 'table',
   Uen = 'uen',
   Children = 'children',
+  Calculation = 'calculation',
 }
 
 export enum MyInfoAttribute {
@@ -91,6 +94,10 @@ export type FieldBase = {
   required: boolean
   disabled: boolean
   fieldType: BasicField
+  /** Translations of the title into the supported languages of the form. */
+  titleTranslations?: TranslationMapping[]
+  /** Translations of the description into the supported languages of the form. */
+  descriptionTranslations?: TranslationMapping[]
 }
 
 export type MyInfoableFieldBase = FieldBase & AllowMyInfoBase
@@ -0,0 +1,12 @@
+import { BasicField, FieldBase } from './base'
+
+export interface CalculationFieldBase extends FieldBase {
+  fieldType: BasicField.Calculation
+  /**
+   * Arithmetic expression that the field's value is computed from. Other
+   * fields are referenced by their ids in curly braces, e.g. `{fieldId} * 2`.
+   */
+  formula: string
+  /** Number of decimal places the computed value is rounded to. */
+  decimalPlaces: number
+}
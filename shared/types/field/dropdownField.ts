@@ -1,6 +1,8 @@
+import { TranslationOptionMapping } from '../form/form_translation'
 import { BasicField, MyInfoableFieldBase } from './base'
 
 export interface DropdownFieldBase extends MyInfoableFieldBase {
   fieldType: BasicField.Dropdown
   fieldOptions: string[]
+  fieldOptionsTranslations?: TranslationOptionMapping[]
 }
@@ -1,3 +1,4 @@
+import { TranslationMapping } from '../form/form_translation'
 import { BasicField, FieldBase, VerifiableFieldBase } from './base'
 
 export type AutoReplyOptions = {
@@ -6,6 +7,8 @@ export type AutoReplyOptions = {
   autoReplySender: string
   autoReplyMessage: string
   includeFormSummary: boolean
+  autoReplySubjectTranslations?: TranslationMapping[]
+  autoReplyMessageTranslations?: TranslationMapping[]
 }
 
 export interface EmailFieldBase extends FieldBase, VerifiableFieldBase {
@@ -1,4 +1,5 @@
 import type { AttachmentFieldBase } from './attachmentField'
+import type { CalculationFieldBase } from './calculationField'
 import type { CheckboxFieldBase } from './checkboxField'
 import type { ChildrenCompoundFieldBase } from './childrenCompoundField'
 import type { DateFieldBase } from './dateField'
@@ -23,6 +24,7 @@ import type { SetRequired } from 'type-fest'
 
 export * from './attachmentField'
 export * from './base'
+export * from './calculationField'
 export * from './checkboxField'
 export * from './dateField'
 export * from './decimalField'
@@ -67,6 +69,7 @@ export type FormField =
   | UenFieldBase
   | YesNoFieldBase
   | ChildrenCompoundFieldBase
+  | CalculationFieldBase
 
 // These types are extended through using MyInfoableFieldBase
 // And might possibly be myInfo fields if the attribute is set
@@ -108,4 +111,10 @@ export type FieldUpdateDto = FormFieldWithId
 
 type PaymentVariableAmountField = { amount_cents: number }
 
-export type PaymentFieldsDto = PaymentVariableAmountField
+export type ProductSelection = { productId: string; quantity: number }
+
+type PaymentProductsField = { products: ProductSelection[] }
+
+export type PaymentFieldsDto = Partial<
+  PaymentVariableAmountField & PaymentProductsField
+>
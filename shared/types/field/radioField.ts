@@ -1,7 +1,9 @@
+import { TranslationOptionMapping } from '../form/form_translation'
 import { BasicField, FieldBase } from './base'
 
 export interface RadioFieldBase extends FieldBase {
   fieldType: BasicField.Radio
   fieldOptions: string[]
+  fieldOptionsTranslations?: TranslationOptionMapping[]
   othersRadioButton: boolean
 }
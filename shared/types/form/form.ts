@@ -12,7 +12,9 @@ import {
 } from '../../constants/form'
 import { DateString } from '../generic'
 import { FormLogic, LogicDto } from './form_logic'
+import { Language, TranslationMapping } from './form_translation'
 import { PaymentChannel, PaymentType } from '../payment'
+import { WebhookEventType } from '../webhook'
 
 export type FormId = Opaque<string, 'FormId'>
 
@@ -25,10 +27,42 @@ export enum FormColorTheme {
   Grey = 'grey',
 }
 
+/**
+ * Parts of a form which collaborators can be granted access to.
+ */
+export enum FormPermissionScope {
+  /** Fields, logic, and start and end pages of the form. */
+  Build = 'build',
+  Settings = 'settings',
+  Collaborators = 'collaborators',
+  /** Responses, feedback and insights of the form. */
+  Responses = 'responses',
+  Payments = 'payments',
+}
+
+/**
+ * Roles of collaborators of a form, each granting read or write access to a
+ * set of scopes of the form.
+ */
+export enum CollaboratorRole {
+  Editor = 'editor',
+  Viewer = 'viewer',
+  ResponsesViewer = 'responsesViewer',
+  EditorWithoutResponses = 'editorWithoutResponses',
+  SettingsManager = 'settingsManager',
+  PaymentManager = 'paymentManager',
+}
+
 export type FormPermission = {
   id?: string
   email: string
+  /**
+   * Whether the collaborator can make any changes to the form. Kept in sync
+   * with the role, and determines the role of collaborators added before
+   * roles were introduced.
+   */
   write: boolean
+  role?: CollaboratorRole
 }
 
 export type FormStartPage = {
@@ -36,6 +70,7 @@ export type FormStartPage = {
   colorTheme: FormColorTheme
   estTimeTaken?: number
   paragraph?: string
+  paragraphTranslations?: TranslationMapping[]
 }
 
 export type FormEndPage = {
@@ -43,6 +78,9 @@ export type FormEndPage = {
   paragraph?: string
   buttonLink?: string
   buttonText: string
+  titleTranslations?: TranslationMapping[]
+  paragraphTranslations?: TranslationMapping[]
+  buttonTextTranslations?: TranslationMapping[]
 }
 
 export enum FormAuthType {
@@ -60,9 +98,71 @@ export enum FormStatus {
   Archived = 'ARCHIVED',
 }
 
-export type FormWebhook = {
+export type WebhookHeader = {
+  name: string
+  value: string
+}
+
+export type WebhookEndpointSettings = {
   url: string
   isRetryEnabled: boolean
+  /**
+   * Shared secret with which webhooks are also signed using HMAC-SHA256, so
+   * that receivers can verify webhooks without the FormSG SDK.
+   */
+  hmacSecret?: string
+  /**
+   * Whether a HMAC secret is set, returned to admins in place of the secret as
+   * it is write-only.
+   */
+  hasHmacSecret?: boolean
+  /** Static headers sent with each webhook, e.g. to authorise with gateways. */
+  headers?: WebhookHeader[]
+}
+
+export enum WebhookRetryProfile {
+  Aggressive = 'AGGRESSIVE',
+  Standard = 'STANDARD',
+  LongTail = 'LONG_TAIL',
+  Custom = 'CUSTOM',
+}
+
+export type WebhookRetryPolicy = {
+  profile: WebhookRetryProfile
+  /** Number of retries after the initial attempt, for custom policies. */
+  maxRetries?: number
+  /**
+   * Wait before the first retry for custom policies, which doubles with each
+   * subsequent retry.
+   */
+  backoffMinutes?: number
+}
+
+export type FormWebhookEndpoint = WebhookEndpointSettings & {
+  _id?: string
+}
+
+export type FormWebhook = WebhookEndpointSettings & {
+  /**
+   * Endpoints which webhooks are sent to in addition to the primary URL. Each
+   * endpoint is signed and retried independently.
+   */
+  additionalEndpoints?: FormWebhookEndpoint[]
+  /**
+   * Schedule of retries for endpoints with retries enabled. The standard
+   * profile is used if not set.
+   */
+  retryPolicy?: WebhookRetryPolicy
+  /**
+   * When the admin and collaborators were last notified that an endpoint is
+   * failing continuously.
+   */
+  failureNotifiedAt?: Date
+  /**
+   * Events besides new submissions which webhooks are sent for. Event
+   * webhooks are sent to all endpoints of the form.
+   */
+  events?: WebhookEventType[]
 }
 
 export enum FormResponseMode {
@@ -87,6 +187,11 @@ interface VariablePaymentsField extends PaymentTypeBase {
   payment_type: PaymentType.Variable
   min_amount: number
   max_amount: number
+  /**
+   * Id of the calculation field whose answer is the amount to pay, in
+   * dollars. If not set, respondents enter the amount to pay themselves.
+   */
+  calculation_field_id?: string
 }
 
 interface FixedPaymentField extends PaymentTypeBase {
@@ -94,13 +199,34 @@ interface FixedPaymentField extends PaymentTypeBase {
   amount_cents: number
 }
 
+export type Product = {
+  /** Set when the product is first saved. */
+  _id?: string
+  name: string
+  description?: string
+  /** Price of a single unit of the product. */
+  amount_cents: number
+  min_qty: number
+  max_qty: number
+  /**
+   * Total number of units available across all payments. Stock is unlimited
+   * if not set.
+   */
+  stock?: number
+}
+
+interface ProductsPaymentField extends PaymentTypeBase {
+  payment_type: PaymentType.Products
+  products: Product[]
+}
+
 export type FormPaymentsField =
   | {
       enabled: boolean
       description?: string
       name?: string
       gst_enabled?: boolean
-    } & (VariablePaymentsField | FixedPaymentField)
+    } & (VariablePaymentsField | FixedPaymentField | ProductsPaymentField)
 
 export type FormBusinessField = {
   address?: string
@@ -121,12 +247,32 @@ export interface FormBase {
   hasCaptcha: boolean
   authType: FormAuthType
 
+  /**
+   * Whether the form is split into pages at each section, which respondents
+   * fill in one at a time.
+   */
+  isMultiPage: boolean
+
+  /**
+   * Languages other than English which the form has been translated into, and
+   * which respondents can switch the form to.
+   */
+  supportedLanguages: Language[]
+
   status: FormStatus
 
   inactiveMessage: string
   submissionLimit: number | null
   isListed: boolean
 
+  /**
+   * The form only accepts responses from opensAt (inclusive) to closesAt
+   * (exclusive). The form is published when opensAt is reached and
+   * deactivated when closesAt is reached.
+   */
+  opensAt: Date | null
+  closesAt: Date | null
+
   esrvcId?: string
 
   msgSrvcName?: string
@@ -158,6 +304,8 @@ type FormDtoBase = {
   form_logics: LogicDto[]
   created: DateString
   lastModified: DateString
+  opensAt: DateString | null
+  closesAt: DateString | null
 }
 
 export type StorageFormDto = Merge<StorageFormBase, FormDtoBase>
@@ -179,7 +327,7 @@ export type PublicStorageFormDto = Merge<
     StorageFormDto,
     // Arrays like typeof list have numeric index signatures, so their number key
     // yields the union of all numerically-indexed properties.
-    (typeof STORAGE_PUBLIC_FORM_FIELDS)[number]
+    typeof STORAGE_PUBLIC_FORM_FIELDS[number]
   >,
   PublicFormBase
 >
@@ -189,7 +337,7 @@ export type PublicEmailFormDto = Merge<
     EmailFormDto,
     // Arrays like typeof list have numeric index signatures, so their number key
     // yields the union of all numerically-indexed properties.
-    (typeof EMAIL_PUBLIC_FORM_FIELDS)[number]
+    typeof EMAIL_PUBLIC_FORM_FIELDS[number]
   >,
   PublicFormBase
 >
@@ -198,11 +346,11 @@ export type PublicFormDto = PublicStorageFormDto | PublicEmailFormDto
 
 export type EmailFormSettings = Pick<
   EmailFormDto,
-  (typeof EMAIL_FORM_SETTINGS_FIELDS)[number]
+  typeof EMAIL_FORM_SETTINGS_FIELDS[number]
 >
 export type StorageFormSettings = Pick<
   StorageFormDto,
-  (typeof STORAGE_FORM_SETTINGS_FIELDS)[number]
+  typeof STORAGE_FORM_SETTINGS_FIELDS[number]
 >
 
 export type FormSettings = EmailFormSettings | StorageFormSettings
@@ -240,7 +388,7 @@ export type AdminFormViewDto = {
 
 export type AdminDashboardFormMetaDto = Pick<
   AdminFormDto,
-  (typeof ADMIN_FORM_META_FIELDS)[number]
+  typeof ADMIN_FORM_META_FIELDS[number]
 >
 
 export type DuplicateFormBodyDto = {
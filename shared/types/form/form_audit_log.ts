@@ -0,0 +1,48 @@
+import { FormId } from './form'
+import { DateString } from '../generic'
+
+export enum FormAuditAction {
+  ArchiveForm = 'ARCHIVE_FORM',
+  CreateField = 'CREATE_FIELD',
+  UpdateField = 'UPDATE_FIELD',
+  DuplicateField = 'DUPLICATE_FIELD',
+  ReorderField = 'REORDER_FIELD',
+  DeleteField = 'DELETE_FIELD',
+  CreateLogic = 'CREATE_LOGIC',
+  UpdateLogic = 'UPDATE_LOGIC',
+  DeleteLogic = 'DELETE_LOGIC',
+  UpdateSettings = 'UPDATE_SETTINGS',
+  UpdateStartPage = 'UPDATE_START_PAGE',
+  UpdateEndPage = 'UPDATE_END_PAGE',
+  UpdateCollaborators = 'UPDATE_COLLABORATORS',
+  TransferOwnership = 'TRANSFER_OWNERSHIP',
+  UpdatePayments = 'UPDATE_PAYMENTS',
+  UpdateTwilio = 'UPDATE_TWILIO',
+  DeleteTwilio = 'DELETE_TWILIO',
+  UpdateGoLink = 'UPDATE_GO_LINK',
+}
+
+export type FormAuditLogDto = {
+  _id: string
+  form: FormId
+  action: FormAuditAction
+  // Email of the admin or collaborator who made the change.
+  actor: string
+  // Id of the field or logic which was changed, if any.
+  targetId?: string
+  // Values of the changed properties before and after the change.
+  before: Record<string, unknown>
+  after: Record<string, unknown>
+  created: DateString
+}
+
+export type FormAuditLogQueryDto = {
+  page?: number
+  pageSize?: number
+}
+
+export type FormAuditLogsDto = {
+  auditLogs: FormAuditLogDto[]
+  // Total number of audit logs of the form.
+  count: number
+}
@@ -0,0 +1,38 @@
+import { DateString } from '../generic'
+
+/**
+ * Form inputs saved in a draft, keyed by field id.
+ */
+export type FormDraftResponses = Record<string, unknown>
+
+export type SaveFormDraftBodyDto = {
+  responses: FormDraftResponses
+  /**
+   * Email to send the resume link to. Required when saving a new draft of a
+   * form without Singpass, Corppass or sgID authentication.
+   */
+  email?: string
+  /**
+   * Key of the draft to update, obtained from the resume link or a previous
+   * save.
+   */
+  draftKey?: string
+}
+
+export type FormDraftKeyBodyDto = {
+  draftKey?: string
+}
+
+export type FormDraftSavedDto = {
+  /**
+   * Key to resume the draft with. Not returned for drafts of authenticated
+   * forms, which are tied to the respondent's login instead.
+   */
+  draftKey?: string
+  expireAt: DateString
+}
+
+export type FormDraftDto = {
+  responses: FormDraftResponses
+  expireAt: DateString
+}
@@ -36,10 +36,33 @@ export type ProcessedFeedbackMeta = {
   // format.
   date: string
   dateShort: string
+  submissionId?: string
 }
 
+export type FormFeedbackMetaQueryDto = {
+  startDate?: string
+  endDate?: string
+  rating?: number
+}
+
+export type FeedbackRatingDistribution = { rating: number; count: number }[]
+
+export type FeedbackRatingTrend = {
+  /** Date in Singapore time, in YYYY-MM-DD format. */
+  date: string
+  count: number
+  average: string
+}[]
+
 export type FormFeedbackMetaDto = {
   average?: string
   count: number
   feedback: ProcessedFeedbackMeta[]
+  /**
+   * Number of feedback of each rating within the date range, regardless of
+   * the rating filter.
+   */
+  ratingDistribution: FeedbackRatingDistribution
+  /** Daily number and average rating of feedback matching the filters. */
+  ratingTrend: FeedbackRatingTrend
 }
@@ -8,6 +8,23 @@ export type SubmitFormIssueBodyDto = {
   email?: string
 }
 
+export enum FormIssueStatus {
+  New = 'new',
+  Acknowledged = 'acknowledged',
+  Resolved = 'resolved',
+}
+
+/**
+ * Internal note left on a form issue by an admin, which is never shown to the
+ * reporter of the issue.
+ */
+export type FormIssueNote = {
+  content: string
+  /** Email of the admin who left the note. */
+  createdBy: string
+  created: Date
+}
+
 /**
  * Typing for individual form issue
  */
@@ -15,6 +32,12 @@ export type FormIssueBase = {
   formId: FormDto['_id']
   issue: string
   email?: string
+  status: FormIssueStatus
+  /** Email of the form admin or collaborator the issue is assigned to. */
+  assignee?: string
+  notes: FormIssueNote[]
+  /** When a reply was last emailed to the reporter of the issue. */
+  lastReplied?: Date
   created?: Date
   lastModified?: Date
 }
@@ -22,14 +45,24 @@ export type FormIssueBase = {
 // Convert to serialized version.
 export type FormIssueDto = Merge<
   FormIssueBase,
-  { created?: DateString; lastModified?: DateString }
+  {
+    notes: Merge<FormIssueNote, { created: DateString }>[]
+    lastReplied?: DateString
+    created?: DateString
+    lastModified?: DateString
+  }
 >
 
 export type ProcessedIssueMeta = {
+  _id: string
   index: number
   issue: string
   email?: string
   timestamp: number
+  status: FormIssueStatus
+  assignee?: string
+  notes: { content: string; createdBy: string; timestamp: number }[]
+  lastRepliedTimestamp?: number
 }
 
 export type FormIssueMetaDto = {
@@ -38,5 +71,27 @@ export type FormIssueMetaDto = {
 }
 
 export type FormIssueMetaQueryDto = {
-  limit: number
+  status?: FormIssueStatus
+  assignee?: string
+}
+
+export type UpdateFormIssueBodyDto = {
+  status?: FormIssueStatus
+  /** Email of the collaborator to assign the issue to, or null to unassign. */
+  assignee?: string | null
+  /** Internal note to add to the issue. */
+  note?: string
+}
+
+export type UpdateFormIssuesStatusBodyDto = {
+  issueIds: string[]
+  status: FormIssueStatus
+}
+
+export type UpdateFormIssuesStatusResponseDto = {
+  updatedCount: number
+}
+
+export type ReplyFormIssueBodyDto = {
+  message: string
 }
@@ -1,21 +1,51 @@
 import { BasicField, FormFieldDto } from '../field'
+import { TranslationMapping } from './form_translation'
 
 export enum LogicConditionState {
   Equal = 'is equals to',
   Lte = 'is less than or equal to',
   Gte = 'is more than or equal to',
   Either = 'is either',
+  NotEqual = 'is not equal to',
+  ContainsAny = 'contains any of',
+  ContainsAll = 'contains all of',
+  Before = 'is before',
+  After = 'is after',
+  Between = 'is between',
+  IsEmpty = 'is empty',
+  Contains = 'contains',
+  EndsWithDomain = 'ends with domain',
 }
 
 export enum LogicType {
   ShowFields = 'showFields',
   PreventSubmit = 'preventSubmit',
+  RequireFields = 'requireFields',
+  SetFieldValue = 'setFieldValue',
+  SkipToSection = 'skipToSection',
 }
 
 export enum LogicIfValue {
   Number = 'number',
   SingleSelect = 'single-select',
   MultiSelect = 'multi-select',
+  Date = 'date',
+  DateRange = 'date-range',
+  Text = 'text',
+}
+
+export enum LogicGroupOperator {
+  And = 'and',
+  Or = 'or',
+}
+
+/**
+ * Boolean expression over the conditions of a logic unit. Each item is either
+ * the index of a condition in the logic's `conditions`, or a nested group.
+ */
+export type FormConditionGroup = {
+  operator: LogicGroupOperator
+  items: (number | FormConditionGroup)[]
 }
 
 export type FormCondition = {
@@ -28,6 +58,11 @@ export type FormCondition = {
 export type FormLogicBase = {
   logicType: LogicType
   conditions: FormCondition[]
+  /**
+   * How the conditions are combined. If not provided, all conditions must be
+   * fulfilled.
+   */
+  conditionGroup?: FormConditionGroup
 }
 
 export interface ShowFieldLogic extends FormLogicBase {
@@ -38,14 +73,61 @@ export interface ShowFieldLogic extends FormLogicBase {
 export interface PreventSubmitLogic extends FormLogicBase {
   logicType: LogicType.PreventSubmit
   preventSubmitMessage: string
+  preventSubmitMessageTranslations?: TranslationMapping[]
 }
 
-export type FormLogic = ShowFieldLogic | PreventSubmitLogic
+export interface RequireFieldsLogic extends FormLogicBase {
+  logicType: LogicType.RequireFields
+  require: FormFieldDto['_id'][]
+}
+
+export interface SetFieldValueLogic extends FormLogicBase {
+  logicType: LogicType.SetFieldValue
+  setField: FormFieldDto['_id']
+  setValue: string
+}
+
+export interface SkipToSectionLogic extends FormLogicBase {
+  logicType: LogicType.SkipToSection
+  /**
+   * Id of the section header field to skip to. Fields after the last field
+   * referenced in the conditions and before this section are hidden.
+   */
+  skipToSection: FormFieldDto['_id']
+}
+
+export type FormLogic =
+  | ShowFieldLogic
+  | PreventSubmitLogic
+  | RequireFieldsLogic
+  | SetFieldValueLogic
+  | SkipToSectionLogic
 
 export type ShowFieldLogicDto = ShowFieldLogic & { _id: string }
 export type PreventSubmitLogicDto = PreventSubmitLogic & { _id: string }
-
-export type LogicDto = ShowFieldLogicDto | PreventSubmitLogicDto
+export type RequireFieldsLogicDto = RequireFieldsLogic & { _id: string }
+export type SetFieldValueLogicDto = SetFieldValueLogic & { _id: string }
+export type SkipToSectionLogicDto = SkipToSectionLogic & { _id: string }
+
+export type LogicDto =
+  | ShowFieldLogicDto
+  | PreventSubmitLogicDto
+  | RequireFieldsLogicDto
+  | SetFieldValueLogicDto
+  | SkipToSectionLogicDto
+
+/**
+ * Fields whose value can be set by a SetFieldValue logic unit. Only fields
+ * that take a single text answer are supported.
+ */
+export type LogicSettableField =
+  | BasicField.ShortText
+  | BasicField.LongText
+  | BasicField.Number
+  | BasicField.Decimal
+  | BasicField.Dropdown
+  | BasicField.Radio
+  | BasicField.YesNo
 
 export type LogicableField =
   | BasicField.Dropdown
@@ -54,6 +136,11 @@ export type LogicableField =
   | BasicField.Number
   | BasicField.Decimal
   | BasicField.Rating
+  | BasicField.Checkbox
+  | BasicField.Date
+  | BasicField.ShortText
+  | BasicField.Email
+  | BasicField.Calculation
 
 type LogicAssociation<
   K extends LogicableField,
@@ -67,6 +154,7 @@ type CategoricalLogicField = Extract<
 >
 type CategoricalLogicStates =
   | LogicConditionState.Equal
+  | LogicConditionState.NotEqual
   | LogicConditionState.Either
 type CategoricalLogicCondition = LogicAssociation<
   CategoricalLogicField,
@@ -84,10 +172,14 @@ type BinaryLogicCondition = LogicAssociation<
 // Logic fields that can be numerically compared
 type NumericalLogicField = Extract<
   BasicField,
-  BasicField.Number | BasicField.Decimal | BasicField.Rating
+  | BasicField.Number
+  | BasicField.Decimal
+  | BasicField.Rating
+  | BasicField.Calculation
 >
 type NumericalLogicStates =
   | LogicConditionState.Equal
+  | LogicConditionState.NotEqual
   | LogicConditionState.Lte
   | LogicConditionState.Gte
 type NumericalLogicCondition = LogicAssociation<
@@ -95,7 +187,46 @@ type NumericalLogicCondition = LogicAssociation<
   NumericalLogicStates
 >
 
+// Logic fields that can have multiple options selected
+type MultiSelectLogicField = Extract<BasicField, BasicField.Checkbox>
+type MultiSelectLogicStates =
+  | LogicConditionState.ContainsAny
+  | LogicConditionState.ContainsAll
+  | LogicConditionState.IsEmpty
+type MultiSelectLogicCondition = LogicAssociation<
+  MultiSelectLogicField,
+  MultiSelectLogicStates
+>
+
+// Logic fields that can be chronologically compared
+type DateLogicField = Extract<BasicField, BasicField.Date>
+type DateLogicStates =
+  | LogicConditionState.Before
+  | LogicConditionState.After
+  | LogicConditionState.Between
+  | LogicConditionState.IsEmpty
+type DateLogicCondition = LogicAssociation<DateLogicField, DateLogicStates>
+
+// Logic fields that contain free text
+type TextLogicField = Extract<BasicField, BasicField.ShortText>
+type TextLogicStates =
+  | LogicConditionState.Contains
+  | LogicConditionState.IsEmpty
+type TextLogicCondition = LogicAssociation<TextLogicField, TextLogicStates>
+
+// Logic fields that contain email addresses
+type EmailLogicField = Extract<BasicField, BasicField.Email>
+type EmailLogicStates =
+  | LogicConditionState.Contains
+  | LogicConditionState.EndsWithDomain
+  | LogicConditionState.IsEmpty
+type EmailLogicCondition = LogicAssociation<EmailLogicField, EmailLogicStates>
+
 export type LogicCondition =
   | CategoricalLogicCondition
   | BinaryLogicCondition
   | NumericalLogicCondition
+  | MultiSelectLogicCondition
+  | DateLogicCondition
+  | TextLogicCondition
+  | EmailLogicCondition
@@ -0,0 +1,59 @@
+import { Merge } from 'type-fest'
+import { AgencyDto, PublicAgencyDto } from '../agency'
+import { DateString } from '../generic'
+import { UserDto } from '../user'
+import { FormDto, FormResponseMode } from './form'
+
+export enum FormTemplateCategory {
+  Application = 'application',
+  Booking = 'booking',
+  Feedback = 'feedback',
+  Registration = 'registration',
+  Survey = 'survey',
+  Others = 'others',
+}
+
+/**
+ * Typing for a form published by an agency to the templates gallery
+ */
+export type FormTemplateBase = {
+  formId: FormDto['_id']
+  agency: AgencyDto['_id']
+  /** The user who published the template. */
+  publishedBy: UserDto['_id']
+  title: string
+  description: string
+  category: FormTemplateCategory
+  /** Number of forms that have been created from the template. */
+  useCount: number
+  created?: Date
+  lastModified?: Date
+}
+
+export type FormTemplateDto = Merge<
+  Omit<FormTemplateBase, 'publishedBy'>,
+  {
+    _id: string
+    formId: string
+    agency: Pick<PublicAgencyDto, 'shortName' | 'fullName' | 'logo'>
+    responseMode: FormResponseMode
+    created: DateString
+    lastModified: DateString
+  }
+>
+
+export type FormTemplateQueryDto = {
+  category?: FormTemplateCategory
+  searchTerm?: string
+}
+
+export type PublishFormTemplateBodyDto = Pick<
+  FormTemplateBase,
+  'title' | 'description' | 'category'
+> & {
+  formId: string
+}
+
+export type UpdateFormTemplateBodyDto = Partial<
+  Pick<FormTemplateBase, 'title' | 'description' | 'category'>
+>
@@ -0,0 +1,28 @@
+/**
+ * Languages which forms can be translated into. The values follow the locales
+ * of the frontend, and English is the language the form is created in.
+ */
+export enum Language {
+  English = 'en-SG',
+  Chinese = 'zh-SG',
+  Malay = 'ms-SG',
+  Tamil = 'ta-SG',
+}
+
+/**
+ * Translation of a piece of text of the form into a language other than
+ * English.
+ */
+export type TranslationMapping = {
+  language: Language
+  translation: string
+}
+
+/**
+ * Translation of the options of a field into a language other than English,
+ * in the same order as the options of the field.
+ */
+export type TranslationOptionMapping = {
+  language: Language
+  translation: string[]
+}
@@ -1,7 +1,11 @@
 export * from './form'
+export * from './form_audit_log'
 export * from './form_auth'
+export * from './form_draft'
 export * from './form_feedback'
 export * from './form_issue'
 export * from './form_logic'
 export * from './form_logo'
 export * from './form_issue'
+export * from './form_template'
+export * from './form_translation'
@@ -12,3 +12,5 @@ export * from './utils'
 export * from './payment'
 export * from './admin_feedback'
 export * from './converter'
+export * from './webhook'
+export * from './insights'
@@ -0,0 +1,40 @@
+import { BasicField } from './field'
+
+export type FormInsightsQueryDto = {
+  startDate?: string
+  endDate?: string
+}
+
+export type SubmissionsOverTime = {
+  /** Date in Singapore time, in YYYY-MM-DD format. */
+  date: string
+  count: number
+}[]
+
+export type AnswerDistribution = {
+  fieldId: string
+  title: string
+  fieldType: BasicField
+  answers: { answer: string; count: number }[]
+}
+
+export type FormInsightsDto = {
+  submissionCount: number
+  submissionsOverTime: SubmissionsOverTime
+  /**
+   * Median time taken to complete the form, across the submissions which
+   * recorded it. Null if no submission recorded it.
+   */
+  medianCompletionTimeMs: number | null
+  averageVisibleFieldsCount: number | null
+  /** Number of times the public form was loaded. */
+  viewCount: number
+  /** Ratio of submissions to views, or null if no views were recorded. */
+  conversionRate: number | null
+  /**
+   * Distributions of the answers to choice fields since they started being
+   * recorded, regardless of the date range. Only recorded for email mode
+   * forms, as the answers of storage mode forms are encrypted.
+   */
+  answerDistributions?: AnswerDistribution[]
+}
@@ -20,7 +20,18 @@ export enum PaymentChannel {
 export enum PaymentType {
   Fixed = 'Fixed',
   Variable = 'Variable',
-  // Products = 'Products'
+  Products = 'Products',
+}
+
+/**
+ * A product bought in a payment, with the name and unit price of the product
+ * at the time of payment.
+ */
+export type PaymentLineItem = {
+  productId: string
+  name: string
+  amount_cents: number
+  quantity: number
 }
 
 export type CompletedPaymentMeta = {
@@ -30,6 +41,18 @@ export type CompletedPaymentMeta = {
   receiptUrl: string
 }
 
+/**
+ * A refund issued by an admin of the form, kept as an audit trail.
+ */
+export type PaymentRefund = {
+  refundId: string
+  amount: number
+  reason?: string
+  // Email of the admin who issued the refund
+  refundedBy: string
+  created: Date
+}
+
 export type PayoutMeta = {
   payoutId: string
   payoutDate: Date
@@ -44,6 +67,8 @@ export type Payment = {
   amount: number
   paymentIntentId: string
   gstEnabled: boolean
+  // Products bought, for payments of product catalogue forms
+  products?: PaymentLineItem[]
 
   // Payment status tracking
   webhookLog: Stripe.Event[]
@@ -53,6 +78,9 @@ export type Payment = {
   // Completed payment metadata
   completedPayment?: CompletedPaymentMeta
 
+  // Refunds issued by admins
+  refunds?: PaymentRefund[]
+
   // Payout metadata
   payout?: PayoutMeta
 
@@ -62,6 +90,12 @@ export type Payment = {
 
 export type PaymentDto = Payment & { _id: string }
 
+export type PaymentRefundBodyDto = {
+  // Amount to refund in cents, or the whole remaining amount if not given
+  amount?: number
+  reason?: string
+}
+
 export type PaymentReceiptStatusDto = {
   isReady: boolean
 }
@@ -78,6 +112,64 @@ export type IncompletePaymentsDto = {
   paymentId: string
 }[]
 
+export enum PaymentsReportFormat {
+  Json = 'json',
+  Csv = 'csv',
+}
+
+export type PaymentsReportQueryDto = {
+  startDate?: string
+  endDate?: string
+  format?: PaymentsReportFormat
+  // Whether to compare each payment against its state on Stripe
+  verifyWithStripe?: boolean
+}
+
+export type PaymentsReportLine = {
+  paymentId: string
+  submissionId?: string
+  email: string
+  status: PaymentStatus
+  // All amounts are in cents
+  amount: number
+  gstEnabled: boolean
+  transactionFee?: number
+  refundedAmount: number
+  paymentDate?: DateString
+  payoutId?: string
+  payoutDate?: DateString
+  created: DateString
+
+  // Only set when the report is verified with Stripe
+  stripeStatus?: PaymentStatus
+  stripeRefundedAmount?: number
+  mismatch?: boolean
+  verificationError?: string
+}
+
+export type PaymentsReportSummary = {
+  count: number
+  countByStatus: Partial<Record<PaymentStatus, number>>
+  // Totals in cents, over payments which have been paid
+  totalAmount: number
+  totalRefunded: number
+  totalTransactionFees: number
+  netAmount: number
+
+  // Only set when the report is verified with Stripe
+  mismatchCount?: number
+  unverifiedCount?: number
+}
+
+export type PaymentsReportDto = {
+  formId: string
+  startDate?: string
+  endDate?: string
+  generatedAt: DateString
+  summary: PaymentsReportSummary
+  payments: PaymentsReportLine[]
+}
+
 export type ReconciliationEventsReportLine = {
   event: Stripe.Event
   error?: string
@@ -63,6 +63,11 @@ export const DecimalResponse = SingleAnswerResponse.extend({
 })
 export type DecimalResponse = z.infer<typeof DecimalResponse>
 
+export const CalculationResponse = SingleAnswerResponse.extend({
+  fieldType: z.literal(BasicField.Calculation),
+})
+export type CalculationResponse = z.infer<typeof CalculationResponse>
+
 export const ShortTextResponse = MyInfoableSingleResponse.extend({
   fieldType: z.literal(BasicField.ShortText),
 })
@@ -159,3 +164,4 @@ export type FieldResponse =
   | TableResponse
   | UenResponse
   | ChildBirthRecordsResponse
+  | CalculationResponse
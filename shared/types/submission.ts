@@ -4,8 +4,18 @@ import { z } from 'zod'
 import { ErrorDto } from './core'
 import { FormFieldDto, MyInfoAttribute, PaymentFieldsDto } from './field'
 import { FormAuthType } from './form/form'
+import { Language } from './form/form_translation'
 import { DateString } from './generic'
-import { EmailResponse, FieldResponse, MobileResponse } from './response'
+import {
+  CalculationResponse,
+  CheckboxResponse,
+  DecimalResponse,
+  EmailResponse,
+  FieldResponse,
+  MobileResponse,
+  NumberResponse,
+  RatingResponse,
+} from './response'
 import { PaymentStatus } from './payment'
 export type SubmissionId = Opaque<string, 'SubmissionId'>
 export const SubmissionId = z.string() as unknown as z.Schema<SubmissionId>
@@ -15,9 +25,22 @@ export enum SubmissionType {
   Encrypt = 'encryptSubmission',
 }
 
+/**
+ * Time spent by the respondent on a page of a multi-page form.
+ */
+export const PageResponseMetadata = z.object({
+  /** Id of the section which starts the page, absent for the first page if it does not start with a section. */
+  sectionId: z.string().optional(),
+  timeSpentMs: z.number(),
+})
+
+export type PageResponseMetadata = z.infer<typeof PageResponseMetadata>
+
 export const ResponseMetadata = z.object({
   responseTimeMs: z.number(),
   numVisibleFields: z.number(),
+  /** Pages visited by the respondent, only present for multi-page forms. */
+  pages: z.array(PageResponseMetadata).optional(),
 })
 
 export type ResponseMetadata = z.infer<typeof ResponseMetadata>
@@ -28,6 +51,8 @@ export const SubmissionBase = z.object({
   myInfoFields: z.array(z.nativeEnum(MyInfoAttribute)).optional(),
   submissionType: z.nativeEnum(SubmissionType),
   responseMetadata: ResponseMetadata.optional(),
+  /** Language the respondent filled in the form in, absent for English. */
+  language: z.nativeEnum(Language).optional(),
 })
 export type SubmissionBase = z.infer<typeof SubmissionBase>
 
@@ -44,12 +69,18 @@ export interface EmailModeSubmissionBase extends SubmissionBase {
 
 export const WebhookResponse = z.object({
   webhookUrl: z.string(),
+  /** Id of the additional endpoint sent to, absent for the primary webhook URL. */
+  endpointId: z.string().optional(),
   signature: z.string(),
   response: z.object({
     status: z.number(),
     headers: z.string(),
     data: z.string(),
   }),
+  /** Time taken for the webhook endpoint to respond, absent for older records. */
+  latencyMs: z.number().optional(),
+  /** Time of the next retry scheduled after this attempt, if any. */
+  nextAttemptAt: z.date().optional(),
 })
 
 export type WebhookResponse = z.infer<typeof WebhookResponse>
@@ -84,6 +115,17 @@ export const SubmissionPaymentDto = z.object({
 
   payoutId: z.string().optional(),
   payoutDate: z.string().optional(),
+
+  refunds: z
+    .array(
+      z.object({
+        amount: z.number(),
+        reason: z.string().optional(),
+        refundedBy: z.string(),
+        created: z.string(),
+      }),
+    )
+    .optional(),
 })
 export type SubmissionPaymentDto = z.infer<typeof SubmissionPaymentDto>
 
@@ -164,6 +206,7 @@ export type FormSubmissionMetadataQueryDto = RequireAtLeastOne<
  */
 export type EmailModeSubmissionContentDto = {
   responses: FieldResponse[]
+  language?: Language
 }
 
 export type StorageModeAttachment = {
@@ -183,15 +226,25 @@ export type StorageModeSubmissionContentDto = {
   // Storage mode only allows
   // 1. verifiable responses in order to validate signatures.
   // 2. email fields with autoreply to send form fillers their response.
-  responses: Pick<
-    EmailResponse | MobileResponse,
-    'fieldType' | '_id' | 'answer' | 'signature'
-  >[]
+  // 3. the calculation field giving the payment amount and the fields it
+  // references, in order to verify the payment amount.
+  responses: (
+    | Pick<
+        EmailResponse | MobileResponse,
+        'fieldType' | '_id' | 'answer' | 'signature'
+      >
+    | Pick<
+        CalculationResponse | NumberResponse | DecimalResponse | RatingResponse,
+        'fieldType' | '_id' | 'answer'
+      >
+    | Pick<CheckboxResponse, 'fieldType' | '_id' | 'answerArray'>
+  )[]
   encryptedContent: string
   attachments?: StorageModeAttachmentsMap
   paymentReceiptEmail?: string
   version: number
   responseMetadata?: ResponseMetadata
+  language?: Language
   payments?: PaymentFieldsDto
 }
 
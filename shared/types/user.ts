@@ -6,11 +6,53 @@ import { AgencyBase, AgencyDto, PublicAgencyDto } from './agency'
 
 export type UserId = Opaque<string, 'UserId'>
 
+export enum ApiKeyScope {
+  // List forms and retrieve form definitions and settings.
+  FormsRead = 'forms:read',
+  // Create, duplicate, edit and archive forms.
+  FormsWrite = 'forms:write',
+  // Count and download (encrypted) responses.
+  ResponsesRead = 'responses:read',
+}
+
+export enum UserRole {
+  // Administers agencies across the application. Only assignable directly in
+  // the database.
+  SuperAdmin = 'SUPER_ADMIN',
+  // Oversees the forms owned by users of their own agency, with the same
+  // permissions as the owners of the forms. Assigned by super-admins.
+  AgencyAdmin = 'AGENCY_ADMIN',
+}
+
+export const ApiKeyBase = z.object({
+  name: z.string(),
+  keyHash: z.string(),
+  scopes: z.array(z.nativeEnum(ApiKeyScope)),
+  // If non-empty, the key can only be used on these forms.
+  formIds: z.array(z.string()).optional(),
+  createdAt: z.date(),
+  expiresAt: z.date().optional(),
+  revokedAt: z.date().optional(),
+  lastUsedAt: z.date().optional(),
+})
+export type ApiKeyBase = z.infer<typeof ApiKeyBase>
+
+// The key hash is never returned to the client.
+export const ApiKeyDto = ApiKeyBase.omit({ keyHash: true }).extend({
+  _id: z.string(),
+  createdAt: DateString,
+  expiresAt: DateString.optional(),
+  revokedAt: DateString.optional(),
+  lastUsedAt: DateString.optional(),
+})
+export type ApiKeyDto = z.infer<typeof ApiKeyDto>
+
 // Base used for being referenced by schema/model in the backend.
 // Note the lack of typing of _id.
 export const UserBase = z.object({
   email: z.string().email(),
   agency: AgencyBase.shape._id,
+  role: z.nativeEnum(UserRole).optional(),
   betaFlags: z
     .object({
       payment: z.boolean().optional(),
@@ -31,6 +73,7 @@ export const UserBase = z.object({
       lastUsedAt: z.date().optional(),
     })
     .optional(),
+  apiKeys: z.array(ApiKeyBase).optional(),
 })
 export type UserBase = z.infer<typeof UserBase>
 
@@ -44,9 +87,23 @@ export const UserDto = UserBase.extend({
   created: DateString,
   lastAccessed: DateString.optional(),
   updatedAt: DateString,
+  apiKeys: z.array(ApiKeyDto).optional(),
 })
 export type UserDto = z.infer<typeof UserDto>
 
+export type CreateApiKeyBodyDto = {
+  name: string
+  scopes: ApiKeyScope[]
+  formIds?: string[]
+  expiresAt?: DateString
+}
+
+// The plaintext key is only ever returned once, on creation or rotation.
+export type CreatedApiKeyDto = {
+  apiKey: ApiKeyDto
+  token: string
+}
+
 export type PublicUserDto = {
   agency: PublicAgencyDto
 }
@@ -0,0 +1,117 @@
+import type { FormPermission, FormStatus } from './form/form'
+import { DateString } from './generic'
+import type { PaymentStatus } from './payment'
+import { SubmissionId } from './submission'
+
+export enum WebhookDeliveryStatus {
+  Success = 'SUCCESS',
+  PendingRetry = 'PENDING_RETRY',
+  Failed = 'FAILED',
+}
+
+/**
+ * Summary of the webhook attempts made for a single submission to a single
+ * endpoint.
+ */
+export type WebhookDeliveryDto = {
+  submissionId: SubmissionId
+  submissionTime: DateString
+  webhookUrl: string
+  /** Id of the additional endpoint sent to, absent for the primary webhook URL. */
+  endpointId?: string
+  status: WebhookDeliveryStatus
+  /** HTTP status of the latest attempt, or 0 if no response was received. */
+  responseStatus: number
+  latencyMs?: number
+  attemptCount: number
+  lastAttemptAt: DateString
+  nextAttemptAt?: DateString
+}
+
+export type WebhookDeliveriesQueryDto = {
+  limit?: number
+  /**
+   * Only list deliveries with this status. Failed deliveries will not be
+   * retried again, so form the dead-letter list of the form.
+   */
+  status?: WebhookDeliveryStatus
+}
+
+export type RedeliverWebhookBodyDto = {
+  endpointId?: string
+}
+
+export type RedeliverFailedWebhooksBodyDto = {
+  since: DateString
+}
+
+export type RedeliverWebhooksResponseDto = {
+  /** Number of submissions whose webhooks were queued for redelivery. */
+  count: number
+}
+
+/**
+ * Events other than new submissions which webhooks can be subscribed to.
+ */
+export enum WebhookEventType {
+  PaymentStatusChanged = 'payment.status_changed',
+  FormStatusChanged = 'form.status_changed',
+  CollaboratorsChanged = 'form.collaborators_changed',
+  SubmissionEmailBounced = 'submission.email_bounced',
+}
+
+export type PaymentStatusChangedEventPayload = {
+  paymentId: string
+  /** Absent if the payment was not completed with a submission. */
+  submissionId?: string
+  previousStatus: PaymentStatus
+  status: PaymentStatus
+  /** Amount paid, in cents. */
+  amount: number
+  /** Type of the Stripe event which changed the status, e.g. charge.refunded. */
+  stripeEventType: string
+}
+
+export type FormStatusChangedEventPayload = {
+  /**
+   * New status of the form. The form is opened when it becomes public, and
+   * closed when it becomes private.
+   */
+  status: FormStatus
+}
+
+export type CollaboratorsChangedEventPayload = {
+  collaborators: Pick<FormPermission, 'email' | 'write'>[]
+  added: string[]
+  removed: string[]
+}
+
+export type SubmissionEmailBouncedEventPayload = {
+  submissionId: string
+  /** Type of the email which bounced, e.g. an email confirmation. */
+  emailType: string
+  bounceType: string
+  bouncedRecipients: string[]
+}
+
+export type WebhookEventPayloads = {
+  [WebhookEventType.PaymentStatusChanged]: PaymentStatusChangedEventPayload
+  [WebhookEventType.FormStatusChanged]: FormStatusChangedEventPayload
+  [WebhookEventType.CollaboratorsChanged]: CollaboratorsChangedEventPayload
+  [WebhookEventType.SubmissionEmailBounced]: SubmissionEmailBouncedEventPayload
+}
+
+/**
+ * Body of an event webhook, under the data key. Event webhooks are signed in
+ * the same way as submission webhooks, with the event id in place of the
+ * submission id.
+ */
+export type WebhookEventDto<T extends WebhookEventType = WebhookEventType> = {
+  [K in T]: {
+    eventId: string
+    type: K
+    formId: string
+    created: DateString
+    payload: WebhookEventPayloads[K]
+  }
+}[T]
@@ -0,0 +1,171 @@
+import { BasicField } from '../../types/field'
+import { FormPaymentsField } from '../../types/form/form'
+import { PaymentType } from '../../types/payment'
+import {
+  evaluateFormula,
+  formatCalculationResult,
+  getCalculationSourceValue,
+  getFormulaFieldIds,
+  getPaymentCalculationFieldIds,
+  validateFormula,
+} from '../calculation'
+
+describe('calculation', () => {
+  describe('validateFormula', () => {
+    it('should accept valid formulas', () => {
+      const validFormulas = [
+        '1 + 2',
+        '{a} * 1.5',
+        '-{a} + -(2 - {b})',
+        '({a} + {b}) / ({c} - .5)',
+        '{weight} / ({height} * {height})',
+      ]
+      validFormulas.forEach((formula) =>
+        expect(validateFormula(formula)).toBeUndefined(),
+      )
+    })
+
+    it('should reject invalid formulas', () => {
+      const invalidFormulas = [
+        '',
+        '   ',
+        '1 +',
+        '* 2',
+        '(1 + 2',
+        '1 + 2)',
+        '1 2',
+        '{}',
+        '{a',
+        '1..2',
+        '2 ^ 3',
+      ]
+      invalidFormulas.forEach((formula) =>
+        expect(validateFormula(formula)).toEqual(expect.any(String)),
+      )
+    })
+  })
+
+  describe('getFormulaFieldIds', () => {
+    it('should return unique field ids referenced in the formula', () => {
+      expect(getFormulaFieldIds('{a} + { b } * {a} - 3')).toEqual(['a', 'b'])
+    })
+
+    it('should return an empty array if no fields are referenced', () => {
+      expect(getFormulaFieldIds('1 + 2')).toEqual([])
+    })
+  })
+
+  describe('evaluateFormula', () => {
+    it('should respect operator precedence and parentheses', () => {
+      expect(evaluateFormula('1 + 2 * 3', {})).toEqual(7)
+      expect(evaluateFormula('(1 + 2) * 3', {})).toEqual(9)
+      expect(evaluateFormula('8 / 4 / 2', {})).toEqual(1)
+      expect(evaluateFormula('10 - 4 - 3', {})).toEqual(3)
+      expect(evaluateFormula('-2 * -(3 + 1)', {})).toEqual(8)
+    })
+
+    it('should substitute field values', () => {
+      expect(
+        evaluateFormula('{weight} / ({height} * {height})', {
+          weight: 81,
+          height: 1.8,
+        }),
+      ).toBeCloseTo(25)
+    })
+
+    it('should treat fields without values as 0', () => {
+      expect(evaluateFormula('{a} + {b}', { a: 2 })).toEqual(2)
+    })
+
+    it('should return null on division by zero', () => {
+      expect(evaluateFormula('{a} / {b}', { a: 2 })).toBeNull()
+    })
+
+    it('should return null for invalid formulas', () => {
+      expect(evaluateFormula('1 +', {})).toBeNull()
+    })
+  })
+
+  describe('formatCalculationResult', () => {
+    it('should round to the given number of decimal places', () => {
+      expect(formatCalculationResult(1 / 3, 2)).toEqual('0.33')
+      expect(formatCalculationResult(2.5, 0)).toEqual('3')
+      expect(formatCalculationResult(2, 1)).toEqual('2.0')
+    })
+
+    it('should not return negative zero', () => {
+      expect(formatCalculationResult(-0.001, 2)).toEqual('0.00')
+    })
+
+    it('should return an empty string if there is no result', () => {
+      expect(formatCalculationResult(null, 2)).toEqual('')
+    })
+  })
+
+  describe('getCalculationSourceValue', () => {
+    it('should return the number of selected options for checkbox fields', () => {
+      expect(
+        getCalculationSourceValue(BasicField.Checkbox, ['a', 'b']),
+      ).toEqual(2)
+      expect(getCalculationSourceValue(BasicField.Checkbox, [])).toEqual(0)
+    })
+
+    it('should return numeric answers of other fields', () => {
+      expect(getCalculationSourceValue(BasicField.Decimal, '1.5')).toEqual(1.5)
+      expect(getCalculationSourceValue(BasicField.Rating, '4')).toEqual(4)
+    })
+
+    it('should return undefined for unanswered or non-numeric answers', () => {
+      expect(getCalculationSourceValue(BasicField.Number, '')).toBeUndefined()
+      expect(
+        getCalculationSourceValue(BasicField.Number, 'abc'),
+      ).toBeUndefined()
+      expect(
+        getCalculationSourceValue(BasicField.Number, undefined),
+      ).toBeUndefined()
+    })
+
+    it('should return undefined for fields that cannot be referenced', () => {
+      expect(
+        getCalculationSourceValue(BasicField.ShortText, '1'),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('getPaymentCalculationFieldIds', () => {
+    const formFields = [
+      { _id: 'calc', fieldType: BasicField.Calculation, formula: '{a} * {b}' },
+      { _id: 'a', fieldType: BasicField.Number },
+      { _id: 'b', fieldType: BasicField.ShortText },
+    ]
+    const paymentsField = {
+      enabled: true,
+      payment_type: PaymentType.Variable,
+      min_amount: 100,
+      max_amount: 10000,
+      calculation_field_id: 'calc',
+    } as FormPaymentsField
+
+    it('should return the calculation field and its existing source fields', () => {
+      expect(getPaymentCalculationFieldIds(formFields, paymentsField)).toEqual([
+        'calc',
+        'a',
+      ])
+    })
+
+    it('should return an empty array if the payment amount is not calculated', () => {
+      expect(
+        getPaymentCalculationFieldIds(formFields, {
+          ...paymentsField,
+          calculation_field_id: undefined,
+        } as FormPaymentsField),
+      ).toEqual([])
+      expect(
+        getPaymentCalculationFieldIds(formFields, {
+          ...paymentsField,
+          enabled: false,
+        }),
+      ).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { CollaboratorRole, FormPermissionScope } from '../../types/form/form'
+import {
+  getCollaboratorRole,
+  hasCollaboratorRoleAccess,
+  isWriteRole,
+} from '../collaborator-roles'
+
+describe('collaborator-roles', () => {
+  describe('getCollaboratorRole', () => {
+    it('should return the role of the collaborator', () => {
+      expect(
+        getCollaboratorRole({
+          write: false,
+          role: CollaboratorRole.ResponsesViewer,
+        }),
+      ).toEqual(CollaboratorRole.ResponsesViewer)
+    })
+
+    it('should derive the role of collaborators without a role from write', () => {
+      expect(getCollaboratorRole({ write: true })).toEqual(
+        CollaboratorRole.Editor,
+      )
+      expect(getCollaboratorRole({ write: false })).toEqual(
+        CollaboratorRole.Viewer,
+      )
+    })
+  })
+
+  describe('isWriteRole', () => {
+    it('should return true for roles which can make changes', () => {
+      expect(isWriteRole(CollaboratorRole.Editor)).toEqual(true)
+      expect(isWriteRole(CollaboratorRole.SettingsManager)).toEqual(true)
+      expect(isWriteRole(CollaboratorRole.PaymentManager)).toEqual(true)
+    })
+
+    it('should return false for view only roles', () => {
+      expect(isWriteRole(CollaboratorRole.Viewer)).toEqual(false)
+      expect(isWriteRole(CollaboratorRole.ResponsesViewer)).toEqual(false)
+    })
+  })
+
+  describe('hasCollaboratorRoleAccess', () => {
+    it('should allow editors to read and write every scope', () => {
+      Object.values(FormPermissionScope).forEach((scope) => {
+        expect(
+          hasCollaboratorRoleAccess(CollaboratorRole.Editor, scope, false),
+        ).toEqual(true)
+        expect(
+          hasCollaboratorRoleAccess(CollaboratorRole.Editor, scope, true),
+        ).toEqual(true)
+      })
+    })
+
+    it('should only allow responses viewers to read', () => {
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.ResponsesViewer,
+          FormPermissionScope.Responses,
+          false,
+        ),
+      ).toEqual(true)
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.ResponsesViewer,
+          FormPermissionScope.Payments,
+          false,
+        ),
+      ).toEqual(false)
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.ResponsesViewer,
+          FormPermissionScope.Responses,
+          true,
+        ),
+      ).toEqual(false)
+    })
+
+    it('should not allow editors without responses to read responses', () => {
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.EditorWithoutResponses,
+          FormPermissionScope.Build,
+          true,
+        ),
+      ).toEqual(true)
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.EditorWithoutResponses,
+          FormPermissionScope.Responses,
+          false,
+        ),
+      ).toEqual(false)
+    })
+
+    it('should only allow settings and payment managers to write their scope', () => {
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.SettingsManager,
+          FormPermissionScope.Settings,
+          true,
+        ),
+      ).toEqual(true)
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.SettingsManager,
+          FormPermissionScope.Build,
+          true,
+        ),
+      ).toEqual(false)
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.PaymentManager,
+          FormPermissionScope.Payments,
+          true,
+        ),
+      ).toEqual(true)
+      expect(
+        hasCollaboratorRoleAccess(
+          CollaboratorRole.PaymentManager,
+          FormPermissionScope.Settings,
+          true,
+        ),
+      ).toEqual(false)
+    })
+  })
+})
@@ -0,0 +1,63 @@
+import { Language } from '../../types/form/form_translation'
+import { getOptionsTranslation, getTranslation } from '../translation'
+
+describe('translation', () => {
+  describe('getTranslation', () => {
+    const TRANSLATIONS = [
+      { language: Language.Chinese, translation: '你好' },
+      { language: Language.Malay, translation: '' },
+    ]
+
+    it('should return the translation in the given language', () => {
+      expect(getTranslation('Hello', TRANSLATIONS, Language.Chinese)).toEqual(
+        '你好',
+      )
+    })
+
+    it('should return the original content for English or no language', () => {
+      expect(getTranslation('Hello', TRANSLATIONS, Language.English)).toEqual(
+        'Hello',
+      )
+      expect(getTranslation('Hello', TRANSLATIONS, undefined)).toEqual('Hello')
+    })
+
+    it('should fall back to the original content when there is no translation', () => {
+      expect(getTranslation('Hello', TRANSLATIONS, Language.Malay)).toEqual(
+        'Hello',
+      )
+      expect(getTranslation('Hello', TRANSLATIONS, Language.Tamil)).toEqual(
+        'Hello',
+      )
+      expect(getTranslation('Hello', undefined, Language.Chinese)).toEqual(
+        'Hello',
+      )
+    })
+  })
+
+  describe('getOptionsTranslation', () => {
+    const OPTIONS = ['Yes', 'No', 'Maybe']
+
+    it('should return the translated options, falling back to untranslated options', () => {
+      const translations = [
+        { language: Language.Chinese, translation: ['是', '', '也许'] },
+      ]
+
+      expect(
+        getOptionsTranslation(OPTIONS, translations, Language.Chinese),
+      ).toEqual(['是', 'No', '也许'])
+    })
+
+    it('should return the original options when there is no translation', () => {
+      expect(getOptionsTranslation(OPTIONS, [], Language.Tamil)).toEqual(
+        OPTIONS,
+      )
+      expect(
+        getOptionsTranslation(
+          OPTIONS,
+          [{ language: Language.Chinese, translation: ['是'] }],
+          Language.English,
+        ),
+      ).toEqual(OPTIONS)
+    })
+  })
+})
@@ -0,0 +1,305 @@
+import { BasicField } from '../types/field'
+import { FormPaymentsField } from '../types/form/form'
+import { PaymentType } from '../types/payment'
+
+/**
+ * Utilities for the formulas of calculation fields. Formulas are arithmetic
+ * expressions over numbers and other fields, which are referenced by their ids
+ * in curly braces, e.g. `({fieldA} + {fieldB}) * 1.5`.
+ *
+ * Supported operators are `+`, `-`, `*` and `/`, with the usual precedence,
+ * unary minus and parentheses.
+ */
+
+/**
+ * Field types whose answers can be referenced in a formula. Checkbox fields
+ * evaluate to the number of options selected.
+ */
+export const CALCULATION_SOURCE_FIELDS = [
+  BasicField.Number,
+  BasicField.Decimal,
+  BasicField.Rating,
+  BasicField.Checkbox,
+]
+
+export const MAX_CALCULATION_DECIMAL_PLACES = 10
+
+const FIELD_REFERENCE_REGEX = /\{([^{}]+)\}/g
+
+type Operator = '+' | '-' | '*' | '/'
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'field'; fieldId: string }
+  | { type: 'operator'; value: Operator }
+  | { type: 'paren'; value: '(' | ')' }
+
+type Expression =
+  | { type: 'number'; value: number }
+  | { type: 'field'; fieldId: string }
+  | { type: 'negate'; operand: Expression }
+  | {
+      type: 'binary'
+      operator: Operator
+      left: Expression
+      right: Expression
+    }
+
+class FormulaSyntaxError extends Error {
+  constructor(message: string) {
+    super(message)
+    // Restore the prototype chain, which is lost when targeting ES5.
+    Object.setPrototypeOf(this, FormulaSyntaxError.prototype)
+  }
+}
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < formula.length) {
+    const char = formula[i]
+    if (/\s/.test(char)) {
+      i++
+    } else if (/[\d.]/.test(char)) {
+      const match = /^\d*\.?\d+|^\d+\.?/.exec(formula.slice(i))
+      if (!match) throw new FormulaSyntaxError(`Invalid number at ${i + 1}`)
+      tokens.push({ type: 'number', value: Number(match[0]) })
+      i += match[0].length
+    } else if (char === '{') {
+      const end = formula.indexOf('}', i)
+      const fieldId = formula.slice(i + 1, end).trim()
+      if (end === -1 || !fieldId) {
+        throw new FormulaSyntaxError(`Invalid field reference at ${i + 1}`)
+      }
+      tokens.push({ type: 'field', fieldId })
+      i = end + 1
+    } else if (char === '+' || char === '-' || char === '*' || char === '/') {
+      tokens.push({ type: 'operator', value: char })
+      i++
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char })
+      i++
+    } else {
+      throw new FormulaSyntaxError(`Unexpected character "${char}"`)
+    }
+  }
+  return tokens
+}
+
+/**
+ * Recursive descent parser for the grammar
+ * expression := term (('+' | '-') term)*
+ * term := factor (('*' | '/') factor)*
+ * factor := '-' factor | number | field | '(' expression ')'
+ */
+const parse = (tokens: Token[]): Expression => {
+  let position = 0
+
+  const peek = () => tokens[position]
+
+  const parseFactor = (): Expression => {
+    const token = tokens[position++]
+    if (!token) throw new FormulaSyntaxError('Unexpected end of formula')
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value }
+      case 'field':
+        return { type: 'field', fieldId: token.fieldId }
+      case 'operator':
+        if (token.value === '-') {
+          return { type: 'negate', operand: parseFactor() }
+        }
+        throw new FormulaSyntaxError(`Unexpected operator "${token.value}"`)
+      case 'paren': {
+        if (token.value === ')') {
+          throw new FormulaSyntaxError('Unexpected ")"')
+        }
+        const expression = parseExpression()
+        const closing = tokens[position++]
+        if (closing?.type !== 'paren' || closing.value !== ')') {
+          throw new FormulaSyntaxError('Missing ")"')
+        }
+        return expression
+      }
+    }
+  }
+
+  const parseBinary = (
+    operators: Operator[],
+    parseOperand: () => Expression,
+  ): Expression => {
+    let left = parseOperand()
+    let token = peek()
+    while (token?.type === 'operator' && operators.includes(token.value)) {
+      position++
+      left = {
+        type: 'binary',
+        operator: token.value,
+        left,
+        right: parseOperand(),
+      }
+      token = peek()
+    }
+    return left
+  }
+
+  const parseTerm = () => parseBinary(['*', '/'], parseFactor)
+  const parseExpression = (): Expression => parseBinary(['+', '-'], parseTerm)
+
+  const expression = parseExpression()
+  if (position < tokens.length) {
+    throw new FormulaSyntaxError('Unexpected token after end of formula')
+  }
+  return expression
+}
+
+const evaluate = (
+  expression: Expression,
+  values: Record<string, number>,
+): number => {
+  switch (expression.type) {
+    case 'number':
+      return expression.value
+    case 'field':
+      // Fields which are unanswered or hidden do not contribute to the result.
+      return values[expression.fieldId] ?? 0
+    case 'negate':
+      return -evaluate(expression.operand, values)
+    case 'binary': {
+      const left = evaluate(expression.left, values)
+      const right = evaluate(expression.right, values)
+      switch (expression.operator) {
+        case '+':
+          return left + right
+        case '-':
+          return left - right
+        case '*':
+          return left * right
+        case '/':
+          return left / right
+      }
+    }
+  }
+}
+
+/**
+ * Returns the ids of the fields referenced in the given formula, without
+ * duplicates.
+ */
+export const getFormulaFieldIds = (formula: string): string[] => {
+  const references = formula.match(FIELD_REFERENCE_REGEX) ?? []
+  return references
+    .map((reference) => reference.slice(1, -1).trim())
+    .filter((fieldId, index, fieldIds) => fieldIds.indexOf(fieldId) === index)
+}
+
+/**
+ * Checks the syntax of the given formula.
+ * @returns the reason the formula is invalid, or undefined if it is valid
+ */
+export const validateFormula = (formula: string): string | undefined => {
+  try {
+    const tokens = tokenize(formula)
+    if (tokens.length === 0) return 'Formula is empty'
+    parse(tokens)
+    return undefined
+  } catch (e) {
+    if (e instanceof FormulaSyntaxError) return e.message
+    throw e
+  }
+}
+
+/**
+ * Evaluates the given formula.
+ * @param formula the formula to evaluate
+ * @param values the numeric values of the fields referenced in the formula, keyed by field id. Fields without values evaluate to 0.
+ * @returns the result, or null if the formula is invalid or the result is not a finite number (e.g. on division by zero)
+ */
+export const evaluateFormula = (
+  formula: string,
+  values: Record<string, number>,
+): number | null => {
+  try {
+    const result = evaluate(parse(tokenize(formula)), values)
+    return Number.isFinite(result) ? result : null
+  } catch (e) {
+    if (e instanceof FormulaSyntaxError) return null
+    throw e
+  }
+}
+
+/**
+ * Formats the result of a formula as the answer of a calculation field.
+ * @returns the result rounded to the given number of decimal places, or an empty string if there is no result
+ */
+export const formatCalculationResult = (
+  result: number | null,
+  decimalPlaces: number,
+): string => {
+  if (result === null) return ''
+  const rounded = result.toFixed(decimalPlaces)
+  // Avoid negative zero, e.g. when -0.001 is rounded to 2 decimal places.
+  return Number(rounded) === 0 ? (0).toFixed(decimalPlaces) : rounded
+}
+
+/**
+ * Converts the answer of a field into the value it takes in a formula.
+ * @param fieldType the type of the field answered
+ * @param answer the answer, or the selected options for checkbox fields
+ * @returns the numeric value, or undefined if the field cannot be referenced in formulas, is unanswered or the answer is not numeric
+ */
+export const getCalculationSourceValue = (
+  fieldType: BasicField,
+  answer: string | string[] | null | undefined,
+): number | undefined => {
+  if (!CALCULATION_SOURCE_FIELDS.includes(fieldType)) return undefined
+  if (fieldType === BasicField.Checkbox) {
+    return Array.isArray(answer) ? answer.length : undefined
+  }
+  if (typeof answer !== 'string' || answer.trim() === '') return undefined
+  const value = Number(answer)
+  return Number.isFinite(value) ? value : undefined
+}
+
+type FieldWithFormula = {
+  _id?: unknown
+  fieldType: BasicField
+  formula?: string
+}
+
+/**
+ * Returns the ids of the calculation field which gives the payment amount of a
+ * form, and of the existing fields referenced in its formula. The responses to
+ * these fields are sent in plaintext in storage mode, so that the payment
+ * amount can be verified by the server.
+ * @returns the field ids, or an empty array if the payment amount is not calculated
+ */
+export const getPaymentCalculationFieldIds = (
+  formFields: FieldWithFormula[],
+  paymentsField?: FormPaymentsField,
+): string[] => {
+  if (
+    !paymentsField?.enabled ||
+    paymentsField.payment_type !== PaymentType.Variable ||
+    !paymentsField.calculation_field_id
+  ) {
+    return []
+  }
+  const { calculation_field_id } = paymentsField
+  const calculationField = formFields.find(
+    (field) =>
+      String(field._id) === calculation_field_id &&
+      field.fieldType === BasicField.Calculation,
+  )
+  if (!calculationField) return []
+  const sourceFieldIds = getFormulaFieldIds(
+    calculationField.formula ?? '',
+  ).filter((fieldId) =>
+    formFields.some(
+      (field) =>
+        String(field._id) === fieldId &&
+        CALCULATION_SOURCE_FIELDS.includes(field.fieldType),
+    ),
+  )
+  return [calculation_field_id].concat(sourceFieldIds)
+}
@@ -0,0 +1,102 @@
+import {
+  CollaboratorRole,
+  FormPermission,
+  FormPermissionScope,
+} from '../types/form/form'
+
+export type CollaboratorRoleAccess = {
+  read: FormPermissionScope[]
+  write: FormPermissionScope[]
+}
+
+const ALL_SCOPES = Object.values(FormPermissionScope)
+
+/**
+ * Scopes of the form which each collaborator role can read and write. Every
+ * role can read the form itself, its settings and its collaborators, which
+ * are needed to display the form to the collaborator.
+ */
+export const COLLABORATOR_ROLE_ACCESS: Record<
+  CollaboratorRole,
+  CollaboratorRoleAccess
+> = {
+  [CollaboratorRole.Editor]: {
+    read: ALL_SCOPES,
+    write: ALL_SCOPES,
+  },
+  [CollaboratorRole.Viewer]: {
+    read: ALL_SCOPES,
+    write: [],
+  },
+  [CollaboratorRole.ResponsesViewer]: {
+    read: [
+      FormPermissionScope.Build,
+      FormPermissionScope.Settings,
+      FormPermissionScope.Collaborators,
+      FormPermissionScope.Responses,
+    ],
+    write: [],
+  },
+  [CollaboratorRole.EditorWithoutResponses]: {
+    read: [
+      FormPermissionScope.Build,
+      FormPermissionScope.Settings,
+      FormPermissionScope.Collaborators,
+      FormPermissionScope.Payments,
+    ],
+    write: [
+      FormPermissionScope.Build,
+      FormPermissionScope.Settings,
+      FormPermissionScope.Payments,
+    ],
+  },
+  [CollaboratorRole.SettingsManager]: {
+    read: [
+      FormPermissionScope.Build,
+      FormPermissionScope.Settings,
+      FormPermissionScope.Collaborators,
+    ],
+    write: [FormPermissionScope.Settings],
+  },
+  [CollaboratorRole.PaymentManager]: {
+    read: [
+      FormPermissionScope.Build,
+      FormPermissionScope.Settings,
+      FormPermissionScope.Collaborators,
+      FormPermissionScope.Payments,
+    ],
+    write: [FormPermissionScope.Payments],
+  },
+}
+
+/**
+ * Returns the role of the given collaborator. Collaborators added before roles
+ * were introduced are editors if they have write access, and viewers
+ * otherwise.
+ */
+export const getCollaboratorRole = (
+  permission: Pick<FormPermission, 'write' | 'role'>,
+): CollaboratorRole =>
+  permission.role ??
+  (permission.write ? CollaboratorRole.Editor : CollaboratorRole.Viewer)
+
+/**
+ * Returns whether the given role can make any changes to the form, which is
+ * stored as the `write` flag of the collaborator.
+ */
+export const isWriteRole = (role: CollaboratorRole): boolean =>
+  COLLABORATOR_ROLE_ACCESS[role].write.length > 0
+
+/**
+ * Returns whether the given collaborator role grants access to the given scope
+ * of the form.
+ * @param role the role of the collaborator
+ * @param scope the scope of the form to access
+ * @param isWrite whether write access is required instead of read access
+ */
+export const hasCollaboratorRoleAccess = (
+  role: CollaboratorRole,
+  scope: FormPermissionScope,
+  isWrite: boolean,
+): boolean =>
+  COLLABORATOR_ROLE_ACCESS[role][isWrite ? 'write' : 'read'].includes(scope)
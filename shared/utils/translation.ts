@@ -0,0 +1,45 @@
+import {
+  Language,
+  TranslationMapping,
+  TranslationOptionMapping,
+} from '../types/form/form_translation'
+
+/**
+ * Returns the translation of a piece of form content into the given language,
+ * falling back to the original English content if it has not been translated.
+ * @param content the original English content
+ * @param translations the translations of the content, if any
+ * @param language the language to translate the content into
+ */
+export const getTranslation = (
+  content: string,
+  translations: TranslationMapping[] | undefined,
+  language: Language | undefined,
+): string => {
+  if (!language || language === Language.English) return content
+  const translation = translations?.find(
+    (mapping) => mapping.language === language,
+  )?.translation
+  return translation || content
+}
+
+/**
+ * Returns the translations of the options of a field into the given language.
+ * Each option falls back to the original English option if it has not been
+ * translated, so that the returned options always match the original options
+ * one to one.
+ * @param options the original English options
+ * @param translations the translations of the options, if any
+ * @param language the language to translate the options into
+ */
+export const getOptionsTranslation = (
+  options: string[],
+  translations: TranslationOptionMapping[] | undefined,
+  language: Language | undefined,
+): string[] => {
+  if (!language || language === Language.English) return options
+  const translation = translations?.find(
+    (mapping) => mapping.language === language,
+  )?.translation
+  return options.map((option, index) => translation?.[index] || option)
+}
@@ -0,0 +1,32 @@
+import convict, { Schema } from 'convict'
+
+export interface IDraftConfig {
+  secretKey: string
+  expiryDays: number
+  maxDraftsPerForm: number
+}
+
+const draftSchema: Schema<IDraftConfig> = {
+  secretKey: {
+    doc: 'The secret key for deriving the keys of drafts saved by authenticated respondents. Drafts cannot be saved for forms with authentication if unset',
+    format: String,
+    default: '',
+    env: 'DRAFT_SECRET_KEY',
+  },
+  expiryDays: {
+    doc: 'Number of days after which a saved draft expires',
+    format: 'int',
+    default: 30,
+    env: 'DRAFT_EXPIRY_DAYS',
+  },
+  maxDraftsPerForm: {
+    doc: 'Maximum number of unexpired drafts that can be saved for each form',
+    format: 'int',
+    default: 10000,
+    env: 'DRAFT_MAX_PER_FORM',
+  },
+}
+
+export const draftConfig = convict(draftSchema)
+  .validate({ allowed: 'strict' })
+  .getProperties()
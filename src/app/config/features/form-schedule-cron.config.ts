@@ -0,0 +1,17 @@
+import convict, { Schema } from 'convict'
+
+export interface FormScheduleCron {
+  apiSecret: string
+}
+const cronFormScheduleFeature: Schema<FormScheduleCron> = {
+  apiSecret: {
+    doc: 'Form schedule cron API secret key used by cronjobs to call protected routes',
+    format: String,
+    default: '',
+    env: 'CRON_FORM_SCHEDULE_API_SECRET',
+  },
+}
+
+export const cronFormScheduleConfig = convict(cronFormScheduleFeature)
+  .validate({ allowed: 'strict' })
+  .getProperties()
@@ -78,6 +78,8 @@ const FORM_DEFAULTS = {
     buttonText: 'Submit another response',
   },
   hasCaptcha: true,
+  isMultiPage: false,
+  supportedLanguages: [],
   form_fields: [],
   form_logics: [],
   permissionList: [],
@@ -87,6 +89,8 @@ const FORM_DEFAULTS = {
   },
   status: 'PRIVATE',
   submissionLimit: null,
+  opensAt: null,
+  closesAt: null,
   goLinkSuffix: '',
 }
 
@@ -5,6 +5,7 @@ import mongoose from 'mongoose'
 
 import { IFormIssue } from 'src/types'
 
+import { FormIssueStatus } from '../../../../shared/types'
 import getFormIssueModel from '../form_issue.server.model'
 
 const FormIssueModel = getFormIssueModel(mongoose)
@@ -19,6 +20,8 @@ describe('form_issue.server.model', () => {
       formId: new ObjectId(),
       issue: 'I am 200 years old but your age drop down is only cap at 100',
       email: 'email@me.com',
+      status: FormIssueStatus.New,
+      notes: [],
     }
 
     it('should create and save successfully', async () => {
@@ -52,6 +55,29 @@ describe('form_issue.server.model', () => {
       )
     })
 
+    it('should default to a new issue without notes when status and notes are missing', async () => {
+      // Arrange
+      const paramsWithoutTriage = omit(DEFAULT_PARAMS, ['status', 'notes'])
+
+      // Act
+      const actual = await FormIssueModel.create(paramsWithoutTriage)
+
+      // Assert
+      expect(actual.status).toEqual(FormIssueStatus.New)
+      expect(actual.notes).toHaveLength(0)
+    })
+
+    it('should throw validation error when status is invalid', async () => {
+      // Act
+      const actual = new FormIssueModel({
+        ...DEFAULT_PARAMS,
+        status: 'invalid',
+      }).save()
+
+      // Assert
+      await expect(actual).rejects.toThrow(mongoose.Error.ValidationError)
+    })
+
     it('should throw validation error when issue param is missing', async () => {
       // Arrange
       const paramsWithoutIssue = omit(DEFAULT_PARAMS, 'issue')
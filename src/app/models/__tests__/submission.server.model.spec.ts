@@ -119,6 +119,38 @@ describe('Submission Model', () => {
         expect(actualSavedObject).toEqual(expectedObject)
       })
 
+      it('email schema should create and save successfully with page responseMetadata', async () => {
+        const emailSubmissionWithPageMetadata = merge(
+          {
+            responseMetadata: {
+              responseTimeMs: 1000,
+              numVisibleFields: 10,
+              pages: [
+                { timeSpentMs: 400 },
+                { sectionId: new ObjectId().toHexString(), timeSpentMs: 600 },
+              ],
+            },
+          },
+          MOCK_EMAIL_SUBMISSION_PARAMS,
+        )
+        const validSubmission = new Submission(emailSubmissionWithPageMetadata)
+        const saved = await validSubmission.save()
+
+        // Assert
+        expect(saved._id).toBeDefined()
+        expect(saved.responseMetadata?.pages).toHaveLength(2)
+
+        const actualSavedObject = omit(saved.toObject(), [
+          '_id',
+          'created',
+          'lastModified',
+          '__v',
+        ])
+
+        const expectedObject = merge({}, emailSubmissionWithPageMetadata)
+        expect(actualSavedObject).toEqual(expectedObject)
+      })
+
       it('encrypt schema should create and save successfully', async () => {
         const validSubmission = new Submission(MOCK_ENCRYPT_SUBMISSION_PARAMS)
         const saved = await validSubmission.save()
@@ -0,0 +1,71 @@
+import { Mongoose, Schema } from 'mongoose'
+
+import { AgencyAuditAction } from '../../../shared/types'
+import { IAgencyAuditLogModel, IAgencyAuditLogSchema } from '../../types'
+
+import { AGENCY_SCHEMA_ID } from './agency.server.model'
+import { USER_SCHEMA_ID } from './user.server.model'
+
+export const AGENCY_AUDIT_LOG_COLLECTION_NAME = 'agencyAuditLog'
+
+const AgencyAuditLogSchema = new Schema<
+  IAgencyAuditLogSchema,
+  IAgencyAuditLogModel
+>(
+  {
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: AGENCY_SCHEMA_ID,
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: USER_SCHEMA_ID,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(AgencyAuditAction),
+      required: true,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    // Audit logs are never modified after they are created.
+    timestamps: {
+      createdAt: 'created',
+      updatedAt: false,
+    },
+    minimize: false,
+  },
+)
+
+AgencyAuditLogSchema.index({ agency: 1, created: -1 })
+
+/**
+ * Agency audit log Schema
+ * @param db Active DB Connection
+ * @return Mongoose Model
+ */
+const getAgencyAuditLogModel = (db: Mongoose): IAgencyAuditLogModel => {
+  try {
+    return db.model<IAgencyAuditLogSchema, IAgencyAuditLogModel>(
+      AGENCY_AUDIT_LOG_COLLECTION_NAME,
+    )
+  } catch {
+    return db.model<IAgencyAuditLogSchema, IAgencyAuditLogModel>(
+      AGENCY_AUDIT_LOG_COLLECTION_NAME,
+      AgencyAuditLogSchema,
+      AGENCY_AUDIT_LOG_COLLECTION_NAME,
+    )
+  }
+}
+
+export default getAgencyAuditLogModel
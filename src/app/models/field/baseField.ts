@@ -7,6 +7,7 @@ import {
   MyInfoAttribute,
 } from '../../../../shared/types'
 import { IFieldSchema, IMyInfoSchema, ITableFieldSchema } from '../../../types'
+import { TranslationsSchemaType } from '../form_translation.server.schema'
 
 const uidgen3 = new UIDGenerator(256, UIDGenerator.BASE62)
 
@@ -36,6 +37,8 @@ export const BaseFieldSchema = new Schema<IFieldSchema>(
       type: String,
       default: '',
     },
+    titleTranslations: TranslationsSchemaType,
+    descriptionTranslations: TranslationsSchemaType,
     required: {
       type: Boolean,
       default: true,
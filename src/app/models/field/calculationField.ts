@@ -0,0 +1,30 @@
+import { Schema } from 'mongoose'
+
+import {
+  MAX_CALCULATION_DECIMAL_PLACES,
+  validateFormula,
+} from '../../../../shared/utils/calculation'
+import { ICalculationFieldSchema } from '../../../types'
+
+const createCalculationFieldSchema = () => {
+  return new Schema<ICalculationFieldSchema>({
+    formula: {
+      type: String,
+      trim: true,
+      default: '',
+      validate: {
+        // Empty formulas are allowed so that fields can be created before
+        // their formula is written.
+        validator: (formula: string) => !formula || !validateFormula(formula),
+        message: 'Calculation formula is invalid.',
+      },
+    },
+    decimalPlaces: {
+      type: Number,
+      min: 0,
+      max: MAX_CALCULATION_DECIMAL_PLACES,
+      default: 2,
+    },
+  })
+}
+export default createCalculationFieldSchema
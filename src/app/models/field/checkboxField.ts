@@ -1,6 +1,7 @@
 import { Schema } from 'mongoose'
 
 import { ICheckboxFieldSchema } from '../../../types'
+import { OptionTranslationsSchemaType } from '../form_translation.server.schema'
 
 const createCheckboxFieldSchema = () => {
   return new Schema<ICheckboxFieldSchema>({
@@ -13,6 +14,7 @@ const createCheckboxFieldSchema = () => {
         message: 'Please ensure that there are no duplicate checkbox options.',
       },
     },
+    fieldOptionsTranslations: OptionTranslationsSchemaType,
     othersRadioButton: {
       type: Boolean,
       default: false,
@@ -1,12 +1,14 @@
 import { Schema } from 'mongoose'
 
 import { IDropdownFieldSchema } from '../../../types'
+import { OptionTranslationsSchemaType } from '../form_translation.server.schema'
 
 import { MyInfoSchema } from './baseField'
 
 const createDropdownFieldSchema = () => {
   return new Schema<IDropdownFieldSchema>({
     fieldOptions: [String],
+    fieldOptionsTranslations: OptionTranslationsSchemaType,
     myInfo: MyInfoSchema,
   })
 }
@@ -3,6 +3,7 @@ import { Schema } from 'mongoose'
 import { FormResponseMode } from '../../../../shared/types'
 import { validateEmailDomains } from '../../../../shared/utils/email-domain-validation'
 import { IEmailFieldSchema } from '../../../types'
+import { TranslationsSchemaType } from '../form_translation.server.schema'
 
 const createEmailFieldSchema = (): Schema<IEmailFieldSchema> => {
   const EmailFieldSchema = new Schema<IEmailFieldSchema>({
@@ -27,6 +28,8 @@ const createEmailFieldSchema = (): Schema<IEmailFieldSchema> => {
         trim: true,
         default: '',
       },
+      autoReplySubjectTranslations: TranslationsSchemaType,
+      autoReplyMessageTranslations: TranslationsSchemaType,
       includeFormSummary: {
         type: Boolean,
         default: false,
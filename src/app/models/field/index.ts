@@ -1,5 +1,6 @@
 import createAttachmentFieldSchema from './attachmentField'
 import { BaseFieldSchema } from './baseField'
+import createCalculationFieldSchema from './calculationField'
 import createCheckboxFieldSchema from './checkboxField'
 import createchildrenCompoundFieldSchema from './childrenCompoundField'
 import createDateFieldSchema from './dateField'
@@ -23,6 +24,7 @@ import createYesNoFieldSchema from './yesNoField'
 
 export {
   createAttachmentFieldSchema,
+  createCalculationFieldSchema,
   createCheckboxFieldSchema,
   createDateFieldSchema,
   createDecimalFieldSchema,
@@ -1,10 +1,12 @@
 import { Schema } from 'mongoose'
 
 import { IRadioFieldSchema } from '../../../types'
+import { OptionTranslationsSchemaType } from '../form_translation.server.schema'
 
 const createRadioFieldSchema = () => {
   return new Schema<IRadioFieldSchema>({
     fieldOptions: [String],
+    fieldOptionsTranslations: OptionTranslationsSchemaType,
     othersRadioButton: {
       type: Boolean,
       default: false,
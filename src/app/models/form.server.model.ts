@@ -15,13 +15,22 @@ import {
   ADMIN_FORM_META_FIELDS,
   EMAIL_FORM_SETTINGS_FIELDS,
   EMAIL_PUBLIC_FORM_FIELDS,
+  MAX_ADDITIONAL_WEBHOOK_ENDPOINTS,
+  MAX_CUSTOM_WEBHOOK_BACKOFF_MINUTES,
+  MAX_CUSTOM_WEBHOOK_RETRIES,
   MB,
   STORAGE_FORM_SETTINGS_FIELDS,
   STORAGE_PUBLIC_FORM_FIELDS,
+  TRANSLATABLE_LANGUAGES,
 } from '../../../shared/constants'
+import {
+  isLogicSettableField,
+  validateConditionGroup,
+} from '../../../shared/modules/logic'
 import {
   AdminDashboardFormMetaDto,
   BasicField,
+  CollaboratorRole,
   EmailFormSettings,
   FormAuthType,
   FormColorTheme,
@@ -42,6 +51,8 @@ import {
   PaymentChannel,
   PaymentType,
   StorageFormSettings,
+  WebhookEventType,
+  WebhookRetryProfile,
 } from '../../../shared/types'
 import { reorder } from '../../../shared/utils/immutable-array-fns'
 import { getApplicableIfStates } from '../../shared/util/logic'
@@ -64,13 +75,19 @@ import {
 } from '../../types'
 import { IPopulatedUser, IUserSchema } from '../../types/user'
 import { OverrideProps } from '../modules/form/admin-form/admin-form.types'
-import { getFormFieldById, transformEmails } from '../modules/form/form.utils'
+import {
+  getFormFieldById,
+  getWebhookView,
+  transformEmails,
+  UNPUBLISHABLE_FORM_FILTER,
+} from '../modules/form/form.utils'
 import { getMyInfoAttr } from '../modules/myinfo/myinfo.util'
 import { validateWebhookUrl } from '../modules/webhook/webhook.validation'
 
 import {
   BaseFieldSchema,
   createAttachmentFieldSchema,
+  createCalculationFieldSchema,
   createCheckboxFieldSchema,
   createchildrenCompoundFieldSchema,
   createDateFieldSchema,
@@ -94,9 +111,13 @@ import {
 } from './field'
 import LogicSchema, {
   PreventSubmitLogicSchema,
+  RequireFieldsLogicSchema,
+  SetFieldValueLogicSchema,
   ShowFieldsLogicSchema,
+  SkipToSectionLogicSchema,
 } from './form_logic.server.schema'
 import { CustomFormLogoSchema, FormLogoSchema } from './form_logo.server.schema'
+import { TranslationsSchemaType } from './form_translation.server.schema'
 import getUserModel from './user.server.model'
 
 export const FORM_SCHEMA_ID = 'Form'
@@ -122,6 +143,14 @@ const formSchemaOptions: SchemaOptions = {
   id: false,
   toJSON: {
     getters: true,
+    // Webhook HMAC secrets and custom header values are write-only and must
+    // never leave the server with the rest of the form.
+    transform: (_doc, ret) => {
+      if (ret.webhook) {
+        ret.webhook = getWebhookView(ret.webhook)
+      }
+      return ret
+    },
   },
   discriminatorKey: 'responseMode',
   read: 'nearest',
@@ -134,6 +163,98 @@ const isPositiveInteger = (val: number) => {
   return val >= 0 && Number.isInteger(val)
 }
 
+const WEBHOOK_URL_VALIDATOR = {
+  validator: async (v: string) => !v || validateWebhookUrl(v),
+  message: 'Webhook must be a valid URL over HTTPS and point to a public IP.',
+}
+
+const WebhookHeaderSchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    value: { type: String, required: true },
+  },
+  { _id: false },
+)
+
+const WebhookEndpointSchema = new Schema({
+  url: {
+    type: String,
+    required: true,
+    validate: WEBHOOK_URL_VALIDATOR,
+  },
+  isRetryEnabled: {
+    type: Boolean,
+    default: false,
+  },
+  hmacSecret: {
+    type: String,
+  },
+  headers: {
+    type: [WebhookHeaderSchema],
+    default: undefined,
+  },
+})
+
+const WebhookRetryPolicySchema = new Schema(
+  {
+    profile: {
+      type: String,
+      enum: Object.values(WebhookRetryProfile),
+      required: true,
+    },
+    maxRetries: {
+      type: Number,
+      min: 1,
+      max: MAX_CUSTOM_WEBHOOK_RETRIES,
+    },
+    backoffMinutes: {
+      type: Number,
+      min: 1,
+      max: MAX_CUSTOM_WEBHOOK_BACKOFF_MINUTES,
+    },
+  },
+  { _id: false },
+)
+
+const PRODUCT_QUANTITY_VALIDATOR = {
+  validator: isPositiveInteger,
+  message: 'Product quantities must be non-negative integers.',
+}
+
+const ProductSchema = new Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    trim: true,
+  },
+  amount_cents: {
+    type: Number,
+    required: true,
+    validate: {
+      validator: isPositiveInteger,
+      message: 'amount_cents must be a non-negative integer.',
+    },
+  },
+  min_qty: {
+    type: Number,
+    required: true,
+    validate: PRODUCT_QUANTITY_VALIDATOR,
+  },
+  max_qty: {
+    type: Number,
+    required: true,
+    validate: PRODUCT_QUANTITY_VALIDATOR,
+  },
+  stock: {
+    type: Number,
+    validate: PRODUCT_QUANTITY_VALIDATOR,
+  },
+})
+
 const EncryptedFormSchema = new Schema<IEncryptedFormSchema>({
   publicKey: {
     type: String,
@@ -202,6 +323,14 @@ const EncryptedFormSchema = new Schema<IEncryptedFormSchema>({
       enum: Object.values(PaymentType),
       default: PaymentType.Fixed,
     },
+    calculation_field_id: {
+      type: String,
+      required: false,
+    },
+    products: {
+      type: [ProductSchema],
+      default: undefined,
+    },
     gst_enabled: {
       type: Boolean,
       default: true,
@@ -310,64 +439,107 @@ const compileFormModel = (db: Mongoose): IFormModel => {
       },
       form_logics: {
         type: [LogicSchema],
-        validate: {
-          validator(this: IFormSchema, v: ILogicSchema[]) {
-            /**
-             * A validatable condition is incomplete if there is a possibility
-             * that its fieldType is null, which is a sign that a condition's
-             * field property references a non-existent form_field.
-             */
-            type IncompleteValidatableCondition = {
-              state: LogicConditionState
-              fieldType?: BasicField
-            }
-
-            /**
-             * A condition object is said to be validatable if it contains the two
-             * necessary for validation: fieldType and state
-             */
-            type ValidatableCondition = IncompleteValidatableCondition & {
-              fieldType: BasicField
-            }
-
-            const isConditionReferencesExistingField = (
-              condition: IncompleteValidatableCondition,
-            ): condition is ValidatableCondition => !!condition.fieldType
-
-            const conditions = v.flatMap((logic) => {
-              return logic.conditions.map<IncompleteValidatableCondition>(
-                (condition) => {
-                  const {
-                    field,
-                    state,
-                  }: { field: ObjectId | string; state: LogicConditionState } =
-                    condition
-                  return {
-                    state,
-                    fieldType: this.form_fields?.find(
-                      (f: IFieldSchema) => String(f._id) === String(field),
-                    )?.fieldType,
-                  }
-                },
-              )
-            })
-
-            return conditions.every((condition) => {
+        validate: [
+          {
+            validator(this: IFormSchema, v: ILogicSchema[]) {
               /**
-               * Form fields can get deleted by form admins, which causes logic
-               * conditions to reference invalid fields. Here we bypass validation
-               * and allow these conditions to be saved, so we don't make life
-               * difficult for form admins.
+               * A validatable condition is incomplete if there is a possibility
+               * that its fieldType is null, which is a sign that a condition's
+               * field property references a non-existent form_field.
                */
-              if (!isConditionReferencesExistingField(condition)) return true
+              type IncompleteValidatableCondition = {
+                state: LogicConditionState
+                fieldType?: BasicField
+              }
 
-              const { fieldType, state } = condition
-              const applicableIfStates = getApplicableIfStates(fieldType)
-              return applicableIfStates.includes(state)
-            })
+              /**
+               * A condition object is said to be validatable if it contains the two
+               * necessary for validation: fieldType and state
+               */
+              type ValidatableCondition = IncompleteValidatableCondition & {
+                fieldType: BasicField
+              }
+
+              const isConditionReferencesExistingField = (
+                condition: IncompleteValidatableCondition,
+              ): condition is ValidatableCondition => !!condition.fieldType
+
+              const conditions = v.flatMap((logic) => {
+                return logic.conditions.map<IncompleteValidatableCondition>(
+                  (condition) => {
+                    const {
+                      field,
+                      state,
+                    }: {
+                      field: ObjectId | string
+                      state: LogicConditionState
+                    } = condition
+                    return {
+                      state,
+                      fieldType: this.form_fields?.find(
+                        (f: IFieldSchema) => String(f._id) === String(field),
+                      )?.fieldType,
+                    }
+                  },
+                )
+              })
+
+              return conditions.every((condition) => {
+                /**
+                 * Form fields can get deleted by form admins, which causes logic
+                 * conditions to reference invalid fields. Here we bypass validation
+                 * and allow these conditions to be saved, so we don't make life
+                 * difficult for form admins.
+                 */
+                if (!isConditionReferencesExistingField(condition)) return true
+
+                const { fieldType, state } = condition
+                const applicableIfStates = getApplicableIfStates(fieldType)
+                return applicableIfStates.includes(state)
+              })
+            },
+            message: 'Form logic condition validation failed.',
           },
-          message: 'Form logic condition validation failed.',
-        },
+          {
+            validator(v: ILogicSchema[]) {
+              return v.every(
+                (logic) =>
+                  !logic.conditionGroup ||
+                  !validateConditionGroup(
+                    logic.conditionGroup,
+                    logic.conditions.length,
+                  ),
+              )
+            },
+            message: 'Form logic condition group validation failed.',
+          },
+          {
+            validator(this: IFormSchema, v: ILogicSchema[]) {
+              const getFieldType = (fieldId: unknown) =>
+                this.form_fields?.find(
+                  (f: IFieldSchema) => String(f._id) === String(fieldId),
+                )?.fieldType
+
+              // As with conditions, actions referencing deleted fields are
+              // allowed to be saved.
+              return (v as FormLogicSchema[]).every((logic) => {
+                switch (logic.logicType) {
+                  case LogicType.SetFieldValue: {
+                    const fieldType = getFieldType(logic.setField)
+                    return !fieldType || isLogicSettableField(fieldType)
+                  }
+                  case LogicType.SkipToSection: {
+                    const fieldType = getFieldType(logic.skipToSection)
+                    return !fieldType || fieldType === BasicField.Section
+                  }
+                  default:
+                    return true
+                }
+              })
+            },
+            message: 'Form logic action validation failed.',
+          },
+        ],
       },
 
       admin: {
@@ -390,6 +562,11 @@ const compileFormModel = (db: Mongoose): IFormModel => {
               type: Boolean,
               default: false,
             },
+            role: {
+              type: String,
+              enum: Object.values(CollaboratorRole),
+              required: false,
+            },
           },
         ],
         validate: {
@@ -401,6 +578,7 @@ const compileFormModel = (db: Mongoose): IFormModel => {
 
       startPage: {
         paragraph: String,
+        paragraphTranslations: TranslationsSchemaType,
         estTimeTaken: Number,
         colorTheme: {
           type: String,
@@ -424,6 +602,9 @@ const compileFormModel = (db: Mongoose): IFormModel => {
           type: String,
           default: 'Submit another response',
         },
+        titleTranslations: TranslationsSchemaType,
+        paragraphTranslations: TranslationsSchemaType,
+        buttonTextTranslations: TranslationsSchemaType,
       },
 
       hasCaptcha: {
@@ -431,6 +612,21 @@ const compileFormModel = (db: Mongoose): IFormModel => {
         default: true,
       },
 
+      isMultiPage: {
+        type: Boolean,
+        default: false,
+      },
+
+      supportedLanguages: {
+        type: [
+          {
+            type: String,
+            enum: TRANSLATABLE_LANGUAGES,
+          },
+        ],
+        default: [],
+      },
+
       authType: {
         type: String,
         enum: Object.values(FormAuthType),
@@ -501,16 +697,44 @@ const compileFormModel = (db: Mongoose): IFormModel => {
         url: {
           type: String,
           default: '',
-          validate: {
-            validator: async (v: string) => !v || validateWebhookUrl(v),
-            message:
-              'Webhook must be a valid URL over HTTPS and point to a public IP.',
-          },
+          validate: WEBHOOK_URL_VALIDATOR,
         },
         isRetryEnabled: {
           type: Boolean,
           default: false,
         },
+        hmacSecret: {
+          type: String,
+        },
+        headers: {
+          type: [WebhookHeaderSchema],
+          default: undefined,
+        },
+        additionalEndpoints: {
+          type: [WebhookEndpointSchema],
+          default: undefined,
+          validate: {
+            validator: (v?: unknown[]) =>
+              !v || v.length <= MAX_ADDITIONAL_WEBHOOK_ENDPOINTS,
+            message: `A form can have at most ${MAX_ADDITIONAL_WEBHOOK_ENDPOINTS} additional webhook endpoints.`,
+          },
+        },
+        retryPolicy: {
+          type: WebhookRetryPolicySchema,
+          default: undefined,
+        },
+        failureNotifiedAt: {
+          type: Date,
+        },
+        events: {
+          type: [
+            {
+              type: String,
+              enum: Object.values(WebhookEventType),
+            },
+          ],
+          default: undefined,
+        },
       },
 
       msgSrvcName: {
@@ -525,6 +749,16 @@ const compileFormModel = (db: Mongoose): IFormModel => {
         min: 1,
       },
 
+      opensAt: {
+        type: Date,
+        default: null,
+      },
+
+      closesAt: {
+        type: Date,
+        default: null,
+      },
+
       goLinkSuffix: {
         // GoGov link suffix
         type: String,
@@ -564,6 +798,10 @@ const compileFormModel = (db: Mongoose): IFormModel => {
   FormFieldPath.discriminator(BasicField.LongText, createLongTextFieldSchema())
   FormFieldPath.discriminator(BasicField.Number, createNumberFieldSchema())
   FormFieldPath.discriminator(BasicField.Decimal, createDecimalFieldSchema())
+  FormFieldPath.discriminator(
+    BasicField.Calculation,
+    createCalculationFieldSchema(),
+  )
   FormFieldPath.discriminator(BasicField.Image, createImageFieldSchema())
   FormFieldPath.discriminator(BasicField.Date, createDateFieldSchema())
   FormFieldPath.discriminator(BasicField.Nric, createNricFieldSchema())
@@ -600,6 +838,9 @@ const compileFormModel = (db: Mongoose): IFormModel => {
 
   FormLogicPath.discriminator(LogicType.ShowFields, ShowFieldsLogicSchema)
   FormLogicPath.discriminator(LogicType.PreventSubmit, PreventSubmitLogicSchema)
+  FormLogicPath.discriminator(LogicType.RequireFields, RequireFieldsLogicSchema)
+  FormLogicPath.discriminator(LogicType.SetFieldValue, SetFieldValueLogicSchema)
+  FormLogicPath.discriminator(LogicType.SkipToSection, SkipToSectionLogicSchema)
 
   // Methods
 
@@ -635,6 +876,7 @@ const compileFormModel = (db: Mongoose): IFormModel => {
       'inactiveMessage',
       'responseMode',
       'submissionLimit',
+      'supportedLanguages',
     ]) as PickDuplicateForm
     return { ...newForm, ...overrideProps }
   }
@@ -686,6 +928,8 @@ const compileFormModel = (db: Mongoose): IFormModel => {
       this.responseMode === FormResponseMode.Encrypt
         ? (pick(this, STORAGE_FORM_SETTINGS_FIELDS) as StorageFormSettings)
         : (pick(this, EMAIL_FORM_SETTINGS_FIELDS) as EmailFormSettings)
+    // Webhook secrets and header values are write-only.
+    formSettings.webhook = getWebhookView(this.toObject().webhook)
 
     return formSettings
   }
@@ -848,6 +1092,66 @@ const compileFormModel = (db: Mongoose): IFormModel => {
     return form.save()
   }
 
+  // Publishes a form whose scheduled opening time has passed, returning the
+  // form with populated admin details. Forms which cannot be published, such
+  // as forms with payments but no payment account, are left unpublished
+  // until they can be.
+  FormSchema.statics.openScheduledForm = async function (
+    now: Date,
+  ): Promise<IPopulatedForm | null> {
+    return this.findOneAndUpdate(
+      {
+        opensAt: { $lte: now },
+        status: { $ne: FormStatus.Archived },
+        $nor: [UNPUBLISHABLE_FORM_FILTER],
+      },
+      { status: FormStatus.Public, opensAt: null },
+      { new: true },
+    ).populate({
+      path: 'admin',
+      populate: {
+        path: 'agency',
+      },
+    }) as Query<IPopulatedForm, IFormDocument>
+  }
+
+  // Deactivates a form whose scheduled closing time has passed, returning the
+  // form with populated admin details
+  FormSchema.statics.closeScheduledForm = async function (
+    now: Date,
+  ): Promise<IPopulatedForm | null> {
+    return this.findOneAndUpdate(
+      { closesAt: { $lte: now }, status: { $ne: FormStatus.Archived } },
+      { status: FormStatus.Private, closesAt: null },
+      { new: true },
+    ).populate({
+      path: 'admin',
+      populate: {
+        path: 'agency',
+      },
+    }) as Query<IPopulatedForm, IFormDocument>
+  }
+
+  // Records that the admin of a form has been notified of failing webhooks,
+  // unless they have already been notified since the given time
+  FormSchema.statics.claimWebhookFailureNotification = async function (
+    formId: string,
+    notifiedBefore: Date,
+  ): Promise<boolean> {
+    const { nModified } = await this.updateOne(
+      {
+        _id: formId,
+        $or: [
+          { 'webhook.failureNotifiedAt': { $exists: false } },
+          { 'webhook.failureNotifiedAt': { $lt: notifiedBefore } },
+        ],
+      },
+      { $set: { 'webhook.failureNotifiedAt': new Date() } },
+      { timestamps: false },
+    ).exec()
+    return nModified === 1
+  }
+
   FormDocumentSchema.statics.getMetaByUserIdOrEmail = async function (
     userId: IUserSchema['_id'],
     userEmail: IUserSchema['email'],
@@ -1047,7 +1351,8 @@ const compileFormModel = (db: Mongoose): IFormModel => {
     // Webhooks only allowed if encrypt mode
     if (
       this.responseMode !== FormResponseMode.Encrypt &&
-      (this.webhook?.url?.length ?? 0) > 0
+      ((this.webhook?.url?.length ?? 0) > 0 ||
+        (this.webhook?.additionalEndpoints?.length ?? 0) > 0)
     ) {
       const validationError = this.invalidate(
         'webhook',
@@ -0,0 +1,56 @@
+import { Mongoose, Schema } from 'mongoose'
+
+import { IFormAnswerCountModel, IFormAnswerCountSchema } from 'src/types'
+
+import { FORM_SCHEMA_ID } from './form.server.model'
+
+export const FORM_ANSWER_COUNT_COLLECTION_NAME = 'formAnswerCount'
+
+const FormAnswerCountSchema = new Schema<
+  IFormAnswerCountSchema,
+  IFormAnswerCountModel
+>({
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: FORM_SCHEMA_ID,
+    required: true,
+  },
+  fieldId: {
+    type: String,
+    required: true,
+  },
+  answer: {
+    type: String,
+    required: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+})
+
+FormAnswerCountSchema.index(
+  { formId: 1, fieldId: 1, answer: 1 },
+  { unique: true },
+)
+
+/**
+ * Form answer count Schema
+ * @param db Active DB Connection
+ * @return Mongoose Model
+ */
+const getFormAnswerCountModel = (db: Mongoose): IFormAnswerCountModel => {
+  try {
+    return db.model<IFormAnswerCountSchema, IFormAnswerCountModel>(
+      FORM_ANSWER_COUNT_COLLECTION_NAME,
+    )
+  } catch {
+    return db.model<IFormAnswerCountSchema, IFormAnswerCountModel>(
+      FORM_ANSWER_COUNT_COLLECTION_NAME,
+      FormAnswerCountSchema,
+      FORM_ANSWER_COUNT_COLLECTION_NAME,
+    )
+  }
+}
+export default getFormAnswerCountModel
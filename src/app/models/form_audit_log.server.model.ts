@@ -0,0 +1,99 @@
+import { Mongoose, Schema } from 'mongoose'
+
+import { FormAuditAction } from '../../../shared/types'
+import { IFormAuditLogModel, IFormAuditLogSchema } from '../../types'
+
+import { FORM_SCHEMA_ID } from './form.server.model'
+import { USER_SCHEMA_ID } from './user.server.model'
+
+export const FORM_AUDIT_LOG_COLLECTION_NAME = 'formAuditLog'
+
+const FormAuditLogSchema = new Schema<IFormAuditLogSchema, IFormAuditLogModel>(
+  {
+    form: {
+      type: Schema.Types.ObjectId,
+      ref: FORM_SCHEMA_ID,
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: USER_SCHEMA_ID,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(FormAuditAction),
+      required: true,
+    },
+    targetId: {
+      type: String,
+      required: false,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+  },
+  {
+    // Audit logs are never modified after they are created.
+    timestamps: {
+      createdAt: 'created',
+      updatedAt: false,
+    },
+    minimize: false,
+  },
+)
+
+FormAuditLogSchema.index({ form: 1, created: -1 })
+
+// Hooks
+// The audit log is append-only, so that the history of changes to a form
+// cannot be rewritten.
+FormAuditLogSchema.pre<IFormAuditLogSchema>('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Form audit logs cannot be modified'))
+  }
+  return next()
+})
+
+FormAuditLogSchema.pre(
+  [
+    'update',
+    'updateOne',
+    'updateMany',
+    'findOneAndUpdate',
+    'deleteOne',
+    'deleteMany',
+    'findOneAndDelete',
+    'findOneAndRemove',
+    'remove',
+  ],
+  function (next) {
+    next(new Error('Form audit logs cannot be modified'))
+  },
+)
+
+/**
+ * Form audit log Schema
+ * @param db Active DB Connection
+ * @return Mongoose Model
+ */
+const getFormAuditLogModel = (db: Mongoose): IFormAuditLogModel => {
+  try {
+    return db.model<IFormAuditLogSchema, IFormAuditLogModel>(
+      FORM_AUDIT_LOG_COLLECTION_NAME,
+    )
+  } catch {
+    return db.model<IFormAuditLogSchema, IFormAuditLogModel>(
+      FORM_AUDIT_LOG_COLLECTION_NAME,
+      FormAuditLogSchema,
+      FORM_AUDIT_LOG_COLLECTION_NAME,
+    )
+  }
+}
+
+export default getFormAuditLogModel
@@ -0,0 +1,63 @@
+import { Mongoose, Schema } from 'mongoose'
+
+import { IFormDraftModel, IFormDraftSchema } from 'src/types'
+
+import { FORM_SCHEMA_ID } from './form.server.model'
+
+export const FORM_DRAFT_COLLECTION_NAME = 'formDraft'
+
+const FormDraftSchema = new Schema<IFormDraftSchema, IFormDraftModel>(
+  {
+    formId: {
+      type: Schema.Types.ObjectId,
+      ref: FORM_SCHEMA_ID,
+      required: true,
+    },
+    draftPublicKey: {
+      type: String,
+      required: true,
+    },
+    content: {
+      type: String,
+      required: true,
+    },
+    isEncrypted: {
+      type: Boolean,
+      required: true,
+    },
+    expireAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: 'created',
+      updatedAt: 'lastModified',
+    },
+  },
+)
+
+FormDraftSchema.index({ formId: 1, draftPublicKey: 1 }, { unique: true })
+// Remove drafts once they expire.
+FormDraftSchema.index({ expireAt: 1 }, { expireAfterSeconds: 0 })
+
+/**
+ * Form draft Schema
+ * @param db Active DB Connection
+ * @return Mongoose Model
+ */
+const getFormDraftModel = (db: Mongoose): IFormDraftModel => {
+  try {
+    return db.model<IFormDraftSchema, IFormDraftModel>(
+      FORM_DRAFT_COLLECTION_NAME,
+    )
+  } catch {
+    return db.model<IFormDraftSchema, IFormDraftModel>(
+      FORM_DRAFT_COLLECTION_NAME,
+      FormDraftSchema,
+      FORM_DRAFT_COLLECTION_NAME,
+    )
+  }
+}
+export default getFormDraftModel
@@ -6,10 +6,31 @@ import {
   IFormIssueSchema,
 } from 'src/types'
 
+import { FormIssueStatus } from '../../../shared/types'
+
 import { FORM_SCHEMA_ID } from './form.server.model'
 
 export const FORM_ISSUE_COLLECTION_NAME = 'formIssue'
 
+const FormIssueNoteSchema = new Schema(
+  {
+    content: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+    created: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false },
+)
+
 const FormIssueSchema = new Schema<IFormIssueSchema, IFormIssueModel>(
   {
     formId: {
@@ -28,6 +49,24 @@ const FormIssueSchema = new Schema<IFormIssueSchema, IFormIssueModel>(
       set: (v: string) => v.toLowerCase(),
       trim: true,
     },
+    status: {
+      type: String,
+      enum: Object.values(FormIssueStatus),
+      default: FormIssueStatus.New,
+      required: true,
+    },
+    assignee: {
+      type: String,
+      set: (v: string) => v.toLowerCase(),
+      trim: true,
+    },
+    notes: {
+      type: [FormIssueNoteSchema],
+      default: [],
+    },
+    lastReplied: {
+      type: Date,
+    },
   },
   {
     timestamps: {
@@ -38,6 +77,7 @@ const FormIssueSchema = new Schema<IFormIssueSchema, IFormIssueModel>(
 )
 
 FormIssueSchema.index({ formId: 1 })
+FormIssueSchema.index({ formId: 1, status: 1 })
 
 /**
  * Returns a cursor for all issues for the form with formId.
@@ -9,9 +9,14 @@ import {
   IConditionSchema,
   ILogicSchema,
   IPreventSubmitLogicSchema,
+  IRequireFieldsLogicSchema,
+  ISetFieldValueLogicSchema,
   IShowFieldsLogicSchema,
+  ISkipToSectionLogicSchema,
 } from '../../types'
 
+import { TranslationsSchemaType } from './form_translation.server.schema'
+
 const LogicConditionSchema = new Schema<IConditionSchema>({
   _id: String,
   field: {
@@ -42,6 +47,12 @@ const LogicSchema = new Schema<ILogicSchema>(
       type: [LogicConditionSchema],
       required: true,
     },
+    // Nested boolean expression over the conditions, stored as-is since
+    // mongoose does not support recursive subdocuments. Validated in the form
+    // model.
+    conditionGroup: {
+      type: Schema.Types.Mixed,
+    },
     logicType: {
       type: String,
       enum: Object.values(LogicType),
@@ -66,6 +77,36 @@ export const ShowFieldsLogicSchema = new Schema<IShowFieldsLogicSchema>({
 
 export const PreventSubmitLogicSchema = new Schema<IPreventSubmitLogicSchema>({
   preventSubmitMessage: String,
+  preventSubmitMessageTranslations: TranslationsSchemaType,
+})
+
+export const RequireFieldsLogicSchema = new Schema<IRequireFieldsLogicSchema>({
+  require: {
+    type: [
+      {
+        type: Schema.Types.ObjectId,
+      },
+    ],
+    required: true,
+  },
+})
+
+export const SetFieldValueLogicSchema = new Schema<ISetFieldValueLogicSchema>({
+  setField: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
+  setValue: {
+    type: String,
+    required: true,
+  },
+})
+
+export const SkipToSectionLogicSchema = new Schema<ISkipToSectionLogicSchema>({
+  skipToSection: {
+    type: Schema.Types.ObjectId,
+    required: true,
+  },
 })
 
 export default LogicSchema
@@ -0,0 +1,82 @@
+import { Mongoose, Schema } from 'mongoose'
+
+import { IFormTemplateModel, IFormTemplateSchema } from 'src/types'
+
+import { FormTemplateCategory } from '../../../shared/types'
+
+import { AGENCY_SCHEMA_ID } from './agency.server.model'
+import { FORM_SCHEMA_ID } from './form.server.model'
+import { USER_SCHEMA_ID } from './user.server.model'
+
+export const FORM_TEMPLATE_COLLECTION_NAME = 'formTemplate'
+
+const FormTemplateSchema = new Schema<IFormTemplateSchema, IFormTemplateModel>(
+  {
+    formId: {
+      type: Schema.Types.ObjectId,
+      ref: FORM_SCHEMA_ID,
+      required: true,
+      // A form can only be published as a single template.
+      unique: true,
+    },
+    agency: {
+      type: Schema.Types.ObjectId,
+      ref: AGENCY_SCHEMA_ID,
+      required: true,
+    },
+    publishedBy: {
+      type: Schema.Types.ObjectId,
+      ref: USER_SCHEMA_ID,
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    category: {
+      type: String,
+      enum: Object.values(FormTemplateCategory),
+      required: true,
+    },
+    useCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: {
+      createdAt: 'created',
+      updatedAt: 'lastModified',
+    },
+  },
+)
+
+FormTemplateSchema.index({ category: 1, useCount: -1 })
+
+/**
+ * Form template Schema
+ * @param db Active DB Connection
+ * @return Mongoose Model
+ */
+const getFormTemplateModel = (db: Mongoose): IFormTemplateModel => {
+  try {
+    return db.model<IFormTemplateSchema, IFormTemplateModel>(
+      FORM_TEMPLATE_COLLECTION_NAME,
+    )
+  } catch {
+    return db.model<IFormTemplateSchema, IFormTemplateModel>(
+      FORM_TEMPLATE_COLLECTION_NAME,
+      FormTemplateSchema,
+      FORM_TEMPLATE_COLLECTION_NAME,
+    )
+  }
+}
+
+export default getFormTemplateModel
@@ -0,0 +1,61 @@
+import { Schema } from 'mongoose'
+
+import { TRANSLATABLE_LANGUAGES } from '../../../shared/constants'
+import {
+  TranslationMapping,
+  TranslationOptionMapping,
+} from '../../../shared/types'
+
+export const TranslationMappingSchema = new Schema<TranslationMapping>(
+  {
+    language: {
+      type: String,
+      enum: TRANSLATABLE_LANGUAGES,
+      required: true,
+    },
+    translation: {
+      type: String,
+      trim: true,
+      default: '',
+    },
+  },
+  {
+    _id: false,
+  },
+)
+
+export const TranslationOptionMappingSchema =
+  new Schema<TranslationOptionMapping>(
+    {
+      language: {
+        type: String,
+        enum: TRANSLATABLE_LANGUAGES,
+        required: true,
+      },
+      translation: {
+        type: [String],
+        default: [],
+      },
+    },
+    {
+      _id: false,
+    },
+  )
+
+/**
+ * Schema type for the translations of a piece of form content. Content that
+ * has not been translated is left without translations, rather than an empty
+ * array.
+ */
+export const TranslationsSchemaType = {
+  type: [TranslationMappingSchema],
+  default: undefined,
+}
+
+/**
+ * Schema type for the translations of the options of a field.
+ */
+export const OptionTranslationsSchemaType = {
+  type: [TranslationOptionMappingSchema],
+  default: undefined,
+}
@@ -0,0 +1,46 @@
+import { Mongoose, Schema } from 'mongoose'
+
+import { IFormViewModel, IFormViewSchema } from 'src/types'
+
+import { FORM_SCHEMA_ID } from './form.server.model'
+
+export const FORM_VIEW_COLLECTION_NAME = 'formView'
+
+// Views are counted per form per day, so that each view only increments an
+// existing document instead of inserting a new one.
+const FormViewSchema = new Schema<IFormViewSchema, IFormViewModel>({
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: FORM_SCHEMA_ID,
+    required: true,
+  },
+  date: {
+    type: Date,
+    required: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+})
+
+FormViewSchema.index({ formId: 1, date: 1 }, { unique: true })
+
+/**
+ * Form view Schema
+ * @param db Active DB Connection
+ * @return Mongoose Model
+ */
+const getFormViewModel = (db: Mongoose): IFormViewModel => {
+  try {
+    return db.model<IFormViewSchema, IFormViewModel>(FORM_VIEW_COLLECTION_NAME)
+  } catch {
+    return db.model<IFormViewSchema, IFormViewModel>(
+      FORM_VIEW_COLLECTION_NAME,
+      FormViewSchema,
+      FORM_VIEW_COLLECTION_NAME,
+    )
+  }
+}
+export default getFormViewModel
@@ -9,6 +9,53 @@ import { SUBMISSION_SCHEMA_ID } from './submission.server.model'
 
 export const PAYMENT_SCHEMA_ID = 'Payment'
 
+const PaymentLineItemSchema = new Schema(
+  {
+    productId: {
+      type: String,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    amount_cents: {
+      type: Number,
+      required: true,
+    },
+    quantity: {
+      type: Number,
+      required: true,
+    },
+  },
+  { _id: false },
+)
+
+const PaymentRefundSchema = new Schema(
+  {
+    refundId: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    reason: {
+      type: String,
+    },
+    refundedBy: {
+      type: String,
+      required: true,
+    },
+    created: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false },
+)
+
 const PaymentSchema = new Schema<IPaymentSchema, IPaymentModel>(
   {
     pendingSubmissionId: {
@@ -42,6 +89,10 @@ const PaymentSchema = new Schema<IPaymentSchema, IPaymentModel>(
       type: Boolean,
       required: true,
     },
+    products: {
+      type: [PaymentLineItemSchema],
+      default: undefined,
+    },
     responses: [],
 
     webhookLog: [],
@@ -78,6 +129,11 @@ const PaymentSchema = new Schema<IPaymentSchema, IPaymentModel>(
       },
     },
 
+    refunds: {
+      type: [PaymentRefundSchema],
+      default: undefined,
+    },
+
     payout: {
       type: {
         payoutId: {
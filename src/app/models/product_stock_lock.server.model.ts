@@ -0,0 +1,49 @@
+import { Mongoose, Schema } from 'mongoose'
+
+import { IProductStockLockModel, IProductStockLockSchema } from 'src/types'
+
+import { FORM_SCHEMA_ID } from './form.server.model'
+
+export const PRODUCT_STOCK_LOCK_COLLECTION_NAME = 'productStockLock'
+
+// Every checkout of stocked products of a form increments the lock of the
+// form in the same transaction as it counts the stock left and saves its
+// payment, so that concurrent checkouts conflict and are retried one at a
+// time instead of both buying the last units.
+const ProductStockLockSchema = new Schema<
+  IProductStockLockSchema,
+  IProductStockLockModel
+>({
+  formId: {
+    type: Schema.Types.ObjectId,
+    ref: FORM_SCHEMA_ID,
+    required: true,
+  },
+  checkouts: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+})
+
+ProductStockLockSchema.index({ formId: 1 }, { unique: true })
+
+/**
+ * Product stock lock Schema
+ * @param db Active DB Connection
+ * @return Mongoose Model
+ */
+const getProductStockLockModel = (db: Mongoose): IProductStockLockModel => {
+  try {
+    return db.model<IProductStockLockSchema, IProductStockLockModel>(
+      PRODUCT_STOCK_LOCK_COLLECTION_NAME,
+    )
+  } catch {
+    return db.model<IProductStockLockSchema, IProductStockLockModel>(
+      PRODUCT_STOCK_LOCK_COLLECTION_NAME,
+      ProductStockLockSchema,
+      PRODUCT_STOCK_LOCK_COLLECTION_NAME,
+    )
+  }
+}
+export default getProductStockLockModel
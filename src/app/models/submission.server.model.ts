@@ -3,6 +3,7 @@ import mongoose, { Mongoose, QueryCursor, Schema } from 'mongoose'
 
 import {
   FormAuthType,
+  Language,
   MyInfoAttribute,
   StorageModeSubmissionMetadata,
   SubmissionType,
@@ -22,9 +23,11 @@ import {
   SubmissionCursorData,
   SubmissionData,
   SubmissionWebhookInfo,
+  SubmissionWebhookResponses,
   WebhookData,
   WebhookView,
 } from '../../types'
+import { getWebhookTargets } from '../modules/webhook/webhook.utils'
 import { createQueryWithDateParam } from '../utils/date'
 
 import { FORM_SCHEMA_ID } from './form.server.model'
@@ -95,6 +98,21 @@ export const SubmissionSchema = new Schema<ISubmissionSchema, ISubmissionModel>(
       numVisibleFields: {
         type: Number,
       },
+      pages: {
+        type: [
+          {
+            _id: false,
+            sectionId: String,
+            timeSpentMs: Number,
+          },
+        ],
+        // Only multi-page forms record the time spent on each page.
+        default: undefined,
+      },
+    },
+    language: {
+      type: String,
+      enum: Object.values(Language),
     },
   },
   {
@@ -168,12 +186,14 @@ EmailSubmissionSchema.methods.getWebhookView = function (): null {
   return null
 }
 
-const webhookResponseSchema = new Schema<IWebhookResponseSchema>(
+// Exported for use in webhook events model
+export const webhookResponseSchema = new Schema<IWebhookResponseSchema>(
   {
     webhookUrl: {
       type: String,
       required: true,
     },
+    endpointId: String,
     signature: {
       type: String,
       required: true,
@@ -186,6 +206,8 @@ const webhookResponseSchema = new Schema<IWebhookResponseSchema>(
       headers: String,
       data: String,
     },
+    latencyMs: Number,
+    nextAttemptAt: Date,
   },
   {
     timestamps: {
@@ -268,19 +290,68 @@ EncryptSubmissionSchema.statics.addWebhookResponse = function (
 EncryptSubmissionSchema.statics.retrieveWebhookInfoById = function (
   this: IEncryptSubmissionModel,
   submissionId: string,
+  endpointId?: string,
 ): Promise<SubmissionWebhookInfo | null> {
   return this.findById(submissionId)
     .populate('form', 'webhook')
     .then((populatedSubmission: IPopulatedWebhookSubmission | null) => {
       if (!populatedSubmission) return null
+      const target = getWebhookTargets(populatedSubmission.form.webhook).find(
+        (target) => target.endpointId === endpointId,
+      )
       return {
-        webhookUrl: populatedSubmission.form.webhook?.url ?? '',
-        isRetryEnabled: !!populatedSubmission.form.webhook?.isRetryEnabled,
+        // Webhook URL or endpoint may have been removed since.
+        webhookUrl: '',
+        isRetryEnabled: false,
+        ...target,
         webhookView: populatedSubmission.getWebhookView(),
       }
     })
 }
 
+EncryptSubmissionSchema.statics.findWebhookResponsesByFormId = function (
+  formId: string,
+  {
+    since,
+    hasFailedAttempt,
+    limit,
+  }: { since?: Date; hasFailedAttempt?: boolean; limit: number },
+): Promise<SubmissionWebhookResponses[]> {
+  return (
+    this.find({
+      form: formId,
+      'webhookResponses.0': { $exists: true },
+      ...(since ? { created: { $gte: since } } : {}),
+      ...(hasFailedAttempt
+        ? {
+            webhookResponses: {
+              $elemMatch: {
+                $or: [
+                  { 'response.status': { $lt: 200 } },
+                  { 'response.status': { $gte: 300 } },
+                ],
+              },
+            },
+          }
+        : {}),
+    })
+      // Response headers and data can be large, and are not needed.
+      .select({
+        created: 1,
+        'webhookResponses.webhookUrl': 1,
+        'webhookResponses.endpointId': 1,
+        'webhookResponses.response.status': 1,
+        'webhookResponses.latencyMs': 1,
+        'webhookResponses.nextAttemptAt': 1,
+        'webhookResponses.created': 1,
+      })
+      .sort({ created: -1 })
+      .limit(limit)
+      .lean<SubmissionWebhookResponses[]>()
+      .exec()
+  )
+}
+
 EncryptSubmissionSchema.statics.findSingleMetadata = function (
   formId: string,
   submissionId: string,
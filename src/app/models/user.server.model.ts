@@ -3,6 +3,7 @@ import { MongoError } from 'mongodb'
 import { CallbackError, Mongoose, Schema } from 'mongoose'
 import validator from 'validator'
 
+import { ApiKeyScope, UserRole } from '../../../shared/types'
 import {
   AgencyDocument,
   IUser,
@@ -15,6 +16,43 @@ import getAgencyModel, { AGENCY_SCHEMA_ID } from './agency.server.model'
 
 export const USER_SCHEMA_ID = 'User'
 
+const ApiKeySchema = new Schema(
+  {
+    name: {
+      type: String,
+      trim: true,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      // Only retrieved explicitly when authenticating with the key.
+      select: false,
+    },
+    scopes: {
+      type: [
+        {
+          type: String,
+          enum: Object.values(ApiKeyScope),
+        },
+      ],
+      default: [],
+    },
+    formIds: {
+      type: [String],
+      default: undefined,
+    },
+    createdAt: {
+      type: Date,
+      default: () => Date.now(),
+    },
+    expiresAt: Date,
+    revokedAt: Date,
+    lastUsedAt: Date,
+  },
+  { _id: true },
+)
+
 const compileUserModel = (db: Mongoose) => {
   const Agency = getAgencyModel(db)
 
@@ -52,6 +90,10 @@ const compileUserModel = (db: Mongoose) => {
         ref: AGENCY_SCHEMA_ID,
         required: 'Agency is required',
       },
+      role: {
+        type: String,
+        enum: Object.values(UserRole),
+      },
       contact: {
         type: String,
         validate: {
@@ -84,6 +126,10 @@ const compileUserModel = (db: Mongoose) => {
         createdAt: Date,
         lastUsedAt: Date,
       },
+      apiKeys: {
+        type: [ApiKeySchema],
+        default: undefined,
+      },
     },
     {
       timestamps: {
@@ -0,0 +1,123 @@
+import { Mongoose, Schema } from 'mongoose'
+
+import { WebhookEventType, WebhookResponse } from '../../../shared/types'
+import {
+  IWebhookEventModel,
+  IWebhookEventSchema,
+  WebhookEventInfo,
+  WebhookEventView,
+} from '../../types'
+import { getWebhookTargets } from '../modules/webhook/webhook.utils'
+
+import { FORM_SCHEMA_ID } from './form.server.model'
+import { webhookResponseSchema } from './submission.server.model'
+
+export const WEBHOOK_EVENT_COLLECTION_NAME = 'webhookEvent'
+
+// Events are only needed until their webhooks are delivered, which is at most
+// a few days with retries.
+const WEBHOOK_EVENT_TTL_SECONDS = 30 * 24 * 60 * 60
+
+const WebhookEventSchema = new Schema<IWebhookEventSchema, IWebhookEventModel>(
+  {
+    form: {
+      type: Schema.Types.ObjectId,
+      ref: FORM_SCHEMA_ID,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(WebhookEventType),
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    webhookResponses: [webhookResponseSchema],
+  },
+  {
+    timestamps: {
+      createdAt: 'created',
+      updatedAt: false,
+    },
+  },
+)
+
+WebhookEventSchema.index(
+  { created: 1 },
+  { expireAfterSeconds: WEBHOOK_EVENT_TTL_SECONDS },
+)
+
+/**
+ * Returns an object which represents the event which will be posted to the
+ * webhook URL.
+ */
+WebhookEventSchema.methods.getWebhookView = function (
+  this: IWebhookEventSchema,
+): WebhookEventView {
+  return {
+    data: {
+      eventId: String(this._id),
+      type: this.type,
+      formId: this.populated('form')
+        ? String(this.form._id)
+        : String(this.form),
+      created: this.created?.toISOString(),
+      payload: this.payload,
+    } as WebhookEventView['data'],
+  }
+}
+
+WebhookEventSchema.statics.addWebhookResponse = function (
+  eventId: string,
+  webhookResponse: WebhookResponse,
+): Promise<IWebhookEventSchema | null> {
+  return this.findByIdAndUpdate(
+    eventId,
+    { $push: { webhookResponses: webhookResponse } },
+    { new: true, runValidators: true },
+  ).exec()
+}
+
+WebhookEventSchema.statics.retrieveWebhookInfoById = function (
+  this: IWebhookEventModel,
+  eventId: string,
+  endpointId?: string,
+): Promise<WebhookEventInfo | null> {
+  return this.findById(eventId)
+    .populate('form', 'webhook')
+    .then((event: IWebhookEventSchema | null) => {
+      if (!event) return null
+      const target = getWebhookTargets(event.form.webhook).find(
+        (target) => target.endpointId === endpointId,
+      )
+      return {
+        // Webhook URL or endpoint may have been removed since.
+        webhookUrl: '',
+        isRetryEnabled: false,
+        ...target,
+        webhookView: event.getWebhookView(),
+      }
+    })
+}
+
+/**
+ * Webhook event Schema
+ * @param db Active DB Connection
+ * @return Mongoose Model
+ */
+const getWebhookEventModel = (db: Mongoose): IWebhookEventModel => {
+  try {
+    return db.model<IWebhookEventSchema, IWebhookEventModel>(
+      WEBHOOK_EVENT_COLLECTION_NAME,
+    )
+  } catch {
+    return db.model<IWebhookEventSchema, IWebhookEventModel>(
+      WEBHOOK_EVENT_COLLECTION_NAME,
+      WebhookEventSchema,
+      WEBHOOK_EVENT_COLLECTION_NAME,
+    )
+  }
+}
+export default getWebhookEventModel
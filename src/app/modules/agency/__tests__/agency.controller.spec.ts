@@ -0,0 +1,684 @@
+import expressHandler from '__tests__/unit/backend/helpers/jest-express'
+import { PresignedPost } from 'aws-sdk/clients/s3'
+import { ObjectId } from 'bson-ext'
+import { StatusCodes } from 'http-status-codes'
+import { err, errAsync, ok, okAsync } from 'neverthrow'
+
+import {
+  AgencyAuditAction,
+  FormAuditAction,
+  FormId,
+  FormResponseMode,
+  FormStatus,
+  UpdateAgencyUserBodyDto,
+  UserRole,
+} from '../../../../../shared/types'
+import {
+  AgencyDocument,
+  IPopulatedForm,
+  IPopulatedUser,
+  IUserSchema,
+} from '../../../../types'
+import {
+  MissingAgencyAdminRoleError,
+  MissingSuperAdminRoleError,
+} from '../../auth/auth.errors'
+import * as AuthService from '../../auth/auth.service'
+import { DatabaseError } from '../../core/core.errors'
+import { InvalidFileTypeError } from '../../form/admin-form/admin-form.errors'
+import * as AdminFormService from '../../form/admin-form/admin-form.service'
+import { PermissionLevel } from '../../form/admin-form/admin-form.types'
+import {
+  ForbiddenFormError,
+  TransferOwnershipError,
+} from '../../form/form.errors'
+import * as FormAuditLogService from '../../form-audit-log/form-audit-log.service'
+import * as UserService from '../../user/user.service'
+import * as AgencyController from '../agency.controller'
+import { AgencyNotFoundError, EmailDomainInUseError } from '../agency.errors'
+import * as AgencyService from '../agency.service'
+import {
+  AgencyAdminView,
+  AgencyForm,
+  AgencyWithUserCount,
+  PopulatedAgencyAuditLog,
+} from '../agency.types'
+
+jest.mock('../../user/user.service')
+const MockUserService = jest.mocked(UserService)
+jest.mock('../../auth/auth.service')
+const MockAuthService = jest.mocked(AuthService)
+jest.mock('../../form/admin-form/admin-form.service')
+const MockAdminFormService = jest.mocked(AdminFormService)
+jest.mock('../agency.service')
+const MockAgencyService = jest.mocked(AgencyService)
+jest.mock('../../form-audit-log/form-audit-log.service')
+const MockFormAuditLogService = jest.mocked(FormAuditLogService)
+
+const MOCK_USER_ID = new ObjectId()
+const MOCK_USER = {
+  _id: MOCK_USER_ID,
+  email: 'superadmin@example.com',
+} as IPopulatedUser
+const MOCK_SESSION = { user: { _id: MOCK_USER_ID } }
+const MOCK_AGENCY_ID = new ObjectId()
+const MOCK_PARAMS = {
+  shortName: 'govtest',
+  fullName: 'Government Testing Agency',
+  emailDomain: ['test.gov.sg'],
+  logo: '/logo.png',
+}
+const MOCK_AGENCY = {
+  _id: MOCK_AGENCY_ID,
+  ...MOCK_PARAMS,
+} as unknown as AgencyDocument
+
+describe('agency.controller', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    MockUserService.getPopulatedUserById.mockReturnValue(okAsync(MOCK_USER))
+    MockAuthService.checkIsSuperAdmin.mockReturnValue(ok(MOCK_USER))
+  })
+
+  describe('handleListAgencies', () => {
+    const MOCK_REQ = expressHandler.mockRequest({ session: MOCK_SESSION })
+
+    it('should return 200 with the agencies', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockAgencies = [
+        { ...MOCK_PARAMS, userCount: 2 },
+      ] as AgencyWithUserCount[]
+      MockAgencyService.listAgencies.mockReturnValueOnce(okAsync(mockAgencies))
+
+      // Act
+      await AgencyController.handleListAgencies(MOCK_REQ, mockRes, jest.fn())
+
+      // Assert
+      expect(MockAuthService.checkIsSuperAdmin).toHaveBeenCalledWith(MOCK_USER)
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockAgencies)
+    })
+
+    it('should return 403 when the user is not a super-admin', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.checkIsSuperAdmin.mockReturnValueOnce(
+        err(new MissingSuperAdminRoleError()),
+      )
+
+      // Act
+      await AgencyController.handleListAgencies(MOCK_REQ, mockRes, jest.fn())
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+      expect(MockAgencyService.listAgencies).not.toHaveBeenCalled()
+    })
+
+    it('should return 500 when database error occurs', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAgencyService.listAgencies.mockReturnValueOnce(
+        errAsync(new DatabaseError()),
+      )
+
+      // Act
+      await AgencyController.handleListAgencies(MOCK_REQ, mockRes, jest.fn())
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      )
+    })
+  })
+
+  describe('handleCreateAgency', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      body: MOCK_PARAMS,
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the created agency', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAgencyService.createAgency.mockReturnValueOnce(okAsync(MOCK_AGENCY))
+
+      // Act
+      await AgencyController.handleCreateAgencyForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockAgencyService.createAgency).toHaveBeenCalledWith({
+        actor: MOCK_USER,
+        params: MOCK_PARAMS,
+      })
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(MOCK_AGENCY)
+    })
+
+    it('should return 409 when an email domain belongs to another agency', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAgencyService.createAgency.mockReturnValueOnce(
+        errAsync(new EmailDomainInUseError(['test.gov.sg'])),
+      )
+
+      // Act
+      await AgencyController.handleCreateAgencyForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.CONFLICT)
+    })
+  })
+
+  describe('handleGetAgency', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { agencyId: MOCK_AGENCY_ID.toHexString() },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the agency and its users', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockView = {
+        agency: MOCK_AGENCY,
+        users: [{ _id: MOCK_USER_ID, email: MOCK_USER.email, formCount: 3 }],
+        formCount: 3,
+      } as AgencyAdminView
+      MockAgencyService.getAgencyAdminView.mockReturnValueOnce(
+        okAsync(mockView),
+      )
+
+      // Act
+      await AgencyController.handleGetAgency(MOCK_REQ, mockRes, jest.fn())
+
+      // Assert
+      expect(MockAgencyService.getAgencyAdminView).toHaveBeenCalledWith(
+        MOCK_AGENCY_ID.toHexString(),
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockView)
+    })
+
+    it('should return 404 when the agency does not exist', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAgencyService.getAgencyAdminView.mockReturnValueOnce(
+        errAsync(new AgencyNotFoundError()),
+      )
+
+      // Act
+      await AgencyController.handleGetAgency(MOCK_REQ, mockRes, jest.fn())
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.NOT_FOUND)
+    })
+  })
+
+  describe('handleUpdateAgency', () => {
+    const MOCK_UPDATE = { emailDomain: ['test.gov.sg', 'new.gov.sg'] }
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { agencyId: MOCK_AGENCY_ID.toHexString() },
+      body: MOCK_UPDATE,
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the updated agency', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockUpdated = {
+        ...MOCK_AGENCY,
+        ...MOCK_UPDATE,
+      } as unknown as AgencyDocument
+      MockAgencyService.updateAgency.mockReturnValueOnce(okAsync(mockUpdated))
+
+      // Act
+      await AgencyController.handleUpdateAgencyForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockAgencyService.updateAgency).toHaveBeenCalledWith({
+        actor: MOCK_USER,
+        agencyId: MOCK_AGENCY_ID.toHexString(),
+        update: MOCK_UPDATE,
+      })
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockUpdated)
+    })
+
+    it('should return 403 when the user is not a super-admin', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.checkIsSuperAdmin.mockReturnValueOnce(
+        err(new MissingSuperAdminRoleError()),
+      )
+
+      // Act
+      await AgencyController.handleUpdateAgencyForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+      expect(MockAgencyService.updateAgency).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('handleUpdateAgencyUser', () => {
+    const MOCK_AGENCY_USER_ID = new ObjectId()
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: {
+        agencyId: MOCK_AGENCY_ID.toHexString(),
+        userId: MOCK_AGENCY_USER_ID.toHexString(),
+      },
+      body: { role: UserRole.AgencyAdmin } as UpdateAgencyUserBodyDto,
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the updated user, updated on behalf of the super-admin', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockUser = {
+        _id: MOCK_AGENCY_USER_ID,
+        email: 'user@test.gov.sg',
+        role: UserRole.AgencyAdmin,
+      } as unknown as IUserSchema
+      MockAgencyService.updateAgencyUserRole.mockReturnValueOnce(
+        okAsync(mockUser),
+      )
+
+      // Act
+      await AgencyController.handleUpdateAgencyUserForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockAgencyService.updateAgencyUserRole).toHaveBeenCalledWith({
+        actor: MOCK_USER,
+        agencyId: MOCK_AGENCY_ID.toHexString(),
+        userId: MOCK_AGENCY_USER_ID.toHexString(),
+        role: UserRole.AgencyAdmin,
+      })
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        _id: MOCK_AGENCY_USER_ID,
+        email: 'user@test.gov.sg',
+        role: UserRole.AgencyAdmin,
+      })
+    })
+  })
+
+  describe('handleListAgencyAuditLogs', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { agencyId: MOCK_AGENCY_ID.toHexString() },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the changes made to the agency', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockAuditLogId = new ObjectId()
+      const mockCreated = new Date('2023-04-01T00:00:00.000Z')
+      MockAgencyService.listAgencyAuditLogs.mockReturnValueOnce(
+        okAsync([
+          {
+            _id: mockAuditLogId,
+            agency: MOCK_AGENCY_ID,
+            actor: { _id: MOCK_USER_ID, email: MOCK_USER.email },
+            action: AgencyAuditAction.Update,
+            before: { logo: '/old.png' },
+            after: { logo: '/logo.png' },
+            created: mockCreated,
+          } as unknown as PopulatedAgencyAuditLog,
+        ]),
+      )
+
+      // Act
+      await AgencyController.handleListAgencyAuditLogs(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith([
+        {
+          _id: mockAuditLogId.toHexString(),
+          agency: MOCK_AGENCY_ID.toHexString(),
+          actor: MOCK_USER.email,
+          action: AgencyAuditAction.Update,
+          before: { logo: '/old.png' },
+          after: { logo: '/logo.png' },
+          created: mockCreated.toISOString(),
+        },
+      ])
+    })
+  })
+
+  describe('handleCreatePresignedPostUrlForAgencyLogo', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      body: {
+        fileId: 'logo.png',
+        fileMd5Hash: 'some hash',
+        fileType: 'image/png',
+      },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the presigned POST URL', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockPresignedPost: PresignedPost = {
+        fields: {
+          'X-Amz-Signature': 'some-amz-signature',
+          Policy: 'some policy',
+        },
+        url: 'some url',
+      }
+      MockAdminFormService.createPresignedPostUrlForLogos.mockReturnValueOnce(
+        okAsync(mockPresignedPost),
+      )
+
+      // Act
+      await AgencyController.handleCreatePresignedPostUrlForAgencyLogoForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(
+        MockAdminFormService.createPresignedPostUrlForLogos,
+      ).toHaveBeenCalledWith({
+        fileId: expect.stringContaining('logo.png'),
+        fileMd5Hash: 'some hash',
+        fileType: 'image/png',
+      })
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockPresignedPost)
+    })
+
+    it('should return 400 when the file type is invalid', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAdminFormService.createPresignedPostUrlForLogos.mockReturnValueOnce(
+        errAsync(new InvalidFileTypeError()),
+      )
+
+      // Act
+      await AgencyController.handleCreatePresignedPostUrlForAgencyLogoForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST)
+    })
+  })
+
+  describe('handleListAgencyForms', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { agencyId: String(MOCK_AGENCY_ID) },
+      query: { ownerEmail: 'owner@test.gov.sg' },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the forms of the agency', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockCheckIsAgencyAdmin = jest.fn().mockReturnValue(ok(MOCK_USER))
+      MockAuthService.checkIsAgencyAdmin.mockReturnValueOnce(
+        mockCheckIsAgencyAdmin,
+      )
+      const mockForm = {
+        _id: new ObjectId(),
+        title: 'some form',
+        status: FormStatus.Public,
+        responseMode: FormResponseMode.Encrypt,
+        admin: { _id: new ObjectId(), email: 'owner@test.gov.sg' },
+        permissionList: [{ email: 'collab@test.gov.sg', write: false }],
+        lastModified: new Date('2023-01-01T00:00:00.000Z'),
+      } as AgencyForm
+      MockAgencyService.listAgencyForms.mockReturnValueOnce(okAsync([mockForm]))
+
+      // Act
+      await AgencyController.handleListAgencyFormsForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockAuthService.checkIsAgencyAdmin).toHaveBeenCalledWith(
+        String(MOCK_AGENCY_ID),
+      )
+      expect(mockCheckIsAgencyAdmin).toHaveBeenCalledWith(MOCK_USER)
+      expect(MockAgencyService.listAgencyForms).toHaveBeenCalledWith(
+        String(MOCK_AGENCY_ID),
+        { ownerEmail: 'owner@test.gov.sg' },
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith([
+        {
+          _id: String(mockForm._id),
+          title: 'some form',
+          status: FormStatus.Public,
+          responseMode: FormResponseMode.Encrypt,
+          admin: 'owner@test.gov.sg',
+          collaboratorCount: 1,
+          lastModified: '2023-01-01T00:00:00.000Z',
+        },
+      ])
+    })
+
+    it('should return 403 when user is not an agency admin of the agency', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.checkIsAgencyAdmin.mockReturnValueOnce(
+        jest.fn().mockReturnValue(err(new MissingAgencyAdminRoleError())),
+      )
+
+      // Act
+      await AgencyController.handleListAgencyFormsForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockAgencyService.listAgencyForms).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+    })
+  })
+
+  describe('handleTransferAgencyFormsOwnership', () => {
+    const MOCK_FORM_IDS = [
+      new ObjectId().toHexString(),
+      new ObjectId().toHexString(),
+    ] as FormId[]
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { agencyId: String(MOCK_AGENCY_ID) },
+      body: { formIds: MOCK_FORM_IDS, email: 'newowner@test.gov.sg' },
+      session: MOCK_SESSION,
+    })
+    const MOCK_FORMS = MOCK_FORM_IDS.map(
+      (formId) =>
+        ({
+          _id: formId,
+          title: 'some form',
+          status: FormStatus.Private,
+          responseMode: FormResponseMode.Email,
+          admin: { _id: new ObjectId(), email: 'newowner@test.gov.sg' },
+          permissionList: [],
+          lastModified: new Date('2023-01-01T00:00:00.000Z'),
+        } as unknown as IPopulatedForm),
+    )
+
+    beforeEach(() => {
+      MockAuthService.checkIsAgencyAdmin.mockReturnValue(
+        jest.fn().mockReturnValue(ok(MOCK_USER)),
+      )
+      MockFormAuditLogService.createFormAuditLog.mockReturnValue(okAsync(true))
+    })
+
+    it('should return 200 with the transferred forms', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks
+        .mockReturnValueOnce(okAsync(MOCK_FORMS[0]))
+        .mockReturnValueOnce(okAsync(MOCK_FORMS[1]))
+      MockAgencyService.transferAgencyFormsOwnership.mockReturnValueOnce(
+        okAsync({ transferred: MOCK_FORMS, failed: [] }),
+      )
+
+      // Act
+      await AgencyController.handleTransferAgencyFormsOwnershipForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      MOCK_FORM_IDS.forEach((formId) =>
+        expect(
+          MockAuthService.getFormAfterPermissionChecks,
+        ).toHaveBeenCalledWith({
+          user: MOCK_USER,
+          formId,
+          level: PermissionLevel.Delete,
+        }),
+      )
+      expect(
+        MockAgencyService.transferAgencyFormsOwnership,
+      ).toHaveBeenCalledWith({
+        agencyId: String(MOCK_AGENCY_ID),
+        forms: MOCK_FORMS,
+        newOwnerEmail: 'newowner@test.gov.sg',
+      })
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        transferred: MOCK_FORM_IDS.map((formId) =>
+          expect.objectContaining({
+            _id: formId,
+            admin: 'newowner@test.gov.sg',
+          }),
+        ),
+        failed: [],
+      })
+    })
+
+    it('should record the transfer of each transferred form and return the forms which failed to be transferred', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const originalForms = MOCK_FORMS.map(
+        (form) =>
+          ({
+            ...form,
+            admin: { _id: new ObjectId(), email: 'oldowner@test.gov.sg' },
+          } as unknown as IPopulatedForm),
+      )
+      MockAuthService.getFormAfterPermissionChecks
+        .mockReturnValueOnce(okAsync(originalForms[0]))
+        .mockReturnValueOnce(okAsync(originalForms[1]))
+      MockAgencyService.transferAgencyFormsOwnership.mockReturnValueOnce(
+        okAsync({
+          transferred: [MOCK_FORMS[1]],
+          failed: [{ form: originalForms[0], error: new DatabaseError() }],
+        }),
+      )
+
+      // Act
+      await AgencyController.handleTransferAgencyFormsOwnershipForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockFormAuditLogService.createFormAuditLog).toHaveBeenCalledOnce()
+      expect(MockFormAuditLogService.createFormAuditLog).toHaveBeenCalledWith({
+        formId: MOCK_FORM_IDS[1],
+        actorId: MOCK_USER_ID,
+        action: FormAuditAction.TransferOwnership,
+        before: { admin: 'oldowner@test.gov.sg', permissionList: [] },
+        after: { admin: 'newowner@test.gov.sg', permissionList: [] },
+      })
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        transferred: [expect.objectContaining({ _id: MOCK_FORM_IDS[1] })],
+        failed: [
+          {
+            _id: MOCK_FORM_IDS[0],
+            title: 'some form',
+            message: 'The form could not be transferred. Please try again.',
+          },
+        ],
+      })
+    })
+
+    it('should return 403 without transferring any form when user does not have permissions for a form', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks
+        .mockReturnValueOnce(okAsync(MOCK_FORMS[0]))
+        .mockReturnValueOnce(errAsync(new ForbiddenFormError('not allowed')))
+
+      // Act
+      await AgencyController.handleTransferAgencyFormsOwnershipForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(
+        MockAgencyService.transferAgencyFormsOwnership,
+      ).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+    })
+
+    it('should return 400 when the new owner is not a user of the agency', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks
+        .mockReturnValueOnce(okAsync(MOCK_FORMS[0]))
+        .mockReturnValueOnce(okAsync(MOCK_FORMS[1]))
+      MockAgencyService.transferAgencyFormsOwnership.mockReturnValueOnce(
+        errAsync(
+          new TransferOwnershipError(
+            'newowner@test.gov.sg must be a user of the agency',
+          ),
+        ),
+      )
+
+      // Act
+      await AgencyController.handleTransferAgencyFormsOwnershipForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        message: 'newowner@test.gov.sg must be a user of the agency',
+      })
+    })
+  })
+})
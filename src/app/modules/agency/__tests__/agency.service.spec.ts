@@ -0,0 +1,414 @@
+import dbHandler from '__tests__/unit/backend/helpers/jest-db'
+import { ObjectId } from 'bson'
+import mongoose from 'mongoose'
+
+import getAgencyAuditLogModel from 'src/app/models/agency_audit_log.server.model'
+import getFormModel from 'src/app/models/form.server.model'
+import getUserModel from 'src/app/models/user.server.model'
+import { IUserSchema } from 'src/types'
+
+import {
+  AgencyAuditAction,
+  FormStatus,
+  UserRole,
+} from '../../../../../shared/types'
+import { DatabaseValidationError } from '../../core/core.errors'
+import { TransferOwnershipError } from '../../form/form.errors'
+import {
+  AgencyNotFoundError,
+  AgencyUserNotFoundError,
+  EmailDomainInUseError,
+} from '../agency.errors'
+import * as AgencyService from '../agency.service'
+
+const AgencyAuditLogModel = getAgencyAuditLogModel(mongoose)
+const FormModel = getFormModel(mongoose)
+const UserModel = getUserModel(mongoose)
+
+const MOCK_PARAMS = {
+  shortName: 'newagency',
+  fullName: 'New Agency',
+  emailDomain: ['new.gov.sg'],
+  logo: '/logo.png',
+}
+
+describe('agency.service', () => {
+  let actor: IUserSchema
+
+  beforeAll(async () => await dbHandler.connect())
+  beforeEach(async () => {
+    const { user } = await dbHandler.insertFormCollectionReqs()
+    actor = user
+  })
+  afterEach(async () => {
+    await dbHandler.clearDatabase()
+    jest.restoreAllMocks()
+  })
+  afterAll(async () => await dbHandler.closeDatabase())
+
+  describe('listAgencies', () => {
+    it('should return agencies with their number of users', async () => {
+      // Arrange
+      const otherAgency = await dbHandler.insertAgency({
+        shortName: 'another',
+        mailDomain: 'another.gov.sg',
+      })
+
+      // Act
+      const actualResult = await AgencyService.listAgencies()
+
+      // Assert
+      expect(actualResult.isOk()).toBeTrue()
+      expect(
+        actualResult
+          ._unsafeUnwrap()
+          .map(({ _id, userCount }) => ({ _id: String(_id), userCount })),
+      ).toEqual([
+        { _id: String(otherAgency._id), userCount: 0 },
+        { _id: String(actor.agency), userCount: 1 },
+      ])
+    })
+  })
+
+  describe('getAgencyAdminView', () => {
+    it('should return the users of the agency with the number of forms they own', async () => {
+      // Arrange
+      const otherUser = await dbHandler.insertUser({
+        agencyId: actor.agency,
+        mailName: 'other',
+      })
+      await FormModel.create([
+        { title: 'form 1', admin: actor._id },
+        { title: 'form 2', admin: actor._id },
+      ])
+
+      // Act
+      const actualResult = await AgencyService.getAgencyAdminView(
+        String(actor.agency),
+      )
+
+      // Assert
+      const { agency, users, formCount } = actualResult._unsafeUnwrap()
+      expect(String(agency._id)).toEqual(String(actor.agency))
+      expect(formCount).toEqual(2)
+      expect(
+        users.map(({ email, formCount }) => ({ email, formCount })),
+      ).toEqual([
+        { email: otherUser.email, formCount: 0 },
+        { email: actor.email, formCount: 2 },
+      ])
+    })
+
+    it('should return AgencyNotFoundError when the agency does not exist', async () => {
+      // Act
+      const actualResult = await AgencyService.getAgencyAdminView(
+        new ObjectId().toHexString(),
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        AgencyNotFoundError,
+      )
+    })
+  })
+
+  describe('createAgency', () => {
+    it('should create the agency and record its creation', async () => {
+      // Act
+      const actualResult = await AgencyService.createAgency({
+        actor,
+        params: MOCK_PARAMS,
+      })
+
+      // Assert
+      const agency = actualResult._unsafeUnwrap()
+      expect(agency.toObject()).toMatchObject(MOCK_PARAMS)
+      const auditLogs = await AgencyAuditLogModel.find().lean()
+      expect(auditLogs).toHaveLength(1)
+      expect(auditLogs[0]).toMatchObject({
+        agency: agency._id,
+        actor: actor._id,
+        action: AgencyAuditAction.Create,
+        before: {},
+        after: MOCK_PARAMS,
+      })
+    })
+
+    it('should return EmailDomainInUseError when an email domain belongs to another agency', async () => {
+      // Act
+      const actualResult = await AgencyService.createAgency({
+        actor,
+        params: { ...MOCK_PARAMS, emailDomain: ['new.gov.sg', 'test.gov.sg'] },
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        EmailDomainInUseError,
+      )
+      expect(actualResult._unsafeUnwrapErr().message).toContain('test.gov.sg')
+      await expect(AgencyAuditLogModel.countDocuments()).resolves.toEqual(0)
+    })
+
+    it('should return DatabaseValidationError when the agency is invalid', async () => {
+      // Act
+      const actualResult = await AgencyService.createAgency({
+        actor,
+        params: { ...MOCK_PARAMS, emailDomain: ['invalid'] },
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        DatabaseValidationError,
+      )
+    })
+  })
+
+  describe('updateAgency', () => {
+    it('should update the agency and record the changed fields only', async () => {
+      // Act
+      const actualResult = await AgencyService.updateAgency({
+        actor,
+        agencyId: String(actor.agency),
+        update: {
+          emailDomain: ['test.gov.sg', 'new.gov.sg'],
+          shortName: 'govtest',
+        },
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap().emailDomain).toEqual([
+        'test.gov.sg',
+        'new.gov.sg',
+      ])
+      const auditLogs = await AgencyAuditLogModel.find().lean()
+      expect(auditLogs).toHaveLength(1)
+      expect(auditLogs[0]).toMatchObject({
+        action: AgencyAuditAction.Update,
+        before: { emailDomain: ['test.gov.sg'] },
+        after: { emailDomain: ['test.gov.sg', 'new.gov.sg'] },
+      })
+    })
+
+    it('should not record anything when nothing changed', async () => {
+      // Act
+      const actualResult = await AgencyService.updateAgency({
+        actor,
+        agencyId: String(actor.agency),
+        update: { shortName: 'govtest' },
+      })
+
+      // Assert
+      expect(actualResult.isOk()).toBeTrue()
+      await expect(AgencyAuditLogModel.countDocuments()).resolves.toEqual(0)
+    })
+
+    it('should return EmailDomainInUseError when an email domain belongs to another agency', async () => {
+      // Arrange
+      await dbHandler.insertAgency({
+        shortName: 'another',
+        mailDomain: 'another.gov.sg',
+      })
+
+      // Act
+      const actualResult = await AgencyService.updateAgency({
+        actor,
+        agencyId: String(actor.agency),
+        update: { emailDomain: ['test.gov.sg', 'another.gov.sg'] },
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        EmailDomainInUseError,
+      )
+    })
+
+    it('should return AgencyNotFoundError when the agency does not exist', async () => {
+      // Act
+      const actualResult = await AgencyService.updateAgency({
+        actor,
+        agencyId: new ObjectId().toHexString(),
+        update: { shortName: 'govtest' },
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        AgencyNotFoundError,
+      )
+    })
+  })
+
+  describe('listAgencyAuditLogs', () => {
+    it('should return the changes to the agency with the email of the actor', async () => {
+      // Arrange
+      await AgencyService.updateAgency({
+        actor,
+        agencyId: String(actor.agency),
+        update: { logo: '/new-logo.png' },
+      })
+
+      // Act
+      const actualResult = await AgencyService.listAgencyAuditLogs(
+        String(actor.agency),
+      )
+
+      // Assert
+      const auditLogs = actualResult._unsafeUnwrap()
+      expect(auditLogs).toHaveLength(1)
+      expect(auditLogs[0].actor?.email).toEqual(actor.email)
+      expect(auditLogs[0].after).toEqual({ logo: '/new-logo.png' })
+    })
+  })
+
+  describe('updateAgencyUserRole', () => {
+    it('should assign and remove the agency admin role of the user', async () => {
+      // Act
+      const assignResult = await AgencyService.updateAgencyUserRole({
+        actor,
+        agencyId: String(actor.agency),
+        userId: String(actor._id),
+        role: UserRole.AgencyAdmin,
+      })
+      const removeResult = await AgencyService.updateAgencyUserRole({
+        actor,
+        agencyId: String(actor.agency),
+        userId: String(actor._id),
+        role: null,
+      })
+
+      // Assert
+      expect(assignResult._unsafeUnwrap().role).toEqual(UserRole.AgencyAdmin)
+      expect(removeResult._unsafeUnwrap().role).toBeUndefined()
+      await expect(UserModel.findById(actor._id)).resolves.toHaveProperty(
+        'role',
+        undefined,
+      )
+    })
+
+    it('should record each change to the role of the user in the audit log of the agency', async () => {
+      // Act
+      await AgencyService.updateAgencyUserRole({
+        actor,
+        agencyId: String(actor.agency),
+        userId: String(actor._id),
+        role: UserRole.AgencyAdmin,
+      })
+      // Assigning the same role again is not a change.
+      await AgencyService.updateAgencyUserRole({
+        actor,
+        agencyId: String(actor.agency),
+        userId: String(actor._id),
+        role: UserRole.AgencyAdmin,
+      })
+
+      // Assert
+      const auditLogs = await AgencyAuditLogModel.find({
+        agency: actor.agency,
+      }).lean()
+      expect(auditLogs).toHaveLength(1)
+      expect(auditLogs[0]).toMatchObject({
+        actor: actor._id,
+        action: AgencyAuditAction.UpdateUserRole,
+        before: { user: actor.email, role: null },
+        after: { user: actor.email, role: UserRole.AgencyAdmin },
+      })
+    })
+
+    it('should return AgencyUserNotFoundError when the user is a super-admin', async () => {
+      // Arrange
+      await UserModel.updateOne(
+        { _id: actor._id },
+        { role: UserRole.SuperAdmin },
+      )
+
+      // Act
+      const actualResult = await AgencyService.updateAgencyUserRole({
+        actor,
+        agencyId: String(actor.agency),
+        userId: String(actor._id),
+        role: null,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        AgencyUserNotFoundError,
+      )
+    })
+
+    it('should return AgencyUserNotFoundError when the user is not a user of the agency', async () => {
+      // Act
+      const actualResult = await AgencyService.updateAgencyUserRole({
+        actor,
+        agencyId: new ObjectId().toHexString(),
+        userId: String(actor._id),
+        role: UserRole.AgencyAdmin,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        AgencyUserNotFoundError,
+      )
+    })
+  })
+
+  describe('listAgencyForms', () => {
+    it('should return the forms of users of the agency which have not been deleted', async () => {
+      // Arrange
+      const otherUser = await dbHandler.insertUser({
+        agencyId: actor.agency,
+        mailName: 'other',
+      })
+      const [actorForm, otherUserForm] = await FormModel.create([
+        { title: 'form 1', admin: actor._id },
+        { title: 'form 2', admin: otherUser._id },
+        { title: 'form 3', admin: actor._id, status: FormStatus.Archived },
+      ])
+
+      // Act
+      const allResult = await AgencyService.listAgencyForms(
+        String(actor.agency),
+      )
+      const filteredResult = await AgencyService.listAgencyForms(
+        String(actor.agency),
+        { ownerEmail: otherUser.email.toUpperCase() },
+      )
+
+      // Assert
+      expect(
+        allResult._unsafeUnwrap().map(({ _id }) => String(_id)),
+      ).toIncludeSameMembers([String(actorForm._id), String(otherUserForm._id)])
+      const filteredForms = filteredResult._unsafeUnwrap()
+      expect(filteredForms.map(({ _id }) => String(_id))).toEqual([
+        String(otherUserForm._id),
+      ])
+      expect(filteredForms[0].admin.email).toEqual(otherUser.email)
+    })
+  })
+
+  describe('transferAgencyFormsOwnership', () => {
+    it('should return TransferOwnershipError when the new owner is not a user of the agency', async () => {
+      // Arrange
+      const otherAgency = await dbHandler.insertAgency({
+        shortName: 'another',
+        mailDomain: 'another.gov.sg',
+      })
+      const otherUser = await dbHandler.insertUser({
+        agencyId: otherAgency._id,
+        mailDomain: 'another.gov.sg',
+      })
+
+      // Act
+      const actualResult = await AgencyService.transferAgencyFormsOwnership({
+        agencyId: String(actor.agency),
+        forms: [],
+        newOwnerEmail: otherUser.email,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toEqual(
+        new TransferOwnershipError(
+          `${otherUser.email} must be a user of the agency`,
+        ),
+      )
+    })
+  })
+})
@@ -0,0 +1,640 @@
+import { ObjectId } from 'bson'
+import { celebrate, Joi, Segments } from 'celebrate'
+import { AuthedSessionData } from 'express-session'
+import { StatusCodes } from 'http-status-codes'
+import { ResultAsync } from 'neverthrow'
+
+import { VALID_UPLOAD_FILE_TYPES } from '../../../../shared/constants/file'
+import {
+  AgencyAuditLogDto,
+  AgencyFormDto,
+  AgencyFormQueryDto,
+  CreateAgencyBodyDto,
+  ErrorDto,
+  FormAuditAction,
+  FormId,
+  TransferAgencyFormsOwnershipBodyDto,
+  TransferAgencyFormsOwnershipResponseDto,
+  UpdateAgencyBodyDto,
+  UpdateAgencyUserBodyDto,
+  UserRole,
+} from '../../../../shared/types'
+import { createLoggerWithLabel } from '../../config/logger'
+import { createReqMeta } from '../../utils/request'
+import * as AuthService from '../auth/auth.service'
+import { ControllerHandler } from '../core/core.types'
+import * as AdminFormService from '../form/admin-form/admin-form.service'
+import { PermissionLevel } from '../form/admin-form/admin-form.types'
+import * as FormAuditLogService from '../form-audit-log/form-audit-log.service'
+import { toAuditValues } from '../form-audit-log/form-audit-log.utils'
+import * as UserService from '../user/user.service'
+
+import * as AgencyService from './agency.service'
+import {
+  mapRouteError,
+  toAgencyAuditLogDto,
+  toAgencyFormDto,
+} from './agency.utils'
+
+const logger = createLoggerWithLabel(module)
+
+// Validators
+const agencyBodySchema = {
+  shortName: Joi.string().trim().max(50),
+  fullName: Joi.string().trim().max(200),
+  emailDomain: Joi.array()
+    .items(
+      Joi.string()
+        .trim()
+        .lowercase()
+        .domain()
+        .message('Please enter a valid email domain'),
+    )
+    .min(1)
+    .unique(),
+  logo: Joi.string().trim(),
+  business: Joi.object({
+    address: Joi.string().trim().required(),
+    gstRegNo: Joi.string().trim().required(),
+  }),
+}
+
+const createAgencyValidator = celebrate({
+  [Segments.BODY]: Joi.object<CreateAgencyBodyDto>({
+    ...agencyBodySchema,
+    shortName: agencyBodySchema.shortName.required(),
+    fullName: agencyBodySchema.fullName.required(),
+    emailDomain: agencyBodySchema.emailDomain.required(),
+    logo: agencyBodySchema.logo.required(),
+  }),
+})
+
+const updateAgencyValidator = celebrate({
+  [Segments.BODY]: Joi.object<UpdateAgencyBodyDto>(agencyBodySchema).min(1),
+})
+
+const logoUploadValidator = celebrate({
+  [Segments.BODY]: {
+    fileId: Joi.string().required(),
+    fileMd5Hash: Joi.string().base64().required(),
+    fileType: Joi.string()
+      .valid(...VALID_UPLOAD_FILE_TYPES)
+      .required(),
+  },
+})
+
+const updateAgencyUserValidator = celebrate({
+  [Segments.BODY]: {
+    role: Joi.string().valid(UserRole.AgencyAdmin, null).required(),
+  },
+})
+
+const listAgencyFormsValidator = celebrate({
+  [Segments.QUERY]: {
+    ownerEmail: Joi.string().trim().email(),
+  },
+})
+
+const transferAgencyFormsOwnershipValidator = celebrate({
+  [Segments.BODY]: {
+    formIds: Joi.array()
+      .items(Joi.string().hex().length(24))
+      .min(1)
+      .max(100)
+      .unique()
+      .required(),
+    email: Joi.string()
+      .required()
+      .email()
+      .message('Please enter a valid email')
+      .lowercase(),
+  },
+})
+
+/**
+ * Retrieves the user in session, provided that the user is a super-admin.
+ */
+const getSuperAdminInSession = (session: AuthedSessionData) =>
+  UserService.getPopulatedUserById(session.user._id).andThen(
+    AuthService.checkIsSuperAdmin,
+  )
+
+/**
+ * Retrieves the user in session, provided that the user is an agency admin of
+ * the agency of the given id.
+ */
+const getAgencyAdminInSession = (
+  session: AuthedSessionData,
+  agencyId: string,
+) =>
+  UserService.getPopulatedUserById(session.user._id).andThen(
+    AuthService.checkIsAgencyAdmin(agencyId),
+  )
+
+/**
+ * Handler for GET /agencies.
+ * @security session
+ *
+ * @returns 200 with all agencies and their number of users
+ * @returns 403 when user is not a super-admin
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+export const handleListAgencies: ControllerHandler = (req, res) => {
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return getSuperAdminInSession(req.session as AuthedSessionData)
+    .andThen(() => AgencyService.listAgencies())
+    .map((agencies) => res.status(StatusCodes.OK).json(agencies))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error listing agencies',
+        meta: {
+          action: 'handleListAgencies',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+/**
+ * Handler for POST /agencies.
+ * @security session
+ *
+ * @returns 200 with the created agency
+ * @returns 400 when the agency is invalid
+ * @returns 403 when user is not a super-admin
+ * @returns 409 when any email domain already belongs to another agency
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleCreateAgency: ControllerHandler<
+  unknown,
+  unknown,
+  CreateAgencyBodyDto
+> = (req, res) => {
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return getSuperAdminInSession(req.session as AuthedSessionData)
+    .andThen((actor) => AgencyService.createAgency({ actor, params: req.body }))
+    .map((agency) => {
+      logger.info({
+        message: 'Agency created by super-admin',
+        meta: {
+          action: 'handleCreateAgency',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          agencyId: agency._id,
+        },
+      })
+      return res.status(StatusCodes.OK).json(agency)
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error creating agency',
+        meta: {
+          action: 'handleCreateAgency',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleCreateAgencyForTest = _handleCreateAgency
+
+export const handleCreateAgency = [
+  createAgencyValidator,
+  _handleCreateAgency,
+] as ControllerHandler[]
+
+/**
+ * Handler for GET /agencies/:agencyId.
+ * @security session
+ *
+ * @returns 200 with the agency, its users and the number of forms they own
+ * @returns 403 when user is not a super-admin
+ * @returns 404 when the agency cannot be found
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+export const handleGetAgency: ControllerHandler<{ agencyId: string }> = (
+  req,
+  res,
+) => {
+  const { agencyId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return getSuperAdminInSession(req.session as AuthedSessionData)
+    .andThen(() => AgencyService.getAgencyAdminView(agencyId))
+    .map((view) => res.status(StatusCodes.OK).json(view))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error retrieving agency',
+        meta: {
+          action: 'handleGetAgency',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          agencyId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+/**
+ * Handler for PATCH /agencies/:agencyId.
+ * @security session
+ *
+ * @returns 200 with the updated agency
+ * @returns 400 when the updated agency is invalid
+ * @returns 403 when user is not a super-admin
+ * @returns 404 when the agency cannot be found
+ * @returns 409 when any email domain already belongs to another agency
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleUpdateAgency: ControllerHandler<
+  { agencyId: string },
+  unknown,
+  UpdateAgencyBodyDto
+> = (req, res) => {
+  const { agencyId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return getSuperAdminInSession(req.session as AuthedSessionData)
+    .andThen((actor) =>
+      AgencyService.updateAgency({ actor, agencyId, update: req.body }),
+    )
+    .map((agency) => {
+      logger.info({
+        message: 'Agency updated by super-admin',
+        meta: {
+          action: 'handleUpdateAgency',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          agencyId,
+        },
+      })
+      return res.status(StatusCodes.OK).json(agency)
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error updating agency',
+        meta: {
+          action: 'handleUpdateAgency',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          agencyId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleUpdateAgencyForTest = _handleUpdateAgency
+
+export const handleUpdateAgency = [
+  updateAgencyValidator,
+  _handleUpdateAgency,
+] as ControllerHandler[]
+
+/**
+ * Handler for GET /agencies/:agencyId/audit-logs.
+ * @security session
+ *
+ * @returns 200 with the changes made to the agency, most recent first
+ * @returns 403 when user is not a super-admin
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+export const handleListAgencyAuditLogs: ControllerHandler<
+  { agencyId: string },
+  AgencyAuditLogDto[] | ErrorDto
+> = (req, res) => {
+  const { agencyId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return getSuperAdminInSession(req.session as AuthedSessionData)
+    .andThen(() => AgencyService.listAgencyAuditLogs(agencyId))
+    .map((auditLogs) =>
+      res.status(StatusCodes.OK).json(auditLogs.map(toAgencyAuditLogDto)),
+    )
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error retrieving agency audit logs',
+        meta: {
+          action: 'handleListAgencyAuditLogs',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          agencyId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+/**
+ * Handler for POST /agencies/logos/presign.
+ * @security session
+ *
+ * @returns 200 with presigned POST URL object
+ * @returns 400 when error occurs whilst creating presigned POST URL object
+ * @returns 403 when user is not a super-admin
+ * @returns 422 when user in session cannot be retrieved from the database
+ */
+const _handleCreatePresignedPostUrlForAgencyLogo: ControllerHandler<
+  unknown,
+  unknown,
+  {
+    fileId: string
+    fileMd5Hash: string
+    fileType: string
+  }
+> = (req, res) => {
+  const { fileId, fileMd5Hash, fileType } = req.body
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  // Adding random objectId ensures fileId is unpredictable by client
+  const randomizedFileId = `${String(new ObjectId())}-${fileId}`
+
+  return getSuperAdminInSession(req.session as AuthedSessionData)
+    .andThen(() =>
+      // Agency logos are stored alongside form logos.
+      AdminFormService.createPresignedPostUrlForLogos({
+        fileId: randomizedFileId,
+        fileMd5Hash,
+        fileType,
+      }),
+    )
+    .map((presignedPostUrl) =>
+      res.status(StatusCodes.OK).json(presignedPostUrl),
+    )
+    .mapErr((error) => {
+      logger.error({
+        message: 'Presigning post data encountered an error',
+        meta: {
+          action: 'handleCreatePresignedPostUrlForAgencyLogo',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleCreatePresignedPostUrlForAgencyLogoForTest =
+  _handleCreatePresignedPostUrlForAgencyLogo
+
+export const handleCreatePresignedPostUrlForAgencyLogo = [
+  logoUploadValidator,
+  _handleCreatePresignedPostUrlForAgencyLogo,
+] as ControllerHandler[]
+
+/**
+ * Handler for PATCH /agencies/:agencyId/users/:userId.
+ * @security session
+ *
+ * @returns 200 with the updated user
+ * @returns 403 when user is not a super-admin
+ * @returns 404 when the user to update is not a user of the agency, or is a super-admin
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleUpdateAgencyUser: ControllerHandler<
+  { agencyId: string; userId: string },
+  unknown,
+  UpdateAgencyUserBodyDto
+> = (req, res) => {
+  const { agencyId, userId } = req.params
+  const { role } = req.body
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return getSuperAdminInSession(req.session as AuthedSessionData)
+    .andThen((actor) =>
+      AgencyService.updateAgencyUserRole({ actor, agencyId, userId, role }),
+    )
+    .map((user) => {
+      logger.info({
+        message: 'Role of agency user updated by super-admin',
+        meta: {
+          action: 'handleUpdateAgencyUser',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          agencyId,
+          updatedUserId: userId,
+          role,
+        },
+      })
+      return res
+        .status(StatusCodes.OK)
+        .json({ _id: user._id, email: user.email, role: user.role })
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error updating role of agency user',
+        meta: {
+          action: 'handleUpdateAgencyUser',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          agencyId,
+          updatedUserId: userId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleUpdateAgencyUserForTest = _handleUpdateAgencyUser
+
+export const handleUpdateAgencyUser = [
+  updateAgencyUserValidator,
+  _handleUpdateAgencyUser,
+] as ControllerHandler[]
+
+/**
+ * Handler for GET /agencies/:agencyId/forms.
+ * @security session
+ *
+ * @returns 200 with the forms owned by users of the agency
+ * @returns 403 when user is not an agency admin of the agency
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleListAgencyForms: ControllerHandler<
+  { agencyId: string },
+  AgencyFormDto[] | ErrorDto,
+  unknown,
+  AgencyFormQueryDto
+> = (req, res) => {
+  const { agencyId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return getAgencyAdminInSession(req.session as AuthedSessionData, agencyId)
+    .andThen(() => AgencyService.listAgencyForms(agencyId, req.query))
+    .map((forms) => res.status(StatusCodes.OK).json(forms.map(toAgencyFormDto)))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error retrieving forms of agency',
+        meta: {
+          action: 'handleListAgencyForms',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          agencyId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleListAgencyFormsForTest = _handleListAgencyForms
+
+export const handleListAgencyForms = [
+  listAgencyFormsValidator,
+  _handleListAgencyForms,
+] as ControllerHandler[]
+
+/**
+ * Handler for POST /agencies/:agencyId/forms/transfer-owner.
+ * Each form is transferred on its own, so forms which fail to be transferred
+ * are returned along with the transferred forms instead of failing the
+ * request.
+ * @security session
+ *
+ * @returns 200 with the transferred forms and the forms which could not be transferred
+ * @returns 400 when the new owner has not logged in before, or is not a user of the agency
+ * @returns 403 when user is not an agency admin of the agency, or of the agency of any of the forms
+ * @returns 404 when any form cannot be found
+ * @returns 410 when any form has been deleted
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleTransferAgencyFormsOwnership: ControllerHandler<
+  { agencyId: string },
+  TransferAgencyFormsOwnershipResponseDto | ErrorDto,
+  TransferAgencyFormsOwnershipBodyDto
+> = (req, res) => {
+  const { agencyId } = req.params
+  const { formIds, email: newOwnerEmail } = req.body
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return (
+    // Step 1: Retrieve currently logged in agency admin.
+    getAgencyAdminInSession(req.session as AuthedSessionData, agencyId)
+      // Step 2: Retrieve all forms with delete permission checks, which agency
+      // admins have for forms of their agency.
+      .andThen((user) =>
+        ResultAsync.combine(
+          formIds.map((formId) =>
+            AuthService.getFormAfterPermissionChecks({
+              user,
+              formId,
+              level: PermissionLevel.Delete,
+            }),
+          ),
+        ),
+      )
+      // Step 3: Transfer the ownership of the forms.
+      .andThen((forms) => {
+        const beforeByFormId = new Map(
+          forms.map((form) => [
+            String(form._id),
+            toAuditValues({
+              admin: form.admin.email,
+              permissionList: form.permissionList,
+            }),
+          ]),
+        )
+        return AgencyService.transferAgencyFormsOwnership({
+          agencyId,
+          forms,
+          newOwnerEmail,
+        }).andThen((result) =>
+          // Step 4: Record the transfer in the audit log of each form which
+          // was transferred.
+          ResultAsync.combine(
+            result.transferred.map((form) =>
+              FormAuditLogService.createFormAuditLog({
+                formId: form._id,
+                actorId: sessionUserId,
+                action: FormAuditAction.TransferOwnership,
+                before: beforeByFormId.get(String(form._id)),
+                after: {
+                  admin: form.admin.email,
+                  permissionList: form.permissionList,
+                },
+              }),
+            ),
+          ).map(() => result),
+        )
+      })
+      .map(({ transferred, failed }) => {
+        logger.info({
+          message: 'Forms of agency transferred by agency admin',
+          meta: {
+            action: 'handleTransferAgencyFormsOwnership',
+            ...createReqMeta(req),
+            userId: sessionUserId,
+            agencyId,
+            formIds: transferred.map(({ _id }) => _id),
+            failedFormIds: failed.map(({ form }) => form._id),
+            newOwnerEmail,
+          },
+        })
+        return res.status(StatusCodes.OK).json({
+          transferred: transferred.map(toAgencyFormDto),
+          failed: failed.map(({ form, error }) => ({
+            _id: String(form._id) as FormId,
+            title: form.title,
+            message: mapRouteError(
+              error,
+              'The form could not be transferred. Please try again.',
+            ).errorMessage,
+          })),
+        })
+      })
+      .mapErr((error) => {
+        logger.error({
+          message: 'Error transferring ownership of forms of agency',
+          meta: {
+            action: 'handleTransferAgencyFormsOwnership',
+            ...createReqMeta(req),
+            userId: sessionUserId,
+            agencyId,
+            formIds,
+            newOwnerEmail,
+          },
+          error,
+        })
+        const { errorMessage, statusCode } = mapRouteError(error)
+        return res.status(statusCode).json({ message: errorMessage })
+      })
+  )
+}
+
+export const handleTransferAgencyFormsOwnershipForTest =
+  _handleTransferAgencyFormsOwnership
+
+export const handleTransferAgencyFormsOwnership = [
+  transferAgencyFormsOwnershipValidator,
+  _handleTransferAgencyFormsOwnership,
+] as ControllerHandler[]
@@ -0,0 +1,23 @@
+import { ApplicationError } from '../core/core.errors'
+
+export class AgencyNotFoundError extends ApplicationError {
+  constructor(message = 'Agency not found') {
+    super(message)
+  }
+}
+
+export class EmailDomainInUseError extends ApplicationError {
+  constructor(emailDomains: string[]) {
+    super(
+      `The email domains ${emailDomains.join(
+        ', ',
+      )} already belong to another agency`,
+    )
+  }
+}
+
+export class AgencyUserNotFoundError extends ApplicationError {
+  constructor(message = 'User not found in agency') {
+    super(message)
+  }
+}
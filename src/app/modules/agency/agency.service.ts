@@ -0,0 +1,594 @@
+import { isEqual, pick, uniq } from 'lodash'
+import mongoose from 'mongoose'
+import { errAsync, okAsync, ResultAsync } from 'neverthrow'
+
+import {
+  AgencyAuditAction,
+  AgencyFormQueryDto,
+  CreateAgencyBodyDto,
+  FormStatus,
+  UpdateAgencyBodyDto,
+  UpdateAgencyUserBodyDto,
+  UserRole,
+} from '../../../../shared/types'
+import {
+  AgencyDocument,
+  IAgencyAuditLogSchema,
+  IAgencySchema,
+  IPopulatedForm,
+  IUserSchema,
+} from '../../../types'
+import { createLoggerWithLabel } from '../../config/logger'
+import getAgencyModel from '../../models/agency.server.model'
+import getAgencyAuditLogModel from '../../models/agency_audit_log.server.model'
+import getFormModel from '../../models/form.server.model'
+import getUserModel from '../../models/user.server.model'
+import {
+  getMongoErrorMessage,
+  transformMongoError,
+} from '../../utils/handle-mongo-error'
+import { DatabaseError, PossibleDatabaseError } from '../core/core.errors'
+import * as AdminFormService from '../form/admin-form/admin-form.service'
+import { TransferFormsOwnershipResult } from '../form/admin-form/admin-form.types'
+import { TransferOwnershipError } from '../form/form.errors'
+import { MissingUserError } from '../user/user.errors'
+import * as UserService from '../user/user.service'
+
+import {
+  AgencyNotFoundError,
+  AgencyUserNotFoundError,
+  EmailDomainInUseError,
+} from './agency.errors'
+import {
+  AgencyAdminView,
+  AgencyForm,
+  AgencyWithUserCount,
+  PopulatedAgencyAuditLog,
+} from './agency.types'
+
+const logger = createLoggerWithLabel(module)
+const AgencyModel = getAgencyModel(mongoose)
+const AgencyAuditLogModel = getAgencyAuditLogModel(mongoose)
+const FormModel = getFormModel(mongoose)
+const UserModel = getUserModel(mongoose)
+
+// Fields of agencies which can be administered, and are audited on change.
+const AGENCY_EDITABLE_FIELDS: (keyof CreateAgencyBodyDto)[] = [
+  'shortName',
+  'fullName',
+  'emailDomain',
+  'logo',
+  'business',
+]
+
+/**
+ * Retrieves all agencies, along with the number of users in each agency.
+ * @returns ok(agencies) sorted by short name
+ * @returns err(DatabaseError) if database query errors
+ */
+export const listAgencies = (): ResultAsync<
+  AgencyWithUserCount[],
+  DatabaseError
+> => {
+  const logMeta = { action: 'listAgencies' }
+
+  return ResultAsync.combine([
+    ResultAsync.fromPromise(
+      AgencyModel.find().sort({ shortName: 1 }).lean().exec(),
+      (error) => {
+        logger.error({
+          message: 'Error retrieving agencies from database',
+          meta: logMeta,
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      },
+    ),
+    ResultAsync.fromPromise(
+      UserModel.aggregate<{ _id: IAgencySchema['_id']; count: number }>([
+        { $group: { _id: '$agency', count: { $sum: 1 } } },
+      ]),
+      (error) => {
+        logger.error({
+          message: 'Error counting users of agencies',
+          meta: logMeta,
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      },
+    ),
+  ]).map(([agencies, userCounts]) => {
+    const userCountByAgency = new Map(
+      userCounts.map(({ _id, count }) => [String(_id), count]),
+    )
+    return agencies.map((agency) => ({
+      ...agency,
+      userCount: userCountByAgency.get(String(agency._id)) ?? 0,
+    }))
+  })
+}
+
+/**
+ * Retrieves the agency of the given id.
+ * @param agencyId the id of the agency to retrieve
+ * @returns ok(agency) if the agency exists
+ * @returns err(AgencyNotFoundError) if the agency does not exist
+ * @returns err(DatabaseError) if database query errors
+ */
+export const getAgencyById = (
+  agencyId: string,
+): ResultAsync<AgencyDocument, AgencyNotFoundError | DatabaseError> => {
+  return ResultAsync.fromPromise(
+    AgencyModel.findById(agencyId).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error retrieving agency from database',
+        meta: {
+          action: 'getAgencyById',
+          agencyId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((agency) =>
+    agency
+      ? okAsync(agency as AgencyDocument)
+      : errAsync(new AgencyNotFoundError()),
+  )
+}
+
+/**
+ * Retrieves the agency of the given id, along with its users and the number
+ * of forms owned by each of them.
+ * @param agencyId the id of the agency to retrieve
+ * @returns ok(view) of the agency
+ * @returns err(AgencyNotFoundError) if the agency does not exist
+ * @returns err(DatabaseError) if database query errors
+ */
+export const getAgencyAdminView = (
+  agencyId: string,
+): ResultAsync<AgencyAdminView, AgencyNotFoundError | DatabaseError> => {
+  const logMeta = {
+    action: 'getAgencyAdminView',
+    agencyId,
+  }
+
+  return getAgencyById(agencyId).andThen((agency) =>
+    ResultAsync.fromPromise(
+      UserModel.find({ agency: agency._id }, 'email lastAccessed role')
+        .sort({ email: 1 })
+        .lean()
+        .exec(),
+      (error) => {
+        logger.error({
+          message: 'Error retrieving users of agency',
+          meta: logMeta,
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      },
+    ).andThen((users) =>
+      ResultAsync.fromPromise(
+        FormModel.aggregate<{ _id: IUserSchema['_id']; count: number }>([
+          { $match: { admin: { $in: users.map(({ _id }) => _id) } } },
+          { $group: { _id: '$admin', count: { $sum: 1 } } },
+        ]),
+        (error) => {
+          logger.error({
+            message: 'Error counting forms of agency users',
+            meta: logMeta,
+            error,
+          })
+          return new DatabaseError(getMongoErrorMessage(error))
+        },
+      ).map((formCounts) => {
+        const formCountByUser = new Map(
+          formCounts.map(({ _id, count }) => [String(_id), count]),
+        )
+        const usersWithFormCounts = users.map(
+          ({ _id, email, lastAccessed, role }) => ({
+            _id,
+            email,
+            lastAccessed,
+            role,
+            formCount: formCountByUser.get(String(_id)) ?? 0,
+          }),
+        )
+        return {
+          agency,
+          users: usersWithFormCounts,
+          formCount: usersWithFormCounts.reduce(
+            (total, { formCount }) => total + formCount,
+            0,
+          ),
+        }
+      }),
+    ),
+  )
+}
+
+/**
+ * Ensures that none of the given email domains belong to another agency, as
+ * users are assigned to agencies by the domain of their email on login.
+ * @param emailDomains the email domains to check
+ * @param agencyId the id of the agency the domains are for, if it exists
+ * @returns ok(true) if none of the email domains belong to another agency
+ * @returns err(EmailDomainInUseError) if any email domain belongs to another agency
+ * @returns err(DatabaseError) if database query errors
+ */
+const checkEmailDomainsAvailable = (
+  emailDomains: string[],
+  agencyId?: IAgencySchema['_id'],
+): ResultAsync<true, EmailDomainInUseError | DatabaseError> => {
+  return ResultAsync.fromPromise(
+    AgencyModel.find(
+      {
+        emailDomain: { $in: emailDomains },
+        ...(agencyId ? { _id: { $ne: agencyId } } : {}),
+      },
+      'emailDomain',
+    )
+      .lean()
+      .exec(),
+    (error) => {
+      logger.error({
+        message: 'Error checking for agencies with email domains',
+        meta: {
+          action: 'checkEmailDomainsAvailable',
+          emailDomains,
+          agencyId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((agencies) => {
+    const domainsInUse = uniq(
+      agencies.flatMap(({ emailDomain }) =>
+        emailDomain.filter((domain) => emailDomains.includes(domain)),
+      ),
+    )
+    return domainsInUse.length > 0
+      ? errAsync(new EmailDomainInUseError(domainsInUse))
+      : okAsync(true as const)
+  })
+}
+
+/**
+ * Records a change made to an agency by a super-admin.
+ * As the change has already been made, failures are logged and not returned
+ * to the caller.
+ * @returns ok(true) if the change was recorded
+ * @returns ok(false) if the change could not be recorded
+ */
+const createAgencyAuditLog = (
+  auditLog: Pick<
+    IAgencyAuditLogSchema,
+    'agency' | 'actor' | 'action' | 'before' | 'after'
+  >,
+): ResultAsync<boolean, never> => {
+  return ResultAsync.fromPromise(
+    AgencyAuditLogModel.create(auditLog),
+    (error) => error,
+  )
+    .map(() => true)
+    .orElse((error) => {
+      logger.error({
+        message: 'Failed to record change to agency in audit log',
+        meta: {
+          action: 'createAgencyAuditLog',
+          agencyId: auditLog.agency,
+          actorId: auditLog.actor,
+          auditAction: auditLog.action,
+        },
+        error,
+      })
+      return okAsync(false)
+    })
+}
+
+/**
+ * Creates an agency, recording its creation in the audit log.
+ * @param actor the super-admin creating the agency
+ * @param params the details of the agency
+ * @returns ok(agency) the created agency
+ * @returns err(EmailDomainInUseError) if any email domain belongs to another agency
+ * @returns err(PossibleDatabaseError) if the agency is invalid or database errors occur
+ */
+export const createAgency = ({
+  actor,
+  params,
+}: {
+  actor: IUserSchema
+  params: CreateAgencyBodyDto
+}): ResultAsync<
+  AgencyDocument,
+  EmailDomainInUseError | PossibleDatabaseError
+> => {
+  return checkEmailDomainsAvailable(params.emailDomain)
+    .andThen(() =>
+      ResultAsync.fromPromise(AgencyModel.create(params), (error) => {
+        logger.error({
+          message: 'Error creating agency',
+          meta: {
+            action: 'createAgency',
+            actorId: actor._id,
+          },
+          error,
+        })
+        return transformMongoError(error)
+      }),
+    )
+    .andThen((agency) =>
+      createAgencyAuditLog({
+        agency: agency._id,
+        actor: actor._id,
+        action: AgencyAuditAction.Create,
+        before: {},
+        after: pick(agency.toObject(), AGENCY_EDITABLE_FIELDS),
+      }).map(() => agency as AgencyDocument),
+    )
+}
+
+/**
+ * Updates the given fields of an agency, recording the fields which changed
+ * in the audit log.
+ * @param actor the super-admin updating the agency
+ * @param agencyId the id of the agency to update
+ * @param update the fields of the agency to update
+ * @returns ok(agency) the updated agency
+ * @returns err(AgencyNotFoundError) if the agency does not exist
+ * @returns err(EmailDomainInUseError) if any email domain belongs to another agency
+ * @returns err(PossibleDatabaseError) if the updated agency is invalid or database errors occur
+ */
+export const updateAgency = ({
+  actor,
+  agencyId,
+  update,
+}: {
+  actor: IUserSchema
+  agencyId: string
+  update: UpdateAgencyBodyDto
+}): ResultAsync<
+  AgencyDocument,
+  AgencyNotFoundError | EmailDomainInUseError | PossibleDatabaseError
+> => {
+  return getAgencyById(agencyId)
+    .andThen((agency) =>
+      (update.emailDomain
+        ? checkEmailDomainsAvailable(update.emailDomain, agency._id)
+        : okAsync(true as const)
+      ).map(() => agency),
+    )
+    .andThen((agency) => {
+      const before = pick(agency.toObject(), AGENCY_EDITABLE_FIELDS)
+      agency.set(update)
+      return ResultAsync.fromPromise(agency.save(), (error) => {
+        logger.error({
+          message: 'Error updating agency',
+          meta: {
+            action: 'updateAgency',
+            actorId: actor._id,
+            agencyId,
+          },
+          error,
+        })
+        return transformMongoError(error)
+      }).map((updated) => ({ before, updated: updated as AgencyDocument }))
+    })
+    .andThen(({ before, updated }) => {
+      const after = pick(updated.toObject(), AGENCY_EDITABLE_FIELDS)
+      const changedFields = AGENCY_EDITABLE_FIELDS.filter(
+        (field) => !isEqual(before[field], after[field]),
+      )
+      if (changedFields.length === 0) return okAsync(updated)
+
+      return createAgencyAuditLog({
+        agency: updated._id,
+        actor: actor._id,
+        action: AgencyAuditAction.Update,
+        before: pick(before, changedFields),
+        after: pick(after, changedFields),
+      }).map(() => updated)
+    })
+}
+
+/**
+ * Retrieves the audit log of the agency of the given id, most recent first.
+ * @param agencyId the id of the agency
+ * @returns ok(auditLogs) of the agency, with the email of each actor
+ * @returns err(DatabaseError) if database query errors
+ */
+export const listAgencyAuditLogs = (
+  agencyId: string,
+): ResultAsync<PopulatedAgencyAuditLog[], DatabaseError> => {
+  return ResultAsync.fromPromise(
+    AgencyAuditLogModel.find({ agency: agencyId })
+      .sort({ created: -1 })
+      .populate('actor', 'email')
+      .lean()
+      .exec() as Promise<PopulatedAgencyAuditLog[]>,
+    (error) => {
+      logger.error({
+        message: 'Error retrieving agency audit logs from database',
+        meta: {
+          action: 'listAgencyAuditLogs',
+          agencyId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  )
+}
+
+/**
+ * Assigns or removes the agency admin role of a user of the agency, recording
+ * the change in the audit log of the agency.
+ * Super-admins are left as they are, as their role can only be changed
+ * directly in the database.
+ * @param actor the super-admin updating the role of the user
+ * @param agencyId the id of the agency of the user
+ * @param userId the id of the user to update
+ * @param role the role to assign, or null to remove the role of the user
+ * @returns ok(user) the updated user
+ * @returns err(AgencyUserNotFoundError) if the user is not a user of the agency, or is a super-admin
+ * @returns err(DatabaseError) if database errors occur
+ */
+export const updateAgencyUserRole = ({
+  actor,
+  agencyId,
+  userId,
+  role,
+}: {
+  actor: IUserSchema
+  agencyId: string
+  userId: string
+} & UpdateAgencyUserBodyDto): ResultAsync<
+  IUserSchema,
+  AgencyUserNotFoundError | DatabaseError
+> => {
+  return ResultAsync.fromPromise(
+    // Return the user as it was before the update, to record its previous role.
+    UserModel.findOneAndUpdate(
+      { _id: userId, agency: agencyId, role: { $ne: UserRole.SuperAdmin } },
+      role ? { $set: { role } } : { $unset: { role: 1 } },
+      { new: false },
+    ).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error updating role of agency user',
+        meta: {
+          action: 'updateAgencyUserRole',
+          actorId: actor._id,
+          agencyId,
+          userId,
+          role,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((user) => {
+    if (!user) return errAsync(new AgencyUserNotFoundError())
+
+    const previousRole = user.role ?? null
+    // The user was retrieved before the update, so apply the update to it.
+    user.role = role ?? undefined
+    if (previousRole === role) return okAsync(user)
+
+    return createAgencyAuditLog({
+      agency: user.agency,
+      actor: actor._id,
+      action: AgencyAuditAction.UpdateUserRole,
+      before: { user: user.email, role: previousRole },
+      after: { user: user.email, role },
+    }).map(() => user)
+  })
+}
+
+/**
+ * Retrieves the forms owned by users of the agency which have not been
+ * deleted, most recently modified first.
+ * @param agencyId the id of the agency
+ * @param ownerEmail the email of the owner to filter forms by, if any
+ * @returns ok(forms) owned by users of the agency
+ * @returns err(DatabaseError) if database query errors
+ */
+export const listAgencyForms = (
+  agencyId: string,
+  { ownerEmail }: AgencyFormQueryDto = {},
+): ResultAsync<AgencyForm[], DatabaseError> => {
+  const logMeta = {
+    action: 'listAgencyForms',
+    agencyId,
+    ownerEmail,
+  }
+
+  return ResultAsync.fromPromise(
+    UserModel.find(
+      {
+        agency: agencyId,
+        ...(ownerEmail ? { email: ownerEmail.toLowerCase() } : {}),
+      },
+      '_id',
+    )
+      .lean()
+      .exec(),
+    (error) => {
+      logger.error({
+        message: 'Error retrieving users of agency',
+        meta: logMeta,
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((users) =>
+    ResultAsync.fromPromise(
+      FormModel.find(
+        {
+          admin: { $in: users.map(({ _id }) => _id) },
+          status: { $ne: FormStatus.Archived },
+        },
+        'title status responseMode admin permissionList lastModified',
+      )
+        .sort({ lastModified: -1 })
+        .populate('admin', 'email')
+        .lean()
+        .exec() as Promise<AgencyForm[]>,
+      (error) => {
+        logger.error({
+          message: 'Error retrieving forms of agency',
+          meta: logMeta,
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      },
+    ),
+  )
+}
+
+/**
+ * Transfers the ownership of the given forms of the agency to another user of
+ * the agency, such as when the owner of the forms leaves the agency.
+ * @param agencyId the id of the agency of the forms
+ * @param forms the forms to transfer
+ * @param newOwnerEmail the email of the new owner of the forms
+ * @returns ok(result) with the transferred forms, and the forms which could not be transferred with the reason why
+ * @returns err(TransferOwnershipError) if the new owner has not logged in before, or is not a user of the agency
+ * @returns err(DatabaseError) if the new owner could not be retrieved
+ */
+export const transferAgencyFormsOwnership = ({
+  agencyId,
+  forms,
+  newOwnerEmail,
+}: {
+  agencyId: string
+  forms: IPopulatedForm[]
+  newOwnerEmail: string
+}): ResultAsync<
+  TransferFormsOwnershipResult,
+  TransferOwnershipError | DatabaseError
+> => {
+  return UserService.findUserByEmail(newOwnerEmail)
+    .mapErr((error) =>
+      error instanceof MissingUserError
+        ? new TransferOwnershipError(
+            `${newOwnerEmail} must have logged in once before being added as Owner`,
+          )
+        : error,
+    )
+    .andThen((newOwner) =>
+      String(newOwner.agency) === agencyId
+        ? okAsync(newOwner)
+        : errAsync(
+            new TransferOwnershipError(
+              `${newOwnerEmail} must be a user of the agency`,
+            ),
+          ),
+    )
+    .andThen(() =>
+      AdminFormService.transferFormsOwnership(forms, newOwnerEmail),
+    )
+}
@@ -0,0 +1,40 @@
+import {
+  IAgencyAuditLogSchema,
+  IAgencySchema,
+  IFormDocument,
+  IUserSchema,
+} from '../../../types'
+
+export type AgencyWithUserCount = IAgencySchema & {
+  userCount: number
+}
+
+export type AgencyUser = Pick<
+  IUserSchema,
+  '_id' | 'email' | 'lastAccessed' | 'role'
+> & {
+  formCount: number
+}
+
+export type AgencyAdminView = {
+  agency: IAgencySchema
+  users: AgencyUser[]
+  formCount: number
+}
+
+export type PopulatedAgencyAuditLog = Omit<
+  IAgencyAuditLogSchema,
+  'actor' | 'created'
+> & {
+  // Null if the actor has since been deleted.
+  actor: Pick<IUserSchema, '_id' | 'email'> | null
+  created: Date
+}
+
+export type AgencyForm = Pick<
+  IFormDocument,
+  '_id' | 'title' | 'status' | 'responseMode' | 'permissionList'
+> & {
+  admin: Pick<IUserSchema, '_id' | 'email'>
+  lastModified?: Date
+}
@@ -0,0 +1,148 @@
+import { StatusCodes } from 'http-status-codes'
+
+import {
+  AgencyAuditLogDto,
+  AgencyFormDto,
+  AgencyId,
+  DateString,
+  FormId,
+} from '../../../../shared/types'
+import { MapRouteError } from '../../../types/routing'
+import { createLoggerWithLabel } from '../../config/logger'
+import {
+  MissingAgencyAdminRoleError,
+  MissingSuperAdminRoleError,
+} from '../auth/auth.errors'
+import * as CoreErrors from '../core/core.errors'
+import {
+  CreatePresignedUrlError,
+  InvalidFileTypeError,
+} from '../form/admin-form/admin-form.errors'
+import {
+  ForbiddenFormError,
+  FormDeletedError,
+  FormNotFoundError,
+  TransferOwnershipError,
+} from '../form/form.errors'
+import { MissingUserError } from '../user/user.errors'
+
+import {
+  AgencyNotFoundError,
+  AgencyUserNotFoundError,
+  EmailDomainInUseError,
+} from './agency.errors'
+import { AgencyForm, PopulatedAgencyAuditLog } from './agency.types'
+
+const logger = createLoggerWithLabel(module)
+
+/**
+ * Handler to map ApplicationErrors to their correct status code and error
+ * messages.
+ * @param error The error to retrieve the status codes and error messages
+ * @param coreErrorMessage Any error message to return instead of the default core error message, if any
+ */
+export const mapRouteError: MapRouteError = (error, coreErrorMessage) => {
+  switch (error.constructor) {
+    case MissingSuperAdminRoleError:
+    case MissingAgencyAdminRoleError:
+    case ForbiddenFormError:
+      return {
+        statusCode: StatusCodes.FORBIDDEN,
+        errorMessage: error.message,
+      }
+    case AgencyNotFoundError:
+    case AgencyUserNotFoundError:
+    case FormNotFoundError:
+      return {
+        statusCode: StatusCodes.NOT_FOUND,
+        errorMessage: error.message,
+      }
+    case EmailDomainInUseError:
+      return {
+        statusCode: StatusCodes.CONFLICT,
+        errorMessage: error.message,
+      }
+    case FormDeletedError:
+      return {
+        statusCode: StatusCodes.GONE,
+        errorMessage: error.message,
+      }
+    case InvalidFileTypeError:
+    case CreatePresignedUrlError:
+    case TransferOwnershipError:
+    case CoreErrors.DatabaseValidationError:
+      return {
+        statusCode: StatusCodes.BAD_REQUEST,
+        errorMessage: error.message,
+      }
+    case MissingUserError:
+      return {
+        statusCode: StatusCodes.UNPROCESSABLE_ENTITY,
+        errorMessage: error.message,
+      }
+    case CoreErrors.DatabaseError:
+    case CoreErrors.DatabaseConflictError:
+    case CoreErrors.DatabasePayloadSizeError:
+    case CoreErrors.DatabaseDuplicateKeyError:
+    case CoreErrors.DatabaseWriteConflictError:
+      return {
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorMessage: coreErrorMessage ?? error.message,
+      }
+    default:
+      logger.error({
+        message: 'Unknown route error observed',
+        meta: {
+          action: 'mapRouteError',
+        },
+        error,
+      })
+
+      return {
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorMessage: 'Something went wrong. Please try again.',
+      }
+  }
+}
+
+/**
+ * Converts the given audit log entry into its view for super-admins.
+ */
+export const toAgencyAuditLogDto = ({
+  _id,
+  agency,
+  action,
+  actor,
+  before,
+  after,
+  created,
+}: PopulatedAgencyAuditLog): AgencyAuditLogDto => ({
+  _id: String(_id),
+  agency: String(agency) as AgencyId,
+  action,
+  actor: actor?.email ?? '',
+  before,
+  after,
+  created: created.toISOString() as DateString,
+})
+
+/**
+ * Converts the given form into its view for agency admins.
+ */
+export const toAgencyFormDto = ({
+  _id,
+  title,
+  status,
+  responseMode,
+  admin,
+  permissionList,
+  lastModified,
+}: AgencyForm): AgencyFormDto => ({
+  _id: String(_id) as FormId,
+  title,
+  status,
+  responseMode,
+  admin: admin.email,
+  collaboratorCount: permissionList.length,
+  lastModified: (lastModified?.toISOString() ?? '') as DateString,
+})
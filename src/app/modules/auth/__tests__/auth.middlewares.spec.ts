@@ -1,6 +1,20 @@
 import expressHandler from '__tests__/unit/backend/helpers/jest-express'
+import { ObjectId } from 'bson-ext'
+import { okAsync } from 'neverthrow'
 
-import { withUserAuthentication } from '../auth.middlewares'
+import { IUserSchema } from 'src/types'
+
+import { ApiKeyScope, FormPermissionScope } from '../../../../../shared/types'
+import {
+  authenticateApiKey,
+  withApiKeyScope,
+  withFormPermissionScope,
+  withUserAuthentication,
+} from '../auth.middlewares'
+import * as AuthService from '../auth.service'
+
+jest.mock('../auth.service')
+const MockAuthService = jest.mocked(AuthService)
 
 describe('auth.middlewares', () => {
   describe('withUserAuthentication', () => {
@@ -41,4 +55,185 @@ describe('auth.middlewares', () => {
       })
     })
   })
+  describe('withApiKeyScope', () => {
+    const MOCK_FORM_ID = '5f4e3d2c1b0a5f4e3d2c1b0a'
+
+    it('should pass on to the next handler if API key has the required scope', async () => {
+      // Arrange
+      const mockReq = expressHandler.mockRequest({
+        params: { formId: MOCK_FORM_ID },
+        others: {
+          apiKeyAccess: { scopes: [ApiKeyScope.FormsRead] },
+        },
+      })
+      const mockRes = expressHandler.mockResponse()
+      const nextSpy = jest.fn()
+
+      // Act
+      await withApiKeyScope(ApiKeyScope.FormsRead)(mockReq, mockRes, nextSpy)
+
+      // Assert
+      expect(nextSpy).toHaveBeenCalled()
+    })
+
+    it('should pass on to the next handler if API key is restricted to the requested form', async () => {
+      // Arrange
+      const mockReq = expressHandler.mockRequest({
+        params: { formId: MOCK_FORM_ID },
+        others: {
+          apiKeyAccess: {
+            scopes: [ApiKeyScope.FormsWrite],
+            formIds: [MOCK_FORM_ID],
+          },
+        },
+      })
+      const mockRes = expressHandler.mockResponse()
+      const nextSpy = jest.fn()
+
+      // Act
+      await withApiKeyScope(ApiKeyScope.FormsWrite)(mockReq, mockRes, nextSpy)
+
+      // Assert
+      expect(nextSpy).toHaveBeenCalled()
+    })
+
+    it('should return 403 if API key does not have the required scope', async () => {
+      // Arrange
+      const mockReq = expressHandler.mockRequest({
+        others: {
+          apiKeyAccess: { scopes: [ApiKeyScope.FormsRead] },
+        },
+      })
+      const mockRes = expressHandler.mockResponse()
+      const nextSpy = jest.fn()
+
+      // Act
+      await withApiKeyScope(ApiKeyScope.ResponsesRead)(
+        mockReq,
+        mockRes,
+        nextSpy,
+      )
+
+      // Assert
+      expect(nextSpy).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(403)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        message: `API key does not have the required scope: ${ApiKeyScope.ResponsesRead}`,
+      })
+    })
+
+    it('should return 403 if request was not authenticated with an API key', async () => {
+      // Arrange
+      const mockReq = expressHandler.mockRequest()
+      const mockRes = expressHandler.mockResponse()
+      const nextSpy = jest.fn()
+
+      // Act
+      await withApiKeyScope(ApiKeyScope.FormsRead)(mockReq, mockRes, nextSpy)
+
+      // Assert
+      expect(nextSpy).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(403)
+    })
+
+    it('should return 403 if API key is restricted to other forms', async () => {
+      // Arrange
+      const mockReq = expressHandler.mockRequest({
+        params: { formId: MOCK_FORM_ID },
+        others: {
+          apiKeyAccess: {
+            scopes: [ApiKeyScope.FormsRead],
+            formIds: ['0a1b2c3d4e5f0a1b2c3d4e5f'],
+          },
+        },
+      })
+      const mockRes = expressHandler.mockResponse()
+      const nextSpy = jest.fn()
+
+      // Act
+      await withApiKeyScope(ApiKeyScope.FormsRead)(mockReq, mockRes, nextSpy)
+
+      // Assert
+      expect(nextSpy).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(403)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        message: 'API key is not allowed to access this resource',
+      })
+    })
+
+    it('should return 403 if API key is restricted to forms and route has no formId', async () => {
+      // Arrange
+      const mockReq = expressHandler.mockRequest({
+        others: {
+          apiKeyAccess: {
+            scopes: [ApiKeyScope.FormsRead],
+            formIds: [MOCK_FORM_ID],
+          },
+        },
+      })
+      const mockRes = expressHandler.mockResponse()
+      const nextSpy = jest.fn()
+
+      // Act
+      await withApiKeyScope(ApiKeyScope.FormsRead)(mockReq, mockRes, nextSpy)
+
+      // Assert
+      expect(nextSpy).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(403)
+    })
+  })
+
+  describe('authenticateApiKey', () => {
+    const MOCK_USER_ID = new ObjectId()
+    const MOCK_KEY_ID = new ObjectId()
+    const MOCK_API_KEY = `test_v1_${MOCK_USER_ID}_${MOCK_KEY_ID}_c29tZWtleQ==`
+
+    it('should set the user of the API key on the request without storing it in the session', async () => {
+      // Arrange
+      const access = { scopes: [ApiKeyScope.FormsRead] }
+      MockAuthService.getUserByApiKey.mockReturnValueOnce(
+        okAsync({ user: { _id: MOCK_USER_ID } as IUserSchema, access }),
+      )
+      MockAuthService.updateApiKeyLastUsedAt.mockReturnValueOnce(okAsync(true))
+      const mockReq = expressHandler.mockRequest({
+        others: { headers: { authorization: `Bearer ${MOCK_API_KEY}` } },
+      })
+      const mockRes = expressHandler.mockResponse()
+      const nextSpy = jest.fn()
+
+      // Act
+      await authenticateApiKey(mockReq, mockRes, nextSpy)
+
+      // Assert
+      expect(MockAuthService.getUserByApiKey).toHaveBeenCalledWith(
+        String(MOCK_USER_ID),
+        MOCK_API_KEY,
+        String(MOCK_KEY_ID),
+      )
+      expect(mockReq.apiKeyUser).toEqual({ _id: MOCK_USER_ID })
+      expect(mockReq.apiKeyAccess).toEqual(access)
+      expect(mockReq.session).toEqual({})
+      expect(nextSpy).toHaveBeenCalled()
+    })
+  })
+
+  describe('withFormPermissionScope', () => {
+    it('should set the form permission scope and pass on to the next handler', async () => {
+      // Arrange
+      const mockReq = expressHandler.mockRequest()
+      const mockRes = expressHandler.mockResponse()
+      const nextSpy = jest.fn()
+
+      // Act
+      await withFormPermissionScope(FormPermissionScope.Responses)(
+        mockReq,
+        mockRes,
+        nextSpy,
+      )
+
+      // Assert
+      expect(mockReq.formPermissionScope).toEqual(FormPermissionScope.Responses)
+      expect(nextSpy).toHaveBeenCalled()
+    })
+  })
 })
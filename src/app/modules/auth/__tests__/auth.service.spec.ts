@@ -4,8 +4,10 @@ import mongoose from 'mongoose'
 import { err, errAsync, ok, okAsync } from 'neverthrow'
 
 import getTokenModel from 'src/app/models/token.server.model'
+import getUserModel from 'src/app/models/user.server.model'
 import { AgencyDocument, IPopulatedForm, IPopulatedUser } from 'src/types'
 
+import { ApiKeyScope } from '../../../../../shared/types'
 import * as OtpUtils from '../../../utils/otp'
 import { DatabaseError } from '../../core/core.errors'
 import { PermissionLevel } from '../../form/admin-form/admin-form.types'
@@ -17,7 +19,13 @@ import {
   PrivateFormError,
 } from '../../form/form.errors'
 import * as FormService from '../../form/form.service'
-import { InvalidDomainError, InvalidOtpError } from '../auth.errors'
+import {
+  ApiKeyLimitExceededError,
+  InvalidDomainError,
+  InvalidOtpError,
+  InvalidTokenError,
+  MissingApiKeyError,
+} from '../auth.errors'
 import * as AuthService from '../auth.service'
 
 jest.mock('../../form/form.service')
@@ -26,6 +34,7 @@ jest.mock('../../form/admin-form/admin-form.utils')
 const MockAdminFormUtils = jest.mocked(AdminFormUtils)
 
 const TokenModel = getTokenModel(mongoose)
+const UserModel = getUserModel(mongoose)
 
 const VALID_EMAIL_DOMAIN = 'test.gov.sg'
 const VALID_EMAIL = `valid@${VALID_EMAIL_DOMAIN}`
@@ -447,4 +456,205 @@ describe('auth.service', () => {
       expect(MockFormService.isFormPublic).not.toHaveBeenCalled()
     })
   })
+  describe('API keys', () => {
+    let userId: string
+
+    beforeEach(async () => {
+      await dbHandler.clearCollection(UserModel.collection.collectionName)
+      const user = await dbHandler.insertUser({
+        agencyId: defaultAgency._id,
+        mailDomain: VALID_EMAIL_DOMAIN,
+      })
+      userId = String(user._id)
+    })
+
+    const parseKeyId = (token: string) => token.split('_').slice(-2)[0]
+
+    describe('createApiKey', () => {
+      it('should create an API key that can be used to retrieve the user', async () => {
+        // Act
+        const createResult = await AuthService.createApiKey(userId, {
+          name: 'my key',
+          scopes: [ApiKeyScope.ResponsesRead],
+        })
+
+        // Assert
+        expect(createResult.isOk()).toEqual(true)
+        const { apiKey, token } = createResult._unsafeUnwrap()
+        expect(apiKey.name).toEqual('my key')
+        expect(apiKey.scopes).toEqual([ApiKeyScope.ResponsesRead])
+        // Key hash should not be retrieved by default.
+        expect(apiKey.keyHash).toBeUndefined()
+        expect(parseKeyId(token)).toEqual(String(apiKey._id))
+
+        const authResult = await AuthService.getUserByApiKey(
+          userId,
+          token,
+          String(apiKey._id),
+        )
+        expect(authResult.isOk()).toEqual(true)
+        expect(authResult._unsafeUnwrap().access).toEqual({
+          scopes: [ApiKeyScope.ResponsesRead],
+          formIds: undefined,
+        })
+      })
+
+      it('should return ApiKeyLimitExceededError when user has too many active keys', async () => {
+        // Arrange
+        for (let i = 0; i < 10; i++) {
+          await AuthService.createApiKey(userId, {
+            name: `key ${i}`,
+            scopes: [ApiKeyScope.FormsRead],
+          })
+        }
+
+        // Act
+        const actualResult = await AuthService.createApiKey(userId, {
+          name: 'one too many',
+          scopes: [ApiKeyScope.FormsRead],
+        })
+
+        // Assert
+        expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+          ApiKeyLimitExceededError,
+        )
+      })
+    })
+
+    describe('revokeApiKey', () => {
+      it('should prevent revoked keys from being used', async () => {
+        // Arrange
+        const { apiKey, token } = (
+          await AuthService.createApiKey(userId, {
+            name: 'my key',
+            scopes: [ApiKeyScope.FormsRead],
+          })
+        )._unsafeUnwrap()
+
+        // Act
+        const revokeResult = await AuthService.revokeApiKey(
+          userId,
+          String(apiKey._id),
+        )
+
+        // Assert
+        expect(revokeResult._unsafeUnwrap().revokedAt).toBeInstanceOf(Date)
+        const authResult = await AuthService.getUserByApiKey(
+          userId,
+          token,
+          String(apiKey._id),
+        )
+        expect(authResult._unsafeUnwrapErr()).toEqual(
+          new InvalidTokenError('API key has been revoked'),
+        )
+      })
+
+      it('should return MissingApiKeyError when key is already revoked', async () => {
+        // Arrange
+        const { apiKey } = (
+          await AuthService.createApiKey(userId, {
+            name: 'my key',
+            scopes: [ApiKeyScope.FormsRead],
+          })
+        )._unsafeUnwrap()
+        await AuthService.revokeApiKey(userId, String(apiKey._id))
+
+        // Act
+        const actualResult = await AuthService.revokeApiKey(
+          userId,
+          String(apiKey._id),
+        )
+
+        // Assert
+        expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+          MissingApiKeyError,
+        )
+      })
+    })
+
+    describe('rotateApiKey', () => {
+      it('should invalidate the previous token of the key', async () => {
+        // Arrange
+        const { apiKey, token: oldToken } = (
+          await AuthService.createApiKey(userId, {
+            name: 'my key',
+            scopes: [ApiKeyScope.FormsRead],
+          })
+        )._unsafeUnwrap()
+        const keyId = String(apiKey._id)
+
+        // Act
+        const rotateResult = await AuthService.rotateApiKey(userId, keyId)
+
+        // Assert
+        const { token: newToken } = rotateResult._unsafeUnwrap()
+        expect(newToken).not.toEqual(oldToken)
+        const oldAuthResult = await AuthService.getUserByApiKey(
+          userId,
+          oldToken,
+          keyId,
+        )
+        expect(oldAuthResult._unsafeUnwrapErr()).toBeInstanceOf(
+          InvalidTokenError,
+        )
+        const newAuthResult = await AuthService.getUserByApiKey(
+          userId,
+          newToken,
+          keyId,
+        )
+        expect(newAuthResult.isOk()).toEqual(true)
+      })
+    })
+
+    describe('getUserByApiKey', () => {
+      it('should return InvalidTokenError when key has expired', async () => {
+        // Arrange
+        const { apiKey, token } = (
+          await AuthService.createApiKey(userId, {
+            name: 'my key',
+            scopes: [ApiKeyScope.FormsRead],
+          })
+        )._unsafeUnwrap()
+        await UserModel.updateOne(
+          { _id: userId, 'apiKeys._id': apiKey._id },
+          { $set: { 'apiKeys.$.expiresAt': new Date(Date.now() - 1000) } },
+        )
+
+        // Act
+        const actualResult = await AuthService.getUserByApiKey(
+          userId,
+          token,
+          String(apiKey._id),
+        )
+
+        // Assert
+        expect(actualResult._unsafeUnwrapErr()).toEqual(
+          new InvalidTokenError('API key has expired'),
+        )
+      })
+    })
+
+    describe('updateApiKeyLastUsedAt', () => {
+      it('should set the last used time of the key', async () => {
+        // Arrange
+        const { apiKey } = (
+          await AuthService.createApiKey(userId, {
+            name: 'my key',
+            scopes: [ApiKeyScope.FormsRead],
+          })
+        )._unsafeUnwrap()
+
+        // Act
+        const actualResult = await AuthService.updateApiKeyLastUsedAt(
+          userId,
+          String(apiKey._id),
+        )
+
+        // Assert
+        expect(actualResult.isOk()).toEqual(true)
+        const keys = (await AuthService.listApiKeys(userId))._unsafeUnwrap()
+        expect(keys[0].lastUsedAt).toBeInstanceOf(Date)
+      })
+    })
+  })
 })
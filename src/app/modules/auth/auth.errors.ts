@@ -25,3 +25,33 @@ export class MissingTokenError extends ApplicationError {
     super(message)
   }
 }
+
+export class MissingApiKeyError extends ApplicationError {
+  constructor(message = 'API key not found') {
+    super(message)
+  }
+}
+
+export class ApiKeyLimitExceededError extends ApplicationError {
+  constructor(limit: number) {
+    super(
+      `You can have at most ${limit} active API keys. Please revoke an existing key first.`,
+    )
+  }
+}
+
+export class MissingSuperAdminRoleError extends ApplicationError {
+  constructor(
+    message = 'Only super-admins are allowed to perform this action',
+  ) {
+    super(message)
+  }
+}
+
+export class MissingAgencyAdminRoleError extends ApplicationError {
+  constructor(
+    message = 'Only admins of the agency are allowed to perform this action',
+  ) {
+    super(message)
+  }
+}
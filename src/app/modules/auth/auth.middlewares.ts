@@ -1,13 +1,15 @@
 import { celebrate, Joi, Segments } from 'celebrate'
-import { AuthedSessionData } from 'express-session'
 import { StatusCodes } from 'http-status-codes'
 
+import { ApiKeyScope, FormPermissionScope } from '../../../../shared/types'
 import { createLoggerWithLabel } from '../../config/logger'
 import { createReqMeta } from '../../utils/request'
 import { ControllerHandler } from '../core/core.types'
 
-import { getUserByApiKey } from './auth.service'
+import { getUserByApiKey, updateApiKeyLastUsedAt } from './auth.service'
 import {
+  getAuthedUserId,
+  isCronFormScheduleAuthValid,
   isCronPaymentAuthValid,
   isUserInSession,
   mapRoutePublicApiError,
@@ -40,7 +42,7 @@ export const logAdminAction: ControllerHandler<{ formId: string }> = async (
   res,
   next,
 ) => {
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   const body = req.body
   const method = req.method
   const query = req.query
@@ -112,6 +114,20 @@ export const withCronPaymentSecretAuthentication: ControllerHandler = (
     .json({ message: 'Request is unauthorized.' })
 }
 
+export const withCronFormScheduleSecretAuthentication: ControllerHandler = (
+  req,
+  res,
+  next,
+) => {
+  if (isCronFormScheduleAuthValid(req.headers)) {
+    return next()
+  }
+
+  return res
+    .status(StatusCodes.UNAUTHORIZED)
+    .json({ message: 'Request is unauthorized.' })
+}
+
 type bearerTokenRegExpMatchArray =
   | null
   | (RegExpMatchArray & {
@@ -125,6 +141,7 @@ type apiKeyRegExpMatchArray =
   | (RegExpMatchArray & {
       groups: {
         userId: string
+        keyId?: string
       }
     })
 
@@ -148,33 +165,39 @@ export const authenticateApiKey: ControllerHandler = (req, res, next) => {
   }
 
   // Note: testing the exact token format is not needed
-  // The minimum knowledge needed about the format is to extract the userId
+  // The minimum knowledge needed about the format is to extract the userId and
+  // the keyId, which is absent in legacy API tokens
   // Other than that, invalid tokens will simply fail hash comparison
   const apiKeyMatch = bearerMatch.groups.token.match(
-    /^(\w+)_(v\d+)_(?<userId>[0-9a-f]{24})_([a-z0-9/.+]+=*)$/i,
+    /^(\w+)_(v\d+)_(?<userId>[0-9a-f]{24})_(?:(?<keyId>[0-9a-f]{24})_)?([a-z0-9/.+]+=*)$/i,
   ) as apiKeyRegExpMatchArray
   if (!apiKeyMatch) {
     return res
       .status(StatusCodes.BAD_REQUEST)
       .json({ message: 'Invalid API key format' })
   }
+  const { userId, keyId } = apiKeyMatch.groups
   logger.info({
     message: 'User attempting to authenticate using API key',
     meta: {
       action: 'authenticateApiKey',
-      userId: apiKeyMatch.groups.userId,
-      token: bearerMatch.groups.token,
+      userId,
+      keyId,
     },
   })
-  return getUserByApiKey(apiKeyMatch.groups.userId, bearerMatch.groups.token)
-    .map((user) => {
+  return getUserByApiKey(userId, bearerMatch.groups.token, keyId)
+    .map(({ user, access }) => {
       if (!user) {
         return res
           .status(StatusCodes.UNAUTHORIZED)
           .json({ message: 'Invalid API key' })
       }
-      req.session.user = { _id: user._id }
-      // TODO: update apiToken lastUsedAt in DB for the user
+      // The user is not stored in the session, which would otherwise be saved
+      // and returned as a session cookie usable on all admin routes.
+      req.apiKeyUser = { _id: user._id }
+      req.apiKeyAccess = access
+      // Failure to record usage should not block the request.
+      void updateApiKeyLastUsedAt(userId, keyId)
       return next()
     })
     .mapErr((error) => {
@@ -182,3 +205,50 @@ export const authenticateApiKey: ControllerHandler = (req, res, next) => {
       return res.status(statusCode).json({ message: errorMessage })
     })
 }
+
+/**
+ * Middleware that only allows requests authenticated with an API key granting
+ * the given scope to pass through to the next handler. Must be preceded by
+ * authenticateApiKey.
+ *
+ * API keys restricted to a set of forms can only be used on routes with a
+ * formId param that is in that set.
+ * @returns next if the API key grants access
+ * @returns 403 if the API key does not grant access
+ */
+export const withApiKeyScope =
+  (scope: ApiKeyScope): ControllerHandler<{ formId?: string }> =>
+  (req, res, next) => {
+    const access = req.apiKeyAccess
+    if (!access?.scopes.includes(scope)) {
+      return res.status(StatusCodes.FORBIDDEN).json({
+        message: `API key does not have the required scope: ${scope}`,
+      })
+    }
+
+    const { formId } = req.params
+    if (
+      access.formIds?.length &&
+      (!formId || !access.formIds.includes(formId))
+    ) {
+      return res.status(StatusCodes.FORBIDDEN).json({
+        message: 'API key is not allowed to access this resource',
+      })
+    }
+
+    return next()
+  }
+
+/**
+ * Middleware that sets the scope of the form which the route accesses, so
+ * that the permission checks of the handler only allow collaborators whose
+ * role grants access to that scope. Routes without a scope access the form
+ * itself.
+ * @returns next
+ */
+export const withFormPermissionScope =
+  (scope: FormPermissionScope): ControllerHandler =>
+  (req, _res, next) => {
+    req.formPermissionScope = scope
+    return next()
+  }
@@ -1,12 +1,18 @@
 import bcrypt from 'bcrypt'
 import crypto from 'crypto'
 import mongoose from 'mongoose'
-import { errAsync, okAsync, Result, ResultAsync } from 'neverthrow'
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from 'neverthrow'
 import validator from 'validator'
 
 import { SUPPORT_FORM_LINK } from '../../../../shared/constants/links'
+import {
+  ApiKeyScope,
+  FormPermissionScope,
+  UserRole,
+} from '../../../../shared/types'
 import {
   AgencyDocument,
+  IApiKey,
   IPopulatedForm,
   ITokenSchema,
   IUserSchema,
@@ -15,6 +21,7 @@ import config from '../../config/config'
 import { createLoggerWithLabel } from '../../config/logger'
 import getAgencyModel from '../../models/agency.server.model'
 import getTokenModel from '../../models/token.server.model'
+import getUserModel from '../../models/user.server.model'
 import { compareHash, HashingError } from '../../utils/hash'
 import { generateOtpWithHash } from '../../utils/otp'
 import { DatabaseError } from '../core/core.errors'
@@ -30,19 +37,27 @@ import {
   PrivateFormError,
 } from '../form/form.errors'
 import * as FormService from '../form/form.service'
+import { MissingUserError } from '../user/user.errors'
 import { findUserById } from '../user/user.service'
+import { isAgencyAdminOf } from '../user/user.utils'
 
 import {
+  ApiKeyLimitExceededError,
   InvalidDomainError,
   InvalidOtpError,
   InvalidTokenError,
+  MissingAgencyAdminRoleError,
+  MissingApiKeyError,
+  MissingSuperAdminRoleError,
   MissingTokenError,
 } from './auth.errors'
-import { DEFAULT_SALT_ROUNDS } from './constants'
+import { ApiKeyAccess, CreateApiKeyParams } from './auth.types'
+import { DEFAULT_SALT_ROUNDS, MAX_ACTIVE_API_KEYS } from './constants'
 
 const logger = createLoggerWithLabel(module)
 const TokenModel = getTokenModel(mongoose)
 const AgencyModel = getAgencyModel(mongoose)
+const UserModel = getUserModel(mongoose)
 
 export const MAX_OTP_ATTEMPTS = 10
 
@@ -279,7 +294,9 @@ const removeTokenOnSuccess = (email: string) => {
 
 /**
  * Retrieves the form of given formId provided that the given user has the
- * required permissions.
+ * required permissions. Agency admins have the same permissions as the owners
+ * of the forms of their agency, and collaborators only have the permissions
+ * granted by their role for the given scope of the form.
  *
  * @returns ok(form) if the user has the required permissions
  * @returns err(FormNotFoundError) if form does not exist in the database
@@ -291,22 +308,24 @@ export const getFormAfterPermissionChecks = ({
   user,
   formId,
   level,
+  scope,
 }: {
   user: IUserSchema
   formId: string
   level: PermissionLevel
+  scope?: FormPermissionScope
 }): ResultAsync<
   IPopulatedForm,
   FormNotFoundError | FormDeletedError | DatabaseError | ForbiddenFormError
 > => {
   return FormService.retrieveFullFormById(formId)
     .map((form) => ({ form, user }))
-    .andThen(checkFormForPermissions(level))
+    .andThen(checkFormForPermissions(level, scope))
 }
 
 /**
  * Ensures that the given user has the required pre-specified permissions
- * for the form.
+ * for the given scope of the form, which defaults to the form itself.
  *
  * @returns ok(form) if the user has the required permissions
  * @returns err(FormNotFoundError) if form does not exist in the database
@@ -315,7 +334,7 @@ export const getFormAfterPermissionChecks = ({
  * @returns err(DatabaseError) if any database error occurs
  */
 export const checkFormForPermissions =
-  (level: PermissionLevel) =>
+  (level: PermissionLevel, scope?: FormPermissionScope) =>
   ({
     user,
     form,
@@ -326,9 +345,36 @@ export const checkFormForPermissions =
     // Step 1: Check whether form is available to be retrieved.
     assertFormAvailable(form)
       // Step 2: Check required permission levels.
-      .andThen(() => getAssertPermissionFn(level)(user, form))
+      .andThen(() => getAssertPermissionFn(level)(user, form, scope))
       .map(() => form)
 
+/**
+ * Ensures that the given user is a super-admin.
+ *
+ * @returns ok(user) if the user is a super-admin
+ * @returns err(MissingSuperAdminRoleError) if the user is not a super-admin
+ */
+export const checkIsSuperAdmin = <T extends IUserSchema>(
+  user: T,
+): Result<T, MissingSuperAdminRoleError> =>
+  user.role === UserRole.SuperAdmin
+    ? ok(user)
+    : err(new MissingSuperAdminRoleError())
+
+/**
+ * Ensures that the given user is an agency admin of the agency of the given
+ * id.
+ *
+ * @returns ok(user) if the user is an agency admin of the agency
+ * @returns err(MissingAgencyAdminRoleError) if the user is not an agency admin of the agency
+ */
+export const checkIsAgencyAdmin =
+  (agencyId: string) =>
+  <T extends IUserSchema>(user: T): Result<T, MissingAgencyAdminRoleError> =>
+    isAgencyAdminOf(user, agencyId)
+      ? ok(user)
+      : err(new MissingAgencyAdminRoleError())
+
 /**
  * Retrieves the form of given formId provided that the form is public.
  *
@@ -350,28 +396,297 @@ export const getFormIfPublic = (
 }
 
 /**
- * Retrieves the user of the given API key
+ * Retrieves the user of the given API key, together with the access granted
+ * by the key.
  *
- * @returns ok(IUserSchema) if the API key matches the hashed API key in the DB
+ * Keys with a keyId are looked up in the user's list of API keys, while keys
+ * without are matched against the legacy single API token, which has full
+ * access.
+ *
+ * @returns ok({ user, access }) if the API key matches the hashed API key in the DB
  * @returns err(DatabaseError) if database errors occurs whilst retrieving user
  * @returns err(MissingUserError) if user does not exist in the database
+ * @returns err(MissingTokenError) if the user does not have the given API key
+ * @returns err(InvalidTokenError) if the API key is invalid, revoked or expired
  */
 export const getUserByApiKey = (
   userId: string,
   token: string,
-): ResultAsync<IUserSchema, Error> => {
-  return findUserById(userId).andThen((user) => {
-    if (!user.apiToken?.keyHash) {
+  keyId?: string,
+): ResultAsync<{ user: IUserSchema; access: ApiKeyAccess }, Error> => {
+  if (!keyId) {
+    return findUserById(userId).andThen((user) => {
+      if (!user.apiToken?.keyHash) {
+        return errAsync(new MissingTokenError())
+      }
+      return compareHash(token, user.apiToken.keyHash).andThen(
+        (isHashMatch) => {
+          if (isHashMatch) {
+            return okAsync({
+              user,
+              access: { scopes: Object.values(ApiKeyScope) },
+            })
+          }
+          return errAsync(new InvalidTokenError())
+        },
+      )
+    })
+  }
+
+  return findUserWithApiKeyHashes(userId).andThen((user) => {
+    const apiKey = user.apiKeys?.find((key) => key._id.equals(keyId))
+    if (!apiKey) {
       return errAsync(new MissingTokenError())
     }
-    return compareHash(token, user.apiToken.keyHash).andThen((isHashMatch) => {
-      if (isHashMatch) return okAsync(user)
+    if (apiKey.revokedAt) {
+      return errAsync(new InvalidTokenError('API key has been revoked'))
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      return errAsync(new InvalidTokenError('API key has expired'))
+    }
+    return compareHash(token, apiKey.keyHash).andThen((isHashMatch) => {
+      if (isHashMatch) {
+        return okAsync({
+          user,
+          access: { scopes: apiKey.scopes, formIds: apiKey.formIds },
+        })
+      }
       return errAsync(new InvalidTokenError())
     })
   })
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
+/**
+ * Records the current time as the last used time of the given API key. If no
+ * keyId is given, the legacy API token is updated instead.
+ * @returns ok(true) if update was successful
+ * @returns err(DatabaseError) if any error occurs whilst updating the database
+ */
+export const updateApiKeyLastUsedAt = (
+  userId: string,
+  keyId?: string,
+): ResultAsync<true, DatabaseError> => {
+  const now = new Date()
+  const updatePromise = keyId
+    ? UserModel.updateOne(
+        { _id: userId, 'apiKeys._id': keyId },
+        { $set: { 'apiKeys.$.lastUsedAt': now } },
+      ).exec()
+    : UserModel.updateOne(
+        { _id: userId, 'apiToken.keyHash': { $exists: true } },
+        { $set: { 'apiToken.lastUsedAt': now } },
+      ).exec()
+
+  return ResultAsync.fromPromise(updatePromise, (error) => {
+    logger.error({
+      message: 'Database error when updating API key last used time',
+      meta: {
+        action: 'updateApiKeyLastUsedAt',
+        userId,
+        keyId,
+      },
+      error,
+    })
+    return new DatabaseError()
+  }).map(() => true as const)
+}
+
+/**
+ * Retrieves all API keys of the given user, including revoked and expired
+ * keys. Key hashes are not retrieved.
+ * @returns ok(list of API keys) if retrieval is successful
+ * @returns err(MissingUserError) if user does not exist in the database
+ * @returns err(DatabaseError) if database errors occurs whilst retrieving user
+ */
+export const listApiKeys = (
+  userId: string,
+): ResultAsync<IApiKey[], MissingUserError | DatabaseError> => {
+  return findUserById(userId).map((user) => user.apiKeys ?? [])
+}
+
+/**
+ * Creates a new API key for the given user.
+ * @returns ok({ apiKey, token }) with the created key and its plaintext token
+ * @returns err(ApiKeyLimitExceededError) if the user already has the maximum number of active keys
+ * @returns err(MissingUserError) if user does not exist in the database
+ * @returns err(HashingError) if error occurs whilst hashing the key
+ * @returns err(DatabaseError) if database errors occurs whilst saving the key
+ */
+export const createApiKey = (
+  userId: string,
+  { name, scopes, formIds, expiresAt }: CreateApiKeyParams,
+): ResultAsync<
+  { apiKey: IApiKey; token: string },
+  ApiKeyLimitExceededError | MissingUserError | HashingError | DatabaseError
+> => {
+  return findUserById(userId)
+    .andThen((user) => {
+      const numActiveKeys = (user.apiKeys ?? []).filter(isApiKeyActive).length
+      if (numActiveKeys >= MAX_ACTIVE_API_KEYS) {
+        return errAsync(new ApiKeyLimitExceededError(MAX_ACTIVE_API_KEYS))
+      }
+      const keyId = new mongoose.Types.ObjectId()
+      const token = generateApiKey(user, String(keyId))
+      return getApiKeyHash(token).map((keyHash) => ({ keyId, token, keyHash }))
+    })
+    .andThen(({ keyId, token, keyHash }) =>
+      ResultAsync.fromPromise(
+        UserModel.findByIdAndUpdate(
+          userId,
+          {
+            $push: {
+              apiKeys: {
+                _id: keyId,
+                name,
+                keyHash,
+                scopes,
+                formIds: formIds?.length ? formIds : undefined,
+                createdAt: new Date(),
+                expiresAt,
+              },
+            },
+          },
+          { new: true },
+        ).exec(),
+        (error) => {
+          logger.error({
+            message: 'Database error when creating API key',
+            meta: {
+              action: 'createApiKey',
+              userId,
+            },
+            error,
+          })
+          return new DatabaseError()
+        },
+      ).andThen((updatedUser) => {
+        const apiKey = updatedUser?.apiKeys?.find((key) =>
+          key._id.equals(keyId),
+        )
+        if (!apiKey) {
+          return errAsync(new MissingUserError())
+        }
+        return okAsync({ apiKey, token })
+      }),
+    )
+}
+
+/**
+ * Replaces the secret of the given active API key, invalidating the previous
+ * token. The name, scopes and expiry of the key are retained.
+ * @returns ok({ apiKey, token }) with the rotated key and its new plaintext token
+ * @returns err(MissingApiKeyError) if the key does not exist or is no longer active
+ * @returns err(MissingUserError) if user does not exist in the database
+ * @returns err(HashingError) if error occurs whilst hashing the key
+ * @returns err(DatabaseError) if database errors occurs whilst saving the key
+ */
+export const rotateApiKey = (
+  userId: string,
+  keyId: string,
+): ResultAsync<
+  { apiKey: IApiKey; token: string },
+  MissingApiKeyError | MissingUserError | HashingError | DatabaseError
+> => {
+  return findUserById(userId)
+    .andThen((user) => {
+      const apiKey = user.apiKeys?.find((key) => key._id.equals(keyId))
+      if (!apiKey || !isApiKeyActive(apiKey)) {
+        return errAsync(new MissingApiKeyError())
+      }
+      const token = generateApiKey(user, keyId)
+      return getApiKeyHash(token).map((keyHash) => ({ token, keyHash }))
+    })
+    .andThen(({ token, keyHash }) =>
+      updateApiKey(userId, keyId, {
+        'apiKeys.$.keyHash': keyHash,
+        'apiKeys.$.createdAt': new Date(),
+      }).map((apiKey) => ({ apiKey, token })),
+    )
+}
+
+/**
+ * Revokes the given API key. Revoked keys are retained for record purposes
+ * but can no longer be used.
+ * @returns ok(revoked API key) if revocation is successful
+ * @returns err(MissingApiKeyError) if the key does not exist or is already revoked
+ * @returns err(DatabaseError) if database errors occurs whilst saving the key
+ */
+export const revokeApiKey = (
+  userId: string,
+  keyId: string,
+): ResultAsync<IApiKey, MissingApiKeyError | DatabaseError> => {
+  return updateApiKey(
+    userId,
+    keyId,
+    { 'apiKeys.$.revokedAt': new Date() },
+    { revokedAt: { $exists: false } },
+  )
+}
+
+// Private helper functions
+const isApiKeyActive = (apiKey: IApiKey): boolean =>
+  !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > new Date())
+
+const findUserWithApiKeyHashes = (
+  userId: string,
+): ResultAsync<IUserSchema, MissingUserError | DatabaseError> => {
+  return ResultAsync.fromPromise(
+    UserModel.findById(userId).select('+apiKeys.keyHash').exec(),
+    (error) => {
+      logger.error({
+        message: 'Database find user error',
+        meta: {
+          action: 'findUserWithApiKeyHashes',
+          userId,
+        },
+        error,
+      })
+      return new DatabaseError()
+    },
+  ).andThen((user) => {
+    if (!user) {
+      return errAsync(new MissingUserError())
+    }
+    return okAsync(user)
+  })
+}
+
+const updateApiKey = (
+  userId: string,
+  keyId: string,
+  update: Record<string, unknown>,
+  keyFilter: Record<string, unknown> = {},
+): ResultAsync<IApiKey, MissingApiKeyError | DatabaseError> => {
+  return ResultAsync.fromPromise(
+    UserModel.findOneAndUpdate(
+      {
+        _id: userId,
+        apiKeys: { $elemMatch: { _id: keyId, ...keyFilter } },
+      },
+      { $set: update },
+      { new: true },
+    ).exec(),
+    (error) => {
+      logger.error({
+        message: 'Database error when updating API key',
+        meta: {
+          action: 'updateApiKey',
+          userId,
+          keyId,
+        },
+        error,
+      })
+      return new DatabaseError()
+    },
+  ).andThen((updatedUser) => {
+    const apiKey = updatedUser?.apiKeys?.find((key) => key._id.equals(keyId))
+    if (!apiKey) {
+      return errAsync(new MissingApiKeyError())
+    }
+    return okAsync(apiKey)
+  })
+}
+
 const getApiKeyHash = (apiKey: string): ResultAsync<string, HashingError> => {
   return ResultAsync.fromPromise(
     bcrypt.hash(apiKey, DEFAULT_SALT_ROUNDS),
@@ -388,10 +703,9 @@ const getApiKeyHash = (apiKey: string): ResultAsync<string, HashingError> => {
   ).map((hash) => `${hash}`)
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const generateApiKey = (user: IUserSchema): string => {
+const generateApiKey = (user: IUserSchema, keyId: string): string => {
   const key = crypto.randomBytes(32).toString('base64')
   const apiEnv = config.publicApiConfig.apiEnv
   const apiKeyVersion = config.publicApiConfig.apiKeyVersion
-  return `${apiEnv}_${apiKeyVersion}_${user._id}_${key}`
+  return `${apiEnv}_${apiKeyVersion}_${user._id}_${keyId}_${key}`
 }
@@ -1,3 +1,20 @@
 import { IPopulatedUser } from 'src/types'
 
+import { ApiKeyScope } from '../../../../shared/types'
+
 export type SessionUser = IPopulatedUser
+
+/**
+ * The access granted by the API key used to authenticate a request.
+ */
+export type ApiKeyAccess = {
+  scopes: ApiKeyScope[]
+  formIds?: string[]
+}
+
+export type CreateApiKeyParams = {
+  name: string
+  scopes: ApiKeyScope[]
+  formIds?: string[]
+  expiresAt?: Date
+}
@@ -1,8 +1,11 @@
+import { Request } from 'express'
 import { AuthedSessionData, SessionData } from 'express-session'
 import { IncomingHttpHeaders } from 'http'
 import { StatusCodes } from 'http-status-codes'
 
+import { IUserSchema } from '../../../types'
 import { MapRouteError } from '../../../types/routing'
+import { cronFormScheduleConfig } from '../../config/features/form-schedule-cron.config'
 import { cronPaymentConfig } from '../../config/features/payment-cron.config'
 import { createLoggerWithLabel } from '../../config/logger'
 import * as MailErrors from '../../services/mail/mail.errors'
@@ -99,6 +102,23 @@ export const getUserIdFromSession = (
   return session?.user?._id as string | undefined
 }
 
+/**
+ * Retrieves the id of the user who made the authenticated request, from the
+ * API key used to authenticate the request if any, or else from the session.
+ */
+export const getAuthedUserId = (
+  req: Pick<Request, 'apiKeyUser' | 'session'>,
+): IUserSchema['_id'] =>
+  req.apiKeyUser?._id ?? (req.session as AuthedSessionData).user._id
+
 export const isCronPaymentAuthValid = (header: IncomingHttpHeaders) => {
   return header['x-formsg-cron-payment-secret'] === cronPaymentConfig.apiSecret
 }
+
+export const isCronFormScheduleAuthValid = (header: IncomingHttpHeaders) => {
+  return (
+    !!cronFormScheduleConfig.apiSecret &&
+    header['x-formsg-cron-form-schedule-secret'] ===
+      cronFormScheduleConfig.apiSecret
+  )
+}
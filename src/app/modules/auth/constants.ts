@@ -1 +1,4 @@
 export const DEFAULT_SALT_ROUNDS = 2
+
+// Revoked and expired keys do not count towards this limit.
+export const MAX_ACTIVE_API_KEYS = 10
@@ -16,6 +16,7 @@ const logger = createLoggerWithLabel(module)
  * Validates that a request came from Amazon SNS, then updates the Bounce
  * collection. Also informs form admins and collaborators if their form responses
  * bounced. Note that the response code is meaningless as it goes back to AWS.
+ * Also informs the webhooks of forms whose submission emails bounced.
  * @param req Express request object
  * @param res - Express response object
  */
@@ -41,6 +42,8 @@ export const handleSns: ControllerHandler<
   const notification = notificationResult.value
 
   BounceService.logEmailNotification(notification)
+  // Inform the form's webhooks on a best-effort basis
+  void BounceService.publishSubmissionEmailBounce(notification)
   // If not admin response, no more action to be taken
   if (
     BounceService.extractEmailType(notification) !== EmailType.AdminResponse
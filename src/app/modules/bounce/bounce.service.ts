@@ -3,6 +3,7 @@ import mongoose from 'mongoose'
 import { errAsync, okAsync, Result, ResultAsync } from 'neverthrow'
 import SNSMessageValidator from 'sns-validator'
 
+import { WebhookEventType } from '../../../../shared/types'
 import {
   BounceType,
   IBounceSchema,
@@ -23,6 +24,7 @@ import { getCollabEmailsWithPermission } from '../form/form.utils'
 import * as UserService from '../user/user.service'
 import { UserWithContactNumber } from '../user/user.types'
 import { isUserWithContactNumber } from '../user/user.utils'
+import { WebhookFactory } from '../webhook/webhook.factory'
 
 import {
   InvalidNotificationError,
@@ -282,6 +284,36 @@ export const logEmailNotification = (
   }
 }
 
+/**
+ * Publishes a webhook event to the form of a submission whose email bounced,
+ * e.g. the email confirmation sent to a respondent. Emails which are not sent
+ * for a submission are ignored.
+ * @param notification The parsed SNS notification
+ * @returns ok(true) if the event was sent to the webhook endpoints of the form
+ * @returns ok(false) if the notification is not a bounce of a submission email, or the event was not sent
+ */
+export const publishSubmissionEmailBounce = (
+  notification: IEmailNotification,
+): ResultAsync<boolean, never> => {
+  const formId = extractHeader(notification, EMAIL_HEADERS.formId)
+  const submissionId = extractHeader(notification, EMAIL_HEADERS.submissionId)
+  if (!isBounceNotification(notification) || !formId || !submissionId) {
+    return okAsync(false)
+  }
+  return WebhookFactory.publishEvent(
+    formId,
+    WebhookEventType.SubmissionEmailBounced,
+    {
+      submissionId,
+      emailType: extractEmailType(notification) ?? '',
+      bounceType: notification.bounce.bounceType,
+      bouncedRecipients: notification.bounce.bouncedRecipients.map(
+        ({ emailAddress }) => emailAddress,
+      ),
+    },
+  )
+}
+
 /**
  * Parses an SNS notification and updates the Bounce collection.
  * @param body The request body of the notification
@@ -0,0 +1,183 @@
+import { StatusCodes } from 'http-status-codes'
+import nacl from 'tweetnacl'
+
+import { AuthenticatedDraftsUnavailableError } from '../draft.errors'
+import {
+  decodeDraftKey,
+  decryptDraftContent,
+  deriveDraftKey,
+  encodeDraftKey,
+  encryptDraftContent,
+  generateDraftKey,
+  getDraftPublicKey,
+  mapRouteError,
+  openDraftContent,
+  sealDraftContent,
+} from '../draft.utils'
+
+describe('draft.utils', () => {
+  const MOCK_FORM_ID = 'mockFormId'
+  const formKeyPair = nacl.box.keyPair()
+  const MOCK_FORM_PUBLIC_KEY = Buffer.from(formKeyPair.publicKey).toString(
+    'base64',
+  )
+
+  describe('deriveDraftKey', () => {
+    it('should derive the same key for the same form and identity', () => {
+      // Act
+      const firstKey = deriveDraftKey(MOCK_FORM_ID, 'S1234567A')
+      const secondKey = deriveDraftKey(MOCK_FORM_ID, 'S1234567A')
+
+      // Assert
+      expect(firstKey).toHaveLength(nacl.box.secretKeyLength)
+      expect(firstKey).toEqual(secondKey)
+    })
+
+    it('should derive different keys for different forms or identities', () => {
+      // Act
+      const key = deriveDraftKey(MOCK_FORM_ID, 'S1234567A')
+      const otherIdentityKey = deriveDraftKey(MOCK_FORM_ID, 'S7654321B')
+      const otherFormKey = deriveDraftKey('otherFormId', 'S1234567A')
+
+      // Assert
+      expect(key).not.toEqual(otherIdentityKey)
+      expect(key).not.toEqual(otherFormKey)
+    })
+  })
+
+  describe('decodeDraftKey', () => {
+    it('should decode encoded draft keys', () => {
+      // Arrange
+      const draftKey = generateDraftKey()
+
+      // Act
+      const actual = decodeDraftKey(encodeDraftKey(draftKey))
+
+      // Assert
+      expect(actual).toEqual(draftKey)
+    })
+
+    it('should return null for keys of invalid length', () => {
+      // Act
+      const actual = decodeDraftKey('tooShort')
+
+      // Assert
+      expect(actual).toBeNull()
+    })
+  })
+
+  describe('encryptDraftContent', () => {
+    it('should encrypt content which can be decrypted with the draft key', () => {
+      // Arrange
+      const draftKey = generateDraftKey()
+      const content = JSON.stringify({ fieldId: 'some answer' })
+
+      // Act
+      const encrypted = encryptDraftContent(
+        content,
+        draftKey,
+        MOCK_FORM_PUBLIC_KEY,
+      )
+
+      // Assert
+      expect(encrypted).not.toContain('some answer')
+      expect(encrypted.startsWith(`${getDraftPublicKey(draftKey)};`)).toBe(true)
+      expect(
+        decryptDraftContent(encrypted, draftKey, MOCK_FORM_PUBLIC_KEY),
+      ).toEqual(content)
+    })
+
+    it('should encrypt content which can be decrypted with the form secret key', () => {
+      // Arrange
+      const draftKey = generateDraftKey()
+      const content = 'some content'
+      const encrypted = encryptDraftContent(
+        content,
+        draftKey,
+        MOCK_FORM_PUBLIC_KEY,
+      )
+      const [draftPublicKey, nonceAndCiphertext] = encrypted.split(';')
+      const [nonce, ciphertext] = nonceAndCiphertext.split(':')
+
+      // Act
+      const decrypted = nacl.box.open(
+        Buffer.from(ciphertext, 'base64'),
+        Buffer.from(nonce, 'base64'),
+        Buffer.from(draftPublicKey, 'base64'),
+        formKeyPair.secretKey,
+      )
+
+      // Assert
+      expect(Buffer.from(decrypted!).toString('utf8')).toEqual(content)
+    })
+  })
+
+  describe('decryptDraftContent', () => {
+    it('should return null when decrypting with another draft key', () => {
+      // Arrange
+      const encrypted = encryptDraftContent(
+        'some content',
+        generateDraftKey(),
+        MOCK_FORM_PUBLIC_KEY,
+      )
+
+      // Act
+      const actual = decryptDraftContent(
+        encrypted,
+        generateDraftKey(),
+        MOCK_FORM_PUBLIC_KEY,
+      )
+
+      // Assert
+      expect(actual).toBeNull()
+    })
+
+    it('should return null for malformed content', () => {
+      // Act
+      const actual = decryptDraftContent(
+        'malformed',
+        generateDraftKey(),
+        MOCK_FORM_PUBLIC_KEY,
+      )
+
+      // Assert
+      expect(actual).toBeNull()
+    })
+  })
+
+  describe('sealDraftContent', () => {
+    it('should encrypt content which can only be decrypted with the draft key', () => {
+      // Arrange
+      const draftKey = generateDraftKey()
+      const content = JSON.stringify({ fieldId: 'S1234567A' })
+
+      // Act
+      const sealed = sealDraftContent(content, draftKey)
+
+      // Assert
+      expect(sealed).not.toContain('S1234567A')
+      expect(openDraftContent(sealed, draftKey)).toEqual(content)
+      expect(openDraftContent(sealed, generateDraftKey())).toBeNull()
+    })
+  })
+
+  describe('openDraftContent', () => {
+    it('should return null for malformed content', () => {
+      // Act
+      const actual = openDraftContent('malformed', generateDraftKey())
+
+      // Assert
+      expect(actual).toBeNull()
+    })
+  })
+
+  describe('mapRouteError', () => {
+    it('should return 503 when drafts of authenticated forms are unavailable', () => {
+      // Act
+      const actual = mapRouteError(new AuthenticatedDraftsUnavailableError())
+
+      // Assert
+      expect(actual.statusCode).toEqual(StatusCodes.SERVICE_UNAVAILABLE)
+    })
+  })
+})
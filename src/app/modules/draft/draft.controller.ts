@@ -0,0 +1,240 @@
+import { celebrate, Joi, Segments } from 'celebrate'
+
+import {
+  DateString,
+  ErrorDto,
+  FormDraftDto,
+  FormDraftKeyBodyDto,
+  FormDraftSavedDto,
+  PrivateFormErrorDto,
+  SaveFormDraftBodyDto,
+} from '../../../../shared/types'
+import { IPopulatedForm } from '../../../types'
+import { createLoggerWithLabel } from '../../config/logger'
+import { createReqMeta } from '../../utils/request'
+import { ApplicationError } from '../core/core.errors'
+import { ControllerHandler } from '../core/core.types'
+import { PrivateFormError } from '../form/form.errors'
+import * as FormService from '../form/form.service'
+
+import * as DraftService from './draft.service'
+import { mapRouteError } from './draft.utils'
+
+const logger = createLoggerWithLabel(module)
+
+// Fields required to save and resume drafts of a form.
+const DRAFT_FORM_FIELDS: (keyof IPopulatedForm)[] = [
+  '_id',
+  'authType',
+  'closesAt',
+  'inactiveMessage',
+  'opensAt',
+  'publicKey',
+  'responseMode',
+  'status',
+  'title',
+]
+
+const draftKeyValidator = Joi.string().max(64)
+
+const validateSaveFormDraftParams = celebrate({
+  [Segments.BODY]: Joi.object<SaveFormDraftBodyDto>({
+    responses: Joi.object().required(),
+    email: Joi.string()
+      .trim()
+      .email()
+      .message('Please enter a valid email')
+      .lowercase(),
+    draftKey: draftKeyValidator,
+  }),
+})
+
+const validateFormDraftKeyParams = celebrate({
+  [Segments.BODY]: Joi.object<FormDraftKeyBodyDto>({
+    draftKey: draftKeyValidator,
+  }),
+})
+
+/**
+ * Retrieves the form with the given id if it is currently accepting responses.
+ */
+const retrieveOpenForm = (formId: string) =>
+  FormService.retrieveFormKeysById(formId, DRAFT_FORM_FIELDS)
+    .andThen((form) => FormService.isFormPublic(form).map(() => form))
+    .andThen((form) => FormService.checkFormIsWithinSchedule(form))
+
+/**
+ * Maps the given error to a response, with the specialized response for
+ * PrivateFormError.
+ */
+const createErrorResponse = (error: ApplicationError) => {
+  const { errorMessage, statusCode } = mapRouteError(error)
+  if (error instanceof PrivateFormError) {
+    return {
+      statusCode,
+      body: {
+        message: error.message,
+        // Flag to prevent default 404 subtext ("please check link") from showing.
+        isPageFound: true,
+        formTitle: error.formTitle,
+      },
+    }
+  }
+  return { statusCode, body: { message: errorMessage } }
+}
+
+/**
+ * Handler for POST /:formId/drafts
+ * Saves the respondent's draft of the form. New drafts of forms without
+ * authentication can be resumed with a link which is emailed to the
+ * respondent.
+ * @precondition Joi validation should enforce shape of req.body before this handler is invoked.
+ *
+ * @returns 200 with the draft key and expiry if the draft was saved
+ * @returns 400 if a new draft is saved without an email
+ * @returns 401 if the respondent is not logged in to an authenticated form
+ * @returns 404 if form does not exist or is private, or the draft to update does not exist
+ * @returns 410 if form has been archived
+ * @returns 429 if the form has reached the maximum number of drafts
+ * @returns 500 if database error occurs or the resume link could not be emailed
+ */
+export const _handleSaveFormDraft: ControllerHandler<
+  { formId: string },
+  FormDraftSavedDto | ErrorDto | PrivateFormErrorDto,
+  SaveFormDraftBodyDto
+> = async (req, res) => {
+  const { formId } = req.params
+  const { responses, email, draftKey } = req.body
+  const logMeta = {
+    action: 'handleSaveFormDraft',
+    ...createReqMeta(req),
+    formId,
+  }
+
+  return retrieveOpenForm(formId)
+    .andThen((form) =>
+      DraftService.saveFormDraft({
+        form,
+        cookies: req.cookies,
+        responses,
+        email,
+        encodedDraftKey: draftKey,
+      }),
+    )
+    .map(({ draftKey, expireAt }) =>
+      res.json({ draftKey, expireAt: expireAt.toISOString() as DateString }),
+    )
+    .mapErr((error) => {
+      logger.warn({
+        message: 'Error occurred while saving form draft',
+        meta: logMeta,
+        error,
+      })
+      const { statusCode, body } = createErrorResponse(error)
+      return res.status(statusCode).json(body)
+    })
+}
+
+export const handleSaveFormDraft = [
+  validateSaveFormDraftParams,
+  _handleSaveFormDraft,
+] as ControllerHandler[]
+
+/**
+ * Handler for POST /:formId/drafts/resume
+ * Retrieves the respondent's draft of the form, using the draft key from the
+ * resume link or the respondent's login for authenticated forms.
+ * @precondition Joi validation should enforce shape of req.body before this handler is invoked.
+ *
+ * @returns 200 with the draft responses and expiry
+ * @returns 401 if the respondent is not logged in to an authenticated form
+ * @returns 404 if form does not exist or is private, or the draft does not exist or has expired
+ * @returns 410 if form has been archived
+ * @returns 500 if database error occurs or the draft could not be decrypted
+ */
+export const _handleResumeFormDraft: ControllerHandler<
+  { formId: string },
+  FormDraftDto | ErrorDto | PrivateFormErrorDto,
+  FormDraftKeyBodyDto
+> = async (req, res) => {
+  const { formId } = req.params
+  const logMeta = {
+    action: 'handleResumeFormDraft',
+    ...createReqMeta(req),
+    formId,
+  }
+
+  return retrieveOpenForm(formId)
+    .andThen((form) =>
+      DraftService.retrieveFormDraft({
+        form,
+        cookies: req.cookies,
+        encodedDraftKey: req.body.draftKey,
+      }),
+    )
+    .map(({ responses, expireAt }) =>
+      res.json({ responses, expireAt: expireAt.toISOString() as DateString }),
+    )
+    .mapErr((error) => {
+      logger.warn({
+        message: 'Error occurred while retrieving form draft',
+        meta: logMeta,
+        error,
+      })
+      const { statusCode, body } = createErrorResponse(error)
+      return res.status(statusCode).json(body)
+    })
+}
+
+export const handleResumeFormDraft = [
+  validateFormDraftKeyParams,
+  _handleResumeFormDraft,
+] as ControllerHandler[]
+
+/**
+ * Handler for DELETE /:formId/drafts
+ * Deletes the respondent's draft of the form.
+ * @precondition Joi validation should enforce shape of req.body before this handler is invoked.
+ *
+ * @returns 200 if the draft was deleted
+ * @returns 401 if the respondent is not logged in to an authenticated form
+ * @returns 404 if form does not exist, or the draft does not exist
+ * @returns 500 if database error occurs
+ */
+export const _handleDeleteFormDraft: ControllerHandler<
+  { formId: string },
+  { message: string } | ErrorDto,
+  FormDraftKeyBodyDto
+> = async (req, res) => {
+  const { formId } = req.params
+  const logMeta = {
+    action: 'handleDeleteFormDraft',
+    ...createReqMeta(req),
+    formId,
+  }
+
+  // Drafts can be deleted even if the form has since been closed.
+  return FormService.retrieveFormKeysById(formId, DRAFT_FORM_FIELDS)
+    .andThen((form) =>
+      DraftService.deleteFormDraft({
+        form,
+        cookies: req.cookies,
+        encodedDraftKey: req.body.draftKey,
+      }),
+    )
+    .map(() => res.json({ message: 'Draft successfully deleted.' }))
+    .mapErr((error) => {
+      logger.warn({
+        message: 'Error occurred while deleting form draft',
+        meta: logMeta,
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleDeleteFormDraft = [
+  validateFormDraftKeyParams,
+  _handleDeleteFormDraft,
+] as ControllerHandler[]
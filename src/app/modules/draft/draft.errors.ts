@@ -0,0 +1,33 @@
+import { ApplicationError } from '../core/core.errors'
+
+export class DraftNotFoundError extends ApplicationError {
+  constructor(message = 'Draft not found or has expired') {
+    super(message)
+  }
+}
+
+export class DraftLimitReachedError extends ApplicationError {
+  constructor(message = 'Maximum number of drafts for form reached') {
+    super(message)
+  }
+}
+
+export class DraftEmailRequiredError extends ApplicationError {
+  constructor(message = 'An email is required to save a new draft') {
+    super(message)
+  }
+}
+
+export class DraftDecryptionError extends ApplicationError {
+  constructor(message = 'Draft could not be decrypted') {
+    super(message)
+  }
+}
+
+export class AuthenticatedDraftsUnavailableError extends ApplicationError {
+  constructor(
+    message = 'Drafts of forms with authentication are unavailable as the draft secret key is not set',
+  ) {
+    super(message)
+  }
+}
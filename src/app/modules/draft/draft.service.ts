@@ -0,0 +1,441 @@
+import moment from 'moment-timezone'
+import mongoose from 'mongoose'
+import { errAsync, okAsync, ResultAsync } from 'neverthrow'
+
+import {
+  FormAuthType,
+  FormDraftResponses,
+  FormResponseMode,
+} from '../../../../shared/types'
+import { IFormDraftSchema, IPopulatedForm } from '../../../types'
+import config from '../../config/config'
+import { draftConfig } from '../../config/features/draft.config'
+import { createLoggerWithLabel } from '../../config/logger'
+import getFormDraftModel from '../../models/form_draft.server.model'
+import {
+  MailGenerationError,
+  MailSendError,
+} from '../../services/mail/mail.errors'
+import MailService from '../../services/mail/mail.service'
+import { getMongoErrorMessage } from '../../utils/handle-mongo-error'
+import { DatabaseError } from '../core/core.errors'
+import { SGID_COOKIE_NAME } from '../sgid/sgid.constants'
+import {
+  SgidInvalidJwtError,
+  SgidMissingJwtError,
+  SgidVerifyJwtError,
+} from '../sgid/sgid.errors'
+import { SgidService } from '../sgid/sgid.service'
+import {
+  InvalidJwtError,
+  MissingJwtError,
+  VerifyJwtError,
+} from '../spcp/spcp.errors'
+import { getOidcService } from '../spcp/spcp.oidc.service'
+
+import {
+  AuthenticatedDraftsUnavailableError,
+  DraftDecryptionError,
+  DraftEmailRequiredError,
+  DraftLimitReachedError,
+  DraftNotFoundError,
+} from './draft.errors'
+import {
+  decodeDraftKey,
+  decryptDraftContent,
+  deriveDraftKey,
+  encodeDraftKey,
+  encryptDraftContent,
+  generateDraftKey,
+  getDraftPublicKey,
+  openDraftContent,
+  sealDraftContent,
+} from './draft.utils'
+
+const logger = createLoggerWithLabel(module)
+const FormDraftModel = getFormDraftModel(mongoose)
+
+type RespondentLoginError =
+  | MissingJwtError
+  | VerifyJwtError
+  | InvalidJwtError
+  | SgidMissingJwtError
+  | SgidVerifyJwtError
+  | SgidInvalidJwtError
+
+type DraftKeyResult = {
+  draftKey: Uint8Array
+  /** Whether the key is tied to the respondent's login instead of a link. */
+  isAuthenticated: boolean
+}
+
+/**
+ * Retrieves the identity of the respondent logged in to the given form.
+ * @returns ok(identity) if the form uses Singpass, Corppass or sgID authentication and the respondent is logged in
+ * @returns ok(null) if drafts of the form are not tied to the respondent's login
+ * @returns err(RespondentLoginError) if the respondent is not logged in or their login is invalid
+ */
+const getRespondentIdentity = (
+  form: IPopulatedForm,
+  cookies: Record<string, string>,
+): ResultAsync<string | null, RespondentLoginError> => {
+  switch (form.authType) {
+    case FormAuthType.SP:
+      return getOidcService(FormAuthType.SP)
+        .extractJwtPayloadFromRequest(cookies)
+        .map(({ userName }) => userName)
+    case FormAuthType.CP:
+      // Corppass drafts are tied to both the entity and the user.
+      return getOidcService(FormAuthType.CP)
+        .extractJwtPayloadFromRequest(cookies)
+        .map((payload) =>
+          'userInfo' in payload
+            ? `${payload.userName}:${payload.userInfo}`
+            : payload.userName,
+        )
+    case FormAuthType.SGID:
+      return SgidService.extractSgidSingpassJwtPayload(
+        cookies[SGID_COOKIE_NAME],
+      ).asyncAndThen(({ userName }) => okAsync(userName))
+    default:
+      return okAsync(null)
+  }
+}
+
+/**
+ * Resolves the key of the respondent's draft for the given form.
+ * @param form the form of the draft
+ * @param cookies the cookies of the request, containing the respondent's login for authenticated forms
+ * @param encodedDraftKey the draft key from the resume link, if any
+ * @returns ok(DraftKeyResult) derived from the respondent's login for forms with Singpass, Corppass or sgID authentication, or decoded from the given key otherwise
+ * @returns ok(null) if the form is not authenticated and no key is given
+ * @returns err(RespondentLoginError) if the respondent is not logged in to an authenticated form
+ * @returns err(AuthenticatedDraftsUnavailableError) if the form is authenticated and the draft secret key is not set
+ * @returns err(DraftNotFoundError) if the given key is invalid
+ */
+const getDraftKey = ({
+  form,
+  cookies,
+  encodedDraftKey,
+}: {
+  form: IPopulatedForm
+  cookies: Record<string, string>
+  encodedDraftKey?: string
+}): ResultAsync<
+  DraftKeyResult | null,
+  | RespondentLoginError
+  | AuthenticatedDraftsUnavailableError
+  | DraftNotFoundError
+> => {
+  return getRespondentIdentity(form, cookies).andThen((identity) => {
+    if (identity) {
+      if (!draftConfig.secretKey) {
+        logger.error({
+          message: 'Draft secret key is not set for authenticated form draft',
+          meta: {
+            action: 'getDraftKey',
+            formId: form._id,
+          },
+        })
+        return errAsync(new AuthenticatedDraftsUnavailableError())
+      }
+      return okAsync({
+        draftKey: deriveDraftKey(String(form._id), identity),
+        isAuthenticated: true,
+      })
+    }
+    if (!encodedDraftKey) return okAsync(null)
+    const draftKey = decodeDraftKey(encodedDraftKey)
+    return draftKey
+      ? okAsync({ draftKey, isAuthenticated: false })
+      : errAsync(new DraftNotFoundError())
+  })
+}
+
+/**
+ * Creates or updates the draft with the given key.
+ * @returns ok(draft) if the draft was saved
+ * @returns err(DraftLimitReachedError) if a new draft cannot be created as the form has too many drafts
+ * @returns err(DatabaseError) if error occurs whilst saving the draft
+ */
+const upsertFormDraft = ({
+  form,
+  draftKey,
+  responses,
+}: {
+  form: IPopulatedForm
+  draftKey: Uint8Array
+  responses: FormDraftResponses
+}): ResultAsync<IFormDraftSchema, DraftLimitReachedError | DatabaseError> => {
+  const logMeta = {
+    action: 'upsertFormDraft',
+    formId: form._id,
+  }
+  const now = new Date()
+  const draftPublicKey = getDraftPublicKey(draftKey)
+  const content = JSON.stringify(responses)
+  // Drafts of storage mode forms are encrypted like their submissions, and
+  // drafts of other forms with the draft key alone as their responses must
+  // not be readable at rest.
+  const isEncrypted =
+    form.responseMode === FormResponseMode.Encrypt && !!form.publicKey
+  const update = {
+    content: isEncrypted
+      ? encryptDraftContent(content, draftKey, form.publicKey as string)
+      : sealDraftContent(content, draftKey),
+    isEncrypted,
+    expireAt: moment(now).add(draftConfig.expiryDays, 'days').toDate(),
+  }
+
+  const transformError = (error: unknown) => {
+    logger.error({
+      message: 'Error encountered while saving form draft',
+      meta: logMeta,
+      error,
+    })
+    return new DatabaseError(getMongoErrorMessage(error))
+  }
+
+  return ResultAsync.fromPromise(
+    FormDraftModel.findOneAndUpdate(
+      { formId: form._id, draftPublicKey, expireAt: { $gt: now } },
+      update,
+      { new: true },
+    ).exec(),
+    transformError,
+  ).andThen((existingDraft) => {
+    if (existingDraft) return okAsync(existingDraft)
+
+    return ResultAsync.fromPromise(
+      FormDraftModel.countDocuments({
+        formId: form._id,
+        expireAt: { $gt: now },
+      }).exec(),
+      transformError,
+    ).andThen((draftCount) => {
+      if (draftCount >= draftConfig.maxDraftsPerForm) {
+        logger.warn({
+          message: 'Form reached maximum number of drafts',
+          meta: { ...logMeta, draftCount },
+        })
+        return errAsync(new DraftLimitReachedError())
+      }
+      return ResultAsync.fromPromise(
+        // Replace any expired draft which has yet to be removed.
+        FormDraftModel.findOneAndUpdate(
+          { formId: form._id, draftPublicKey },
+          update,
+          { new: true, upsert: true },
+        ).exec(),
+        transformError,
+      )
+    })
+  })
+}
+
+/**
+ * Saves the respondent's draft of the given form. New drafts of forms without
+ * authentication can be resumed with a link which is emailed to the
+ * respondent.
+ * @param form the form to save the draft for
+ * @param cookies the cookies of the request, containing the respondent's login for authenticated forms
+ * @param responses the respondent's inputs to save
+ * @param email the email to send the resume link of a new draft to
+ * @param encodedDraftKey the key of the draft to update, if any
+ * @returns ok(draft key and expiry) if the draft was saved, the draft key is omitted for authenticated forms
+ * @returns err(DraftEmailRequiredError) if a new draft is saved without an email
+ * @returns err(DraftNotFoundError) if the given draft key is invalid
+ * @returns err(DraftLimitReachedError) if the form has too many drafts
+ * @returns err(RespondentLoginError) if the respondent is not logged in to an authenticated form
+ * @returns err(AuthenticatedDraftsUnavailableError) if the form is authenticated and the draft secret key is not set
+ * @returns err(MailSendError | MailGenerationError) if the resume link could not be emailed
+ * @returns err(DatabaseError) if error occurs whilst saving the draft
+ */
+export const saveFormDraft = ({
+  form,
+  cookies,
+  responses,
+  email,
+  encodedDraftKey,
+}: {
+  form: IPopulatedForm
+  cookies: Record<string, string>
+  responses: FormDraftResponses
+  email?: string
+  encodedDraftKey?: string
+}): ResultAsync<
+  { draftKey?: string; expireAt: Date },
+  | DraftEmailRequiredError
+  | DraftNotFoundError
+  | DraftLimitReachedError
+  | RespondentLoginError
+  | AuthenticatedDraftsUnavailableError
+  | MailSendError
+  | MailGenerationError
+  | DatabaseError
+> => {
+  return getDraftKey({ form, cookies, encodedDraftKey }).andThen(
+    (existingKey) => {
+      if (existingKey) {
+        const { draftKey, isAuthenticated } = existingKey
+        return upsertFormDraft({ form, draftKey, responses }).map(
+          ({ expireAt }) => ({
+            ...(!isAuthenticated && { draftKey: encodeDraftKey(draftKey) }),
+            expireAt,
+          }),
+        )
+      }
+
+      if (!email) return errAsync(new DraftEmailRequiredError())
+
+      const draftKey = generateDraftKey()
+      const encodedKey = encodeDraftKey(draftKey)
+      return upsertFormDraft({ form, draftKey, responses }).andThen(
+        ({ expireAt }) =>
+          MailService.sendFormDraftResumeLink({
+            form,
+            email,
+            resumeUrl: `${config.app.appUrl}/${form._id}?draft=${encodedKey}`,
+            expireAt,
+          }).map(() => ({ draftKey: encodedKey, expireAt })),
+      )
+    },
+  )
+}
+
+/**
+ * Retrieves the respondent's draft of the given form.
+ * @param form the form to retrieve the draft of
+ * @param cookies the cookies of the request, containing the respondent's login for authenticated forms
+ * @param encodedDraftKey the key of the draft from the resume link, for forms without authentication
+ * @returns ok(draft responses and expiry) if the draft exists
+ * @returns err(DraftNotFoundError) if the draft does not exist or has expired
+ * @returns err(DraftDecryptionError) if the draft could not be decrypted
+ * @returns err(RespondentLoginError) if the respondent is not logged in to an authenticated form
+ * @returns err(AuthenticatedDraftsUnavailableError) if the form is authenticated and the draft secret key is not set
+ * @returns err(DatabaseError) if error occurs whilst retrieving the draft
+ */
+export const retrieveFormDraft = ({
+  form,
+  cookies,
+  encodedDraftKey,
+}: {
+  form: IPopulatedForm
+  cookies: Record<string, string>
+  encodedDraftKey?: string
+}): ResultAsync<
+  { responses: FormDraftResponses; expireAt: Date },
+  | DraftNotFoundError
+  | DraftDecryptionError
+  | RespondentLoginError
+  | AuthenticatedDraftsUnavailableError
+  | DatabaseError
+> => {
+  const logMeta = {
+    action: 'retrieveFormDraft',
+    formId: form._id,
+  }
+
+  return getDraftKey({ form, cookies, encodedDraftKey }).andThen((result) => {
+    if (!result) return errAsync(new DraftNotFoundError())
+    const { draftKey } = result
+
+    return ResultAsync.fromPromise(
+      FormDraftModel.findOne({
+        formId: form._id,
+        draftPublicKey: getDraftPublicKey(draftKey),
+        expireAt: { $gt: new Date() },
+      }).exec(),
+      (error) => {
+        logger.error({
+          message: 'Error encountered while retrieving form draft',
+          meta: logMeta,
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      },
+    ).andThen((draft) => {
+      if (!draft) return errAsync(new DraftNotFoundError())
+
+      const content = draft.isEncrypted
+        ? decryptDraftContent(draft.content, draftKey, form.publicKey ?? '')
+        : openDraftContent(draft.content, draftKey)
+      try {
+        if (content !== null) {
+          return okAsync({
+            responses: JSON.parse(content) as FormDraftResponses,
+            expireAt: draft.expireAt,
+          })
+        }
+      } catch (error) {
+        logger.error({
+          message: 'Error encountered while parsing form draft',
+          meta: logMeta,
+          error,
+        })
+        return errAsync(new DraftDecryptionError())
+      }
+      // The form's public key may have changed since the draft was saved, or
+      // the draft may have been saved before its form's response mode changed.
+      logger.error({
+        message: 'Error encountered while decrypting form draft',
+        meta: logMeta,
+      })
+      return errAsync(new DraftDecryptionError())
+    })
+  })
+}
+
+/**
+ * Deletes the respondent's draft of the given form, e.g. after they have
+ * submitted the form.
+ * @param form the form to delete the draft of
+ * @param cookies the cookies of the request, containing the respondent's login for authenticated forms
+ * @param encodedDraftKey the key of the draft from the resume link, for forms without authentication
+ * @returns ok(true) if the draft was deleted
+ * @returns err(DraftNotFoundError) if the draft does not exist
+ * @returns err(RespondentLoginError) if the respondent is not logged in to an authenticated form
+ * @returns err(AuthenticatedDraftsUnavailableError) if the form is authenticated and the draft secret key is not set
+ * @returns err(DatabaseError) if error occurs whilst deleting the draft
+ */
+export const deleteFormDraft = ({
+  form,
+  cookies,
+  encodedDraftKey,
+}: {
+  form: IPopulatedForm
+  cookies: Record<string, string>
+  encodedDraftKey?: string
+}): ResultAsync<
+  true,
+  | DraftNotFoundError
+  | RespondentLoginError
+  | AuthenticatedDraftsUnavailableError
+  | DatabaseError
+> => {
+  return getDraftKey({ form, cookies, encodedDraftKey }).andThen((result) => {
+    if (!result) return errAsync(new DraftNotFoundError())
+
+    return ResultAsync.fromPromise(
+      FormDraftModel.deleteOne({
+        formId: form._id,
+        draftPublicKey: getDraftPublicKey(result.draftKey),
+      }).exec(),
+      (error) => {
+        logger.error({
+          message: 'Error encountered while deleting form draft',
+          meta: {
+            action: 'deleteFormDraft',
+            formId: form._id,
+          },
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      },
+    ).andThen(({ deletedCount }) =>
+      deletedCount
+        ? okAsync(true as const)
+        : errAsync(new DraftNotFoundError()),
+    )
+  })
+}
@@ -0,0 +1,263 @@
+import crypto from 'crypto'
+import { StatusCodes } from 'http-status-codes'
+import nacl from 'tweetnacl'
+
+import { MapRouteError } from '../../../types'
+import { draftConfig } from '../../config/features/draft.config'
+import { createLoggerWithLabel } from '../../config/logger'
+import {
+  MailGenerationError,
+  MailSendError,
+} from '../../services/mail/mail.errors'
+import { DatabaseError } from '../core/core.errors'
+import * as FormErrors from '../form/form.errors'
+import {
+  SgidInvalidJwtError,
+  SgidMissingJwtError,
+  SgidVerifyJwtError,
+} from '../sgid/sgid.errors'
+import {
+  InvalidJwtError,
+  MissingJwtError,
+  VerifyJwtError,
+} from '../spcp/spcp.errors'
+
+import {
+  AuthenticatedDraftsUnavailableError,
+  DraftDecryptionError,
+  DraftEmailRequiredError,
+  DraftLimitReachedError,
+  DraftNotFoundError,
+} from './draft.errors'
+
+const logger = createLoggerWithLabel(module)
+
+/**
+ * Draft keys are nacl box secret keys. The public key derived from a draft key
+ * identifies the draft, and storage mode drafts are encrypted with the draft
+ * key and the form's public key. The encrypted content can hence be decrypted
+ * by the respondent holding the draft key, or by the form admin with the
+ * form's secret key, as it follows the format of encrypted submissions.
+ * Drafts of other forms are encrypted with the draft key alone, so that only
+ * the respondent can decrypt them.
+ */
+
+/**
+ * Generates a random draft key for drafts resumed by link.
+ */
+export const generateDraftKey = (): Uint8Array =>
+  nacl.randomBytes(nacl.box.secretKeyLength)
+
+/**
+ * Derives the draft key of an authenticated respondent for the given form, so
+ * that the draft can be resumed by logging in again.
+ * @precondition the draft secret key must be set
+ * @param formId the id of the form
+ * @param identity the identity of the respondent, e.g. their NRIC
+ */
+export const deriveDraftKey = (formId: string, identity: string): Uint8Array =>
+  new Uint8Array(
+    crypto
+      .createHmac('sha256', draftConfig.secretKey)
+      .update(`${formId}:${identity}`)
+      .digest(),
+  )
+
+export const encodeDraftKey = (draftKey: Uint8Array): string =>
+  Buffer.from(draftKey).toString('base64url')
+
+/**
+ * Decodes a draft key from its URL-safe base64 encoding.
+ * @returns the draft key, or null if the encoded key is invalid
+ */
+export const decodeDraftKey = (encodedKey: string): Uint8Array | null => {
+  const draftKey = Buffer.from(encodedKey, 'base64url')
+  return draftKey.length === nacl.box.secretKeyLength
+    ? new Uint8Array(draftKey)
+    : null
+}
+
+/**
+ * Returns the public key derived from the given draft key, which is used to
+ * look up the draft.
+ */
+export const getDraftPublicKey = (draftKey: Uint8Array): string =>
+  Buffer.from(nacl.box.keyPair.fromSecretKey(draftKey).publicKey).toString(
+    'base64',
+  )
+
+/**
+ * Encrypts the content of a draft with the given draft key and form public
+ * key.
+ * @returns the encrypted content in the format `draftPublicKey;nonce:ciphertext`
+ */
+export const encryptDraftContent = (
+  content: string,
+  draftKey: Uint8Array,
+  formPublicKey: string,
+): string => {
+  const nonce = nacl.randomBytes(nacl.box.nonceLength)
+  const encrypted = nacl.box(
+    Buffer.from(content, 'utf8'),
+    nonce,
+    Buffer.from(formPublicKey, 'base64'),
+    draftKey,
+  )
+  return `${getDraftPublicKey(draftKey)};${Buffer.from(nonce).toString(
+    'base64',
+  )}:${Buffer.from(encrypted).toString('base64')}`
+}
+
+/**
+ * Decrypts the content of a draft with the given draft key and form public
+ * key.
+ * @returns the decrypted content, or null if the content could not be decrypted
+ */
+export const decryptDraftContent = (
+  encryptedContent: string,
+  draftKey: Uint8Array,
+  formPublicKey: string,
+): string | null => {
+  const [, nonceAndCiphertext = ''] = encryptedContent.split(';')
+  const [nonce = '', ciphertext = ''] = nonceAndCiphertext.split(':')
+  try {
+    const decrypted = nacl.box.open(
+      Buffer.from(ciphertext, 'base64'),
+      Buffer.from(nonce, 'base64'),
+      Buffer.from(formPublicKey, 'base64'),
+      draftKey,
+    )
+    return decrypted ? Buffer.from(decrypted).toString('utf8') : null
+  } catch {
+    // nacl throws on keys or nonces of invalid length.
+    return null
+  }
+}
+
+/**
+ * Encrypts the content of a draft with the draft key alone, for forms whose
+ * responses are not stored.
+ * @returns the encrypted content in the format `nonce:ciphertext`
+ */
+export const sealDraftContent = (
+  content: string,
+  draftKey: Uint8Array,
+): string => {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength)
+  const encrypted = nacl.secretbox(
+    Buffer.from(content, 'utf8'),
+    nonce,
+    draftKey,
+  )
+  return `${Buffer.from(nonce).toString('base64')}:${Buffer.from(
+    encrypted,
+  ).toString('base64')}`
+}
+
+/**
+ * Decrypts the content of a draft which was encrypted with the draft key
+ * alone.
+ * @returns the decrypted content, or null if the content could not be decrypted
+ */
+export const openDraftContent = (
+  sealedContent: string,
+  draftKey: Uint8Array,
+): string | null => {
+  const [nonce = '', ciphertext = ''] = sealedContent.split(':')
+  try {
+    const decrypted = nacl.secretbox.open(
+      Buffer.from(ciphertext, 'base64'),
+      Buffer.from(nonce, 'base64'),
+      draftKey,
+    )
+    return decrypted ? Buffer.from(decrypted).toString('utf8') : null
+  } catch {
+    // nacl throws on nonces of invalid length.
+    return null
+  }
+}
+
+export const mapRouteError: MapRouteError = (
+  error,
+  coreErrorMessage = 'Sorry, something went wrong. Please refresh and try again.',
+) => {
+  switch (error.constructor) {
+    case FormErrors.FormNotFoundError:
+      return {
+        statusCode: StatusCodes.NOT_FOUND,
+        errorMessage: 'This form no longer exists.',
+      }
+    case FormErrors.FormDeletedError:
+      return {
+        statusCode: StatusCodes.GONE,
+        errorMessage:
+          'This form has been deleted, so drafts can no longer be saved.',
+      }
+    case FormErrors.PrivateFormError:
+      return {
+        statusCode: StatusCodes.NOT_FOUND,
+        errorMessage:
+          'This form has been made private, so drafts can no longer be saved.',
+      }
+    case DraftNotFoundError:
+      return {
+        statusCode: StatusCodes.NOT_FOUND,
+        errorMessage:
+          'Your draft could not be found. It may have expired or been submitted.',
+      }
+    case DraftLimitReachedError:
+      return {
+        statusCode: StatusCodes.TOO_MANY_REQUESTS,
+        errorMessage:
+          'Drafts cannot be saved for this form at the moment. Please submit your responses instead.',
+      }
+    case DraftEmailRequiredError:
+      return {
+        statusCode: StatusCodes.BAD_REQUEST,
+        errorMessage:
+          'Please enter your email to receive a link to your draft.',
+      }
+    case SgidMissingJwtError:
+    case SgidVerifyJwtError:
+    case SgidInvalidJwtError:
+    case MissingJwtError:
+    case VerifyJwtError:
+    case InvalidJwtError:
+      return {
+        statusCode: StatusCodes.UNAUTHORIZED,
+        errorMessage:
+          'Something went wrong with your login. Please try logging in again.',
+      }
+    case AuthenticatedDraftsUnavailableError:
+      return {
+        statusCode: StatusCodes.SERVICE_UNAVAILABLE,
+        errorMessage:
+          'Drafts cannot be saved for this form at the moment. Please submit your responses instead.',
+      }
+    case MailGenerationError:
+    case MailSendError:
+      return {
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorMessage:
+          'The link to your draft could not be emailed to you. Please try again.',
+      }
+    case DraftDecryptionError:
+    case DatabaseError:
+      return {
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorMessage: coreErrorMessage,
+      }
+    default:
+      logger.error({
+        message: 'Unknown route error observed',
+        meta: {
+          action: 'mapRouteError',
+        },
+        error,
+      })
+      return {
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorMessage: 'Something went wrong. Please try again.',
+      }
+  }
+}
@@ -8,7 +8,7 @@ import mongoose from 'mongoose'
 import getFormFeedbackModel from 'src/app/models/form_feedback.server.model'
 
 import { FormFeedbackMetaDto } from '../../../../../shared/types'
-import { DatabaseError } from '../../core/core.errors'
+import { DatabaseError, MalformedParametersError } from '../../core/core.errors'
 import { DuplicateFeedbackSubmissionError } from '../feedback.errors'
 import * as FeedbackService from '../feedback.service'
 
@@ -145,6 +145,7 @@ describe('feedback.service', () => {
           comment: fb.comment,
           date: moment(fb.created).tz('Asia/Singapore').format('D MMM YYYY'),
           dateShort: moment(fb.created).tz('Asia/Singapore').format('D MMM'),
+          submissionId: MOCK_SUBMISSION_ID,
         }))
       // Act
       const actualResult = await FeedbackService.getFormFeedbacks(mockFormId)
@@ -191,6 +192,11 @@ describe('feedback.service', () => {
       expect(actualResult._unsafeUnwrap()).toEqual({
         count: 0,
         feedback: [],
+        ratingDistribution: [1, 2, 3, 4, 5].map((rating) => ({
+          rating,
+          count: 0,
+        })),
+        ratingTrend: [],
       })
     })
 
@@ -224,6 +230,23 @@ describe('feedback.service', () => {
             dateShort: moment(createdFb.created)
               .tz('Asia/Singapore')
               .format('D MMM'),
+            submissionId: MOCK_SUBMISSION_ID,
+          },
+        ],
+        ratingDistribution: [
+          { rating: 1, count: 0 },
+          { rating: 2, count: 0 },
+          { rating: 3, count: 1 },
+          { rating: 4, count: 0 },
+          { rating: 5, count: 0 },
+        ],
+        ratingTrend: [
+          {
+            date: moment(createdFb.created)
+              .tz('Asia/Singapore')
+              .format('YYYY-MM-DD'),
+            count: 1,
+            average: '3.00',
           },
         ],
       }
@@ -231,6 +254,79 @@ describe('feedback.service', () => {
       expect(actualResult._unsafeUnwrap()).toEqual(expectedResult)
     })
 
+    it('should only return feedback matching the rating filter', async () => {
+      // Arrange
+      const mockFormId = new ObjectId().toHexString()
+      await FormFeedback.create(
+        [5, 4, 5].map((rating) => ({
+          formId: mockFormId,
+          submissionId: new ObjectId(),
+          rating,
+        })),
+      )
+
+      // Act
+      const actualResult = await FeedbackService.getFormFeedbacks(mockFormId, {
+        rating: 5,
+      })
+
+      // Assert
+      const actual = actualResult._unsafeUnwrap()
+      expect(actual.count).toBe(2)
+      expect(actual.average).toBe('5.00')
+      expect(actual.feedback.every((f) => f.rating === 5)).toBe(true)
+      // Distribution should still include the feedback filtered out by rating.
+      expect(actual.ratingDistribution).toEqual([
+        { rating: 1, count: 0 },
+        { rating: 2, count: 0 },
+        { rating: 3, count: 0 },
+        { rating: 4, count: 1 },
+        { rating: 5, count: 2 },
+      ])
+    })
+
+    it('should only return feedback within the date range', async () => {
+      // Arrange
+      const mockFormId = new ObjectId().toHexString()
+      await FormFeedback.create({
+        formId: mockFormId,
+        submissionId: MOCK_SUBMISSION_ID,
+        rating: 4,
+      })
+      const today = moment().tz('Asia/Singapore').format('YYYY-MM-DD')
+      const lastYear = moment()
+        .tz('Asia/Singapore')
+        .subtract(1, 'year')
+        .format('YYYY-MM-DD')
+
+      // Act
+      const actualTodayResult = await FeedbackService.getFormFeedbacks(
+        mockFormId,
+        { startDate: today, endDate: today },
+      )
+      const actualLastYearResult = await FeedbackService.getFormFeedbacks(
+        mockFormId,
+        { startDate: lastYear, endDate: lastYear },
+      )
+
+      // Assert
+      expect(actualTodayResult._unsafeUnwrap().count).toBe(1)
+      expect(actualLastYearResult._unsafeUnwrap().count).toBe(0)
+    })
+
+    it('should return MalformedParametersError when the date range is malformed', async () => {
+      // Act
+      const actualResult = await FeedbackService.getFormFeedbacks(
+        new ObjectId().toHexString(),
+        { startDate: 'not a date', endDate: '2023-01-01' },
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        MalformedParametersError,
+      )
+    })
+
     it('should return DatabaseError when error occurs whilst querying database', async () => {
       // Arrange
       const mockFormId = new ObjectId().toHexString()
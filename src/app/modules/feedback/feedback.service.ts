@@ -5,15 +5,18 @@ import { errAsync, okAsync, ResultAsync } from 'neverthrow'
 
 import {
   FormFeedbackMetaDto,
+  FormFeedbackMetaQueryDto,
   ProcessedFeedbackMeta,
 } from '../../../../shared/types'
 import { IFormFeedbackSchema } from '../../../types'
 import { createLoggerWithLabel } from '../../config/logger'
 import getFormFeedbackModel from '../../models/form_feedback.server.model'
+import { createQueryWithDateParam, isMalformedDate } from '../../utils/date'
 import { getMongoErrorMessage } from '../../utils/handle-mongo-error'
-import { DatabaseError } from '../core/core.errors'
+import { DatabaseError, MalformedParametersError } from '../core/core.errors'
 
 import { DuplicateFeedbackSubmissionError } from './feedback.errors'
+import { getRatingDistribution, getRatingTrend } from './feedback.util'
 
 const FormFeedbackModel = getFormFeedbackModel(mongoose)
 const logger = createLoggerWithLabel(module)
@@ -57,17 +60,33 @@ export const getFormFeedbackStream = (
 }
 
 /**
- * Returned processed object containing count of feedback, average rating, and
- * list of feedback.
+ * Returned processed object containing count of feedback, average rating,
+ * list of feedback, and the distribution and daily trend of ratings.
  * @param formId the form to retrieve feedback for
+ * @param filters the optional date range and rating to filter feedback by
  * @returns ok(feedback response object) on success
+ * @returns err(MalformedParametersError) if the date range is malformed
  * @returns err(DatabaseError) if database error occurs during query
  */
 export const getFormFeedbacks = (
   formId: string,
-): ResultAsync<FormFeedbackMetaDto, DatabaseError> => {
+  filters: FormFeedbackMetaQueryDto = {},
+): ResultAsync<
+  FormFeedbackMetaDto,
+  MalformedParametersError | DatabaseError
+> => {
+  const { startDate, endDate, rating } = filters
+  if (isMalformedDate(startDate) || isMalformedDate(endDate)) {
+    return errAsync(new MalformedParametersError('Malformed date parameter'))
+  }
+
   return ResultAsync.fromPromise(
-    FormFeedbackModel.find({ formId }).sort({ created: 1 }).exec(),
+    FormFeedbackModel.find({
+      formId,
+      ...createQueryWithDateParam(startDate, endDate),
+    })
+      .sort({ created: 1 })
+      .exec(),
     (error) => {
       logger.error({
         message: 'Error retrieving feedback documents from database',
@@ -80,11 +99,20 @@ export const getFormFeedbacks = (
 
       return new DatabaseError(getMongoErrorMessage(error))
     },
-  ).map((feedbacks) => {
+  ).map((feedbacksInDateRange) => {
+    // The distribution is computed before filtering by rating, so that the
+    // ratings which were filtered out can still be compared against.
+    const ratingDistribution = getRatingDistribution(feedbacksInDateRange)
+    const feedbacks = rating
+      ? feedbacksInDateRange.filter((fb) => fb.rating === rating)
+      : feedbacksInDateRange
+
     if (isEmpty(feedbacks)) {
       return {
         count: 0,
         feedback: [],
+        ratingDistribution,
+        ratingTrend: [],
       }
     }
 
@@ -101,6 +129,7 @@ export const getFormFeedbacks = (
         comment: fb.comment ?? '',
         date: moment(fb.created).tz('Asia/Singapore').format('D MMM YYYY'),
         dateShort: moment(fb.created).tz('Asia/Singapore').format('D MMM'),
+        submissionId: fb.submissionId ? String(fb.submissionId) : undefined,
       }
 
       return response
@@ -110,6 +139,8 @@ export const getFormFeedbacks = (
       average: averageRating,
       count: totalFeedbackCount,
       feedback: processedFeedback,
+      ratingDistribution,
+      ratingTrend: getRatingTrend(feedbacks),
     }
   })
 }
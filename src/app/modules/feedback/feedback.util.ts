@@ -1,6 +1,12 @@
 import { StatusCodes } from 'http-status-codes'
+import { groupBy, range, sumBy } from 'lodash'
+import moment from 'moment-timezone'
 
-import { MapRouteError } from '../../../types'
+import {
+  FeedbackRatingDistribution,
+  FeedbackRatingTrend,
+} from '../../../../shared/types'
+import { IFormFeedbackSchema, MapRouteError } from '../../../types'
 import { createLoggerWithLabel } from '../../config/logger'
 import { ApplicationError, DatabaseError } from '../core/core.errors'
 import * as FormErrors from '../form/form.errors'
@@ -64,3 +70,44 @@ export const mapRouteError: MapRouteError = (
       }
   }
 }
+
+/**
+ * Counts the feedback of each possible rating.
+ * @param feedbacks the feedback to count
+ * @returns the number of feedback of each rating, in ascending order of rating
+ */
+export const getRatingDistribution = (
+  feedbacks: Pick<IFormFeedbackSchema, 'rating'>[],
+): FeedbackRatingDistribution => {
+  const countsByRating = groupBy(feedbacks, 'rating')
+  return range(1, 6).map((rating) => ({
+    rating,
+    count: countsByRating[rating]?.length ?? 0,
+  }))
+}
+
+/**
+ * Computes the number and average rating of feedback on each day in Singapore
+ * time which has feedback.
+ * @param feedbacks the feedback to compute the trend of
+ * @returns the daily number and average rating of feedback, in date order
+ */
+export const getRatingTrend = (
+  feedbacks: Pick<IFormFeedbackSchema, 'rating' | 'created'>[],
+): FeedbackRatingTrend => {
+  const feedbacksByDate = groupBy(feedbacks, (fb) =>
+    moment(fb.created).tz('Asia/Singapore').format('YYYY-MM-DD'),
+  )
+  return Object.keys(feedbacksByDate)
+    .sort()
+    .map((date) => {
+      const dailyFeedbacks = feedbacksByDate[date]
+      return {
+        date,
+        count: dailyFeedbacks.length,
+        average: (
+          sumBy(dailyFeedbacks, 'rating') / dailyFeedbacks.length
+        ).toFixed(2),
+      }
+    })
+}
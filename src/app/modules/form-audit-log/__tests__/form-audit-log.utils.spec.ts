@@ -0,0 +1,164 @@
+import { ObjectId } from 'bson-ext'
+
+import { WEBHOOK_HEADER_VALUE_MASK } from '../../../../../shared/constants/webhook'
+import {
+  DateString,
+  FormAuditAction,
+  FormAuditLogDto,
+  FormId,
+  FormSettings,
+} from '../../../../../shared/types'
+import {
+  convertFormAuditLogsToCsv,
+  getAuditLogChanges,
+  toAuditValues,
+  toSettingsAuditValues,
+} from '../form-audit-log.utils'
+
+describe('form-audit-log.utils', () => {
+  describe('toAuditValues', () => {
+    it('should serialise ids and dates as they are returned to admins', () => {
+      const id = new ObjectId()
+      const date = new Date('2023-01-10T04:05:06.000Z')
+
+      expect(toAuditValues({ _id: id, opensAt: date })).toEqual({
+        _id: id.toHexString(),
+        opensAt: '2023-01-10T04:05:06.000Z',
+      })
+    })
+
+    it('should store values which are not objects under value', () => {
+      expect(toAuditValues(3)).toEqual({ value: 3 })
+      expect(toAuditValues(['a'])).toEqual({ value: ['a'] })
+    })
+
+    it('should return an empty object for missing values', () => {
+      expect(toAuditValues(undefined)).toEqual({})
+      expect(toAuditValues(null)).toEqual({})
+    })
+  })
+
+  describe('toSettingsAuditValues', () => {
+    const MOCK_SETTINGS = {
+      title: 'form',
+      webhook: {
+        url: 'https://example.com/webhook',
+        isRetryEnabled: false,
+        hasHmacSecret: true,
+        headers: [
+          { name: 'Authorization', value: WEBHOOK_HEADER_VALUE_MASK },
+          { name: 'X-Other', value: WEBHOOK_HEADER_VALUE_MASK },
+        ],
+        additionalEndpoints: [
+          {
+            url: 'https://example.com/other',
+            isRetryEnabled: false,
+            hasHmacSecret: true,
+          },
+        ],
+      },
+    } as FormSettings
+
+    it('should record updated webhook secrets and header values as changed without storing them', () => {
+      const auditValues = toSettingsAuditValues(MOCK_SETTINGS, {
+        webhook: {
+          hmacSecret: 'new-secret',
+          headers: [
+            { name: 'authorization', value: 'Bearer new-token' },
+            { name: 'X-Other', value: WEBHOOK_HEADER_VALUE_MASK },
+          ],
+          additionalEndpoints: [
+            {
+              url: 'https://example.com/other',
+              isRetryEnabled: false,
+              hmacSecret: 'new-endpoint-secret',
+            },
+          ],
+        },
+      })
+
+      expect(auditValues).toEqual({
+        title: 'form',
+        webhook: {
+          url: 'https://example.com/webhook',
+          isRetryEnabled: false,
+          hasHmacSecret: true,
+          hmacSecret: '[changed]',
+          headers: [
+            { name: 'Authorization', value: '[changed]' },
+            { name: 'X-Other', value: WEBHOOK_HEADER_VALUE_MASK },
+          ],
+          additionalEndpoints: [
+            {
+              url: 'https://example.com/other',
+              isRetryEnabled: false,
+              hasHmacSecret: true,
+              hmacSecret: '[changed]',
+            },
+          ],
+        },
+      })
+      expect(JSON.stringify(auditValues)).not.toContain('new')
+    })
+
+    it('should return the settings as they are when the webhook is not updated', () => {
+      expect(toSettingsAuditValues(MOCK_SETTINGS, { title: 'form' })).toEqual(
+        MOCK_SETTINGS,
+      )
+    })
+  })
+
+  describe('getAuditLogChanges', () => {
+    it('should only return the properties which changed', () => {
+      expect(
+        getAuditLogChanges(
+          { title: 'a', emails: ['a@example.com'], hasCaptcha: true },
+          { title: 'a', emails: ['b@example.com'], hasCaptcha: true },
+        ),
+      ).toEqual({
+        before: { emails: ['a@example.com'] },
+        after: { emails: ['b@example.com'] },
+      })
+    })
+
+    it('should return all properties of created and deleted values', () => {
+      expect(getAuditLogChanges(undefined, { title: 'a' })).toEqual({
+        before: {},
+        after: { title: 'a' },
+      })
+      expect(getAuditLogChanges({ title: 'a' }, undefined)).toEqual({
+        before: { title: 'a' },
+        after: {},
+      })
+    })
+
+    it('should return no changes when the values are equal', () => {
+      expect(getAuditLogChanges({ title: 'a' }, { title: 'a' })).toEqual({
+        before: {},
+        after: {},
+      })
+    })
+  })
+
+  describe('convertFormAuditLogsToCsv', () => {
+    it('should return a row for each changed property in Singapore time', () => {
+      const auditLog: FormAuditLogDto = {
+        _id: new ObjectId().toHexString(),
+        form: new ObjectId().toHexString() as FormId,
+        action: FormAuditAction.UpdateSettings,
+        actor: 'admin@example.com',
+        before: { emails: ['a@example.com'], title: 'old' },
+        after: { emails: ['b@example.com'], title: 'new' },
+        created: '2023-01-10T04:05:06.000Z' as DateString,
+      }
+
+      const csv = convertFormAuditLogsToCsv([auditLog])
+
+      expect(csv.split(/\r?\n/).filter(Boolean)).toEqual([
+        '\uFEFFDate,Changed by,Action,Target ID,Property,Before,After',
+        '2023-01-10 12:05:06,admin@example.com,UPDATE_SETTINGS,,emails,"[""a@example.com""]","[""b@example.com""]"',
+        '2023-01-10 12:05:06,admin@example.com,UPDATE_SETTINGS,,title,old,new',
+      ])
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import mongoose from 'mongoose'
+import { okAsync, ResultAsync } from 'neverthrow'
+
+import { FormAuditAction } from '../../../../shared/types'
+import { IFormSchema, IUserSchema } from '../../../types'
+import { createLoggerWithLabel } from '../../config/logger'
+import getFormAuditLogModel from '../../models/form_audit_log.server.model'
+import { getMongoErrorMessage } from '../../utils/handle-mongo-error'
+import { DatabaseError } from '../core/core.errors'
+
+import { PopulatedFormAuditLog } from './form-audit-log.types'
+import { getAuditLogChanges } from './form-audit-log.utils'
+
+const logger = createLoggerWithLabel(module)
+const FormAuditLogModel = getFormAuditLogModel(mongoose)
+
+/**
+ * Records a change made to a form by an admin or collaborator, with the values
+ * of the properties which changed before and after the change. Changes which
+ * did not change any property are not recorded.
+ * As the change has already been made, failures are logged and not returned
+ * to the caller.
+ * @param formId the id of the form which was changed
+ * @param actorId the id of the user who made the change
+ * @param action the change which was made
+ * @param targetId the id of the field or logic which was changed, if any
+ * @param before the changed part of the form before the change, if any
+ * @param after the changed part of the form after the change, if any
+ * @returns ok(true) if the change was recorded
+ * @returns ok(false) if nothing changed or the change could not be recorded
+ */
+export const createFormAuditLog = ({
+  formId,
+  actorId,
+  action,
+  targetId,
+  before,
+  after,
+}: {
+  formId: IFormSchema['_id']
+  actorId: IUserSchema['_id']
+  action: FormAuditAction
+  targetId?: string
+  before?: unknown
+  after?: unknown
+}): ResultAsync<boolean, never> => {
+  const changes = getAuditLogChanges(before, after)
+  if (
+    Object.keys(changes.before).length === 0 &&
+    Object.keys(changes.after).length === 0
+  ) {
+    return okAsync(false)
+  }
+
+  return ResultAsync.fromPromise(
+    FormAuditLogModel.create({
+      form: formId,
+      actor: actorId,
+      action,
+      targetId,
+      ...changes,
+    }),
+    (error) => error,
+  )
+    .map(() => true)
+    .orElse((error) => {
+      logger.error({
+        message: 'Failed to record change to form in audit log',
+        meta: {
+          action: 'createFormAuditLog',
+          formId,
+          actorId,
+          auditAction: action,
+        },
+        error,
+      })
+      return okAsync(false)
+    })
+}
+
+/**
+ * Retrieves a page of the audit log of the form of the given id, most recent
+ * first.
+ * @param formId the id of the form
+ * @param page the page of the audit log to retrieve, starting from 1
+ * @param pageSize the number of entries in each page
+ * @returns ok(auditLogs and count) the entries in the page with the email of each actor, and the total number of entries
+ * @returns err(DatabaseError) if database query errors
+ */
+export const listFormAuditLogs = (
+  formId: string,
+  { page = 1, pageSize = 10 }: { page?: number; pageSize?: number } = {},
+): ResultAsync<
+  { auditLogs: PopulatedFormAuditLog[]; count: number },
+  DatabaseError
+> => {
+  return ResultAsync.fromPromise(
+    Promise.all([
+      FormAuditLogModel.find({ form: formId })
+        .sort({ created: -1 })
+        .skip((page - 1) * pageSize)
+        .limit(pageSize)
+        .populate('actor', 'email')
+        .lean()
+        .exec() as Promise<PopulatedFormAuditLog[]>,
+      FormAuditLogModel.countDocuments({ form: formId }).exec(),
+    ]),
+    (error) => {
+      logger.error({
+        message: 'Error retrieving form audit logs from database',
+        meta: {
+          action: 'listFormAuditLogs',
+          formId,
+          page,
+          pageSize,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).map(([auditLogs, count]) => ({ auditLogs, count }))
+}
+
+/**
+ * Retrieves the whole audit log of the form of the given id, most recent
+ * first.
+ * @param formId the id of the form
+ * @returns ok(auditLogs) of the form, with the email of each actor
+ * @returns err(DatabaseError) if database query errors
+ */
+export const getAllFormAuditLogs = (
+  formId: string,
+): ResultAsync<PopulatedFormAuditLog[], DatabaseError> => {
+  return ResultAsync.fromPromise(
+    FormAuditLogModel.find({ form: formId })
+      .sort({ created: -1 })
+      .populate('actor', 'email')
+      .lean()
+      .exec() as Promise<PopulatedFormAuditLog[]>,
+    (error) => {
+      logger.error({
+        message: 'Error retrieving form audit logs from database',
+        meta: {
+          action: 'getAllFormAuditLogs',
+          formId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  )
+}
@@ -0,0 +1,15 @@
+import { IFormAuditLogSchema, IUserSchema } from '../../../types'
+
+export type PopulatedFormAuditLog = Omit<
+  IFormAuditLogSchema,
+  'actor' | 'created'
+> & {
+  // Null if the actor has since been deleted.
+  actor: Pick<IUserSchema, '_id' | 'email'> | null
+  created: Date
+}
+
+export type FormAuditLogChanges = {
+  before: Record<string, unknown>
+  after: Record<string, unknown>
+}
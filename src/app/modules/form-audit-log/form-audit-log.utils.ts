@@ -0,0 +1,184 @@
+import { stringify } from 'csv-string'
+import { isEqual, isPlainObject, pick, union } from 'lodash'
+import moment from 'moment-timezone'
+
+import { WEBHOOK_HEADER_VALUE_MASK } from '../../../../shared/constants/webhook'
+import {
+  DateString,
+  FormAuditLogDto,
+  FormId,
+  FormSettings,
+  SettingsUpdateDto,
+  WebhookEndpointSettings,
+} from '../../../../shared/types'
+
+import {
+  FormAuditLogChanges,
+  PopulatedFormAuditLog,
+} from './form-audit-log.types'
+
+// Used to denote to Excel that the CSV is UTF8-encoded.
+const UTF8_BYTE_ORDER_MARK = '\uFEFF'
+
+/**
+ * Converts the given value into a plain object which can be stored in the
+ * audit log, such that documents, ids and dates are stored as they are
+ * returned to admins. Values which are not objects are stored under `value`.
+ */
+export const toAuditValues = (value: unknown): Record<string, unknown> => {
+  if (value === undefined || value === null) return {}
+  const serialised: unknown = JSON.parse(JSON.stringify(value))
+  return isPlainObject(serialised)
+    ? (serialised as Record<string, unknown>)
+    : { value: serialised }
+}
+
+// Recorded in place of secrets which were updated, such as webhook secrets and
+// header values, and Twilio credentials.
+export const CHANGED_SECRET_AUDIT_VALUE = '[changed]'
+// Recorded in place of secrets which were set before a change.
+export const SET_SECRET_AUDIT_VALUE = '[set]'
+
+const markWebhookEndpointSecretChanges = <T extends WebhookEndpointSettings>(
+  endpoint: T,
+  endpointUpdate?: Partial<WebhookEndpointSettings>,
+): T => ({
+  ...endpoint,
+  ...(endpointUpdate?.hmacSecret && { hmacSecret: CHANGED_SECRET_AUDIT_VALUE }),
+  headers: endpoint.headers?.map((header) => {
+    const headerUpdate = endpointUpdate?.headers?.find(
+      ({ name }) => name.toLowerCase() === header.name.toLowerCase(),
+    )
+    return headerUpdate && headerUpdate.value !== WEBHOOK_HEADER_VALUE_MASK
+      ? { ...header, value: CHANGED_SECRET_AUDIT_VALUE }
+      : header
+  }),
+})
+
+/**
+ * Converts the settings of a form after an update into values to store in the
+ * audit log. Webhook secrets and header values are write-only and not part of
+ * the settings, so those which were set by the update are recorded as changed
+ * without storing them.
+ * @param settings the settings after the update
+ * @param settingsUpdate the update made to the settings
+ * @returns the values of the settings to store in the audit log
+ */
+export const toSettingsAuditValues = (
+  settings: FormSettings,
+  settingsUpdate: SettingsUpdateDto,
+): Record<string, unknown> => {
+  const webhookUpdate = settingsUpdate.webhook
+  if (!webhookUpdate || !settings.webhook) return toAuditValues(settings)
+
+  return toAuditValues({
+    ...settings,
+    webhook: {
+      ...markWebhookEndpointSecretChanges(settings.webhook, webhookUpdate),
+      // Additional endpoints are replaced whole, in the order given.
+      additionalEndpoints: settings.webhook.additionalEndpoints?.map(
+        (endpoint, i) =>
+          markWebhookEndpointSecretChanges(
+            endpoint,
+            webhookUpdate.additionalEndpoints?.[i],
+          ),
+      ),
+    },
+  })
+}
+
+/**
+ * Retrieves the top-level properties which differ between the given values
+ * of a part of a form before and after a change.
+ * @param before the value before the change, or undefined if it was created
+ * @param after the value after the change, or undefined if it was deleted
+ * @returns the values of the changed properties before and after the change
+ */
+export const getAuditLogChanges = (
+  before: unknown,
+  after: unknown,
+): FormAuditLogChanges => {
+  const beforeValues = toAuditValues(before)
+  const afterValues = toAuditValues(after)
+  const changedKeys = union(
+    Object.keys(beforeValues),
+    Object.keys(afterValues),
+  ).filter((key) => !isEqual(beforeValues[key], afterValues[key]))
+
+  return {
+    before: pick(beforeValues, changedKeys),
+    after: pick(afterValues, changedKeys),
+  }
+}
+
+/**
+ * Converts the given audit log entry into its view for form admins.
+ */
+export const toFormAuditLogDto = ({
+  _id,
+  form,
+  action,
+  actor,
+  targetId,
+  before,
+  after,
+  created,
+}: PopulatedFormAuditLog): FormAuditLogDto => ({
+  _id: String(_id),
+  form: String(form) as FormId,
+  action,
+  actor: actor?.email ?? '',
+  targetId,
+  before,
+  after,
+  created: created.toISOString() as DateString,
+})
+
+const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Converts the audit log of a form into a CSV file, with a row for each
+ * property changed by each entry. Dates are converted into Singapore time.
+ * @param auditLogs the audit log entries to convert, most recent first
+ * @returns the contents of the CSV file
+ */
+export const convertFormAuditLogsToCsv = (
+  auditLogs: FormAuditLogDto[],
+): string => {
+  const header = [
+    'Date',
+    'Changed by',
+    'Action',
+    'Target ID',
+    'Property',
+    'Before',
+    'After',
+  ]
+
+  const rows = auditLogs.flatMap((auditLog) => {
+    const date = moment(auditLog.created)
+      .tz('Asia/Singapore')
+      .format('YYYY-MM-DD HH:mm:ss')
+    const properties = union(
+      Object.keys(auditLog.before),
+      Object.keys(auditLog.after),
+    )
+    return properties.map((property) => [
+      date,
+      auditLog.actor,
+      auditLog.action,
+      auditLog.targetId ?? '',
+      property,
+      formatAuditValue(auditLog.before[property]),
+      formatAuditValue(auditLog.after[property]),
+    ])
+  })
+
+  return (
+    UTF8_BYTE_ORDER_MARK +
+    [header, ...rows].map((row) => stringify(row)).join('')
+  )
+}
@@ -0,0 +1,357 @@
+import dbHandler from '__tests__/unit/backend/helpers/jest-db'
+import { ObjectId } from 'bson'
+import mongoose from 'mongoose'
+
+import { IPopulatedForm, IPopulatedUser } from 'src/types'
+
+import {
+  FormStatus,
+  FormTemplateCategory,
+  UserRole,
+} from '../../../../../shared/types'
+import getFormTemplateModel from '../../../models/form_template.server.model'
+import { MissingAgencyAdminRoleError } from '../../auth/auth.errors'
+import { DatabaseError } from '../../core/core.errors'
+import {
+  FormTemplateAlreadyPublishedError,
+  FormTemplateNotFoundError,
+  FormTemplateNotPublicError,
+} from '../form-template.errors'
+import * as FormTemplateService from '../form-template.service'
+
+const FormTemplateModel = getFormTemplateModel(mongoose)
+
+const MOCK_PARAMS = {
+  title: 'Event registration',
+  description: 'Register attendees for an event',
+  category: FormTemplateCategory.Registration,
+}
+
+describe('form-template.service', () => {
+  beforeAll(async () => await dbHandler.connect())
+  afterEach(async () => {
+    await dbHandler.clearDatabase()
+    jest.restoreAllMocks()
+  })
+  afterAll(async () => await dbHandler.closeDatabase())
+
+  const insertTemplate = async ({
+    status = FormStatus.Public,
+    mailName = 'test',
+    ...templateParams
+  }: Partial<typeof MOCK_PARAMS> & {
+    status?: FormStatus
+    mailName?: string
+    useCount?: number
+  } = {}) => {
+    const { form, user, agency } = await dbHandler.insertEmailForm({
+      mailName,
+      formOptions: { status },
+    })
+    const template = await FormTemplateModel.create({
+      ...MOCK_PARAMS,
+      ...templateParams,
+      formId: form._id,
+      agency: agency._id,
+      publishedBy: user._id,
+    })
+    return { form, user, agency, template }
+  }
+
+  describe('listFormTemplates', () => {
+    it('should return templates sorted by usage count', async () => {
+      // Arrange
+      const { template: lessUsed } = await insertTemplate({
+        mailName: 'first',
+        useCount: 1,
+      })
+      const { template: moreUsed, agency } = await insertTemplate({
+        mailName: 'second',
+        useCount: 5,
+      })
+
+      // Act
+      const actualResult = await FormTemplateService.listFormTemplates()
+
+      // Assert
+      expect(actualResult.isOk()).toBeTrue()
+      const templates = actualResult._unsafeUnwrap()
+      expect(templates.map(({ _id }) => _id)).toEqual([
+        moreUsed._id.toHexString(),
+        lessUsed._id.toHexString(),
+      ])
+      expect(templates[0]).toMatchObject({
+        formId: String(moreUsed.formId),
+        agency: {
+          shortName: agency.shortName,
+          fullName: agency.fullName,
+          logo: agency.logo,
+        },
+        title: MOCK_PARAMS.title,
+        useCount: 5,
+      })
+    })
+
+    it('should leave out templates whose forms are no longer public', async () => {
+      // Arrange
+      const { template } = await insertTemplate({ mailName: 'first' })
+      await insertTemplate({ mailName: 'second', status: FormStatus.Private })
+
+      // Act
+      const actualResult = await FormTemplateService.listFormTemplates()
+
+      // Assert
+      expect(actualResult._unsafeUnwrap().map(({ _id }) => _id)).toEqual([
+        template._id.toHexString(),
+      ])
+    })
+
+    it('should filter templates by category and search term', async () => {
+      // Arrange
+      const { template } = await insertTemplate({
+        mailName: 'first',
+        category: FormTemplateCategory.Feedback,
+        description: 'Collect feedback (after) the event',
+      })
+      await insertTemplate({
+        mailName: 'second',
+        category: FormTemplateCategory.Feedback,
+      })
+      await insertTemplate({ mailName: 'third' })
+
+      // Act
+      const actualResult = await FormTemplateService.listFormTemplates({
+        category: FormTemplateCategory.Feedback,
+        // Special characters should be matched literally.
+        searchTerm: 'FEEDBACK (AFTER)',
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap().map(({ _id }) => _id)).toEqual([
+        template._id.toHexString(),
+      ])
+    })
+
+    it('should return DatabaseError when error occurs whilst querying database', async () => {
+      // Arrange
+      const mockQuery = {
+        sort: jest.fn().mockReturnThis(),
+        populate: jest.fn().mockReturnThis(),
+        lean: jest.fn().mockReturnThis(),
+        exec: jest.fn().mockRejectedValue(new Error('some error')),
+      }
+      jest
+        .spyOn(FormTemplateModel, 'find')
+        .mockReturnValueOnce(mockQuery as never)
+
+      // Act
+      const actualResult = await FormTemplateService.listFormTemplates()
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(DatabaseError)
+    })
+  })
+
+  describe('publishFormTemplate', () => {
+    it('should publish the form as a template of the agency of the user', async () => {
+      // Arrange
+      const { form, user, agency } = await dbHandler.insertEmailForm({
+        formOptions: { status: FormStatus.Public },
+      })
+
+      // Act
+      const actualResult = await FormTemplateService.publishFormTemplate({
+        form: form as unknown as IPopulatedForm,
+        user: {
+          ...user.toObject(),
+          agency,
+          role: UserRole.AgencyAdmin,
+        } as unknown as IPopulatedUser,
+        params: MOCK_PARAMS,
+      })
+
+      // Assert
+      expect(actualResult.isOk()).toBeTrue()
+      expect(actualResult._unsafeUnwrap().toObject()).toMatchObject({
+        ...MOCK_PARAMS,
+        formId: form._id,
+        agency: agency._id,
+        publishedBy: user._id,
+        useCount: 0,
+      })
+    })
+
+    it('should return MissingAgencyAdminRoleError when the user is not an agency admin', async () => {
+      // Arrange
+      const { form, user, agency } = await dbHandler.insertEmailForm({
+        formOptions: { status: FormStatus.Public },
+      })
+
+      // Act
+      const actualResult = await FormTemplateService.publishFormTemplate({
+        form: form as unknown as IPopulatedForm,
+        user: { ...user.toObject(), agency } as unknown as IPopulatedUser,
+        params: MOCK_PARAMS,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        MissingAgencyAdminRoleError,
+      )
+      await expect(FormTemplateModel.countDocuments()).resolves.toEqual(0)
+    })
+
+    it('should return FormTemplateNotPublicError when the form is private', async () => {
+      // Arrange
+      const { form, user, agency } = await dbHandler.insertEmailForm({
+        formOptions: { status: FormStatus.Private },
+      })
+
+      // Act
+      const actualResult = await FormTemplateService.publishFormTemplate({
+        form: form as unknown as IPopulatedForm,
+        user: {
+          ...user.toObject(),
+          agency,
+          role: UserRole.AgencyAdmin,
+        } as unknown as IPopulatedUser,
+        params: MOCK_PARAMS,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        FormTemplateNotPublicError,
+      )
+      await expect(FormTemplateModel.countDocuments()).resolves.toEqual(0)
+    })
+
+    it('should return FormTemplateAlreadyPublishedError when the form has already been published', async () => {
+      // Arrange
+      const { form, user, agency } = await insertTemplate()
+
+      // Act
+      const actualResult = await FormTemplateService.publishFormTemplate({
+        form: form as unknown as IPopulatedForm,
+        user: {
+          ...user.toObject(),
+          agency,
+          role: UserRole.AgencyAdmin,
+        } as unknown as IPopulatedUser,
+        params: MOCK_PARAMS,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        FormTemplateAlreadyPublishedError,
+      )
+    })
+  })
+
+  describe('updateFormTemplate', () => {
+    it('should update the given fields of the template', async () => {
+      // Arrange
+      const { template } = await insertTemplate()
+
+      // Act
+      const actualResult = await FormTemplateService.updateFormTemplate({
+        templateId: template._id.toHexString(),
+        update: { title: 'New title' },
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap().toObject()).toMatchObject({
+        ...MOCK_PARAMS,
+        title: 'New title',
+      })
+    })
+
+    it('should return FormTemplateNotFoundError when the template does not exist', async () => {
+      // Act
+      const actualResult = await FormTemplateService.updateFormTemplate({
+        templateId: new ObjectId().toHexString(),
+        update: { title: 'New title' },
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        FormTemplateNotFoundError,
+      )
+    })
+  })
+
+  describe('unpublishFormTemplate', () => {
+    it('should remove the template', async () => {
+      // Arrange
+      const { template } = await insertTemplate()
+
+      // Act
+      const actualResult = await FormTemplateService.unpublishFormTemplate(
+        template._id.toHexString(),
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+      await expect(FormTemplateModel.countDocuments()).resolves.toEqual(0)
+    })
+
+    it('should return FormTemplateNotFoundError when the template does not exist', async () => {
+      // Act
+      const actualResult = await FormTemplateService.unpublishFormTemplate(
+        new ObjectId().toHexString(),
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        FormTemplateNotFoundError,
+      )
+    })
+  })
+
+  describe('incrementFormTemplateUseCount', () => {
+    it('should increment the usage count of the template of the form', async () => {
+      // Arrange
+      const { form, template } = await insertTemplate({ useCount: 2 })
+
+      // Act
+      const actualResult =
+        await FormTemplateService.incrementFormTemplateUseCount(
+          form._id.toHexString(),
+        )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+      const updated = await FormTemplateModel.findById(template._id)
+      expect(updated?.useCount).toEqual(3)
+    })
+
+    it('should return false when the form is not a template', async () => {
+      // Act
+      const actualResult =
+        await FormTemplateService.incrementFormTemplateUseCount(
+          new ObjectId().toHexString(),
+        )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(false)
+    })
+
+    it('should return false instead of an error when the database errors', async () => {
+      // Arrange
+      jest.spyOn(FormTemplateModel, 'updateOne').mockImplementationOnce(
+        () =>
+          ({
+            exec: () => Promise.reject(new Error('some error')),
+          } as never),
+      )
+
+      // Act
+      const actualResult =
+        await FormTemplateService.incrementFormTemplateUseCount(
+          new ObjectId().toHexString(),
+        )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(false)
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import { ObjectId } from 'bson'
+
+import {
+  FormResponseMode,
+  FormStatus,
+  FormTemplateCategory,
+} from '../../../../../shared/types'
+import {
+  isFormTemplateAvailable,
+  PopulatedFormTemplate,
+  toFormTemplateDto,
+} from '../form-template.utils'
+
+const MOCK_FORM_ID = new ObjectId()
+const MOCK_TEMPLATE_ID = new ObjectId()
+const MOCK_CREATED = new Date('2023-04-01T00:00:00.000Z')
+const MOCK_LAST_MODIFIED = new Date('2023-04-02T00:00:00.000Z')
+
+const MOCK_TEMPLATE: PopulatedFormTemplate = {
+  _id: MOCK_TEMPLATE_ID,
+  formId: {
+    _id: MOCK_FORM_ID,
+    status: FormStatus.Public,
+    responseMode: FormResponseMode.Encrypt,
+  },
+  agency: {
+    shortName: 'govtest',
+    fullName: 'Government Testing Agency',
+    logo: '/logo.png',
+  },
+  publishedBy: new ObjectId(),
+  title: 'Event registration',
+  description: 'Register attendees for an event',
+  category: FormTemplateCategory.Registration,
+  useCount: 3,
+  created: MOCK_CREATED,
+  lastModified: MOCK_LAST_MODIFIED,
+}
+
+describe('form-template.utils', () => {
+  describe('isFormTemplateAvailable', () => {
+    it('should return true when the form of the template is public', () => {
+      expect(isFormTemplateAvailable(MOCK_TEMPLATE)).toBeTrue()
+    })
+
+    it('should return false when the form of the template is private', () => {
+      const template = {
+        ...MOCK_TEMPLATE,
+        formId: { ...MOCK_TEMPLATE.formId!, status: FormStatus.Private },
+      }
+
+      expect(isFormTemplateAvailable(template)).toBeFalse()
+    })
+
+    it('should return false when the form of the template no longer exists', () => {
+      expect(
+        isFormTemplateAvailable({ ...MOCK_TEMPLATE, formId: null }),
+      ).toBeFalse()
+    })
+  })
+
+  describe('toFormTemplateDto', () => {
+    it('should convert the template into its gallery view', () => {
+      // Act
+      const actual = toFormTemplateDto({
+        ...MOCK_TEMPLATE,
+        formId: MOCK_TEMPLATE.formId!,
+      })
+
+      // Assert
+      expect(actual).toEqual({
+        _id: MOCK_TEMPLATE_ID.toHexString(),
+        formId: MOCK_FORM_ID.toHexString(),
+        agency: MOCK_TEMPLATE.agency,
+        responseMode: FormResponseMode.Encrypt,
+        title: MOCK_TEMPLATE.title,
+        description: MOCK_TEMPLATE.description,
+        category: FormTemplateCategory.Registration,
+        useCount: 3,
+        created: MOCK_CREATED.toISOString(),
+        lastModified: MOCK_LAST_MODIFIED.toISOString(),
+      })
+    })
+  })
+})
@@ -0,0 +1,19 @@
+import { ApplicationError } from '../core/core.errors'
+
+export class FormTemplateNotFoundError extends ApplicationError {
+  constructor(message = 'Template not found') {
+    super(message)
+  }
+}
+
+export class FormTemplateAlreadyPublishedError extends ApplicationError {
+  constructor(message = 'This form has already been published as a template') {
+    super(message)
+  }
+}
+
+export class FormTemplateNotPublicError extends ApplicationError {
+  constructor(message = 'Only public forms can be published as templates') {
+    super(message)
+  }
+}
@@ -0,0 +1,295 @@
+import { escapeRegExp } from 'lodash'
+import mongoose, { FilterQuery } from 'mongoose'
+import { errAsync, okAsync, ResultAsync } from 'neverthrow'
+
+import {
+  FormStatus,
+  FormTemplateDto,
+  FormTemplateQueryDto,
+  PublishFormTemplateBodyDto,
+  UpdateFormTemplateBodyDto,
+} from '../../../../shared/types'
+import {
+  IFormTemplateSchema,
+  IPopulatedForm,
+  IPopulatedUser,
+} from '../../../types'
+import { createLoggerWithLabel } from '../../config/logger'
+import getFormTemplateModel from '../../models/form_template.server.model'
+import { getMongoErrorMessage } from '../../utils/handle-mongo-error'
+import { MissingAgencyAdminRoleError } from '../auth/auth.errors'
+import { DatabaseError } from '../core/core.errors'
+import { isAgencyAdminOf } from '../user/user.utils'
+
+import {
+  FormTemplateAlreadyPublishedError,
+  FormTemplateNotFoundError,
+  FormTemplateNotPublicError,
+} from './form-template.errors'
+import {
+  isFormTemplateAvailable,
+  PopulatedFormTemplate,
+  toFormTemplateDto,
+} from './form-template.utils'
+
+const logger = createLoggerWithLabel(module)
+
+const FormTemplateModel = getFormTemplateModel(mongoose)
+
+/**
+ * Retrieves the templates in the templates gallery, most used first. Templates
+ * whose forms are no longer public are left out, as they cannot be used.
+ * @param category the category to filter templates by, if any
+ * @param searchTerm the text to search the title and description of templates for, if any
+ * @returns ok(templates) matching the filters
+ * @returns err(DatabaseError) if database query errors
+ */
+export const listFormTemplates = ({
+  category,
+  searchTerm,
+}: FormTemplateQueryDto = {}): ResultAsync<
+  FormTemplateDto[],
+  DatabaseError
+> => {
+  const filter: FilterQuery<IFormTemplateSchema> = {}
+  if (category) {
+    filter.category = category
+  }
+  if (searchTerm) {
+    const searchRegex = new RegExp(escapeRegExp(searchTerm), 'i')
+    filter.$or = [{ title: searchRegex }, { description: searchRegex }]
+  }
+
+  return ResultAsync.fromPromise(
+    FormTemplateModel.find(filter)
+      .sort({ useCount: -1, created: -1 })
+      .populate('agency', 'shortName fullName logo')
+      .populate('formId', 'status responseMode')
+      .lean()
+      .exec() as Promise<PopulatedFormTemplate[]>,
+    (error) => {
+      logger.error({
+        message: 'Error retrieving form templates from database',
+        meta: {
+          action: 'listFormTemplates',
+          category,
+          searchTerm,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).map((templates) =>
+    templates.filter(isFormTemplateAvailable).map(toFormTemplateDto),
+  )
+}
+
+/**
+ * Retrieves the template of the given id.
+ * @param templateId the id of the template to retrieve
+ * @returns ok(template) if the template exists
+ * @returns err(FormTemplateNotFoundError) if the template does not exist
+ * @returns err(DatabaseError) if database query errors
+ */
+export const getFormTemplateById = (
+  templateId: string,
+): ResultAsync<
+  IFormTemplateSchema,
+  FormTemplateNotFoundError | DatabaseError
+> => {
+  return ResultAsync.fromPromise(
+    FormTemplateModel.findById(templateId).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error retrieving form template from database',
+        meta: {
+          action: 'getFormTemplateById',
+          templateId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((template) =>
+    template ? okAsync(template) : errAsync(new FormTemplateNotFoundError()),
+  )
+}
+
+/**
+ * Publishes the given form to the templates gallery on behalf of the agency
+ * of the given user. Only agency admins may publish templates, so that every
+ * template in the gallery has been vetted by its agency.
+ * @param form the form to publish as a template
+ * @param user the user publishing the template
+ * @param params the title, description and category of the template
+ * @returns ok(template) if the template was published
+ * @returns err(MissingAgencyAdminRoleError) if the user is not an agency admin of their agency
+ * @returns err(FormTemplateNotPublicError) if the form is not public
+ * @returns err(FormTemplateAlreadyPublishedError) if the form has already been published as a template
+ * @returns err(DatabaseError) if database errors occur
+ */
+export const publishFormTemplate = ({
+  form,
+  user,
+  params: { title, description, category },
+}: {
+  form: IPopulatedForm
+  user: IPopulatedUser
+  params: Omit<PublishFormTemplateBodyDto, 'formId'>
+}): ResultAsync<
+  IFormTemplateSchema,
+  | MissingAgencyAdminRoleError
+  | FormTemplateNotPublicError
+  | FormTemplateAlreadyPublishedError
+  | DatabaseError
+> => {
+  if (!isAgencyAdminOf(user, user.agency)) {
+    return errAsync(new MissingAgencyAdminRoleError())
+  }
+  // Templates are copied with the same checks as the use template flow, which
+  // requires the form to be public.
+  if (form.status !== FormStatus.Public) {
+    return errAsync(new FormTemplateNotPublicError())
+  }
+
+  const logMeta = {
+    action: 'publishFormTemplate',
+    formId: form._id,
+    userId: user._id,
+  }
+
+  return ResultAsync.fromPromise(
+    FormTemplateModel.exists({ formId: form._id }),
+    (error) => {
+      logger.error({
+        message: 'Error checking for existing form template',
+        meta: logMeta,
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((isPublished) => {
+    if (isPublished) {
+      return errAsync(new FormTemplateAlreadyPublishedError())
+    }
+    return ResultAsync.fromPromise(
+      FormTemplateModel.create({
+        formId: form._id,
+        agency: user.agency._id,
+        publishedBy: user._id,
+        title,
+        description,
+        category,
+      }),
+      (error) => {
+        logger.error({
+          message: 'Error publishing form template',
+          meta: logMeta,
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      },
+    )
+  })
+}
+
+/**
+ * Updates the title, description or category of the given template.
+ * @param templateId the id of the template to update
+ * @param update the fields of the template to update
+ * @returns ok(template) the updated template
+ * @returns err(FormTemplateNotFoundError) if the template does not exist
+ * @returns err(DatabaseError) if database errors occur
+ */
+export const updateFormTemplate = ({
+  templateId,
+  update,
+}: {
+  templateId: string
+  update: UpdateFormTemplateBodyDto
+}): ResultAsync<
+  IFormTemplateSchema,
+  FormTemplateNotFoundError | DatabaseError
+> => {
+  return ResultAsync.fromPromise(
+    FormTemplateModel.findByIdAndUpdate(
+      templateId,
+      { $set: update },
+      { new: true, runValidators: true },
+    ).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error updating form template',
+        meta: {
+          action: 'updateFormTemplate',
+          templateId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((template) =>
+    template ? okAsync(template) : errAsync(new FormTemplateNotFoundError()),
+  )
+}
+
+/**
+ * Removes the given template from the templates gallery.
+ * @param templateId the id of the template to unpublish
+ * @returns ok(true) if the template was unpublished
+ * @returns err(FormTemplateNotFoundError) if the template does not exist
+ * @returns err(DatabaseError) if database errors occur
+ */
+export const unpublishFormTemplate = (
+  templateId: string,
+): ResultAsync<true, FormTemplateNotFoundError | DatabaseError> => {
+  return ResultAsync.fromPromise(
+    FormTemplateModel.findByIdAndDelete(templateId).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error unpublishing form template',
+        meta: {
+          action: 'unpublishFormTemplate',
+          templateId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((template) =>
+    template
+      ? okAsync(true as const)
+      : errAsync(new FormTemplateNotFoundError()),
+  )
+}
+
+/**
+ * Increments the usage count of the template of the given form, if the form
+ * has been published as a template.
+ * As the usage count is only informational, failures are logged and not
+ * returned to the caller, so that creating a form from the template still
+ * succeeds.
+ * @param formId the id of the form that was used as a template
+ * @returns ok(true) if the usage count of a template was incremented
+ * @returns ok(false) if the form is not a template, or the usage count could not be updated
+ */
+export const incrementFormTemplateUseCount = (
+  formId: string,
+): ResultAsync<boolean, never> => {
+  return ResultAsync.fromPromise(
+    FormTemplateModel.updateOne({ formId }, { $inc: { useCount: 1 } }).exec(),
+    (error) => error,
+  )
+    .map(({ nModified }) => nModified > 0)
+    .orElse((error) => {
+      logger.warn({
+        message: 'Failed to increment form template usage count',
+        meta: {
+          action: 'incrementFormTemplateUseCount',
+          formId,
+        },
+        error,
+      })
+      return okAsync(false)
+    })
+}
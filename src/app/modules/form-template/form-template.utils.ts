@@ -0,0 +1,61 @@
+import {
+  DateString,
+  FormStatus,
+  FormTemplateDto,
+  PublicAgencyDto,
+} from '../../../../shared/types'
+import { IFormSchema, IFormTemplate } from '../../../types'
+
+export type PopulatedFormTemplate = Omit<IFormTemplate, 'agency' | 'formId'> & {
+  _id: unknown
+  agency: Pick<PublicAgencyDto, 'shortName' | 'fullName' | 'logo'>
+  // Null when the form of the template no longer exists.
+  formId: Pick<IFormSchema, '_id' | 'status' | 'responseMode'> | null
+  created: Date
+  lastModified: Date
+}
+
+/**
+ * Checks whether the template can still be used, i.e. whether its form is
+ * still public.
+ * @param template the template with its form populated
+ */
+export const isFormTemplateAvailable = (
+  template: PopulatedFormTemplate,
+): template is PopulatedFormTemplate & {
+  formId: NonNullable<PopulatedFormTemplate['formId']>
+} => template.formId?.status === FormStatus.Public
+
+/**
+ * Converts a template with its form and agency populated into the shape
+ * shown in the templates gallery.
+ * @param template the available template to convert
+ */
+export const toFormTemplateDto = ({
+  _id,
+  formId: form,
+  agency,
+  title,
+  description,
+  category,
+  useCount,
+  created,
+  lastModified,
+}: PopulatedFormTemplate & {
+  formId: NonNullable<PopulatedFormTemplate['formId']>
+}): FormTemplateDto => ({
+  _id: String(_id),
+  formId: String(form._id),
+  agency: {
+    shortName: agency.shortName,
+    fullName: agency.fullName,
+    logo: agency.logo,
+  },
+  responseMode: form.responseMode,
+  title,
+  description,
+  category,
+  useCount,
+  created: created.toISOString() as DateString,
+  lastModified: lastModified.toISOString() as DateString,
+})
@@ -457,6 +457,80 @@ describe('FormService', () => {
     })
   })
 
+  describe('checkFormIsWithinSchedule', () => {
+    const NOW = new Date('2023-06-01T12:00:00Z')
+    const BEFORE = new Date('2023-06-01T11:00:00Z')
+    const AFTER = new Date('2023-06-01T13:00:00Z')
+
+    it('should return the form when it has no schedule', () => {
+      // Arrange
+      const form = {
+        _id: new ObjectId(),
+        opensAt: null,
+        closesAt: null,
+      } as IPopulatedForm
+
+      // Act
+      const actual = FormService.checkFormIsWithinSchedule(form, NOW)
+
+      // Assert
+      expect(actual._unsafeUnwrap()).toEqual(form)
+    })
+
+    it('should return the form when it is within its schedule', () => {
+      // Arrange
+      const form = {
+        _id: new ObjectId(),
+        opensAt: NOW,
+        closesAt: AFTER,
+      } as IPopulatedForm
+
+      // Act
+      const actual = FormService.checkFormIsWithinSchedule(form, NOW)
+
+      // Assert
+      expect(actual._unsafeUnwrap()).toEqual(form)
+    })
+
+    it('should return PrivateFormError when form has yet to open', () => {
+      // Arrange
+      const form = {
+        _id: new ObjectId(),
+        title: 'test form',
+        inactiveMessage: 'test inactive message',
+        opensAt: AFTER,
+        closesAt: null,
+      } as IPopulatedForm
+
+      // Act
+      const actual = FormService.checkFormIsWithinSchedule(form, NOW)
+
+      // Assert
+      expect(actual._unsafeUnwrapErr()).toEqual(
+        new PrivateFormError(form.inactiveMessage, form.title),
+      )
+    })
+
+    it('should return PrivateFormError when form has closed', () => {
+      // Arrange
+      const form = {
+        _id: new ObjectId(),
+        title: 'test form',
+        inactiveMessage: 'test inactive message',
+        opensAt: null,
+        closesAt: BEFORE,
+      } as IPopulatedForm
+
+      // Act
+      const actual = FormService.checkFormIsWithinSchedule(form, NOW)
+
+      // Assert
+      expect(actual._unsafeUnwrapErr()).toEqual(
+        new PrivateFormError(form.inactiveMessage, form.title),
+      )
+    })
+  })
+
   describe('retrievePublicFormsWithSmsVerification', () => {
     it('should call the db method successfully', async () => {
       // Arrange
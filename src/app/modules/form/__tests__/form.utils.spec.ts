@@ -4,11 +4,21 @@ import { Types } from 'mongoose'
 
 import { FormFieldSchema } from 'src/types'
 
-import { BasicField, FormPermission } from '../../../../../shared/types'
+import { WEBHOOK_HEADER_VALUE_MASK } from '../../../../../shared/constants/webhook'
+import {
+  BasicField,
+  FormAuthType,
+  FormPaymentsChannel,
+  FormPaymentsField,
+  FormPermission,
+  PaymentChannel,
+} from '../../../../../shared/types'
 import {
   getCollabEmailsWithPermission,
   getFormFieldById,
   getFormFieldIndexById,
+  getFormPublishError,
+  getWebhookView,
 } from '../form.utils'
 
 const MOCK_EMAIL_1 = 'a@abc.com'
@@ -155,4 +165,66 @@ describe('form.utils', () => {
       expect(result).toEqual(null)
     })
   })
+
+  describe('getFormPublishError', () => {
+    it('should return null when the form can be published', () => {
+      expect(
+        getFormPublishError({ authType: FormAuthType.SP, esrvcId: 'id' }),
+      ).toEqual(null)
+      expect(getFormPublishError({ authType: FormAuthType.NIL })).toEqual(null)
+    })
+
+    it('should return an error when an authenticated form has no e-service ID', () => {
+      expect(getFormPublishError({ authType: FormAuthType.CP })).toEqual(
+        expect.stringContaining('e-service ID'),
+      )
+    })
+
+    it('should return an error when a form with payments has no payment account', () => {
+      expect(
+        getFormPublishError({
+          authType: FormAuthType.NIL,
+          payments_field: { enabled: true } as FormPaymentsField,
+          payments_channel: {
+            channel: PaymentChannel.Unconnected,
+          } as FormPaymentsChannel,
+        }),
+      ).toEqual(expect.stringContaining('payment account'))
+    })
+  })
+
+  describe('getWebhookView', () => {
+    it('should leave out secrets and mask header values of all endpoints', () => {
+      const endpointId = new ObjectId().toHexString()
+
+      expect(
+        getWebhookView({
+          url: 'https://example.com/webhook',
+          isRetryEnabled: true,
+          hmacSecret: 'secret',
+          headers: [{ name: 'Authorization', value: 'Bearer token' }],
+          additionalEndpoints: [
+            {
+              _id: endpointId,
+              url: 'https://example.com/other',
+              isRetryEnabled: false,
+            },
+          ],
+        }),
+      ).toEqual({
+        url: 'https://example.com/webhook',
+        isRetryEnabled: true,
+        hasHmacSecret: true,
+        headers: [{ name: 'Authorization', value: WEBHOOK_HEADER_VALUE_MASK }],
+        additionalEndpoints: [
+          {
+            _id: endpointId,
+            url: 'https://example.com/other',
+            isRetryEnabled: false,
+            hasHmacSecret: false,
+          },
+        ],
+      })
+    })
+  })
 })
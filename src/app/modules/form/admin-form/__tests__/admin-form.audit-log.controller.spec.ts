@@ -0,0 +1,205 @@
+import { ObjectId } from 'bson-ext'
+import { StatusCodes } from 'http-status-codes'
+import { errAsync, okAsync } from 'neverthrow'
+
+import expressHandler from '../../../../../../__tests__/unit/backend/helpers/jest-express'
+import { FormAuditAction, FormStatus } from '../../../../../../shared/types'
+import { IPopulatedForm, IPopulatedUser } from '../../../../../types'
+import * as AuthService from '../../../auth/auth.service'
+import { DatabaseError } from '../../../core/core.errors'
+import * as FormAuditLogService from '../../../form-audit-log/form-audit-log.service'
+import { PopulatedFormAuditLog } from '../../../form-audit-log/form-audit-log.types'
+import * as UserService from '../../../user/user.service'
+import { ForbiddenFormError } from '../../form.errors'
+import * as AdminFormAuditLogController from '../admin-form.audit-log.controller'
+import { PermissionLevel } from '../admin-form.types'
+
+jest.mock('../../../user/user.service')
+const MockUserService = jest.mocked(UserService)
+jest.mock('src/app/modules/auth/auth.service')
+const MockAuthService = jest.mocked(AuthService)
+jest.mock('src/app/modules/form-audit-log/form-audit-log.service')
+const MockFormAuditLogService = jest.mocked(FormAuditLogService)
+
+const MOCK_USER_ID = new ObjectId()
+const MOCK_USER = {
+  _id: MOCK_USER_ID,
+  email: 'notarealuser@example.com',
+} as IPopulatedUser
+const MOCK_FORM_ID = new ObjectId().toHexString()
+const MOCK_FORM = {
+  admin: MOCK_USER,
+  _id: MOCK_FORM_ID,
+  title: 'form title',
+} as IPopulatedForm
+const MOCK_AUDIT_LOG_ID = new ObjectId()
+const MOCK_AUDIT_LOG = {
+  _id: MOCK_AUDIT_LOG_ID,
+  form: MOCK_FORM_ID,
+  actor: { _id: MOCK_USER_ID, email: MOCK_USER.email },
+  action: FormAuditAction.UpdateSettings,
+  before: { status: FormStatus.Private },
+  after: { status: FormStatus.Public },
+  created: new Date('2023-01-10T04:05:06.000Z'),
+} as unknown as PopulatedFormAuditLog
+const MOCK_SESSION = { user: { _id: MOCK_USER_ID } }
+
+describe('admin-form.audit-log.controller', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    MockUserService.getPopulatedUserById.mockReturnValue(okAsync(MOCK_USER))
+  })
+
+  describe('handleListFormAuditLogs', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID },
+      query: { page: 2, pageSize: 5 },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the requested page of the audit log', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormAuditLogService.listFormAuditLogs.mockReturnValueOnce(
+        okAsync({ auditLogs: [MOCK_AUDIT_LOG], count: 6 }),
+      )
+
+      // Act
+      await AdminFormAuditLogController.handleListFormAuditLogsForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockAuthService.getFormAfterPermissionChecks).toHaveBeenCalledWith(
+        {
+          user: MOCK_USER,
+          formId: MOCK_FORM_ID,
+          level: PermissionLevel.Read,
+        },
+      )
+      expect(MockFormAuditLogService.listFormAuditLogs).toHaveBeenCalledWith(
+        MOCK_FORM_ID,
+        { page: 2, pageSize: 5 },
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        auditLogs: [
+          {
+            _id: String(MOCK_AUDIT_LOG_ID),
+            form: MOCK_FORM_ID,
+            action: FormAuditAction.UpdateSettings,
+            actor: MOCK_USER.email,
+            targetId: undefined,
+            before: { status: FormStatus.Private },
+            after: { status: FormStatus.Public },
+            created: '2023-01-10T04:05:06.000Z',
+          },
+        ],
+        count: 6,
+      })
+    })
+
+    it('should return 403 when user does not have permissions to view the form', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        errAsync(new ForbiddenFormError('not a collaborator')),
+      )
+
+      // Act
+      await AdminFormAuditLogController.handleListFormAuditLogsForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+      expect(MockFormAuditLogService.listFormAuditLogs).not.toHaveBeenCalled()
+    })
+
+    it('should return 500 when database error occurs', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormAuditLogService.listFormAuditLogs.mockReturnValueOnce(
+        errAsync(new DatabaseError()),
+      )
+
+      // Act
+      await AdminFormAuditLogController.handleListFormAuditLogsForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      )
+    })
+  })
+
+  describe('handleDownloadFormAuditLogs', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the audit log as a CSV file', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormAuditLogService.getAllFormAuditLogs.mockReturnValueOnce(
+        okAsync([MOCK_AUDIT_LOG]),
+      )
+
+      // Act
+      await AdminFormAuditLogController.handleDownloadFormAuditLogs(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.set).toHaveBeenCalledWith({
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename=${MOCK_FORM_ID}-audit-log.csv`,
+      })
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.send).toHaveBeenCalledWith(
+        expect.stringContaining(
+          `2023-01-10 12:05:06,${MOCK_USER.email},UPDATE_SETTINGS,,status,PRIVATE,PUBLIC`,
+        ),
+      )
+    })
+
+    it('should return 403 when user does not have permissions to view the form', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        errAsync(new ForbiddenFormError('not a collaborator')),
+      )
+
+      // Act
+      await AdminFormAuditLogController.handleDownloadFormAuditLogs(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+      expect(mockRes.send).not.toHaveBeenCalled()
+    })
+  })
+})
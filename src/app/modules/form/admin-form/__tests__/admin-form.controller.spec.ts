@@ -6,12 +6,15 @@ import {
 } from '__tests__/unit/backend/helpers/generate-form-data'
 import expressHandler from '__tests__/unit/backend/helpers/jest-express'
 import { PresignedPost } from 'aws-sdk/clients/s3'
+import axios from 'axios'
 import { ObjectId } from 'bson-ext'
 import { StatusCodes } from 'http-status-codes'
 import { assignIn, cloneDeep, merge, pick } from 'lodash'
+import mongoose from 'mongoose'
 import { err, errAsync, ok, okAsync, Result } from 'neverthrow'
 import { PassThrough } from 'stream'
 
+import { getEncryptedFormModel } from 'src/app/models/form.server.model'
 import * as AuthService from 'src/app/modules/auth/auth.service'
 import {
   DatabaseConflictError,
@@ -20,6 +23,8 @@ import {
   DatabaseValidationError,
 } from 'src/app/modules/core/core.errors'
 import * as FeedbackService from 'src/app/modules/feedback/feedback.service'
+import * as FormAuditLogService from 'src/app/modules/form-audit-log/form-audit-log.service'
+import * as FormTemplateService from 'src/app/modules/form-template/form-template.service'
 import {
   AttachmentTooLargeError,
   InvalidFileExtensionError,
@@ -71,8 +76,10 @@ import {
   DuplicateFormBodyDto,
   FieldCreateDto,
   FieldUpdateDto,
+  FormAuditAction,
   FormAuthType,
   FormFeedbackMetaDto,
+  FormPermissionScope,
   FormResponseMode,
   FormSettings,
   FormStatus,
@@ -105,6 +112,10 @@ jest.mock('src/app/modules/auth/auth.service')
 const MockAuthService = jest.mocked(AuthService)
 jest.mock('src/app/modules/feedback/feedback.service')
 const MockFeedbackService = jest.mocked(FeedbackService)
+jest.mock('src/app/modules/form-audit-log/form-audit-log.service')
+const MockFormAuditLogService = jest.mocked(FormAuditLogService)
+jest.mock('src/app/modules/form-template/form-template.service')
+const MockFormTemplateService = jest.mocked(FormTemplateService)
 jest.mock('src/app/modules/submission/submission.service')
 const MockSubmissionService = jest.mocked(SubmissionService)
 jest.mock(
@@ -142,8 +153,13 @@ const MockMailService = jest.mocked(MailService)
 jest.mock('../../../../services/sms/sms.service')
 const MockSmsService = jest.mocked(SmsService)
 
+const EncryptedFormModel = getEncryptedFormModel(mongoose)
+
 describe('admin-form.controller', () => {
-  beforeEach(() => jest.clearAllMocks())
+  beforeEach(() => {
+    jest.clearAllMocks()
+    MockFormAuditLogService.createFormAuditLog.mockReturnValue(okAsync(true))
+  })
 
   describe('handleListDashboardForms', () => {
     const MOCK_REQ = expressHandler.mockRequest({
@@ -447,6 +463,51 @@ describe('admin-form.controller', () => {
       expect(mockRes.json).toHaveBeenCalledWith({ form: MOCK_FORM })
     })
 
+    it('should return 200 without webhook secrets or header values', async () => {
+      // Arrange
+      const mockForm = new EncryptedFormModel({
+        _id: MOCK_FORM_ID,
+        admin: MOCK_USER_ID,
+        title: 'mock title',
+        publicKey: 'some public key',
+        webhook: {
+          url: 'https://example.com/webhook',
+          hmacSecret: 'primary hmac secret',
+          headers: [{ name: 'Authorization', value: 'primary header value' }],
+          additionalEndpoints: [
+            {
+              url: 'https://example.com/other',
+              hmacSecret: 'additional hmac secret',
+              headers: [
+                { name: 'X-Api-Key', value: 'additional header value' },
+              ],
+            },
+          ],
+        },
+      })
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(mockForm as unknown as IPopulatedForm),
+      )
+
+      // Act
+      await AdminFormController.handleGetAdminForm(MOCK_REQ, mockRes, jest.fn())
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      // Serialise the response body as res.json would.
+      const body = JSON.stringify(jest.mocked(mockRes.json).mock.calls[0][0])
+      expect(body).toContain('https://example.com/webhook')
+      expect(body).toContain('Authorization')
+      expect(body).not.toContain('primary hmac secret')
+      expect(body).not.toContain('primary header value')
+      expect(body).not.toContain('additional hmac secret')
+      expect(body).not.toContain('additional header value')
+    })
+
     it('should return 403 when ForbiddenFormError is returned when verifying user permissions', async () => {
       // Arrange
       const expectedErrorString = 'no read access'
@@ -2438,6 +2499,8 @@ describe('admin-form.controller', () => {
           },
         ],
         average: '5.00',
+        ratingDistribution: [{ rating: 5, count: 212 }],
+        ratingTrend: [{ date: '2023-01-01', count: 212, average: '5.00' }],
       }
       // Mock success on all service invocations.
       MockUserService.getPopulatedUserById.mockReturnValueOnce(
@@ -2451,7 +2514,7 @@ describe('admin-form.controller', () => {
       )
 
       // Act
-      await AdminFormController.handleGetFormFeedback(
+      await AdminFormController.handleGetFormFeedbackForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -2471,7 +2534,51 @@ describe('admin-form.controller', () => {
       )
       expect(MockFeedbackService.getFormFeedbacks).toHaveBeenCalledWith(
         MOCK_FORM_ID,
+        {},
+      )
+    })
+
+    it('should retrieve feedback with the filters in the query', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockReq = expressHandler.mockRequest({
+        params: { formId: MOCK_FORM_ID },
+        query: { startDate: '2023-01-01', endDate: '2023-01-31', rating: 4 },
+        session: { user: { _id: MOCK_USER_ID } },
+      })
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFeedbackService.getFormFeedbacks.mockReturnValueOnce(
+        okAsync({
+          count: 0,
+          feedback: [],
+          ratingDistribution: [],
+          ratingTrend: [],
+        }),
+      )
+
+      // Act
+      await AdminFormController.handleGetFormFeedbackForTest(
+        mockReq,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockFeedbackService.getFormFeedbacks).toHaveBeenCalledWith(
+        MOCK_FORM_ID,
+        { startDate: '2023-01-01', endDate: '2023-01-31', rating: 4 },
       )
+      expect(mockRes.json).toHaveBeenCalledWith({
+        count: 0,
+        feedback: [],
+        ratingDistribution: [],
+        ratingTrend: [],
+      })
     })
 
     it('should return 403 when user does not have permissions to access form', async () => {
@@ -2486,7 +2593,7 @@ describe('admin-form.controller', () => {
       )
 
       // Act
-      await AdminFormController.handleGetFormFeedback(
+      await AdminFormController.handleGetFormFeedbackForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -2520,7 +2627,7 @@ describe('admin-form.controller', () => {
       )
 
       // Act
-      await AdminFormController.handleGetFormFeedback(
+      await AdminFormController.handleGetFormFeedbackForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -2554,7 +2661,7 @@ describe('admin-form.controller', () => {
       )
 
       // Act
-      await AdminFormController.handleGetFormFeedback(
+      await AdminFormController.handleGetFormFeedbackForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -2585,7 +2692,7 @@ describe('admin-form.controller', () => {
       )
 
       // Act
-      await AdminFormController.handleGetFormFeedback(
+      await AdminFormController.handleGetFormFeedbackForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -2612,7 +2719,7 @@ describe('admin-form.controller', () => {
       )
 
       // Act
-      await AdminFormController.handleGetFormFeedback(
+      await AdminFormController.handleGetFormFeedbackForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -2642,7 +2749,7 @@ describe('admin-form.controller', () => {
       )
 
       // Act
-      await AdminFormController.handleGetFormFeedback(
+      await AdminFormController.handleGetFormFeedbackForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -2680,7 +2787,7 @@ describe('admin-form.controller', () => {
       )
 
       // Act
-      await AdminFormController.handleGetFormFeedback(
+      await AdminFormController.handleGetFormFeedbackForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -2701,6 +2808,7 @@ describe('admin-form.controller', () => {
       )
       expect(MockFeedbackService.getFormFeedbacks).toHaveBeenCalledWith(
         MOCK_FORM_ID,
+        {},
       )
     })
   })
@@ -3478,6 +3586,9 @@ describe('admin-form.controller', () => {
       MockAdminFormService.duplicateForm.mockReturnValueOnce(
         okAsync(mockDupedForm),
       )
+      MockFormTemplateService.incrementFormTemplateUseCount.mockReturnValueOnce(
+        okAsync(true),
+      )
 
       // Act
       await AdminFormController.handleCopyTemplateForm(
@@ -3497,6 +3608,9 @@ describe('admin-form.controller', () => {
         MOCK_USER_ID,
         expectedParams,
       )
+      expect(
+        MockFormTemplateService.incrementFormTemplateUseCount,
+      ).toHaveBeenCalledWith(MOCK_FORM_ID)
     })
 
     it('should return 403 when form is private', async () => {
@@ -4479,7 +4593,8 @@ describe('admin-form.controller', () => {
       admin: MOCK_USER,
       _id: MOCK_FORM_ID,
       title: 'mock title',
-    } as IPopulatedForm
+      getSettings: jest.fn().mockReturnValue({ status: FormStatus.Public }),
+    } as unknown as IPopulatedForm
 
     const MOCK_REQ = expressHandler.mockRequest({
       params: {
@@ -4545,6 +4660,13 @@ describe('admin-form.controller', () => {
         MOCK_FORM,
         MOCK_REQ.body,
       )
+      expect(MockFormAuditLogService.createFormAuditLog).toHaveBeenCalledWith({
+        formId: MOCK_FORM_ID,
+        actorId: MOCK_USER_ID,
+        action: FormAuditAction.UpdateSettings,
+        before: { status: FormStatus.Public },
+        after: mockUpdatedSettings,
+      })
     })
 
     it('should return 403 when current user does not have permissions to update form settings', async () => {
@@ -4876,6 +4998,9 @@ describe('admin-form.controller', () => {
           _id: MOCK_USER_ID,
         },
       },
+      others: {
+        formPermissionScope: FormPermissionScope.Settings,
+      },
     })
 
     it('should return 200 with settings', async () => {
@@ -4912,6 +5037,7 @@ describe('admin-form.controller', () => {
       )
       expect(MockAuthService.checkFormForPermissions).toHaveBeenCalledWith(
         PermissionLevel.Read,
+        FormPermissionScope.Settings,
       )
       expect(adminCheck).toHaveBeenCalledWith({
         user: MOCK_USER,
@@ -4952,6 +5078,7 @@ describe('admin-form.controller', () => {
       )
       expect(MockAuthService.checkFormForPermissions).toHaveBeenCalledWith(
         PermissionLevel.Read,
+        FormPermissionScope.Settings,
       )
       expect(adminCheck).toHaveBeenCalledWith({
         user: MOCK_USER,
@@ -4991,6 +5118,7 @@ describe('admin-form.controller', () => {
       )
       expect(MockAuthService.checkFormForPermissions).toHaveBeenCalledWith(
         PermissionLevel.Read,
+        FormPermissionScope.Settings,
       )
       expect(adminCheck).not.toHaveBeenCalled()
     })
@@ -5023,6 +5151,7 @@ describe('admin-form.controller', () => {
       )
       expect(MockAuthService.checkFormForPermissions).toHaveBeenCalledWith(
         PermissionLevel.Read,
+        FormPermissionScope.Settings,
       )
       expect(adminCheck).not.toHaveBeenCalled()
     })
@@ -5055,6 +5184,7 @@ describe('admin-form.controller', () => {
       )
       expect(MockAuthService.checkFormForPermissions).toHaveBeenCalledWith(
         PermissionLevel.Read,
+        FormPermissionScope.Settings,
       )
       expect(adminCheck).not.toHaveBeenCalled()
     })
@@ -5087,6 +5217,7 @@ describe('admin-form.controller', () => {
       )
       expect(MockAuthService.checkFormForPermissions).toHaveBeenCalledWith(
         PermissionLevel.Read,
+        FormPermissionScope.Settings,
       )
       expect(adminCheck).not.toHaveBeenCalled()
     })
@@ -5214,7 +5345,12 @@ describe('admin-form.controller', () => {
       )
       expect(
         MockEmailSubmissionService.createEmailSubmissionWithoutSave,
-      ).toHaveBeenCalledWith(MOCK_FORM, expect.any(String), expect.any(String))
+      ).toHaveBeenCalledWith(
+        MOCK_FORM,
+        expect.any(String),
+        expect.any(String),
+        undefined,
+      )
       expect(
         MockEmailSubmissionService.extractEmailAnswers,
       ).toHaveBeenCalledWith(MOCK_PARSED_RESPONSES)
@@ -5927,7 +6063,12 @@ describe('admin-form.controller', () => {
       )
       expect(
         MockEmailSubmissionService.createEmailSubmissionWithoutSave,
-      ).toHaveBeenCalledWith(MOCK_FORM, expect.any(String), expect.any(String))
+      ).toHaveBeenCalledWith(
+        MOCK_FORM,
+        expect.any(String),
+        expect.any(String),
+        undefined,
+      )
       expect(
         MockEmailSubmissionService.extractEmailAnswers,
       ).toHaveBeenCalledWith(MOCK_PARSED_RESPONSES)
@@ -5992,7 +6133,12 @@ describe('admin-form.controller', () => {
       )
       expect(
         MockEmailSubmissionService.createEmailSubmissionWithoutSave,
-      ).toHaveBeenCalledWith(MOCK_FORM, expect.any(String), expect.any(String))
+      ).toHaveBeenCalledWith(
+        MOCK_FORM,
+        expect.any(String),
+        expect.any(String),
+        undefined,
+      )
       expect(
         MockEmailSubmissionService.extractEmailAnswers,
       ).toHaveBeenCalledWith(MOCK_PARSED_RESPONSES)
@@ -6057,7 +6203,12 @@ describe('admin-form.controller', () => {
       )
       expect(
         MockEmailSubmissionService.createEmailSubmissionWithoutSave,
-      ).toHaveBeenCalledWith(MOCK_FORM, expect.any(String), expect.any(String))
+      ).toHaveBeenCalledWith(
+        MOCK_FORM,
+        expect.any(String),
+        expect.any(String),
+        undefined,
+      )
       expect(
         MockEmailSubmissionService.extractEmailAnswers,
       ).toHaveBeenCalledWith(MOCK_PARSED_RESPONSES)
@@ -10436,6 +10587,13 @@ describe('admin-form.controller', () => {
       })
       expect(createTwilioSpy).toHaveBeenCalledTimes(1)
       expect(updateTwilioSpy).not.toHaveBeenCalled()
+      expect(MockFormAuditLogService.createFormAuditLog).toHaveBeenCalledWith({
+        formId: MOCK_FORM_ID,
+        actorId: 'exists',
+        action: FormAuditAction.UpdateTwilio,
+        before: { twilioCredentials: undefined },
+        after: { twilioCredentials: '[changed]' },
+      })
     })
 
     it('should return 200 after the twilio credentials are successfully updated', async () => {
@@ -10477,6 +10635,16 @@ describe('admin-form.controller', () => {
       })
       expect(updateTwilioSpy).toHaveBeenCalledTimes(1)
       expect(createTwilioSpy).not.toHaveBeenCalled()
+      expect(MockFormAuditLogService.createFormAuditLog).toHaveBeenCalledWith({
+        formId: MOCK_FORM_ID,
+        actorId: 'exists',
+        action: FormAuditAction.UpdateTwilio,
+        before: { twilioCredentials: '[set]' },
+        after: { twilioCredentials: '[changed]' },
+      })
+      expect(
+        JSON.stringify(MockFormAuditLogService.createFormAuditLog.mock.calls),
+      ).not.toContain(MOCK_API_KEY_SECRET)
     })
 
     it('should return 403 when current user does not have permissions to update form', async () => {
@@ -10694,6 +10862,12 @@ describe('admin-form.controller', () => {
       expect(mockRes.status).toHaveBeenCalledWith(200)
       expect(mockRes.json).toHaveBeenCalledWith(expected)
       expect(deleteTwilioSpy).toHaveBeenCalledTimes(1)
+      expect(MockFormAuditLogService.createFormAuditLog).toHaveBeenCalledWith({
+        formId: MOCK_FORM_ID,
+        actorId: 'exists',
+        action: FormAuditAction.DeleteTwilio,
+        before: { twilioCredentials: '[set]' },
+      })
     })
 
     it('should return 200 if no twilio credentials need to be deleted', async () => {
@@ -10862,4 +11036,81 @@ describe('admin-form.controller', () => {
       expect(deleteTwilioSpy).not.toHaveBeenCalled()
     })
   })
+
+  describe('handleSetGoLinkSuffix', () => {
+    const MOCK_USER_ID = new ObjectId().toHexString()
+    const MOCK_FORM_ID = new ObjectId().toHexString()
+    const MOCK_USER = {
+      _id: MOCK_USER_ID,
+      email: 'somerandom@example.com',
+    } as IPopulatedUser
+    const MOCK_FORM = {
+      admin: MOCK_USER,
+      _id: MOCK_FORM_ID,
+      title: 'mock title',
+    } as IPopulatedForm
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID },
+      session: { user: { _id: MOCK_USER_ID } },
+      body: { linkSuffix: 'mock-form', adminEmail: MOCK_USER.email },
+    })
+
+    beforeEach(() => {
+      MockUserService.getPopulatedUserById.mockReturnValue(okAsync(MOCK_USER))
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValue(
+        okAsync(MOCK_FORM),
+      )
+    })
+
+    it('should return 200 and record the GoGov link in the audit log of the form', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockUpdatedForm = {
+        _id: MOCK_FORM_ID,
+        goLinkSuffix: 'mock-form',
+      } as unknown as IFormDocument
+      jest.spyOn(axios, 'post').mockResolvedValueOnce({})
+      MockAdminFormService.setGoLinkSuffix.mockReturnValueOnce(
+        okAsync(mockUpdatedForm),
+      )
+
+      // Act
+      await AdminFormController.handleSetGoLinkSuffix(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockAdminFormService.setGoLinkSuffix).toHaveBeenCalledWith(
+        MOCK_FORM_ID,
+        'mock-form',
+      )
+      expect(MockFormAuditLogService.createFormAuditLog).toHaveBeenCalledWith({
+        formId: MOCK_FORM_ID,
+        actorId: MOCK_USER_ID,
+        action: FormAuditAction.UpdateGoLink,
+        after: { goLinkSuffix: 'mock-form' },
+      })
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockUpdatedForm)
+    })
+
+    it('should not save or record the GoGov link when it cannot be created', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      jest.spyOn(axios, 'post').mockRejectedValueOnce(new Error('taken'))
+
+      // Act
+      await AdminFormController.handleSetGoLinkSuffix(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockAdminFormService.setGoLinkSuffix).not.toHaveBeenCalled()
+      expect(MockFormAuditLogService.createFormAuditLog).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -5,10 +5,22 @@ import { PassThrough } from 'stream'
 
 import dbHandler from '../../../../../../__tests__/unit/backend/helpers/jest-db'
 import expressHandler from '../../../../../../__tests__/unit/backend/helpers/jest-express'
-import { FormIssueMetaDto } from '../../../../../../shared/types'
-import { IPopulatedForm, IPopulatedUser } from '../../../../../types'
+import {
+  FormIssueMetaDto,
+  FormIssueStatus,
+} from '../../../../../../shared/types'
+import {
+  IFormIssueSchema,
+  IPopulatedForm,
+  IPopulatedUser,
+} from '../../../../../types'
 import * as AuthService from '../../../auth/auth.service'
 import { DatabaseError } from '../../../core/core.errors'
+import {
+  FormIssueNotFoundError,
+  InvalidIssueAssigneeError,
+  MissingIssueReporterEmailError,
+} from '../../../issue/issue.errors'
 import * as IssueService from '../../../issue/issue.service'
 import { MissingUserError } from '../../../user/user.errors'
 import * as UserService from '../../../user/user.service'
@@ -61,16 +73,23 @@ describe('admin-form.issue.controller', () => {
         count: 2,
         issues: [
           {
+            _id: new ObjectId().toHexString(),
             issue: 'I dont understand english, how to fill?',
             email: 'email@example.com',
             index: 1,
             timestamp: Date.now(),
+            status: FormIssueStatus.New,
+            notes: [],
           },
           {
+            _id: new ObjectId().toHexString(),
             issue: 'this form is too 啰嗦',
             email: 'email@example.com',
             index: 2,
             timestamp: Date.now(),
+            status: FormIssueStatus.Acknowledged,
+            assignee: 'email@example.com',
+            notes: [],
           },
         ],
       }
@@ -85,7 +104,7 @@ describe('admin-form.issue.controller', () => {
         okAsync(expectedFormIssue),
       )
       // Act
-      await AdminFormIssueController.handleGetFormIssues(
+      await AdminFormIssueController.handleGetFormIssuesForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -103,7 +122,10 @@ describe('admin-form.issue.controller', () => {
           level: PermissionLevel.Read,
         },
       )
-      expect(MockIssueService.getFormIssues).toHaveBeenCalledWith(MOCK_FORM_ID)
+      expect(MockIssueService.getFormIssues).toHaveBeenCalledWith(
+        MOCK_FORM_ID,
+        {},
+      )
     })
 
     it('should return 422 as user is not found (MissingUserError)', async () => {
@@ -113,7 +135,7 @@ describe('admin-form.issue.controller', () => {
         errAsync(new MissingUserError()),
       )
       // Act
-      await AdminFormIssueController.handleGetFormIssues(
+      await AdminFormIssueController.handleGetFormIssuesForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -142,7 +164,7 @@ describe('admin-form.issue.controller', () => {
         errAsync(new FormNotFoundError()),
       )
       // Act
-      await AdminFormIssueController.handleGetFormIssues(
+      await AdminFormIssueController.handleGetFormIssuesForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -176,7 +198,7 @@ describe('admin-form.issue.controller', () => {
         errAsync(new DatabaseError('Something is wrong')),
       )
       // Act
-      await AdminFormIssueController.handleGetFormIssues(
+      await AdminFormIssueController.handleGetFormIssuesForTest(
         MOCK_REQ,
         mockRes,
         jest.fn(),
@@ -198,7 +220,323 @@ describe('admin-form.issue.controller', () => {
           level: PermissionLevel.Read,
         },
       )
-      expect(MockIssueService.getFormIssues).toHaveBeenCalledWith(MOCK_FORM_ID)
+      expect(MockIssueService.getFormIssues).toHaveBeenCalledWith(
+        MOCK_FORM_ID,
+        {},
+      )
+    })
+  })
+
+  describe('handleUpdateFormIssue', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+    const MOCK_FORM_ID = new ObjectId().toHexString()
+    const MOCK_ISSUE_ID = new ObjectId().toHexString()
+    const MOCK_USER_ID = new ObjectId()
+    const MOCK_USER = {
+      _id: MOCK_USER_ID,
+      email: 'notarealuser@example.com',
+    } as IPopulatedUser
+    const MOCK_FORM = {
+      admin: MOCK_USER as IPopulatedUser,
+      _id: MOCK_FORM_ID,
+      title: 'form title',
+    } as IPopulatedForm
+    const MOCK_BODY = {
+      status: FormIssueStatus.Acknowledged,
+      note: 'Looking into it',
+    }
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID, issueId: MOCK_ISSUE_ID },
+      body: MOCK_BODY,
+      session: {
+        user: {
+          _id: MOCK_USER_ID,
+        },
+      },
+    })
+
+    it('should return 200 with the updated issue', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockIssue = { _id: MOCK_ISSUE_ID, ...MOCK_BODY }
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockIssueService.updateFormIssue.mockReturnValueOnce(
+        okAsync(mockIssue as unknown as IFormIssueSchema),
+      )
+
+      // Act
+      await AdminFormIssueController.handleUpdateFormIssueForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockIssue)
+      expect(MockAuthService.getFormAfterPermissionChecks).toHaveBeenCalledWith(
+        {
+          user: MOCK_USER,
+          formId: MOCK_FORM_ID,
+          level: PermissionLevel.Write,
+        },
+      )
+      expect(MockIssueService.updateFormIssue).toHaveBeenCalledWith({
+        form: MOCK_FORM,
+        issueId: MOCK_ISSUE_ID,
+        update: MOCK_BODY,
+        updatedBy: MOCK_USER.email,
+      })
+    })
+
+    it('should return 404 when the issue cannot be found', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockIssueService.updateFormIssue.mockReturnValueOnce(
+        errAsync(new FormIssueNotFoundError()),
+      )
+
+      // Act
+      await AdminFormIssueController.handleUpdateFormIssueForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.NOT_FOUND)
+    })
+
+    it('should return 422 when the assignee is not a collaborator', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockIssueService.updateFormIssue.mockReturnValueOnce(
+        errAsync(new InvalidIssueAssigneeError()),
+      )
+
+      // Act
+      await AdminFormIssueController.handleUpdateFormIssueForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(
+        StatusCodes.UNPROCESSABLE_ENTITY,
+      )
+    })
+
+    it('should return 403 when user does not have write permissions', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        errAsync(new ForbiddenFormError('not allowed')),
+      )
+
+      // Act
+      await AdminFormIssueController.handleUpdateFormIssueForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+      expect(MockIssueService.updateFormIssue).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('handleUpdateFormIssuesStatus', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+    const MOCK_FORM_ID = new ObjectId().toHexString()
+    const MOCK_USER_ID = new ObjectId()
+    const MOCK_USER = {
+      _id: MOCK_USER_ID,
+      email: 'notarealuser@example.com',
+    } as IPopulatedUser
+    const MOCK_FORM = {
+      admin: MOCK_USER as IPopulatedUser,
+      _id: MOCK_FORM_ID,
+      title: 'form title',
+    } as IPopulatedForm
+    const MOCK_BODY = {
+      issueIds: [new ObjectId().toHexString(), new ObjectId().toHexString()],
+      status: FormIssueStatus.Resolved,
+    }
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID },
+      body: MOCK_BODY,
+      session: {
+        user: {
+          _id: MOCK_USER_ID,
+        },
+      },
+    })
+
+    it('should return 200 with the number of issues updated', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockIssueService.updateFormIssuesStatus.mockReturnValueOnce(
+        okAsync({ updatedCount: 2 }),
+      )
+
+      // Act
+      await AdminFormIssueController.handleUpdateFormIssuesStatusForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith({ updatedCount: 2 })
+      expect(MockIssueService.updateFormIssuesStatus).toHaveBeenCalledWith({
+        formId: MOCK_FORM_ID,
+        ...MOCK_BODY,
+      })
+    })
+
+    it('should return 500 when database error occurs', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockIssueService.updateFormIssuesStatus.mockReturnValueOnce(
+        errAsync(new DatabaseError()),
+      )
+
+      // Act
+      await AdminFormIssueController.handleUpdateFormIssuesStatusForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      )
+    })
+  })
+
+  describe('handleReplyToFormIssue', () => {
+    beforeEach(() => {
+      jest.clearAllMocks()
+    })
+    const MOCK_FORM_ID = new ObjectId().toHexString()
+    const MOCK_ISSUE_ID = new ObjectId().toHexString()
+    const MOCK_USER_ID = new ObjectId()
+    const MOCK_USER = {
+      _id: MOCK_USER_ID,
+      email: 'notarealuser@example.com',
+    } as IPopulatedUser
+    const MOCK_FORM = {
+      admin: MOCK_USER as IPopulatedUser,
+      _id: MOCK_FORM_ID,
+      title: 'form title',
+    } as IPopulatedForm
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID, issueId: MOCK_ISSUE_ID },
+      body: { message: 'This has been fixed' },
+      session: {
+        user: {
+          _id: MOCK_USER_ID,
+        },
+      },
+    })
+
+    it('should return 200 with the replied issue', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockIssue = { _id: MOCK_ISSUE_ID, lastReplied: new Date() }
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockIssueService.replyToFormIssue.mockReturnValueOnce(
+        okAsync(mockIssue as unknown as IFormIssueSchema),
+      )
+
+      // Act
+      await AdminFormIssueController.handleReplyToFormIssueForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockIssue)
+      expect(MockIssueService.replyToFormIssue).toHaveBeenCalledWith({
+        form: MOCK_FORM,
+        issueId: MOCK_ISSUE_ID,
+        message: 'This has been fixed',
+        repliedBy: MOCK_USER.email,
+      })
+    })
+
+    it('should return 400 when the reporter did not leave an email', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockIssueService.replyToFormIssue.mockReturnValueOnce(
+        errAsync(new MissingIssueReporterEmailError()),
+      )
+
+      // Act
+      await AdminFormIssueController.handleReplyToFormIssueForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.BAD_REQUEST)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        message: new MissingIssueReporterEmailError().message,
+      })
     })
   })
 
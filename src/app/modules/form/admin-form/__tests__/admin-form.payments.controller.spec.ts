@@ -1,10 +1,20 @@
 import dbHandler from '__tests__/unit/backend/helpers/jest-db'
 import expressHandler from '__tests__/unit/backend/helpers/jest-express'
 import { StatusCodes } from 'http-status-codes'
-import { PaymentChannel, PaymentsUpdateDto } from 'shared/types'
+import mongoose from 'mongoose'
+import {
+  FormAuditAction,
+  PaymentChannel,
+  PaymentsUpdateDto,
+  PaymentType,
+} from 'shared/types'
+
+import getFormAuditLogModel from 'src/app/models/form_audit_log.server.model'
 
 import * as AdminFormPaymentsController from '../admin-form.payments.controller'
 
+const FormAuditLogModel = getFormAuditLogModel(mongoose)
+
 describe('admin-form.payments.controller', () => {
   beforeAll(async () => await dbHandler.connect())
   beforeEach(async () => {
@@ -56,5 +66,51 @@ describe('admin-form.payments.controller', () => {
         expect(mockRes.json).toHaveBeenCalledOnce()
       })
     })
+
+    it('should record the update in the audit log of the form', async () => {
+      // Arrange
+      const { form, user } = await dbHandler.insertEncryptForm({
+        userBetaFlags: { payment: true },
+        formOptions: {
+          payments_channel: {
+            channel: PaymentChannel.Stripe,
+            target_account_id: 'string',
+            publishable_key: 'string',
+          },
+        },
+      })
+      const MOCK_REQ = expressHandler.mockRequest({
+        params: { formId: form._id },
+        session: { user: { _id: user._id } },
+        body: {
+          enabled: true,
+          payment_type: PaymentType.Fixed,
+          amount_cents: 1000,
+          description: 'some payment',
+        } as PaymentsUpdateDto,
+      })
+      const mockRes = expressHandler.mockResponse()
+
+      // Act
+      await AdminFormPaymentsController.handleUpdatePaymentsForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      const auditLogs = await FormAuditLogModel.find({ form: form._id }).lean()
+      expect(auditLogs).toEqual([
+        expect.objectContaining({
+          actor: user._id,
+          action: FormAuditAction.UpdatePayments,
+          after: expect.objectContaining({
+            enabled: true,
+            amount_cents: 1000,
+          }),
+        }),
+      ])
+    })
   })
 })
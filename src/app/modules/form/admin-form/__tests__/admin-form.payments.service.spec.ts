@@ -268,5 +268,89 @@ describe('admin-form.payment.service', () => {
         )
       })
     })
+
+    describe('When Payment Type is Products', () => {
+      beforeEach(() => {
+        jest.clearAllMocks()
+      })
+      afterEach(() => {
+        jest.restoreAllMocks()
+      })
+      const mockProduct = {
+        _id: new ObjectId().toString(),
+        name: 'T-shirt',
+        amount_cents: 1500,
+        min_qty: 1,
+        max_qty: 5,
+      }
+      const defaultProductsPaymentSettings: PaymentsUpdateDto = {
+        enabled: true,
+        description: 'some description',
+        payment_type: PaymentType.Products,
+        products: [mockProduct],
+      }
+
+      it('should successfully call updatePaymentsById with the product catalogue', async () => {
+        // Arrange
+        const putSpy = jest
+          .spyOn(EncryptFormModel, 'updatePaymentsById')
+          .mockResolvedValueOnce({
+            _id: mockFormId,
+            payments_field: defaultProductsPaymentSettings,
+          } as unknown as IEncryptedFormDocument)
+
+        // Act
+        const actualResult = await AdminFormPaymentService.updatePayments(
+          mockFormId,
+          defaultProductsPaymentSettings,
+        )
+
+        // Assert
+        expect(putSpy).toHaveBeenCalledWith(
+          mockFormId,
+          defaultProductsPaymentSettings,
+        )
+        expect(actualResult._unsafeUnwrap()).toEqual(
+          defaultProductsPaymentSettings,
+        )
+      })
+
+      it('should return InvalidPaymentAmountError if there are no products', async () => {
+        // Arrange
+        const putSpy = jest.spyOn(EncryptFormModel, 'updatePaymentsById')
+
+        // Act
+        const actualResult = await AdminFormPaymentService.updatePayments(
+          mockFormId,
+          { ...defaultProductsPaymentSettings, products: [] },
+        )
+
+        // Assert
+        expect(putSpy).not.toHaveBeenCalled()
+        expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+          InvalidPaymentAmountError,
+        )
+      })
+
+      it('should return InvalidPaymentAmountError if min_qty of a product is greater than max_qty', async () => {
+        // Arrange
+        const putSpy = jest.spyOn(EncryptFormModel, 'updatePaymentsById')
+
+        // Act
+        const actualResult = await AdminFormPaymentService.updatePayments(
+          mockFormId,
+          {
+            ...defaultProductsPaymentSettings,
+            products: [{ ...mockProduct, min_qty: 6 }],
+          },
+        )
+
+        // Assert
+        expect(putSpy).not.toHaveBeenCalled()
+        expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+          InvalidPaymentAmountError,
+        )
+      })
+    })
   })
 })
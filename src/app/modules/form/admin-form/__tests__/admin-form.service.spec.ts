@@ -18,6 +18,7 @@ import {
   DatabaseError,
   DatabasePayloadSizeError,
   DatabaseValidationError,
+  MalformedParametersError,
 } from 'src/app/modules/core/core.errors'
 import { MissingUserError } from 'src/app/modules/user/user.errors'
 import * as UserService from 'src/app/modules/user/user.service'
@@ -41,6 +42,7 @@ import {
   AdminDashboardFormMetaDto,
   BasicField,
   CustomFormLogo,
+  DateString,
   DuplicateFormBodyDto,
   FieldCreateDto,
   FieldUpdateDto,
@@ -805,6 +807,59 @@ describe('admin-form.service', () => {
     })
   })
 
+  describe('transferFormsOwnership', () => {
+    const MOCK_NEW_OWNER = {
+      _id: new ObjectId(),
+      email: 'random@example.com',
+    } as IUserSchema
+    const MOCK_CURRENT_OWNER = {
+      _id: new ObjectId(),
+      email: 'someemail@example.com',
+    } as IUserSchema
+
+    it('should return the transferred forms and the forms which failed to be transferred', async () => {
+      // Arrange
+      const transferredForm = { title: 'transferred form' } as IPopulatedForm
+      const mockForms = [
+        {
+          title: 'some mock form',
+          admin: MOCK_CURRENT_OWNER,
+          transferOwner: jest.fn().mockResolvedValue({
+            populate: jest.fn().mockReturnValue({
+              execPopulate: jest.fn().mockResolvedValue(transferredForm),
+            }),
+          }),
+        },
+        {
+          title: 'another mock form',
+          admin: MOCK_CURRENT_OWNER,
+          transferOwner: jest.fn().mockRejectedValue(new Error('some error')),
+        },
+        {
+          title: 'form already owned by new owner',
+          admin: MOCK_NEW_OWNER,
+          transferOwner: jest.fn(),
+        },
+      ] as unknown as IPopulatedForm[]
+      MockUserService.findUserById.mockReturnValue(okAsync(MOCK_CURRENT_OWNER))
+      MockUserService.findUserByEmail.mockReturnValue(okAsync(MOCK_NEW_OWNER))
+
+      // Act
+      const actualResult = await AdminFormService.transferFormsOwnership(
+        mockForms,
+        MOCK_NEW_OWNER.email,
+      )
+
+      // Assert
+      const { transferred, failed } = actualResult._unsafeUnwrap()
+      expect(transferred).toEqual([transferredForm])
+      expect(failed).toEqual([
+        { form: mockForms[1], error: expect.any(DatabaseError) },
+      ])
+      expect(mockForms[2].transferOwner).not.toHaveBeenCalled()
+    })
+  })
+
   describe('createForm', () => {
     it('should successfully create form', async () => {
       // Arrange
@@ -1229,6 +1284,26 @@ describe('admin-form.service', () => {
       )
       expect(MOCK_UPDATED_FORM.getSettings).toHaveBeenCalledTimes(0)
     })
+
+    it('should return MalformedParametersError when scheduling a form which cannot be published', async () => {
+      // Arrange
+      const settingsToUpdate: SettingsUpdateDto = {
+        authType: FormAuthType.SP,
+        opensAt: '2023-01-10T00:00:00.000Z' as DateString,
+      }
+
+      // Act
+      const actualResult = await AdminFormService.updateFormSettings(
+        MOCK_ENCRYPT_FORM,
+        settingsToUpdate,
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        MalformedParametersError,
+      )
+      expect(ENCRYPT_UPDATE_SPY).not.toHaveBeenCalled()
+    })
   })
 
   describe('updateFormField', () => {
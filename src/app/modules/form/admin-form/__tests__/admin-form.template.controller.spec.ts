@@ -0,0 +1,402 @@
+import { ObjectId } from 'bson-ext'
+import { StatusCodes } from 'http-status-codes'
+import { errAsync, okAsync } from 'neverthrow'
+
+import expressHandler from '../../../../../../__tests__/unit/backend/helpers/jest-express'
+import {
+  FormTemplateCategory,
+  FormTemplateDto,
+} from '../../../../../../shared/types'
+import {
+  IFormTemplateSchema,
+  IPopulatedForm,
+  IPopulatedUser,
+} from '../../../../../types'
+import { MissingAgencyAdminRoleError } from '../../../auth/auth.errors'
+import * as AuthService from '../../../auth/auth.service'
+import { DatabaseError } from '../../../core/core.errors'
+import {
+  FormTemplateAlreadyPublishedError,
+  FormTemplateNotFoundError,
+  FormTemplateNotPublicError,
+} from '../../../form-template/form-template.errors'
+import * as FormTemplateService from '../../../form-template/form-template.service'
+import * as UserService from '../../../user/user.service'
+import { ForbiddenFormError } from '../../form.errors'
+import * as AdminFormTemplateController from '../admin-form.template.controller'
+import { PermissionLevel } from '../admin-form.types'
+
+jest.mock('../../../user/user.service')
+const MockUserService = jest.mocked(UserService)
+jest.mock('src/app/modules/auth/auth.service')
+const MockAuthService = jest.mocked(AuthService)
+jest.mock('src/app/modules/form-template/form-template.service')
+const MockFormTemplateService = jest.mocked(FormTemplateService)
+
+const MOCK_USER_ID = new ObjectId()
+const MOCK_USER = {
+  _id: MOCK_USER_ID,
+  email: 'notarealuser@example.com',
+} as IPopulatedUser
+const MOCK_FORM_ID = new ObjectId().toHexString()
+const MOCK_FORM = {
+  admin: MOCK_USER,
+  _id: MOCK_FORM_ID,
+  title: 'form title',
+} as IPopulatedForm
+const MOCK_TEMPLATE_ID = new ObjectId().toHexString()
+const MOCK_TEMPLATE = {
+  _id: MOCK_TEMPLATE_ID,
+  formId: MOCK_FORM_ID,
+  title: 'Event registration',
+  description: 'Register attendees for an event',
+  category: FormTemplateCategory.Registration,
+} as unknown as IFormTemplateSchema
+const MOCK_SESSION = { user: { _id: MOCK_USER_ID } }
+
+describe('admin-form.template.controller', () => {
+  beforeEach(() => jest.clearAllMocks())
+
+  describe('handleListFormTemplates', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      query: {
+        category: FormTemplateCategory.Registration,
+        searchTerm: 'event',
+      },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the templates matching the query', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockTemplates = [{ _id: MOCK_TEMPLATE_ID }] as FormTemplateDto[]
+      MockFormTemplateService.listFormTemplates.mockReturnValueOnce(
+        okAsync(mockTemplates),
+      )
+
+      // Act
+      await AdminFormTemplateController.handleListFormTemplatesForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockTemplates)
+      expect(MockFormTemplateService.listFormTemplates).toHaveBeenCalledWith({
+        category: FormTemplateCategory.Registration,
+        searchTerm: 'event',
+      })
+    })
+
+    it('should return 500 when database error occurs', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockFormTemplateService.listFormTemplates.mockReturnValueOnce(
+        errAsync(new DatabaseError()),
+      )
+
+      // Act
+      await AdminFormTemplateController.handleListFormTemplatesForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      )
+    })
+  })
+
+  describe('handlePublishFormTemplate', () => {
+    const MOCK_PARAMS = {
+      title: 'Event registration',
+      description: 'Register attendees for an event',
+      category: FormTemplateCategory.Registration,
+    }
+    const MOCK_REQ = expressHandler.mockRequest({
+      body: { formId: MOCK_FORM_ID, ...MOCK_PARAMS },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the published template', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormTemplateService.publishFormTemplate.mockReturnValueOnce(
+        okAsync(MOCK_TEMPLATE),
+      )
+
+      // Act
+      await AdminFormTemplateController.handlePublishFormTemplateForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(MOCK_TEMPLATE)
+      expect(MockAuthService.getFormAfterPermissionChecks).toHaveBeenCalledWith(
+        {
+          user: MOCK_USER,
+          formId: MOCK_FORM_ID,
+          level: PermissionLevel.Delete,
+        },
+      )
+      expect(MockFormTemplateService.publishFormTemplate).toHaveBeenCalledWith({
+        form: MOCK_FORM,
+        user: MOCK_USER,
+        params: MOCK_PARAMS,
+      })
+    })
+
+    it('should return 403 when user is not the owner of the form', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        errAsync(new ForbiddenFormError('not the owner')),
+      )
+
+      // Act
+      await AdminFormTemplateController.handlePublishFormTemplateForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+      expect(MockFormTemplateService.publishFormTemplate).not.toHaveBeenCalled()
+    })
+
+    it('should return 409 when the form has already been published', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormTemplateService.publishFormTemplate.mockReturnValueOnce(
+        errAsync(new FormTemplateAlreadyPublishedError()),
+      )
+
+      // Act
+      await AdminFormTemplateController.handlePublishFormTemplateForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.CONFLICT)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        message: new FormTemplateAlreadyPublishedError().message,
+      })
+    })
+
+    it('should return 403 when the user is not an agency admin', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormTemplateService.publishFormTemplate.mockReturnValueOnce(
+        errAsync(new MissingAgencyAdminRoleError()),
+      )
+
+      // Act
+      await AdminFormTemplateController.handlePublishFormTemplateForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        message: new MissingAgencyAdminRoleError().message,
+      })
+    })
+
+    it('should return 422 when the form is not public', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormTemplateService.publishFormTemplate.mockReturnValueOnce(
+        errAsync(new FormTemplateNotPublicError()),
+      )
+
+      // Act
+      await AdminFormTemplateController.handlePublishFormTemplateForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(
+        StatusCodes.UNPROCESSABLE_ENTITY,
+      )
+    })
+  })
+
+  describe('handleUpdateFormTemplate', () => {
+    const MOCK_UPDATE = { title: 'New title' }
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { templateId: MOCK_TEMPLATE_ID },
+      body: MOCK_UPDATE,
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the updated template', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      const mockUpdatedTemplate = {
+        ...MOCK_TEMPLATE,
+        ...MOCK_UPDATE,
+      } as IFormTemplateSchema
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockFormTemplateService.getFormTemplateById.mockReturnValueOnce(
+        okAsync(MOCK_TEMPLATE),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormTemplateService.updateFormTemplate.mockReturnValueOnce(
+        okAsync(mockUpdatedTemplate),
+      )
+
+      // Act
+      await AdminFormTemplateController.handleUpdateFormTemplateForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockUpdatedTemplate)
+      expect(MockAuthService.getFormAfterPermissionChecks).toHaveBeenCalledWith(
+        {
+          user: MOCK_USER,
+          formId: MOCK_FORM_ID,
+          level: PermissionLevel.Delete,
+        },
+      )
+      expect(MockFormTemplateService.updateFormTemplate).toHaveBeenCalledWith({
+        templateId: MOCK_TEMPLATE_ID,
+        update: MOCK_UPDATE,
+      })
+    })
+
+    it('should return 404 when the template cannot be found', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockFormTemplateService.getFormTemplateById.mockReturnValueOnce(
+        errAsync(new FormTemplateNotFoundError()),
+      )
+
+      // Act
+      await AdminFormTemplateController.handleUpdateFormTemplateForTest(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.NOT_FOUND)
+      expect(MockFormTemplateService.updateFormTemplate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('handleUnpublishFormTemplate', () => {
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { templateId: MOCK_TEMPLATE_ID },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 when the template is unpublished', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockFormTemplateService.getFormTemplateById.mockReturnValueOnce(
+        okAsync(MOCK_TEMPLATE),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        okAsync(MOCK_FORM),
+      )
+      MockFormTemplateService.unpublishFormTemplate.mockReturnValueOnce(
+        okAsync(true),
+      )
+
+      // Act
+      await AdminFormTemplateController.handleUnpublishFormTemplate(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(
+        MockFormTemplateService.unpublishFormTemplate,
+      ).toHaveBeenCalledWith(MOCK_TEMPLATE_ID)
+    })
+
+    it('should return 403 when user is not the owner of the form of the template', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockUserService.getPopulatedUserById.mockReturnValueOnce(
+        okAsync(MOCK_USER),
+      )
+      MockFormTemplateService.getFormTemplateById.mockReturnValueOnce(
+        okAsync(MOCK_TEMPLATE),
+      )
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        errAsync(new ForbiddenFormError('not the owner')),
+      )
+
+      // Act
+      await AdminFormTemplateController.handleUnpublishFormTemplate(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+      expect(
+        MockFormTemplateService.unpublishFormTemplate,
+      ).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -11,15 +11,25 @@ import {
 } from 'src/types'
 import { EditFormFieldParams } from 'src/types/api'
 
+import { WEBHOOK_HEADER_VALUE_MASK } from '../../../../../../shared/constants/webhook'
 import {
   BasicField,
+  CollaboratorRole,
   DuplicateFormBodyDto,
   FormPermission,
+  FormPermissionScope,
   FormResponseMode,
   FormStatus,
+  LogicConditionState,
+  LogicDto,
+  LogicGroupOperator,
+  LogicIfValue,
+  LogicType,
+  UserRole,
 } from '../../../../../../shared/types'
+import { MalformedParametersError } from '../../../core/core.errors'
 import { ForbiddenFormError } from '../../form.errors'
-import { EditFieldError } from '../admin-form.errors'
+import { EditFieldError, InvalidLogicError } from '../admin-form.errors'
 import { OverrideProps } from '../admin-form.types'
 import {
   assertHasDeletePermissions,
@@ -27,6 +37,8 @@ import {
   assertHasWritePermissions,
   getUpdatedFormFields,
   processDuplicateOverrideProps,
+  restoreWebhookSecrets,
+  validateLogicConditionGroup,
 } from '../admin-form.utils'
 
 describe('admin-form.utils', () => {
@@ -97,6 +109,69 @@ describe('admin-form.utils', () => {
       // Act
       const actualResult = assertHasReadPermissions(MOCK_USER, mockForm)
 
+      // Assert
+      expect(actualResult.isErr()).toEqual(true)
+      expect(actualResult._unsafeUnwrapErr()).toEqual(
+        new ForbiddenFormError(
+          `User ${MOCK_USER.email} not authorized to perform read operation on Form ${mockForm._id} with title: ${mockForm.title}.`,
+        ),
+      )
+    })
+    it('should return true when user has a role which can read the scope', async () => {
+      // Arrange
+      const mockForm = {
+        title: 'mockForm',
+        status: FormStatus.Public,
+        _id: new ObjectId(),
+        admin: {
+          _id: new ObjectId(),
+        } as IPopulatedUser,
+        permissionList: [
+          {
+            email: MOCK_USER.email,
+            write: false,
+            role: CollaboratorRole.ResponsesViewer,
+          },
+        ],
+      } as IPopulatedForm
+
+      // Act
+      const actualResult = assertHasReadPermissions(
+        MOCK_USER,
+        mockForm,
+        FormPermissionScope.Responses,
+      )
+
+      // Assert
+      expect(actualResult.isOk()).toEqual(true)
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+    })
+
+    it('should return ForbiddenFormError when user has a role which cannot read the scope', async () => {
+      // Arrange
+      const mockForm = {
+        title: 'mockForm',
+        status: FormStatus.Public,
+        _id: new ObjectId(),
+        admin: {
+          _id: new ObjectId(),
+        } as IPopulatedUser,
+        permissionList: [
+          {
+            email: MOCK_USER.email,
+            write: true,
+            role: CollaboratorRole.EditorWithoutResponses,
+          },
+        ],
+      } as IPopulatedForm
+
+      // Act
+      const actualResult = assertHasReadPermissions(
+        MOCK_USER,
+        mockForm,
+        FormPermissionScope.Responses,
+      )
+
       // Assert
       expect(actualResult.isErr()).toEqual(true)
       expect(actualResult._unsafeUnwrapErr()).toEqual(
@@ -195,6 +270,65 @@ describe('admin-form.utils', () => {
       // Act
       const actualResult = assertHasWritePermissions(MOCK_USER, mockForm)
 
+      // Assert
+      expect(actualResult.isErr()).toEqual(true)
+      expect(actualResult._unsafeUnwrapErr()).toEqual(
+        new ForbiddenFormError(
+          `User ${MOCK_USER.email} not authorized to perform write operation on Form ${mockForm._id} with title: ${mockForm.title}.`,
+        ),
+      )
+    })
+    it('should return true when user has a role which can write the scope', async () => {
+      // Arrange
+      const mockForm = {
+        title: 'mockForm',
+        status: FormStatus.Public,
+        _id: new ObjectId(),
+        admin: {
+          _id: new ObjectId(),
+        } as IPopulatedUser,
+        permissionList: [
+          {
+            email: MOCK_USER.email,
+            write: true,
+            role: CollaboratorRole.SettingsManager,
+          },
+        ],
+      } as IPopulatedForm
+
+      // Act
+      const actualResult = assertHasWritePermissions(
+        MOCK_USER,
+        mockForm,
+        FormPermissionScope.Settings,
+      )
+
+      // Assert
+      expect(actualResult.isOk()).toEqual(true)
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+    })
+
+    it('should return ForbiddenFormError when user has a role which cannot write the form itself', async () => {
+      // Arrange
+      const mockForm = {
+        title: 'mockForm',
+        status: FormStatus.Public,
+        _id: new ObjectId(),
+        admin: {
+          _id: new ObjectId(),
+        } as IPopulatedUser,
+        permissionList: [
+          {
+            email: MOCK_USER.email,
+            write: true,
+            role: CollaboratorRole.PaymentManager,
+          },
+        ],
+      } as IPopulatedForm
+
+      // Act
+      const actualResult = assertHasWritePermissions(MOCK_USER, mockForm)
+
       // Assert
       expect(actualResult.isErr()).toEqual(true)
       expect(actualResult._unsafeUnwrapErr()).toEqual(
@@ -224,6 +358,61 @@ describe('admin-form.utils', () => {
       expect(actualResult._unsafeUnwrap()).toEqual(true)
     })
 
+    it('should return true when user is an agency admin of the agency of the form admin', async () => {
+      // Arrange
+      const mockAgencyId = new ObjectId()
+      const mockAgencyAdmin = {
+        ...MOCK_USER,
+        role: UserRole.AgencyAdmin,
+        agency: { _id: mockAgencyId },
+      } as IPopulatedUser
+      const mockForm = {
+        title: 'mockForm',
+        status: FormStatus.Private,
+        _id: new ObjectId(),
+        admin: {
+          _id: new ObjectId(),
+          agency: { _id: mockAgencyId },
+        } as IPopulatedUser,
+        permissionList: [],
+      } as unknown as IPopulatedForm
+
+      // Act
+      const actualResult = assertHasDeletePermissions(mockAgencyAdmin, mockForm)
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+    })
+
+    it('should return ForbiddenFormError when user is an agency admin of another agency', async () => {
+      // Arrange
+      const mockAgencyAdmin = {
+        ...MOCK_USER,
+        role: UserRole.AgencyAdmin,
+        agency: { _id: new ObjectId() },
+      } as IPopulatedUser
+      const mockForm = {
+        title: 'mockForm',
+        status: FormStatus.Private,
+        _id: new ObjectId(),
+        admin: {
+          _id: new ObjectId(),
+          agency: { _id: new ObjectId() },
+        } as IPopulatedUser,
+        permissionList: [],
+      } as unknown as IPopulatedForm
+
+      // Act
+      const actualResult = assertHasDeletePermissions(mockAgencyAdmin, mockForm)
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toEqual(
+        new ForbiddenFormError(
+          `User ${MOCK_USER.email} not authorized to perform delete operation on Form ${mockForm._id} with title: ${mockForm.title}.`,
+        ),
+      )
+    })
+
     it('should return ForbiddenFormError when user is not admin even with read permissions', async () => {
       // Arrange
       // Form is owned by another admin, but MOCK_USER has permissions.
@@ -600,4 +789,215 @@ describe('admin-form.utils', () => {
       expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(EditFieldError)
     })
   })
+
+  describe('validateLogicConditionGroup', () => {
+    const MOCK_CONDITION = {
+      field: new ObjectId().toHexString(),
+      state: LogicConditionState.Equal,
+      value: 'Yes',
+      ifValueType: LogicIfValue.SingleSelect,
+    }
+    const MOCK_LOGIC = {
+      _id: new ObjectId().toHexString(),
+      logicType: LogicType.PreventSubmit,
+      preventSubmitMessage: 'some message',
+      conditions: [MOCK_CONDITION, MOCK_CONDITION, MOCK_CONDITION],
+    } as LogicDto
+
+    it('should return ok when logic does not have a condition group', () => {
+      // Act
+      const actualResult = validateLogicConditionGroup(MOCK_LOGIC)
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(MOCK_LOGIC)
+    })
+
+    it('should return ok when condition group is a valid nested group', () => {
+      // Arrange
+      const logic: LogicDto = {
+        ...MOCK_LOGIC,
+        conditionGroup: {
+          operator: LogicGroupOperator.Or,
+          items: [0, { operator: LogicGroupOperator.And, items: [1, 2] }],
+        },
+      }
+
+      // Act
+      const actualResult = validateLogicConditionGroup(logic)
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(logic)
+    })
+
+    it('should return InvalidLogicError when condition group does not reference every condition', () => {
+      // Arrange
+      const logic: LogicDto = {
+        ...MOCK_LOGIC,
+        conditionGroup: { operator: LogicGroupOperator.Or, items: [0, 1] },
+      }
+
+      // Act
+      const actualResult = validateLogicConditionGroup(logic)
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toEqual(
+        new InvalidLogicError('Condition group must reference every condition'),
+      )
+    })
+
+    it('should return InvalidLogicError when condition group references a non-existent condition', () => {
+      // Arrange
+      const logic: LogicDto = {
+        ...MOCK_LOGIC,
+        conditionGroup: { operator: LogicGroupOperator.And, items: [0, 1, 3] },
+      }
+
+      // Act
+      const actualResult = validateLogicConditionGroup(logic)
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(InvalidLogicError)
+    })
+
+    it('should return InvalidLogicError when condition group is nested too deeply', () => {
+      // Arrange
+      const logic: LogicDto = {
+        ...MOCK_LOGIC,
+        conditionGroup: {
+          operator: LogicGroupOperator.And,
+          items: [
+            0,
+            {
+              operator: LogicGroupOperator.Or,
+              items: [
+                1,
+                {
+                  operator: LogicGroupOperator.And,
+                  items: [{ operator: LogicGroupOperator.Or, items: [2] }],
+                },
+              ],
+            },
+          ],
+        },
+      }
+
+      // Act
+      const actualResult = validateLogicConditionGroup(logic)
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(InvalidLogicError)
+    })
+  })
+
+  describe('restoreWebhookSecrets', () => {
+    const MOCK_ENDPOINT_ID = new ObjectId().toHexString()
+    const MOCK_STORED_WEBHOOK = {
+      url: 'https://example.com/webhook',
+      isRetryEnabled: false,
+      hmacSecret: 'stored-secret',
+      headers: [{ name: 'Authorization', value: 'Bearer stored' }],
+      additionalEndpoints: [
+        {
+          _id: MOCK_ENDPOINT_ID,
+          url: 'https://example.com/other',
+          isRetryEnabled: false,
+          hmacSecret: 'stored-endpoint-secret',
+          headers: [{ name: 'X-Api-Key', value: 'stored-key' }],
+        },
+      ],
+    }
+
+    it('should restore masked header values from the stored headers', () => {
+      // Act
+      const result = restoreWebhookSecrets(MOCK_STORED_WEBHOOK, {
+        headers: [
+          { name: 'authorization', value: WEBHOOK_HEADER_VALUE_MASK },
+          { name: 'X-Other', value: 'new' },
+        ],
+      })
+
+      // Assert
+      expect(result._unsafeUnwrap()).toEqual({
+        headers: [
+          { name: 'authorization', value: 'Bearer stored' },
+          { name: 'X-Other', value: 'new' },
+        ],
+      })
+    })
+
+    it('should restore omitted secrets and masked header values of additional endpoints with the same id', () => {
+      // Act
+      const result = restoreWebhookSecrets(MOCK_STORED_WEBHOOK, {
+        additionalEndpoints: [
+          {
+            _id: MOCK_ENDPOINT_ID,
+            url: 'https://example.com/other',
+            isRetryEnabled: false,
+            headers: [{ name: 'X-Api-Key', value: WEBHOOK_HEADER_VALUE_MASK }],
+          },
+          {
+            url: 'https://example.com/new',
+            isRetryEnabled: false,
+            hmacSecret: '',
+          },
+        ],
+      })
+
+      // Assert
+      expect(result._unsafeUnwrap()).toEqual({
+        additionalEndpoints: [
+          {
+            _id: MOCK_ENDPOINT_ID,
+            url: 'https://example.com/other',
+            isRetryEnabled: false,
+            hmacSecret: 'stored-endpoint-secret',
+            headers: [{ name: 'X-Api-Key', value: 'stored-key' }],
+          },
+          {
+            url: 'https://example.com/new',
+            isRetryEnabled: false,
+            hmacSecret: '',
+          },
+        ],
+      })
+    })
+
+    it('should not restore secrets which are removed', () => {
+      // Act
+      const result = restoreWebhookSecrets(MOCK_STORED_WEBHOOK, {
+        additionalEndpoints: [
+          {
+            _id: MOCK_ENDPOINT_ID,
+            url: 'https://example.com/other',
+            isRetryEnabled: false,
+            hmacSecret: '',
+            headers: [],
+          },
+        ],
+      })
+
+      // Assert
+      expect(result._unsafeUnwrap()).toEqual({
+        additionalEndpoints: [
+          {
+            _id: MOCK_ENDPOINT_ID,
+            url: 'https://example.com/other',
+            isRetryEnabled: false,
+            hmacSecret: '',
+            headers: [],
+          },
+        ],
+      })
+    })
+
+    it('should return MalformedParametersError when a masked header is not stored', () => {
+      // Act
+      const result = restoreWebhookSecrets(MOCK_STORED_WEBHOOK, {
+        headers: [{ name: 'X-Unknown', value: WEBHOOK_HEADER_VALUE_MASK }],
+      })
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(MalformedParametersError)
+    })
+  })
 })
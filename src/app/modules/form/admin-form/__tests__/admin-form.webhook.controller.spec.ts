@@ -0,0 +1,235 @@
+import { ObjectId } from 'bson-ext'
+import { StatusCodes } from 'http-status-codes'
+import { errAsync, okAsync } from 'neverthrow'
+
+import expressHandler from '../../../../../../__tests__/unit/backend/helpers/jest-express'
+import {
+  DateString,
+  SubmissionId,
+  WebhookDeliveryDto,
+  WebhookDeliveryStatus,
+} from '../../../../../../shared/types'
+import { IPopulatedForm, IPopulatedUser } from '../../../../../types'
+import * as AuthService from '../../../auth/auth.service'
+import { DatabaseError } from '../../../core/core.errors'
+import { SubmissionNotFoundError } from '../../../submission/submission.errors'
+import * as UserService from '../../../user/user.service'
+import { WebhookRedeliveryUnavailableError } from '../../../webhook/webhook.errors'
+import { WebhookFactory } from '../../../webhook/webhook.factory'
+import * as WebhookService from '../../../webhook/webhook.service'
+import { ForbiddenFormError } from '../../form.errors'
+import { PermissionLevel } from '../admin-form.types'
+import * as AdminFormWebhookController from '../admin-form.webhook.controller'
+
+jest.mock('../../../user/user.service')
+const MockUserService = jest.mocked(UserService)
+jest.mock('src/app/modules/auth/auth.service')
+const MockAuthService = jest.mocked(AuthService)
+jest.mock('src/app/modules/webhook/webhook.service')
+const MockWebhookService = jest.mocked(WebhookService)
+jest.mock('src/app/modules/webhook/webhook.factory', () => ({
+  WebhookFactory: {
+    redeliverWebhook: jest.fn(),
+    redeliverFailedWebhooks: jest.fn(),
+  },
+}))
+const MockWebhookFactory = jest.mocked(WebhookFactory)
+
+describe('admin-form.webhook.controller', () => {
+  const MOCK_FORM_ID = new ObjectId().toHexString()
+  const MOCK_SUBMISSION_ID = new ObjectId().toHexString()
+  const MOCK_USER_ID = new ObjectId()
+  const MOCK_USER = {
+    _id: MOCK_USER_ID,
+    email: 'notarealuser@example.com',
+  } as IPopulatedUser
+  const MOCK_FORM = {
+    admin: MOCK_USER,
+    _id: MOCK_FORM_ID,
+    title: 'form title',
+  } as IPopulatedForm
+  const MOCK_SESSION = { user: { _id: MOCK_USER_ID } }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    MockUserService.getPopulatedUserById.mockReturnValue(okAsync(MOCK_USER))
+    MockAuthService.getFormAfterPermissionChecks.mockReturnValue(
+      okAsync(MOCK_FORM),
+    )
+  })
+
+  describe('handleGetWebhookDeliveries', () => {
+    // Skip the validator.
+    const handleGetWebhookDeliveries =
+      AdminFormWebhookController.handleGetWebhookDeliveries[1]
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID },
+      query: { limit: 20 },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with webhook deliveries', async () => {
+      const mockRes = expressHandler.mockResponse()
+      const mockDeliveries: WebhookDeliveryDto[] = [
+        {
+          submissionId: MOCK_SUBMISSION_ID as SubmissionId,
+          submissionTime: new Date().toISOString() as DateString,
+          webhookUrl: 'https://form.gov.sg/endpoint',
+          status: WebhookDeliveryStatus.Failed,
+          responseStatus: 500,
+          latencyMs: 120,
+          attemptCount: 7,
+          lastAttemptAt: new Date().toISOString() as DateString,
+        },
+      ]
+      MockWebhookService.getWebhookDeliveries.mockReturnValueOnce(
+        okAsync(mockDeliveries),
+      )
+
+      await handleGetWebhookDeliveries(MOCK_REQ, mockRes, jest.fn())
+
+      expect(MockAuthService.getFormAfterPermissionChecks).toHaveBeenCalledWith(
+        {
+          user: MOCK_USER,
+          formId: MOCK_FORM_ID,
+          level: PermissionLevel.Read,
+        },
+      )
+      expect(MockWebhookService.getWebhookDeliveries).toHaveBeenCalledWith(
+        MOCK_FORM_ID,
+        20,
+        undefined,
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith(mockDeliveries)
+    })
+
+    it('should return 403 when user does not have read permissions', async () => {
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormAfterPermissionChecks.mockReturnValueOnce(
+        errAsync(new ForbiddenFormError('not allowed')),
+      )
+
+      await handleGetWebhookDeliveries(MOCK_REQ, mockRes, jest.fn())
+
+      expect(MockWebhookService.getWebhookDeliveries).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.FORBIDDEN)
+    })
+
+    it('should return 500 when database error occurs', async () => {
+      const mockRes = expressHandler.mockResponse()
+      MockWebhookService.getWebhookDeliveries.mockReturnValueOnce(
+        errAsync(new DatabaseError()),
+      )
+
+      await handleGetWebhookDeliveries(MOCK_REQ, mockRes, jest.fn())
+
+      expect(mockRes.status).toHaveBeenCalledWith(
+        StatusCodes.INTERNAL_SERVER_ERROR,
+      )
+    })
+  })
+
+  describe('handleRedeliverWebhook', () => {
+    // Skip the validator.
+    const handleRedeliverWebhook =
+      AdminFormWebhookController.handleRedeliverWebhook[1]
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID, submissionId: MOCK_SUBMISSION_ID },
+      body: {},
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 when webhook is queued for redelivery', async () => {
+      const mockRes = expressHandler.mockResponse()
+      MockWebhookFactory.redeliverWebhook.mockReturnValueOnce(okAsync(true))
+
+      await handleRedeliverWebhook(MOCK_REQ, mockRes, jest.fn())
+
+      expect(MockAuthService.getFormAfterPermissionChecks).toHaveBeenCalledWith(
+        {
+          user: MOCK_USER,
+          formId: MOCK_FORM_ID,
+          level: PermissionLevel.Write,
+        },
+      )
+      expect(MockWebhookFactory.redeliverWebhook).toHaveBeenCalledWith(
+        MOCK_FORM,
+        MOCK_SUBMISSION_ID,
+        undefined,
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith({ count: 1 })
+    })
+
+    it('should redeliver to the given additional endpoint', async () => {
+      const mockRes = expressHandler.mockResponse()
+      const mockEndpointId = new ObjectId().toHexString()
+      const mockReq = expressHandler.mockRequest({
+        params: { formId: MOCK_FORM_ID, submissionId: MOCK_SUBMISSION_ID },
+        body: { endpointId: mockEndpointId },
+        session: MOCK_SESSION,
+      })
+      MockWebhookFactory.redeliverWebhook.mockReturnValueOnce(okAsync(true))
+
+      await handleRedeliverWebhook(mockReq, mockRes, jest.fn())
+
+      expect(MockWebhookFactory.redeliverWebhook).toHaveBeenCalledWith(
+        MOCK_FORM,
+        MOCK_SUBMISSION_ID,
+        mockEndpointId,
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+    })
+
+    it('should return 404 when submission does not belong to form', async () => {
+      const mockRes = expressHandler.mockResponse()
+      MockWebhookFactory.redeliverWebhook.mockReturnValueOnce(
+        errAsync(new SubmissionNotFoundError()),
+      )
+
+      await handleRedeliverWebhook(MOCK_REQ, mockRes, jest.fn())
+
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.NOT_FOUND)
+    })
+
+    it('should return 503 when webhook queue is not configured', async () => {
+      const mockRes = expressHandler.mockResponse()
+      MockWebhookFactory.redeliverWebhook.mockReturnValueOnce(
+        errAsync(new WebhookRedeliveryUnavailableError()),
+      )
+
+      await handleRedeliverWebhook(MOCK_REQ, mockRes, jest.fn())
+
+      expect(mockRes.status).toHaveBeenCalledWith(
+        StatusCodes.SERVICE_UNAVAILABLE,
+      )
+    })
+  })
+
+  describe('handleRedeliverFailedWebhooks', () => {
+    // Skip the validator.
+    const handleRedeliverFailedWebhooks =
+      AdminFormWebhookController.handleRedeliverFailedWebhooks[1]
+    const MOCK_SINCE = new Date('2023-01-01T00:00:00.000Z')
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID },
+      body: { since: MOCK_SINCE.toISOString() },
+      session: MOCK_SESSION,
+    })
+
+    it('should return 200 with the number of webhooks queued for redelivery', async () => {
+      const mockRes = expressHandler.mockResponse()
+      MockWebhookFactory.redeliverFailedWebhooks.mockReturnValueOnce(okAsync(3))
+
+      await handleRedeliverFailedWebhooks(MOCK_REQ, mockRes, jest.fn())
+
+      expect(MockWebhookFactory.redeliverFailedWebhooks).toHaveBeenCalledWith(
+        MOCK_FORM,
+        MOCK_SINCE,
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(StatusCodes.OK)
+      expect(mockRes.json).toHaveBeenCalledWith({ count: 3 })
+    })
+  })
+})
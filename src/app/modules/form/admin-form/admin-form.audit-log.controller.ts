@@ -0,0 +1,161 @@
+import { celebrate, Joi, Segments } from 'celebrate'
+import { AuthedSessionData } from 'express-session'
+import { StatusCodes } from 'http-status-codes'
+
+import {
+  ErrorDto,
+  FormAuditLogQueryDto,
+  FormAuditLogsDto,
+} from '../../../../../shared/types'
+import { createLoggerWithLabel } from '../../../config/logger'
+import { createReqMeta } from '../../../utils/request'
+import * as AuthService from '../../auth/auth.service'
+import { ControllerHandler } from '../../core/core.types'
+import * as FormAuditLogService from '../../form-audit-log/form-audit-log.service'
+import {
+  convertFormAuditLogsToCsv,
+  toFormAuditLogDto,
+} from '../../form-audit-log/form-audit-log.utils'
+import * as UserService from '../../user/user.service'
+
+import { PermissionLevel } from './admin-form.types'
+import { mapRouteError } from './admin-form.utils'
+
+const logger = createLoggerWithLabel(module)
+
+/**
+ * Private handler for GET /:formId/audit-logs
+ * NOTE: Exported for testing.
+ * @precondition Must be preceded by request validation
+ * @security session
+ *
+ * @returns 200 with a page of the changes made to the form, most recent first, and the total number of changes
+ * @returns 400 when the page is malformed
+ * @returns 403 when current user does not have permissions to view the form
+ * @returns 404 when form cannot be found
+ * @returns 410 when the form has been archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleListFormAuditLogs: ControllerHandler<
+  { formId: string },
+  FormAuditLogsDto | ErrorDto,
+  unknown,
+  FormAuditLogQueryDto
+> = (req, res) => {
+  const { formId } = req.params
+  const { page, pageSize } = req.query
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  // Step 1: Retrieve currently logged in user.
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      // Step 2: Retrieve form with read permission check.
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
+      }),
+    )
+    .andThen(() =>
+      // Step 3: Retrieve the requested page of the audit log.
+      FormAuditLogService.listFormAuditLogs(formId, { page, pageSize }),
+    )
+    .map(({ auditLogs, count }) =>
+      res.status(StatusCodes.OK).json({
+        auditLogs: auditLogs.map(toFormAuditLogDto),
+        count,
+      }),
+    )
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error occurred when retrieving form audit logs',
+        meta: {
+          action: '_handleListFormAuditLogs',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+          query: req.query,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleListFormAuditLogsForTest = _handleListFormAuditLogs
+
+const listFormAuditLogsValidator = celebrate({
+  [Segments.QUERY]: Joi.object().keys({
+    page: Joi.number().min(1),
+    pageSize: Joi.number().min(1).max(100),
+  }),
+})
+
+/**
+ * Handler for GET /:formId/audit-logs
+ */
+export const handleListFormAuditLogs = [
+  listFormAuditLogsValidator,
+  _handleListFormAuditLogs,
+] as ControllerHandler[]
+
+/**
+ * Handler for GET /:formId/audit-logs/download
+ * @security session
+ *
+ * @returns 200 with a CSV file of all the changes made to the form
+ * @returns 403 when current user does not have permissions to view the form
+ * @returns 404 when form cannot be found
+ * @returns 410 when the form has been archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+export const handleDownloadFormAuditLogs: ControllerHandler<
+  { formId: string },
+  string | ErrorDto
+> = (req, res) => {
+  const { formId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  // Step 1: Retrieve currently logged in user.
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      // Step 2: Retrieve form with read permission check.
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
+      }),
+    )
+    .andThen(() =>
+      // Step 3: Retrieve the whole audit log of the form.
+      FormAuditLogService.getAllFormAuditLogs(formId),
+    )
+    .map((auditLogs) => {
+      res.set({
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename=${formId}-audit-log.csv`,
+      })
+      return res
+        .status(StatusCodes.OK)
+        .send(convertFormAuditLogsToCsv(auditLogs.map(toFormAuditLogDto)))
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error occurred when downloading form audit logs',
+        meta: {
+          action: 'handleDownloadFormAuditLogs',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
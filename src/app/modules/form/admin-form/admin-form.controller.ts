@@ -2,7 +2,6 @@ import JoiDate from '@joi/date'
 import axios from 'axios'
 import { ObjectId } from 'bson'
 import { celebrate, Joi as BaseJoi, Segments } from 'celebrate'
-import { AuthedSessionData } from 'express-session'
 import { StatusCodes } from 'http-status-codes'
 import JSONStream from 'JSONStream'
 import { ResultAsync } from 'neverthrow'
@@ -11,9 +10,11 @@ import {
   MAX_UPLOAD_FILE_SIZE,
   VALID_UPLOAD_FILE_TYPES,
 } from '../../../../../shared/constants/file'
+import { TRANSLATABLE_LANGUAGES } from '../../../../../shared/constants/form'
 import {
   AdminDashboardFormMetaDto,
   BasicField,
+  CollaboratorRole,
   CreateFormBodyDto,
   DeserializeTransform,
   DuplicateFormBodyDto,
@@ -21,16 +22,20 @@ import {
   ErrorDto,
   FieldCreateDto,
   FieldUpdateDto,
+  FormAuditAction,
   FormAuthType,
   FormColorTheme,
   FormDto,
   FormFeedbackMetaDto,
+  FormFeedbackMetaQueryDto,
   FormFieldDto,
   FormLogoState,
   FormResponseMode,
   FormSettings,
+  FormStatus,
   LogicConditionState,
   LogicDto,
+  LogicGroupOperator,
   LogicIfValue,
   LogicType,
   PermissionsUpdateDto,
@@ -55,6 +60,7 @@ import MailService from '../../../services/mail/mail.service'
 import * as SmsService from '../../../services/sms/sms.service'
 import { createReqMeta } from '../../../utils/request'
 import * as AuthService from '../../auth/auth.service'
+import { getAuthedUserId } from '../../auth/auth.utils'
 import {
   DatabaseConflictError,
   DatabaseError,
@@ -63,6 +69,14 @@ import {
 } from '../../core/core.errors'
 import { ControllerHandler } from '../../core/core.types'
 import * as FeedbackService from '../../feedback/feedback.service'
+import * as FormAuditLogService from '../../form-audit-log/form-audit-log.service'
+import {
+  CHANGED_SECRET_AUDIT_VALUE,
+  SET_SECRET_AUDIT_VALUE,
+  toAuditValues,
+  toSettingsAuditValues,
+} from '../../form-audit-log/form-audit-log.utils'
+import * as FormTemplateService from '../../form-template/form-template.service'
 import * as EmailSubmissionMiddleware from '../../submission/email-submission/email-submission.middleware'
 import * as EmailSubmissionService from '../../submission/email-submission/email-submission.service'
 import {
@@ -80,6 +94,7 @@ import { extractEmailConfirmationData } from '../../submission/submission.utils'
 import * as UserService from '../../user/user.service'
 import { PrivateFormError } from '../form.errors'
 import * as FormService from '../form.service'
+import { getFormFieldById, getFormFieldIndexById } from '../form.utils'
 
 import { TwilioCredentials } from './../../../services/sms/sms.types'
 import {
@@ -99,6 +114,18 @@ const Joi = BaseJoi.extend(JoiDate) as typeof BaseJoi
 const logger = createLoggerWithLabel(module)
 
 // Validators
+// Translations of a piece of form content, at most one per language.
+const joiTranslations = Joi.array()
+  .items(
+    Joi.object({
+      language: Joi.string()
+        .valid(...TRANSLATABLE_LANGUAGES)
+        .required(),
+      translation: Joi.string().allow('').required(),
+    }),
+  )
+  .unique('language')
+
 const createFormValidator = celebrate({
   [Segments.BODY]: {
     form: BaseJoi.object<Omit<IForm, 'admin'>>()
@@ -202,7 +229,7 @@ export const handleListDashboardForms: ControllerHandler<
   unknown,
   AdminDashboardFormMetaDto[] | ErrorDto
 > = async (req, res) => {
-  const authedUserId = (req.session as AuthedSessionData).user._id
+  const authedUserId = getAuthedUserId(req)
 
   return AdminFormService.getDashboardForms(authedUserId)
     .map((dashboardView) => res.json(dashboardView))
@@ -236,7 +263,7 @@ export const handleGetAdminForm: ControllerHandler<{ formId: string }> = (
   res,
 ) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve currently logged in user.
@@ -247,6 +274,7 @@ export const handleGetAdminForm: ControllerHandler<{ formId: string }> = (
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         }),
       )
       .map((form) => res.status(StatusCodes.OK).json({ form }))
@@ -282,7 +310,7 @@ export const handleGetFormCollaborators: ControllerHandler<
   PermissionsUpdateDto | ErrorDto
 > = (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve currently logged in user.
@@ -293,6 +321,7 @@ export const handleGetFormCollaborators: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         }),
       )
       .map(({ permissionList }) =>
@@ -330,7 +359,7 @@ export const handlePreviewAdminForm: ControllerHandler<{ formId: string }> = (
   res,
 ) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   return (
     // Step 1: Retrieve currently logged in user.
     UserService.getPopulatedUserById(sessionUserId)
@@ -340,6 +369,7 @@ export const handlePreviewAdminForm: ControllerHandler<{ formId: string }> = (
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Remove private details from form for previewing.
@@ -386,7 +416,7 @@ export const createPresignedPostUrlForImages: ControllerHandler<
 > = async (req, res) => {
   const { formId } = req.params
   const { fileId, fileMd5Hash, fileType } = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Adding random objectId ensures fileId is unpredictable by client
   const randomizedFileId = `${String(new ObjectId())}-${fileId}`
@@ -400,6 +430,7 @@ export const createPresignedPostUrlForImages: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Has write permissions, generate presigned POST URL.
@@ -454,7 +485,7 @@ export const createPresignedPostUrlForLogos: ControllerHandler<
 > = async (req, res) => {
   const { formId } = req.params
   const { fileId, fileMd5Hash, fileType } = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Adding random objectId ensures fileId is unpredictable by client
   const randomizedFileId = `${String(new ObjectId())}-${fileId}`
@@ -468,6 +499,7 @@ export const createPresignedPostUrlForLogos: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Has write permissions, generate presigned POST URL.
@@ -530,7 +562,7 @@ export const countFormSubmissions: ControllerHandler<
 > = async (req, res) => {
   const { formId } = req.params
   const dateRange = req.query
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   const logMeta = {
     action: 'handleCountFormSubmissions',
@@ -548,6 +580,7 @@ export const countFormSubmissions: ControllerHandler<
       user,
       formId,
       level: PermissionLevel.Read,
+      scope: req.formPermissionScope,
     }),
   )
 
@@ -602,7 +635,7 @@ export const handleCountFormFeedback: ControllerHandler<
   number | ErrorDto
 > = async (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve currently logged in user.
@@ -613,6 +646,7 @@ export const handleCountFormFeedback: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Retrieve form feedback counts.
@@ -651,7 +685,7 @@ export const handleStreamFormFeedback: ControllerHandler<{
   formId: string
 }> = async (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   const hasReadPermissionResult = await UserService.getPopulatedUserById(
@@ -662,6 +696,7 @@ export const handleStreamFormFeedback: ControllerHandler<{
       user,
       formId,
       level: PermissionLevel.Read,
+      scope: req.formPermissionScope,
     }),
   )
 
@@ -731,22 +766,28 @@ export const handleStreamFormFeedback: ControllerHandler<{
 }
 
 /**
- * Handler for GET /{formId}/adminform/feedback.
+ * Private handler for GET /{formId}/adminform/feedback.
+ * NOTE: Exported for testing.
+ * @precondition Must be preceded by request validation
  * @security session
  *
  * @returns 200 with feedback response
+ * @returns 400 when the date range is malformed
  * @returns 403 when user does not have permissions to access form
  * @returns 404 when form cannot be found
  * @returns 410 when form is archived
  * @returns 422 when user in session cannot be retrieved from the database
  * @returns 500 when database error occurs
  */
-export const handleGetFormFeedback: ControllerHandler<
+const _handleGetFormFeedback: ControllerHandler<
   { formId: string },
-  FormFeedbackMetaDto | ErrorDto
+  FormFeedbackMetaDto | ErrorDto,
+  unknown,
+  FormFeedbackMetaQueryDto
 > = (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const { startDate, endDate, rating } = req.query
+  const sessionUserId = getAuthedUserId(req)
 
   return UserService.getPopulatedUserById(sessionUserId)
     .andThen((user) =>
@@ -754,9 +795,12 @@ export const handleGetFormFeedback: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
       }),
     )
-    .andThen(() => FeedbackService.getFormFeedbacks(formId))
+    .andThen(() =>
+      FeedbackService.getFormFeedbacks(formId, { startDate, endDate, rating }),
+    )
     .map((fbResponse) => res.json(fbResponse))
     .mapErr((error) => {
       logger.error({
@@ -766,6 +810,7 @@ export const handleGetFormFeedback: ControllerHandler<
           ...createReqMeta(req),
           userId: sessionUserId,
           formId,
+          query: req.query,
         },
         error,
       })
@@ -774,6 +819,27 @@ export const handleGetFormFeedback: ControllerHandler<
     })
 }
 
+export const handleGetFormFeedbackForTest = _handleGetFormFeedback
+
+/**
+ * Handler for GET /{formId}/adminform/feedback.
+ */
+export const handleGetFormFeedback = [
+  celebrate({
+    [Segments.QUERY]: Joi.object()
+      .keys({
+        startDate: Joi.date().format('YYYY-MM-DD').raw(),
+        endDate: Joi.date()
+          .format('YYYY-MM-DD')
+          .min(Joi.ref('startDate'))
+          .raw(),
+        rating: Joi.number().integer().min(1).max(5),
+      })
+      .and('startDate', 'endDate'),
+  }),
+  _handleGetFormFeedback,
+] as ControllerHandler[]
+
 /**
  * Handler for DELETE /{formId}/adminform.
  * @security session
@@ -790,7 +856,7 @@ export const handleArchiveForm: ControllerHandler<{ formId: string }> = async (
   res,
 ) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve currently logged in user.
@@ -804,7 +870,19 @@ export const handleArchiveForm: ControllerHandler<{ formId: string }> = async (
         }),
       )
       // Step 3: Currently logged in user has permissions to archive form.
-      .andThen((formToArchive) => AdminFormService.archiveForm(formToArchive))
+      .andThen((formToArchive) => {
+        const { status } = formToArchive
+        return AdminFormService.archiveForm(formToArchive).andThen(() =>
+          // Step 4: Record the archival in the audit log of the form.
+          FormAuditLogService.createFormAuditLog({
+            formId,
+            actorId: sessionUserId,
+            action: FormAuditAction.ArchiveForm,
+            before: { status },
+            after: { status: FormStatus.Archived },
+          }),
+        )
+      })
       .map(() => res.json({ message: 'Form has been archived' }))
       .mapErr((error) => {
         logger.warn({
@@ -843,7 +921,7 @@ export const duplicateAdminForm: ControllerHandler<
   DuplicateFormBodyDto
 > = (req, res) => {
   const { formId } = req.params
-  const userId = (req.session as AuthedSessionData).user._id
+  const userId = getAuthedUserId(req)
   const overrideParams = req.body
 
   return (
@@ -855,6 +933,7 @@ export const duplicateAdminForm: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         })
           .andThen((originalForm) =>
             // Step 3: Duplicate form.
@@ -908,7 +987,7 @@ export const handleGetTemplateForm: ControllerHandler<
   PreviewFormViewDto | ErrorDto | PrivateFormErrorDto
 > = (req, res) => {
   const { formId } = req.params
-  const userId = (req.session as AuthedSessionData).user._id
+  const userId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve form only if form is currently public.
@@ -968,7 +1047,7 @@ export const handleCopyTemplateForm: ControllerHandler<
   DuplicateFormBodyDto
 > = (req, res) => {
   const { formId } = req.params
-  const userId = (req.session as AuthedSessionData).user._id
+  const userId = getAuthedUserId(req)
   const overrideParams = req.body
 
   return (
@@ -979,7 +1058,13 @@ export const handleCopyTemplateForm: ControllerHandler<
         AuthService.getFormIfPublic(formId).andThen((originalForm) =>
           // Step 3: Duplicate form.
           AdminFormService.duplicateForm(originalForm, userId, overrideParams)
-            // Step 4: Retrieve dashboard view of duplicated form.
+            // Step 4: Count the usage if the form is in the templates gallery.
+            .andThen((duplicatedForm) =>
+              FormTemplateService.incrementFormTemplateUseCount(formId).map(
+                () => duplicatedForm,
+              ),
+            )
+            // Step 5: Retrieve dashboard view of duplicated form.
             .map((duplicatedForm) => duplicatedForm.getDashboardView(user)),
         ),
       )
@@ -1030,7 +1115,7 @@ export const transferFormOwnership: ControllerHandler<
 > = (req, res) => {
   const { formId } = req.params
   const { email: newOwnerEmail } = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve currently logged in user.
@@ -1044,9 +1129,28 @@ export const transferFormOwnership: ControllerHandler<
         }),
       )
       // Step 3: User has permissions, transfer form ownership.
-      .andThen((retrievedForm) =>
-        AdminFormService.transferFormOwnership(retrievedForm, newOwnerEmail),
-      )
+      .andThen((retrievedForm) => {
+        const before = toAuditValues({
+          admin: retrievedForm.admin.email,
+          permissionList: retrievedForm.permissionList,
+        })
+        return AdminFormService.transferFormOwnership(
+          retrievedForm,
+          newOwnerEmail,
+        ).andThen((updatedPopulatedForm) =>
+          // Step 4: Record the transfer in the audit log of the form.
+          FormAuditLogService.createFormAuditLog({
+            formId,
+            actorId: sessionUserId,
+            action: FormAuditAction.TransferOwnership,
+            before,
+            after: {
+              admin: updatedPopulatedForm.admin.email,
+              permissionList: updatedPopulatedForm.permissionList,
+            },
+          }).map(() => updatedPopulatedForm),
+        )
+      })
       // Success, return updated form.
       .map((updatedPopulatedForm) => res.json({ form: updatedPopulatedForm }))
       // Some error occurred earlier in the chain.
@@ -1089,7 +1193,7 @@ export const createForm: ControllerHandler<
   { form: CreateFormBodyDto }
 > = async (req, res) => {
   const { form: formParams } = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve currently logged in user.
@@ -1146,7 +1250,7 @@ export const handleUpdateForm: ControllerHandler<
 > = (req, res) => {
   const { formId } = req.params
   const { form: formUpdateParams } = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return UserService.getPopulatedUserById(sessionUserId)
@@ -1156,6 +1260,7 @@ export const handleUpdateForm: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
       }),
     )
     .andThen((retrievedForm) => {
@@ -1215,7 +1320,7 @@ export const handleDuplicateFormField: ControllerHandler<
   FormFieldDto | ErrorDto
 > = (req, res) => {
   const { formId, fieldId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return UserService.getPopulatedUserById(sessionUserId)
@@ -1225,6 +1330,7 @@ export const handleDuplicateFormField: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
       }),
     )
     .andThen((form) => {
@@ -1234,6 +1340,15 @@ export const handleDuplicateFormField: ControllerHandler<
       )
     })
     .andThen((form) => AdminFormService.duplicateFormField(form, fieldId))
+    .andThen((duplicatedField) =>
+      FormAuditLogService.createFormAuditLog({
+        formId,
+        actorId: sessionUserId,
+        action: FormAuditAction.DuplicateField,
+        targetId: String(duplicatedField._id),
+        after: duplicatedField,
+      }).map(() => duplicatedField),
+    )
     .map((duplicatedField) =>
       res.status(StatusCodes.OK).json(duplicatedField as FormFieldDto),
     )
@@ -1260,7 +1375,7 @@ export const _handleUpdateSettings: ControllerHandler<
   SettingsUpdateDto
 > = (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   const settingsToPatch = req.body
 
   // Step 1: Retrieve currently logged in user.
@@ -1271,11 +1386,24 @@ export const _handleUpdateSettings: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
       }),
     )
-    .andThen((retrievedForm) =>
-      AdminFormService.updateFormSettings(retrievedForm, settingsToPatch),
-    )
+    .andThen((retrievedForm) => {
+      const before = toAuditValues(retrievedForm.getSettings())
+      return AdminFormService.updateFormSettings(
+        retrievedForm,
+        settingsToPatch,
+      ).andThen((updatedSettings) =>
+        FormAuditLogService.createFormAuditLog({
+          formId,
+          actorId: sessionUserId,
+          action: FormAuditAction.UpdateSettings,
+          before,
+          after: toSettingsAuditValues(updatedSettings, settingsToPatch),
+        }).map(() => updatedSettings),
+      )
+    })
     .map((updatedSettings) => res.status(StatusCodes.OK).json(updatedSettings))
     .mapErr((error) => {
       logger.error({
@@ -1329,7 +1457,7 @@ export const _handleUpdateFormField: ControllerHandler<
 > = (req, res) => {
   const { formId, fieldId } = req.params
   const updatedFormField = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return (
@@ -1340,6 +1468,7 @@ export const _handleUpdateFormField: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Check if the user has exceeded the allowable limit for sms if the fieldType is mobile
@@ -1347,9 +1476,26 @@ export const _handleUpdateFormField: ControllerHandler<
         AdminFormService.shouldUpdateFormField(form, updatedFormField),
       )
       // Step 4: User has permissions, update form field of retrieved form.
-      .andThen((form) =>
-        AdminFormService.updateFormField(form, fieldId, updatedFormField),
-      )
+      .andThen((form) => {
+        const before = toAuditValues(
+          getFormFieldById(form.form_fields, fieldId),
+        )
+        return AdminFormService.updateFormField(
+          form,
+          fieldId,
+          updatedFormField,
+        ).andThen((updatedFormField) =>
+          // Step 5: Record the update in the audit log of the form.
+          FormAuditLogService.createFormAuditLog({
+            formId,
+            actorId: sessionUserId,
+            action: FormAuditAction.UpdateField,
+            targetId: fieldId,
+            before,
+            after: updatedFormField,
+          }).map(() => updatedFormField),
+        )
+      })
       .map((updatedFormField) =>
         res.status(StatusCodes.OK).json(updatedFormField as FormFieldDto),
       )
@@ -1388,7 +1534,7 @@ export const handleGetSettings: ControllerHandler<
   FormSettings | ErrorDto
 > = (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return UserService.getPopulatedUserById(sessionUserId)
     .andThen((user) =>
@@ -1398,7 +1544,12 @@ export const handleGetSettings: ControllerHandler<
         user,
       })),
     )
-    .andThen(AuthService.checkFormForPermissions(PermissionLevel.Read))
+    .andThen(
+      AuthService.checkFormForPermissions(
+        PermissionLevel.Read,
+        req.formPermissionScope,
+      ),
+    )
     .map((form) => res.status(StatusCodes.OK).json(form.getSettings()))
     .mapErr((error) => {
       logger.error({
@@ -1434,9 +1585,9 @@ export const submitEncryptPreview: ControllerHandler<
   EncryptSubmissionDto
 > = async (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   // No need to process attachments as we don't do anything with them
-  const { encryptedContent, responses, version } = req.body
+  const { encryptedContent, responses, version, language } = req.body
   const logMeta = {
     action: 'submitEncryptPreview',
     formId,
@@ -1450,6 +1601,7 @@ export const submitEncryptPreview: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
       }),
     )
     .andThen((form) =>
@@ -1482,6 +1634,7 @@ export const submitEncryptPreview: ControllerHandler<
           // Don't bother encrypting and signing mock variables for previews
           verifiedContent: '',
           version,
+          language,
         })
 
       void SubmissionService.sendEmailConfirmations({
@@ -1490,6 +1643,7 @@ export const submitEncryptPreview: ControllerHandler<
         recipientData: extractEmailConfirmationData(
           incomingSubmission.responses,
           form.form_fields,
+          submission.language,
         ),
       })
 
@@ -1529,9 +1683,9 @@ export const submitEmailPreview: ControllerHandler<
   { captchaResponse?: unknown }
 > = async (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   // No need to process attachments as we don't do anything with them
-  const { responses } = req.body
+  const { responses, language } = req.body
   const logMeta = {
     action: 'submitEmailPreview',
     formId,
@@ -1544,6 +1698,7 @@ export const submitEmailPreview: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
       }),
     )
     .andThen(EmailSubmissionService.checkFormIsEmailMode)
@@ -1604,6 +1759,7 @@ export const submitEmailPreview: ControllerHandler<
     // Don't need to care about response hash or salt
     '',
     '',
+    language,
   )
 
   const sendAdminEmailResult = await MailService.sendSubmissionToAdmin({
@@ -1640,6 +1796,7 @@ export const submitEmailPreview: ControllerHandler<
     recipientData: extractEmailConfirmationData(
       parsedResponses.getAllResponses(),
       form.form_fields,
+      submission.language,
     ),
   }).mapErr((error) => {
     logger.error({
@@ -1728,7 +1885,7 @@ export const _handleCreateFormField: ControllerHandler<
   const { formId } = req.params
   const { to } = req.query
   const formFieldToCreate = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return (
@@ -1739,6 +1896,7 @@ export const _handleCreateFormField: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Check if the user has exceeded the allowable limit for sms if the fieldType is mobile
@@ -1749,6 +1907,16 @@ export const _handleCreateFormField: ControllerHandler<
       .andThen((form) =>
         AdminFormService.createFormField(form, formFieldToCreate, to),
       )
+      // Step 5: Record the creation in the audit log of the form.
+      .andThen((createdFormField) =>
+        FormAuditLogService.createFormAuditLog({
+          formId,
+          actorId: sessionUserId,
+          action: FormAuditAction.CreateField,
+          targetId: String(createdFormField._id),
+          after: createdFormField,
+        }).map(() => createdFormField),
+      )
       .map((createdFormField) =>
         res.status(StatusCodes.OK).json(createdFormField as FormFieldDto),
       )
@@ -1789,7 +1957,7 @@ export const _handleCreateLogic: ControllerHandler<
 > = (req, res) => {
   const { formId } = req.params
   const createLogicBody = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return (
@@ -1800,12 +1968,23 @@ export const _handleCreateLogic: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Create form logic
       .andThen((retrievedForm) =>
         AdminFormService.createFormLogic(retrievedForm, createLogicBody),
       )
+      // Step 4: Record the creation in the audit log of the form.
+      .andThen((createdLogic) =>
+        FormAuditLogService.createFormAuditLog({
+          formId,
+          actorId: sessionUserId,
+          action: FormAuditAction.CreateLogic,
+          targetId: String(createdLogic._id),
+          after: createdLogic,
+        }).map(() => createdLogic),
+      )
       .map((createdLogic) =>
         res.status(StatusCodes.OK).json(createdLogic as LogicDto),
       )
@@ -1827,6 +2006,20 @@ export const _handleCreateLogic: ControllerHandler<
   )
 }
 
+// Date condition values are stored as ISO dates (yyyy-MM-dd).
+const joiLogicDateValue = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/)
+
+// Items of condition groups are either indices of conditions or nested groups.
+const joiLogicConditionGroup = Joi.object({
+  operator: Joi.string()
+    .valid(...Object.values(LogicGroupOperator))
+    .required(),
+  items: Joi.array()
+    .items(Joi.number().integer().min(0), Joi.link('#logicConditionGroup'))
+    .min(1)
+    .required(),
+}).id('logicConditionGroup')
+
 /**
  * Shape of request body used for joi validation for create and update logic
  */
@@ -1841,20 +2034,41 @@ const joiLogicBody = {
         state: Joi.string()
           .valid(...Object.values(LogicConditionState))
           .required(),
-        value: Joi.alternatives()
-          .try(
-            Joi.number(),
-            Joi.string(),
-            Joi.array().items(Joi.string()),
-            Joi.array().items(Joi.number()),
-          )
-          .required(),
+        value: Joi.when('state', {
+          switch: [
+            {
+              // Emptiness conditions do not compare against any value.
+              is: LogicConditionState.IsEmpty,
+              then: Joi.string().allow('').default(''),
+            },
+            {
+              is: Joi.valid(
+                LogicConditionState.Before,
+                LogicConditionState.After,
+              ),
+              then: joiLogicDateValue.required(),
+            },
+            {
+              is: LogicConditionState.Between,
+              then: Joi.array().items(joiLogicDateValue).length(2).required(),
+            },
+          ],
+          otherwise: Joi.alternatives()
+            .try(
+              Joi.number(),
+              Joi.string(),
+              Joi.array().items(Joi.string()),
+              Joi.array().items(Joi.number()),
+            )
+            .required(),
+        }),
         ifValueType: Joi.string()
           .valid(...Object.values(LogicIfValue))
           .required(),
       }).unknown(true),
     )
     .required(),
+  conditionGroup: joiLogicConditionGroup,
   show: Joi.alternatives().conditional('logicType', {
     is: LogicType.ShowFields,
     then: Joi.array().items(Joi.string()).required(),
@@ -1863,6 +2077,29 @@ const joiLogicBody = {
     is: LogicType.PreventSubmit,
     then: Joi.string().required(),
   }),
+  preventSubmitMessageTranslations: Joi.alternatives().conditional(
+    'logicType',
+    {
+      is: LogicType.PreventSubmit,
+      then: joiTranslations,
+    },
+  ),
+  require: Joi.alternatives().conditional('logicType', {
+    is: LogicType.RequireFields,
+    then: Joi.array().items(Joi.string()).min(1).required(),
+  }),
+  setField: Joi.alternatives().conditional('logicType', {
+    is: LogicType.SetFieldValue,
+    then: Joi.string().required(),
+  }),
+  setValue: Joi.alternatives().conditional('logicType', {
+    is: LogicType.SetFieldValue,
+    then: Joi.string().trim().required(),
+  }),
+  skipToSection: Joi.alternatives().conditional('logicType', {
+    is: LogicType.SkipToSection,
+    then: Joi.string().required(),
+  }),
 }
 
 /**
@@ -1890,7 +2127,7 @@ export const handleDeleteLogic: ControllerHandler<{
   logicId: string
 }> = (req, res) => {
   const { formId, logicId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return (
@@ -1901,13 +2138,27 @@ export const handleDeleteLogic: ControllerHandler<{
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
 
       // Step 3: Delete form logic
-      .andThen((retrievedForm) =>
-        AdminFormService.deleteFormLogic(retrievedForm, logicId),
-      )
+      .andThen((retrievedForm) => {
+        const before = toAuditValues(
+          retrievedForm.form_logics.find((logic) => logic.id === logicId),
+        )
+        return AdminFormService.deleteFormLogic(retrievedForm, logicId).andThen(
+          () =>
+            // Step 4: Record the deletion in the audit log of the form.
+            FormAuditLogService.createFormAuditLog({
+              formId,
+              actorId: sessionUserId,
+              action: FormAuditAction.DeleteLogic,
+              targetId: logicId,
+              before,
+            }),
+        )
+      })
       .map(() => res.sendStatus(StatusCodes.OK))
       .mapErr((error) => {
         logger.error({
@@ -1978,7 +2229,7 @@ export const _handleReorderFormField: ControllerHandler<
 > = (req, res) => {
   const { formId, fieldId } = req.params
   const { to } = req.query
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return (
@@ -1989,10 +2240,29 @@ export const _handleReorderFormField: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: User has permissions, proceed to reorder field
-      .andThen((form) => AdminFormService.reorderFormField(form, fieldId, to))
+      .andThen((form) => {
+        const before = {
+          position: getFormFieldIndexById(form.form_fields, fieldId),
+        }
+        return AdminFormService.reorderFormField(form, fieldId, to).andThen(
+          (reorderedFormFields) =>
+            // Step 4: Record the new position in the audit log of the form.
+            FormAuditLogService.createFormAuditLog({
+              formId,
+              actorId: sessionUserId,
+              action: FormAuditAction.ReorderField,
+              targetId: fieldId,
+              before,
+              after: {
+                position: getFormFieldIndexById(reorderedFormFields, fieldId),
+              },
+            }).map(() => reorderedFormFields),
+        )
+      })
       .map((reorderedFormFields) =>
         res.status(StatusCodes.OK).json(reorderedFormFields as FormFieldDto[]),
       )
@@ -2046,7 +2316,7 @@ export const _handleUpdateLogic: ControllerHandler<
 > = (req, res) => {
   const { formId, logicId } = req.params
   const updatedLogic = { ...req.body }
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return (
@@ -2057,12 +2327,30 @@ export const _handleUpdateLogic: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Update form logic
-      .andThen((retrievedForm) =>
-        AdminFormService.updateFormLogic(retrievedForm, logicId, updatedLogic),
-      )
+      .andThen((retrievedForm) => {
+        const before = toAuditValues(
+          retrievedForm.form_logics.find((logic) => logic.id === logicId),
+        )
+        return AdminFormService.updateFormLogic(
+          retrievedForm,
+          logicId,
+          updatedLogic,
+        ).andThen((updatedLogic) =>
+          // Step 4: Record the update in the audit log of the form.
+          FormAuditLogService.createFormAuditLog({
+            formId,
+            actorId: sessionUserId,
+            action: FormAuditAction.UpdateLogic,
+            targetId: logicId,
+            before,
+            after: updatedLogic,
+          }).map(() => updatedLogic),
+        )
+      })
       .map((updatedLogic) =>
         res.status(StatusCodes.OK).json(updatedLogic as LogicDto),
       )
@@ -2122,7 +2410,7 @@ export const handleDeleteFormField: ControllerHandler<
   ErrorDto | void
 > = (req, res) => {
   const { formId, fieldId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve currently logged in user.
@@ -2133,10 +2421,25 @@ export const handleDeleteFormField: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Delete form field.
-      .andThen((form) => AdminFormService.deleteFormField(form, fieldId))
+      .andThen((form) => {
+        const before = toAuditValues(
+          getFormFieldById(form.form_fields, fieldId),
+        )
+        return AdminFormService.deleteFormField(form, fieldId).andThen(() =>
+          // Step 4: Record the deletion in the audit log of the form.
+          FormAuditLogService.createFormAuditLog({
+            formId,
+            actorId: sessionUserId,
+            action: FormAuditAction.DeleteField,
+            targetId: fieldId,
+            before,
+          }),
+        )
+      })
       .map(() => res.sendStatus(StatusCodes.NO_CONTENT))
       .mapErr((error) => {
         logger.error({
@@ -2176,7 +2479,7 @@ export const _handleUpdateEndPage: ControllerHandler<
   EndPageUpdateDto
 > = (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return (
@@ -2187,10 +2490,24 @@ export const _handleUpdateEndPage: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: User has permissions, proceed to allow updating of end page
-      .andThen(() => AdminFormService.updateEndPage(formId, req.body))
+      .andThen((form) => {
+        const before = toAuditValues(form.endPage)
+        return AdminFormService.updateEndPage(formId, req.body).andThen(
+          (updatedEndPage) =>
+            // Step 4: Record the update in the audit log of the form.
+            FormAuditLogService.createFormAuditLog({
+              formId,
+              actorId: sessionUserId,
+              action: FormAuditAction.UpdateEndPage,
+              before,
+              after: updatedEndPage,
+            }).map(() => updatedEndPage),
+        )
+      })
       .map((updatedEndPage) => res.status(StatusCodes.OK).json(updatedEndPage))
       .mapErr((error) => {
         logger.error({
@@ -2223,6 +2540,9 @@ export const handleUpdateEndPage = [
         .allow('')
         .message('Please enter a valid HTTP or HTTPS URI'),
       buttonText: Joi.string().allow(''),
+      titleTranslations: joiTranslations,
+      paragraphTranslations: joiTranslations,
+      buttonTextTranslations: joiTranslations,
       // TODO(#1895): Remove when deprecated `buttons` key is removed from all forms in the database
     }).unknown(true),
   }),
@@ -2249,7 +2569,7 @@ export const handleGetFormField: ControllerHandler<
   ErrorDto | FormFieldDto
 > = (req, res) => {
   const { formId, fieldId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return (
     // Step 1: Retrieve currently logged in user.
@@ -2260,6 +2580,7 @@ export const handleGetFormField: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         }),
       )
       .andThen((form) => AdminFormService.getFormField(form, fieldId))
@@ -2303,7 +2624,7 @@ export const _handleUpdateCollaborators: ControllerHandler<
   PermissionsUpdateDto
 > = (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   // Step 1: Get the form after permission checks
   return (
     UserService.getPopulatedUserById(sessionUserId)
@@ -2313,12 +2634,24 @@ export const _handleUpdateCollaborators: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 2: Update the form collaborators
-      .andThen((form) =>
-        AdminFormService.updateFormCollaborators(form, req.body),
-      )
+      .andThen((form) => {
+        const before = toAuditValues({ permissionList: form.permissionList })
+        return AdminFormService.updateFormCollaborators(form, req.body).andThen(
+          (updatedCollaborators) =>
+            // Step 3: Record the update in the audit log of the form.
+            FormAuditLogService.createFormAuditLog({
+              formId,
+              actorId: sessionUserId,
+              action: FormAuditAction.UpdateCollaborators,
+              before,
+              after: { permissionList: updatedCollaborators },
+            }).map(() => updatedCollaborators),
+        )
+      })
       .map((updatedCollaborators) =>
         res.status(StatusCodes.OK).json(updatedCollaborators),
       )
@@ -2353,6 +2686,9 @@ export const handleUpdateCollaborators = [
           .message('Please enter a valid email')
           .lowercase(),
         write: Joi.bool().optional(),
+        role: Joi.string()
+          .valid(...Object.values(CollaboratorRole))
+          .optional(),
         _id: Joi.string().optional(),
       }),
     ),
@@ -2377,7 +2713,7 @@ export const handleRemoveSelfFromCollaborators: ControllerHandler<
   PermissionsUpdateDto | ErrorDto
 > = (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   let currentUserEmail = ''
   // Step 1: Get the form after permission checks
   return (
@@ -2389,16 +2725,27 @@ export const handleRemoveSelfFromCollaborators: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         })
       })
       // Step 3: Update the form collaborators
       .andThen((form) => {
+        const before = toAuditValues({ permissionList: form.permissionList })
         const updatedPermissionList = form.permissionList.filter(
           (user) => user.email.toLowerCase() !== currentUserEmail.toLowerCase(),
         )
         return AdminFormService.updateFormCollaborators(
           form,
           updatedPermissionList,
+        ).andThen((updatedCollaborators) =>
+          // Step 4: Record the removal in the audit log of the form.
+          FormAuditLogService.createFormAuditLog({
+            formId,
+            actorId: sessionUserId,
+            action: FormAuditAction.UpdateCollaborators,
+            before,
+            after: { permissionList: updatedCollaborators },
+          }).map(() => updatedCollaborators),
         )
       })
       .map((updatedCollaborators) =>
@@ -2441,7 +2788,7 @@ export const _handleUpdateStartPage: ControllerHandler<
   StartPageUpdateDto
 > = (req, res) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Retrieve currently logged in user.
   return (
@@ -2452,10 +2799,24 @@ export const _handleUpdateStartPage: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: User has permissions, proceed to allow updating of start page
-      .andThen(() => AdminFormService.updateStartPage(formId, req.body))
+      .andThen((form) => {
+        const before = toAuditValues(form.startPage)
+        return AdminFormService.updateStartPage(formId, req.body).andThen(
+          (updatedStartPage) =>
+            // Step 4: Record the update in the audit log of the form.
+            FormAuditLogService.createFormAuditLog({
+              formId,
+              actorId: sessionUserId,
+              action: FormAuditAction.UpdateStartPage,
+              before,
+              after: updatedStartPage,
+            }).map(() => updatedStartPage),
+        )
+      })
       .map((updatedStartPage) =>
         res.status(StatusCodes.OK).json(updatedStartPage),
       )
@@ -2484,6 +2845,7 @@ export const handleUpdateStartPage = [
   celebrate({
     [Segments.BODY]: {
       paragraph: Joi.string().allow('').optional(),
+      paragraphTranslations: joiTranslations,
       estTimeTaken: Joi.number().min(1).max(1000).required(),
       colorTheme: Joi.string()
         .valid(...Object.values(FormColorTheme))
@@ -2591,7 +2953,7 @@ export const updateTwilioCredentials: ControllerHandler<
   const { formId } = req.params
   const twilioCredentials = req.body
 
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return UserService.getPopulatedUserById(sessionUserId)
     .andThen((user) =>
@@ -2599,20 +2961,34 @@ export const updateTwilioCredentials: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
       }),
     )
     .andThen((retrievedForm) => {
       const { msgSrvcName } = retrievedForm
 
-      return msgSrvcName
-        ? AdminFormService.updateTwilioCredentials(
-            msgSrvcName,
-            twilioCredentials,
-          )
-        : AdminFormService.createTwilioCredentials(
-            twilioCredentials,
-            retrievedForm,
-          )
+      return (
+        msgSrvcName
+          ? AdminFormService.updateTwilioCredentials(
+              msgSrvcName,
+              twilioCredentials,
+            )
+          : AdminFormService.createTwilioCredentials(
+              twilioCredentials,
+              retrievedForm,
+            )
+      ).andThen(() =>
+        // Record that the credentials were changed, without the credentials.
+        FormAuditLogService.createFormAuditLog({
+          formId,
+          actorId: sessionUserId,
+          action: FormAuditAction.UpdateTwilio,
+          before: {
+            twilioCredentials: msgSrvcName ? SET_SECRET_AUDIT_VALUE : undefined,
+          },
+          after: { twilioCredentials: CHANGED_SECRET_AUDIT_VALUE },
+        }),
+      )
     })
     .map(() =>
       res
@@ -2652,7 +3028,7 @@ export const handleDeleteTwilio: ControllerHandler<{ formId: string }> = (
   res,
 ) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   return UserService.getPopulatedUserById(sessionUserId)
     .andThen((user) =>
@@ -2663,7 +3039,19 @@ export const handleDeleteTwilio: ControllerHandler<{ formId: string }> = (
       }),
     )
     .andThen((retrievedForm) => {
-      return AdminFormService.deleteTwilioCredentials(retrievedForm)
+      return AdminFormService.deleteTwilioCredentials(retrievedForm).andThen(
+        () =>
+          FormAuditLogService.createFormAuditLog({
+            formId,
+            actorId: sessionUserId,
+            action: FormAuditAction.DeleteTwilio,
+            before: {
+              twilioCredentials: retrievedForm.msgSrvcName
+                ? SET_SECRET_AUDIT_VALUE
+                : undefined,
+            },
+          }),
+      )
     })
     .map(() =>
       res
@@ -2697,7 +3085,7 @@ export const handleGetGoLinkSuffix: ControllerHandler<{ formId: string }> = (
   res,
 ) => {
   const { formId } = req.params
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Get the form after permission checks
   return (
@@ -2707,6 +3095,7 @@ export const handleGetGoLinkSuffix: ControllerHandler<{ formId: string }> = (
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         })
       })
       // Step 2: After permission checks, get the GoGov link suffix
@@ -2742,7 +3131,7 @@ export const handleSetGoLinkSuffix: ControllerHandler<
   const goGovBaseUrl = goGovConfig.goGovBaseUrl
   const { formId } = req.params
   const { linkSuffix, adminEmail } = req.body
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
 
   // Step 1: Get the form after permission checks
   return (
@@ -2752,6 +3141,7 @@ export const handleSetGoLinkSuffix: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         })
       })
       // Step 2: After permission checks, try to get GoGov link
@@ -2779,6 +3169,15 @@ export const handleSetGoLinkSuffix: ControllerHandler<
       })
       // Step 3: After obtaining GoGov link, save it to the form
       .andThen(() => AdminFormService.setGoLinkSuffix(formId, linkSuffix))
+      // Step 4: Record the GoGov link in the audit log of the form.
+      .andThen((data) =>
+        FormAuditLogService.createFormAuditLog({
+          formId,
+          actorId: sessionUserId,
+          action: FormAuditAction.UpdateGoLink,
+          after: { goLinkSuffix: linkSuffix },
+        }).map(() => data),
+      )
       .map((data) => res.status(StatusCodes.OK).json(data))
       .mapErr((error) => {
         logger.error({
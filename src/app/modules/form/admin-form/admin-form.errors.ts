@@ -43,3 +43,9 @@ export class GoGovError extends ApplicationError {
     super(message)
   }
 }
+
+export class InvalidLogicError extends ApplicationError {
+  constructor(message: string) {
+    super(message)
+  }
+}
@@ -0,0 +1,96 @@
+import { celebrate, Joi, Segments } from 'celebrate'
+import { AuthedSessionData } from 'express-session'
+import { StatusCodes } from 'http-status-codes'
+
+import {
+  ErrorDto,
+  FormInsightsDto,
+  FormInsightsQueryDto,
+} from '../../../../../shared/types'
+import { createLoggerWithLabel } from '../../../config/logger'
+import { createReqMeta } from '../../../utils/request'
+import * as AuthService from '../../auth/auth.service'
+import { ControllerHandler } from '../../core/core.types'
+import * as InsightsService from '../../insights/insights.service'
+import * as UserService from '../../user/user.service'
+
+import { PermissionLevel } from './admin-form.types'
+import { mapRouteError } from './admin-form.utils'
+
+const logger = createLoggerWithLabel(module)
+
+/**
+ * Private handler for GET /:formId/insights
+ * NOTE: Exported for testing.
+ * @precondition Must be preceded by request validation
+ * @security session
+ *
+ * @returns 200 with the insights of the form
+ * @returns 400 when the date range is malformed
+ * @returns 403 when current user does not have permissions to view the form
+ * @returns 404 when form cannot be found
+ * @returns 410 when the form has been archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleGetFormInsights: ControllerHandler<
+  { formId: string },
+  FormInsightsDto | ErrorDto,
+  unknown,
+  FormInsightsQueryDto
+> = (req, res) => {
+  const { formId } = req.params
+  const { startDate, endDate } = req.query
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  // Step 1: Retrieve currently logged in user.
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      // Step 2: Retrieve form with read permission check.
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
+      }),
+    )
+    .andThen((form) =>
+      // Step 3: Compute the insights of the form within the date range.
+      InsightsService.getFormInsights(form, { startDate, endDate }),
+    )
+    .map((insights) => res.status(StatusCodes.OK).json(insights))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error occurred when retrieving form insights',
+        meta: {
+          action: '_handleGetFormInsights',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+          query: req.query,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleGetFormInsightsForTest = _handleGetFormInsights
+
+const getFormInsightsValidator = celebrate({
+  [Segments.QUERY]: Joi.object()
+    .keys({
+      startDate: Joi.date().format('YYYY-MM-DD').raw(),
+      endDate: Joi.date().format('YYYY-MM-DD').min(Joi.ref('startDate')).raw(),
+    })
+    .and('startDate', 'endDate'),
+})
+
+/**
+ * Handler for GET /:formId/insights
+ */
+export const handleGetFormInsights = [
+  getFormInsightsValidator,
+  _handleGetFormInsights,
+] as ControllerHandler[]
@@ -1,3 +1,4 @@
+import { celebrate, Joi, Segments } from 'celebrate'
 import { AuthedSessionData } from 'express-session'
 import { StatusCodes } from 'http-status-codes'
 import JSONStream from 'JSONStream'
@@ -6,7 +7,13 @@ import {
   ErrorDto,
   FormIssueMetaDto,
   FormIssueMetaQueryDto,
+  FormIssueStatus,
+  ReplyFormIssueBodyDto,
+  UpdateFormIssueBodyDto,
+  UpdateFormIssuesStatusBodyDto,
+  UpdateFormIssuesStatusResponseDto,
 } from '../../../../../shared/types'
+import { IFormIssueSchema } from '../../../../types'
 import { createLoggerWithLabel } from '../../../config/logger'
 import { createReqMeta } from '../../../utils/request'
 import * as AuthService from '../../auth/auth.service'
@@ -30,13 +37,14 @@ const logger = createLoggerWithLabel(module)
  * @returns 422 when user in session cannot be retrieved from the database
  * @returns 500 when database error occurs
  */
-export const handleGetFormIssues: ControllerHandler<
+const _handleGetFormIssues: ControllerHandler<
   { formId: string },
   FormIssueMetaDto | ErrorDto,
   unknown,
   FormIssueMetaQueryDto
 > = (req, res) => {
   const { formId } = req.params
+  const { status, assignee } = req.query
   const sessionUserId = (req.session as AuthedSessionData).user._id
 
   return UserService.getPopulatedUserById(sessionUserId)
@@ -45,9 +53,10 @@ export const handleGetFormIssues: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
       }),
     )
-    .andThen(() => IssueService.getFormIssues(formId))
+    .andThen(() => IssueService.getFormIssues(formId, { status, assignee }))
     .map((response) => res.json(response))
     .mapErr((error) => {
       logger.error({
@@ -57,6 +66,7 @@ export const handleGetFormIssues: ControllerHandler<
           ...createReqMeta(req),
           userId: sessionUserId,
           formId,
+          query: req.query,
         },
         error,
       })
@@ -65,6 +75,218 @@ export const handleGetFormIssues: ControllerHandler<
     })
 }
 
+export const handleGetFormIssuesForTest = _handleGetFormIssues
+
+export const handleGetFormIssues = [
+  celebrate({
+    [Segments.QUERY]: Joi.object({
+      status: Joi.string().valid(...Object.values(FormIssueStatus)),
+      assignee: Joi.string().email(),
+    }),
+  }),
+  _handleGetFormIssues,
+] as ControllerHandler[]
+
+/**
+ * Handler for PATCH /{formId}/issues/{issueId}.
+ * @security session
+ *
+ * @returns 200 with the updated issue
+ * @returns 403 when user does not have permissions to update the form
+ * @returns 404 when form or issue cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 422 when the assignee is not the form admin or a collaborator
+ * @returns 500 when database error occurs
+ */
+const _handleUpdateFormIssue: ControllerHandler<
+  { formId: string; issueId: string },
+  IFormIssueSchema | ErrorDto,
+  UpdateFormIssueBodyDto
+> = (req, res) => {
+  const { formId, issueId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
+      }).andThen((form) =>
+        IssueService.updateFormIssue({
+          form,
+          issueId,
+          update: req.body,
+          updatedBy: user.email,
+        }),
+      ),
+    )
+    .map((issue) => res.status(StatusCodes.OK).json(issue))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error updating form issue',
+        meta: {
+          action: 'handleUpdateFormIssue',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+          issueId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleUpdateFormIssueForTest = _handleUpdateFormIssue
+
+export const handleUpdateFormIssue = [
+  celebrate({
+    [Segments.BODY]: Joi.object({
+      status: Joi.string().valid(...Object.values(FormIssueStatus)),
+      assignee: Joi.string().email().allow(null),
+      note: Joi.string().trim().max(2000),
+    }).min(1),
+  }),
+  _handleUpdateFormIssue,
+] as ControllerHandler[]
+
+/**
+ * Handler for PATCH /{formId}/issues.
+ * @security session
+ *
+ * @returns 200 with the number of issues updated
+ * @returns 403 when user does not have permissions to update the form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleUpdateFormIssuesStatus: ControllerHandler<
+  { formId: string },
+  UpdateFormIssuesStatusResponseDto | ErrorDto,
+  UpdateFormIssuesStatusBodyDto
+> = (req, res) => {
+  const { formId } = req.params
+  const { issueIds, status } = req.body
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
+      }),
+    )
+    .andThen(() =>
+      IssueService.updateFormIssuesStatus({ formId, issueIds, status }),
+    )
+    .map((response) => res.status(StatusCodes.OK).json(response))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error updating status of form issues',
+        meta: {
+          action: 'handleUpdateFormIssuesStatus',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleUpdateFormIssuesStatusForTest = _handleUpdateFormIssuesStatus
+
+export const handleUpdateFormIssuesStatus = [
+  celebrate({
+    [Segments.BODY]: Joi.object({
+      issueIds: Joi.array()
+        .items(Joi.string().hex().length(24))
+        .min(1)
+        .max(1000)
+        .unique()
+        .required(),
+      status: Joi.string()
+        .valid(...Object.values(FormIssueStatus))
+        .required(),
+    }),
+  }),
+  _handleUpdateFormIssuesStatus,
+] as ControllerHandler[]
+
+/**
+ * Handler for POST /{formId}/issues/{issueId}/reply.
+ * @security session
+ *
+ * @returns 200 with the updated issue
+ * @returns 400 when the reporter of the issue did not leave an email
+ * @returns 403 when user does not have permissions to update the form
+ * @returns 404 when form or issue cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when the reply could not be sent or database error occurs
+ */
+const _handleReplyToFormIssue: ControllerHandler<
+  { formId: string; issueId: string },
+  IFormIssueSchema | ErrorDto,
+  ReplyFormIssueBodyDto
+> = (req, res) => {
+  const { formId, issueId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
+      }).andThen((form) =>
+        IssueService.replyToFormIssue({
+          form,
+          issueId,
+          message: req.body.message,
+          repliedBy: user.email,
+        }),
+      ),
+    )
+    .map((issue) => res.status(StatusCodes.OK).json(issue))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error replying to form issue',
+        meta: {
+          action: 'handleReplyToFormIssue',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+          issueId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleReplyToFormIssueForTest = _handleReplyToFormIssue
+
+export const handleReplyToFormIssue = [
+  celebrate({
+    [Segments.BODY]: Joi.object({
+      message: Joi.string().trim().max(5000).required(),
+    }),
+  }),
+  _handleReplyToFormIssue,
+] as ControllerHandler[]
+
 /**
  * Handler for GET /{formId}/issues/download.
  * @security session
@@ -98,6 +320,7 @@ export const handleStreamFormIssues: ControllerHandler<
       user,
       formId,
       level: PermissionLevel.Read,
+      scope: req.formPermissionScope,
     }),
   )
 
@@ -1,19 +1,58 @@
 import { celebrate, Joi, Segments } from 'celebrate'
 
+import {
+  MAX_ADDITIONAL_WEBHOOK_ENDPOINTS,
+  MAX_CUSTOM_WEBHOOK_BACKOFF_MINUTES,
+  MAX_CUSTOM_WEBHOOK_RETRIES,
+  MAX_WEBHOOK_HEADERS,
+  MIN_WEBHOOK_HMAC_SECRET_LENGTH,
+  RESERVED_WEBHOOK_HEADERS,
+  TRANSLATABLE_LANGUAGES,
+  WEBHOOK_HEADER_NAME_REGEX,
+} from '../../../../../shared/constants'
 import {
   FormAuthType,
   FormStatus,
   SettingsUpdateDto,
+  WebhookEventType,
+  WebhookRetryProfile,
 } from '../../../../../shared/types'
 
 import { verifyValidUnicodeString } from './admin-form.utils'
 
+const webhookEndpointSettingsKeys = {
+  isRetryEnabled: Joi.boolean(),
+  hmacSecret: Joi.string().min(MIN_WEBHOOK_HMAC_SECRET_LENGTH).allow(''),
+  headers: Joi.array()
+    .items(
+      Joi.object({
+        name: Joi.string()
+          .pattern(WEBHOOK_HEADER_NAME_REGEX)
+          .invalid(...RESERVED_WEBHOOK_HEADERS)
+          .insensitive()
+          .required(),
+        // Line breaks would allow injecting further headers.
+        value: Joi.string()
+          .pattern(/^[^\r\n]*$/)
+          .required(),
+      }),
+    )
+    .max(MAX_WEBHOOK_HEADERS)
+    .unique((a, b) => a.name.toLowerCase() === b.name.toLowerCase()),
+}
+
 /**
  * Joi validator for PATCH /forms/:formId/settings route.
  */
 export const updateSettingsValidator = celebrate({
   [Segments.BODY]: Joi.object<SettingsUpdateDto>({
     authType: Joi.string().valid(...Object.values(FormAuthType)),
+    closesAt: Joi.date()
+      .allow(null)
+      .when('opensAt', {
+        is: Joi.date().required(),
+        then: Joi.date().greater(Joi.ref('opensAt')),
+      }),
     emails: Joi.alternatives().try(
       Joi.array().items(Joi.string().email()),
       Joi.string().email({ multiple: true }),
@@ -21,12 +60,52 @@ export const updateSettingsValidator = celebrate({
     esrvcId: Joi.string().allow(''),
     hasCaptcha: Joi.boolean(),
     inactiveMessage: Joi.string(),
+    isMultiPage: Joi.boolean(),
+    opensAt: Joi.date().allow(null),
     status: Joi.string().valid(...Object.values(FormStatus)),
     submissionLimit: Joi.number().allow(null),
+    supportedLanguages: Joi.array()
+      .items(Joi.string().valid(...TRANSLATABLE_LANGUAGES))
+      .unique(),
     title: Joi.string(),
     webhook: Joi.object({
       url: Joi.string().uri().allow(''),
-      isRetryEnabled: Joi.boolean(),
+      ...webhookEndpointSettingsKeys,
+      additionalEndpoints: Joi.array()
+        .items(
+          Joi.object({
+            _id: Joi.string(),
+            url: Joi.string().uri().required(),
+            ...webhookEndpointSettingsKeys,
+          }),
+        )
+        .max(MAX_ADDITIONAL_WEBHOOK_ENDPOINTS),
+      retryPolicy: Joi.object({
+        profile: Joi.string()
+          .valid(...Object.values(WebhookRetryProfile))
+          .required(),
+        maxRetries: Joi.number()
+          .integer()
+          .min(1)
+          .max(MAX_CUSTOM_WEBHOOK_RETRIES)
+          .when('profile', {
+            is: WebhookRetryProfile.Custom,
+            then: Joi.required(),
+            otherwise: Joi.forbidden(),
+          }),
+        backoffMinutes: Joi.number()
+          .integer()
+          .min(1)
+          .max(MAX_CUSTOM_WEBHOOK_BACKOFF_MINUTES)
+          .when('profile', {
+            is: WebhookRetryProfile.Custom,
+            then: Joi.required(),
+            otherwise: Joi.forbidden(),
+          }),
+      }),
+      events: Joi.array()
+        .items(Joi.string().valid(...Object.values(WebhookEventType)))
+        .unique(),
     }).min(1),
     business: Joi.object({
       address: Joi.string().allow(''),
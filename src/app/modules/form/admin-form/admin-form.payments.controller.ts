@@ -1,30 +1,56 @@
 import { celebrate, Joi, Segments } from 'celebrate'
+import { differenceInCalendarDays } from 'date-fns'
 import { AuthedSessionData } from 'express-session'
 import { StatusCodes } from 'http-status-codes'
-import { err, ok } from 'neverthrow'
+import { err, ok, okAsync } from 'neverthrow'
 
 import { IEncryptedFormDocument } from 'src/types'
 
-import { featureFlags } from '../../../../../shared/constants'
 import {
+  featureFlags,
+  MAX_VERIFIED_PAYMENTS_REPORT_DAYS,
+} from '../../../../../shared/constants'
+import {
+  DateString,
   ErrorDto,
+  FormAuditAction,
   PaymentChannel,
+  PaymentRefundBodyDto,
+  PaymentsReportDto,
+  PaymentsReportFormat,
+  PaymentsReportQueryDto,
   PaymentsUpdateDto,
   PaymentType,
+  SubmissionPaymentDto,
 } from '../../../../../shared/types'
 import { paymentConfig } from '../../../config/features/payment.config'
 import { createLoggerWithLabel } from '../../../config/logger'
+import MailService from '../../../services/mail/mail.service'
 import { createReqMeta } from '../../../utils/request'
 import { getFormAfterPermissionChecks } from '../../auth/auth.service'
 import * as AuthService from '../../auth/auth.service'
 import { ControllerHandler } from '../../core/core.types'
 import * as FeatureFlagService from '../../feature-flags/feature-flags.service'
+import * as FormAuditLogService from '../../form-audit-log/form-audit-log.service'
+import { toAuditValues } from '../../form-audit-log/form-audit-log.utils'
+import { PaymentNotFoundError } from '../../payments/payments.errors'
+import * as PaymentsService from '../../payments/payments.service'
+import {
+  convertPaymentsReportToCsv,
+  createPaymentsReportLine,
+  summarisePaymentsReport,
+} from '../../payments/payments.utils'
 import {
   getStripeOauthUrl,
+  refundPayment,
+  retrievePaymentsStripeStates,
   unlinkStripeAccountFromForm,
   validateAccount,
 } from '../../payments/stripe.service'
-import { checkFormIsEncryptMode } from '../../submission/encrypt-submission/encrypt-submission.service'
+import {
+  checkFormIsEncryptMode,
+  getSubmissionPaymentDto,
+} from '../../submission/encrypt-submission/encrypt-submission.service'
 import { getPopulatedUserById } from '../../user/user.service'
 import * as UserService from '../../user/user.service'
 
@@ -92,6 +118,7 @@ export const handleConnectAccount: ControllerHandler<{
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 4: Ensure that the form is encrypt mode.
@@ -145,6 +172,7 @@ export const handleUnlinkAccount: ControllerHandler<{
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Ensure that the form is encrypt mode.
@@ -197,6 +225,7 @@ export const handleValidatePaymentAccount: ControllerHandler<{
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Ensure that the form is encrypt mode.
@@ -285,6 +314,7 @@ const _handleUpdatePayments: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Write,
+          scope: req.formPermissionScope,
         }),
       )
       .andThen(checkFormIsEncryptMode)
@@ -295,7 +325,20 @@ const _handleUpdatePayments: ControllerHandler<
           : ok(form),
       )
       // Step 4: User has permissions, proceed to allow updating of start page
-      .andThen(() => AdminFormPaymentService.updatePayments(formId, req.body))
+      .andThen((form) => {
+        const before = toAuditValues(form.payments_field)
+        return AdminFormPaymentService.updatePayments(formId, req.body).andThen(
+          (updatedPayments) =>
+            // Step 5: Record the update in the audit log of the form.
+            FormAuditLogService.createFormAuditLog({
+              formId,
+              actorId: sessionUserId,
+              action: FormAuditAction.UpdatePayments,
+              before,
+              after: updatedPayments,
+            }).map(() => updatedPayments),
+        )
+      })
       .map((updatedPayments) =>
         res.status(StatusCodes.OK).json(updatedPayments),
       )
@@ -361,6 +404,33 @@ const updatePaymentsValidator = celebrate({
       otherwise: JoiInt,
     }),
 
+    calculation_field_id: Joi.string().allow(''),
+
+    products: Joi.when('enabled', {
+      is: Joi.equal(true),
+      then: Joi.when('payment_type', {
+        is: Joi.equal(PaymentType.Products),
+        then: Joi.array()
+          .items(
+            Joi.object({
+              _id: Joi.string().hex().length(24),
+              name: Joi.string().trim().required(),
+              description: Joi.string().trim().allow(''),
+              amount_cents: JoiInt.positive()
+                .max(paymentConfig.maxPaymentAmountCents)
+                .required(),
+              min_qty: JoiInt.min(0).required(),
+              max_qty: JoiInt.min(Joi.ref('min_qty')).min(1).required(),
+              stock: JoiInt.min(0),
+            }),
+          )
+          .min(1)
+          .required(),
+        otherwise: Joi.array(),
+      }),
+      otherwise: Joi.array(),
+    }),
+
     description: Joi.when('enabled', {
       is: Joi.equal(true),
       then: Joi.string().trim().allow(''),
@@ -386,6 +456,265 @@ export const handleUpdatePayments = [
   _handleUpdatePayments,
 ] as ControllerHandler[]
 
+/**
+ * Private handler for POST /:formId/payments/:paymentId/refunds
+ * NOTE: Exported for testing.
+ * @precondition Must be preceded by request validation
+ * @security session
+ *
+ * @returns 200 with the refunded payment
+ * @returns 400 when the payment cannot be refunded or the refund amount is invalid
+ * @returns 403 when current user does not have permissions to refund the payment
+ * @returns 404 when form or payment cannot be found
+ * @returns 410 when the form has been archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 422 when the form is not an encrypt mode form
+ * @returns 500 when database error occurs
+ * @returns 502 when Stripe fails to create the refund
+ */
+const _handleRefundPayment: ControllerHandler<
+  { formId: string; paymentId: string },
+  SubmissionPaymentDto | ErrorDto,
+  PaymentRefundBodyDto
+> = async (req, res) => {
+  const { formId, paymentId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  const logMeta = {
+    action: '_handleRefundPayment',
+    ...createReqMeta(req),
+    userId: sessionUserId,
+    formId,
+    paymentId,
+    body: req.body,
+  }
+
+  // Step 1: Retrieve currently logged in user.
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      // Step 2: Retrieve form with write permission check.
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
+      })
+        // Step 3: Ensure that the form is encrypt mode.
+        .andThen(checkFormIsEncryptMode)
+        .andThen((form) =>
+          // Step 4: Retrieve the payment, which must belong to the form.
+          PaymentsService.findPaymentById(paymentId)
+            .andThen((payment) =>
+              String(payment.formId) === String(form._id)
+                ? ok(payment)
+                : err(new PaymentNotFoundError()),
+            )
+            // Step 5: Refund the payment through Stripe.
+            .andThen((payment) =>
+              refundPayment(payment, {
+                ...req.body,
+                refundedBy: user.email,
+              }),
+            )
+            .map((payment) => ({ form, payment })),
+        ),
+    )
+    .andThen(({ form, payment }) => {
+      // Step 6: Notify the payer of the refund. Failing to send the email
+      // does not fail the refund, which has already been made.
+      const refund = payment.refunds?.[payment.refunds.length - 1]
+      if (refund) {
+        void MailService.sendRefundConfirmationEmail({
+          email: payment.email,
+          formTitle: form.title,
+          submissionId: String(payment.completedPayment?.submissionId ?? ''),
+          formId,
+          amount: refund.amount,
+          reason: refund.reason,
+        }).mapErr((error) =>
+          logger.error({
+            message: 'Error sending refund confirmation email',
+            meta: logMeta,
+            error,
+          }),
+        )
+      }
+      return getSubmissionPaymentDto(String(payment._id))
+    })
+    .map((paymentDto) => {
+      logger.info({
+        message: 'Payment refunded by admin',
+        meta: logMeta,
+      })
+      return res.status(StatusCodes.OK).json(paymentDto)
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error occurred when refunding payment',
+        meta: logMeta,
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleRefundPaymentForTest = _handleRefundPayment
+
+const refundPaymentValidator = celebrate({
+  [Segments.BODY]: {
+    amount: JoiInt.positive(),
+    reason: Joi.string().trim().max(500).allow(''),
+  },
+})
+
+/**
+ * Handler for POST /:formId/payments/:paymentId/refunds
+ */
+export const handleRefundPayment = [
+  refundPaymentValidator,
+  _handleRefundPayment,
+] as ControllerHandler[]
+
+/**
+ * Private handler for GET /:formId/payments/report
+ * NOTE: Exported for testing.
+ * @precondition Must be preceded by request validation
+ * @security session
+ *
+ * @returns 200 with the payments report of the form, as JSON or as a CSV file
+ * @returns 400 when the date range is malformed, or missing or too long for a report verified with Stripe
+ * @returns 403 when current user does not have permissions to view the form
+ * @returns 404 when form cannot be found
+ * @returns 410 when the form has been archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 422 when the form is not an encrypt mode form
+ * @returns 500 when database error occurs
+ */
+const _handleGetPaymentsReport: ControllerHandler<
+  { formId: string },
+  PaymentsReportDto | string | ErrorDto,
+  unknown,
+  PaymentsReportQueryDto
+> = async (req, res) => {
+  const { formId } = req.params
+  const { startDate, endDate, format, verifyWithStripe } = req.query
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  const logMeta = {
+    action: '_handleGetPaymentsReport',
+    ...createReqMeta(req),
+    userId: sessionUserId,
+    formId,
+    query: req.query,
+  }
+
+  // Step 1: Retrieve currently logged in user.
+  return (
+    UserService.getPopulatedUserById(sessionUserId)
+      .andThen((user) =>
+        // Step 2: Retrieve form with read permission check.
+        AuthService.getFormAfterPermissionChecks({
+          user,
+          formId,
+          level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
+        }),
+      )
+      // Step 3: Ensure that the form is encrypt mode.
+      .andThen(checkFormIsEncryptMode)
+      // Step 4: Retrieve the payments of the form within the date range.
+      .andThen(() =>
+        PaymentsService.getPaymentsByFormId(formId, { startDate, endDate }),
+      )
+      // Step 5: Compare the payments with Stripe if requested. Payments which
+      // cannot be retrieved from Stripe are flagged instead of failing the
+      // whole report.
+      .andThen((payments) =>
+        verifyWithStripe
+          ? retrievePaymentsStripeStates(payments).map((stripeStates) =>
+              payments.map((payment, i) =>
+                createPaymentsReportLine(payment, stripeStates[i]),
+              ),
+            )
+          : okAsync(
+              payments.map((payment) => createPaymentsReportLine(payment)),
+            ),
+      )
+      .map((lines) => {
+        const report: PaymentsReportDto = {
+          formId,
+          startDate,
+          endDate,
+          generatedAt: new Date().toISOString() as DateString,
+          summary: summarisePaymentsReport(lines, verifyWithStripe),
+          payments: lines,
+        }
+
+        if (format !== PaymentsReportFormat.Csv) {
+          return res.status(StatusCodes.OK).json(report)
+        }
+        res.set({
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename=${formId}-payments.csv`,
+        })
+        return res
+          .status(StatusCodes.OK)
+          .send(convertPaymentsReportToCsv(report))
+      })
+      .mapErr((error) => {
+        logger.error({
+          message: 'Error occurred when generating payments report',
+          meta: logMeta,
+          error,
+        })
+        const { errorMessage, statusCode } = mapRouteError(error)
+        return res.status(statusCode).json({ message: errorMessage })
+      })
+  )
+}
+
+export const handleGetPaymentsReportForTest = _handleGetPaymentsReport
+
+const getPaymentsReportValidator = celebrate({
+  [Segments.QUERY]: Joi.object()
+    .keys({
+      startDate: Joi.date()
+        .format('YYYY-MM-DD')
+        .raw()
+        .when('verifyWithStripe', { is: true, then: Joi.required() }),
+      endDate: Joi.date().format('YYYY-MM-DD').min(Joi.ref('startDate')).raw(),
+      format: Joi.string()
+        .valid(...Object.values(PaymentsReportFormat))
+        .default(PaymentsReportFormat.Json),
+      verifyWithStripe: Joi.boolean().default(false),
+    })
+    .and('startDate', 'endDate')
+    // Each payment is retrieved from Stripe when verifying, so the number of
+    // payments verified at once is bounded by the date range.
+    .custom((query: PaymentsReportQueryDto, helpers) =>
+      query.verifyWithStripe &&
+      query.startDate &&
+      query.endDate &&
+      differenceInCalendarDays(
+        new Date(query.endDate),
+        new Date(query.startDate),
+      ) >= MAX_VERIFIED_PAYMENTS_REPORT_DAYS
+        ? helpers.message({
+            custom: `Reports verified with Stripe can cover at most ${MAX_VERIFIED_PAYMENTS_REPORT_DAYS} days`,
+          })
+        : query,
+    ),
+})
+
+/**
+ * Handler for GET /:formId/payments/report
+ */
+export const handleGetPaymentsReport = [
+  getPaymentsReportValidator,
+  _handleGetPaymentsReport,
+] as ControllerHandler[]
+
 export const handleGetPaymentGuideLink: ControllerHandler = async (
   req,
   res,
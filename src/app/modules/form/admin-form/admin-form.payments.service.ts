@@ -56,6 +56,20 @@ export const updatePayments = (
     }
   }
 
+  if (enabled && newPayments.payment_type === PaymentType.Products) {
+    const { products } = newPayments
+    if (
+      !products.length ||
+      products.some(
+        ({ amount_cents, min_qty, max_qty }) =>
+          amount_cents > paymentConfig.maxPaymentAmountCents ||
+          min_qty > max_qty,
+      )
+    ) {
+      return errAsync(new InvalidPaymentAmountError())
+    }
+  }
+
   return ResultAsync.fromPromise(
     EncryptedFormModel.updatePaymentsById(formId, newPayments),
     (error) => {
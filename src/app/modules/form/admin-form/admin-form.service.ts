@@ -5,7 +5,7 @@ import {
   DeleteSecretRequest,
   PutSecretValueRequest,
 } from 'aws-sdk/clients/secretsmanager'
-import { assignIn, last, omit } from 'lodash'
+import { assignIn, last, omit, pick } from 'lodash'
 import mongoose, { ClientSession } from 'mongoose'
 import { err, errAsync, ok, okAsync, Result, ResultAsync } from 'neverthrow'
 import type { Except, Merge } from 'type-fest'
@@ -26,11 +26,17 @@ import {
   FormLogoState,
   FormPermission,
   FormSettings,
+  FormStatus,
   LogicDto,
   MobileFieldBase,
   SettingsUpdateDto,
   StartPageUpdateDto,
+  WebhookEventType,
 } from '../../../../../shared/types'
+import {
+  getCollaboratorRole,
+  isWriteRole,
+} from '../../../../../shared/utils/collaborator-roles'
 import { EditFieldActions } from '../../../../shared/constants'
 import {
   FormFieldSchema,
@@ -58,6 +64,7 @@ import {
   DatabaseError,
   DatabasePayloadSizeError,
   DatabaseValidationError,
+  MalformedParametersError,
   PossibleDatabaseError,
   SecretsManagerError,
   SecretsManagerNotFoundError,
@@ -67,6 +74,7 @@ import { MissingUserError } from '../../user/user.errors'
 import * as UserService from '../../user/user.service'
 import { SmsLimitExceededError } from '../../verification/verification.errors'
 import { hasAdminExceededFreeSmsLimit } from '../../verification/verification.util'
+import { WebhookFactory } from '../../webhook/webhook.factory'
 import {
   FormNotFoundError,
   LogicNotFoundError,
@@ -76,6 +84,7 @@ import { getFormModelByResponseMode } from '../form.service'
 import {
   getFormFieldById,
   getFormFieldIndexById,
+  getFormPublishError,
   getLogicById,
   isFormOnboarded,
 } from '../form.utils'
@@ -91,12 +100,16 @@ import {
   FieldNotFoundError,
   InvalidCollaboratorError,
   InvalidFileTypeError,
+  InvalidLogicError,
 } from './admin-form.errors'
+import { TransferFormsOwnershipResult } from './admin-form.types'
 import {
   checkIsApiSecretKeyName,
   generateTwilioCredSecretKeyName,
   getUpdatedFormFields,
   processDuplicateOverrideProps,
+  restoreWebhookSecrets,
+  validateLogicConditionGroup,
 } from './admin-form.utils'
 
 const logger = createLoggerWithLabel(module)
@@ -273,7 +286,8 @@ export const extractMyInfoFieldIds = (
 }
 
 /**
- * Archives given form.
+ * Archives given form, publishing a form status webhook event if the form
+ * was not already archived.
  * @param form the form to archive
  * @returns ok(true) if successful
  * @returns err(DatabaseError) if any database errors occur
@@ -287,6 +301,7 @@ export const archiveForm = (
   | DatabaseConflictError
   | DatabasePayloadSizeError
 > => {
+  const wasArchived = form.status === FormStatus.Archived
   return ResultAsync.fromPromise(form.archive(), (error) => {
     logger.error({
       message: 'Database error encountered when archiving form',
@@ -299,7 +314,16 @@ export const archiveForm = (
 
     return transformMongoError(error)
     // On success, return true
-  }).map(() => true)
+  }).map(() => {
+    if (!wasArchived) {
+      void WebhookFactory.publishEvent(
+        String(form._id),
+        WebhookEventType.FormStatusChanged,
+        { status: FormStatus.Archived },
+      )
+    }
+    return true as const
+  })
 }
 
 /**
@@ -392,6 +416,41 @@ export const transferFormOwnership = (
   )
 }
 
+/**
+ * Transfers the ownership of each of the given forms to the user with the
+ * given email. Forms which are already owned by the user are left as they
+ * are. Each form is transferred on its own, so forms which fail to be
+ * transferred do not stop the other forms from being transferred.
+ * @param forms the forms to transfer
+ * @param newOwnerEmail the email of the new owner of the forms
+ * @returns ok(result) with the transferred forms, and the forms which could not be transferred with the reason why
+ */
+export const transferFormsOwnership = (
+  forms: IPopulatedForm[],
+  newOwnerEmail: string,
+): ResultAsync<TransferFormsOwnershipResult, never> => {
+  const formsToTransfer = forms.filter(
+    (form) => form.admin.email.toLowerCase() !== newOwnerEmail.toLowerCase(),
+  )
+  return ResultAsync.fromSafePromise(
+    Promise.all(
+      formsToTransfer.map((form) => transferFormOwnership(form, newOwnerEmail)),
+    ),
+  ).map((results) =>
+    results.reduce<TransferFormsOwnershipResult>(
+      (acc, result, index) => {
+        if (result.isOk()) {
+          acc.transferred.push(result.value)
+        } else {
+          acc.failed.push({ form: formsToTransfer[index], error: result.error })
+        }
+        return acc
+      },
+      { transferred: [], failed: [] },
+    ),
+  )
+}
+
 /**
  * Creates a form with the given form params
  * @param formParams parameters for the form to be created.
@@ -759,7 +818,8 @@ export const updateForm = (
 }
 
 /**
- * Updates the collaborators of a given form
+ * Updates the collaborators of a given form, publishing a collaborators
+ * webhook event if any collaborator was added, removed or modified.
  * @param form the form to update collaborators fo
  * @param updatedCollaborators the new list of collaborators
  *
@@ -769,7 +829,7 @@ export const updateForm = (
  */
 export const updateFormCollaborators = (
   form: IPopulatedForm,
-  updatedCollaborators: FormPermission[],
+  collaborators: FormPermission[],
 ): ResultAsync<
   FormPermission[],
   PossibleDatabaseError | InvalidCollaboratorError
@@ -779,17 +839,32 @@ export const updateFormCollaborators = (
     formId: form._id,
   }
 
+  // Keep the write access of collaborators with roles in sync with their role.
+  const updatedCollaborators = collaborators.map((collaborator) =>
+    collaborator.role
+      ? { ...collaborator, write: isWriteRole(collaborator.role) }
+      : collaborator,
+  )
+
   // Get the updated (added or modified) collaborator emails (i.e. they are not
   // in the original collaborator list).
   const updatedCollaboratorEmails = updatedCollaborators
     .filter(
       (c1) =>
         !form.permissionList.some(
-          (c2) => c1.email === c2.email && c1.write === c2.write,
+          (c2) =>
+            c1.email === c2.email &&
+            getCollaboratorRole(c1) === getCollaboratorRole(c2),
         ),
     )
     .map((collaborator) => collaborator.email)
 
+  const previousEmails = form.permissionList.map(({ email }) => email)
+  const updatedEmails = updatedCollaborators.map(({ email }) => email)
+  const removedEmails = previousEmails.filter(
+    (email) => !updatedEmails.includes(email),
+  )
+
   return ResultAsync.fromPromise(
     // Check that all updated collaborator domains exist in the Agency collection.
     Promise.all(
@@ -829,15 +904,36 @@ export const updateFormCollaborators = (
         },
       ),
     )
-    .andThen(({ permissionList }) => okAsync(permissionList))
+    .andThen(({ permissionList }) => {
+      if (updatedCollaboratorEmails.length || removedEmails.length) {
+        void WebhookFactory.publishEvent(
+          String(form._id),
+          WebhookEventType.CollaboratorsChanged,
+          {
+            collaborators: permissionList.map(({ email, write }) => ({
+              email,
+              write,
+            })),
+            added: updatedEmails.filter(
+              (email) => !previousEmails.includes(email),
+            ),
+            removed: removedEmails,
+          },
+        )
+      }
+      return okAsync(permissionList)
+    })
 }
 
 /**
- * Updates form settings.
+ * Updates form settings, publishing a form status webhook event if the status
+ * of the form changed.
  * @param originalForm The original form to update settings for
  * @param body the subset of form settings to update
  * @returns ok(updated form settings) on success
  * @returns err(MalformedParametersError) if email update is attempted for an encrypt mode form
+ * @returns err(MalformedParametersError) if the form is scheduled to open but cannot be published
+ * @returns err(MalformedParametersError) if a masked webhook header value does not match a stored header
  * @returns err(database errors) if db error is thrown during form setting update
  */
 export const updateFormSettings = (
@@ -850,8 +946,32 @@ export const updateFormSettings = (
   | DatabaseValidationError
   | DatabaseConflictError
   | DatabasePayloadSizeError
+  | MalformedParametersError
 > => {
-  const dotifiedSettingsToUpdate = dotifyObject(body)
+  // Forms are published without further checks when their scheduled opening
+  // time is reached, so they must be publishable when the schedule is set.
+  if (body.opensAt) {
+    const publishError = getFormPublishError({
+      ...pick(originalForm, ['payments_channel', 'payments_field']),
+      authType: body.authType ?? originalForm.authType,
+      esrvcId: body.esrvcId ?? originalForm.esrvcId,
+    })
+    if (publishError) {
+      return errAsync(new MalformedParametersError(publishError))
+    }
+  }
+
+  let settingsToUpdate = body
+  if (body.webhook) {
+    const webhookResult = restoreWebhookSecrets(
+      originalForm.webhook,
+      body.webhook,
+    )
+    if (webhookResult.isErr()) return errAsync(webhookResult.error)
+    settingsToUpdate = { ...body, webhook: webhookResult.value }
+  }
+
+  const dotifiedSettingsToUpdate = dotifyObject(settingsToUpdate)
   const ModelToUse = getFormModelByResponseMode(originalForm.responseMode)
 
   return ResultAsync.fromPromise(
@@ -876,6 +996,13 @@ export const updateFormSettings = (
     if (!updatedForm) {
       return errAsync(new FormNotFoundError())
     }
+    if (body.status && body.status !== originalForm.status) {
+      void WebhookFactory.publishEvent(
+        String(updatedForm._id),
+        WebhookEventType.FormStatusChanged,
+        { status: body.status },
+      )
+    }
     return okAsync(updatedForm.getSettings())
   })
 }
@@ -885,12 +1012,21 @@ export const updateFormSettings = (
  * @param form The original form to create logic in
  * @param createLogicBody Object containing the created logic
  * @returns ok(created logic dto) on success
+ * @returns err(InvalidLogicError) if the logic's condition group is invalid
  * @returns err(database errors) if db error is thrown during logic update
  */
 export const createFormLogic = (
   form: IPopulatedForm,
   createLogicBody: LogicDto,
-): ResultAsync<FormLogicSchema, DatabaseError | FormNotFoundError> => {
+): ResultAsync<
+  FormLogicSchema,
+  DatabaseError | FormNotFoundError | InvalidLogicError
+> => {
+  const validateResult = validateLogicConditionGroup(createLogicBody)
+  if (validateResult.isErr()) {
+    return errAsync(validateResult.error)
+  }
+
   // Create new form logic
   return ResultAsync.fromPromise(
     FormModel.createFormLogic(form._id, createLogicBody),
@@ -976,6 +1112,7 @@ export const deleteFormLogic = (
  * @returns ok(updated logic dto) on success
  * @returns err(database errors) if db error is thrown during logic update
  * @returns err(LogicNotFoundError) if logicId does not exist on form
+ * @returns err(InvalidLogicError) if the logic's condition group is invalid
  */
 export const updateFormLogic = (
   form: IPopulatedForm,
@@ -983,7 +1120,7 @@ export const updateFormLogic = (
   updatedLogic: LogicDto,
 ): ResultAsync<
   FormLogicSchema,
-  DatabaseError | LogicNotFoundError | FormNotFoundError
+  DatabaseError | LogicNotFoundError | FormNotFoundError | InvalidLogicError
 > => {
   // First check if specified logic exists
   if (!form.form_logics.some((logic) => logic._id.toHexString() === logicId)) {
@@ -998,6 +1135,11 @@ export const updateFormLogic = (
     return errAsync(new LogicNotFoundError())
   }
 
+  const validateResult = validateLogicConditionGroup(updatedLogic)
+  if (validateResult.isErr()) {
+    return errAsync(validateResult.error)
+  }
+
   // Update specified logic
   return ResultAsync.fromPromise(
     FormModel.updateFormLogic(form._id.toHexString(), logicId, updatedLogic),
@@ -0,0 +1,258 @@
+import { celebrate, Joi, Segments } from 'celebrate'
+import { AuthedSessionData } from 'express-session'
+import { StatusCodes } from 'http-status-codes'
+
+import {
+  ErrorDto,
+  FormTemplateCategory,
+  FormTemplateDto,
+  FormTemplateQueryDto,
+  PublishFormTemplateBodyDto,
+  UpdateFormTemplateBodyDto,
+} from '../../../../../shared/types'
+import { IFormTemplateSchema, IPopulatedUser } from '../../../../types'
+import { createLoggerWithLabel } from '../../../config/logger'
+import { createReqMeta } from '../../../utils/request'
+import * as AuthService from '../../auth/auth.service'
+import { ControllerHandler } from '../../core/core.types'
+import * as FormTemplateService from '../../form-template/form-template.service'
+import * as UserService from '../../user/user.service'
+
+import { PermissionLevel } from './admin-form.types'
+import { mapRouteError } from './admin-form.utils'
+
+const logger = createLoggerWithLabel(module)
+
+const TEMPLATE_TITLE_SCHEMA = Joi.string().trim().min(4).max(200)
+const TEMPLATE_DESCRIPTION_SCHEMA = Joi.string().trim().max(1000)
+const TEMPLATE_CATEGORY_SCHEMA = Joi.string().valid(
+  ...Object.values(FormTemplateCategory),
+)
+
+/**
+ * Retrieves the template of the given id, provided that the user owns the
+ * form of the template.
+ */
+const getFormTemplateAfterPermissionChecks = ({
+  user,
+  templateId,
+}: {
+  user: IPopulatedUser
+  templateId: string
+}) =>
+  FormTemplateService.getFormTemplateById(templateId).andThen((template) =>
+    AuthService.getFormAfterPermissionChecks({
+      user,
+      formId: String(template.formId),
+      level: PermissionLevel.Delete,
+    }).map(() => template),
+  )
+
+/**
+ * Handler for GET /templates.
+ * @security session
+ *
+ * @returns 200 with the templates in the templates gallery
+ * @returns 500 when database error occurs
+ */
+const _handleListFormTemplates: ControllerHandler<
+  unknown,
+  FormTemplateDto[] | ErrorDto,
+  unknown,
+  FormTemplateQueryDto
+> = (req, res) => {
+  const { category, searchTerm } = req.query
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return FormTemplateService.listFormTemplates({ category, searchTerm })
+    .map((templates) => res.status(StatusCodes.OK).json(templates))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error retrieving form templates',
+        meta: {
+          action: 'handleListFormTemplates',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          query: req.query,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleListFormTemplatesForTest = _handleListFormTemplates
+
+export const handleListFormTemplates = [
+  celebrate({
+    [Segments.QUERY]: Joi.object({
+      category: TEMPLATE_CATEGORY_SCHEMA,
+      searchTerm: Joi.string().trim().max(200).allow(''),
+    }),
+  }),
+  _handleListFormTemplates,
+] as ControllerHandler[]
+
+/**
+ * Handler for POST /templates.
+ * @security session
+ *
+ * @returns 200 with the published template
+ * @returns 403 when user is not the owner of the form
+ * @returns 403 when user is not an agency admin
+ * @returns 404 when form cannot be found
+ * @returns 409 when the form has already been published as a template
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 422 when the form is not public
+ * @returns 500 when database error occurs
+ */
+const _handlePublishFormTemplate: ControllerHandler<
+  unknown,
+  IFormTemplateSchema | ErrorDto,
+  PublishFormTemplateBodyDto
+> = (req, res) => {
+  const { formId, ...params } = req.body
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Delete,
+      }).andThen((form) =>
+        FormTemplateService.publishFormTemplate({ form, user, params }),
+      ),
+    )
+    .map((template) => res.status(StatusCodes.OK).json(template))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error publishing form template',
+        meta: {
+          action: 'handlePublishFormTemplate',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handlePublishFormTemplateForTest = _handlePublishFormTemplate
+
+export const handlePublishFormTemplate = [
+  celebrate({
+    [Segments.BODY]: Joi.object({
+      formId: Joi.string().hex().length(24).required(),
+      title: TEMPLATE_TITLE_SCHEMA.required(),
+      description: TEMPLATE_DESCRIPTION_SCHEMA.required(),
+      category: TEMPLATE_CATEGORY_SCHEMA.required(),
+    }),
+  }),
+  _handlePublishFormTemplate,
+] as ControllerHandler[]
+
+/**
+ * Handler for PUT /templates/{templateId}.
+ * @security session
+ *
+ * @returns 200 with the updated template
+ * @returns 403 when user is not the owner of the form of the template
+ * @returns 404 when template or its form cannot be found
+ * @returns 410 when the form of the template is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleUpdateFormTemplate: ControllerHandler<
+  { templateId: string },
+  IFormTemplateSchema | ErrorDto,
+  UpdateFormTemplateBodyDto
+> = (req, res) => {
+  const { templateId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      getFormTemplateAfterPermissionChecks({ user, templateId }),
+    )
+    .andThen(() =>
+      FormTemplateService.updateFormTemplate({ templateId, update: req.body }),
+    )
+    .map((template) => res.status(StatusCodes.OK).json(template))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error updating form template',
+        meta: {
+          action: 'handleUpdateFormTemplate',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          templateId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleUpdateFormTemplateForTest = _handleUpdateFormTemplate
+
+export const handleUpdateFormTemplate = [
+  celebrate({
+    [Segments.BODY]: Joi.object({
+      title: TEMPLATE_TITLE_SCHEMA,
+      description: TEMPLATE_DESCRIPTION_SCHEMA,
+      category: TEMPLATE_CATEGORY_SCHEMA,
+    }).min(1),
+  }),
+  _handleUpdateFormTemplate,
+] as ControllerHandler[]
+
+/**
+ * Handler for DELETE /templates/{templateId}.
+ * @security session
+ *
+ * @returns 200 when the template is unpublished
+ * @returns 403 when user is not the owner of the form of the template
+ * @returns 404 when template or its form cannot be found
+ * @returns 410 when the form of the template is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+export const handleUnpublishFormTemplate: ControllerHandler<
+  { templateId: string },
+  { message: string } | ErrorDto
+> = (req, res) => {
+  const { templateId } = req.params
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      getFormTemplateAfterPermissionChecks({ user, templateId }),
+    )
+    .andThen(() => FormTemplateService.unpublishFormTemplate(templateId))
+    .map(() =>
+      res
+        .status(StatusCodes.OK)
+        .json({ message: 'Template has been unpublished' }),
+    )
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error unpublishing form template',
+        meta: {
+          action: 'handleUnpublishFormTemplate',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          templateId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
@@ -1,13 +1,17 @@
 import { Result } from 'neverthrow'
 
-import { FormResponseMode } from '../../../../../shared/types'
+import {
+  FormPermissionScope,
+  FormResponseMode,
+} from '../../../../../shared/types'
 import {
   FormFieldSchema,
   IForm,
   IPopulatedForm,
   IUserSchema,
 } from '../../../../types'
-import { ForbiddenFormError } from '../form.errors'
+import { DatabaseError } from '../../core/core.errors'
+import { ForbiddenFormError, TransferOwnershipError } from '../form.errors'
 
 import { EditFieldError } from './admin-form.errors'
 
@@ -20,6 +24,7 @@ export enum PermissionLevel {
 export type AssertFormFn = (
   user: IUserSchema,
   form: IPopulatedForm,
+  scope?: FormPermissionScope,
 ) => Result<true, ForbiddenFormError>
 
 export type OverrideProps = {
@@ -33,3 +38,12 @@ export type OverrideProps = {
 }
 
 export type EditFormFieldResult = Result<FormFieldSchema[], EditFieldError>
+
+export type TransferFormsOwnershipResult = {
+  transferred: IPopulatedForm[]
+  // Forms which could not be transferred, with the reason why.
+  failed: {
+    form: IPopulatedForm
+    error: TransferOwnershipError | DatabaseError
+  }[]
+}
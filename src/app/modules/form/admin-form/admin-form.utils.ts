@@ -2,11 +2,22 @@ import { StatusCodes } from 'http-status-codes'
 import { err, ok, Result } from 'neverthrow'
 import { v4 as uuidv4 } from 'uuid'
 
+import { WEBHOOK_HEADER_VALUE_MASK } from '../../../../../shared/constants/webhook'
+import { validateConditionGroup } from '../../../../../shared/modules/logic'
 import {
   DuplicateFormBodyDto,
+  FormPermissionScope,
   FormResponseMode,
   FormStatus,
+  FormWebhook,
+  LogicDto,
+  SettingsUpdateDto,
+  WebhookHeader,
 } from '../../../../../shared/types'
+import {
+  getCollaboratorRole,
+  hasCollaboratorRoleAccess,
+} from '../../../../../shared/utils/collaborator-roles'
 import {
   reorder,
   replaceAt,
@@ -16,7 +27,12 @@ import { FormFieldSchema, IPopulatedForm, IUserSchema } from '../../../../types'
 import { EditFormFieldParams } from '../../../../types/api'
 import config from '../../../config/config'
 import { createLoggerWithLabel } from '../../../config/logger'
+import {
+  MailGenerationError,
+  MailSendError,
+} from '../../../services/mail/mail.errors'
 import { isPossibleEmailFieldSchema } from '../../../utils/field-validation/field-validation.guards'
+import { MissingAgencyAdminRoleError } from '../../auth/auth.errors'
 import {
   ApplicationError,
   DatabaseConflictError,
@@ -30,11 +46,37 @@ import {
   TwilioCacheError,
 } from '../../core/core.errors'
 import { ErrorResponseData } from '../../core/core.types'
-import { InvalidPaymentAmountError } from '../../payments/payments.errors'
-import { StripeAccountError } from '../../payments/stripe.errors'
-import { ResponseModeError } from '../../submission/submission.errors'
+import {
+  FormTemplateAlreadyPublishedError,
+  FormTemplateNotFoundError,
+  FormTemplateNotPublicError,
+} from '../../form-template/form-template.errors'
+import {
+  FormIssueNotFoundError,
+  InvalidIssueAssigneeError,
+  MissingIssueReporterEmailError,
+} from '../../issue/issue.errors'
+import {
+  InvalidPaymentAmountError,
+  PaymentNotFoundError,
+  PaymentNotRefundableError,
+} from '../../payments/payments.errors'
+import {
+  StripeAccountError,
+  StripeFetchError,
+} from '../../payments/stripe.errors'
+import {
+  ResponseModeError,
+  SubmissionNotFoundError,
+} from '../../submission/submission.errors'
 import { MissingUserError } from '../../user/user.errors'
+import { isAgencyAdminOf } from '../../user/user.utils'
 import { SmsLimitExceededError } from '../../verification/verification.errors'
+import {
+  WebhookNotConfiguredError,
+  WebhookPushToQueueError,
+  WebhookRedeliveryUnavailableError,
+} from '../../webhook/webhook.errors'
 import {
   ForbiddenFormError,
   FormDeletedError,
@@ -52,6 +94,7 @@ import {
   GoGovError,
   InvalidCollaboratorError,
   InvalidFileTypeError,
+  InvalidLogicError,
   PaymentChannelNotFoundError,
 } from './admin-form.errors'
 import {
@@ -88,6 +131,10 @@ export const mapRouteError = (
     case FormNotFoundError:
     case FieldNotFoundError:
     case LogicNotFoundError:
+    case SubmissionNotFoundError:
+    case PaymentNotFoundError:
+    case FormIssueNotFoundError:
+    case FormTemplateNotFoundError:
       return {
         statusCode: StatusCodes.NOT_FOUND,
         errorMessage: error.message,
@@ -99,19 +146,24 @@ export const mapRouteError = (
       }
     case PrivateFormError:
     case ForbiddenFormError:
+    case MissingAgencyAdminRoleError:
       return {
         statusCode: StatusCodes.FORBIDDEN,
         errorMessage: error.message,
       }
     case EditFieldError:
+    case InvalidLogicError:
     case DatabaseValidationError:
     case MissingUserError:
     case InvalidCollaboratorError:
+    case InvalidIssueAssigneeError:
+    case FormTemplateNotPublicError:
       return {
         statusCode: StatusCodes.UNPROCESSABLE_ENTITY,
         errorMessage: error.message,
       }
     case TransferOwnershipError:
+    case MissingIssueReporterEmailError:
       return {
         statusCode: StatusCodes.BAD_REQUEST,
         errorMessage: error.message,
@@ -122,6 +174,7 @@ export const mapRouteError = (
         errorMessage: error.message,
       }
     case DatabaseConflictError:
+    case FormTemplateAlreadyPublishedError:
       return {
         statusCode: StatusCodes.CONFLICT,
         errorMessage: error.message,
@@ -157,11 +210,13 @@ export const mapRouteError = (
         errorMessage: coreErrorMessage ?? error.message,
       }
     case StripeAccountError:
+    case StripeFetchError:
       return {
         statusCode: StatusCodes.BAD_GATEWAY,
         errorMessage: coreErrorMessage ?? error.message,
       }
     case InvalidPaymentAmountError:
+    case PaymentNotRefundableError:
       return {
         statusCode: StatusCodes.BAD_REQUEST,
         errorMessage: error.message,
@@ -181,6 +236,28 @@ export const mapRouteError = (
         statusCode: StatusCodes.BAD_REQUEST,
         errorMessage: error.message,
       }
+    case WebhookNotConfiguredError:
+      return {
+        statusCode: StatusCodes.BAD_REQUEST,
+        errorMessage: error.message,
+      }
+    case WebhookRedeliveryUnavailableError:
+      return {
+        statusCode: StatusCodes.SERVICE_UNAVAILABLE,
+        errorMessage: error.message,
+      }
+    case WebhookPushToQueueError:
+      return {
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorMessage: coreErrorMessage ?? error.message,
+      }
+    case MailGenerationError:
+    case MailSendError:
+      return {
+        statusCode: StatusCodes.INTERNAL_SERVER_ERROR,
+        errorMessage:
+          coreErrorMessage ?? 'The email could not be sent. Please try again.',
+      }
     default:
       logger.error({
         message: 'Unknown route error observed',
@@ -212,21 +289,50 @@ export const assertFormAvailable = (
 }
 
 /**
- * Asserts that the given user has read access for the form.
+ * Checks whether the given user is an agency admin of the agency of the owner
+ * of the form, who has the same permissions as the owner of the form.
+ */
+const isAgencyAdminOfForm = (
+  user: IUserSchema,
+  form: IPopulatedForm,
+): boolean => isAgencyAdminOf(user, form.admin.agency)
+
+/**
+ * Returns the permission of the given user in the collaborator list of the
+ * form, if any.
+ */
+const findCollaboratorPermission = (user: IUserSchema, form: IPopulatedForm) =>
+  form.permissionList?.find(
+    (allowedUser) =>
+      allowedUser.email.toLowerCase() === user.email.toLowerCase(),
+  )
+
+/**
+ * Asserts that the given user has read access for the given scope of the form.
+ * Collaborators can only read the scopes granted by their role, which defaults
+ * to the form itself.
  * @returns ok(true) if given user has read permissions
  * @returns err(ForbiddenFormError) if user does not have read permissions
  */
-export const assertHasReadPermissions: AssertFormFn = (user, form) => {
-  // Is form admin. Automatically has permissions.
-  if (String(user._id) === String(form.admin._id)) {
+export const assertHasReadPermissions: AssertFormFn = (
+  user,
+  form,
+  scope = FormPermissionScope.Build,
+) => {
+  // Is form admin or agency admin. Automatically has permissions.
+  if (
+    String(user._id) === String(form.admin._id) ||
+    isAgencyAdminOfForm(user, form)
+  ) {
     return ok(true)
   }
 
-  // Check if user email is currently in form's allowed list.
-  const hasReadPermissions = !!form.permissionList?.find(
-    (allowedUser) =>
-      allowedUser.email.toLowerCase() === user.email.toLowerCase(),
-  )
+  // Check if user email is currently in form's allowed list, and has a role
+  // which can read the scope.
+  const permission = findCollaboratorPermission(user, form)
+  const hasReadPermissions =
+    !!permission &&
+    hasCollaboratorRoleAccess(getCollaboratorRole(permission), scope, false)
 
   return hasReadPermissions
     ? ok(true)
@@ -244,8 +350,8 @@ export const assertHasReadPermissions: AssertFormFn = (user, form) => {
  */
 export const assertHasDeletePermissions: AssertFormFn = (user, form) => {
   const isFormAdmin = String(user._id) === String(form.admin._id)
-  // If form admin
-  return isFormAdmin
+  // If form admin or agency admin
+  return isFormAdmin || isAgencyAdminOfForm(user, form)
     ? ok(true)
     : err(
         new ForbiddenFormError(
@@ -255,23 +361,31 @@ export const assertHasDeletePermissions: AssertFormFn = (user, form) => {
 }
 
 /**
- * Asserts that the given user has write permissions for the form.
+ * Asserts that the given user has write permissions for the given scope of the
+ * form. Collaborators can only write the scopes granted by their role, which
+ * defaults to the form itself.
  * @returns ok(true) if given user has write permissions
  * @returns err(ForbiddenFormError) if user does not have write permissions
  */
-export const assertHasWritePermissions: AssertFormFn = (user, form) => {
-  // Is form admin. Automatically has permissions.
-  if (String(user._id) === String(form.admin._id)) {
+export const assertHasWritePermissions: AssertFormFn = (
+  user,
+  form,
+  scope = FormPermissionScope.Build,
+) => {
+  // Is form admin or agency admin. Automatically has permissions.
+  if (
+    String(user._id) === String(form.admin._id) ||
+    isAgencyAdminOfForm(user, form)
+  ) {
     return ok(true)
   }
 
-  // Check if user email is currently in form's allowed list, and has write
-  // permissions.
-  const hasWritePermissions = !!form.permissionList?.find(
-    (allowedUser) =>
-      allowedUser.email.toLowerCase() === user.email.toLowerCase() &&
-      allowedUser.write,
-  )
+  // Check if user email is currently in form's allowed list, and has a role
+  // which can write the scope.
+  const permission = findCollaboratorPermission(user, form)
+  const hasWritePermissions =
+    !!permission &&
+    hasCollaboratorRoleAccess(getCollaboratorRole(permission), scope, true)
 
   return hasWritePermissions
     ? ok(true)
@@ -517,3 +631,109 @@ export const verifyUserBetaflag = (
         ),
       )
 }
+
+/**
+ * Checks that the condition group of the given logic, if any, is a well-formed
+ * expression over the logic's conditions.
+ * @param logic the logic to validate
+ * @returns ok(logic) if the logic has no condition group or a valid one
+ * @returns err(InvalidLogicError) if the condition group is invalid
+ */
+export const validateLogicConditionGroup = <T extends LogicDto>(
+  logic: T,
+): Result<T, InvalidLogicError> => {
+  if (!logic.conditionGroup) return ok(logic)
+  const errorMessage = validateConditionGroup(
+    logic.conditionGroup,
+    logic.conditions.length,
+  )
+  return errorMessage ? err(new InvalidLogicError(errorMessage)) : ok(logic)
+}
+
+/**
+ * Replaces masked custom header values with the stored values of the headers
+ * with the same names.
+ * @param headers the updated headers of a webhook endpoint
+ * @param storedHeaders the stored headers of the webhook endpoint
+ * @returns ok(headers with their stored values) if all masked headers are stored
+ * @returns err(MalformedParametersError) if a masked header is not stored
+ */
+const restoreWebhookHeaderValues = (
+  headers: WebhookHeader[],
+  storedHeaders: WebhookHeader[] = [],
+): Result<WebhookHeader[], MalformedParametersError> => {
+  const restoredHeaders: WebhookHeader[] = []
+  for (const header of headers) {
+    if (header.value !== WEBHOOK_HEADER_VALUE_MASK) {
+      restoredHeaders.push(header)
+      continue
+    }
+    const storedHeader = storedHeaders.find(
+      ({ name }) => name.toLowerCase() === header.name.toLowerCase(),
+    )
+    if (!storedHeader) {
+      return err(
+        new MalformedParametersError(
+          `Please enter a value for the ${header.name} header`,
+        ),
+      )
+    }
+    restoredHeaders.push({ ...header, value: storedHeader.value })
+  }
+  return ok(restoredHeaders)
+}
+
+/**
+ * Restores the write-only HMAC secrets and custom header values of webhook
+ * endpoints which were left out of or masked in a settings update. Arrays are
+ * replaced whole on update, so these are restored from the stored endpoints
+ * with the same ids.
+ * @param storedWebhook the stored webhook settings of the form
+ * @param webhookUpdate the update to the webhook settings
+ * @returns ok(webhook update with the stored secrets and header values)
+ * @returns err(MalformedParametersError) if a masked header is not stored
+ */
+export const restoreWebhookSecrets = (
+  storedWebhook: FormWebhook,
+  webhookUpdate: NonNullable<SettingsUpdateDto['webhook']>,
+): Result<
+  NonNullable<SettingsUpdateDto['webhook']>,
+  MalformedParametersError
+> => {
+  const { headers, additionalEndpoints } = webhookUpdate
+  const headersResult: Result<
+    WebhookHeader[] | undefined,
+    MalformedParametersError
+  > = headers
+    ? restoreWebhookHeaderValues(headers, storedWebhook.headers)
+    : ok(undefined)
+
+  const endpointsResult = additionalEndpoints
+    ? Result.combine(
+        additionalEndpoints.map((endpoint) => {
+          const storedEndpoint = storedWebhook.additionalEndpoints?.find(
+            ({ _id }) => endpoint._id && String(_id) === String(endpoint._id),
+          )
+          const endpointHeadersResult = endpoint.headers
+            ? restoreWebhookHeaderValues(
+                endpoint.headers,
+                storedEndpoint?.headers,
+              )
+            : ok(endpoint.headers)
+          return endpointHeadersResult.map((endpointHeaders) => ({
+            ...endpoint,
+            hmacSecret: endpoint.hmacSecret ?? storedEndpoint?.hmacSecret,
+            headers: endpointHeaders,
+          }))
+        }),
+      )
+    : ok(undefined)
+
+  return headersResult.andThen((restoredHeaders) =>
+    endpointsResult.map((restoredEndpoints) => ({
+      ...webhookUpdate,
+      ...(restoredHeaders && { headers: restoredHeaders }),
+      ...(restoredEndpoints && { additionalEndpoints: restoredEndpoints }),
+    })),
+  )
+}
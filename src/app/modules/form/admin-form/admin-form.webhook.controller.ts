@@ -0,0 +1,210 @@
+import { celebrate, Joi, Segments } from 'celebrate'
+import { AuthedSessionData } from 'express-session'
+import { StatusCodes } from 'http-status-codes'
+import type { SetRequired } from 'type-fest'
+
+import {
+  ErrorDto,
+  RedeliverFailedWebhooksBodyDto,
+  RedeliverWebhookBodyDto,
+  RedeliverWebhooksResponseDto,
+  WebhookDeliveriesQueryDto,
+  WebhookDeliveryDto,
+  WebhookDeliveryStatus,
+} from '../../../../../shared/types'
+import { createLoggerWithLabel } from '../../../config/logger'
+import { createReqMeta } from '../../../utils/request'
+import * as AuthService from '../../auth/auth.service'
+import { ControllerHandler } from '../../core/core.types'
+import * as UserService from '../../user/user.service'
+import { MAX_WEBHOOK_DELIVERIES_LIMIT } from '../../webhook/webhook.constants'
+import { WebhookFactory } from '../../webhook/webhook.factory'
+import * as WebhookService from '../../webhook/webhook.service'
+
+import { PermissionLevel } from './admin-form.types'
+import { mapRouteError } from './admin-form.utils'
+
+const logger = createLoggerWithLabel(module)
+
+/**
+ * Handler for GET /{formId}/webhooks/deliveries.
+ * @security session
+ *
+ * @returns 200 with the webhook deliveries of the latest submissions, optionally only those with the given status
+ * @returns 403 when user does not have permissions to access form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+const _handleGetWebhookDeliveries: ControllerHandler<
+  { formId: string },
+  WebhookDeliveryDto[] | ErrorDto,
+  unknown,
+  SetRequired<WebhookDeliveriesQueryDto, 'limit'>
+> = (req, res) => {
+  const { formId } = req.params
+  const { limit, status } = req.query
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
+      }),
+    )
+    .andThen(() => WebhookService.getWebhookDeliveries(formId, limit, status))
+    .map((deliveries) => res.status(StatusCodes.OK).json(deliveries))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error retrieving webhook deliveries',
+        meta: {
+          action: 'handleGetWebhookDeliveries',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleGetWebhookDeliveries = [
+  celebrate({
+    [Segments.QUERY]: {
+      limit: Joi.number()
+        .integer()
+        .min(1)
+        .max(MAX_WEBHOOK_DELIVERIES_LIMIT)
+        .default(20),
+      status: Joi.string().valid(...Object.values(WebhookDeliveryStatus)),
+    },
+  }),
+  _handleGetWebhookDeliveries,
+] as ControllerHandler[]
+
+/**
+ * Handler for POST /{formId}/webhooks/deliveries/{submissionId}/redeliver.
+ * @security session
+ *
+ * @returns 200 when the webhook is queued for redelivery
+ * @returns 400 when form has no webhook URL or the given endpoint
+ * @returns 403 when user does not have permissions to update form
+ * @returns 404 when form or submission cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs or webhook cannot be queued
+ * @returns 503 when webhook queue is not configured
+ */
+const _handleRedeliverWebhook: ControllerHandler<
+  { formId: string; submissionId: string },
+  RedeliverWebhooksResponseDto | ErrorDto,
+  RedeliverWebhookBodyDto
+> = (req, res) => {
+  const { formId, submissionId } = req.params
+  const { endpointId } = req.body
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
+      }),
+    )
+    .andThen((form) =>
+      WebhookFactory.redeliverWebhook(form, submissionId, endpointId),
+    )
+    .map(() => res.status(StatusCodes.OK).json({ count: 1 }))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error redelivering webhook',
+        meta: {
+          action: 'handleRedeliverWebhook',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+          submissionId,
+          endpointId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleRedeliverWebhook = [
+  celebrate({
+    [Segments.BODY]: {
+      endpointId: Joi.string().hex().length(24),
+    },
+  }),
+  _handleRedeliverWebhook,
+] as ControllerHandler[]
+
+/**
+ * Handler for POST /{formId}/webhooks/deliveries/redeliver.
+ * @security session
+ *
+ * @returns 200 with the number of failed webhooks queued for redelivery
+ * @returns 400 when form has no webhook URL
+ * @returns 403 when user does not have permissions to update form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs or webhooks cannot be queued
+ * @returns 503 when webhook queue is not configured
+ */
+const _handleRedeliverFailedWebhooks: ControllerHandler<
+  { formId: string },
+  RedeliverWebhooksResponseDto | ErrorDto,
+  RedeliverFailedWebhooksBodyDto
+> = (req, res) => {
+  const { formId } = req.params
+  const since = new Date(req.body.since)
+  const sessionUserId = (req.session as AuthedSessionData).user._id
+
+  return UserService.getPopulatedUserById(sessionUserId)
+    .andThen((user) =>
+      AuthService.getFormAfterPermissionChecks({
+        user,
+        formId,
+        level: PermissionLevel.Write,
+        scope: req.formPermissionScope,
+      }),
+    )
+    .andThen((form) => WebhookFactory.redeliverFailedWebhooks(form, since))
+    .map((count) => res.status(StatusCodes.OK).json({ count }))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error redelivering failed webhooks',
+        meta: {
+          action: 'handleRedeliverFailedWebhooks',
+          ...createReqMeta(req),
+          userId: sessionUserId,
+          formId,
+          since,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const handleRedeliverFailedWebhooks = [
+  celebrate({
+    [Segments.BODY]: {
+      since: Joi.date().iso().required(),
+    },
+  }),
+  _handleRedeliverFailedWebhooks,
+] as ControllerHandler[]
@@ -212,6 +212,24 @@ export const isFormPublic = (
   }
 }
 
+/**
+ * Method to check whether a form is within its scheduled opening hours.
+ * @param form the form to check
+ * @param now the time to check against, defaults to the current time
+ * @returns ok(form) if the form has no schedule or is currently open
+ * @returns err(PrivateFormError) if the form has yet to open or has closed, the message will be the form inactive message
+ */
+export const checkFormIsWithinSchedule = <T extends IPopulatedForm>(
+  form: T,
+  now: Date = new Date(),
+): Result<T, PrivateFormError> => {
+  const { opensAt, closesAt } = form
+  if ((opensAt && now < opensAt) || (closesAt && now >= closesAt)) {
+    return err(new PrivateFormError(form.inactiveMessage, form.title))
+  }
+  return ok(form)
+}
+
 /**
  * Method to check whether a form has reached submission limits, and deactivate the form if necessary
  * @param form the form to check
@@ -387,6 +405,11 @@ export const createSingleSampleSubmissionAnswer = (field: FormFieldDto) => {
         .int({ min: 1, max: field.ratingOptions.steps })
         .toString()
       break
+    case BasicField.Calculation:
+      sampleValue = faker.number
+        .float({ precision: Math.pow(10, -field.decimalPlaces) })
+        .toFixed(field.decimalPlaces)
+      break
     case BasicField.Attachment:
       sampleValue = 'attachmentFileName'
       break
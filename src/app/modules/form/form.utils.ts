@@ -1,4 +1,16 @@
-import { FormPermission, FormResponseMode } from '../../../../shared/types'
+import { omit } from 'lodash'
+import { FilterQuery } from 'mongoose'
+
+import { WEBHOOK_HEADER_VALUE_MASK } from '../../../../shared/constants/webhook'
+import {
+  FormAuthType,
+  FormPermission,
+  FormResponseMode,
+  FormSettings,
+  FormWebhook,
+  PaymentChannel,
+  WebhookEndpointSettings,
+} from '../../../../shared/types'
 import {
   FormFieldSchema,
   FormLinkView,
@@ -169,3 +181,76 @@ export const extractFormLinkView = <T extends IFormDocument>(
  * See https://mathiasbynens.be/notes/javascript-escapes for regex on unicode escape sequences
  */
 export const UNICODE_ESCAPED_REGEX = /[^\\](\\\\)*\\u[0-9a-fA-F]{4}/
+
+/**
+ * Returns the reason why the form cannot be published, if any. Forms with
+ * Singpass or Corppass authentication need an e-service ID, and forms which
+ * collect payments need a connected payment account.
+ * NOTE: Keep in sync with UNPUBLISHABLE_FORM_FILTER.
+ * @param form the settings of the form to check
+ * @returns the reason the form cannot be published, or null if it can be published
+ */
+export const getFormPublishError = (
+  form: Partial<
+    Pick<IEncryptedFormSchema, 'payments_channel' | 'payments_field'>
+  > &
+    Pick<FormSettings, 'authType' | 'esrvcId'>,
+): string | null => {
+  if (form.authType && form.authType !== FormAuthType.NIL && !form.esrvcId) {
+    return 'Forms with Singpass or Corppass authentication must have an e-service ID before they can be published.'
+  }
+  if (
+    form.payments_field?.enabled &&
+    form.payments_channel?.channel !== PaymentChannel.Stripe
+  ) {
+    return 'Forms with payments must be connected to a payment account before they can be published.'
+  }
+  return null
+}
+
+/**
+ * Query filter matching forms which cannot be published for the reasons given
+ * by getFormPublishError.
+ */
+export const UNPUBLISHABLE_FORM_FILTER: FilterQuery<IFormSchema> = {
+  $or: [
+    {
+      authType: { $ne: FormAuthType.NIL },
+      // Missing or empty e-service ID.
+      esrvcId: { $not: /\S/ },
+    },
+    {
+      'payments_field.enabled': true,
+      'payments_channel.channel': { $ne: PaymentChannel.Stripe },
+    },
+  ],
+}
+
+/**
+ * Replaces the HMAC secret and custom header values of a webhook endpoint,
+ * which are write-only, with whether a secret is set and masked header values.
+ * @param endpoint the stored webhook endpoint
+ * @returns the webhook endpoint as returned to admins
+ */
+export const getWebhookEndpointView = <T extends WebhookEndpointSettings>(
+  endpoint: T,
+): T =>
+  ({
+    ...omit(endpoint, 'hmacSecret'),
+    hasHmacSecret: !!endpoint.hmacSecret,
+    headers: endpoint.headers?.map(({ name }) => ({
+      name,
+      value: WEBHOOK_HEADER_VALUE_MASK,
+    })),
+  } as T)
+
+/**
+ * Returns the webhook settings of a form without the write-only HMAC secrets
+ * and custom header values of any of its endpoints.
+ * @param webhook the stored webhook settings
+ * @returns the webhook settings as returned to admins
+ */
+export const getWebhookView = (webhook: FormWebhook): FormWebhook => ({
+  ...getWebhookEndpointView(webhook),
+  additionalEndpoints: webhook.additionalEndpoints?.map(getWebhookEndpointView),
+})
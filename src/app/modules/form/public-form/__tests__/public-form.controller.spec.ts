@@ -30,6 +30,7 @@ import {
 import { FormAuthType, MyInfoAttribute } from '../../../../../../shared/types'
 import * as AuthService from '../../../auth/auth.service'
 import * as BillingService from '../../../billing/billing.service'
+import * as InsightsService from '../../../insights/insights.service'
 import {
   MYINFO_AUTH_CODE_COOKIE_NAME,
   MYINFO_LOGIN_COOKIE_NAME,
@@ -60,6 +61,7 @@ jest.mock('../../../spcp/spcp.oidc.service/spcp.oidc.service.sp')
 jest.mock('../../../spcp/spcp.oidc.service/spcp.oidc.service.cp')
 jest.mock('../../../myinfo/myinfo.service')
 jest.mock('../../../billing/billing.service')
+jest.mock('../../../insights/insights.service')
 
 const MockFormService = jest.mocked(FormService)
 const MockPublicFormService = jest.mocked(PublicFormService)
@@ -67,6 +69,7 @@ const MockAuthService = jest.mocked(AuthService)
 
 const MockMyInfoService = jest.mocked(MyInfoService)
 const MockBillingService = jest.mocked(BillingService)
+const MockInsightsService = jest.mocked(InsightsService)
 
 describe('public-form.controller', () => {
   afterEach(() => jest.clearAllMocks())
@@ -112,6 +115,9 @@ describe('public-form.controller', () => {
     }>
 
     beforeEach(() => {
+      MockFormService.checkFormIsWithinSchedule.mockImplementation((form) =>
+        ok(form),
+      )
       mockReqWithCookies = expressHandler.mockRequest({
         params: {
           formId: MOCK_FORM_ID,
@@ -1224,6 +1230,78 @@ describe('public-form.controller', () => {
     })
   })
 
+  describe('handleRecordFormView', () => {
+    const MOCK_FORM_ID = new ObjectId().toHexString()
+    const MOCK_REQ = expressHandler.mockRequest({
+      params: { formId: MOCK_FORM_ID },
+    })
+
+    it('should return 200 and count the view when the form is public', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormIfPublic.mockReturnValueOnce(
+        okAsync({ _id: MOCK_FORM_ID } as IPopulatedForm),
+      )
+      MockInsightsService.recordFormView.mockReturnValueOnce(okAsync(true))
+
+      // Act
+      await PublicFormController.handleRecordFormView(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockInsightsService.recordFormView).toHaveBeenCalledWith(
+        MOCK_FORM_ID,
+      )
+      expect(mockRes.status).toHaveBeenCalledWith(200)
+      expect(mockRes.json).toHaveBeenCalledWith({
+        message: 'Form view recorded',
+      })
+    })
+
+    it('should return 404 and not count the view when the form is private', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormIfPublic.mockReturnValueOnce(
+        errAsync(new PrivateFormError('private', 'some title')),
+      )
+
+      // Act
+      await PublicFormController.handleRecordFormView(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(MockInsightsService.recordFormView).not.toHaveBeenCalled()
+      expect(mockRes.status).toHaveBeenCalledWith(404)
+    })
+
+    it('should return 500 when the view cannot be counted', async () => {
+      // Arrange
+      const mockRes = expressHandler.mockResponse()
+      MockAuthService.getFormIfPublic.mockReturnValueOnce(
+        okAsync({ _id: MOCK_FORM_ID } as IPopulatedForm),
+      )
+      MockInsightsService.recordFormView.mockReturnValueOnce(
+        errAsync(new DatabaseError()),
+      )
+
+      // Act
+      await PublicFormController.handleRecordFormView(
+        MOCK_REQ,
+        mockRes,
+        jest.fn(),
+      )
+
+      // Assert
+      expect(mockRes.status).toHaveBeenCalledWith(500)
+    })
+  })
+
   describe('handlePublicAuthLogout', () => {
     it('should return 200 if authType is SP and call clearCookie()', async () => {
       const authType = FormAuthType.SP as const
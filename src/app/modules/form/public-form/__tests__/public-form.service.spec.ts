@@ -1,12 +1,15 @@
 /* eslint-disable @typescript-eslint/ban-ts-comment */
 import { ObjectId } from 'bson-ext'
 import mongoose from 'mongoose'
+import { errAsync, okAsync } from 'neverthrow'
 import type { PartialDeep } from 'type-fest'
 
 import getFormModel from 'src/app/models/form.server.model'
 import getFormFeedbackModel from 'src/app/models/form_feedback.server.model'
 import { DatabaseError } from 'src/app/modules/core/core.errors'
-import { IFormSchema } from 'src/types'
+import { MailSendError } from 'src/app/services/mail/mail.errors'
+import MailService from 'src/app/services/mail/mail.service'
+import { IFormSchema, IPopulatedForm } from 'src/types'
 
 import { FormAuthType } from '../../../../../../shared/types'
 import { MYINFO_LOGIN_COOKIE_NAME } from '../../../myinfo/myinfo.constants'
@@ -229,4 +232,82 @@ describe('public-form.service', () => {
       expect(createResult._unsafeUnwrapErr()).toBeInstanceOf(DatabaseError)
     })
   })
+
+  describe('processFormSchedules', () => {
+    const MOCK_NOW = new Date('2023-06-01T12:00:00Z')
+    const MOCK_FORM = {
+      _id: new ObjectId(),
+      title: 'mock form',
+    } as IPopulatedForm
+
+    it('should open and close all forms due and notify their admins', async () => {
+      // Arrange
+      const openSpy = jest
+        .spyOn(FormModel, 'openScheduledForm')
+        .mockResolvedValueOnce(MOCK_FORM)
+        .mockResolvedValueOnce(MOCK_FORM)
+        .mockResolvedValueOnce(null)
+      const closeSpy = jest
+        .spyOn(FormModel, 'closeScheduledForm')
+        .mockResolvedValueOnce(MOCK_FORM)
+        .mockResolvedValueOnce(null)
+      const mailSpy = jest
+        .spyOn(MailService, 'sendFormScheduleNotification')
+        .mockReturnValue(okAsync(true))
+
+      // Act
+      const actualResult = await PublicFormService.processFormSchedules(
+        MOCK_NOW,
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual({ opened: 2, closed: 1 })
+      expect(openSpy).toHaveBeenCalledTimes(3)
+      expect(openSpy).toHaveBeenCalledWith(MOCK_NOW)
+      expect(closeSpy).toHaveBeenCalledTimes(2)
+      expect(mailSpy).toHaveBeenCalledTimes(3)
+      expect(mailSpy).toHaveBeenLastCalledWith({
+        form: MOCK_FORM,
+        isOpened: false,
+      })
+    })
+
+    it('should continue processing forms when notifications fail to send', async () => {
+      // Arrange
+      jest
+        .spyOn(FormModel, 'openScheduledForm')
+        .mockResolvedValueOnce(MOCK_FORM)
+        .mockResolvedValueOnce(MOCK_FORM)
+        .mockResolvedValueOnce(null)
+      jest.spyOn(FormModel, 'closeScheduledForm').mockResolvedValueOnce(null)
+      jest
+        .spyOn(MailService, 'sendFormScheduleNotification')
+        .mockReturnValue(errAsync(new MailSendError()))
+
+      // Act
+      const actualResult = await PublicFormService.processFormSchedules(
+        MOCK_NOW,
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual({ opened: 2, closed: 0 })
+    })
+
+    it('should return DatabaseError when error occurs whilst updating forms', async () => {
+      // Arrange
+      jest
+        .spyOn(FormModel, 'openScheduledForm')
+        .mockRejectedValueOnce(new Error('some error'))
+      const closeSpy = jest.spyOn(FormModel, 'closeScheduledForm')
+
+      // Act
+      const actualResult = await PublicFormService.processFormSchedules(
+        MOCK_NOW,
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(DatabaseError)
+      expect(closeSpy).not.toHaveBeenCalled()
+    })
+  })
 })
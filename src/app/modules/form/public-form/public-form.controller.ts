@@ -12,6 +12,7 @@ import {
   PublicFormAuthRedirectDto,
   PublicFormDto,
   PublicFormViewDto,
+  SuccessMessageDto,
 } from '../../../../../shared/types'
 import { createLoggerWithLabel } from '../../../config/logger'
 import { isMongoError } from '../../../utils/handle-mongo-error'
@@ -19,6 +20,7 @@ import { createReqMeta, getRequestIp } from '../../../utils/request'
 import { getFormIfPublic } from '../../auth/auth.service'
 import * as BillingService from '../../billing/billing.service'
 import { ControllerHandler } from '../../core/core.types'
+import * as InsightsService from '../../insights/insights.service'
 import {
   MYINFO_AUTH_CODE_COOKIE_NAME,
   MYINFO_AUTH_CODE_COOKIE_OPTIONS,
@@ -72,9 +74,11 @@ export const handleGetPublicForm: ControllerHandler<
     formId,
   }
 
-  const formResult = await getFormIfPublic(formId).andThen((form) =>
-    FormService.checkFormSubmissionLimitAndDeactivateForm(form),
-  )
+  const formResult = await getFormIfPublic(formId)
+    .andThen((form) => FormService.checkFormIsWithinSchedule(form))
+    .andThen((form) =>
+      FormService.checkFormSubmissionLimitAndDeactivateForm(form),
+    )
 
   // Early return if form is not public or any error occurred.
   if (formResult.isErr()) {
@@ -328,6 +332,38 @@ export const handleGetPublicForm: ControllerHandler<
   }
 }
 
+/**
+ * Handler for POST /:formId/views
+ * Counts a view of a public form for its insights. The public form page sends
+ * this once per browser session, so that reloading or refetching the form, or
+ * retrieving it through the API, does not count further views.
+ *
+ * @returns 200 if the view was counted
+ * @returns 404 if form with formId does not exist or is private
+ * @returns 410 if form has been archived
+ * @returns 500 if database error occurs
+ */
+export const handleRecordFormView: ControllerHandler<
+  { formId: string },
+  SuccessMessageDto | ErrorDto
+> = (req, res) => {
+  const { formId } = req.params
+
+  return (
+    getFormIfPublic(formId)
+      .andThen(() => InsightsService.recordFormView(formId))
+      .map(() =>
+        res.status(StatusCodes.OK).json({ message: 'Form view recorded' }),
+      )
+      // NOTE: Not logged as database errors are logged by the services, and
+      // other errors are expected.
+      .mapErr((error) => {
+        const { errorMessage, statusCode } = mapRouteError(error)
+        return res.status(statusCode).json({ message: errorMessage })
+      })
+  )
+}
+
 export const handleGetPublicFormSampleSubmission: ControllerHandler<
   { formId: string },
   Record<string, any> | ErrorDto | PrivateFormErrorDto
@@ -568,3 +604,38 @@ export const handlePublicAuthLogout = [
   }),
   _handlePublicAuthLogout,
 ] as ControllerHandler[]
+
+/**
+ * Handler for POST /forms/schedule/process.
+ * Called by a cronjob to publish and deactivate forms according to their
+ * scheduled opening and closing times.
+ * @returns 200 with the number of forms opened and closed
+ * @returns 500 if database error occurs
+ */
+export const handleProcessFormSchedules: ControllerHandler<
+  unknown,
+  { opened: number; closed: number } | ErrorDto
+> = async (req, res) => {
+  const logMeta = {
+    action: 'handleProcessFormSchedules',
+    ...createReqMeta(req),
+  }
+
+  return PublicFormService.processFormSchedules()
+    .map((processed) => {
+      logger.info({
+        message: 'Processed form schedules',
+        meta: { ...logMeta, ...processed },
+      })
+      return res.json(processed)
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error processing form schedules',
+        meta: logMeta,
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
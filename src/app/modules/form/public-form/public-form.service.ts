@@ -1,11 +1,13 @@
 import mongoose from 'mongoose'
 import { errAsync, okAsync, ResultAsync } from 'neverthrow'
 
-import { FormAuthType } from '../../../../../shared/types'
-import { IFormFeedbackSchema } from '../../../../types'
+import { FormAuthType, WebhookEventType } from '../../../../../shared/types'
+import { IFormFeedbackSchema, IPopulatedForm } from '../../../../types'
 import { createLoggerWithLabel } from '../../../config/logger'
 import getFormModel from '../../../models/form.server.model'
 import getFormFeedbackModel from '../../../models/form_feedback.server.model'
+import MailService from '../../../services/mail/mail.service'
+import { getMongoErrorMessage } from '../../../utils/handle-mongo-error'
 import { DatabaseError } from '../../core/core.errors'
 import { MYINFO_LOGIN_COOKIE_NAME } from '../../myinfo/myinfo.constants'
 import {
@@ -13,6 +15,7 @@ import {
   SGID_MYINFO_LOGIN_COOKIE_NAME,
 } from '../../sgid/sgid.constants'
 import { JwtName } from '../../spcp/spcp.types'
+import { WebhookFactory } from '../../webhook/webhook.factory'
 import { FormNotFoundError } from '../form.errors'
 
 import { Metatags } from './public-form.types'
@@ -139,3 +142,84 @@ export const createMetatags = ({
     return okAsync(metatags)
   })
 }
+
+/**
+ * Opens or closes forms one at a time until there are no more forms whose
+ * scheduled opening or closing time has passed, notifying the admin and
+ * collaborators of each form by email and publishing a form status webhook
+ * event.
+ * @param isOpening whether to open or close forms
+ * @param now the time to process schedules up to
+ * @param count the number of forms processed so far
+ * @returns ok(number of forms opened or closed)
+ * @returns err(DatabaseError) if error occurs whilst updating forms
+ */
+const processScheduledForms = (
+  isOpening: boolean,
+  now: Date,
+  count = 0,
+): ResultAsync<number, DatabaseError> => {
+  const logMeta = {
+    action: 'processScheduledForms',
+    isOpening,
+  }
+
+  return ResultAsync.fromPromise(
+    isOpening
+      ? FormModel.openScheduledForm(now)
+      : FormModel.closeScheduledForm(now),
+    (error) => {
+      logger.error({
+        message: 'Error encountered while processing form schedules',
+        meta: logMeta,
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((form: IPopulatedForm | null) => {
+    if (!form) return okAsync(count)
+
+    logger.info({
+      message: isOpening
+        ? 'Form reached scheduled opening time, publishing.'
+        : 'Form reached scheduled closing time, deactivating.',
+      meta: { ...logMeta, formId: form._id },
+    })
+
+    void WebhookFactory.publishEvent(
+      String(form._id),
+      WebhookEventType.FormStatusChanged,
+      { status: form.status },
+    )
+
+    return (
+      MailService.sendFormScheduleNotification({ form, isOpened: isOpening })
+        // Failing to notify should not stop the remaining forms from being
+        // processed, since the form has already been updated.
+        .orElse((error) => {
+          logger.error({
+            message: 'Error sending form schedule notification',
+            meta: { ...logMeta, formId: form._id },
+            error,
+          })
+          return okAsync<true, never>(true)
+        })
+        .andThen(() => processScheduledForms(isOpening, now, count + 1))
+    )
+  })
+}
+
+/**
+ * Publishes forms whose scheduled opening time has passed and deactivates
+ * forms whose scheduled closing time has passed.
+ * @param now the time to process schedules up to, defaults to the current time
+ * @returns ok(number of forms opened and closed)
+ * @returns err(DatabaseError) if error occurs whilst updating forms
+ */
+export const processFormSchedules = (
+  now: Date = new Date(),
+): ResultAsync<{ opened: number; closed: number }, DatabaseError> => {
+  return processScheduledForms(true, now).andThen((opened) =>
+    processScheduledForms(false, now).map((closed) => ({ opened, closed })),
+  )
+}
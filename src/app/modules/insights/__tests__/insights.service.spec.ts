@@ -0,0 +1,179 @@
+import {
+  generateDefaultField,
+  generateNewSingleAnswerResponse,
+} from '__tests__/unit/backend/helpers/generate-form-data'
+import dbHandler from '__tests__/unit/backend/helpers/jest-db'
+import moment from 'moment-timezone'
+import mongoose from 'mongoose'
+
+import { IPopulatedForm } from 'src/types'
+
+import { BasicField } from '../../../../../shared/types'
+import getFormAnswerCountModel from '../../../models/form_answer_count.server.model'
+import getFormViewModel from '../../../models/form_view.server.model'
+import getSubmissionModel from '../../../models/submission.server.model'
+import { MalformedParametersError } from '../../core/core.errors'
+import * as InsightsService from '../insights.service'
+
+const FormViewModel = getFormViewModel(mongoose)
+const FormAnswerCountModel = getFormAnswerCountModel(mongoose)
+const SubmissionModel = getSubmissionModel(mongoose)
+
+describe('insights.service', () => {
+  beforeAll(async () => await dbHandler.connect())
+  afterEach(async () => {
+    await dbHandler.clearDatabase()
+    jest.clearAllMocks()
+  })
+  afterAll(async () => await dbHandler.closeDatabase())
+
+  describe('recordFormView', () => {
+    it('should increment the views of the form for the current day', async () => {
+      // Arrange
+      const { form } = await dbHandler.insertEncryptForm()
+
+      // Act
+      await InsightsService.recordFormView(String(form._id))
+      const actualResult = await InsightsService.recordFormView(
+        String(form._id),
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toBe(true)
+      const views = await FormViewModel.find({ formId: form._id }).lean()
+      expect(views).toHaveLength(1)
+      expect(views[0].count).toEqual(2)
+    })
+  })
+
+  describe('recordAnswerCounts', () => {
+    it('should increment the counts of the answers to choice fields', async () => {
+      // Arrange
+      const radioField = generateDefaultField(BasicField.Radio, {
+        fieldOptions: ['Apple', 'Banana'],
+      })
+      const { form } = await dbHandler.insertEmailForm({
+        formOptions: { form_fields: [radioField] },
+      })
+      const responses = [
+        generateNewSingleAnswerResponse(BasicField.Radio, {
+          _id: radioField._id,
+          answer: 'Apple',
+        }),
+      ]
+
+      // Act
+      await InsightsService.recordAnswerCounts(
+        form as unknown as IPopulatedForm,
+        responses,
+      )
+      await InsightsService.recordAnswerCounts(
+        form as unknown as IPopulatedForm,
+        responses,
+      )
+
+      // Assert
+      const answerCounts = await FormAnswerCountModel.find({
+        formId: form._id,
+      }).lean()
+      expect(answerCounts).toEqual([
+        expect.objectContaining({
+          fieldId: radioField._id,
+          answer: 'Apple',
+          count: 2,
+        }),
+      ])
+    })
+  })
+
+  describe('getFormInsights', () => {
+    it('should compute the insights of the form', async () => {
+      // Arrange
+      const { form } = await dbHandler.insertEncryptForm()
+      await SubmissionModel.create(
+        [1000, 3000, 2000, undefined].map((responseTimeMs) => ({
+          form: form._id,
+          submissionType: 'encryptSubmission',
+          encryptedContent: 'encryptedContent',
+          version: 1,
+          ...(responseTimeMs && {
+            responseMetadata: { responseTimeMs, numVisibleFields: 4 },
+          }),
+        })),
+      )
+      await InsightsService.recordFormView(String(form._id))
+      await InsightsService.recordFormView(String(form._id))
+
+      // Act
+      const actualResult = await InsightsService.getFormInsights(
+        form as unknown as IPopulatedForm,
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual({
+        submissionCount: 4,
+        submissionsOverTime: [
+          {
+            date: moment().tz('Asia/Singapore').format('YYYY-MM-DD'),
+            count: 4,
+          },
+        ],
+        medianCompletionTimeMs: 2000,
+        averageVisibleFieldsCount: 4,
+        viewCount: 2,
+        conversionRate: 2,
+      })
+    })
+
+    it('should include the answer distributions of email mode forms', async () => {
+      // Arrange
+      const yesNoField = generateDefaultField(BasicField.YesNo)
+      const { form } = await dbHandler.insertEmailForm({
+        formOptions: { form_fields: [yesNoField] },
+      })
+      await FormAnswerCountModel.create({
+        formId: form._id,
+        fieldId: yesNoField._id,
+        answer: 'Yes',
+        count: 3,
+      })
+
+      // Act
+      const actualResult = await InsightsService.getFormInsights(
+        form as unknown as IPopulatedForm,
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toMatchObject({
+        submissionCount: 0,
+        medianCompletionTimeMs: null,
+        conversionRate: null,
+        answerDistributions: [
+          {
+            fieldId: yesNoField._id,
+            answers: [
+              { answer: 'Yes', count: 3 },
+              { answer: 'No', count: 0 },
+            ],
+          },
+        ],
+      })
+    })
+
+    it('should return MalformedParametersError when the date range is malformed', async () => {
+      // Arrange
+      const { form } = await dbHandler.insertEncryptForm()
+
+      // Act
+      const actualResult = await InsightsService.getFormInsights(
+        form as unknown as IPopulatedForm,
+        { startDate: 'not a date', endDate: '2023-01-01' },
+      )
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        MalformedParametersError,
+      )
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import {
+  generateDefaultField,
+  generateNewCheckboxResponse,
+  generateNewSingleAnswerResponse,
+} from '__tests__/unit/backend/helpers/generate-form-data'
+
+import {
+  BasicField,
+  MyInfoAttribute,
+  RatingShape,
+} from '../../../../../shared/types'
+import {
+  getAnswersToCount,
+  getFieldAnswerOptions,
+  OTHERS_ANSWER,
+  toAnswerDistributions,
+} from '../insights.utils'
+
+describe('insights.utils', () => {
+  const radioField = generateDefaultField(BasicField.Radio, {
+    fieldOptions: ['Apple', 'Banana'],
+    othersRadioButton: true,
+  })
+  const checkboxField = generateDefaultField(BasicField.Checkbox, {
+    fieldOptions: ['Red', 'Green', 'Blue'],
+    othersRadioButton: false,
+  })
+  const shortTextField = generateDefaultField(BasicField.ShortText)
+
+  describe('getFieldAnswerOptions', () => {
+    it('should include the others option for fields which allow it', () => {
+      // Act + Assert
+      expect(getFieldAnswerOptions(radioField)).toEqual([
+        'Apple',
+        'Banana',
+        OTHERS_ANSWER,
+      ])
+    })
+
+    it('should return the rating steps for rating fields', () => {
+      // Arrange
+      const field = generateDefaultField(BasicField.Rating, {
+        ratingOptions: { steps: 3, shape: RatingShape.Heart },
+      })
+
+      // Act + Assert
+      expect(getFieldAnswerOptions(field)).toEqual(['1', '2', '3'])
+    })
+
+    it('should return null for MyInfo and non-choice fields', () => {
+      // Arrange
+      const myInfoField = generateDefaultField(BasicField.Dropdown, {
+        fieldOptions: ['Chinese', 'Malay'],
+        myInfo: { attr: MyInfoAttribute.Race },
+      })
+
+      // Act + Assert
+      expect(getFieldAnswerOptions(myInfoField)).toBeNull()
+      expect(getFieldAnswerOptions(shortTextField)).toBeNull()
+    })
+  })
+
+  describe('getAnswersToCount', () => {
+    it('should count answers which are options of choice fields', () => {
+      // Arrange
+      const responses = [
+        generateNewSingleAnswerResponse(BasicField.Radio, {
+          _id: radioField._id,
+          answer: 'Banana',
+        }),
+        generateNewCheckboxResponse({
+          _id: checkboxField._id,
+          answerArray: ['Red', 'Blue'],
+        }),
+        generateNewSingleAnswerResponse(BasicField.ShortText, {
+          _id: shortTextField._id,
+          answer: 'some text',
+        }),
+      ]
+
+      // Act
+      const answers = getAnswersToCount(
+        [radioField, checkboxField, shortTextField],
+        responses,
+      )
+
+      // Assert
+      expect(answers).toEqual([
+        { fieldId: radioField._id, answer: 'Banana' },
+        { fieldId: checkboxField._id, answer: 'Red' },
+        { fieldId: checkboxField._id, answer: 'Blue' },
+      ])
+    })
+
+    it('should count others answers without their text', () => {
+      // Arrange
+      const responses = [
+        generateNewSingleAnswerResponse(BasicField.Radio, {
+          _id: radioField._id,
+          answer: 'Others: my secret',
+        }),
+      ]
+
+      // Act
+      const answers = getAnswersToCount([radioField], responses)
+
+      // Assert
+      expect(answers).toEqual([
+        { fieldId: radioField._id, answer: OTHERS_ANSWER },
+      ])
+    })
+
+    it('should not count answers of hidden fields or answers which are not options', () => {
+      // Arrange
+      const responses = [
+        generateNewSingleAnswerResponse(BasicField.Radio, {
+          _id: radioField._id,
+          answer: 'Apple',
+          isVisible: false,
+        }),
+        generateNewCheckboxResponse({
+          _id: checkboxField._id,
+          answerArray: ['Others: Purple'],
+        }),
+      ]
+
+      // Act
+      const answers = getAnswersToCount([radioField, checkboxField], responses)
+
+      // Assert
+      expect(answers).toEqual([])
+    })
+  })
+
+  describe('toAnswerDistributions', () => {
+    it('should return the counts of every option of the choice fields', () => {
+      // Arrange
+      const answerCounts = [
+        { fieldId: radioField._id, answer: 'Apple', count: 3 },
+        { fieldId: radioField._id, answer: OTHERS_ANSWER, count: 1 },
+        // Answer which is no longer an option of the field.
+        { fieldId: radioField._id, answer: 'Cherry', count: 2 },
+      ]
+
+      // Act
+      const distributions = toAnswerDistributions(
+        [shortTextField, radioField],
+        answerCounts,
+      )
+
+      // Assert
+      expect(distributions).toEqual([
+        {
+          fieldId: radioField._id,
+          title: radioField.title,
+          fieldType: BasicField.Radio,
+          answers: [
+            { answer: 'Apple', count: 3 },
+            { answer: 'Banana', count: 0 },
+            { answer: OTHERS_ANSWER, count: 1 },
+          ],
+        },
+      ])
+    })
+  })
+})
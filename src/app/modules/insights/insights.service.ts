@@ -0,0 +1,280 @@
+import { ObjectId } from 'bson'
+import mongoose from 'mongoose'
+import { errAsync, okAsync, ResultAsync } from 'neverthrow'
+
+import {
+  AnswerDistribution,
+  FormInsightsDto,
+  FormInsightsQueryDto,
+  FormResponseMode,
+  SubmissionsOverTime,
+} from '../../../../shared/types'
+import { IPopulatedForm } from '../../../types'
+import { createLoggerWithLabel } from '../../config/logger'
+import getFormAnswerCountModel from '../../models/form_answer_count.server.model'
+import getFormViewModel from '../../models/form_view.server.model'
+import getSubmissionModel from '../../models/submission.server.model'
+import {
+  createQueryWithDateParam,
+  getStartOfDay,
+  isMalformedDate,
+} from '../../utils/date'
+import { DatabaseError, MalformedParametersError } from '../core/core.errors'
+import { ProcessedFieldResponse } from '../submission/submission.types'
+
+import { getAnswersToCount, toAnswerDistributions } from './insights.utils'
+
+const logger = createLoggerWithLabel(module)
+
+const FormViewModel = getFormViewModel(mongoose)
+const FormAnswerCountModel = getFormAnswerCountModel(mongoose)
+const SubmissionModel = getSubmissionModel(mongoose)
+
+const toDatabaseError =
+  (message: string, meta: { action: string; formId: string }) =>
+  (error: unknown) => {
+    logger.error({ message, meta, error })
+    return new DatabaseError()
+  }
+
+/**
+ * Increments the number of views of the form for the current day.
+ * @param formId the id of the form which was viewed
+ * @returns ok(true) if the view was recorded
+ * @returns err(DatabaseError) on database error
+ */
+export const recordFormView = (
+  formId: string,
+): ResultAsync<true, DatabaseError> => {
+  return ResultAsync.fromPromise(
+    FormViewModel.updateOne(
+      { formId, date: getStartOfDay() },
+      { $inc: { count: 1 } },
+      { upsert: true },
+    ).exec(),
+    toDatabaseError('Error recording form view', {
+      action: 'recordFormView',
+      formId,
+    }),
+  ).map(() => true as const)
+}
+
+/**
+ * Increments the counts of the answers to the choice fields of a submission.
+ * Should only be called for email mode submissions, as the answers of storage
+ * mode submissions are encrypted.
+ * @param form the form which was submitted
+ * @param responses the processed responses of the submission
+ * @returns ok(true) if the answers were counted
+ * @returns err(DatabaseError) on database error
+ */
+export const recordAnswerCounts = (
+  form: IPopulatedForm,
+  responses: ProcessedFieldResponse[],
+): ResultAsync<true, DatabaseError> => {
+  const answers = getAnswersToCount(form.form_fields ?? [], responses)
+  if (answers.length === 0) return okAsync(true)
+
+  return ResultAsync.fromPromise(
+    FormAnswerCountModel.bulkWrite(
+      answers.map(({ fieldId, answer }) => ({
+        updateOne: {
+          filter: { formId: form._id, fieldId, answer },
+          update: { $inc: { count: 1 } },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    ),
+    toDatabaseError('Error recording answer counts', {
+      action: 'recordAnswerCounts',
+      formId: String(form._id),
+    }),
+  ).map(() => true as const)
+}
+
+const getSubmissionsOverTime = (
+  formId: string,
+  dateQuery: ReturnType<typeof createQueryWithDateParam>,
+): ResultAsync<SubmissionsOverTime, DatabaseError> => {
+  return ResultAsync.fromPromise(
+    SubmissionModel.aggregate<{ _id: string; count: number }>([
+      { $match: { form: new ObjectId(formId), ...dateQuery } },
+      {
+        $group: {
+          _id: {
+            $dateToString: {
+              format: '%Y-%m-%d',
+              date: '$created',
+              timezone: 'Asia/Singapore',
+            },
+          },
+          count: { $sum: 1 },
+        },
+      },
+      { $sort: { _id: 1 } },
+    ]),
+    toDatabaseError('Error aggregating submissions over time', {
+      action: 'getSubmissionsOverTime',
+      formId,
+    }),
+  ).map((results) => results.map(({ _id, count }) => ({ date: _id, count })))
+}
+
+const getCompletionStats = (
+  formId: string,
+  dateQuery: ReturnType<typeof createQueryWithDateParam>,
+): ResultAsync<
+  Pick<FormInsightsDto, 'medianCompletionTimeMs' | 'averageVisibleFieldsCount'>,
+  DatabaseError
+> => {
+  const logMeta = { action: 'getCompletionStats', formId }
+  const match = {
+    $match: {
+      form: new ObjectId(formId),
+      ...dateQuery,
+      'responseMetadata.responseTimeMs': { $exists: true },
+    },
+  }
+
+  return ResultAsync.fromPromise(
+    SubmissionModel.aggregate<{ count: number; averageVisibleFields: number }>([
+      match,
+      {
+        $group: {
+          _id: null,
+          count: { $sum: 1 },
+          averageVisibleFields: { $avg: '$responseMetadata.numVisibleFields' },
+        },
+      },
+    ]),
+    toDatabaseError('Error aggregating completion stats', logMeta),
+  ).andThen(([stats]) => {
+    if (!stats?.count) {
+      return okAsync({
+        medianCompletionTimeMs: null,
+        averageVisibleFieldsCount: null,
+      })
+    }
+
+    // Retrieve the middle one or two completion times to compute the median,
+    // projecting before sorting to keep the sort small.
+    return ResultAsync.fromPromise(
+      SubmissionModel.aggregate<{ responseTimeMs: number }>([
+        match,
+        {
+          $project: {
+            _id: 0,
+            responseTimeMs: '$responseMetadata.responseTimeMs',
+          },
+        },
+        { $sort: { responseTimeMs: 1 } },
+        { $skip: Math.floor((stats.count - 1) / 2) },
+        { $limit: stats.count % 2 === 0 ? 2 : 1 },
+      ]).allowDiskUse(true),
+      toDatabaseError('Error retrieving median completion time', logMeta),
+    ).map((middle) => ({
+      medianCompletionTimeMs: Math.round(
+        middle.reduce((sum, { responseTimeMs }) => sum + responseTimeMs, 0) /
+          middle.length,
+      ),
+      averageVisibleFieldsCount: stats.averageVisibleFields ?? null,
+    }))
+  })
+}
+
+const getViewCount = (
+  formId: string,
+  dateRange: FormInsightsQueryDto,
+): ResultAsync<number, DatabaseError> => {
+  return ResultAsync.fromPromise(
+    FormViewModel.aggregate<{ count: number }>([
+      {
+        $match: {
+          formId: new ObjectId(formId),
+          ...createQueryWithDateParam(
+            dateRange.startDate,
+            dateRange.endDate,
+            'date',
+          ),
+        },
+      },
+      { $group: { _id: null, count: { $sum: '$count' } } },
+    ]),
+    toDatabaseError('Error counting form views', {
+      action: 'getViewCount',
+      formId,
+    }),
+  ).map(([result]) => result?.count ?? 0)
+}
+
+const getAnswerDistributions = (
+  form: IPopulatedForm,
+): ResultAsync<AnswerDistribution[], DatabaseError> => {
+  return ResultAsync.fromPromise(
+    FormAnswerCountModel.find({ formId: form._id }).lean().exec(),
+    toDatabaseError('Error retrieving answer counts', {
+      action: 'getAnswerDistributions',
+      formId: String(form._id),
+    }),
+  ).map((answerCounts) =>
+    toAnswerDistributions(form.form_fields ?? [], answerCounts),
+  )
+}
+
+/**
+ * Computes the insights of a form within the given date range, from the
+ * metadata of its submissions and its recorded views. Answer distributions
+ * are only included for email mode forms.
+ * @param form the form to compute the insights of
+ * @param dateRange the optional date range to compute the insights within
+ * @returns ok(insights) if the insights were computed
+ * @returns err(MalformedParametersError) if the date range is malformed
+ * @returns err(DatabaseError) on database error
+ */
+export const getFormInsights = (
+  form: IPopulatedForm,
+  dateRange: FormInsightsQueryDto = {},
+): ResultAsync<FormInsightsDto, MalformedParametersError | DatabaseError> => {
+  if (
+    isMalformedDate(dateRange.startDate) ||
+    isMalformedDate(dateRange.endDate)
+  ) {
+    return errAsync(new MalformedParametersError('Malformed date parameter'))
+  }
+
+  const formId = String(form._id)
+  const dateQuery = createQueryWithDateParam(
+    dateRange.startDate,
+    dateRange.endDate,
+  )
+
+  return ResultAsync.combine([
+    getSubmissionsOverTime(formId, dateQuery),
+    getCompletionStats(formId, dateQuery),
+    getViewCount(formId, dateRange),
+    form.responseMode === FormResponseMode.Email
+      ? getAnswerDistributions(form)
+      : okAsync(undefined),
+  ]).map(
+    ([
+      submissionsOverTime,
+      completionStats,
+      viewCount,
+      answerDistributions,
+    ]) => {
+      const submissionCount = submissionsOverTime.reduce(
+        (sum, { count }) => sum + count,
+        0,
+      )
+      return {
+        submissionCount,
+        submissionsOverTime,
+        ...completionStats,
+        viewCount,
+        conversionRate: viewCount ? submissionCount / viewCount : null,
+        ...(answerDistributions && { answerDistributions }),
+      }
+    },
+  )
+}
@@ -0,0 +1,122 @@
+import { groupBy, keyBy, range, uniq } from 'lodash'
+
+import { AnswerDistribution, BasicField } from '../../../../shared/types'
+import { FormFieldSchema, IFormAnswerCount } from '../../../types'
+import {
+  isOneOfOptions,
+  isOtherOption,
+} from '../../utils/field-validation/validators/options'
+import { ProcessedFieldResponse } from '../submission/submission.types'
+
+/**
+ * Answer which all answers to the "Others" option of radio and checkbox fields
+ * are counted under, as the free text entered by respondents may be sensitive.
+ */
+export const OTHERS_ANSWER = 'Others'
+
+/**
+ * Retrieves the options which answers to the field are counted under.
+ * Only choice fields have a fixed set of answers which can be counted, and
+ * MyInfo fields are excluded as their answers are personal data.
+ * @param field the field to retrieve the answer options of
+ * @returns the answer options of the field, or null if answers to the field should not be counted
+ */
+export const getFieldAnswerOptions = (
+  field: FormFieldSchema,
+): string[] | null => {
+  if (field.myInfo?.attr) return null
+
+  switch (field.fieldType) {
+    case BasicField.Radio:
+    case BasicField.Checkbox:
+      return field.othersRadioButton
+        ? uniq([...field.fieldOptions, OTHERS_ANSWER])
+        : field.fieldOptions
+    case BasicField.Dropdown:
+      return field.fieldOptions
+    case BasicField.YesNo:
+      return ['Yes', 'No']
+    case BasicField.Rating:
+      return range(1, field.ratingOptions.steps + 1).map(String)
+    default:
+      return null
+  }
+}
+
+/**
+ * Retrieves the answers of a submission which should be counted towards the
+ * answer distributions of the form. Answers which are not one of the options
+ * of the field are not counted, except for "Others" answers which are all
+ * counted under the same answer.
+ * @param formFields the fields of the form which was submitted
+ * @param responses the processed responses of the submission
+ * @returns the field IDs and answers to count
+ */
+export const getAnswersToCount = (
+  formFields: FormFieldSchema[],
+  responses: ProcessedFieldResponse[],
+): Pick<IFormAnswerCount, 'fieldId' | 'answer'>[] => {
+  const fieldsById = keyBy(formFields, (field) => String(field._id))
+
+  return responses.flatMap((response) => {
+    const field = fieldsById[String(response._id)]
+    if (!field || !response.isVisible) return []
+
+    const options = getFieldAnswerOptions(field)
+    if (!options) return []
+
+    const answers =
+      response.fieldType === BasicField.Checkbox
+        ? response.answerArray
+        : 'answer' in response
+        ? [response.answer]
+        : []
+
+    const othersRadioButton =
+      'othersRadioButton' in field && field.othersRadioButton
+    const countedAnswers = answers.flatMap((answer) => {
+      if (isOneOfOptions(options, answer)) return [answer]
+      if (isOtherOption(othersRadioButton, answer)) return [OTHERS_ANSWER]
+      return []
+    })
+
+    return uniq(countedAnswers).map((answer) => ({
+      fieldId: String(field._id),
+      answer,
+    }))
+  })
+}
+
+/**
+ * Combines the answer counts of a form with its fields, in the order of the
+ * fields. Counts of answers which are no longer options of their field are
+ * omitted.
+ * @param formFields the current fields of the form
+ * @param answerCounts the answer counts recorded for the form
+ * @returns the answer distributions of the fields whose answers are counted
+ */
+export const toAnswerDistributions = (
+  formFields: FormFieldSchema[],
+  answerCounts: Pick<IFormAnswerCount, 'fieldId' | 'answer' | 'count'>[],
+): AnswerDistribution[] => {
+  const countsByFieldId = groupBy(answerCounts, 'fieldId')
+
+  return formFields.flatMap((field) => {
+    const options = getFieldAnswerOptions(field)
+    if (!options) return []
+
+    const fieldId = String(field._id)
+    const countsByAnswer = keyBy(countsByFieldId[fieldId] ?? [], 'answer')
+    return [
+      {
+        fieldId,
+        title: field.title,
+        fieldType: field.fieldType,
+        answers: options.map((answer) => ({
+          answer,
+          count: countsByAnswer[answer]?.count ?? 0,
+        })),
+      },
+    ]
+  })
+}
@@ -9,10 +9,15 @@ import { okAsync } from 'neverthrow'
 import MailService from 'src/app/services/mail/mail.service'
 import { IFormIssueSchema, IPopulatedForm } from 'src/types'
 
-import { FormIssueMetaDto } from '../../../../../shared/types'
+import { FormIssueMetaDto, FormIssueStatus } from '../../../../../shared/types'
 import getFormIssueModel from '../../../models/form_issue.server.model'
 import { DatabaseError } from '../../core/core.errors'
 import { FormNotFoundError } from '../../form/form.errors'
+import {
+  FormIssueNotFoundError,
+  InvalidIssueAssigneeError,
+  MissingIssueReporterEmailError,
+} from '../issue.errors'
 import * as IssueService from '../issue.service'
 
 const MOCK_FORM_ID = new ObjectId()
@@ -404,9 +409,12 @@ describe('issue.service', () => {
         // Issue is returned in date order
         .sort((a, b) => compareAsc(a.created!, b.created!))
         .map((issue) => ({
+          _id: String(issue._id),
           timestamp: moment(issue.created).valueOf(),
           issue: issue.issue,
           email: issue.email,
+          status: FormIssueStatus.New,
+          notes: [],
         }))
       // Act
       const actualResult = await IssueService.getFormIssues(mockFormId)
@@ -465,11 +473,14 @@ describe('issue.service', () => {
         count: 1,
         issues: [
           {
+            _id: String(issueSchema._id),
             index: 1,
             timestamp: moment(issueSchema.created).valueOf(),
             issue: 'I am anonymous',
             // Empty email string
             email: '',
+            status: FormIssueStatus.New,
+            notes: [],
           },
         ],
       }
@@ -477,6 +488,50 @@ describe('issue.service', () => {
       expect(actualResult._unsafeUnwrap()).toEqual(expectedResult)
     })
 
+    it('should only return issues matching the status and assignee filters', async () => {
+      // Arrange
+      const mockFormId = new ObjectId().toHexString()
+      await FormIssueModel.create([
+        { formId: mockFormId, issue: 'new issue' },
+        {
+          formId: mockFormId,
+          issue: 'acknowledged issue',
+          status: FormIssueStatus.Acknowledged,
+          assignee: MOCK_EMAIL,
+        },
+        {
+          formId: mockFormId,
+          issue: 'unassigned acknowledged issue',
+          status: FormIssueStatus.Acknowledged,
+        },
+      ])
+      // Issue reported before statuses were introduced.
+      await FormIssueModel.collection.insertOne({
+        formId: new ObjectId(mockFormId),
+        issue: 'legacy issue',
+      })
+
+      // Act
+      const actualNewResult = await IssueService.getFormIssues(mockFormId, {
+        status: FormIssueStatus.New,
+      })
+      const actualAssignedResult = await IssueService.getFormIssues(
+        mockFormId,
+        {
+          status: FormIssueStatus.Acknowledged,
+          assignee: MOCK_EMAIL.toUpperCase(),
+        },
+      )
+
+      // Assert
+      expect(
+        actualNewResult._unsafeUnwrap().issues.map(({ issue }) => issue),
+      ).toEqual(['new issue', 'legacy issue'])
+      expect(
+        actualAssignedResult._unsafeUnwrap().issues.map(({ issue }) => issue),
+      ).toEqual(['acknowledged issue'])
+    })
+
     it('should return DatabaseError when error occurs whilst querying database', async () => {
       // Arrange
       const mockFormId = new ObjectId().toHexString()
@@ -502,6 +557,198 @@ describe('issue.service', () => {
     })
   })
 
+  describe('updateFormIssue', () => {
+    const MOCK_COLLABORATOR_EMAIL = 'collab@example.com'
+    const MOCK_FORM = {
+      _id: MOCK_FORM_ID,
+      admin: { email: MOCK_EMAIL },
+      permissionList: [{ email: MOCK_COLLABORATOR_EMAIL }],
+    } as unknown as IPopulatedForm
+    let formIssue: IFormIssueSchema
+    beforeEach(async () => {
+      await dbHandler.clearCollection(FormIssueModel.collection.name)
+      formIssue = await FormIssueModel.create({
+        formId: MOCK_FORM_ID,
+        issue: MOCK_ISSUE,
+      })
+    })
+
+    it('should update the status and assignee and add the note', async () => {
+      // Act
+      const actualResult = await IssueService.updateFormIssue({
+        form: MOCK_FORM,
+        issueId: String(formIssue._id),
+        update: {
+          status: FormIssueStatus.Acknowledged,
+          assignee: MOCK_COLLABORATOR_EMAIL,
+          note: 'Looking into it',
+        },
+        updatedBy: MOCK_EMAIL,
+      })
+
+      // Assert
+      const actual = actualResult._unsafeUnwrap()
+      expect(actual.status).toEqual(FormIssueStatus.Acknowledged)
+      expect(actual.assignee).toEqual(MOCK_COLLABORATOR_EMAIL)
+      expect(actual.notes).toEqual([
+        expect.objectContaining({
+          content: 'Looking into it',
+          createdBy: MOCK_EMAIL,
+          created: expect.any(Date),
+        }),
+      ])
+    })
+
+    it('should unassign the issue when assignee is null', async () => {
+      // Arrange
+      await FormIssueModel.updateOne(
+        { _id: formIssue._id },
+        { assignee: MOCK_COLLABORATOR_EMAIL },
+      )
+
+      // Act
+      const actualResult = await IssueService.updateFormIssue({
+        form: MOCK_FORM,
+        issueId: String(formIssue._id),
+        update: { assignee: null },
+        updatedBy: MOCK_EMAIL,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap().assignee).toBeUndefined()
+    })
+
+    it('should return InvalidIssueAssigneeError when assignee is not a collaborator', async () => {
+      // Act
+      const actualResult = await IssueService.updateFormIssue({
+        form: MOCK_FORM,
+        issueId: String(formIssue._id),
+        update: { assignee: 'stranger@example.com' },
+        updatedBy: MOCK_EMAIL,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        InvalidIssueAssigneeError,
+      )
+    })
+
+    it('should return FormIssueNotFoundError when issue is not reported on the form', async () => {
+      // Act
+      const actualResult = await IssueService.updateFormIssue({
+        form: { ...MOCK_FORM, _id: new ObjectId() } as IPopulatedForm,
+        issueId: String(formIssue._id),
+        update: { status: FormIssueStatus.Resolved },
+        updatedBy: MOCK_EMAIL,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        FormIssueNotFoundError,
+      )
+    })
+  })
+
+  describe('updateFormIssuesStatus', () => {
+    beforeEach(async () => {
+      await dbHandler.clearCollection(FormIssueModel.collection.name)
+    })
+
+    it('should only update the status of the given issues of the form', async () => {
+      // Arrange
+      const issues = await FormIssueModel.create(
+        times(3, (count) => ({
+          formId: MOCK_FORM_ID,
+          issue: `issue ${count}`,
+        })),
+      )
+      const otherFormIssue = await FormIssueModel.create({
+        formId: new ObjectId(),
+        issue: 'issue of another form',
+      })
+
+      // Act
+      const actualResult = await IssueService.updateFormIssuesStatus({
+        formId: MOCK_FORM_ID.toHexString(),
+        issueIds: [issues[0], issues[1], otherFormIssue].map(({ _id }) =>
+          String(_id),
+        ),
+        status: FormIssueStatus.Resolved,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual({ updatedCount: 2 })
+      const resolvedCount = await FormIssueModel.countDocuments({
+        status: FormIssueStatus.Resolved,
+      })
+      expect(resolvedCount).toEqual(2)
+    })
+  })
+
+  describe('replyToFormIssue', () => {
+    const MOCK_FORM = {
+      _id: MOCK_FORM_ID,
+      title: 'Mock form',
+    } as unknown as IPopulatedForm
+    beforeEach(async () => {
+      await dbHandler.clearCollection(FormIssueModel.collection.name)
+    })
+    afterEach(() => jest.clearAllMocks())
+
+    it('should email the reply to the reporter and record when it was sent', async () => {
+      // Arrange
+      const formIssue = await FormIssueModel.create({
+        formId: MOCK_FORM_ID,
+        issue: MOCK_ISSUE,
+        email: MOCK_EMAIL,
+      })
+      const mailSpy = jest
+        .spyOn(MailService, 'sendFormIssueReply')
+        .mockReturnValueOnce(okAsync(true))
+
+      // Act
+      const actualResult = await IssueService.replyToFormIssue({
+        form: MOCK_FORM,
+        issueId: String(formIssue._id),
+        message: 'Fixed!',
+        repliedBy: 'admin@example.com',
+      })
+
+      // Assert
+      expect(mailSpy).toHaveBeenCalledWith({
+        form: MOCK_FORM,
+        email: MOCK_EMAIL,
+        issue: MOCK_ISSUE,
+        message: 'Fixed!',
+        replyTo: 'admin@example.com',
+      })
+      expect(actualResult._unsafeUnwrap().lastReplied).toEqual(expect.any(Date))
+    })
+
+    it('should return MissingIssueReporterEmailError when reporter did not leave an email', async () => {
+      // Arrange
+      const formIssue = await FormIssueModel.create({
+        formId: MOCK_FORM_ID,
+        issue: MOCK_ISSUE,
+      })
+      const mailSpy = jest.spyOn(MailService, 'sendFormIssueReply')
+
+      // Act
+      const actualResult = await IssueService.replyToFormIssue({
+        form: MOCK_FORM,
+        issueId: String(formIssue._id),
+        message: 'Fixed!',
+        repliedBy: 'admin@example.com',
+      })
+
+      // Assert
+      expect(mailSpy).not.toHaveBeenCalled()
+      expect(actualResult._unsafeUnwrapErr()).toBeInstanceOf(
+        MissingIssueReporterEmailError,
+      )
+    })
+  })
+
   describe('getFormIssueStream', () => {
     it('should return stream successfully', async () => {
       // Arrange
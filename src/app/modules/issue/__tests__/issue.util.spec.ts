@@ -1,6 +1,15 @@
+import { ObjectId } from 'bson'
+
+import { IFormIssueSchema, IPopulatedForm } from 'src/types'
+
+import { FormIssueStatus } from '../../../../../shared/types'
 import { DatabaseError } from '../../core/core.errors'
 import * as FormErrors from '../../form/form.errors'
-import { mapRouteError } from '../issue.util'
+import {
+  isFormAdminOrCollaborator,
+  mapRouteError,
+  toProcessedIssueMeta,
+} from '../issue.util'
 
 describe('issue.util', () => {
   describe('mapRouteError', () => {
@@ -37,4 +46,75 @@ describe('issue.util', () => {
       expect(actualResult.statusCode).toEqual(500)
     })
   })
+
+  describe('isFormAdminOrCollaborator', () => {
+    const MOCK_FORM = {
+      admin: { email: 'admin@example.com' },
+      permissionList: [{ email: 'collab@example.com' }],
+    } as IPopulatedForm
+
+    it('should return true for the form admin and collaborators regardless of case', () => {
+      // Act + Assert
+      expect(isFormAdminOrCollaborator(MOCK_FORM, 'Admin@example.com')).toBe(
+        true,
+      )
+      expect(isFormAdminOrCollaborator(MOCK_FORM, 'collab@example.com')).toBe(
+        true,
+      )
+    })
+
+    it('should return false for other emails', () => {
+      // Act + Assert
+      expect(isFormAdminOrCollaborator(MOCK_FORM, 'stranger@example.com')).toBe(
+        false,
+      )
+    })
+  })
+
+  describe('toProcessedIssueMeta', () => {
+    it('should convert the issue with its notes into timestamps', () => {
+      // Arrange
+      const created = new Date('2023-01-01T00:00:00Z')
+      const noteCreated = new Date('2023-01-02T00:00:00Z')
+      const lastReplied = new Date('2023-01-03T00:00:00Z')
+      const issueId = new ObjectId()
+      const issue = {
+        _id: issueId,
+        issue: 'Cannot submit',
+        status: FormIssueStatus.Acknowledged,
+        assignee: 'collab@example.com',
+        notes: [
+          {
+            content: 'Looking into it',
+            createdBy: 'admin@example.com',
+            created: noteCreated,
+          },
+        ],
+        lastReplied,
+        created,
+      } as unknown as IFormIssueSchema
+
+      // Act
+      const actual = toProcessedIssueMeta(issue, 0)
+
+      // Assert
+      expect(actual).toEqual({
+        _id: issueId.toHexString(),
+        index: 1,
+        timestamp: created.getTime(),
+        issue: 'Cannot submit',
+        email: '',
+        status: FormIssueStatus.Acknowledged,
+        assignee: 'collab@example.com',
+        notes: [
+          {
+            content: 'Looking into it',
+            createdBy: 'admin@example.com',
+            timestamp: noteCreated.getTime(),
+          },
+        ],
+        lastRepliedTimestamp: lastReplied.getTime(),
+      })
+    })
+  })
 })
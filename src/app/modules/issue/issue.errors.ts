@@ -0,0 +1,23 @@
+import { ApplicationError } from '../core/core.errors'
+
+export class FormIssueNotFoundError extends ApplicationError {
+  constructor(message = 'Issue not found') {
+    super(message)
+  }
+}
+
+export class InvalidIssueAssigneeError extends ApplicationError {
+  constructor(
+    message = 'Issues can only be assigned to the form admin or its collaborators',
+  ) {
+    super(message)
+  }
+}
+
+export class MissingIssueReporterEmailError extends ApplicationError {
+  constructor(
+    message = 'The reporter of this issue did not leave an email address to reply to',
+  ) {
+    super(message)
+  }
+}
@@ -1,6 +1,5 @@
 import { ObjectId } from 'bson'
 import { isEmpty } from 'lodash'
-import moment from 'moment-timezone'
 import mongoose from 'mongoose'
 import { errAsync, okAsync, ResultAsync } from 'neverthrow'
 
@@ -10,7 +9,13 @@ import {
   IPopulatedForm,
 } from 'src/types'
 
-import { FormIssueMetaDto, ProcessedIssueMeta } from '../../../../shared/types'
+import {
+  FormIssueMetaDto,
+  FormIssueMetaQueryDto,
+  FormIssueStatus,
+  UpdateFormIssueBodyDto,
+  UpdateFormIssuesStatusResponseDto,
+} from '../../../../shared/types'
 import { createLoggerWithLabel } from '../../config/logger'
 import getFormIssueModel from '../../models/form_issue.server.model'
 import {
@@ -23,6 +28,13 @@ import { getMongoErrorMessage } from '../../utils/handle-mongo-error'
 import { DatabaseError } from '../core/core.errors'
 import { FormNotFoundError } from '../form/form.errors'
 
+import {
+  FormIssueNotFoundError,
+  InvalidIssueAssigneeError,
+  MissingIssueReporterEmailError,
+} from './issue.errors'
+import { isFormAdminOrCollaborator, toProcessedIssueMeta } from './issue.util'
+
 const logger = createLoggerWithLabel(module)
 
 const FormIssueModel = getFormIssueModel(mongoose)
@@ -189,14 +201,32 @@ export const notifyFormAdmin = ({
  * Returned processed object containing count of issues, and
  * list of issue.
  * @param formId the form to retrieve issue for
+ * @param filters the optional status and assignee to filter issues by
  * @returns ok(issue response object) on success
  * @returns err(DatabaseError) if database error occurs during query
  */
 export const getFormIssues = (
   formId: string,
+  filters: FormIssueMetaQueryDto = {},
 ): ResultAsync<FormIssueMetaDto, DatabaseError> => {
+  const { status, assignee } = filters
   return ResultAsync.fromPromise(
-    FormIssueModel.find({ formId }).sort({ _id: 1 }).exec(),
+    FormIssueModel.find({
+      formId,
+      ...(status && {
+        // Issues reported before statuses were introduced have no status, and
+        // are treated as new.
+        status:
+          status === FormIssueStatus.New
+            ? {
+                $nin: [FormIssueStatus.Acknowledged, FormIssueStatus.Resolved],
+              }
+            : status,
+      }),
+      ...(assignee && { assignee: assignee.toLowerCase() }),
+    })
+      .sort({ _id: 1 })
+      .exec(),
     (error) => {
       logger.error({
         message: 'Error retrieving issue documents from database',
@@ -215,15 +245,7 @@ export const getFormIssues = (
       }
     }
 
-    const metadata = issues.map((data, idx) => {
-      const metadataEntry: ProcessedIssueMeta = {
-        timestamp: moment(data.created).valueOf(),
-        issue: data.issue,
-        email: data.email ?? '',
-        index: idx + 1,
-      }
-      return metadataEntry
-    })
+    const metadata = issues.map(toProcessedIssueMeta)
     return {
       issues: metadata,
       count: issues.length,
@@ -245,3 +267,184 @@ export const getFormIssueStream = (
     'created',
   ])
 }
+
+/**
+ * Updates the triage details of an issue reported on the given form.
+ * @param form the form which the issue was reported on
+ * @param issueId the id of the issue to update
+ * @param update the new status and assignee of the issue, and the note to add to it
+ * @param updatedBy the email of the admin updating the issue
+ * @returns ok(updated issue) on success
+ * @returns err(InvalidIssueAssigneeError) if the assignee is not the form admin or a collaborator
+ * @returns err(FormIssueNotFoundError) if the issue cannot be found on the form
+ * @returns err(DatabaseError) if database error occurs during the update
+ */
+export const updateFormIssue = ({
+  form,
+  issueId,
+  update,
+  updatedBy,
+}: {
+  form: IPopulatedForm
+  issueId: string
+  update: UpdateFormIssueBodyDto
+  updatedBy: string
+}): ResultAsync<
+  IFormIssueSchema,
+  InvalidIssueAssigneeError | FormIssueNotFoundError | DatabaseError
+> => {
+  const { status, assignee, note } = update
+  if (assignee && !isFormAdminOrCollaborator(form, assignee)) {
+    return errAsync(new InvalidIssueAssigneeError())
+  }
+  if (!mongoose.Types.ObjectId.isValid(issueId)) {
+    return errAsync(new FormIssueNotFoundError())
+  }
+
+  return ResultAsync.fromPromise(
+    FormIssueModel.findOneAndUpdate(
+      { _id: issueId, formId: form._id },
+      {
+        $set: {
+          ...(status && { status }),
+          ...(assignee && { assignee }),
+        },
+        ...(assignee === null && { $unset: { assignee: 1 } }),
+        ...(note && {
+          $push: { notes: { content: note, createdBy: updatedBy } },
+        }),
+      },
+      { new: true, runValidators: true },
+    ).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error updating form issue in database',
+        meta: {
+          action: 'updateFormIssue',
+          formId: form._id,
+          issueId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((issue) =>
+    issue ? okAsync(issue) : errAsync(new FormIssueNotFoundError()),
+  )
+}
+
+/**
+ * Updates the status of multiple issues reported on the given form at once.
+ * Ids of issues which were not reported on the form are ignored.
+ * @param formId the form which the issues were reported on
+ * @param issueIds the ids of the issues to update
+ * @param status the new status of the issues
+ * @returns ok(number of issues updated) on success
+ * @returns err(DatabaseError) if database error occurs during the update
+ */
+export const updateFormIssuesStatus = ({
+  formId,
+  issueIds,
+  status,
+}: {
+  formId: string
+  issueIds: string[]
+  status: FormIssueStatus
+}): ResultAsync<UpdateFormIssuesStatusResponseDto, DatabaseError> => {
+  return ResultAsync.fromPromise(
+    FormIssueModel.updateMany(
+      { formId, _id: { $in: issueIds } },
+      { $set: { status } },
+    ).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error updating status of form issues in database',
+        meta: {
+          action: 'updateFormIssuesStatus',
+          formId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).map(({ nModified }) => ({ updatedCount: nModified }))
+}
+
+/**
+ * Emails a reply from a form admin to the respondent who reported an issue on
+ * the given form, and records when the reply was sent.
+ * @param form the form which the issue was reported on
+ * @param issueId the id of the issue to reply to
+ * @param message the reply to send
+ * @param repliedBy the email of the admin replying, which responses are directed to
+ * @returns ok(updated issue) on success
+ * @returns err(FormIssueNotFoundError) if the issue cannot be found on the form
+ * @returns err(MissingIssueReporterEmailError) if the reporter did not leave an email
+ * @returns err(MailGenerationError | MailSendError) if the reply could not be sent
+ * @returns err(DatabaseError) if database error occurs
+ */
+export const replyToFormIssue = ({
+  form,
+  issueId,
+  message,
+  repliedBy,
+}: {
+  form: IPopulatedForm
+  issueId: string
+  message: string
+  repliedBy: string
+}): ResultAsync<
+  IFormIssueSchema,
+  | FormIssueNotFoundError
+  | MissingIssueReporterEmailError
+  | MailGenerationError
+  | MailSendError
+  | DatabaseError
+> => {
+  if (!mongoose.Types.ObjectId.isValid(issueId)) {
+    return errAsync(new FormIssueNotFoundError())
+  }
+
+  const logMeta = {
+    action: 'replyToFormIssue',
+    formId: form._id,
+    issueId,
+  }
+
+  return ResultAsync.fromPromise(
+    FormIssueModel.findOne({ _id: issueId, formId: form._id }).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error retrieving form issue from database',
+        meta: logMeta,
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  )
+    .andThen((issue) => {
+      if (!issue) return errAsync(new FormIssueNotFoundError())
+      if (!issue.email) return errAsync(new MissingIssueReporterEmailError())
+      return okAsync({ issue, email: issue.email })
+    })
+    .andThen(({ issue, email }) =>
+      MailService.sendFormIssueReply({
+        form,
+        email,
+        issue: issue.issue,
+        message,
+        replyTo: repliedBy,
+      }).map(() => issue),
+    )
+    .andThen((issue) => {
+      issue.lastReplied = new Date()
+      return ResultAsync.fromPromise(issue.save(), (error) => {
+        logger.error({
+          message: 'Error recording reply to form issue in database',
+          meta: logMeta,
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      })
+    })
+}
@@ -1,6 +1,8 @@
 import { StatusCodes } from 'http-status-codes'
+import moment from 'moment-timezone'
 
-import { MapRouteError } from '../../../types'
+import { ProcessedIssueMeta } from '../../../../shared/types'
+import { IFormIssueSchema, IPopulatedForm, MapRouteError } from '../../../types'
 import { createLoggerWithLabel } from '../../config/logger'
 import { ApplicationError, DatabaseError } from '../core/core.errors'
 import * as FormErrors from '../form/form.errors'
@@ -49,3 +51,52 @@ export const mapRouteError: MapRouteError = (
       }
   }
 }
+
+/**
+ * Checks whether the given email belongs to the admin or a collaborator of
+ * the form, who issues on the form can be assigned to.
+ * @param form the form to check
+ * @param email the email to check
+ * @returns true if the email belongs to the form admin or a collaborator
+ */
+export const isFormAdminOrCollaborator = (
+  form: IPopulatedForm,
+  email: string,
+): boolean => {
+  const lowerCaseEmail = email.toLowerCase()
+  return (
+    form.admin.email.toLowerCase() === lowerCaseEmail ||
+    form.permissionList.some(
+      (collaborator) => collaborator.email.toLowerCase() === lowerCaseEmail,
+    )
+  )
+}
+
+/**
+ * Converts an issue document into the metadata shown to form admins.
+ * @param issue the issue to convert
+ * @param idx the position of the issue in the list of issues
+ * @returns the metadata of the issue
+ */
+export const toProcessedIssueMeta = (
+  issue: IFormIssueSchema,
+  idx: number,
+): ProcessedIssueMeta => {
+  return {
+    _id: String(issue._id),
+    timestamp: moment(issue.created).valueOf(),
+    issue: issue.issue,
+    email: issue.email ?? '',
+    index: idx + 1,
+    status: issue.status,
+    assignee: issue.assignee,
+    notes: (issue.notes ?? []).map(({ content, createdBy, created }) => ({
+      content,
+      createdBy,
+      timestamp: moment(created).valueOf(),
+    })),
+    lastRepliedTimestamp: issue.lastReplied
+      ? moment(issue.lastReplied).valueOf()
+      : undefined,
+  }
+}
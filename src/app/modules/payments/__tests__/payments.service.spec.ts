@@ -7,7 +7,11 @@ import getAgencyModel from 'src/app/models/agency.server.model'
 import getPaymentModel from 'src/app/models/payment.server.model'
 
 import { InvalidDomainError } from '../../auth/auth.errors'
-import { DatabaseError } from '../../core/core.errors'
+import { DatabaseError, MalformedParametersError } from '../../core/core.errors'
+import {
+  InvalidProductSelectionError,
+  ProductOutOfStockError,
+} from '../payments.errors'
 import * as PaymentsService from '../payments.service'
 
 const Payment = getPaymentModel(mongoose)
@@ -259,6 +263,63 @@ describe('payments.service', () => {
     })
   })
 
+  describe('getPaymentsByFormId', () => {
+    const MOCK_PAYMENT = {
+      paymentIntentId: 'pi_MOCK_ID',
+      amount: 1000,
+      email: 'formsg@tech.gov.sg',
+      targetAccountId: 'acct_MOCK_ID',
+      pendingSubmissionId: new ObjectId(),
+      gstEnabled: false,
+      status: PaymentStatus.Succeeded,
+    }
+
+    beforeEach(async () => {
+      await dbHandler.clearCollection(Payment.collection.name)
+    })
+
+    it('should return the payments of the form created within the date range', async () => {
+      // Arrange
+      await Payment.create({
+        ...MOCK_PAYMENT,
+        formId: MOCK_FORM_ID,
+        created: new Date('2023-06-01T04:00:00Z'),
+      })
+      await Payment.create({
+        ...MOCK_PAYMENT,
+        formId: MOCK_FORM_ID,
+        created: new Date('2023-07-01T04:00:00Z'),
+      })
+      await Payment.create({
+        ...MOCK_PAYMENT,
+        formId: new ObjectId(),
+        created: new Date('2023-06-01T04:00:00Z'),
+      })
+
+      // Act
+      const result = await PaymentsService.getPaymentsByFormId(MOCK_FORM_ID, {
+        startDate: '2023-06-01',
+        endDate: '2023-06-30',
+      })
+
+      // Assert
+      const payments = result._unsafeUnwrap()
+      expect(payments).toBeArrayOfSize(1)
+      expect(payments[0].created).toEqual(new Date('2023-06-01T04:00:00Z'))
+    })
+
+    it('should return MalformedParametersError when the date range is malformed', async () => {
+      // Act
+      const result = await PaymentsService.getPaymentsByFormId(MOCK_FORM_ID, {
+        startDate: '2023-13-01',
+        endDate: '2023-12-31',
+      })
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(MalformedParametersError)
+    })
+  })
+
   describe('sendOnboardingEmailIfEligible', () => {
     const MOCK_AGENCY_DOMAIN = 'test.gov.sg'
     const MOCK_VALID_EMAIL = `hello@${MOCK_AGENCY_DOMAIN}`
@@ -337,4 +398,197 @@ describe('payments.service', () => {
       expect(databaseErr).toBeInstanceOf(InvalidDomainError)
     })
   })
+
+  describe('getProductsPaymentLineItems', () => {
+    const MOCK_PRODUCT = {
+      _id: new ObjectId().toHexString(),
+      name: 'T-shirt',
+      amount_cents: 1500,
+      min_qty: 1,
+      max_qty: 5,
+      stock: 4,
+    }
+
+    const createPaymentWithProduct = (
+      status: PaymentStatus,
+      quantity: number,
+      created?: Date,
+    ) =>
+      Payment.create({
+        formId: MOCK_FORM_ID,
+        targetAccountId: 'acct_MOCK_ACCOUNT_ID',
+        pendingSubmissionId: new ObjectId(),
+        paymentIntentId: 'somePaymentIntentId',
+        amount: MOCK_PRODUCT.amount_cents * quantity,
+        email: 'someone@mail.com',
+        gstEnabled: false,
+        status,
+        created,
+        products: [
+          {
+            productId: MOCK_PRODUCT._id,
+            name: MOCK_PRODUCT.name,
+            amount_cents: MOCK_PRODUCT.amount_cents,
+            quantity,
+          },
+        ],
+      })
+
+    beforeEach(async () => {
+      await dbHandler.clearCollection(Payment.collection.name)
+    })
+
+    it('should return the line items if there is enough stock', async () => {
+      // Arrange
+      await createPaymentWithProduct(PaymentStatus.Succeeded, 1)
+      await createPaymentWithProduct(PaymentStatus.Failed, 2)
+      // Abandoned payments no longer hold stock
+      await createPaymentWithProduct(
+        PaymentStatus.Pending,
+        2,
+        new Date(Date.now() - 60 * 60 * 1000),
+      )
+
+      // Act
+      const result = await PaymentsService.getProductsPaymentLineItems(
+        MOCK_FORM_ID,
+        [MOCK_PRODUCT],
+        [{ productId: MOCK_PRODUCT._id, quantity: 2 }],
+      )
+
+      // Assert
+      expect(result._unsafeUnwrap()).toEqual([
+        {
+          productId: MOCK_PRODUCT._id,
+          name: MOCK_PRODUCT.name,
+          amount_cents: MOCK_PRODUCT.amount_cents,
+          quantity: 2,
+        },
+      ])
+    })
+
+    it('should return ProductOutOfStockError if there is not enough stock', async () => {
+      // Arrange
+      await createPaymentWithProduct(PaymentStatus.Succeeded, 3)
+
+      // Act
+      const result = await PaymentsService.getProductsPaymentLineItems(
+        MOCK_FORM_ID,
+        [MOCK_PRODUCT],
+        [{ productId: MOCK_PRODUCT._id, quantity: 2 }],
+      )
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(ProductOutOfStockError)
+    })
+
+    it('should return ProductOutOfStockError if stock is held by respondents who are still paying', async () => {
+      // Arrange
+      await createPaymentWithProduct(PaymentStatus.Succeeded, 1)
+      await createPaymentWithProduct(PaymentStatus.Pending, 2)
+
+      // Act
+      const result = await PaymentsService.getProductsPaymentLineItems(
+        MOCK_FORM_ID,
+        [MOCK_PRODUCT],
+        [{ productId: MOCK_PRODUCT._id, quantity: 2 }],
+      )
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(ProductOutOfStockError)
+    })
+
+    it('should return InvalidProductSelectionError if the selection is invalid', async () => {
+      // Act
+      const result = await PaymentsService.getProductsPaymentLineItems(
+        MOCK_FORM_ID,
+        [MOCK_PRODUCT],
+        [{ productId: MOCK_PRODUCT._id, quantity: 6 }],
+      )
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        InvalidProductSelectionError,
+      )
+    })
+  })
+
+  describe('saveProductsPayment', () => {
+    const MOCK_PRODUCT = {
+      _id: new ObjectId().toHexString(),
+      name: 'T-shirt',
+      amount_cents: 1500,
+      min_qty: 1,
+      max_qty: 5,
+      stock: 4,
+    }
+
+    const createPaymentWithProduct = (
+      status: PaymentStatus,
+      quantity: number,
+    ) =>
+      new Payment({
+        formId: MOCK_FORM_ID,
+        targetAccountId: 'acct_MOCK_ACCOUNT_ID',
+        pendingSubmissionId: new ObjectId(),
+        paymentIntentId: 'somePaymentIntentId',
+        amount: MOCK_PRODUCT.amount_cents * quantity,
+        email: 'someone@mail.com',
+        gstEnabled: false,
+        status,
+        products: [
+          {
+            productId: MOCK_PRODUCT._id,
+            name: MOCK_PRODUCT.name,
+            amount_cents: MOCK_PRODUCT.amount_cents,
+            quantity,
+          },
+        ],
+      })
+
+    beforeEach(async () => {
+      await dbHandler.clearCollection(Payment.collection.name)
+      // The in-memory database does not support transactions, so run the
+      // transaction without a session.
+      jest.spyOn(mongoose, 'startSession').mockImplementation(
+        () =>
+          Promise.resolve({
+            withTransaction: (fn: (session?: unknown) => Promise<unknown>) =>
+              fn(undefined),
+            endSession: jest.fn(),
+          }) as any,
+      )
+    })
+    afterEach(() => jest.restoreAllMocks())
+
+    it('should save the payment if there is enough stock', async () => {
+      // Arrange
+      await createPaymentWithProduct(PaymentStatus.Succeeded, 2).save()
+      const payment = createPaymentWithProduct(PaymentStatus.Pending, 2)
+
+      // Act
+      const result = await PaymentsService.saveProductsPayment(payment, [
+        MOCK_PRODUCT,
+      ])
+
+      // Assert
+      expect(result._unsafeUnwrap()._id).toEqual(payment._id)
+      await expect(Payment.findById(payment._id)).resolves.not.toBeNull()
+    })
+
+    it('should return ProductOutOfStockError without saving the payment if the stock was bought in the meantime', async () => {
+      // Arrange
+      await createPaymentWithProduct(PaymentStatus.Pending, 3).save()
+      const payment = createPaymentWithProduct(PaymentStatus.Pending, 2)
+
+      // Act
+      const result = await PaymentsService.saveProductsPayment(payment, [
+        MOCK_PRODUCT,
+      ])
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(ProductOutOfStockError)
+      await expect(Payment.findById(payment._id)).resolves.toBeNull()
+    })
+  })
 })
@@ -0,0 +1,241 @@
+import { ObjectId } from 'bson'
+import { parse } from 'csv-string'
+
+import {
+  DateString,
+  Payment,
+  PaymentsReportDto,
+  PaymentStatus,
+} from '../../../../../shared/types'
+import {
+  convertPaymentsReportToCsv,
+  createPaymentsReportLine,
+  getRefundedAmount,
+  summarisePaymentsReport,
+} from '../payments.utils'
+
+const MOCK_PAYMENT_ID = new ObjectId()
+const MOCK_SUBMISSION_ID = new ObjectId().toHexString()
+
+const createMockPayment = (
+  overrides: Partial<Payment> = {},
+): Payment & { _id: ObjectId } => ({
+  _id: MOCK_PAYMENT_ID,
+  pendingSubmissionId: new ObjectId().toHexString(),
+  formId: new ObjectId().toHexString(),
+  targetAccountId: 'acct_MOCK_ACCOUNT_ID',
+  email: 'formsg@tech.gov.sg',
+  amount: 12345,
+  paymentIntentId: 'pi_MOCK_PAYMENT_INTENT',
+  gstEnabled: true,
+  webhookLog: [],
+  status: PaymentStatus.Succeeded,
+  completedPayment: {
+    paymentDate: new Date('2023-06-01T04:00:00Z'),
+    submissionId: MOCK_SUBMISSION_ID,
+    transactionFee: 345,
+    receiptUrl: 'https://stripe.com/receipt',
+  },
+  created: new Date('2023-06-01T03:59:00Z') as unknown as DateString,
+  lastModified: new Date('2023-06-01T04:00:00Z') as unknown as DateString,
+  ...overrides,
+})
+
+const createMockRefund = (amount: number) => ({
+  refundId: 're_MOCK_REFUND',
+  amount,
+  refundedBy: 'admin@open.gov.sg',
+  created: new Date(),
+})
+
+describe('payments.utils', () => {
+  describe('getRefundedAmount', () => {
+    it('should return the sum of the recorded refunds', () => {
+      // Arrange
+      const payment = createMockPayment({
+        status: PaymentStatus.PartiallyRefunded,
+        refunds: [createMockRefund(100), createMockRefund(200)],
+      })
+
+      // Act + Assert
+      expect(getRefundedAmount(payment)).toEqual(300)
+    })
+
+    it('should return the whole amount for fully refunded payments without recorded refunds', () => {
+      // Arrange
+      const payment = createMockPayment({ status: PaymentStatus.FullyRefunded })
+
+      // Act + Assert
+      expect(getRefundedAmount(payment)).toEqual(12345)
+    })
+  })
+
+  describe('createPaymentsReportLine', () => {
+    it('should create the report line of the payment', () => {
+      // Arrange
+      const payment = createMockPayment({
+        payout: {
+          payoutId: 'po_MOCK_PAYOUT',
+          payoutDate: new Date('2023-06-03T00:00:00Z'),
+        },
+      })
+
+      // Act
+      const line = createPaymentsReportLine(payment)
+
+      // Assert
+      expect(line).toEqual({
+        paymentId: MOCK_PAYMENT_ID.toHexString(),
+        submissionId: MOCK_SUBMISSION_ID,
+        email: 'formsg@tech.gov.sg',
+        status: PaymentStatus.Succeeded,
+        amount: 12345,
+        gstEnabled: true,
+        transactionFee: 345,
+        refundedAmount: 0,
+        paymentDate: '2023-06-01T04:00:00.000Z',
+        payoutId: 'po_MOCK_PAYOUT',
+        payoutDate: '2023-06-03T00:00:00.000Z',
+        created: '2023-06-01T03:59:00.000Z',
+      })
+    })
+
+    it('should flag the payment when its status differs from Stripe', () => {
+      // Act
+      const line = createPaymentsReportLine(createMockPayment(), {
+        status: PaymentStatus.FullyRefunded,
+        refundedAmount: 12345,
+      })
+
+      // Assert
+      expect(line).toMatchObject({
+        stripeStatus: PaymentStatus.FullyRefunded,
+        stripeRefundedAmount: 12345,
+        mismatch: true,
+      })
+    })
+
+    it('should not flag refunds made in the Stripe dashboard', () => {
+      // Arrange
+      const payment = createMockPayment({
+        status: PaymentStatus.PartiallyRefunded,
+        refunds: [createMockRefund(100)],
+      })
+
+      // Act
+      const line = createPaymentsReportLine(payment, {
+        status: PaymentStatus.PartiallyRefunded,
+        refundedAmount: 300,
+      })
+
+      // Assert
+      expect(line.mismatch).toBe(false)
+    })
+
+    it('should record the error when the payment could not be verified', () => {
+      // Act
+      const line = createPaymentsReportLine(
+        createMockPayment(),
+        new Error('boom'),
+      )
+
+      // Assert
+      expect(line.verificationError).toEqual('boom')
+      expect(line.mismatch).toBeUndefined()
+    })
+  })
+
+  describe('summarisePaymentsReport', () => {
+    it('should total only the payments which have been paid', () => {
+      // Arrange
+      const lines = [
+        createPaymentsReportLine(createMockPayment()),
+        createPaymentsReportLine(
+          createMockPayment({
+            status: PaymentStatus.PartiallyRefunded,
+            refunds: [createMockRefund(1000)],
+          }),
+        ),
+        createPaymentsReportLine(
+          createMockPayment({
+            status: PaymentStatus.Pending,
+            completedPayment: undefined,
+          }),
+        ),
+      ]
+
+      // Act
+      const summary = summarisePaymentsReport(lines)
+
+      // Assert
+      expect(summary).toEqual({
+        count: 3,
+        countByStatus: {
+          [PaymentStatus.Succeeded]: 1,
+          [PaymentStatus.PartiallyRefunded]: 1,
+          [PaymentStatus.Pending]: 1,
+        },
+        totalAmount: 24690,
+        totalRefunded: 1000,
+        totalTransactionFees: 690,
+        netAmount: 23000,
+      })
+    })
+
+    it('should count mismatched and unverified payments when verified with Stripe', () => {
+      // Arrange
+      const lines = [
+        createPaymentsReportLine(createMockPayment(), {
+          status: PaymentStatus.Disputed,
+          refundedAmount: 0,
+        }),
+        createPaymentsReportLine(createMockPayment(), new Error('boom')),
+      ]
+
+      // Act
+      const summary = summarisePaymentsReport(lines, true)
+
+      // Assert
+      expect(summary).toMatchObject({ mismatchCount: 1, unverifiedCount: 1 })
+    })
+  })
+
+  describe('convertPaymentsReportToCsv', () => {
+    it('should convert the report into a CSV with the summary before the header', () => {
+      // Arrange
+      const lines = [createPaymentsReportLine(createMockPayment())]
+      const report: PaymentsReportDto = {
+        formId: 'mockFormId',
+        startDate: '2023-06-01',
+        endDate: '2023-06-30',
+        generatedAt: '2023-07-01T00:00:00.000Z' as DateString,
+        summary: summarisePaymentsReport(lines),
+        payments: lines,
+      }
+
+      // Act
+      const csv = convertPaymentsReportToCsv(report)
+
+      // Assert
+      const rows = parse(csv.replace(/^\uFEFF/, ''))
+      expect(rows).toContainEqual(['Total amount paid (S$)', '123.45'])
+      expect(rows).toContainEqual(['Net amount (S$)', '120.00'])
+      const headerIndex = rows.findIndex((row) => row[0] === 'Payment ID')
+      expect(rows[headerIndex]).not.toContain('Stripe status')
+      expect(rows[headerIndex + 1]).toEqual([
+        MOCK_PAYMENT_ID.toHexString(),
+        MOCK_SUBMISSION_ID,
+        'formsg@tech.gov.sg',
+        PaymentStatus.Succeeded,
+        '123.45',
+        'Yes',
+        '3.45',
+        '0.00',
+        '2023-06-01 12:00:00',
+        '',
+        '',
+        '2023-06-01 11:59:00',
+      ])
+    })
+  })
+})
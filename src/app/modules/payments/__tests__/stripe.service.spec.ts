@@ -19,9 +19,13 @@ import {
   IPopulatedUser,
 } from 'src/types'
 
-import { PaymentNotFoundError } from '../payments.errors'
+import {
+  InvalidPaymentAmountError,
+  PaymentNotFoundError,
+  PaymentNotRefundableError,
+} from '../payments.errors'
 import * as PaymentsService from '../payments.service'
-import { StripeMetadataInvalidError } from '../stripe.errors'
+import { StripeFetchError, StripeMetadataInvalidError } from '../stripe.errors'
 import * as StripeService from '../stripe.service'
 import * as StripeUtils from '../stripe.utils'
 
@@ -330,7 +334,7 @@ describe('stripe.service', () => {
             paymentId,
             event,
             null as unknown as mongoose.ClientSession,
-          ),
+          ).map(() => undefined),
         )
     })
     afterEach(() => jest.clearAllMocks())
@@ -742,6 +746,199 @@ describe('stripe.service', () => {
     })
   })
 
+  describe('refundPayment', () => {
+    const MOCK_ADMIN_EMAIL = 'admin@open.gov.sg'
+
+    beforeEach(async () => {
+      jest.restoreAllMocks()
+      await dbHandler.clearCollection(Payment.collection.name)
+    })
+
+    const createPayment = (
+      status: PaymentStatus,
+      refunds?: { amount: number }[],
+    ) =>
+      Payment.create({
+        formId: MOCK_FORM_ID,
+        targetAccountId: 'acct_MOCK_ACCOUNT_ID',
+        pendingSubmissionId: new ObjectId(),
+        amount: 12345,
+        status,
+        paymentIntentId: 'pi_MOCK_PAYMENT_INTENT',
+        email: 'formsg@tech.gov.sg',
+        gstEnabled: false,
+        refunds: refunds?.map(({ amount }, index) => ({
+          refundId: `re_MOCK_REFUND_${index}`,
+          amount,
+          refundedBy: MOCK_ADMIN_EMAIL,
+          created: new Date(),
+        })),
+      })
+
+    it('should refund the remaining amount and record the refund when no amount is given', async () => {
+      // Arrange
+      const payment = await createPayment(PaymentStatus.PartiallyRefunded, [
+        { amount: 345 },
+      ])
+      const createRefundSpy = jest
+        .spyOn(stripe.refunds, 'create')
+        .mockResolvedValueOnce({
+          id: 're_MOCK_REFUND',
+          amount: 12000,
+        } as unknown as Stripe.Response<Stripe.Refund>)
+
+      // Act
+      const result = await StripeService.refundPayment(payment, {
+        reason: 'Event cancelled',
+        refundedBy: MOCK_ADMIN_EMAIL,
+      })
+
+      // Assert
+      expect(createRefundSpy).toHaveBeenCalledWith(
+        {
+          payment_intent: 'pi_MOCK_PAYMENT_INTENT',
+          amount: 12000,
+          metadata: { refundedBy: MOCK_ADMIN_EMAIL },
+        },
+        { stripeAccount: 'acct_MOCK_ACCOUNT_ID' },
+      )
+      expect(result._unsafeUnwrap().refunds).toEqual([
+        expect.objectContaining({ amount: 345 }),
+        expect.objectContaining({
+          refundId: 're_MOCK_REFUND',
+          amount: 12000,
+          reason: 'Event cancelled',
+          refundedBy: MOCK_ADMIN_EMAIL,
+        }),
+      ])
+    })
+
+    it('should return InvalidPaymentAmountError when the amount exceeds the amount not yet refunded', async () => {
+      // Arrange
+      const payment = await createPayment(PaymentStatus.PartiallyRefunded, [
+        { amount: 345 },
+      ])
+      const createRefundSpy = jest.spyOn(stripe.refunds, 'create')
+
+      // Act
+      const result = await StripeService.refundPayment(payment, {
+        amount: 12001,
+        refundedBy: MOCK_ADMIN_EMAIL,
+      })
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        InvalidPaymentAmountError,
+      )
+      expect(createRefundSpy).not.toHaveBeenCalled()
+    })
+
+    it('should return PaymentNotRefundableError when the payment has not succeeded', async () => {
+      // Arrange
+      const payment = await createPayment(PaymentStatus.Pending)
+      const createRefundSpy = jest.spyOn(stripe.refunds, 'create')
+
+      // Act
+      const result = await StripeService.refundPayment(payment, {
+        refundedBy: MOCK_ADMIN_EMAIL,
+      })
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        PaymentNotRefundableError,
+      )
+      expect(createRefundSpy).not.toHaveBeenCalled()
+    })
+
+    it('should return StripeFetchError and not record the refund when Stripe fails', async () => {
+      // Arrange
+      const payment = await createPayment(PaymentStatus.Succeeded)
+      jest.spyOn(stripe.refunds, 'create').mockRejectedValueOnce('boom')
+
+      // Act
+      const result = await StripeService.refundPayment(payment, {
+        amount: 100,
+        refundedBy: MOCK_ADMIN_EMAIL,
+      })
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(StripeFetchError)
+      const updatedPayment = await Payment.findById(payment._id)
+      expect(updatedPayment?.refunds).toBeUndefined()
+    })
+  })
+
+  describe('retrievePaymentsStripeStates', () => {
+    const MOCK_STRIPE_STATE = {
+      status: PaymentStatus.Succeeded,
+      refundedAmount: 0,
+    }
+
+    const createPayments = (count: number) =>
+      Array.from(
+        { length: count },
+        (_, index) =>
+          new Payment({
+            formId: MOCK_FORM_ID,
+            targetAccountId: 'acct_MOCK_ACCOUNT_ID',
+            pendingSubmissionId: new ObjectId(),
+            amount: 12345,
+            status: PaymentStatus.Succeeded,
+            paymentIntentId: `pi_MOCK_PAYMENT_INTENT_${index}`,
+            email: 'formsg@tech.gov.sg',
+            gstEnabled: false,
+          }),
+      )
+
+    beforeEach(() => {
+      jest.restoreAllMocks()
+      jest
+        .spyOn(StripeUtils, 'getPaymentStateFromPaymentIntent')
+        .mockReturnValue(MOCK_STRIPE_STATE)
+    })
+
+    it('should retrieve a batch of payment intents at a time', async () => {
+      // Arrange
+      const payments = createPayments(25)
+      let inFlight = 0
+      let maxInFlight = 0
+      const retrieveSpy = jest
+        .spyOn(stripe.paymentIntents, 'retrieve')
+        .mockImplementation(async () => {
+          inFlight += 1
+          maxInFlight = Math.max(maxInFlight, inFlight)
+          await new Promise((resolve) => setTimeout(resolve, 1))
+          inFlight -= 1
+          return {} as Stripe.Response<Stripe.PaymentIntent>
+        })
+
+      // Act
+      const result = await StripeService.retrievePaymentsStripeStates(payments)
+
+      // Assert
+      expect(retrieveSpy).toHaveBeenCalledTimes(25)
+      expect(maxInFlight).toBe(10)
+      expect(result._unsafeUnwrap()).toEqual(Array(25).fill(MOCK_STRIPE_STATE))
+    })
+
+    it('should return the error in place of payments which cannot be retrieved', async () => {
+      // Arrange
+      const payments = createPayments(2)
+      jest
+        .spyOn(stripe.paymentIntents, 'retrieve')
+        .mockRejectedValueOnce('boom')
+        .mockResolvedValueOnce({} as Stripe.Response<Stripe.PaymentIntent>)
+
+      // Act
+      const result = await StripeService.retrievePaymentsStripeStates(payments)
+
+      // Assert
+      const [firstState, secondState] = result._unsafeUnwrap()
+      expect(firstState).toBeInstanceOf(StripeFetchError)
+      expect(secondState).toEqual(MOCK_STRIPE_STATE)
+    })
+  })
+
   describe('handleStripeEvent', () => {
     describe('with event.type of payout', () => {
       beforeEach(() => jest.restoreAllMocks())
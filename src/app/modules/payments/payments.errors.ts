@@ -24,8 +24,32 @@ export class PaymentAlreadyConfirmedError extends ApplicationError {
   }
 }
 
+export class PaymentNotRefundableError extends ApplicationError {
+  constructor(
+    message = 'Only successful payments which have not been fully refunded can be refunded',
+  ) {
+    super(message)
+  }
+}
+
 export class PaymentAccountInformationError extends ApplicationError {
   constructor(message = 'Missing payment account information') {
     super(message)
   }
 }
+
+export class InvalidProductSelectionError extends ApplicationError {
+  constructor(
+    message = 'The selected products or quantities are invalid. Please check your selection and try again.',
+  ) {
+    super(message)
+  }
+}
+
+export class ProductOutOfStockError extends ApplicationError {
+  constructor(productName: string) {
+    super(
+      `There is not enough stock of ${productName} left. Please reduce the quantity and try again.`,
+    )
+  }
+}
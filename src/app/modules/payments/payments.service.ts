@@ -2,20 +2,31 @@ import { ObjectId } from 'mongodb'
 import mongoose from 'mongoose'
 import { errAsync, okAsync, ResultAsync } from 'neverthrow'
 
-import { PaymentStatus } from '../../../../shared/types'
+import {
+  PaymentLineItem,
+  PaymentRefund,
+  PaymentStatus,
+  Product,
+  ProductSelection,
+} from '../../../../shared/types'
 import { IPaymentSchema } from '../../../types'
 import { createLoggerWithLabel } from '../../config/logger'
 import getPaymentModel from '../../models/payment.server.model'
+import getProductStockLockModel from '../../models/product_stock_lock.server.model'
 import { MailSendError } from '../../services/mail/mail.errors'
 import MailService from '../../services/mail/mail.service'
+import { createQueryWithDateParam, isMalformedDate } from '../../utils/date'
 import { getMongoErrorMessage } from '../../utils/handle-mongo-error'
 import { InvalidDomainError } from '../auth/auth.errors'
 import * as AuthService from '../auth/auth.service'
-import { DatabaseError } from '../core/core.errors'
+import { DatabaseError, MalformedParametersError } from '../core/core.errors'
 import { FormNotFoundError } from '../form/form.errors'
 import { retrieveFormById } from '../form/form.service'
 import { performEncryptPostSubmissionActions } from '../submission/encrypt-submission/encrypt-submission.service'
-import { isSubmissionEncryptMode } from '../submission/encrypt-submission/encrypt-submission.utils'
+import {
+  getProductLineItems,
+  isSubmissionEncryptMode,
+} from '../submission/encrypt-submission/encrypt-submission.utils'
 import {
   PendingSubmissionNotFoundError,
   SubmissionNotFoundError,
@@ -25,12 +36,22 @@ import { findSubmissionById } from '../submission/submission.service'
 
 import {
   ConfirmedPaymentNotFoundError,
+  InvalidProductSelectionError,
   PaymentAlreadyConfirmedError,
   PaymentNotFoundError,
+  ProductOutOfStockError,
 } from './payments.errors'
 
 const logger = createLoggerWithLabel(module)
 const PaymentModel = getPaymentModel(mongoose)
+const ProductStockLockModel = getProductStockLockModel(mongoose)
+
+/**
+ * Duration for which stock is held for respondents who are still paying, so
+ * that concurrent checkouts cannot buy the same stock. Stock held by payments
+ * which are abandoned is released after this.
+ */
+const PRODUCT_STOCK_HOLD_MS = 30 * 60 * 1000
 
 /**
  * Retrieves payment by Id.
@@ -103,6 +124,42 @@ export const findBySubmissionIdAndUpdate = (
   })
 }
 
+/**
+ * Appends a refund to the audit trail of refunds of the given payment.
+ * @param paymentId the id of the payment which was refunded
+ * @param refund the refund to record
+ * @returns ok(payment) with the updated payment
+ * @returns err(PaymentNotFoundError) if the payment does not exist
+ * @returns err(DatabaseError) if error occurs whilst updating the database
+ */
+export const addPaymentRefund = (
+  paymentId: IPaymentSchema['_id'],
+  refund: PaymentRefund,
+): ResultAsync<IPaymentSchema, PaymentNotFoundError | DatabaseError> => {
+  return ResultAsync.fromPromise(
+    PaymentModel.findByIdAndUpdate(
+      paymentId,
+      { $push: { refunds: refund } },
+      { new: true },
+    ).exec(),
+    (error) => {
+      logger.error({
+        message: 'Error recording payment refund in database',
+        meta: {
+          action: 'addPaymentRefund',
+          paymentId,
+          refund,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((result) => {
+    if (!result) return errAsync(new PaymentNotFoundError())
+    return okAsync(result)
+  })
+}
+
 /**
  * Retrieves payment document of the given submissionId.
  * @param submissionId the submissionId of the payment to be retrieved
@@ -268,10 +325,11 @@ export const performPaymentPostSubmissionActions = (
             formId: form._id,
             submissionId,
             email: payment.email,
+            lineItems: payment.products,
           }))
       )
     })
-    .andThen(({ formTitle, formId, submissionId, email }) => {
+    .andThen(({ formTitle, formId, submissionId, email, lineItems }) => {
       logger.info({
         message: 'Sending payment confirmation email',
         meta: { ...logMeta, submissionId, email },
@@ -283,6 +341,7 @@ export const performPaymentPostSubmissionActions = (
         submissionId,
         formId,
         paymentId,
+        lineItems,
       })
         .andThen(() => okAsync(undefined))
         .orElse(() => {
@@ -355,6 +414,295 @@ export const getIncompletePayments = (): ResultAsync<
   )
 }
 
+/**
+ * Retrieves all payments of a form, optionally within a date range, in order
+ * of creation.
+ * @param formId the form to retrieve payments of
+ * @param dateRange optional date range in YYYY-MM-DD format to retrieve payments created within
+ * @returns ok(payments) of the form
+ * @returns err(MalformedParametersError) if date range provided is malformed
+ * @returns err(DatabaseError) if error occurs whilst querying the database
+ */
+export const getPaymentsByFormId = (
+  formId: string,
+  dateRange: {
+    startDate?: string
+    endDate?: string
+  } = {},
+): ResultAsync<IPaymentSchema[], MalformedParametersError | DatabaseError> => {
+  if (
+    isMalformedDate(dateRange.startDate) ||
+    isMalformedDate(dateRange.endDate)
+  ) {
+    return errAsync(new MalformedParametersError('Malformed date parameter'))
+  }
+
+  return ResultAsync.fromPromise(
+    PaymentModel.find({
+      formId,
+      ...createQueryWithDateParam(dateRange.startDate, dateRange.endDate),
+    })
+      .sort({ created: 1 })
+      .exec(),
+    (error) => {
+      logger.error({
+        message: 'Database error while retrieving payments of form',
+        meta: {
+          action: 'getPaymentsByFormId',
+          formId,
+          dateRange,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  )
+}
+
+/**
+ * Counts the units of each of the given products of a form which are used up
+ * by payments which have been paid for, including refunded and disputed
+ * payments, or held by pending payments created in the last
+ * PRODUCT_STOCK_HOLD_MS.
+ */
+const countProductsSoldOrHeld = (
+  formId: string,
+  productIds: string[],
+  session?: mongoose.ClientSession,
+): Promise<{ _id: string; quantity: number }[]> => {
+  const aggregate = PaymentModel.aggregate<{ _id: string; quantity: number }>([
+    {
+      $match: {
+        formId: new ObjectId(formId),
+        $or: [
+          {
+            status: {
+              $in: [
+                PaymentStatus.Succeeded,
+                PaymentStatus.PartiallyRefunded,
+                PaymentStatus.FullyRefunded,
+                PaymentStatus.Disputed,
+              ],
+            },
+          },
+          {
+            status: PaymentStatus.Pending,
+            created: { $gte: new Date(Date.now() - PRODUCT_STOCK_HOLD_MS) },
+          },
+        ],
+        'products.productId': { $in: productIds },
+      },
+    },
+    { $unwind: '$products' },
+    {
+      $group: {
+        _id: '$products.productId',
+        quantity: { $sum: '$products.quantity' },
+      },
+    },
+  ])
+  // readPreference from transaction isn't respected, thus we are setting it on operation
+  return session
+    ? aggregate.session(session).read('primary').exec()
+    : aggregate.exec()
+}
+
+/**
+ * Returns the first product bought in the line items which does not have
+ * enough stock left, if any.
+ */
+const findOutOfStockProduct = (
+  stockedProducts: Product[],
+  lineItems: PaymentLineItem[],
+  soldQuantities: { _id: string; quantity: number }[],
+): Product | undefined =>
+  stockedProducts.find((product) => {
+    const sold =
+      soldQuantities.find(({ _id }) => _id === String(product._id))?.quantity ??
+      0
+    const lineItem = lineItems.find(
+      ({ productId }) => productId === String(product._id),
+    )
+    return !!lineItem && sold + lineItem.quantity > (product.stock ?? 0)
+  })
+
+/**
+ * Returns the products of the catalogue with limited stock which are bought
+ * in the line items.
+ */
+const getStockedProducts = (
+  products: Product[],
+  lineItems: PaymentLineItem[],
+): Product[] =>
+  products.filter(
+    ({ _id, stock }) =>
+      stock !== undefined &&
+      lineItems.some(({ productId }) => productId === String(_id)),
+  )
+
+/**
+ * Retrieves the products bought by a respondent from the product catalogue of
+ * a form, after checking that there is enough stock of each product. Stock is
+ * used up by payments which have been paid for, including refunded and
+ * disputed payments, and held by pending payments created in the last
+ * PRODUCT_STOCK_HOLD_MS. The stock is only reserved once the payment is saved
+ * with saveProductsPayment.
+ * @param formId the form which the respondent is paying for
+ * @param products the product catalogue of the form
+ * @param selections products and quantities selected by the respondent
+ * @returns ok(line items of the payment) if the selection is valid
+ * @returns err(InvalidProductSelectionError) if the selection is not valid for the catalogue
+ * @returns err(ProductOutOfStockError) if there is not enough stock of a product
+ * @returns err(DatabaseError) if error occurs whilst querying the database
+ */
+export const getProductsPaymentLineItems = (
+  formId: string,
+  products: Product[],
+  selections?: ProductSelection[],
+): ResultAsync<
+  PaymentLineItem[],
+  InvalidProductSelectionError | ProductOutOfStockError | DatabaseError
+> => {
+  const lineItems = getProductLineItems(products, selections)
+  if (!lineItems) return errAsync(new InvalidProductSelectionError())
+
+  const stockedProducts = getStockedProducts(products, lineItems)
+  if (!stockedProducts.length) return okAsync(lineItems)
+
+  return ResultAsync.fromPromise(
+    countProductsSoldOrHeld(
+      formId,
+      stockedProducts.map(({ _id }) => String(_id)),
+    ),
+    (error) => {
+      logger.error({
+        message: 'Database error while counting products sold or held',
+        meta: {
+          action: 'getProductsPaymentLineItems',
+          formId,
+        },
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    },
+  ).andThen((soldQuantities) => {
+    const outOfStockProduct = findOutOfStockProduct(
+      stockedProducts,
+      lineItems,
+      soldQuantities,
+    )
+    if (outOfStockProduct) {
+      return errAsync(new ProductOutOfStockError(outOfStockProduct.name))
+    }
+    return okAsync(lineItems)
+  })
+}
+
+/**
+ * Saves the payment of a respondent for products of a form, which reserves
+ * the stock of the products bought. The stock left is counted again and the
+ * payment is saved in one transaction, which also increments the product
+ * stock lock of the form, so that concurrent checkouts of the same form
+ * conflict and are retried one at a time instead of overselling.
+ * @param payment the unsaved payment with its line items
+ * @param products the product catalogue of the form
+ * @returns ok(payment) if the payment was saved
+ * @returns err(ProductOutOfStockError) if there is no longer enough stock of a product
+ * @returns err(DatabaseError) if error occurs whilst saving the payment
+ */
+export const saveProductsPayment = (
+  payment: IPaymentSchema,
+  products: Product[],
+): ResultAsync<IPaymentSchema, ProductOutOfStockError | DatabaseError> => {
+  const formId = String(payment.formId)
+  const logMeta = {
+    action: 'saveProductsPayment',
+    formId,
+    paymentId: payment.id,
+  }
+
+  const stockedProducts = getStockedProducts(products, payment.products ?? [])
+  if (!stockedProducts.length) {
+    return ResultAsync.fromPromise(payment.save(), (error) => {
+      logger.error({
+        message: 'Database error while saving payment',
+        meta: logMeta,
+        error,
+      })
+      return new DatabaseError(getMongoErrorMessage(error))
+    })
+  }
+
+  return ResultAsync.fromPromise(mongoose.startSession(), (error) => {
+    logger.error({
+      message: 'Database error while starting mongoose session',
+      meta: logMeta,
+      error,
+    })
+    return new DatabaseError(getMongoErrorMessage(error))
+  }).andThen((session) => {
+    // Set by the transaction which commits, as transactions may be retried.
+    let savedPayment: IPaymentSchema | undefined
+
+    return ResultAsync.fromPromise(
+      session.withTransaction(
+        async (transactionSession) => {
+          await ProductStockLockModel.updateOne(
+            { formId: payment.formId },
+            { $inc: { checkouts: 1 } },
+            { upsert: true, session: transactionSession },
+          ).exec()
+          const soldQuantities = await countProductsSoldOrHeld(
+            formId,
+            stockedProducts.map(({ _id }) => String(_id)),
+            transactionSession,
+          )
+          const outOfStockProduct = findOutOfStockProduct(
+            stockedProducts,
+            payment.products ?? [],
+            soldQuantities,
+          )
+          if (outOfStockProduct) {
+            // Throw to abort the transaction.
+            // eslint-disable-next-line typesafe/no-throw-sync-func
+            throw new ProductOutOfStockError(outOfStockProduct.name)
+          }
+          // Create a new document on every attempt, as a retried transaction
+          // cannot save a document which an aborted attempt already saved.
+          const [created] = await PaymentModel.create([payment.toObject()], {
+            session: transactionSession,
+          })
+          savedPayment = created
+        },
+        {
+          readPreference: 'primary',
+          readConcern: { level: 'snapshot' },
+          writeConcern: { w: 'majority' },
+        },
+      ),
+      (error) => {
+        if (error instanceof ProductOutOfStockError) return error
+        logger.error({
+          message: 'Error occurred in transaction to save products payment',
+          meta: logMeta,
+          error,
+        })
+        return new DatabaseError(getMongoErrorMessage(error))
+      },
+    )
+      .andThen(() => {
+        session.endSession()
+        return savedPayment
+          ? okAsync(savedPayment)
+          : errAsync(new DatabaseError('Payment was not saved'))
+      })
+      .orElse((error) => {
+        session.endSession()
+        return errAsync(error)
+      })
+  })
+}
+
 export const sendOnboardingEmailIfEligible = (
   email: string,
 ): ResultAsync<true, DatabaseError | InvalidDomainError | MailSendError> => {
@@ -0,0 +1,228 @@
+import { stringify } from 'csv-string'
+import moment from 'moment-timezone'
+
+import {
+  DateString,
+  Payment,
+  PaymentsReportDto,
+  PaymentsReportLine,
+  PaymentsReportSummary,
+  PaymentStatus,
+} from '../../../../shared/types'
+
+// Used to denote to Excel that the CSV is UTF8-encoded.
+const UTF8_BYTE_ORDER_MARK = '\uFEFF'
+
+/**
+ * Statuses of payments which have been paid, which count towards the totals
+ * of a payments report.
+ */
+const PAID_PAYMENT_STATUSES = [
+  PaymentStatus.Succeeded,
+  PaymentStatus.PartiallyRefunded,
+  PaymentStatus.FullyRefunded,
+  PaymentStatus.Disputed,
+]
+
+const toDateString = (date?: Date | string): DateString | undefined =>
+  date ? (new Date(date).toISOString() as DateString) : undefined
+
+const centsToDollars = (cents?: number): string =>
+  cents === undefined ? '' : (cents / 100).toFixed(2)
+
+/**
+ * Computes the amount refunded for a payment. Refunds made outside of FormSG
+ * are not recorded on the payment, so fully refunded payments are taken to
+ * be refunded in full.
+ * @param payment the payment to compute the refunded amount of
+ * @returns the amount refunded in cents
+ */
+export const getRefundedAmount = (
+  payment: Pick<Payment, 'amount' | 'status' | 'refunds'>,
+): number => {
+  if (payment.status === PaymentStatus.FullyRefunded) return payment.amount
+  return (payment.refunds ?? []).reduce((sum, refund) => sum + refund.amount, 0)
+}
+
+/**
+ * Creates a line of the payments report for a payment.
+ * @param payment the payment to report
+ * @param stripeState the state of the payment on Stripe, or the error encountered while retrieving it, if the report is verified with Stripe
+ * @returns the report line of the payment
+ */
+export const createPaymentsReportLine = (
+  payment: Payment & { _id?: unknown },
+  stripeState?: { status: PaymentStatus; refundedAmount: number } | Error,
+): PaymentsReportLine => {
+  const refundedAmount = getRefundedAmount(payment)
+
+  const line: PaymentsReportLine = {
+    paymentId: String(payment._id),
+    submissionId: payment.completedPayment?.submissionId
+      ? String(payment.completedPayment.submissionId)
+      : undefined,
+    email: payment.email,
+    status: payment.status,
+    amount: payment.amount,
+    gstEnabled: payment.gstEnabled,
+    transactionFee: payment.completedPayment?.transactionFee,
+    refundedAmount,
+    paymentDate: toDateString(payment.completedPayment?.paymentDate),
+    payoutId: payment.payout?.payoutId,
+    payoutDate: toDateString(payment.payout?.payoutDate),
+    created: toDateString(payment.created) as DateString,
+  }
+
+  if (!stripeState) return line
+  if (stripeState instanceof Error) {
+    return { ...line, verificationError: stripeState.message }
+  }
+
+  return {
+    ...line,
+    stripeStatus: stripeState.status,
+    stripeRefundedAmount: stripeState.refundedAmount,
+    // Refunds made in the Stripe dashboard are not recorded on the payment,
+    // so refunded amounts only mismatch if more was recorded than refunded.
+    mismatch:
+      stripeState.status !== payment.status ||
+      refundedAmount > stripeState.refundedAmount,
+  }
+}
+
+/**
+ * Summarises the lines of a payments report. Only paid payments count towards
+ * the totals.
+ * @param lines the lines of the payments report
+ * @param isVerified whether the lines were verified with Stripe
+ * @returns the summary of the payments report
+ */
+export const summarisePaymentsReport = (
+  lines: PaymentsReportLine[],
+  isVerified = false,
+): PaymentsReportSummary => {
+  const paidLines = lines.filter((line) =>
+    PAID_PAYMENT_STATUSES.includes(line.status),
+  )
+  const sum = (getAmount: (line: PaymentsReportLine) => number) =>
+    paidLines.reduce((total, line) => total + getAmount(line), 0)
+
+  const totalAmount = sum((line) => line.amount)
+  const totalRefunded = sum((line) => line.refundedAmount)
+  const totalTransactionFees = sum((line) => line.transactionFee ?? 0)
+
+  const summary: PaymentsReportSummary = {
+    count: lines.length,
+    countByStatus: lines.reduce<PaymentsReportSummary['countByStatus']>(
+      (counts, { status }) => ({
+        ...counts,
+        [status]: (counts[status] ?? 0) + 1,
+      }),
+      {},
+    ),
+    totalAmount,
+    totalRefunded,
+    totalTransactionFees,
+    netAmount: totalAmount - totalRefunded - totalTransactionFees,
+  }
+
+  if (!isVerified) return summary
+
+  return {
+    ...summary,
+    mismatchCount: lines.filter((line) => line.mismatch).length,
+    unverifiedCount: lines.filter((line) => line.verificationError).length,
+  }
+}
+
+/**
+ * Converts a payments report into a CSV file, with the summary of the report
+ * in the rows before the header. Amounts are converted into dollars and dates
+ * into Singapore time.
+ * @param report the payments report to convert
+ * @returns the contents of the CSV file
+ */
+export const convertPaymentsReportToCsv = (
+  report: PaymentsReportDto,
+): string => {
+  const { summary } = report
+  const isVerified = summary.mismatchCount !== undefined
+  const formatDate = (date?: string) =>
+    date ? moment(date).tz('Asia/Singapore').format('YYYY-MM-DD HH:mm:ss') : ''
+
+  const metaDataRows: (string | number)[][] = [
+    ['Form ID', report.formId],
+    ['Start date', report.startDate ?? ''],
+    ['End date', report.endDate ?? ''],
+    ['Generated at', formatDate(report.generatedAt)],
+    ['Total payments', summary.count],
+    ...Object.entries(summary.countByStatus).map(([status, count]) => [
+      `Total ${status} payments`,
+      count ?? 0,
+    ]),
+    ['Total amount paid (S$)', centsToDollars(summary.totalAmount)],
+    ['Total amount refunded (S$)', centsToDollars(summary.totalRefunded)],
+    [
+      'Total transaction fees (S$)',
+      centsToDollars(summary.totalTransactionFees),
+    ],
+    ['Net amount (S$)', centsToDollars(summary.netAmount)],
+    ...(isVerified
+      ? [
+          ['Payments mismatched with Stripe', summary.mismatchCount ?? 0],
+          ['Payments not verified with Stripe', summary.unverifiedCount ?? 0],
+        ]
+      : []),
+  ]
+
+  const header = [
+    'Payment ID',
+    'Response ID',
+    'Payer',
+    'Status',
+    'Amount (S$)',
+    'GST applicable',
+    'Transaction fee (S$)',
+    'Amount refunded (S$)',
+    'Payment date',
+    'Payout ID',
+    'Payout date',
+    'Created',
+    ...(isVerified
+      ? [
+          'Stripe status',
+          'Stripe amount refunded (S$)',
+          'Mismatch with Stripe',
+          'Verification error',
+        ]
+      : []),
+  ]
+
+  const rows = report.payments.map((line) => [
+    line.paymentId,
+    line.submissionId ?? '',
+    line.email,
+    line.status,
+    centsToDollars(line.amount),
+    line.gstEnabled ? 'Yes' : 'No',
+    centsToDollars(line.transactionFee),
+    centsToDollars(line.refundedAmount),
+    formatDate(line.paymentDate),
+    line.payoutId ?? '',
+    formatDate(line.payoutDate),
+    formatDate(line.created),
+    ...(isVerified
+      ? [
+          line.stripeStatus ?? '',
+          centsToDollars(line.stripeRefundedAmount),
+          line.mismatch ? 'Yes' : line.mismatch === false ? 'No' : '',
+          line.verificationError ?? '',
+        ]
+      : []),
+  ])
+
+  return (
+    UTF8_BYTE_ORDER_MARK +
+    [...metaDataRows, header, ...rows].map((row) => stringify(row)).join('')
+  )
+}
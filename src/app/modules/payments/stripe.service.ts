@@ -2,6 +2,7 @@
 /// <reference types="stripe-event-types" />
 import axios from 'axios'
 import cuid from 'cuid'
+import { chunk } from 'lodash'
 import mongoose from 'mongoose'
 import { errAsync, ok, okAsync, ResultAsync } from 'neverthrow'
 import Stripe from 'stripe'
@@ -11,6 +12,7 @@ import isURL from 'validator/lib/isURL'
 import {
   PaymentStatus,
   ReconciliationReportLine,
+  WebhookEventType,
 } from '../../../../shared/types'
 import {
   IEncryptedFormSchema,
@@ -33,13 +35,17 @@ import {
   PendingSubmissionNotFoundError,
   SubmissionNotFoundError,
 } from '../submission/submission.errors'
+import { WebhookFactory } from '../webhook/webhook.factory'
 
 import {
   ConfirmedPaymentNotFoundError,
+  InvalidPaymentAmountError,
   PaymentAlreadyConfirmedError,
   PaymentNotFoundError,
+  PaymentNotRefundableError,
 } from './payments.errors'
 import * as PaymentsService from './payments.service'
+import { getRefundedAmount } from './payments.utils'
 import {
   ComputePaymentStateError,
   MalformedStripeChargeObjectError,
@@ -56,10 +62,27 @@ import {
   convertToProofOfPaymentFormat,
   getChargeIdFromNestedCharge,
   getMetadataPaymentId,
+  getPaymentStateFromPaymentIntent,
 } from './stripe.utils'
 
 const logger = createLoggerWithLabel(module)
 
+/**
+ * Number of payment intents retrieved from Stripe at a time when verifying
+ * many payments, to stay well within Stripe's rate limits.
+ */
+const STRIPE_RETRIEVAL_BATCH_SIZE = 10
+
+type PaymentStripeState = ReturnType<typeof getPaymentStateFromPaymentIntent>
+
+/**
+ * Status of a payment which has just been changed by a Stripe event.
+ */
+type PaymentStatusChange = {
+  payment: IPaymentSchema
+  previousStatus: PaymentStatus
+}
+
 /**
  * Retrieves charge object from Stripe when given the charge ID.
  * @param {string} chargeId the charge id of to be retrieved
@@ -185,13 +208,16 @@ const confirmStripePaymentPendingSubmission = (
 
 /**
  * Retrieves and updates payment document of the given paymentId with the event.
+ * If the status of the payment changes, a payment status webhook event is
+ * published to the form once the transaction commits.
  * NOTE: This is exported only for testing
  *
  * @param {string} paymentId the payment id to be updated
  * @param {Stripe.Event} event the new Stripe Event causing the update operation to occur
  * @param {mongoose.ClientSession} session the mongoose session to use for all db operations
  *
- * @returns ok() if event was successfully processed
+ * @returns ok(status change) if event was successfully processed and changed the status of the payment
+ * @returns ok(undefined) if event was successfully processed without changing the status of the payment
  * @returns err(MalformedStripeEventObjectError) if the shape of the event object received from Stripe does not have expected fields
  * @returns err(MalformedStripeChargeObjectError) if the shape of the charge object returned by Stripe does not have expected fields
  * @returns err(PaymentNotFoundError) if the payment document does not exist
@@ -206,7 +232,7 @@ export const processStripeEventWithinSession = (
   event: Stripe.Event,
   session: mongoose.ClientSession,
 ): ResultAsync<
-  void,
+  PaymentStatusChange | undefined,
   | MalformedStripeEventObjectError
   | MalformedStripeChargeObjectError
   | PaymentNotFoundError
@@ -257,6 +283,8 @@ export const processStripeEventWithinSession = (
         return errAsync(new MalformedStripeEventObjectError())
       }
 
+      const previousStatus = payment.status
+
       // Step 2: Confirm the pending submission awaiting payment from Stripe
       return (
         confirmStripePaymentPendingSubmission(event, payment, session)
@@ -309,7 +337,13 @@ export const processStripeEventWithinSession = (
               return new DatabaseError(getMongoErrorMessage(error))
             }),
           )
-          .andThen(() => okAsync(undefined))
+          .andThen((payment) =>
+            okAsync(
+              payment.status === previousStatus
+                ? undefined
+                : { payment, previousStatus },
+            ),
+          )
       )
     },
   )
@@ -317,6 +351,8 @@ export const processStripeEventWithinSession = (
 
 /**
  * Retrieves and updates payment document of the given paymentId with the event.
+ * If the status of the payment changes, a payment status webhook event is
+ * published to the form once the transaction commits.
  * This is done within a single transaction, so that the information in the
  * document is always consistent.
  *
@@ -353,6 +389,9 @@ export const processStripeEvent = (
     event,
   }
 
+  // Set by the transaction which commits, as transactions may be retried.
+  let statusChange: PaymentStatusChange | undefined
+
   // Step 0: Set up the session and start the transaction
   return ResultAsync.fromPromise(mongoose.startSession(), (error) => {
     logger.error({
@@ -368,8 +407,8 @@ export const processStripeEvent = (
           // Since withTransaction uses throw-catch to determine whether to
           // commit or abort, need to map out of neverthrow
           processStripeEventWithinSession(paymentId, event, session).match(
-            () => {
-              return
+            (change) => {
+              statusChange = change
             },
             (err) => {
               // Throw all application errors to trigger an abort.
@@ -395,6 +434,21 @@ export const processStripeEvent = (
     )
       .andThen(() => {
         session.endSession()
+        if (statusChange) {
+          const { payment, previousStatus } = statusChange
+          void WebhookFactory.publishEvent(
+            payment.formId,
+            WebhookEventType.PaymentStatusChanged,
+            {
+              paymentId: String(payment._id),
+              submissionId: payment.completedPayment?.submissionId,
+              previousStatus,
+              status: payment.status,
+              amount: payment.amount,
+              stripeEventType: event.type,
+            },
+          )
+        }
         return okAsync(undefined)
       })
       .orElse((err) => {
@@ -954,6 +1008,141 @@ export const verifyPaymentStatusWithStripe = (
     })
 }
 
+/**
+ * Retrieves the current state of a payment on Stripe, for comparison with the
+ * state recorded in the database.
+ * @param payment the payment to retrieve the state of
+ * @returns ok({ status, refundedAmount }) of the payment on Stripe
+ * @returns err(StripeFetchError) if an error occurred while retrieving the payment intent
+ */
+export const retrievePaymentStripeState = (
+  payment: IPaymentSchema,
+): ResultAsync<PaymentStripeState, StripeFetchError> =>
+  ResultAsync.fromPromise(
+    stripe.paymentIntents.retrieve(
+      payment.paymentIntentId,
+      { expand: ['latest_charge'] },
+      { stripeAccount: payment.targetAccountId },
+    ),
+    (error) => {
+      logger.error({
+        message: 'Error while retrieving payment intent',
+        meta: {
+          action: 'retrievePaymentStripeState',
+          paymentId: payment._id,
+          paymentIntentId: payment.paymentIntentId,
+        },
+        error,
+      })
+      return new StripeFetchError(String(error))
+    },
+  ).map(getPaymentStateFromPaymentIntent)
+
+/**
+ * Retrieves the current states of payments on Stripe, a batch of payments at a
+ * time. Payments which cannot be retrieved are returned with the error instead
+ * of failing the rest.
+ * @param payments the payments to retrieve the states of
+ * @returns ok(states of the payments on Stripe, or errors, in the same order)
+ */
+export const retrievePaymentsStripeStates = (
+  payments: IPaymentSchema[],
+): ResultAsync<(PaymentStripeState | StripeFetchError)[], never> =>
+  chunk(payments, STRIPE_RETRIEVAL_BATCH_SIZE).reduce(
+    (statesResult, batch) =>
+      statesResult.andThen((states) =>
+        ResultAsync.combine(
+          batch.map((payment) =>
+            retrievePaymentStripeState(payment)
+              .map((state): PaymentStripeState | StripeFetchError => state)
+              .orElse((error) => okAsync(error)),
+          ),
+        ).map((batchStates) => [...states, ...batchStates]),
+      ),
+    okAsync<(PaymentStripeState | StripeFetchError)[], never>([]),
+  )
+
+/**
+ * Refunds a payment through the Stripe account it was made to, and records the
+ * refund on the payment. The status of the payment is updated separately when
+ * Stripe sends the charge.refunded event.
+ * @param payment the payment to refund
+ * @param amount the amount to refund in cents, or the whole remaining amount if not given
+ * @param reason the reason for the refund, which is shown to the payer
+ * @param refundedBy the email of the admin issuing the refund
+ * @returns ok(payment) with the refund recorded
+ * @returns err(PaymentNotRefundableError) if the payment has not succeeded or has been fully refunded
+ * @returns err(InvalidPaymentAmountError) if the amount is more than the amount not yet refunded
+ * @returns err(StripeFetchError) if Stripe fails to create the refund
+ * @returns err(DatabaseError) if the refund could not be recorded
+ */
+export const refundPayment = (
+  payment: IPaymentSchema,
+  {
+    amount,
+    reason,
+    refundedBy,
+  }: { amount?: number; reason?: string; refundedBy: string },
+): ResultAsync<
+  IPaymentSchema,
+  | PaymentNotRefundableError
+  | InvalidPaymentAmountError
+  | StripeFetchError
+  | PaymentNotFoundError
+  | DatabaseError
+> => {
+  const logMeta = {
+    action: 'refundPayment',
+    paymentId: payment._id,
+    refundedBy,
+  }
+
+  if (
+    ![PaymentStatus.Succeeded, PaymentStatus.PartiallyRefunded].includes(
+      payment.status,
+    )
+  ) {
+    return errAsync(new PaymentNotRefundableError())
+  }
+
+  const remainingAmount = payment.amount - getRefundedAmount(payment)
+  const refundAmount = amount ?? remainingAmount
+  if (refundAmount <= 0 || refundAmount > remainingAmount) {
+    return errAsync(
+      new InvalidPaymentAmountError(
+        'Refund amount must be more than zero and at most the amount not yet refunded',
+      ),
+    )
+  }
+
+  return ResultAsync.fromPromise(
+    stripe.refunds.create(
+      {
+        payment_intent: payment.paymentIntentId,
+        amount: refundAmount,
+        metadata: { refundedBy },
+      },
+      { stripeAccount: payment.targetAccountId },
+    ),
+    (error) => {
+      logger.error({
+        message: 'Error while creating refund',
+        meta: { ...logMeta, refundAmount },
+        error,
+      })
+      return new StripeFetchError(String(error))
+    },
+  ).andThen((refund) =>
+    PaymentsService.addPaymentRefund(payment._id, {
+      refundId: refund.id,
+      amount: refund.amount,
+      reason,
+      refundedBy,
+      created: new Date(),
+    }),
+  )
+}
+
 export const generatePaymentInvoice = (
   payment: IPaymentSchema,
   populatedForm: IPopulatedEncryptedForm,
@@ -1000,6 +1189,7 @@ export const generatePaymentInvoice = (
       formTitle: populatedForm.title,
       submissionId: payment.completedPayment?.submissionId || '',
       gstApplicable: payment.gstEnabled,
+      lineItems: payment.products,
     })
 
     return ResultAsync.fromPromise(
@@ -7,7 +7,11 @@ import mongoose from 'mongoose'
 import { err, Ok, ok, Result } from 'neverthrow'
 import Stripe from 'stripe'
 
-import { Payment, PaymentStatus } from '../../../../shared/types'
+import {
+  Payment,
+  PaymentLineItem,
+  PaymentStatus,
+} from '../../../../shared/types'
 import { hasProp } from '../../../../shared/utils/has-prop'
 import { MapRouteError, StripePaymentMetadataDto } from '../../../types'
 import config from '../../config/config'
@@ -236,6 +240,45 @@ const chargeStateReducer = (
   return state
 }
 
+/**
+ * Derives the status and refunded amount of a payment from its payment intent
+ * on Stripe, without replaying the events of the payment.
+ * @param paymentIntent the payment intent, with its latest charge expanded
+ * @returns the status of the payment and the amount refunded in cents
+ */
+export const getPaymentStateFromPaymentIntent = (
+  paymentIntent: Stripe.PaymentIntent,
+): { status: PaymentStatus; refundedAmount: number } => {
+  const charge =
+    typeof paymentIntent.latest_charge === 'object'
+      ? paymentIntent.latest_charge
+      : undefined
+  const refundedAmount = charge?.amount_refunded ?? 0
+
+  switch (paymentIntent.status) {
+    case 'canceled':
+      return { status: PaymentStatus.Canceled, refundedAmount }
+    case 'succeeded': {
+      const status = charge?.disputed
+        ? PaymentStatus.Disputed
+        : charge?.refunded
+        ? PaymentStatus.FullyRefunded
+        : refundedAmount > 0
+        ? PaymentStatus.PartiallyRefunded
+        : PaymentStatus.Succeeded
+      return { status, refundedAmount }
+    }
+    default:
+      return {
+        status:
+          charge?.status === 'failed'
+            ? PaymentStatus.Failed
+            : PaymentStatus.Pending,
+        refundedAmount,
+      }
+  }
+}
+
 /**
  * State machine that computes the state of the payment, given the list of
  * Stripe events received via webhooks for this submission.
@@ -412,23 +455,38 @@ export const convertToProofOfPaymentFormat = (
     formTitle,
     submissionId,
     gstApplicable,
+    lineItems,
   }: {
     address: string
     gstRegNo: string
     formTitle: string
     submissionId: string
     gstApplicable: boolean
+    lineItems?: PaymentLineItem[]
   },
 ) => {
   // handle special characters in addresses
   const ADDRESS = encode(address)
   const GST_REG_NO = encode(gstRegNo)
+  // Stripe receipts only show the total, so products bought are listed below
+  const LINE_ITEMS = lineItems?.length
+    ? `<br /><br />Items:<br />${lineItems
+        .map(
+          ({ name, quantity, amount_cents }) =>
+            `${encode(name)} x ${quantity} @ S$${(amount_cents / 100).toFixed(
+              2,
+            )}`,
+        )
+        .join('<br />')}`
+    : ''
 
   const commonEdits = receiptHtmlSource
     .replace(/<br>\(This amount is inclusive of GST\)/, '')
     .replace(
       /Something wrong with the email\? <a.+a>/,
-      `FormSG Form: ${encode(formTitle)}<br />Response ID: ${submissionId}`,
+      `FormSG Form: ${encode(
+        formTitle,
+      )}<br />Response ID: ${submissionId}${LINE_ITEMS}`,
     )
     .replace(
       /<td class="Spacer Spacer--gutter" width="64" .+<\/td>/,
@@ -7,8 +7,11 @@ import {
   IPopulatedForm,
 } from '../../../types'
 import { validateField } from '../../utils/field-validation'
+import { getCalculatedAnswers } from '../../utils/field-validation/calculation'
 import {
   FieldIdSet,
+  getLogicFieldValues,
+  getLogicRequiredFieldIds,
   getLogicUnitPreventingSubmit,
   getVisibleFieldIds,
 } from '../../utils/logic-adaptor'
@@ -24,6 +27,12 @@ import {
 
 export abstract class IncomingSubmission {
   private readonly visibleFieldIds: Result<FieldIdSet, ProcessingError>
+  private readonly logicRequiredFieldIds: Result<FieldIdSet, ProcessingError>
+  private readonly logicFieldValues: Result<
+    Map<string, string>,
+    ProcessingError
+  >
+  private readonly calculatedAnswers: Map<string, string>
   private readonly visibleResponseIds: VisibleResponseIdSet
   private readonly verifiableResponseIds: VerifiableResponseIdSet
   protected constructor(
@@ -32,6 +41,14 @@ export abstract class IncomingSubmission {
     private fieldMap: ValidatedFieldMap,
   ) {
     this.visibleFieldIds = getVisibleFieldIds(responses, form)
+    this.logicRequiredFieldIds = this.visibleFieldIds.andThen(
+      (visibleFieldIds) =>
+        getLogicRequiredFieldIds(responses, form, visibleFieldIds),
+    )
+    this.logicFieldValues = this.visibleFieldIds.andThen((visibleFieldIds) =>
+      getLogicFieldValues(responses, form, visibleFieldIds),
+    )
+    this.calculatedAnswers = getCalculatedAnswers(responses, form)
     this.visibleResponseIds = this.getVisibleResponseIds()
     this.verifiableResponseIds = this.getVerifiableResponseIds()
   }
@@ -141,13 +158,26 @@ export abstract class IncomingSubmission {
   ): ProcessedFieldResponse {
     const responseId = String(response._id)
     const formField = this.fieldMap[responseId]
+    const isRequiredByLogic = this.logicRequiredFieldIds
+      .map((fieldIds) => fieldIds.has(responseId))
+      .unwrapOr(false)
+    const logicValue = this.logicFieldValues
+      .map((fieldValues) => fieldValues.get(responseId))
+      .unwrapOr(undefined)
+    const isVisible = this.visibleResponseIds.has(responseId)
+    const calculatedAnswer = isVisible
+      ? this.calculatedAnswers.get(responseId)
+      : undefined
     return {
       ...response,
-      isVisible: this.visibleResponseIds.has(responseId),
+      isVisible,
       question: formField.getQuestion(),
       isUserVerified: this.verifiableResponseIds.has(responseId)
         ? true
         : undefined,
+      ...(isRequiredByLogic && { isRequiredByLogic }),
+      ...(logicValue !== undefined && { logicValue }),
+      ...(calculatedAnswer !== undefined && { calculatedAnswer }),
     }
   }
 
@@ -155,6 +185,12 @@ export abstract class IncomingSubmission {
     if (this.visibleFieldIds.isErr()) {
       return err(this.visibleFieldIds.error)
     }
+    if (this.logicRequiredFieldIds.isErr()) {
+      return err(this.logicRequiredFieldIds.error)
+    }
+    if (this.logicFieldValues.isErr()) {
+      return err(this.logicFieldValues.error)
+    }
     // Guard against invalid form submissions that should have been prevented by
     // logic.
     const logicUnitPreventingSubmit = getLogicUnitPreventingSubmit(
@@ -1,6 +1,19 @@
-import { getResponseModeFilter } from 'src/app/modules/submission/submission.utils'
+import {
+  generateDefaultField,
+  generateNewSingleAnswerResponse,
+} from '__tests__/unit/backend/helpers/generate-form-data'
 
-import { BasicField, FormResponseMode } from '../../../../../../shared/types'
+import {
+  extractEmailConfirmationData,
+  getResponseModeFilter,
+} from 'src/app/modules/submission/submission.utils'
+import { FormFieldSchema } from 'src/types'
+
+import {
+  BasicField,
+  FormResponseMode,
+  Language,
+} from '../../../../../../shared/types'
 
 describe('submission.utils', () => {
   describe('getResponseModeFilter', () => {
@@ -46,4 +59,80 @@ describe('submission.utils', () => {
       expect(actual.length).toEqual(2)
     })
   })
+
+  describe('extractEmailConfirmationData', () => {
+    const MOCK_EMAIL = 'a@abc.com'
+    const MOCK_FIELD = {
+      ...generateDefaultField(BasicField.Email),
+      autoReplyOptions: {
+        hasAutoReply: true,
+        autoReplySubject: 'Thank you',
+        autoReplySender: 'Agency',
+        autoReplyMessage: 'We have received your response',
+        includeFormSummary: false,
+        autoReplySubjectTranslations: [
+          { language: Language.Chinese, translation: '谢谢' },
+        ],
+        autoReplyMessageTranslations: [
+          { language: Language.Chinese, translation: '我们已收到您的回复' },
+        ],
+      },
+    } as unknown as FormFieldSchema
+    const MOCK_RESPONSES = [
+      generateNewSingleAnswerResponse(BasicField.Email, {
+        _id: MOCK_FIELD._id,
+        answer: MOCK_EMAIL,
+      }),
+    ]
+
+    it('should return the autoreply options of answered email fields', () => {
+      // Act
+      const actual = extractEmailConfirmationData(MOCK_RESPONSES, [MOCK_FIELD])
+
+      // Assert
+      expect(actual).toEqual([
+        {
+          email: MOCK_EMAIL,
+          subject: 'Thank you',
+          sender: 'Agency',
+          body: 'We have received your response',
+          includeFormSummary: false,
+        },
+      ])
+    })
+
+    it('should return the autoreply subject and message in the given language', () => {
+      // Act
+      const actual = extractEmailConfirmationData(
+        MOCK_RESPONSES,
+        [MOCK_FIELD],
+        Language.Chinese,
+      )
+
+      // Assert
+      expect(actual).toEqual([
+        expect.objectContaining({
+          subject: '谢谢',
+          body: '我们已收到您的回复',
+        }),
+      ])
+    })
+
+    it('should fall back to the English autoreply when it has not been translated', () => {
+      // Act
+      const actual = extractEmailConfirmationData(
+        MOCK_RESPONSES,
+        [MOCK_FIELD],
+        Language.Tamil,
+      )
+
+      // Assert
+      expect(actual).toEqual([
+        expect.objectContaining({
+          subject: 'Thank you',
+          body: 'We have received your response',
+        }),
+      ])
+    })
+  })
 })
@@ -12,7 +12,10 @@ import {
   IFormDocument,
 } from '../../../../types'
 import { validateField } from '../../../utils/field-validation'
+import { getCalculatedAnswers } from '../../../utils/field-validation/calculation'
 import {
+  getLogicFieldValues,
+  getLogicRequiredFieldIds,
   getLogicUnitPreventingSubmit,
   getVisibleFieldIds,
 } from '../../../utils/logic-adaptor'
@@ -119,6 +122,27 @@ export default class ParsedResponsesObject {
       return err(new ProcessingError('Submission prevented by form logic'))
     }
 
+    // Fields that are required or have their values set by form logic
+    const logicRequiredFieldIds = getLogicRequiredFieldIds(
+      filteredResponses,
+      form,
+      visibleFieldIds.value,
+    )
+    if (logicRequiredFieldIds.isErr()) {
+      return err(logicRequiredFieldIds.error)
+    }
+
+    const logicFieldValues = getLogicFieldValues(
+      filteredResponses,
+      form,
+      visibleFieldIds.value,
+    )
+    if (logicFieldValues.isErr()) {
+      return err(logicFieldValues.error)
+    }
+
+    const calculatedAnswers = getCalculatedAnswers(filteredResponses, form)
+
     // Create a map keyed by field._id for easier access
 
     if (!form.form_fields) {
@@ -164,6 +188,20 @@ export default class ParsedResponsesObject {
         processingResponse.isUserVerified = formField.isVerifiable
       }
 
+      if (logicRequiredFieldIds.value.has(responseId)) {
+        processingResponse.isRequiredByLogic = true
+      }
+
+      const logicValue = logicFieldValues.value.get(responseId)
+      if (logicValue !== undefined) {
+        processingResponse.logicValue = logicValue
+      }
+
+      const calculatedAnswer = calculatedAnswers.get(responseId)
+      if (processingResponse.isVisible && calculatedAnswer !== undefined) {
+        processingResponse.calculatedAnswer = calculatedAnswer
+      }
+
       // Inject myinfo to response if field is a myinfo field for downstream processing.
       if (formField.myInfo?.attr) {
         processingResponse.myInfo = formField.myInfo
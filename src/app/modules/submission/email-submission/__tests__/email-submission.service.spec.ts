@@ -21,6 +21,7 @@ import {
 import {
   BasicField,
   FormAuthType,
+  Language,
   ResponseMetadata,
   SubmissionType,
 } from '../../../../../../shared/types'
@@ -347,6 +348,7 @@ describe('email-submission.service', () => {
         MOCK_EMAIL_FORM as IPopulatedEmailForm,
         { hash: MOCK_HASH.toString(), salt: MOCK_SALT.toString() },
         MOCK_RESPONSE_METADATA,
+        Language.Chinese,
       )
       expect(createEmailSubmissionSpy).toHaveBeenCalledWith({
         form: MOCK_EMAIL_FORM._id,
@@ -357,6 +359,7 @@ describe('email-submission.service', () => {
         responseSalt: MOCK_SALT.toString(),
         submissionType: SubmissionType.Email,
         responseMetadata: MOCK_RESPONSE_METADATA,
+        language: Language.Chinese,
       })
       expect(result._unsafeUnwrap()).toEqual(mockSubmission)
     })
@@ -18,6 +18,7 @@ import { createReqMeta, getRequestIp } from '../../../utils/request'
 import { ControllerHandler } from '../../core/core.types'
 import { setFormTags } from '../../datadog/datadog.utils'
 import * as FormService from '../../form/form.service'
+import * as InsightsService from '../../insights/insights.service'
 import {
   MYINFO_LOGIN_COOKIE_NAME,
   MYINFO_LOGIN_COOKIE_OPTIONS,
@@ -112,6 +113,17 @@ const submitEmailModeForm: ControllerHandler<
             return error
           }),
       )
+      .andThen((form) =>
+        // Check that form is within its schedule
+        FormService.checkFormIsWithinSchedule(form).mapErr((error) => {
+          logger.warn({
+            message: 'Attempt to submit form outside of its schedule',
+            meta: logMeta,
+            error,
+          })
+          return error
+        }),
+      )
       .andThen((form) => {
         // Check the captcha
         if (form.hasCaptcha) {
@@ -300,8 +312,8 @@ const submitEmailModeForm: ControllerHandler<
           form.authType,
         )
 
-        // Get response metadata from the request body
-        const { responseMetadata } = req.body
+        // Get response metadata and language from the request body
+        const { responseMetadata, language } = req.body
 
         // Save submission to database
         return EmailSubmissionService.hashSubmission(
@@ -313,6 +325,7 @@ const submitEmailModeForm: ControllerHandler<
               form,
               submissionHash,
               responseMetadata,
+              language,
             ),
           )
           .map((submission) => ({
@@ -403,6 +416,7 @@ const submitEmailModeForm: ControllerHandler<
             recipientData: extractEmailConfirmationData(
               parsedResponses.getAllResponses(),
               form.form_fields,
+              submission.language,
             ),
           }).mapErr((error) => {
             // NOTE: MyInfo access token is not cleared here.
@@ -414,6 +428,12 @@ const submitEmailModeForm: ControllerHandler<
               error,
             })
           })
+          // Count the answers to choice fields for the insights of the form.
+          // Errors are logged by the service.
+          void InsightsService.recordAnswerCounts(
+            form,
+            parsedResponses.getAllResponses(),
+          )
           // MyInfo access token is single-use, so clear it
           // Similarly for sgID-MyInfo
           return res
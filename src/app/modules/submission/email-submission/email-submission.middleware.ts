@@ -1,5 +1,9 @@
 import { celebrate, Joi } from 'celebrate'
 
+import {
+  MAX_RESPONSE_METADATA_PAGES,
+  TRANSLATABLE_LANGUAGES,
+} from '../../../../../shared/constants'
 import { BasicField, FieldResponse } from '../../../../../shared/types'
 import { createLoggerWithLabel } from '../../../config/logger'
 import { createReqMeta } from '../../../utils/request'
@@ -79,7 +83,16 @@ export const validateResponseParams = celebrate({
     responseMetadata: Joi.object({
       responseTimeMs: Joi.number(),
       numVisibleFields: Joi.number(),
+      pages: Joi.array()
+        .items(
+          Joi.object({
+            sectionId: Joi.string().hex().length(24),
+            timeSpentMs: Joi.number().min(0).required(),
+          }),
+        )
+        .max(MAX_RESPONSE_METADATA_PAGES),
     }),
+    language: Joi.string().valid(...TRANSLATABLE_LANGUAGES),
     /**
      * @deprecated unused key, but frontend still sends it.
      */
@@ -5,6 +5,7 @@ import { err, errAsync, ok, okAsync, Result, ResultAsync } from 'neverthrow'
 import {
   BasicField,
   FormResponseMode,
+  Language,
   ResponseMetadata,
   SubmissionType,
 } from '../../../../../shared/types'
@@ -137,6 +138,8 @@ export const hashSubmission = (
  * Saves an email submission to the database.
  * @param form
  * @param submissionHash Hash of submission and salt
+ * @param responseMetadata Metrics of the response, if provided by the respondent
+ * @param language Language the respondent filled in the form in, if not English
  * @returns okAsync(the saved document) if submission was saved successfully
  * @returns errAsync(DatabaseError) if submission failed to be saved
  */
@@ -144,6 +147,7 @@ export const saveSubmissionMetadata = (
   form: IPopulatedEmailForm,
   submissionHash: SubmissionHash,
   responseMetadata?: ResponseMetadata,
+  language?: Language,
 ): ResultAsync<IEmailSubmissionSchema, DatabaseError> => {
   const params = {
     form: form._id,
@@ -154,6 +158,7 @@ export const saveSubmissionMetadata = (
     responseSalt: submissionHash.salt,
     submissionType: SubmissionType.Email,
     responseMetadata,
+    language,
   }
   return ResultAsync.fromPromise(
     EmailSubmissionModel.create(params),
@@ -201,12 +206,14 @@ export const checkFormIsEmailMode = (
  * @param form Form document
  * @param responseHash Hash of response
  * @param responseSalt Salt used to hash response
+ * @param language Language the respondent filled in the form in, if not English
  * @returns Submission document which has not been saved to database
  */
 export const createEmailSubmissionWithoutSave = (
   form: IPopulatedEmailForm,
   responseHash: string,
   responseSalt: string,
+  language?: Language,
 ): IEmailSubmissionSchema => {
   return new EmailSubmissionModel({
     form: form._id,
@@ -215,5 +222,6 @@ export const createEmailSubmissionWithoutSave = (
     recipientEmails: transformEmails(form.emails),
     responseHash,
     responseSalt,
+    language,
   })
 }
@@ -1,14 +1,33 @@
 import { ObjectId } from 'bson-ext'
 import moment from 'moment-timezone'
-import { FormPaymentsField, PaymentType } from 'shared/types'
+import { BasicField, FormPaymentsField, PaymentType } from 'shared/types'
 
-import { SubmissionData } from 'src/types'
+import { FieldResponse, SubmissionData } from 'src/types'
 
 import {
   createEncryptedSubmissionDto,
   getPaymentAmount,
+  getProductLineItems,
 } from '../encrypt-submission.utils'
 
+const MOCK_PRODUCTS = [
+  {
+    _id: new ObjectId().toHexString(),
+    name: 'T-shirt',
+    amount_cents: 1500,
+    min_qty: 1,
+    max_qty: 5,
+  },
+  {
+    _id: new ObjectId().toHexString(),
+    name: 'Hoodie',
+    amount_cents: 3000,
+    min_qty: 0,
+    max_qty: 2,
+    stock: 10,
+  },
+]
+
 describe('encrypt-submission.utils', () => {
   describe('createEncryptedSubmissionDto', () => {
     it('should create an encrypted submission DTO sucessfully', () => {
@@ -71,5 +90,110 @@ describe('encrypt-submission.utils', () => {
 
       expect(result).toEqual(expectedAmountCents)
     })
+    it('should return the calculated amount for Variable Payment Type with a calculation field', () => {
+      const calculationFieldId = new ObjectId().toHexString()
+      const variablePaymentData = {
+        payment_type: PaymentType.Variable,
+        calculation_field_id: calculationFieldId,
+      } as FormPaymentsField
+
+      const incomingPaymentData = {
+        amount_cents: 1,
+      }
+      const responses = [
+        {
+          _id: calculationFieldId,
+          fieldType: BasicField.Calculation,
+          question: 'Total fee',
+          answer: '12.35',
+        },
+      ] as FieldResponse[]
+      const result = getPaymentAmount(
+        variablePaymentData,
+        incomingPaymentData,
+        responses,
+      )
+
+      expect(result).toEqual(1235)
+    })
+    it('should return undefined for Variable Payment Type if the calculation field is unanswered', () => {
+      const variablePaymentData = {
+        payment_type: PaymentType.Variable,
+        calculation_field_id: new ObjectId().toHexString(),
+      } as FormPaymentsField
+
+      const result = getPaymentAmount(
+        variablePaymentData,
+        { amount_cents: 100 },
+        [],
+      )
+
+      expect(result).toBeUndefined()
+    })
+    it('should return the total of the selected products for Products Payment Type', () => {
+      const productsPaymentData = {
+        payment_type: PaymentType.Products,
+        products: MOCK_PRODUCTS,
+      } as FormPaymentsField
+
+      const result = getPaymentAmount(productsPaymentData, {
+        // Amounts given by the respondent are ignored
+        amount_cents: 1,
+        products: [
+          { productId: MOCK_PRODUCTS[0]._id, quantity: 2 },
+          { productId: MOCK_PRODUCTS[1]._id, quantity: 1 },
+        ],
+      })
+
+      expect(result).toEqual(2 * 1500 + 3000)
+    })
+  })
+
+  describe('getProductLineItems', () => {
+    it('should return the line items of the selected products', () => {
+      const result = getProductLineItems(MOCK_PRODUCTS, [
+        { productId: MOCK_PRODUCTS[1]._id, quantity: 2 },
+      ])
+
+      expect(result).toEqual([
+        {
+          productId: MOCK_PRODUCTS[1]._id,
+          name: 'Hoodie',
+          amount_cents: 3000,
+          quantity: 2,
+        },
+      ])
+    })
+    it('should return undefined if a product is not in the catalogue', () => {
+      const result = getProductLineItems(MOCK_PRODUCTS, [
+        { productId: new ObjectId().toHexString(), quantity: 1 },
+      ])
+
+      expect(result).toBeUndefined()
+    })
+    it('should return undefined if a quantity is not within the allowed range', () => {
+      expect(
+        getProductLineItems(MOCK_PRODUCTS, [
+          { productId: MOCK_PRODUCTS[0]._id, quantity: 6 },
+        ]),
+      ).toBeUndefined()
+      expect(
+        getProductLineItems(MOCK_PRODUCTS, [
+          { productId: MOCK_PRODUCTS[1]._id, quantity: 1.5 },
+        ]),
+      ).toBeUndefined()
+    })
+    it('should return undefined if a product is selected more than once', () => {
+      const result = getProductLineItems(MOCK_PRODUCTS, [
+        { productId: MOCK_PRODUCTS[0]._id, quantity: 1 },
+        { productId: MOCK_PRODUCTS[0]._id, quantity: 1 },
+      ])
+
+      expect(result).toBeUndefined()
+    })
+    it('should return undefined if no products are selected', () => {
+      expect(getProductLineItems(MOCK_PRODUCTS, [])).toBeUndefined()
+      expect(getProductLineItems(MOCK_PRODUCTS)).toBeUndefined()
+    })
   })
 })
@@ -1,10 +1,9 @@
 import JoiDate from '@joi/date'
 import { celebrate, Joi as BaseJoi, Segments } from 'celebrate'
-import { AuthedSessionData } from 'express-session'
 import { StatusCodes } from 'http-status-codes'
 import JSONStream from 'JSONStream'
 import mongoose from 'mongoose'
-import { okAsync } from 'neverthrow'
+import { okAsync, ResultAsync } from 'neverthrow'
 import Stripe from 'stripe'
 import type { SetOptional } from 'type-fest'
 
@@ -14,6 +13,8 @@ import {
   FormSubmissionMetadataQueryDto,
   Payment,
   PaymentChannel,
+  PaymentLineItem,
+  PaymentType,
   StorageModeSubmissionDto,
   StorageModeSubmissionMetadataList,
   SubmissionErrorDto,
@@ -35,11 +36,14 @@ import * as TurnstileMiddleware from '../../../services/turnstile/turnstile.midd
 import * as TurnstileService from '../../../services/turnstile/turnstile.service'
 import { createReqMeta, getRequestIp } from '../../../utils/request'
 import { getFormAfterPermissionChecks } from '../../auth/auth.service'
+import { getAuthedUserId } from '../../auth/auth.utils'
 import { MalformedParametersError } from '../../core/core.errors'
 import { ControllerHandler } from '../../core/core.types'
 import { setFormTags } from '../../datadog/datadog.utils'
 import { PermissionLevel } from '../../form/admin-form/admin-form.types'
 import * as FormService from '../../form/form.service'
+import { ProductOutOfStockError } from '../../payments/payments.errors'
+import * as PaymentsService from '../../payments/payments.service'
 import { SGID_COOKIE_NAME } from '../../sgid/sgid.constants'
 import { SgidService } from '../../sgid/sgid.service'
 import { getOidcService } from '../../spcp/spcp.oidc.service'
@@ -148,6 +152,21 @@ const submitEncryptModeForm: ControllerHandler<
       })
     }
   }
+
+  // Check that form is within its schedule
+  const formScheduleResult = FormService.checkFormIsWithinSchedule(form)
+  if (formScheduleResult.isErr()) {
+    logger.warn({
+      message: 'Attempt to submit form outside of its schedule',
+      meta: logMeta,
+      error: formScheduleResult.error,
+    })
+    const { statusCode, errorMessage } = mapRouteError(formScheduleResult.error)
+    return res.status(statusCode).json({
+      message: errorMessage,
+    })
+  }
+
   // Check captcha
   if (form.hasCaptcha) {
     switch (req.query.captchaType) {
@@ -208,7 +227,7 @@ const submitEncryptModeForm: ControllerHandler<
   }
 
   // Create Incoming Submission
-  const { encryptedContent, responses, responseMetadata } = req.body
+  const { encryptedContent, responses, responseMetadata, language } = req.body
   const incomingSubmissionResult = IncomingEncryptSubmission.init(
     form,
     responses,
@@ -379,6 +398,7 @@ const submitEncryptModeForm: ControllerHandler<
     attachmentMetadata,
     version: req.body.version,
     responseMetadata,
+    language,
   }
 
   // Handle submissions for payments forms
@@ -390,7 +410,32 @@ const submitEncryptModeForm: ControllerHandler<
      * Start of Payment Forms Submission Flow
      */
     // Step 0: Perform validation checks
-    const amount = getPaymentAmount(form.payments_field, req.body.payments)
+    let productLineItems: PaymentLineItem[] | undefined
+    if (form.payments_field.payment_type === PaymentType.Products) {
+      const lineItemsResult = await PaymentsService.getProductsPaymentLineItems(
+        formId,
+        form.payments_field.products,
+        req.body.payments?.products,
+      )
+      if (lineItemsResult.isErr()) {
+        logger.error({
+          message: 'Error when creating payment: invalid products selected',
+          meta: logMeta,
+          error: lineItemsResult.error,
+        })
+        const { statusCode, errorMessage } = mapRouteError(
+          lineItemsResult.error,
+        )
+        return res.status(statusCode).json({ message: errorMessage })
+      }
+      productLineItems = lineItemsResult.value
+    }
+
+    const amount = getPaymentAmount(
+      form.payments_field,
+      req.body.payments,
+      incomingSubmission.responses,
+    )
 
     if (
       !amount ||
@@ -430,6 +475,7 @@ const submitEncryptModeForm: ControllerHandler<
       email: paymentReceiptEmail,
       responses: incomingSubmission.responses,
       gstEnabled: form.payments_field.gst_enabled,
+      products: productLineItems,
     })
     const paymentId = payment.id
 
@@ -492,7 +538,12 @@ const submitEncryptModeForm: ControllerHandler<
       automatic_payment_methods: {
         enabled: true,
       },
-      description: form.payments_field.name || form.payments_field.description,
+      description:
+        productLineItems
+          ?.map(({ name, quantity }) => `${name} x ${quantity}`)
+          .join(', ') ||
+        form.payments_field.name ||
+        form.payments_field.description,
       receipt_email: paymentReceiptEmail,
       metadata,
     }
@@ -531,11 +582,19 @@ const submitEncryptModeForm: ControllerHandler<
     })
 
     // Step 4: Update payment document with payment intent id and pending submission id, and save it.
+    // Saving the payment of products also reserves their stock, which may
+    // have been bought by another respondent since it was checked in step 0.
     payment.paymentIntentId = paymentIntentId
     payment.pendingSubmissionId = pendingSubmissionId
-    try {
-      await payment.save()
-    } catch (err) {
+    const savePaymentResult =
+      form.payments_field.payment_type === PaymentType.Products
+        ? await PaymentsService.saveProductsPayment(
+            payment,
+            form.payments_field.products,
+          )
+        : await ResultAsync.fromPromise(payment.save(), (error) => error)
+    if (savePaymentResult.isErr()) {
+      const { error } = savePaymentResult
       logger.error({
         message: 'Error updating payment document with payment intent id',
         meta: {
@@ -543,7 +602,7 @@ const submitEncryptModeForm: ControllerHandler<
           pendingSubmissionId,
           paymentIntentId,
         },
-        error: err,
+        error,
       })
       // Cancel the payment intent if saving the document fails.
       try {
@@ -558,11 +617,15 @@ const submitEncryptModeForm: ControllerHandler<
             pendingSubmissionId,
             paymentIntentId,
           },
-          error: err,
+          error,
         })
       }
       // Regardless of whether the cancellation succeeded or failed, block the
       // submission so that user can try to resubmit
+      if (error instanceof ProductOutOfStockError) {
+        const { statusCode, errorMessage } = mapRouteError(error)
+        return res.status(statusCode).json({ message: errorMessage })
+      }
       return res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
         message:
           'There was a problem updating the payment document. Please try again.',
@@ -681,7 +744,7 @@ export const streamEncryptedResponses: ControllerHandler<
   unknown,
   { startDate?: string; endDate?: string; downloadAttachments: boolean }
 > = async (req, res) => {
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   const { formId } = req.params
   const { startDate, endDate } = req.query
 
@@ -705,6 +768,7 @@ export const streamEncryptedResponses: ControllerHandler<
         user,
         formId,
         level: PermissionLevel.Read,
+        scope: req.formPermissionScope,
       }),
     )
     // Step 3: Check whether form is encrypt mode.
@@ -819,7 +883,7 @@ export const handleGetEncryptedResponse: ControllerHandler<
   { formId: string; submissionId: string },
   StorageModeSubmissionDto | ErrorDto
 > = async (req, res) => {
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   const { formId, submissionId } = req.params
 
   const logMeta = {
@@ -844,6 +908,7 @@ export const handleGetEncryptedResponse: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Check whether form is encrypt mode.
@@ -919,7 +984,7 @@ export const getMetadata: ControllerHandler<
   unknown,
   FormSubmissionMetadataQueryDto
 > = async (req, res) => {
-  const sessionUserId = (req.session as AuthedSessionData).user._id
+  const sessionUserId = getAuthedUserId(req)
   const { formId } = req.params
   const { page, submissionId } = req.query
 
@@ -941,6 +1006,7 @@ export const getMetadata: ControllerHandler<
           user,
           formId,
           level: PermissionLevel.Read,
+          scope: req.formPermissionScope,
         }),
       )
       // Step 3: Check whether form is encrypt mode.
@@ -1,5 +1,9 @@
 import { celebrate, Joi, Segments } from 'celebrate'
 
+import {
+  MAX_RESPONSE_METADATA_PAGES,
+  TRANSLATABLE_LANGUAGES,
+} from '../../../../../shared/constants'
 import { BasicField } from '../../../../../shared/types'
 import { paymentConfig } from '../../../config/features/payment.config'
 
@@ -10,14 +14,19 @@ export const validateEncryptSubmissionParams = celebrate({
   [Segments.BODY]: Joi.object({
     responses: Joi.array()
       .items(
-        Joi.object().keys({
-          _id: Joi.string().required(),
-          answer: Joi.string().allow('').required(),
-          fieldType: Joi.string()
-            .required()
-            .valid(...Object.values(BasicField)),
-          signature: Joi.string().allow(''),
-        }),
+        Joi.object()
+          .keys({
+            _id: Joi.string().required(),
+            answer: Joi.string().allow(''),
+            // Only checkbox fields referenced by a calculated payment amount
+            // are sent with their selected options.
+            answerArray: Joi.array().items(Joi.string().allow('')),
+            fieldType: Joi.string()
+              .required()
+              .valid(...Object.values(BasicField)),
+            signature: Joi.string().allow(''),
+          })
+          .xor('answer', 'answerArray'),
       )
       .required(),
     encryptedContent: Joi.string()
@@ -55,12 +64,27 @@ export const validateEncryptSubmissionParams = celebrate({
         .positive()
         .min(paymentConfig.minPaymentAmountCents)
         .max(paymentConfig.maxPaymentAmountCents),
+      products: Joi.array().items(
+        Joi.object({
+          productId: Joi.string().required(),
+          quantity: Joi.number().integer().positive().required(),
+        }),
+      ),
     }),
     version: Joi.number().required(),
     responseMetadata: Joi.object({
       responseTimeMs: Joi.number(),
       numVisibleFields: Joi.number(),
+      pages: Joi.array()
+        .items(
+          Joi.object({
+            sectionId: Joi.string().hex().length(24),
+            timeSpentMs: Joi.number().min(0).required(),
+          }),
+        )
+        .max(MAX_RESPONSE_METADATA_PAGES),
     }),
+    language: Joi.string().valid(...TRANSLATABLE_LANGUAGES),
     /**
      * @deprecated unused key, but frontend may still send it.
      */
@@ -42,6 +42,7 @@ import {
   WebhookValidationError,
 } from '../../webhook/webhook.errors'
 import { WebhookFactory } from '../../webhook/webhook.factory'
+import { getWebhookTargets } from '../../webhook/webhook.utils'
 import {
   ResponseModeError,
   SendEmailConfirmationError,
@@ -332,6 +333,17 @@ export const getSubmissionPaymentDto = (
         moment(payment.payout.payoutDate)
           .tz('Asia/Singapore')
           .format('ddd, D MMM YYYY'),
+
+      refunds: payment.refunds?.map(
+        ({ amount, reason, refundedBy, created }) => ({
+          amount,
+          reason,
+          refundedBy,
+          created: moment(created)
+            .tz('Asia/Singapore')
+            .format('ddd, D MMM YYYY, hh:mm:ss A'),
+        }),
+      ),
     })
   })
 
@@ -441,6 +453,7 @@ export const checkFormIsEncryptMode = (
  * @param version Encryption version
  * @param attachmentMetadata
  * @param verifiedContent Verified content included in submission, e.g. SingPass ID
+ * @param language Language the respondent filled in the form in, if not English
  * @returns Encrypted submission document which has not been saved to database
  */
 export const createEncryptSubmissionWithoutSave = ({
@@ -449,6 +462,7 @@ export const createEncryptSubmissionWithoutSave = ({
   version,
   attachmentMetadata,
   verifiedContent,
+  language,
 }: SaveEncryptSubmissionParams): IEncryptedSubmissionSchema => {
   return new EncryptSubmissionModel({
     form: form._id,
@@ -458,6 +472,7 @@ export const createEncryptSubmissionWithoutSave = ({
     verifiedContent,
     attachmentMetadata,
     version,
+    language,
   })
 }
 
@@ -494,13 +509,18 @@ export const performEncryptPostSubmissionActions = (
       // Fire webhooks if available
       // To avoid being coupled to latency of receiving system,
       // do not await on webhook
-      const webhookUrl = form.webhook?.url
-      if (!webhookUrl) return okAsync(form)
-
-      return WebhookFactory.sendInitialWebhook(
-        submission,
-        webhookUrl,
-        !!form.webhook?.isRetryEnabled,
+      const webhookTargets = getWebhookTargets(form.webhook)
+      if (!webhookTargets.length) return okAsync(form)
+
+      return ResultAsync.combine(
+        webhookTargets.map(({ webhookUrl, isRetryEnabled, ...sendOptions }) =>
+          WebhookFactory.sendInitialWebhook(
+            submission,
+            webhookUrl,
+            isRetryEnabled,
+            sendOptions,
+          ),
+        ),
       ).andThen(() => okAsync(form))
     })
     .andThen((form) => {
@@ -511,6 +531,7 @@ export const performEncryptPostSubmissionActions = (
         recipientData: extractEmailConfirmationData(
           responses,
           form.form_fields,
+          submission.language,
         ),
       }).mapErr((error) => {
         logger.error({
@@ -1,4 +1,7 @@
-import { StorageModeAttachmentsMap } from '../../../../../shared/types'
+import {
+  Language,
+  StorageModeAttachmentsMap,
+} from '../../../../../shared/types'
 import { IPopulatedEncryptedForm } from '../../../../types'
 import { ProcessedFieldResponse } from '../submission.types'
 
@@ -18,4 +21,5 @@ export type SaveEncryptSubmissionParams = {
   version: number
   verifiedContent?: string
   attachmentMetadata?: Map<string, string>
+  language?: Language
 }
@@ -4,12 +4,16 @@ import moment from 'moment-timezone'
 import {
   FormPaymentsField,
   PaymentFieldsDto,
+  PaymentLineItem,
   PaymentType,
+  Product,
+  ProductSelection,
   StorageModeSubmissionDto,
   SubmissionPaymentDto,
   SubmissionType,
 } from '../../../../../shared/types'
 import {
+  FieldResponse,
   IEncryptedSubmissionSchema,
   ISubmissionSchema,
   MapRouteErrors,
@@ -45,7 +49,11 @@ import {
   FormNotFoundError,
   PrivateFormError,
 } from '../../form/form.errors'
-import { PaymentNotFoundError } from '../../payments/payments.errors'
+import {
+  InvalidProductSelectionError,
+  PaymentNotFoundError,
+  ProductOutOfStockError,
+} from '../../payments/payments.errors'
 import {
   SgidInvalidJwtError,
   SgidMissingJwtError,
@@ -197,6 +205,12 @@ const errorMapper: MapRouteError = (
         errorMessage:
           'There is something wrong with your form submission. Please check your responses and try again. If the problem persists, please refresh the page.',
       }
+    case InvalidProductSelectionError:
+    case ProductOutOfStockError:
+      return {
+        statusCode: StatusCodes.BAD_REQUEST,
+        errorMessage: error.message,
+      }
     case DatabaseConflictError:
     case ConflictError:
       return {
@@ -264,22 +278,90 @@ export const createEncryptedSubmissionDto = (
   }
 }
 
+/**
+ * Retrieves the products bought by the respondent from the product catalogue
+ * of the form, at their current prices.
+ * @param products the product catalogue of the form
+ * @param selections products and quantities selected by the respondent
+ * @returns the line items of the payment, or undefined if any product does not
+ * exist in the catalogue, is selected more than once or its quantity is not
+ * within the allowed range, or if no products are selected
+ */
+export const getProductLineItems = (
+  products: Product[],
+  selections: ProductSelection[] = [],
+): PaymentLineItem[] | undefined => {
+  const lineItems: PaymentLineItem[] = []
+  for (const { productId, quantity } of selections) {
+    const product = products.find(({ _id }) => String(_id) === productId)
+    if (
+      !product ||
+      lineItems.some((lineItem) => lineItem.productId === productId) ||
+      !Number.isInteger(quantity) ||
+      quantity < Math.max(product.min_qty, 1) ||
+      quantity > product.max_qty
+    ) {
+      return undefined
+    }
+    lineItems.push({
+      productId,
+      name: product.name,
+      amount_cents: product.amount_cents,
+      quantity,
+    })
+  }
+  return lineItems.length ? lineItems : undefined
+}
+
 /**
  * Retrieves payment amount by payment_type
  * @param formPaymentFields data from the form
  * @param incomingSubmissionPaymentFields data from responder's submission
+ * @param responses validated responses from responder's submission, used when the amount is given by a calculation field
  */
 export const getPaymentAmount = (
   formPaymentFields: FormPaymentsField, // fields that are from document.form
   incomingSubmissionPaymentFields?: PaymentFieldsDto, // fields that are from incoming submission
+  responses: FieldResponse[] = [],
 ): number | undefined => {
   // legacy payment forms may not have a payment type
   const { payment_type } = formPaymentFields
   switch (payment_type) {
     case PaymentType.Fixed:
       return formPaymentFields.amount_cents
-    case PaymentType.Variable:
-      return incomingSubmissionPaymentFields?.amount_cents
+    case PaymentType.Variable: {
+      const { calculation_field_id } = formPaymentFields
+      if (!calculation_field_id) {
+        return incomingSubmissionPaymentFields?.amount_cents
+      }
+      // The calculated answer has already been verified against the formula,
+      // so the amount cannot be tampered with by the respondent.
+      const calculationResponse = responses.find(
+        ({ _id }) => String(_id) === calculation_field_id,
+      )
+      if (
+        !calculationResponse ||
+        !('answer' in calculationResponse) ||
+        typeof calculationResponse.answer !== 'string' ||
+        calculationResponse.answer.trim() === ''
+      ) {
+        return undefined
+      }
+      const amount = Number(calculationResponse.answer)
+      return Number.isFinite(amount) ? Math.round(amount * 100) : undefined
+    }
+    case PaymentType.Products: {
+      // Prices are taken from the catalogue so that they cannot be tampered
+      // with by the respondent.
+      const lineItems = getProductLineItems(
+        formPaymentFields.products,
+        incomingSubmissionPaymentFields?.products,
+      )
+      return lineItems?.reduce(
+        (total, { amount_cents, quantity }) => total + amount_cents * quantity,
+        0,
+      )
+    }
 
     default: {
       // Force TS to emit an error if the cases above are not exhaustive
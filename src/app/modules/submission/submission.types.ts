@@ -21,6 +21,20 @@ export type ProcessedResponse = {
   question: string
   isVisible?: boolean
   isUserVerified?: boolean
+  /**
+   * Whether the response's field is required by form logic, regardless of
+   * whether the field itself is required.
+   */
+  isRequiredByLogic?: boolean
+  /**
+   * The value that form logic sets on the response's field, if any.
+   */
+  logicValue?: string
+  /**
+   * The answer of the response's calculation field, as recomputed from the
+   * other responses in the submission.
+   */
+  calculatedAnswer?: string
 }
 
 /**
@@ -6,8 +6,16 @@ import {
   BasicField,
   FormField,
   FormResponseMode,
+  Language,
 } from '../../../../shared/types'
-import { FieldResponse, FormFieldSchema, IFormDocument } from '../../../types'
+import { getPaymentCalculationFieldIds } from '../../../../shared/utils/calculation'
+import { getTranslation } from '../../../../shared/utils/translation'
+import {
+  FieldResponse,
+  FormFieldSchema,
+  IEncryptedFormSchema,
+  IFormDocument,
+} from '../../../types'
 import { AutoReplyMailData } from '../../services/mail/mail.types'
 
 import { ConflictError } from './submission.errors'
@@ -78,11 +86,13 @@ export const getFormFieldModeFilter = (
  * Extracts response data to be sent in email confirmations
  * @param responses Responses from form filler
  * @param formFields Fields from form object
+ * @param language Language the form was filled in, to send the confirmations in
  * @returns Array of data for email confirmations
  */
 export const extractEmailConfirmationData = (
   responses: FieldResponse[],
   formFields: FormFieldSchema[] | undefined,
+  language?: Language,
 ): AutoReplyMailData[] => {
   const fieldsById = keyBy(formFields, '_id')
   return responses.reduce<AutoReplyMailData[]>((acc, response) => {
@@ -97,9 +107,17 @@ export const extractEmailConfirmationData = (
       if (options.hasAutoReply) {
         acc.push({
           email: response.answer,
-          subject: options.autoReplySubject,
+          subject: getTranslation(
+            options.autoReplySubject,
+            options.autoReplySubjectTranslations,
+            language,
+          ),
           sender: options.autoReplySender,
-          body: options.autoReplyMessage,
+          body: getTranslation(
+            options.autoReplyMessage,
+            options.autoReplyMessageTranslations,
+            language,
+          ),
           includeFormSummary: options.includeFormSummary,
         })
       }
@@ -108,6 +126,21 @@ export const extractEmailConfirmationData = (
   }, [])
 }
 
+/**
+ * Returns the ids of fields whose responses must be submitted regardless of
+ * the form's response mode, in addition to those allowed by its mode filters.
+ * In storage mode, these are the fields needed to verify a calculated payment
+ * amount.
+ * @param form The form document
+ */
+const getRequiredPlaintextFieldIds = (form: IFormDocument): string[] => {
+  if (form.responseMode !== FormResponseMode.Encrypt || !form.form_fields) {
+    return []
+  }
+  const { payments_field } = form as IEncryptedFormSchema
+  return getPaymentCalculationFieldIds(form.form_fields, payments_field)
+}
+
 /**
  * Filter allowed form field responses from given responses and return the
  * array of responses with duplicates removed.
@@ -127,11 +160,22 @@ export const getFilteredResponses = (
   if (!form.form_fields) {
     return err(new ConflictError('Form fields are missing'))
   }
+  const requiredPlaintextFieldIds = getRequiredPlaintextFieldIds(form)
   // _id must be transformed to string as form response is jsonified.
-  const fieldIds = formFieldModeFilter(form.form_fields).map((field) => ({
-    _id: String(field._id),
-  }))
-  const uniqueResponses = uniqBy(responseModeFilter(responses), '_id')
+  const fieldIds = uniqBy(
+    formFieldModeFilter(form.form_fields)
+      .map((field) => ({ _id: String(field._id) }))
+      .concat(requiredPlaintextFieldIds.map((_id) => ({ _id }))),
+    '_id',
+  )
+  const uniqueResponses = uniqBy(
+    responseModeFilter(responses).concat(
+      responses.filter(({ _id }) =>
+        requiredPlaintextFieldIds.includes(String(_id)),
+      ),
+    ),
+    '_id',
+  )
   const results = intersectionBy(uniqueResponses, fieldIds, '_id')
 
   if (results.length < fieldIds.length) {
@@ -1,6 +1,10 @@
 import { StatusCodes } from 'http-status-codes'
 
 import {
+  ApiKeyDto,
+  CreateApiKeyBodyDto,
+  CreatedApiKeyDto,
+  ErrorDto,
   SendUserContactOtpDto,
   VerifyUserContactOtpDto,
 } from '../../../../shared/types'
@@ -8,6 +12,7 @@ import { IPopulatedUser } from '../../../types'
 import { createLoggerWithLabel } from '../../config/logger'
 import { SmsFactory } from '../../services/sms/sms.factory'
 import { getRequestIp } from '../../utils/request'
+import * as AuthService from '../auth/auth.service'
 import { getUserIdFromSession } from '../auth/auth.utils'
 import { ControllerHandler } from '../core/core.types'
 
@@ -15,6 +20,7 @@ import { UNAUTHORIZED_USER_MESSAGE } from './user.constant'
 import {
   validateContactOtpVerificationParams,
   validateContactSendOtpParams,
+  validateCreateApiKeyParams,
   validateUpdateUserLastSeenFeatureUpdateVersion,
 } from './user.middleware'
 import {
@@ -24,7 +30,7 @@ import {
   updateUserLastSeenFeatureUpdateVersion,
   verifyContactOtp,
 } from './user.service'
-import { mapRouteError } from './user.utils'
+import { mapRouteError, toApiKeyDto } from './user.utils'
 
 const logger = createLoggerWithLabel(module)
 
@@ -255,3 +261,194 @@ export const handleUpdateUserLastSeenFeatureUpdateVersion = [
   validateUpdateUserLastSeenFeatureUpdateVersion,
   _handleUpdateUserLastSeenFeatureUpdateVersion,
 ] as ControllerHandler[]
+
+/**
+ * Retrieves all API keys of the session user, including revoked and expired
+ * keys.
+ * @route GET /api-keys
+ * @returns 200 with the list of API keys
+ * @returns 401 if user is not currently logged in
+ * @returns 422 when user id does not exist in the database
+ * @returns 500 when database errors occurs
+ */
+export const handleListApiKeys: ControllerHandler<
+  unknown,
+  ApiKeyDto[] | ErrorDto
+> = async (req, res) => {
+  const sessionUserId = getUserIdFromSession(req.session)
+  if (!sessionUserId) {
+    return res
+      .status(StatusCodes.UNAUTHORIZED)
+      .json({ message: UNAUTHORIZED_USER_MESSAGE })
+  }
+
+  return AuthService.listApiKeys(sessionUserId)
+    .map((apiKeys) => res.json(apiKeys.map(toApiKeyDto)))
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error occurred whilst listing API keys',
+        meta: {
+          action: 'handleListApiKeys',
+          userId: sessionUserId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+export const _handleCreateApiKey: ControllerHandler<
+  unknown,
+  CreatedApiKeyDto | ErrorDto,
+  Omit<CreateApiKeyBodyDto, 'expiresAt'> & { expiresAt?: Date }
+> = async (req, res) => {
+  const sessionUserId = getUserIdFromSession(req.session)
+  if (!sessionUserId) {
+    return res
+      .status(StatusCodes.UNAUTHORIZED)
+      .json({ message: UNAUTHORIZED_USER_MESSAGE })
+  }
+
+  return AuthService.createApiKey(sessionUserId, req.body)
+    .map(({ apiKey, token }) => {
+      logger.info({
+        message: 'API key created',
+        meta: {
+          action: 'handleCreateApiKey',
+          userId: sessionUserId,
+          keyId: apiKey._id,
+          scopes: apiKey.scopes,
+        },
+      })
+      return res
+        .status(StatusCodes.OK)
+        .json({ apiKey: toApiKeyDto(apiKey), token })
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error occurred whilst creating API key',
+        meta: {
+          action: 'handleCreateApiKey',
+          userId: sessionUserId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+/**
+ * Creates a new API key for the session user. The plaintext token is only
+ * returned in this response.
+ * @route POST /api-keys
+ * @returns 200 with the created API key and its token
+ * @returns 400 when body fails Joi validation
+ * @returns 401 if user is not currently logged in
+ * @returns 422 when user id does not exist in the database
+ * @returns 422 when user already has the maximum number of active API keys
+ * @returns 500 when database or hashing errors occurs
+ */
+export const handleCreateApiKey = [
+  validateCreateApiKeyParams,
+  _handleCreateApiKey,
+] as ControllerHandler[]
+
+/**
+ * Replaces the secret of the given API key of the session user. The previous
+ * token stops working immediately.
+ * @route POST /api-keys/:keyId/rotate
+ * @returns 200 with the rotated API key and its new token
+ * @returns 401 if user is not currently logged in
+ * @returns 404 when the API key does not exist or is no longer active
+ * @returns 422 when user id does not exist in the database
+ * @returns 500 when database or hashing errors occurs
+ */
+export const handleRotateApiKey: ControllerHandler<
+  { keyId: string },
+  CreatedApiKeyDto | ErrorDto
+> = async (req, res) => {
+  const { keyId } = req.params
+  const sessionUserId = getUserIdFromSession(req.session)
+  if (!sessionUserId) {
+    return res
+      .status(StatusCodes.UNAUTHORIZED)
+      .json({ message: UNAUTHORIZED_USER_MESSAGE })
+  }
+
+  return AuthService.rotateApiKey(sessionUserId, keyId)
+    .map(({ apiKey, token }) => {
+      logger.info({
+        message: 'API key rotated',
+        meta: {
+          action: 'handleRotateApiKey',
+          userId: sessionUserId,
+          keyId,
+        },
+      })
+      return res
+        .status(StatusCodes.OK)
+        .json({ apiKey: toApiKeyDto(apiKey), token })
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error occurred whilst rotating API key',
+        meta: {
+          action: 'handleRotateApiKey',
+          userId: sessionUserId,
+          keyId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
+
+/**
+ * Revokes the given API key of the session user.
+ * @route DELETE /api-keys/:keyId
+ * @returns 200 with the revoked API key
+ * @returns 401 if user is not currently logged in
+ * @returns 404 when the API key does not exist or is already revoked
+ * @returns 500 when database errors occurs
+ */
+export const handleRevokeApiKey: ControllerHandler<
+  { keyId: string },
+  ApiKeyDto | ErrorDto
+> = async (req, res) => {
+  const { keyId } = req.params
+  const sessionUserId = getUserIdFromSession(req.session)
+  if (!sessionUserId) {
+    return res
+      .status(StatusCodes.UNAUTHORIZED)
+      .json({ message: UNAUTHORIZED_USER_MESSAGE })
+  }
+
+  return AuthService.revokeApiKey(sessionUserId, keyId)
+    .map((apiKey) => {
+      logger.info({
+        message: 'API key revoked',
+        meta: {
+          action: 'handleRevokeApiKey',
+          userId: sessionUserId,
+          keyId,
+        },
+      })
+      return res.status(StatusCodes.OK).json(toApiKeyDto(apiKey))
+    })
+    .mapErr((error) => {
+      logger.error({
+        message: 'Error occurred whilst revoking API key',
+        meta: {
+          action: 'handleRevokeApiKey',
+          userId: sessionUserId,
+          keyId,
+        },
+        error,
+      })
+      const { errorMessage, statusCode } = mapRouteError(error)
+      return res.status(statusCode).json({ message: errorMessage })
+    })
+}
@@ -1,6 +1,8 @@
 import JoiDate from '@joi/date'
 import { celebrate, Joi as BaseJoi, Segments } from 'celebrate'
 
+import { ApiKeyScope } from '../../../../shared/types'
+
 const Joi = BaseJoi.extend(JoiDate) as typeof BaseJoi
 
 /**
@@ -31,3 +33,21 @@ export const validateUpdateUserLastSeenFeatureUpdateVersion = celebrate({
     version: Joi.number().required(),
   }),
 })
+
+/**
+ * Celebrate validation for the API key creation endpoint.
+ */
+export const validateCreateApiKeyParams = celebrate({
+  [Segments.BODY]: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required(),
+    scopes: Joi.array()
+      .items(Joi.string().valid(...Object.values(ApiKeyScope)))
+      .min(1)
+      .unique()
+      .required(),
+    formIds: Joi.array()
+      .items(Joi.string().regex(/^[a-fA-F0-9]{24}$/))
+      .unique(),
+    expiresAt: Joi.date().iso().greater('now'),
+  }),
+})
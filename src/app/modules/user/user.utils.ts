@@ -1,9 +1,16 @@
 import { StatusCodes } from 'http-status-codes'
 
-import { UserContactView } from '../../../types'
+import { ApiKeyDto, DateString, UserRole } from '../../../../shared/types'
+import {
+  IAgencySchema,
+  IApiKey,
+  IUserSchema,
+  UserContactView,
+} from '../../../types'
 import { createLoggerWithLabel } from '../../config/logger'
 import * as SmsErrors from '../../services/sms/sms.errors'
 import { HashingError } from '../../utils/hash'
+import * as AuthErrors from '../auth/auth.errors'
 import * as CoreErrors from '../core/core.errors'
 import { ErrorResponseData } from '../core/core.types'
 
@@ -23,11 +30,13 @@ export const mapRouteError = (
 ): ErrorResponseData => {
   switch (error.constructor) {
     case UserErrors.InvalidOtpError:
+    case AuthErrors.MissingApiKeyError:
       return {
         statusCode: StatusCodes.NOT_FOUND,
         errorMessage: error.message,
       }
     case UserErrors.MissingUserError:
+    case AuthErrors.ApiKeyLimitExceededError:
     case SmsErrors.SmsSendError:
     case SmsErrors.InvalidNumberError:
       return {
@@ -67,3 +76,38 @@ export const isUserWithContactNumber = (
 ): userDetails is UserWithContactNumber => {
   return !!userDetails.contact
 }
+
+/**
+ * Converts the given API key subdocument into its client-facing shape, which
+ * never contains the key hash.
+ * @param apiKey the API key to convert
+ * @returns the API key without its hash
+ */
+export const toApiKeyDto = (apiKey: IApiKey): ApiKeyDto => {
+  return {
+    _id: String(apiKey._id),
+    name: apiKey.name,
+    scopes: apiKey.scopes,
+    formIds: apiKey.formIds,
+    createdAt: apiKey.createdAt.toISOString() as DateString,
+    expiresAt: apiKey.expiresAt?.toISOString() as DateString | undefined,
+    revokedAt: apiKey.revokedAt?.toISOString() as DateString | undefined,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() as DateString | undefined,
+  }
+}
+
+/**
+ * Checks whether the given user is an agency admin of the given agency.
+ * @param user the user to check, whose agency may or may not be populated
+ * @param agency the agency or the id of the agency
+ * @returns true if the user is an agency admin of the agency
+ */
+export const isAgencyAdminOf = (
+  user: IUserSchema,
+  agency: IAgencySchema | IAgencySchema['_id'] | undefined,
+): boolean => {
+  if (user.role !== UserRole.AgencyAdmin || !user.agency || !agency) {
+    return false
+  }
+  return String(user.agency._id ?? user.agency) === String(agency._id ?? agency)
+}
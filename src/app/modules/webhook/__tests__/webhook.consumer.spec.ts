@@ -6,17 +6,28 @@ import mongoose from 'mongoose'
 import { errAsync, okAsync } from 'neverthrow'
 
 import { getEncryptSubmissionModel } from 'src/app/models/submission.server.model'
-import { SubmissionWebhookInfo } from 'src/types'
-
-import { WebhookResponse } from '../../../../../shared/types'
+import {
+  IEncryptedSubmissionSchema,
+  IWebhookEventSchema,
+  SubmissionWebhookInfo,
+  WebhookEventInfo,
+} from 'src/types'
+
+import {
+  WebhookResponse,
+  WebhookRetryProfile,
+} from '../../../../../shared/types'
 import { createWebhookQueueHandler } from '../webhook.consumer'
 import { WebhookPushToQueueError } from '../webhook.errors'
+import * as WebhookEventService from '../webhook.event.service'
 import { WebhookProducer } from '../webhook.producer'
 import * as WebhookService from '../webhook.service'
 import { WebhookQueueMessageObject } from '../webhook.types'
 
 jest.mock('../webhook.service')
 const MockWebhookService = jest.mocked(WebhookService)
+jest.mock('../webhook.event.service')
+const MockWebhookEventService = jest.mocked(WebhookEventService)
 
 const EncryptSubmissionModel = getEncryptSubmissionModel(mongoose)
 
@@ -73,6 +84,13 @@ describe('webhook.consumer', () => {
       sendMessage: jest.fn().mockReturnValue(okAsync(true)),
     } as unknown as WebhookProducer
 
+    MockWebhookService.saveWebhookRecord.mockReturnValue(
+      okAsync({} as IEncryptedSubmissionSchema),
+    )
+    MockWebhookService.notifyIfWebhookFailingContinuously.mockReturnValue(
+      okAsync(false),
+    )
+
     FAILURE_PRODUCER = {
       sendMessage: jest
         .fn()
@@ -188,6 +206,132 @@ describe('webhook.consumer', () => {
       expect(SUCCESS_PRODUCER.sendMessage).not.toHaveBeenCalled()
     })
 
+    it('should send redelivery without requeuing when form does not have retries enabled', async () => {
+      jest
+        .spyOn(EncryptSubmissionModel, 'retrieveWebhookInfoById')
+        .mockResolvedValueOnce({
+          ...MOCK_WEBHOOK_INFO,
+          isRetryEnabled: false,
+        })
+      MockWebhookService.sendWebhook.mockReturnValueOnce(
+        okAsync(MOCK_WEBHOOK_FAILURE_RESPONSE),
+      )
+      const message = {
+        Body: JSON.stringify({
+          ...VALID_MESSAGE_BODY,
+          previousAttempts: [],
+          isRedelivery: true,
+        }),
+      }
+
+      await expect(
+        createWebhookQueueHandler(SUCCESS_PRODUCER)(message),
+      ).toResolve()
+      expect(MockWebhookService.sendWebhook).toHaveBeenCalledWith(
+        MOCK_WEBHOOK_INFO.webhookView,
+        MOCK_WEBHOOK_INFO.webhookUrl,
+        {},
+      )
+      expect(MockWebhookService.saveWebhookRecord).toHaveBeenCalledWith(
+        VALID_MESSAGE_BODY.submissionId,
+        MOCK_WEBHOOK_FAILURE_RESPONSE,
+      )
+      expect(
+        MockWebhookService.notifyIfWebhookFailingContinuously,
+      ).toHaveBeenCalledWith(
+        MOCK_WEBHOOK_INFO.webhookView.data.formId,
+        MOCK_WEBHOOK_INFO.webhookUrl,
+        undefined,
+      )
+      expect(SUCCESS_PRODUCER.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should send webhook to the additional endpoint of the message', async () => {
+      const endpointId = new ObjectId().toHexString()
+      const mockEndpointInfo = {
+        ...MOCK_WEBHOOK_INFO,
+        endpointId,
+        hmacSecret: 'mockSecret',
+        headers: [{ name: 'Authorization', value: 'Bearer token' }],
+      }
+      const retrieveSpy = jest
+        .spyOn(EncryptSubmissionModel, 'retrieveWebhookInfoById')
+        .mockResolvedValueOnce(mockEndpointInfo)
+      MockWebhookService.sendWebhook.mockReturnValueOnce(
+        okAsync(MOCK_WEBHOOK_SUCCESS_RESPONSE),
+      )
+      const message = {
+        Body: JSON.stringify({ ...VALID_MESSAGE_BODY, endpointId }),
+      }
+
+      await expect(
+        createWebhookQueueHandler(SUCCESS_PRODUCER)(message),
+      ).toResolve()
+      expect(retrieveSpy).toHaveBeenCalledWith(
+        VALID_MESSAGE_BODY.submissionId,
+        endpointId,
+      )
+      expect(MockWebhookService.sendWebhook).toHaveBeenCalledWith(
+        mockEndpointInfo.webhookView,
+        mockEndpointInfo.webhookUrl,
+        {
+          endpointId,
+          hmacSecret: mockEndpointInfo.hmacSecret,
+          headers: mockEndpointInfo.headers,
+        },
+      )
+    })
+
+    it('should send event webhook and record the response on the event', async () => {
+      const eventId = new ObjectId().toHexString()
+      const mockEventInfo = {
+        isRetryEnabled: true,
+        webhookUrl: 'some url',
+        webhookView: { data: { eventId } },
+      } as WebhookEventInfo
+      MockWebhookEventService.retrieveWebhookEventInfo.mockReturnValueOnce(
+        okAsync(mockEventInfo),
+      )
+      MockWebhookEventService.saveWebhookEventRecord.mockReturnValueOnce(
+        okAsync({} as IWebhookEventSchema),
+      )
+      MockWebhookService.sendWebhook.mockReturnValueOnce(
+        okAsync(MOCK_WEBHOOK_FAILURE_RESPONSE),
+      )
+      const message = {
+        Body: JSON.stringify({
+          previousAttempts: [Date.now()],
+          nextAttempt: Date.now(),
+          eventId,
+          _v: 0,
+        }),
+      }
+
+      await expect(
+        createWebhookQueueHandler(SUCCESS_PRODUCER)(message),
+      ).toResolve()
+      expect(
+        MockWebhookEventService.retrieveWebhookEventInfo,
+      ).toHaveBeenCalledWith(eventId, undefined)
+      expect(MockWebhookService.sendWebhook).toHaveBeenCalledWith(
+        mockEventInfo.webhookView,
+        mockEventInfo.webhookUrl,
+        {},
+      )
+      expect(
+        MockWebhookEventService.saveWebhookEventRecord,
+      ).toHaveBeenCalledWith(eventId, {
+        ...MOCK_WEBHOOK_FAILURE_RESPONSE,
+        nextAttemptAt: expect.any(Date),
+      })
+      expect(MockWebhookService.saveWebhookRecord).not.toHaveBeenCalled()
+      expect(SUCCESS_PRODUCER.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.objectContaining({ eventId }),
+        }),
+      )
+    })
+
     it('should resolve without requeuing when webhook succeeds', async () => {
       jest
         .spyOn(EncryptSubmissionModel, 'retrieveWebhookInfoById')
@@ -202,6 +346,7 @@ describe('webhook.consumer', () => {
       expect(MockWebhookService.sendWebhook).toHaveBeenCalledWith(
         MOCK_WEBHOOK_INFO.webhookView,
         MOCK_WEBHOOK_INFO.webhookUrl,
+        {},
       )
       expect(MockWebhookService.saveWebhookRecord).toHaveBeenCalledWith(
         VALID_MESSAGE_BODY.submissionId,
@@ -225,14 +370,53 @@ describe('webhook.consumer', () => {
       expect(MockWebhookService.sendWebhook).toHaveBeenCalledWith(
         MOCK_WEBHOOK_INFO.webhookView,
         MOCK_WEBHOOK_INFO.webhookUrl,
+        {},
       )
       expect(MockWebhookService.saveWebhookRecord).toHaveBeenCalledWith(
         VALID_MESSAGE_BODY.submissionId,
-        MOCK_WEBHOOK_FAILURE_RESPONSE,
+        { ...MOCK_WEBHOOK_FAILURE_RESPONSE, nextAttemptAt: expect.any(Date) },
       )
+      expect(
+        MockWebhookService.notifyIfWebhookFailingContinuously,
+      ).not.toHaveBeenCalled()
       expect(SUCCESS_PRODUCER.sendMessage).toHaveBeenCalled()
     })
 
+    it('should retry according to the retry policy of the form', async () => {
+      jest
+        .spyOn(EncryptSubmissionModel, 'retrieveWebhookInfoById')
+        .mockResolvedValueOnce({
+          ...MOCK_WEBHOOK_INFO,
+          retryPolicy: {
+            profile: WebhookRetryProfile.Custom,
+            maxRetries: 1,
+            backoffMinutes: 1,
+          },
+        })
+      MockWebhookService.sendWebhook.mockReturnValueOnce(
+        okAsync(MOCK_WEBHOOK_FAILURE_RESPONSE),
+      )
+      const message = {
+        Body: JSON.stringify({
+          ...VALID_MESSAGE_BODY,
+          // Initial attempt and the only retry have been made
+          previousAttempts: [Date.now(), Date.now()],
+        }),
+      }
+
+      await expect(
+        createWebhookQueueHandler(SUCCESS_PRODUCER)(message),
+      ).toResolve()
+      expect(MockWebhookService.saveWebhookRecord).toHaveBeenCalledWith(
+        VALID_MESSAGE_BODY.submissionId,
+        MOCK_WEBHOOK_FAILURE_RESPONSE,
+      )
+      expect(
+        MockWebhookService.notifyIfWebhookFailingContinuously,
+      ).toHaveBeenCalled()
+      expect(SUCCESS_PRODUCER.sendMessage).not.toHaveBeenCalled()
+    })
+
     it('should resolve without requeuing when retry fails and there are no retries remaining', async () => {
       jest
         .spyOn(EncryptSubmissionModel, 'retrieveWebhookInfoById')
@@ -254,6 +438,7 @@ describe('webhook.consumer', () => {
       expect(MockWebhookService.sendWebhook).toHaveBeenCalledWith(
         MOCK_WEBHOOK_INFO.webhookView,
         MOCK_WEBHOOK_INFO.webhookUrl,
+        {},
       )
       expect(MockWebhookService.saveWebhookRecord).toHaveBeenCalledWith(
         VALID_MESSAGE_BODY.submissionId,
@@ -276,10 +461,11 @@ describe('webhook.consumer', () => {
       expect(MockWebhookService.sendWebhook).toHaveBeenCalledWith(
         MOCK_WEBHOOK_INFO.webhookView,
         MOCK_WEBHOOK_INFO.webhookUrl,
+        {},
       )
       expect(MockWebhookService.saveWebhookRecord).toHaveBeenCalledWith(
         VALID_MESSAGE_BODY.submissionId,
-        MOCK_WEBHOOK_FAILURE_RESPONSE,
+        { ...MOCK_WEBHOOK_FAILURE_RESPONSE, nextAttemptAt: expect.any(Date) },
       )
       expect(FAILURE_PRODUCER.sendMessage).toHaveBeenCalled()
     })
@@ -0,0 +1,222 @@
+import dbHandler from '__tests__/unit/backend/helpers/jest-db'
+import { ObjectId } from 'bson'
+import mongoose from 'mongoose'
+import { okAsync } from 'neverthrow'
+
+import getWebhookEventModel from 'src/app/models/webhook_event.server.model'
+
+import {
+  FormStatus,
+  WebhookEventType,
+  WebhookResponse,
+} from '../../../../../shared/types'
+import { WebhookEventNotFoundError } from '../webhook.errors'
+import * as WebhookEventService from '../webhook.event.service'
+import { WebhookProducer } from '../webhook.producer'
+import * as WebhookService from '../webhook.service'
+
+jest.mock('../webhook.service')
+const MockWebhookService = jest.mocked(WebhookService)
+
+const WebhookEventModel = getWebhookEventModel(mongoose)
+
+const MOCK_WEBHOOK_URL = 'https://form.gov.sg/endpoint'
+const MOCK_SUCCESS_RESPONSE: WebhookResponse = {
+  signature: 'mockSignature',
+  webhookUrl: MOCK_WEBHOOK_URL,
+  response: {
+    status: 200,
+    headers: '{}',
+    data: '{}',
+  },
+}
+const MOCK_FAILURE_RESPONSE: WebhookResponse = {
+  ...MOCK_SUCCESS_RESPONSE,
+  response: { ...MOCK_SUCCESS_RESPONSE.response, status: 500 },
+}
+
+describe('webhook.event.service', () => {
+  let mockProducer: WebhookProducer
+
+  beforeAll(async () => await dbHandler.connect())
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockProducer = {
+      sendMessage: jest.fn().mockReturnValue(okAsync(true)),
+    } as unknown as WebhookProducer
+  })
+  afterEach(async () => await dbHandler.clearDatabase())
+  afterAll(async () => await dbHandler.closeDatabase())
+
+  describe('createWebhookEventPublisher', () => {
+    it('should send and record the event when the form is subscribed to it', async () => {
+      // Arrange
+      const { form } = await dbHandler.insertEncryptForm({
+        formOptions: {
+          webhook: {
+            url: MOCK_WEBHOOK_URL,
+            isRetryEnabled: false,
+            events: [WebhookEventType.FormStatusChanged],
+          },
+        },
+      })
+      MockWebhookService.sendWebhook.mockReturnValueOnce(
+        okAsync(MOCK_SUCCESS_RESPONSE),
+      )
+
+      // Act
+      const result = await WebhookEventService.createWebhookEventPublisher(
+        mockProducer,
+      )(String(form._id), WebhookEventType.FormStatusChanged, {
+        status: FormStatus.Public,
+      })
+
+      // Assert
+      expect(result._unsafeUnwrap()).toBe(true)
+      const events = await WebhookEventModel.find({ form: form._id }).lean()
+      expect(events).toHaveLength(1)
+      expect(events[0]).toMatchObject({
+        type: WebhookEventType.FormStatusChanged,
+        payload: { status: FormStatus.Public },
+        webhookResponses: [
+          expect.objectContaining({ signature: 'mockSignature' }),
+        ],
+      })
+      expect(MockWebhookService.sendWebhook).toHaveBeenCalledWith(
+        {
+          data: {
+            eventId: String(events[0]._id),
+            type: WebhookEventType.FormStatusChanged,
+            formId: String(form._id),
+            created: expect.any(String),
+            payload: { status: FormStatus.Public },
+          },
+        },
+        MOCK_WEBHOOK_URL,
+        expect.objectContaining({ endpointId: undefined }),
+      )
+      expect(mockProducer.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should queue a retry when the event webhook fails and retries are enabled', async () => {
+      // Arrange
+      const { form } = await dbHandler.insertEncryptForm({
+        formOptions: {
+          webhook: {
+            url: MOCK_WEBHOOK_URL,
+            isRetryEnabled: true,
+            events: [WebhookEventType.FormStatusChanged],
+          },
+        },
+      })
+      MockWebhookService.sendWebhook.mockReturnValueOnce(
+        okAsync(MOCK_FAILURE_RESPONSE),
+      )
+
+      // Act
+      const result = await WebhookEventService.createWebhookEventPublisher(
+        mockProducer,
+      )(String(form._id), WebhookEventType.FormStatusChanged, {
+        status: FormStatus.Private,
+      })
+
+      // Assert
+      expect(result._unsafeUnwrap()).toBe(true)
+      const event = await WebhookEventModel.findOne({ form: form._id }).lean()
+      expect(mockProducer.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: expect.objectContaining({ eventId: String(event?._id) }),
+        }),
+      )
+      expect(event?.webhookResponses[0].nextAttemptAt).toBeInstanceOf(Date)
+    })
+
+    it('should not send the event when the form is not subscribed to it', async () => {
+      // Arrange
+      const { form } = await dbHandler.insertEncryptForm({
+        formOptions: {
+          webhook: {
+            url: MOCK_WEBHOOK_URL,
+            isRetryEnabled: false,
+            events: [WebhookEventType.PaymentStatusChanged],
+          },
+        },
+      })
+
+      // Act
+      const result = await WebhookEventService.createWebhookEventPublisher(
+        mockProducer,
+      )(String(form._id), WebhookEventType.FormStatusChanged, {
+        status: FormStatus.Public,
+      })
+
+      // Assert
+      expect(result._unsafeUnwrap()).toBe(false)
+      expect(MockWebhookService.sendWebhook).not.toHaveBeenCalled()
+      await expect(WebhookEventModel.countDocuments()).resolves.toBe(0)
+    })
+
+    it('should return ok(false) when the form does not exist', async () => {
+      // Act
+      const result = await WebhookEventService.createWebhookEventPublisher(
+        mockProducer,
+      )(new ObjectId().toHexString(), WebhookEventType.FormStatusChanged, {
+        status: FormStatus.Public,
+      })
+
+      // Assert
+      expect(result._unsafeUnwrap()).toBe(false)
+      expect(MockWebhookService.sendWebhook).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('retrieveWebhookEventInfo', () => {
+    it('should return the target and view of the event', async () => {
+      // Arrange
+      const { form } = await dbHandler.insertEncryptForm({
+        formOptions: {
+          webhook: {
+            url: MOCK_WEBHOOK_URL,
+            isRetryEnabled: true,
+            events: [WebhookEventType.FormStatusChanged],
+          },
+        },
+      })
+      const event = await WebhookEventModel.create({
+        form: form._id,
+        type: WebhookEventType.FormStatusChanged,
+        payload: { status: FormStatus.Archived },
+      })
+
+      // Act
+      const result = await WebhookEventService.retrieveWebhookEventInfo(
+        String(event._id),
+      )
+
+      // Assert
+      expect(result._unsafeUnwrap()).toMatchObject({
+        webhookUrl: MOCK_WEBHOOK_URL,
+        isRetryEnabled: true,
+        webhookView: {
+          data: {
+            eventId: String(event._id),
+            formId: String(form._id),
+            payload: { status: FormStatus.Archived },
+          },
+        },
+      })
+    })
+
+    it('should return WebhookEventNotFoundError when the event does not exist', async () => {
+      // Act
+      const result = await WebhookEventService.retrieveWebhookEventInfo(
+        new ObjectId().toHexString(),
+      )
+
+      // Assert
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        WebhookEventNotFoundError,
+      )
+    })
+  })
+})
@@ -1,5 +1,6 @@
 import { ObjectId } from 'bson'
 
+import { WebhookRetryProfile } from '../../../../../shared/types'
 import {
   DUE_TIME_TOLERANCE_SECONDS,
   QUEUE_MESSAGE_VERSION,
@@ -57,6 +58,29 @@ describe('WebhookQueueMessage', () => {
       )
     })
 
+    it('should return WebhookQueueMessageParsingError when both submissionId and eventId are given', () => {
+      const result = WebhookQueueMessage.deserialise(
+        JSON.stringify({
+          ...VALID_MESSAGE,
+          eventId: new ObjectId().toHexString(),
+        }),
+      )
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        WebhookQueueMessageParsingError,
+      )
+    })
+
+    it('should return WebhookQueueMessageParsingError when neither submissionId nor eventId is given', () => {
+      const result = WebhookQueueMessage.deserialise(
+        JSON.stringify({ ...VALID_MESSAGE, submissionId: undefined }),
+      )
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        WebhookQueueMessageParsingError,
+      )
+    })
+
     it('should return instance of WebhookQueueMessage when input is valid', () => {
       const result = WebhookQueueMessage.deserialise(
         JSON.stringify(VALID_MESSAGE),
@@ -88,6 +112,67 @@ describe('WebhookQueueMessage', () => {
     })
   })
 
+  describe('fromEventId', () => {
+    const MOCK_NOW = Date.now()
+
+    beforeAll(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(MOCK_NOW)
+    })
+
+    afterAll(() => jest.restoreAllMocks())
+
+    it('should create a WebhookQueueMessage for the event which keeps its event id when retried', () => {
+      const eventId = new ObjectId().toHexString()
+      const result = WebhookQueueMessage.fromEventId(eventId)._unsafeUnwrap()
+
+      expect(result.message).toEqual({
+        eventId,
+        previousAttempts: [MOCK_NOW],
+        nextAttempt: expect.any(Number),
+        _v: QUEUE_MESSAGE_VERSION,
+      })
+      expect(result.id).toBe(eventId)
+      expect(result.incrementAttempts()._unsafeUnwrap().eventId).toBe(eventId)
+    })
+  })
+
+  describe('forRedelivery', () => {
+    const MOCK_NOW = Date.now()
+
+    beforeAll(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(MOCK_NOW)
+    })
+
+    afterAll(() => jest.restoreAllMocks())
+
+    it('should create a redelivery WebhookQueueMessage which is due immediately', () => {
+      const submissionId = new ObjectId().toHexString()
+      const result = WebhookQueueMessage.forRedelivery(submissionId)
+
+      expect(result.message).toEqual({
+        submissionId,
+        previousAttempts: [],
+        nextAttempt: MOCK_NOW,
+        isRedelivery: true,
+        _v: QUEUE_MESSAGE_VERSION,
+      })
+      expect(result.isRedelivery).toBe(true)
+      expect(result.isDue()).toBe(true)
+    })
+
+    it('should schedule retries from the time of redelivery when redelivery fails', () => {
+      const result = WebhookQueueMessage.forRedelivery(
+        new ObjectId().toHexString(),
+      )
+        .incrementAttempts()
+        ._unsafeUnwrap()
+
+      expect(result.message.previousAttempts).toEqual([MOCK_NOW])
+      expect(result.message.nextAttempt).toBeGreaterThan(MOCK_NOW)
+      expect(result.isRedelivery).toBe(false)
+    })
+  })
+
   describe('serialise', () => {
     it('should return stringified message', () => {
       const msg = new WebhookQueueMessage(VALID_MESSAGE)
@@ -161,6 +246,21 @@ describe('WebhookQueueMessage', () => {
 
       expect(result).toBeInstanceOf(WebhookNoMoreRetriesError)
     })
+
+    it('should return WebhookNoMoreRetriesError when retries of the retry policy have been exhausted', () => {
+      const msg = new WebhookQueueMessage(VALID_MESSAGE)
+
+      // Initial attempt and the only retry of the policy have been made
+      const result = msg
+        .incrementAttempts({
+          profile: WebhookRetryProfile.Custom,
+          maxRetries: 1,
+          backoffMinutes: 1,
+        })
+        ._unsafeUnwrapErr()
+
+      expect(result).toBeInstanceOf(WebhookNoMoreRetriesError)
+    })
   })
 
   describe('getRetriesFailedState', () => {
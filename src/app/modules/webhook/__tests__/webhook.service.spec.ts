@@ -2,21 +2,39 @@ import dbHandler from '__tests__/unit/backend/helpers/jest-db'
 import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios'
 import { ObjectId } from 'bson'
 import mongoose from 'mongoose'
-import { ok, okAsync } from 'neverthrow'
+import { errAsync, ok, okAsync } from 'neverthrow'
 
 import formsgSdk from 'src/app/config/formsg-sdk'
+import getFormModel from 'src/app/models/form.server.model'
 import { getEncryptSubmissionModel } from 'src/app/models/submission.server.model'
-import { WebhookValidationError } from 'src/app/modules/webhook/webhook.errors'
+import * as FormService from 'src/app/modules/form/form.service'
+import {
+  WebhookNotConfiguredError,
+  WebhookRedeliveryUnavailableError,
+  WebhookValidationError,
+} from 'src/app/modules/webhook/webhook.errors'
 import * as WebhookValidationModule from 'src/app/modules/webhook/webhook.validation'
+import { MailSendError } from 'src/app/services/mail/mail.errors'
+import MailService from 'src/app/services/mail/mail.service'
 import { transformMongoError } from 'src/app/utils/handle-mongo-error'
-import { IEncryptedSubmissionSchema, WebhookView } from 'src/types'
+import {
+  IEncryptedSubmissionSchema,
+  IPopulatedForm,
+  WebhookView,
+} from 'src/types'
 
+import { WEBHOOK_HMAC_SIGNATURE_HEADER } from '../../../../../shared/constants'
 import { WebhookResponse } from '../../../../../shared/types'
 import { SubmissionNotFoundError } from '../../submission/submission.errors'
-import { WEBHOOK_MAX_CONTENT_LENGTH } from '../webhook.constants'
+import {
+  MAX_WEBHOOK_REDELIVERIES,
+  WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD,
+  WEBHOOK_MAX_CONTENT_LENGTH,
+} from '../webhook.constants'
 import { WebhookQueueMessage } from '../webhook.message'
 import { WebhookProducer } from '../webhook.producer'
 import * as WebhookService from '../webhook.service'
+import { constructHmacSignatureHeader } from '../webhook.utils'
 
 // define suite-wide mocks
 jest.mock('axios')
@@ -32,6 +50,7 @@ jest.mock('../webhook.message.ts')
 const MockWebhookQueueMessage = jest.mocked(WebhookQueueMessage)
 
 const EncryptSubmissionModel = getEncryptSubmissionModel(mongoose)
+const FormModel = getFormModel(mongoose)
 
 // define test constants
 
@@ -290,6 +309,7 @@ describe('webhook.service', () => {
         ...MOCK_WEBHOOK_FAILURE_RESPONSE,
         signature: MOCK_SIGNATURE,
         webhookUrl: MOCK_WEBHOOK_URL,
+        latencyMs: expect.any(Number),
       }
 
       expect(
@@ -321,6 +341,7 @@ describe('webhook.service', () => {
         ...MOCK_WEBHOOK_DEFAULT_FORMAT_RESPONSE,
         signature: MOCK_SIGNATURE,
         webhookUrl: MOCK_WEBHOOK_URL,
+        latencyMs: expect.any(Number),
       }
 
       expect(
@@ -354,6 +375,7 @@ describe('webhook.service', () => {
         ...MOCK_WEBHOOK_DEFAULT_FORMAT_RESPONSE,
         signature: MOCK_SIGNATURE,
         webhookUrl: MOCK_WEBHOOK_URL,
+        latencyMs: expect.any(Number),
       }
 
       expect(
@@ -384,6 +406,7 @@ describe('webhook.service', () => {
         ...MOCK_WEBHOOK_SUCCESS_RESPONSE,
         signature: MOCK_SIGNATURE,
         webhookUrl: MOCK_WEBHOOK_URL,
+        latencyMs: expect.any(Number),
       }
 
       expect(
@@ -396,6 +419,52 @@ describe('webhook.service', () => {
       )
       expect(actual._unsafeUnwrap()).toEqual(expectedResult)
     })
+
+    it('should send custom headers and HMAC signature when configured', async () => {
+      // Arrange
+      MockWebhookValidationModule.validateWebhookUrl.mockResolvedValueOnce()
+
+      MockAxios.post.mockResolvedValue(MOCK_AXIOS_SUCCESS_RESPONSE)
+      const mockEndpointId = new ObjectId().toHexString()
+      const mockHmacSecret = 'mockHmacSecret'
+
+      // Act
+      const actual = await WebhookService.sendWebhook(
+        MOCK_WEBHOOK_VIEW,
+        MOCK_WEBHOOK_URL,
+        {
+          endpointId: mockEndpointId,
+          hmacSecret: mockHmacSecret,
+          headers: [{ name: 'Authorization', value: 'Bearer token' }],
+        },
+      )
+
+      // Assert
+      const expectedBody = JSON.stringify(MOCK_WEBHOOK_VIEW)
+      expect(MockAxios.post).toHaveBeenCalledWith(
+        MOCK_WEBHOOK_URL,
+        expectedBody,
+        {
+          ...testConfig,
+          headers: {
+            Authorization: 'Bearer token',
+            'Content-Type': 'application/json',
+            [WEBHOOK_HMAC_SIGNATURE_HEADER]: constructHmacSignatureHeader(
+              mockHmacSecret,
+              Date.now(),
+              expectedBody,
+            ),
+            ...testConfig.headers,
+          },
+        },
+      )
+      expect(actual._unsafeUnwrap()).toEqual(
+        expect.objectContaining({
+          webhookUrl: MOCK_WEBHOOK_URL,
+          endpointId: mockEndpointId,
+        }),
+      )
+    })
   })
 
   describe('createInitialWebhookSender', () => {
@@ -456,8 +525,10 @@ describe('webhook.service', () => {
     })
 
     it('should return true and retry when webhook fails and retries are enabled', async () => {
-      const mockQueueMessage =
-        'mockQueueMessage' as unknown as WebhookQueueMessage
+      const mockNextAttempt = Date.now() + 60000
+      const mockQueueMessage = {
+        nextAttempt: mockNextAttempt,
+      } as unknown as WebhookQueueMessage
       MockWebhookQueueMessage.fromSubmissionId.mockReturnValueOnce(
         ok(mockQueueMessage),
       )
@@ -470,8 +541,345 @@ describe('webhook.service', () => {
       expect(result._unsafeUnwrap()).toBe(true)
       expect(MockWebhookQueueMessage.fromSubmissionId).toHaveBeenCalledWith(
         String(testSubmission._id),
+        undefined,
+        undefined,
+      )
+      expect(EncryptSubmissionModel.addWebhookResponse).toHaveBeenCalledWith(
+        testSubmission._id,
+        expect.objectContaining({ nextAttemptAt: new Date(mockNextAttempt) }),
       )
       expect(MOCK_PRODUCER.sendMessage).toHaveBeenCalledWith(mockQueueMessage)
     })
   })
+  describe('createWebhookRedeliverer', () => {
+    const MOCK_FORM = {
+      _id: new ObjectId(),
+      webhook: { url: MOCK_WEBHOOK_URL, isRetryEnabled: false },
+    } as unknown as IPopulatedForm
+    const MOCK_REDELIVERY_MESSAGE =
+      'mockRedeliveryMessage' as unknown as WebhookQueueMessage
+    const generateMockProducer = () =>
+      ({
+        sendMessage: jest.fn().mockReturnValue(okAsync(true)),
+      } as unknown as WebhookProducer)
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      MockWebhookQueueMessage.forRedelivery.mockReturnValue(
+        MOCK_REDELIVERY_MESSAGE,
+      )
+    })
+
+    it('should queue the webhook of the submission for redelivery', async () => {
+      jest
+        .spyOn(EncryptSubmissionModel, 'exists')
+        .mockImplementationOnce(() => Promise.resolve(true))
+      const MOCK_PRODUCER = generateMockProducer()
+
+      const result = await WebhookService.createWebhookRedeliverer(
+        MOCK_PRODUCER,
+      )(MOCK_FORM, MOCK_SUBMISSION_ID)
+
+      expect(result._unsafeUnwrap()).toBe(true)
+      expect(EncryptSubmissionModel.exists).toHaveBeenCalledWith({
+        _id: MOCK_SUBMISSION_ID,
+        form: MOCK_FORM._id,
+      })
+      expect(MockWebhookQueueMessage.forRedelivery).toHaveBeenCalledWith(
+        MOCK_SUBMISSION_ID,
+        undefined,
+      )
+      expect(MOCK_PRODUCER.sendMessage).toHaveBeenCalledWith(
+        MOCK_REDELIVERY_MESSAGE,
+      )
+    })
+
+    it('should return WebhookRedeliveryUnavailableError when there is no producer', async () => {
+      const result = await WebhookService.createWebhookRedeliverer()(
+        MOCK_FORM,
+        MOCK_SUBMISSION_ID,
+      )
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        WebhookRedeliveryUnavailableError,
+      )
+    })
+
+    it('should return WebhookNotConfiguredError when form has no webhook URL', async () => {
+      const MOCK_PRODUCER = generateMockProducer()
+
+      const result = await WebhookService.createWebhookRedeliverer(
+        MOCK_PRODUCER,
+      )(
+        { ...MOCK_FORM, webhook: { url: '', isRetryEnabled: false } },
+        MOCK_SUBMISSION_ID,
+      )
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        WebhookNotConfiguredError,
+      )
+      expect(MOCK_PRODUCER.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should return WebhookNotConfiguredError when form does not have the endpoint', async () => {
+      const MOCK_PRODUCER = generateMockProducer()
+
+      const result = await WebhookService.createWebhookRedeliverer(
+        MOCK_PRODUCER,
+      )(MOCK_FORM, MOCK_SUBMISSION_ID, new ObjectId().toHexString())
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        WebhookNotConfiguredError,
+      )
+      expect(MOCK_PRODUCER.sendMessage).not.toHaveBeenCalled()
+    })
+
+    it('should return SubmissionNotFoundError when submission does not belong to form', async () => {
+      jest
+        .spyOn(EncryptSubmissionModel, 'exists')
+        .mockImplementationOnce(() => Promise.resolve(false))
+      const MOCK_PRODUCER = generateMockProducer()
+
+      const result = await WebhookService.createWebhookRedeliverer(
+        MOCK_PRODUCER,
+      )(MOCK_FORM, MOCK_SUBMISSION_ID)
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(SubmissionNotFoundError)
+      expect(MOCK_PRODUCER.sendMessage).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createFailedWebhooksRedeliverer', () => {
+    const MOCK_FORM = {
+      _id: new ObjectId(),
+      webhook: { url: MOCK_WEBHOOK_URL, isRetryEnabled: true },
+    } as unknown as IPopulatedForm
+    const MOCK_SINCE = new Date(Date.now() - 24 * 60 * 60 * 1000)
+    const generateMockAttempt = (status: number, nextAttemptAt?: Date) => ({
+      webhookUrl: MOCK_WEBHOOK_URL,
+      response: { status },
+      nextAttemptAt,
+      created: new Date(),
+    })
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      MockWebhookQueueMessage.forRedelivery.mockImplementation(
+        (submissionId) => submissionId as unknown as WebhookQueueMessage,
+      )
+    })
+
+    it('should queue failed webhooks which are not pending retry for redelivery', async () => {
+      const failedId = new ObjectId()
+      const pendingId = new ObjectId()
+      jest
+        .spyOn(EncryptSubmissionModel, 'findWebhookResponsesByFormId')
+        .mockResolvedValueOnce([
+          {
+            _id: failedId,
+            created: new Date(),
+            webhookResponses: [generateMockAttempt(500)],
+          },
+          {
+            _id: pendingId,
+            created: new Date(),
+            webhookResponses: [
+              generateMockAttempt(500, new Date(Date.now() + 60 * 1000)),
+            ],
+          },
+        ])
+      const MOCK_PRODUCER = {
+        sendMessage: jest.fn().mockReturnValue(okAsync(true)),
+      } as unknown as WebhookProducer
+
+      const result = await WebhookService.createFailedWebhooksRedeliverer(
+        MOCK_PRODUCER,
+      )(MOCK_FORM, MOCK_SINCE)
+
+      expect(result._unsafeUnwrap()).toBe(1)
+      expect(
+        EncryptSubmissionModel.findWebhookResponsesByFormId,
+      ).toHaveBeenCalledWith(String(MOCK_FORM._id), {
+        since: MOCK_SINCE,
+        hasFailedAttempt: true,
+        limit: MAX_WEBHOOK_REDELIVERIES,
+      })
+      expect(MOCK_PRODUCER.sendMessage).toHaveBeenCalledTimes(1)
+      expect(MOCK_PRODUCER.sendMessage).toHaveBeenCalledWith(
+        failedId.toHexString(),
+      )
+    })
+
+    it('should only redeliver to the endpoints which failed', async () => {
+      const submissionId = new ObjectId()
+      const endpointId = new ObjectId().toHexString()
+      const removedEndpointId = new ObjectId().toHexString()
+      jest
+        .spyOn(EncryptSubmissionModel, 'findWebhookResponsesByFormId')
+        .mockResolvedValueOnce([
+          {
+            _id: submissionId,
+            created: new Date(),
+            webhookResponses: [
+              generateMockAttempt(200),
+              { ...generateMockAttempt(500), endpointId },
+              { ...generateMockAttempt(500), endpointId: removedEndpointId },
+            ],
+          },
+        ])
+      const MOCK_PRODUCER = {
+        sendMessage: jest.fn().mockReturnValue(okAsync(true)),
+      } as unknown as WebhookProducer
+
+      const result = await WebhookService.createFailedWebhooksRedeliverer(
+        MOCK_PRODUCER,
+      )(
+        {
+          ...MOCK_FORM,
+          webhook: {
+            ...MOCK_FORM.webhook,
+            additionalEndpoints: [
+              { _id: endpointId, url: MOCK_WEBHOOK_URL, isRetryEnabled: true },
+            ],
+          },
+        } as IPopulatedForm,
+        MOCK_SINCE,
+      )
+
+      expect(result._unsafeUnwrap()).toBe(1)
+      expect(MockWebhookQueueMessage.forRedelivery).toHaveBeenCalledTimes(1)
+      expect(MockWebhookQueueMessage.forRedelivery).toHaveBeenCalledWith(
+        submissionId.toHexString(),
+        endpointId,
+      )
+    })
+
+    it('should return WebhookRedeliveryUnavailableError when there is no producer', async () => {
+      const result = await WebhookService.createFailedWebhooksRedeliverer()(
+        MOCK_FORM,
+        MOCK_SINCE,
+      )
+
+      expect(result._unsafeUnwrapErr()).toBeInstanceOf(
+        WebhookRedeliveryUnavailableError,
+      )
+    })
+  })
+
+  describe('notifyIfWebhookFailingContinuously', () => {
+    const MOCK_FORM_ID = new ObjectId().toHexString()
+    const MOCK_FORM = { _id: MOCK_FORM_ID } as unknown as IPopulatedForm
+    const generateMockSubmissions = (statuses: number[]) =>
+      statuses.map((status) => ({
+        _id: new ObjectId(),
+        created: new Date(),
+        webhookResponses: [
+          {
+            webhookUrl: MOCK_WEBHOOK_URL,
+            response: { status },
+            created: new Date(),
+          },
+        ],
+      }))
+
+    beforeEach(() => {
+      jest.clearAllMocks()
+      jest
+        .spyOn(FormModel, 'claimWebhookFailureNotification')
+        .mockResolvedValue(true)
+      jest
+        .spyOn(FormService, 'retrieveFullFormById')
+        .mockReturnValue(okAsync(MOCK_FORM))
+      jest
+        .spyOn(MailService, 'sendWebhookFailureNotification')
+        .mockReturnValue(okAsync(true))
+    })
+
+    it('should notify when the latest webhooks to the endpoint have all failed', async () => {
+      jest
+        .spyOn(EncryptSubmissionModel, 'findWebhookResponsesByFormId')
+        .mockResolvedValueOnce(
+          generateMockSubmissions(
+            Array(WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD).fill(500),
+          ),
+        )
+
+      const result = await WebhookService.notifyIfWebhookFailingContinuously(
+        MOCK_FORM_ID,
+        MOCK_WEBHOOK_URL,
+      )
+
+      expect(result._unsafeUnwrap()).toBe(true)
+      expect(FormModel.claimWebhookFailureNotification).toHaveBeenCalledWith(
+        MOCK_FORM_ID,
+        expect.any(Date),
+      )
+      expect(MailService.sendWebhookFailureNotification).toHaveBeenCalledWith({
+        form: MOCK_FORM,
+        webhookUrl: MOCK_WEBHOOK_URL,
+        failureCount: WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD,
+      })
+    })
+
+    it('should not notify when one of the latest webhooks succeeded', async () => {
+      jest
+        .spyOn(EncryptSubmissionModel, 'findWebhookResponsesByFormId')
+        .mockResolvedValueOnce(
+          generateMockSubmissions([
+            ...Array(WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD - 1).fill(500),
+            200,
+          ]),
+        )
+
+      const result = await WebhookService.notifyIfWebhookFailingContinuously(
+        MOCK_FORM_ID,
+        MOCK_WEBHOOK_URL,
+      )
+
+      expect(result._unsafeUnwrap()).toBe(false)
+      expect(FormModel.claimWebhookFailureNotification).not.toHaveBeenCalled()
+      expect(MailService.sendWebhookFailureNotification).not.toHaveBeenCalled()
+    })
+
+    it('should not notify again when admin has been notified recently', async () => {
+      jest
+        .spyOn(EncryptSubmissionModel, 'findWebhookResponsesByFormId')
+        .mockResolvedValueOnce(
+          generateMockSubmissions(
+            Array(WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD).fill(500),
+          ),
+        )
+      jest
+        .spyOn(FormModel, 'claimWebhookFailureNotification')
+        .mockResolvedValueOnce(false)
+
+      const result = await WebhookService.notifyIfWebhookFailingContinuously(
+        MOCK_FORM_ID,
+        MOCK_WEBHOOK_URL,
+      )
+
+      expect(result._unsafeUnwrap()).toBe(false)
+      expect(MailService.sendWebhookFailureNotification).not.toHaveBeenCalled()
+    })
+
+    it('should return false when notification fails to be sent', async () => {
+      jest
+        .spyOn(EncryptSubmissionModel, 'findWebhookResponsesByFormId')
+        .mockResolvedValueOnce(
+          generateMockSubmissions(
+            Array(WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD).fill(500),
+          ),
+        )
+      jest
+        .spyOn(MailService, 'sendWebhookFailureNotification')
+        .mockReturnValueOnce(errAsync(new MailSendError()))
+
+      const result = await WebhookService.notifyIfWebhookFailingContinuously(
+        MOCK_FORM_ID,
+        MOCK_WEBHOOK_URL,
+      )
+
+      expect(result._unsafeUnwrap()).toBe(false)
+    })
+  })
 })
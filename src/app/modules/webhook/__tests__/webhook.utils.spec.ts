@@ -1,11 +1,32 @@
-import { addHours, addMinutes } from 'date-fns'
+import { ObjectId } from 'bson'
+import { createHmac } from 'crypto'
+import { addHours, addMinutes, subHours } from 'date-fns'
 import { last } from 'lodash'
 
 import { randomUniformInt } from 'src/app/utils/random-uniform'
+import { WebhookEventView, WebhookView } from 'src/types'
 
-import { MAX_DELAY_SECONDS, RETRY_INTERVALS } from '../webhook.constants'
+import {
+  WebhookDeliveryStatus,
+  WebhookRetryProfile,
+} from '../../../../../shared/types'
+import {
+  MAX_CUSTOM_RETRY_WAIT_SECONDS,
+  MAX_DELAY_SECONDS,
+  RETRY_INTERVALS,
+  RETRY_PROFILE_INTERVALS,
+} from '../webhook.constants'
 import { WebhookNoMoreRetriesError } from '../webhook.errors'
-import { calculateDelaySeconds, getNextAttempt } from '../webhook.utils'
+import {
+  calculateDelaySeconds,
+  constructHmacSignatureHeader,
+  getNextAttempt,
+  getRetryIntervals,
+  getWebhookDeliveryStatus,
+  getWebhookTargets,
+  isWebhookEventView,
+  toWebhookDeliveryDtos,
+} from '../webhook.utils'
 
 jest.mock('src/app/utils/random-uniform')
 const MockRandomUniformInt = jest.mocked(randomUniformInt)
@@ -43,6 +64,63 @@ describe('webhook.utils', () => {
       // from MOCK_NOW
       expect(result._unsafeUnwrap()).toBe(MOCK_NOW + MOCK_RANDOM_INT * 1000)
     })
+
+    it('should use the retry intervals of the given retry policy', () => {
+      const retryPolicy = {
+        profile: WebhookRetryProfile.Custom,
+        maxRetries: 2,
+        backoffMinutes: 10,
+      }
+
+      const nextResult = getNextAttempt([MOCK_NOW, MOCK_NOW], retryPolicy)
+      const exhaustedResult = getNextAttempt(
+        [MOCK_NOW, MOCK_NOW, MOCK_NOW],
+        retryPolicy,
+      )
+
+      // Second retry waits 10 + 20 minutes from the initial attempt
+      expect(MockRandomUniformInt).toHaveBeenCalledWith(1800 - 180, 1800 + 180)
+      expect(nextResult._unsafeUnwrap()).toBe(MOCK_NOW + MOCK_RANDOM_INT * 1000)
+      expect(exhaustedResult._unsafeUnwrapErr()).toEqual(
+        new WebhookNoMoreRetriesError(),
+      )
+    })
+  })
+
+  describe('getRetryIntervals', () => {
+    it('should return the standard retry intervals when there is no retry policy', () => {
+      expect(getRetryIntervals(undefined)).toEqual(RETRY_INTERVALS)
+    })
+
+    it('should return the retry intervals of preset profiles', () => {
+      expect(
+        getRetryIntervals({ profile: WebhookRetryProfile.LongTail }),
+      ).toEqual(RETRY_PROFILE_INTERVALS[WebhookRetryProfile.LongTail])
+    })
+
+    it('should double the wait before each retry of custom policies', () => {
+      const result = getRetryIntervals({
+        profile: WebhookRetryProfile.Custom,
+        maxRetries: 3,
+        backoffMinutes: 1,
+      })
+
+      expect(result).toEqual([
+        { base: 60, jitter: 6 },
+        { base: 180, jitter: 18 },
+        { base: 420, jitter: 42 },
+      ])
+    })
+
+    it('should cap the wait of custom policies', () => {
+      const result = getRetryIntervals({
+        profile: WebhookRetryProfile.Custom,
+        maxRetries: 10,
+        backoffMinutes: 60,
+      })
+
+      expect(last(result)!.base).toBe(MAX_CUSTOM_RETRY_WAIT_SECONDS)
+    })
   })
 
   describe('calculateDelaySeconds', () => {
@@ -67,4 +145,204 @@ describe('webhook.utils', () => {
       expect(result).toBe(minutesInFuture * 60)
     })
   })
+
+  describe('getWebhookDeliveryStatus', () => {
+    const MOCK_ATTEMPT = {
+      webhookUrl: 'https://form.gov.sg/endpoint',
+      response: { status: 500 },
+      created: new Date(MOCK_NOW),
+    }
+
+    it('should return Success when latest attempt succeeded', () => {
+      const result = getWebhookDeliveryStatus({
+        ...MOCK_ATTEMPT,
+        response: { status: 201 },
+      })
+
+      expect(result).toBe(WebhookDeliveryStatus.Success)
+    })
+
+    it('should return PendingRetry when latest attempt failed and retry is scheduled', () => {
+      const result = getWebhookDeliveryStatus({
+        ...MOCK_ATTEMPT,
+        nextAttemptAt: addMinutes(MOCK_NOW, 5),
+      })
+
+      expect(result).toBe(WebhookDeliveryStatus.PendingRetry)
+    })
+
+    it('should return Failed when latest attempt failed and no retry is scheduled', () => {
+      const result = getWebhookDeliveryStatus(MOCK_ATTEMPT)
+
+      expect(result).toBe(WebhookDeliveryStatus.Failed)
+    })
+
+    it('should return Failed when scheduled retry is long overdue', () => {
+      const result = getWebhookDeliveryStatus({
+        ...MOCK_ATTEMPT,
+        nextAttemptAt: subHours(MOCK_NOW, 1),
+      })
+
+      expect(result).toBe(WebhookDeliveryStatus.Failed)
+    })
+  })
+
+  describe('getWebhookTargets', () => {
+    it('should return no targets when webhook is not configured', () => {
+      expect(getWebhookTargets(undefined)).toEqual([])
+      expect(getWebhookTargets({ url: '', isRetryEnabled: true })).toEqual([])
+    })
+
+    it('should return the primary webhook URL followed by additional endpoints', () => {
+      const endpointId = new ObjectId().toHexString()
+      const headers = [{ name: 'Authorization', value: 'Bearer token' }]
+
+      const result = getWebhookTargets({
+        url: 'https://form.gov.sg/primary',
+        isRetryEnabled: true,
+        hmacSecret: '',
+        additionalEndpoints: [
+          {
+            _id: endpointId,
+            url: 'https://form.gov.sg/additional',
+            isRetryEnabled: false,
+            hmacSecret: 'secret',
+            headers,
+          },
+        ],
+      })
+
+      expect(result).toEqual([
+        {
+          webhookUrl: 'https://form.gov.sg/primary',
+          isRetryEnabled: true,
+        },
+        {
+          webhookUrl: 'https://form.gov.sg/additional',
+          isRetryEnabled: false,
+          endpointId,
+          hmacSecret: 'secret',
+          headers,
+        },
+      ])
+    })
+  })
+
+  describe('isWebhookEventView', () => {
+    it('should return true for the webhook view of an event', () => {
+      const view = {
+        data: { eventId: new ObjectId().toHexString() },
+      } as WebhookEventView
+
+      expect(isWebhookEventView(view)).toBe(true)
+    })
+
+    it('should return false for the webhook view of a submission', () => {
+      const view = {
+        data: { submissionId: new ObjectId().toHexString() },
+      } as WebhookView
+
+      expect(isWebhookEventView(view)).toBe(false)
+    })
+  })
+
+  describe('constructHmacSignatureHeader', () => {
+    it('should sign the epoch and body with HMAC-SHA256', () => {
+      const result = constructHmacSignatureHeader(
+        'secret',
+        1700000000000,
+        '{"data":{}}',
+      )
+
+      expect(result).toBe(
+        `t=1700000000000,v1=${createHmac('sha256', 'secret')
+          .update('1700000000000.{"data":{}}')
+          .digest('hex')}`,
+      )
+    })
+  })
+
+  describe('toWebhookDeliveryDtos', () => {
+    it('should summarise webhook attempts using the latest attempt', () => {
+      const submissionId = new ObjectId()
+      const submissionTime = subHours(MOCK_NOW, 2)
+      const nextAttemptAt = addMinutes(MOCK_NOW, 30)
+
+      const result = toWebhookDeliveryDtos({
+        _id: submissionId,
+        created: submissionTime,
+        webhookResponses: [
+          {
+            webhookUrl: 'https://old.gov.sg/endpoint',
+            response: { status: 0 },
+            created: submissionTime,
+          },
+          {
+            webhookUrl: 'https://form.gov.sg/endpoint',
+            response: { status: 502 },
+            latencyMs: 1234,
+            nextAttemptAt,
+            created: new Date(MOCK_NOW),
+          },
+        ],
+      })
+
+      expect(result).toEqual([
+        {
+          submissionId: submissionId.toHexString(),
+          submissionTime: submissionTime.toISOString(),
+          webhookUrl: 'https://form.gov.sg/endpoint',
+          status: WebhookDeliveryStatus.PendingRetry,
+          responseStatus: 502,
+          latencyMs: 1234,
+          attemptCount: 2,
+          lastAttemptAt: new Date(MOCK_NOW).toISOString(),
+          nextAttemptAt: nextAttemptAt.toISOString(),
+        },
+      ])
+    })
+
+    it('should summarise attempts to each endpoint separately', () => {
+      const submissionId = new ObjectId()
+      const endpointId = new ObjectId().toHexString()
+
+      const result = toWebhookDeliveryDtos({
+        _id: submissionId,
+        created: new Date(MOCK_NOW),
+        webhookResponses: [
+          {
+            webhookUrl: 'https://form.gov.sg/primary',
+            response: { status: 200 },
+            created: new Date(MOCK_NOW),
+          },
+          {
+            webhookUrl: 'https://form.gov.sg/additional',
+            endpointId,
+            response: { status: 500 },
+            created: new Date(MOCK_NOW),
+          },
+          {
+            webhookUrl: 'https://form.gov.sg/additional',
+            endpointId,
+            response: { status: 500 },
+            created: new Date(MOCK_NOW),
+          },
+        ],
+      })
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          webhookUrl: 'https://form.gov.sg/primary',
+          status: WebhookDeliveryStatus.Success,
+          attemptCount: 1,
+        }),
+        expect.objectContaining({
+          webhookUrl: 'https://form.gov.sg/additional',
+          endpointId,
+          status: WebhookDeliveryStatus.Failed,
+          attemptCount: 2,
+        }),
+      ])
+    })
+  })
 })
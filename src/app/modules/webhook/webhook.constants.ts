@@ -1,3 +1,4 @@
+import { WebhookRetryProfile } from '../../../../shared/types'
 import config from '../../config/config'
 
 import { RetryInterval } from './webhook.types'
@@ -11,8 +12,14 @@ export const QUEUE_MESSAGE_VERSION = 0
 const hours = (h: number) => h * 60 * 60
 const minutes = (m: number) => m * 60
 
+const DEV_RETRY_INTERVALS: RetryInterval[] = [
+  { base: 10, jitter: 5 },
+  { base: 20, jitter: 5 },
+  { base: 30, jitter: 5 },
+]
+
 /**
- * Encodes retry policy.
+ * Encodes the standard retry policy.
  * Element 0 is time to wait + jitter before
  * retrying the first time, element 1 is time to wait
  * to wait + jitter before 2nd time, etc.
@@ -25,11 +32,7 @@ const minutes = (m: number) => m * 60
  * the submission.
  */
 export const RETRY_INTERVALS: RetryInterval[] = config.isDev
-  ? [
-      { base: 10, jitter: 5 },
-      { base: 20, jitter: 5 },
-      { base: 30, jitter: 5 },
-    ]
+  ? DEV_RETRY_INTERVALS
   : [
       { base: minutes(5), jitter: minutes(1) },
       { base: hours(1), jitter: minutes(15) },
@@ -39,6 +42,40 @@ export const RETRY_INTERVALS: RetryInterval[] = config.isDev
       { base: hours(20), jitter: hours(4) },
     ]
 
+/**
+ * Retry intervals of the preset retry profiles which admins can choose from,
+ * in the same format as RETRY_INTERVALS.
+ */
+export const RETRY_PROFILE_INTERVALS: Record<
+  Exclude<WebhookRetryProfile, WebhookRetryProfile.Custom>,
+  RetryInterval[]
+> = {
+  [WebhookRetryProfile.Aggressive]: config.isDev
+    ? DEV_RETRY_INTERVALS
+    : [
+        { base: minutes(1), jitter: 10 },
+        { base: minutes(5), jitter: minutes(1) },
+        { base: minutes(15), jitter: minutes(3) },
+        { base: minutes(30), jitter: minutes(5) },
+        { base: hours(1), jitter: minutes(10) },
+      ],
+  [WebhookRetryProfile.Standard]: RETRY_INTERVALS,
+  [WebhookRetryProfile.LongTail]: config.isDev
+    ? DEV_RETRY_INTERVALS
+    : [
+        ...RETRY_INTERVALS,
+        { base: hours(36), jitter: hours(4) },
+        { base: hours(48), jitter: hours(4) },
+        { base: hours(72), jitter: hours(4) },
+      ],
+}
+
+/**
+ * Maximum time from the submission to the last retry of custom retry
+ * policies, which must be within the retention period of the queue.
+ */
+export const MAX_CUSTOM_RETRY_WAIT_SECONDS = hours(72)
+
 /**
  * Max possible delay for a message, as specified by AWS.
  */
@@ -58,3 +95,38 @@ export const DUE_TIME_TOLERANCE_SECONDS = minutes(1)
  *
  */
 export const WEBHOOK_MAX_CONTENT_LENGTH = 1000000
+
+/**
+ * Maximum number of webhook deliveries which can be listed at once.
+ */
+export const MAX_WEBHOOK_DELIVERIES_LIMIT = 100
+
+/**
+ * Maximum number of failed webhooks which can be redelivered at once.
+ */
+export const MAX_WEBHOOK_REDELIVERIES = 100
+
+/**
+ * Time after which a scheduled retry is considered to have been dropped if no
+ * further attempt has been recorded. Messages are requeued with at most
+ * MAX_DELAY_SECONDS of delay, and sent within DUE_TIME_TOLERANCE_SECONDS of
+ * their next attempt.
+ */
+export const PENDING_RETRY_GRACE_SECONDS =
+  MAX_DELAY_SECONDS + DUE_TIME_TOLERANCE_SECONDS
+
+/**
+ * Number of consecutive failed deliveries to an endpoint after which the admin
+ * and collaborators of the form are notified.
+ */
+export const WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD = 5
+
+/**
+ * Minimum time between notifications of failing webhooks for a form.
+ */
+export const WEBHOOK_FAILURE_NOTIFICATION_INTERVAL_SECONDS = hours(24)
+
+/**
+ * Number of latest submissions checked for consecutive failed deliveries.
+ */
+export const WEBHOOK_FAILURE_LOOKBACK_LIMIT = 50
@@ -4,7 +4,7 @@ import mongoose from 'mongoose'
 import { errAsync, okAsync, ResultAsync } from 'neverthrow'
 import { Consumer } from 'sqs-consumer'
 
-import { SubmissionWebhookInfo } from '../../../types'
+import { SubmissionWebhookInfo, WebhookEventInfo } from '../../../types'
 import config from '../../config/config'
 import { createLoggerWithLabel, CustomLoggerParams } from '../../config/logger'
 import { getEncryptSubmissionModel } from '../../models/submission.server.model'
@@ -13,13 +13,15 @@ import { PossibleDatabaseError } from '../core/core.errors'
 import { SubmissionNotFoundError } from '../submission/submission.errors'
 
 import {
+  WebhookEventNotFoundError,
   WebhookNoMoreRetriesError,
   WebhookRetriesNotEnabledError,
 } from './webhook.errors'
+import * as WebhookEventService from './webhook.event.service'
 import { WebhookQueueMessage } from './webhook.message'
 import { WebhookProducer } from './webhook.producer'
 import * as WebhookService from './webhook.service'
-import { isSuccessfulResponse } from './webhook.utils'
+import { addNextAttempt, isSuccessfulResponse } from './webhook.utils'
 
 const logger = createLoggerWithLabel(module)
 const EncryptSubmission = getEncryptSubmissionModel(mongoose)
@@ -148,38 +150,85 @@ export const createWebhookQueueHandler =
 
     // If due, send webhook
     // First, retrieve webhook view and URL from database
-    const retryResult = await retrieveWebhookInfo(
-      webhookMessage.submissionId,
-    ).andThen((webhookInfo) => {
-      const { webhookUrl, isRetryEnabled } = webhookInfo
+    const { submissionId, eventId } = webhookMessage
+    const webhookInfoResult: ResultAsync<
+      SubmissionWebhookInfo | WebhookEventInfo,
+      | SubmissionNotFoundError
+      | WebhookEventNotFoundError
+      | PossibleDatabaseError
+    > = eventId
+      ? WebhookEventService.retrieveWebhookEventInfo(
+          eventId,
+          webhookMessage.endpointId,
+        )
+      : submissionId
+      ? retrieveWebhookInfo(submissionId, webhookMessage.endpointId)
+      : errAsync(new SubmissionNotFoundError())
+    const retryResult = await webhookInfoResult.andThen((webhookInfo) => {
+      const {
+        webhookUrl,
+        isRetryEnabled,
+        endpointId,
+        hmacSecret,
+        headers,
+        retryPolicy,
+      } = webhookInfo
       logMeta = {
         ...logMeta,
         formId: webhookInfo.webhookView.data.formId,
       }
-      // Webhook URL was deleted or retries disabled
-      if (!webhookUrl || !isRetryEnabled)
+      // Webhook URL or endpoint was deleted or retries disabled. Redeliveries requested by
+      // admins are still sent if retries are disabled.
+      if (!webhookUrl || (!isRetryEnabled && !webhookMessage.isRedelivery))
         return errAsync(
           new WebhookRetriesNotEnabledError(webhookUrl, isRetryEnabled),
         )
 
       // Attempt webhook
-      return WebhookService.sendWebhook(
-        webhookInfo.webhookView,
-        webhookUrl,
-      ).andThen((webhookResponse) => {
-        // Save webhook response to database, but carry on even if it fails
-        void WebhookService.saveWebhookRecord(
-          webhookMessage.submissionId,
+      return WebhookService.sendWebhook(webhookInfo.webhookView, webhookUrl, {
+        endpointId,
+        hmacSecret,
+        headers,
+      }).andThen((webhookResponse) => {
+        // Webhook was successful or cannot be retried, no requeue required
+        const nextMessageResult =
+          isSuccessfulResponse(webhookResponse) || !isRetryEnabled
+            ? undefined
+            : webhookMessage.incrementAttempts(retryPolicy)
+        const hasFailedForGood =
+          !isSuccessfulResponse(webhookResponse) &&
+          (!nextMessageResult || nextMessageResult.isErr())
+
+        const record = addNextAttempt(
           webhookResponse,
+          nextMessageResult?.unwrapOr(undefined)?.nextAttempt,
+        )
+        const saveRecordResult: ResultAsync<
+          unknown,
+          | PossibleDatabaseError
+          | SubmissionNotFoundError
+          | WebhookEventNotFoundError
+        > = eventId
+          ? WebhookEventService.saveWebhookEventRecord(eventId, record)
+          : WebhookService.saveWebhookRecord(submissionId, record)
+        // Save webhook response to database, but carry on even if it fails.
+        // Admins are only notified of failing submission webhooks.
+        void saveRecordResult.andThen(() =>
+          hasFailedForGood && !eventId
+            ? WebhookService.notifyIfWebhookFailingContinuously(
+                webhookInfo.webhookView.data.formId,
+                webhookUrl,
+                endpointId,
+              )
+            : okAsync(false),
         )
 
-        // Webhook was successful, no further action required
-        if (isSuccessfulResponse(webhookResponse)) return okAsync(true)
+        if (!nextMessageResult) return okAsync(true)
 
         // Requeue webhook for subsequent retry
-        return webhookMessage
-          .incrementAttempts()
-          .asyncAndThen((newMessage) => producer.sendMessage(newMessage))
+        return nextMessageResult.asyncAndThen((newMessage) =>
+          producer.sendMessage(newMessage),
+        )
       })
     })
 
@@ -220,23 +269,26 @@ export const createWebhookQueueHandler =
 /**
  * Retrieves all relevant information to send webhook for a given submission.
  * @param submissionId
+ * @param endpointId additional endpoint to send to, if not the primary webhook URL
  * @returns ok(webhook information) if database retrieval succeeds
  * @returns err if submission ID does not exist or database retrieval errors
  */
 const retrieveWebhookInfo = (
   submissionId: string,
+  endpointId?: string,
 ): ResultAsync<
   SubmissionWebhookInfo,
   SubmissionNotFoundError | PossibleDatabaseError
 > => {
   return ResultAsync.fromPromise(
-    EncryptSubmission.retrieveWebhookInfoById(submissionId),
+    EncryptSubmission.retrieveWebhookInfoById(submissionId, endpointId),
     (error) => {
       logger.error({
         message: 'Error while retrieving webhook info for submission',
         meta: {
           action: 'retrieveWebhookInfo',
           submissionId,
+          endpointId,
         },
         error,
       })
@@ -111,3 +111,32 @@ export class WebhookRetriesNotEnabledError extends ApplicationError {
     }
   }
 }
+
+/**
+ * Cannot redeliver webhooks as no webhook queue is configured.
+ */
+export class WebhookRedeliveryUnavailableError extends ApplicationError {
+  constructor(
+    message = 'Webhook redelivery is unavailable as the webhook queue is not configured',
+  ) {
+    super(message)
+  }
+}
+
+/**
+ * Cannot send webhook as form has no webhook URL.
+ */
+export class WebhookNotConfiguredError extends ApplicationError {
+  constructor(message = 'Form does not have a webhook URL') {
+    super(message)
+  }
+}
+
+/**
+ * Webhook event to send cannot be found, e.g. as it has expired.
+ */
+export class WebhookEventNotFoundError extends ApplicationError {
+  constructor(message = 'Webhook event not found') {
+    super(message)
+  }
+}
@@ -0,0 +1,208 @@
+import mongoose from 'mongoose'
+import { errAsync, okAsync, ResultAsync } from 'neverthrow'
+
+import {
+  FormWebhook,
+  WebhookEventPayloads,
+  WebhookEventType,
+  WebhookResponse,
+} from '../../../../shared/types'
+import {
+  IWebhookEventSchema,
+  WebhookEventInfo,
+  WebhookTarget,
+} from '../../../types'
+import { createLoggerWithLabel } from '../../config/logger'
+import getFormModel from '../../models/form.server.model'
+import getWebhookEventModel from '../../models/webhook_event.server.model'
+import { transformMongoError } from '../../utils/handle-mongo-error'
+import { PossibleDatabaseError } from '../core/core.errors'
+
+import { WebhookEventNotFoundError } from './webhook.errors'
+import { WebhookQueueMessage } from './webhook.message'
+import { WebhookProducer } from './webhook.producer'
+import * as WebhookService from './webhook.service'
+import {
+  addNextAttempt,
+  getWebhookTargets,
+  isSuccessfulResponse,
+} from './webhook.utils'
+
+const logger = createLoggerWithLabel(module)
+const FormModel = getFormModel(mongoose)
+const WebhookEventModel = getWebhookEventModel(mongoose)
+
+/**
+ * Updates the webhook event in the database with the webhook response.
+ * @param eventId the event to update
+ * @param record the webhook response to record
+ * @returns ok(updated event) if the update succeeds
+ * @returns err(WebhookEventNotFoundError) if the event does not exist
+ * @returns err(PossibleDatabaseError) if the update fails
+ */
+export const saveWebhookEventRecord = (
+  eventId: IWebhookEventSchema['_id'],
+  record: WebhookResponse,
+): ResultAsync<
+  IWebhookEventSchema,
+  PossibleDatabaseError | WebhookEventNotFoundError
+> => {
+  return ResultAsync.fromPromise(
+    WebhookEventModel.addWebhookResponse(eventId, record),
+    (error) => {
+      logger.error({
+        message: 'Database update for webhook event status failed',
+        meta: {
+          action: 'saveWebhookEventRecord',
+          eventId,
+          record,
+        },
+        error,
+      })
+      return transformMongoError(error)
+    },
+  ).andThen((updatedEvent) => {
+    if (!updatedEvent) return errAsync(new WebhookEventNotFoundError())
+    return okAsync(updatedEvent)
+  })
+}
+
+/**
+ * Retrieves all relevant information to send the webhook of an event.
+ * @param eventId the event to send
+ * @param endpointId additional endpoint to send to, if not the primary webhook URL
+ * @returns ok(webhook information) if database retrieval succeeds
+ * @returns err(WebhookEventNotFoundError) if the event does not exist
+ * @returns err(PossibleDatabaseError) if database retrieval errors
+ */
+export const retrieveWebhookEventInfo = (
+  eventId: string,
+  endpointId?: string,
+): ResultAsync<
+  WebhookEventInfo,
+  WebhookEventNotFoundError | PossibleDatabaseError
+> => {
+  return ResultAsync.fromPromise(
+    WebhookEventModel.retrieveWebhookInfoById(eventId, endpointId),
+    (error) => {
+      logger.error({
+        message: 'Error while retrieving webhook info for event',
+        meta: {
+          action: 'retrieveWebhookEventInfo',
+          eventId,
+          endpointId,
+        },
+        error,
+      })
+      return transformMongoError(error)
+    },
+  ).andThen((eventInfo) => {
+    if (!eventInfo) return errAsync(new WebhookEventNotFoundError())
+    return okAsync(eventInfo)
+  })
+}
+
+/**
+ * Sends the webhook of an event to a single endpoint and saves a record of
+ * it. If the webhook fails and retries are enabled, it is queued for retries.
+ */
+const sendWebhookEvent = (
+  event: IWebhookEventSchema,
+  { webhookUrl, isRetryEnabled, retryPolicy, ...sendOptions }: WebhookTarget,
+  producer?: WebhookProducer,
+) =>
+  WebhookService.sendWebhook(
+    event.getWebhookView(),
+    webhookUrl,
+    sendOptions,
+  ).andThen((webhookResponse) => {
+    // If webhook successful or retries not enabled, no retry is queued
+    const retryMessageResult =
+      isSuccessfulResponse(webhookResponse) || !producer || !isRetryEnabled
+        ? undefined
+        : WebhookQueueMessage.fromEventId(
+            String(event._id),
+            sendOptions.endpointId,
+            retryPolicy,
+          )
+
+    return saveWebhookEventRecord(
+      event._id,
+      addNextAttempt(
+        webhookResponse,
+        retryMessageResult?.unwrapOr(undefined)?.nextAttempt,
+      ),
+    ).andThen(() => {
+      if (!retryMessageResult || !producer) return okAsync(true as const)
+      return retryMessageResult.asyncAndThen((queueMessage) =>
+        producer.sendMessage(queueMessage),
+      )
+    })
+  })
+
+/**
+ * Creates a function which publishes an event of a form to the webhook
+ * endpoints of the form, if the form is subscribed to the event. The event
+ * is sent through the same signing and retry pipeline as submission webhooks.
+ * Events are published on a best-effort basis, so errors are logged rather
+ * than returned, and do not affect the action which caused the event.
+ * @returns function which publishes an event and returns whether it was sent
+ */
+export const createWebhookEventPublisher =
+  (producer?: WebhookProducer) =>
+  <T extends WebhookEventType>(
+    formId: string,
+    type: T,
+    payload: WebhookEventPayloads[T],
+  ): ResultAsync<boolean, never> => {
+    const logMeta = {
+      action: 'publishWebhookEvent',
+      formId,
+      type,
+    }
+
+    return ResultAsync.fromPromise(
+      FormModel.findById(formId)
+        .select('webhook')
+        .lean<{ webhook?: FormWebhook }>()
+        .exec(),
+      (error) => {
+        logger.error({
+          message: 'Error while retrieving webhook settings of form',
+          meta: logMeta,
+          error,
+        })
+        return transformMongoError(error)
+      },
+    )
+      .andThen((form) => {
+        const targets = form?.webhook?.events?.includes(type)
+          ? getWebhookTargets(form.webhook)
+          : []
+        if (!targets.length) return okAsync(false)
+
+        return ResultAsync.fromPromise(
+          WebhookEventModel.create({ form: formId, type, payload }),
+          (error) => {
+            logger.error({
+              message: 'Error while creating webhook event',
+              meta: logMeta,
+              error,
+            })
+            return transformMongoError(error)
+          },
+        ).andThen((event) =>
+          ResultAsync.combine(
+            targets.map((target) => sendWebhookEvent(event, target, producer)),
+          ).map(() => true),
+        )
+      })
+      .orElse((error) => {
+        logger.warn({
+          message: 'Failed to publish webhook event',
+          meta: logMeta,
+          error,
+        })
+        return okAsync(false)
+      })
+  }
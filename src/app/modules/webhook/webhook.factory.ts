@@ -1,6 +1,7 @@
 import { webhooksAndVerifiedContentConfig } from '../../config/features/webhook-verified-content.config'
 
 import { startWebhookConsumer } from './webhook.consumer'
+import * as WebhookEventService from './webhook.event.service'
 import { WebhookProducer } from './webhook.producer'
 import * as WebhookService from './webhook.service'
 
@@ -8,6 +9,13 @@ interface IWebhookFactory {
   sendInitialWebhook: ReturnType<
     typeof WebhookService.createInitialWebhookSender
   >
+  redeliverWebhook: ReturnType<typeof WebhookService.createWebhookRedeliverer>
+  redeliverFailedWebhooks: ReturnType<
+    typeof WebhookService.createFailedWebhooksRedeliverer
+  >
+  publishEvent: ReturnType<
+    typeof WebhookEventService.createWebhookEventPublisher
+  >
 }
 
 export const createWebhookFactory = (
@@ -20,6 +28,10 @@ export const createWebhookFactory = (
   }
   return {
     sendInitialWebhook: WebhookService.createInitialWebhookSender(producer),
+    redeliverWebhook: WebhookService.createWebhookRedeliverer(producer),
+    redeliverFailedWebhooks:
+      WebhookService.createFailedWebhooksRedeliverer(producer),
+    publishEvent: WebhookEventService.createWebhookEventPublisher(producer),
   }
 }
 
@@ -1,6 +1,7 @@
 import { differenceInSeconds } from 'date-fns'
 import { Result } from 'neverthrow'
 
+import { WebhookRetryPolicy } from '../../../../shared/types'
 import { createLoggerWithLabel } from '../../config/logger'
 
 import {
@@ -83,17 +84,57 @@ export class WebhookQueueMessage {
    * hence uses the current date as the time of the first
    * webhook attempt.
    * @param submissionId
+   * @param endpointId additional endpoint sent to, if not the primary webhook URL
+   * @param retryPolicy retry policy of the form, or undefined for the standard policy
    * @returns ok(encapsulated message) if retry policy exists
    * @returns err if the retry policy does not allow any retries
    */
   static fromSubmissionId(
     submissionId: string,
+    endpointId?: string,
+    retryPolicy?: WebhookRetryPolicy,
+  ): Result<WebhookQueueMessage, WebhookNoMoreRetriesError> {
+    return WebhookQueueMessage.fromInitialAttempt(
+      { submissionId, endpointId },
+      retryPolicy,
+    )
+  }
+
+  /**
+   * Initialises a webhook queue message for an event webhook which has not
+   * been retried as yet, in the same way as fromSubmissionId.
+   * @param eventId
+   * @param endpointId additional endpoint sent to, if not the primary webhook URL
+   * @param retryPolicy retry policy of the form, or undefined for the standard policy
+   * @returns ok(encapsulated message) if retry policy exists
+   * @returns err if the retry policy does not allow any retries
+   */
+  static fromEventId(
+    eventId: string,
+    endpointId?: string,
+    retryPolicy?: WebhookRetryPolicy,
+  ): Result<WebhookQueueMessage, WebhookNoMoreRetriesError> {
+    return WebhookQueueMessage.fromInitialAttempt(
+      { eventId, endpointId },
+      retryPolicy,
+    )
+  }
+
+  private static fromInitialAttempt(
+    target: Pick<
+      WebhookQueueMessageObject,
+      'submissionId' | 'eventId' | 'endpointId'
+    >,
+    retryPolicy?: WebhookRetryPolicy,
   ): Result<WebhookQueueMessage, WebhookNoMoreRetriesError> {
     const initialAttempt = Date.now()
-    return getNextAttempt(/* previousAttempts =*/ [initialAttempt]).map(
+    return getNextAttempt(
+      /* previousAttempts =*/ [initialAttempt],
+      retryPolicy,
+    ).map(
       (nextAttempt) =>
         new WebhookQueueMessage({
-          submissionId,
+          ...target,
           previousAttempts: [initialAttempt],
           nextAttempt,
           _v: QUEUE_MESSAGE_VERSION,
@@ -101,6 +142,28 @@ export class WebhookQueueMessage {
     )
   }
 
+  /**
+   * Initialises a webhook queue message for an admin-initiated redelivery,
+   * which is due immediately. If the redelivery fails and retries are enabled
+   * for the form, it is retried as though it were the initial webhook.
+   * @param submissionId
+   * @param endpointId additional endpoint to redeliver to, if not the primary webhook URL
+   * @returns encapsulated message
+   */
+  static forRedelivery(
+    submissionId: string,
+    endpointId?: string,
+  ): WebhookQueueMessage {
+    return new WebhookQueueMessage({
+      submissionId,
+      previousAttempts: [],
+      nextAttempt: Date.now(),
+      isRedelivery: true,
+      endpointId,
+      _v: QUEUE_MESSAGE_VERSION,
+    })
+  }
+
   /**
    * Serialises for enqueueing.
    * @returns Serialised message
@@ -128,20 +191,25 @@ export class WebhookQueueMessage {
    * next attempt.
    * This function should only be called on a message for which the webhook has just
    * been attempted and failed.
+   * @param retryPolicy current retry policy of the form, or undefined for the standard policy
    * @returns ok(WebhookQueueMessage) if message can still be retried
    * @returns err(WebhookNoMoreRetriesError) if max retries have been exceeded
    */
-  incrementAttempts(): Result<WebhookQueueMessage, WebhookNoMoreRetriesError> {
+  incrementAttempts(
+    retryPolicy?: WebhookRetryPolicy,
+  ): Result<WebhookQueueMessage, WebhookNoMoreRetriesError> {
     const updatedPreviousAttempts = [
       ...this.message.previousAttempts,
       this.message.nextAttempt,
     ]
-    return getNextAttempt(updatedPreviousAttempts).map(
+    return getNextAttempt(updatedPreviousAttempts, retryPolicy).map(
       (nextAttempt) =>
         new WebhookQueueMessage({
           submissionId: this.message.submissionId,
+          eventId: this.message.eventId,
           previousAttempts: updatedPreviousAttempts,
           nextAttempt,
+          endpointId: this.message.endpointId,
           _v: QUEUE_MESSAGE_VERSION,
         }),
     )
@@ -154,10 +222,12 @@ export class WebhookQueueMessage {
   getRetriesFailedState(): WebhookFailedQueueMessage {
     return {
       submissionId: this.submissionId,
+      eventId: this.eventId,
       previousAttempts: [
         ...this.message.previousAttempts,
         this.nextAttempt,
       ].map(prettifyEpoch),
+      endpointId: this.endpointId,
       _v: this.message._v,
     }
   }
@@ -165,17 +235,38 @@ export class WebhookQueueMessage {
   prettify(): WebhookQueueMessagePrettified {
     return {
       submissionId: this.submissionId,
+      eventId: this.eventId,
       previousAttempts: this.message.previousAttempts.map(prettifyEpoch),
       nextAttempt: prettifyEpoch(this.nextAttempt),
+      endpointId: this.endpointId,
       _v: this.message._v,
     }
   }
 
-  get submissionId(): string {
+  get submissionId(): string | undefined {
     return this.message.submissionId
   }
 
+  get eventId(): string | undefined {
+    return this.message.eventId
+  }
+
+  /**
+   * Id of the submission or event which the webhook is for.
+   */
+  get id(): string {
+    return this.message.submissionId ?? this.message.eventId ?? ''
+  }
+
   get nextAttempt(): number {
     return this.message.nextAttempt
   }
+
+  get endpointId(): string | undefined {
+    return this.message.endpointId
+  }
+
+  get isRedelivery(): boolean {
+    return !!this.message.isRedelivery
+  }
 }
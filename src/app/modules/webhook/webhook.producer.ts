@@ -41,7 +41,7 @@ export class WebhookProducer {
       try {
         await this.producer.send({
           body: queueMessage.serialise(),
-          id: queueMessage.submissionId, // only needs to be unique within request
+          id: queueMessage.id, // only needs to be unique within request
           delaySeconds: calculateDelaySeconds(queueMessage.nextAttempt),
         })
         logger.info({
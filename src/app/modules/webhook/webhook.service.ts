@@ -2,38 +2,73 @@ import axios from 'axios'
 import Bluebird from 'bluebird'
 import { get } from 'lodash'
 import mongoose from 'mongoose'
-import { errAsync, okAsync, ResultAsync } from 'neverthrow'
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from 'neverthrow'
 
-import { WebhookResponse } from '../../../../shared/types'
+import { WEBHOOK_HMAC_SIGNATURE_HEADER } from '../../../../shared/constants'
+import {
+  WebhookDeliveryDto,
+  WebhookDeliveryStatus,
+  WebhookResponse,
+} from '../../../../shared/types'
 import {
   IEncryptedSubmissionSchema,
+  IPopulatedForm,
   ISubmissionSchema,
+  WebhookEventView,
+  WebhookTarget,
   WebhookView,
 } from '../../../types'
 import { aws as AwsConfig } from '../../config/config'
 import formsgSdk from '../../config/formsg-sdk'
 import { createLoggerWithLabel } from '../../config/logger'
+import getFormModel from '../../models/form.server.model'
 import { getEncryptSubmissionModel } from '../../models/submission.server.model'
+import {
+  MailGenerationError,
+  MailSendError,
+} from '../../services/mail/mail.errors'
+import MailService from '../../services/mail/mail.service'
 import { transformMongoError } from '../../utils/handle-mongo-error'
 import { PossibleDatabaseError } from '../core/core.errors'
+import * as FormService from '../form/form.service'
 import { SubmissionNotFoundError } from '../submission/submission.errors'
 
-import { WEBHOOK_MAX_CONTENT_LENGTH } from './webhook.constants'
+import {
+  MAX_WEBHOOK_REDELIVERIES,
+  WEBHOOK_FAILURE_LOOKBACK_LIMIT,
+  WEBHOOK_FAILURE_NOTIFICATION_INTERVAL_SECONDS,
+  WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD,
+  WEBHOOK_MAX_CONTENT_LENGTH,
+} from './webhook.constants'
 import {
   WebhookFailedWithAxiosError,
   WebhookFailedWithPresignedUrlGenerationError,
   WebhookFailedWithUnknownError,
+  WebhookNotConfiguredError,
   WebhookPushToQueueError,
+  WebhookRedeliveryUnavailableError,
   WebhookValidationError,
 } from './webhook.errors'
 import { WebhookQueueMessage } from './webhook.message'
 import { WebhookProducer } from './webhook.producer'
 import { webhookStatsdClient } from './webhook.statsd-client'
-import { formatWebhookResponse, isSuccessfulResponse } from './webhook.utils'
+import { WebhookSendOptions } from './webhook.types'
+import {
+  addNextAttempt,
+  constructHmacSignatureHeader,
+  formatWebhookResponse,
+  getWebhookDeliveryStatus,
+  getWebhookTargets,
+  groupWebhookResponsesByEndpoint,
+  isSuccessfulResponse,
+  isWebhookEventView,
+  toWebhookDeliveryDtos,
+} from './webhook.utils'
 import { validateWebhookUrl } from './webhook.validation'
 
 const logger = createLoggerWithLabel(module)
 const EncryptSubmission = getEncryptSubmissionModel(mongoose)
+const FormModel = getFormModel(mongoose)
 
 /**
  * Updates the submission in the database with the webhook response
@@ -96,9 +131,27 @@ const createWebhookSubmissionView = (
   })
 }
 
+/**
+ * Sends a webhook to the given URL. The webhook is always signed with the
+ * FormSG signature, and is additionally signed with HMAC-SHA256 if the
+ * endpoint has a shared secret. Event webhooks are signed with the event id
+ * in place of the submission id.
+ *
+ * Submissions are only ever delivered as their encrypted webhook view. There
+ * is no plaintext delivery format, as storage mode responses are encrypted
+ * with the form's public key and the server never holds the secret key.
+ * @param webhookView Webhook view of the submission or event
+ * @param webhookUrl URL to send the webhook to
+ * @param options.endpointId Id of the additional endpoint sent to, if not the primary webhook URL
+ * @param options.hmacSecret Shared secret to sign the webhook with
+ * @param options.headers Custom headers to send with the webhook
+ * @returns ok(record of the attempt) if the webhook was posted, regardless of response
+ * @returns err if the webhook could not be posted
+ */
 export const sendWebhook = (
-  webhookView: WebhookView,
+  webhookView: WebhookView | WebhookEventView,
   webhookUrl: string,
+  { endpointId, hmacSecret, headers = [] }: WebhookSendOptions = {},
 ): ResultAsync<
   WebhookResponse,
   | WebhookValidationError
@@ -107,7 +160,13 @@ export const sendWebhook = (
   | WebhookFailedWithUnknownError
 > => {
   const now = Date.now()
-  const { submissionId, formId } = webhookView.data
+  const { formId } = webhookView.data
+  const submissionId = isWebhookEventView(webhookView)
+    ? webhookView.data.eventId
+    : webhookView.data.submissionId
+  // Set when the webhook is posted, so that the latency of the endpoint
+  // excludes the time taken to generate attachment URLs.
+  let postedAt = now
 
   const signature = formsgSdk.webhooks.generateSignature({
     uri: webhookUrl,
@@ -122,6 +181,7 @@ export const sendWebhook = (
     formId,
     now,
     webhookUrl,
+    endpointId,
     signature,
   }
 
@@ -135,21 +195,41 @@ export const sendWebhook = (
       ? error
       : new WebhookValidationError()
   }).andThen(() => {
-    return ResultAsync.fromPromise(
-      createWebhookSubmissionView(webhookView),
-      (error) => {
-        logger.error({
-          message: 'S3 attachment presigned URL generation failed',
-          meta: logMeta,
-          error,
-        })
-        return new WebhookFailedWithPresignedUrlGenerationError(error)
-      },
-    )
-      .andThen((submissionWebhookView) =>
-        ResultAsync.fromPromise(
-          axios.post<unknown>(webhookUrl, submissionWebhookView, {
+    // Only submissions have attachments to generate URLs for.
+    const viewToSend: Promise<WebhookView | WebhookEventView> =
+      isWebhookEventView(webhookView)
+        ? Promise.resolve(webhookView)
+        : createWebhookSubmissionView(webhookView)
+    return ResultAsync.fromPromise(viewToSend, (error) => {
+      logger.error({
+        message: 'S3 attachment presigned URL generation failed',
+        meta: logMeta,
+        error,
+      })
+      return new WebhookFailedWithPresignedUrlGenerationError(error)
+    })
+      .andThen((submissionWebhookView) => {
+        // Serialise the body when signing it, so that the HMAC is computed over
+        // exactly what is sent.
+        const body = hmacSecret
+          ? JSON.stringify(submissionWebhookView)
+          : submissionWebhookView
+        postedAt = Date.now()
+        return ResultAsync.fromPromise(
+          axios.post<unknown>(webhookUrl, body, {
             headers: {
+              // Custom headers are set first so that they cannot override the
+              // signatures.
+              ...Object.fromEntries(
+                headers.map(({ name, value }) => [name, value]),
+              ),
+              ...(typeof body === 'string' && hmacSecret
+                ? {
+                    'Content-Type': 'application/json',
+                    [WEBHOOK_HMAC_SIGNATURE_HEADER]:
+                      constructHmacSignatureHeader(hmacSecret, now, body),
+                  }
+                : {}),
               'X-FormSG-Signature': formsgSdk.webhooks.constructHeader({
                 epoch: now,
                 submissionId,
@@ -179,8 +259,8 @@ export const sendWebhook = (
             }
             return new WebhookFailedWithUnknownError(error)
           },
-        ),
-      )
+        )
+      })
       .map((response) => {
         // Capture response for logging purposes
         logger.info({
@@ -193,7 +273,9 @@ export const sendWebhook = (
         return {
           signature,
           webhookUrl,
+          endpointId,
           response: formatWebhookResponse(response),
+          latencyMs: Date.now() - postedAt,
         }
       })
       .orElse((error) => {
@@ -209,9 +291,11 @@ export const sendWebhook = (
           return okAsync({
             signature,
             webhookUrl,
+            endpointId,
             // Not Axios error so no guarantee of having response.
             // Hence allow formatting function to return default shape.
             response: formatWebhookResponse(),
+            latencyMs: Date.now() - postedAt,
           })
         }
 
@@ -219,7 +303,9 @@ export const sendWebhook = (
         return okAsync({
           signature,
           webhookUrl,
+          endpointId,
           response: formatWebhookResponse(axiosError.response),
+          latencyMs: Date.now() - postedAt,
         })
       })
   })
@@ -241,7 +327,7 @@ export const getWebhookType = (webhookUrl: string) => {
  * This function sends the INITIAL webhook, which occurs immediately after
  * a submission. If the initial webhook fails and retries are enabled, the
  * webhook is queued for retries.
- * @returns function which sends webhook and saves a record of it
+ * @returns function which sends webhook to a single endpoint and saves a record of it
  */
 export const createInitialWebhookSender =
   (producer?: WebhookProducer) =>
@@ -249,6 +335,10 @@ export const createInitialWebhookSender =
     submission: IEncryptedSubmissionSchema,
     webhookUrl: string,
     isRetryEnabled: boolean,
+    {
+      retryPolicy,
+      ...sendOptions
+    }: Omit<WebhookTarget, 'webhookUrl' | 'isRetryEnabled'> = {},
   ): ResultAsync<
     true,
     | WebhookValidationError
@@ -257,31 +347,322 @@ export const createInitialWebhookSender =
     | WebhookPushToQueueError
   > => {
     // Attempt to send webhook
-    return sendWebhook(submission.getWebhookView(), webhookUrl).andThen(
-      (webhookResponse) => {
-        webhookStatsdClient.increment('sent', 1, 1, {
-          responseCode: `${webhookResponse.response.status || null}`,
-          webhookType: getWebhookType(webhookUrl),
-          isRetryEnabled: `${isRetryEnabled}`,
-        })
+    return sendWebhook(
+      submission.getWebhookView(),
+      webhookUrl,
+      sendOptions,
+    ).andThen((webhookResponse) => {
+      webhookStatsdClient.increment('sent', 1, 1, {
+        responseCode: `${webhookResponse.response.status || null}`,
+        webhookType: getWebhookType(webhookUrl),
+        isRetryEnabled: `${isRetryEnabled}`,
+      })
 
-        // Save record of sending to database
-        return saveWebhookRecord(submission._id, webhookResponse).andThen(
-          () => {
-            // If webhook successful or retries not enabled, no further action
-            if (
-              isSuccessfulResponse(webhookResponse) ||
-              !producer ||
-              !isRetryEnabled
-            ) {
-              return okAsync(true as const)
-            }
-            // Webhook failed and retries enabled, so create initial message and enqueue
-            return WebhookQueueMessage.fromSubmissionId(
+      // If webhook successful or retries not enabled, no retry is queued
+      const retryMessageResult =
+        isSuccessfulResponse(webhookResponse) || !producer || !isRetryEnabled
+          ? undefined
+          : WebhookQueueMessage.fromSubmissionId(
               String(submission._id),
-            ).asyncAndThen((queueMessage) => producer.sendMessage(queueMessage))
+              sendOptions.endpointId,
+              retryPolicy,
+            )
+
+      // Save record of sending to database, with the time of the retry
+      return saveWebhookRecord(
+        submission._id,
+        addNextAttempt(
+          webhookResponse,
+          retryMessageResult?.unwrapOr(undefined)?.nextAttempt,
+        ),
+      ).andThen(() => {
+        if (!retryMessageResult || !producer) {
+          // The webhook will not be retried, so it has failed for good.
+          return isSuccessfulResponse(webhookResponse)
+            ? okAsync(true as const)
+            : notifyIfWebhookFailingContinuously(
+                String(submission.form),
+                webhookUrl,
+                sendOptions.endpointId,
+              ).map(() => true as const)
+        }
+        // Webhook failed and retries enabled, so enqueue initial message
+        return retryMessageResult.asyncAndThen((queueMessage) =>
+          producer.sendMessage(queueMessage),
+        )
+      })
+    })
+  }
+
+/**
+ * Notifies the admin and collaborators of a form if the latest webhooks to
+ * an endpoint have all failed for good, at most once per
+ * WEBHOOK_FAILURE_NOTIFICATION_INTERVAL_SECONDS for each form. Webhooks which
+ * are pending retry are not counted.
+ * @param formId the form whose webhook has failed
+ * @param webhookUrl the URL of the endpoint which the webhook failed on
+ * @param endpointId the id of the additional endpoint, if not the primary webhook URL
+ * @returns ok(true) if the notification was sent
+ * @returns ok(false) if no notification was needed or it could not be sent
+ */
+export const notifyIfWebhookFailingContinuously = (
+  formId: string,
+  webhookUrl: string,
+  endpointId?: string,
+): ResultAsync<boolean, never> => {
+  const logMeta = {
+    action: 'notifyIfWebhookFailingContinuously',
+    formId,
+    webhookUrl,
+    endpointId,
+  }
+
+  return ResultAsync.fromPromise(
+    EncryptSubmission.findWebhookResponsesByFormId(formId, {
+      limit: WEBHOOK_FAILURE_LOOKBACK_LIMIT,
+    }),
+    (error) => {
+      logger.error({
+        message: 'Error while retrieving webhook responses of form',
+        meta: logMeta,
+        error,
+      })
+      return transformMongoError(error)
+    },
+  )
+    .andThen((submissions) => {
+      const latestStatuses = submissions
+        .flatMap(({ webhookResponses }) =>
+          groupWebhookResponsesByEndpoint(webhookResponses).filter(
+            (attempts) => attempts[0].endpointId === endpointId,
+          ),
+        )
+        .map((attempts) =>
+          getWebhookDeliveryStatus(attempts[attempts.length - 1]),
+        )
+        .filter((status) => status !== WebhookDeliveryStatus.PendingRetry)
+        .slice(0, WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD)
+
+      const isFailingContinuously =
+        latestStatuses.length === WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD &&
+        latestStatuses.every(
+          (status) => status === WebhookDeliveryStatus.Failed,
+        )
+      if (!isFailingContinuously) return okAsync(false)
+
+      return ResultAsync.fromPromise(
+        FormModel.claimWebhookFailureNotification(
+          formId,
+          new Date(
+            Date.now() - WEBHOOK_FAILURE_NOTIFICATION_INTERVAL_SECONDS * 1000,
+          ),
+        ),
+        (error) => {
+          logger.error({
+            message: 'Error while recording webhook failure notification',
+            meta: logMeta,
+            error,
+          })
+          return transformMongoError(error)
+        },
+      ).andThen((isClaimed) =>
+        isClaimed
+          ? FormService.retrieveFullFormById(formId).andThen((form) =>
+              MailService.sendWebhookFailureNotification({
+                form,
+                webhookUrl,
+                failureCount: WEBHOOK_FAILURE_NOTIFICATION_THRESHOLD,
+              }),
+            )
+          : okAsync(false),
+      )
+    })
+    .orElse((error) => {
+      logger.warn({
+        message:
+          error instanceof MailGenerationError || error instanceof MailSendError
+            ? 'Failed to send webhook failure notification to form admin and collaborators'
+            : 'Failed to identify if webhook failure notification is needed',
+        meta: logMeta,
+        error,
+      })
+      return okAsync(false)
+    })
+}
+
+/**
+ * Retrieves the webhook deliveries of the latest submissions of a form.
+ * @param formId the form to retrieve webhook deliveries for
+ * @param limit the maximum number of submissions to return deliveries of
+ * @param status optional. If provided, only deliveries with this status are
+ * returned, e.g. failed deliveries for the dead-letter list
+ * @returns ok(deliveries) with the most recent submission first
+ * @returns err(PossibleDatabaseError) if database query fails
+ */
+export const getWebhookDeliveries = (
+  formId: string,
+  limit: number,
+  status?: WebhookDeliveryStatus,
+): ResultAsync<WebhookDeliveryDto[], PossibleDatabaseError> => {
+  return ResultAsync.fromPromise(
+    EncryptSubmission.findWebhookResponsesByFormId(formId, {
+      limit,
+      // Deliveries only fail after at least one failed attempt.
+      hasFailedAttempt: status === WebhookDeliveryStatus.Failed,
+    }),
+    (error) => {
+      logger.error({
+        message: 'Error while retrieving webhook deliveries',
+        meta: {
+          action: 'getWebhookDeliveries',
+          formId,
+        },
+        error,
+      })
+      return transformMongoError(error)
+    },
+  ).map((submissions) =>
+    submissions
+      .flatMap(toWebhookDeliveryDtos)
+      .filter((delivery) => !status || delivery.status === status),
+  )
+}
+
+/**
+ * Checks that webhooks of the given form can be queued for redelivery.
+ * @returns ok(producer and webhook targets) if the webhook queue is configured and the form has a webhook URL
+ * @returns err(WebhookRedeliveryUnavailableError) if the webhook queue is not configured
+ * @returns err(WebhookNotConfiguredError) if the form has no webhook URL
+ */
+const checkCanRedeliver = (
+  form: IPopulatedForm,
+  producer?: WebhookProducer,
+): Result<
+  { producer: WebhookProducer; targets: WebhookTarget[] },
+  WebhookRedeliveryUnavailableError | WebhookNotConfiguredError
+> => {
+  if (!producer) return err(new WebhookRedeliveryUnavailableError())
+  const targets = getWebhookTargets(form.webhook)
+  if (!targets.length) return err(new WebhookNotConfiguredError())
+  return ok({ producer, targets })
+}
+
+/**
+ * Creates a function which queues the webhook of a submission for redelivery
+ * to the form's current webhook URL, or to one of its additional endpoints.
+ * @returns function which queues the webhook of a submission for redelivery
+ */
+export const createWebhookRedeliverer =
+  (producer?: WebhookProducer) =>
+  (
+    form: IPopulatedForm,
+    submissionId: string,
+    endpointId?: string,
+  ): ResultAsync<
+    true,
+    | WebhookRedeliveryUnavailableError
+    | WebhookNotConfiguredError
+    | SubmissionNotFoundError
+    | PossibleDatabaseError
+    | WebhookPushToQueueError
+  > =>
+    checkCanRedeliver(form, producer)
+      .andThen(({ producer, targets }) =>
+        targets.some((target) => target.endpointId === endpointId)
+          ? ok(producer)
+          : err(new WebhookNotConfiguredError()),
+      )
+      .asyncAndThen((producer) =>
+        ResultAsync.fromPromise(
+          EncryptSubmission.exists({ _id: submissionId, form: form._id }),
+          (error) => {
+            logger.error({
+              message: 'Error while finding submission to redeliver webhook',
+              meta: {
+                action: 'redeliverWebhook',
+                formId: form._id,
+                submissionId,
+                endpointId,
+              },
+              error,
+            })
+            return transformMongoError(error)
           },
         )
-      },
+          .andThen((hasSubmission) =>
+            hasSubmission
+              ? okAsync(producer)
+              : errAsync(new SubmissionNotFoundError()),
+          )
+          .andThen((producer) =>
+            producer.sendMessage(
+              WebhookQueueMessage.forRedelivery(submissionId, endpointId),
+            ),
+          ),
+      )
+
+/**
+ * Creates a function which queues the webhooks of a form which have failed
+ * since the given date for redelivery, to each endpoint they failed on which
+ * is still configured. Webhooks which are pending retry are not redelivered,
+ * and at most MAX_WEBHOOK_REDELIVERIES of the most recent submissions are
+ * redelivered at once.
+ * @returns function which queues failed webhooks for redelivery and returns the number queued
+ */
+export const createFailedWebhooksRedeliverer =
+  (producer?: WebhookProducer) =>
+  (
+    form: IPopulatedForm,
+    since: Date,
+  ): ResultAsync<
+    number,
+    | WebhookRedeliveryUnavailableError
+    | WebhookNotConfiguredError
+    | PossibleDatabaseError
+    | WebhookPushToQueueError
+  > =>
+    checkCanRedeliver(form, producer).asyncAndThen(({ producer, targets }) =>
+      ResultAsync.fromPromise(
+        EncryptSubmission.findWebhookResponsesByFormId(String(form._id), {
+          since,
+          hasFailedAttempt: true,
+          limit: MAX_WEBHOOK_REDELIVERIES,
+        }),
+        (error) => {
+          logger.error({
+            message: 'Error while finding failed webhooks to redeliver',
+            meta: {
+              action: 'redeliverFailedWebhooks',
+              formId: form._id,
+              since,
+            },
+            error,
+          })
+          return transformMongoError(error)
+        },
+      ).andThen((submissions) => {
+        const endpointIds = new Set(targets.map(({ endpointId }) => endpointId))
+        const failedDeliveries = submissions.flatMap(
+          ({ _id, webhookResponses }) =>
+            groupWebhookResponsesByEndpoint(webhookResponses)
+              .map((attempts) => attempts[attempts.length - 1])
+              .filter(
+                (lastAttempt) =>
+                  endpointIds.has(lastAttempt.endpointId) &&
+                  getWebhookDeliveryStatus(lastAttempt) ===
+                    WebhookDeliveryStatus.Failed,
+              )
+              .map(({ endpointId }) => ({
+                submissionId: String(_id),
+                endpointId,
+              })),
+        )
+        return ResultAsync.combine(
+          failedDeliveries.map(({ submissionId, endpointId }) =>
+            producer.sendMessage(
+              WebhookQueueMessage.forRedelivery(submissionId, endpointId),
+            ),
+          ),
+        ).map(() => failedDeliveries.length)
+      }),
     )
-  }
@@ -1,6 +1,11 @@
 import * as z from 'zod'
 
-import { IFormSchema, ISubmissionSchema, WebhookView } from '../../../types'
+import {
+  IFormSchema,
+  ISubmissionSchema,
+  WebhookTarget,
+  WebhookView,
+} from '../../../types'
 
 export interface WebhookParams {
   webhookUrl: string
@@ -11,15 +16,48 @@ export interface WebhookParams {
   signature: string
 }
 
+/**
+ * How a webhook is sent to an endpoint, besides its URL.
+ */
+export type WebhookSendOptions = Pick<
+  WebhookTarget,
+  'endpointId' | 'hmacSecret' | 'headers'
+>
+
 /**
  * Schema for webhook queue message, which allows an object to be validated.
  */
-export const webhookMessageSchema = z.object({
-  submissionId: z.string().regex(/^[a-f\d]{24}$/i),
-  previousAttempts: z.array(z.number()),
-  nextAttempt: z.number(),
-  _v: z.number(),
-})
+export const webhookMessageSchema = z
+  .object({
+    submissionId: z
+      .string()
+      .regex(/^[a-f\d]{24}$/i)
+      .optional(),
+    /**
+     * Id of the webhook event to send, for event webhooks. Each message is
+     * for either a submission or an event.
+     */
+    eventId: z
+      .string()
+      .regex(/^[a-f\d]{24}$/i)
+      .optional(),
+    previousAttempts: z.array(z.number()),
+    nextAttempt: z.number(),
+    /**
+     * Whether the webhook was queued for redelivery by an admin. Redeliveries
+     * are sent even if retries are not enabled for the form.
+     */
+    isRedelivery: z.boolean().optional(),
+    /**
+     * Id of the additional endpoint of the form to send the webhook to. The
+     * webhook is sent to the primary webhook URL if absent.
+     */
+    endpointId: z.string().optional(),
+    _v: z.number(),
+  })
+  .refine(({ submissionId, eventId }) => !submissionId !== !eventId, {
+    message: 'Exactly one of submissionId and eventId must be provided',
+  })
 
 /**
  * Shape of webhook queue message object.
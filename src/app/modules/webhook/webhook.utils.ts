@@ -1,15 +1,38 @@
 import { AxiosResponse } from 'axios'
-import { inRange } from 'lodash'
+import { createHmac } from 'crypto'
+import { groupBy, inRange, range } from 'lodash'
 import moment from 'moment-timezone'
 import { err, ok, Result } from 'neverthrow'
 
-import { WebhookResponse } from '../../../../shared/types'
+import {
+  DateString,
+  FormWebhook,
+  SubmissionId,
+  WebhookDeliveryDto,
+  WebhookDeliveryStatus,
+  WebhookResponse,
+  WebhookRetryPolicy,
+  WebhookRetryProfile,
+} from '../../../../shared/types'
 import { stringifySafe } from '../../../../shared/utils/stringify-safe'
+import {
+  SubmissionWebhookResponses,
+  WebhookEventView,
+  WebhookTarget,
+  WebhookView,
+} from '../../../types'
 import { TIMEZONE } from '../../constants/timezone'
 import { randomUniformInt } from '../../utils/random-uniform'
 
-import { MAX_DELAY_SECONDS, RETRY_INTERVALS } from './webhook.constants'
+import {
+  MAX_CUSTOM_RETRY_WAIT_SECONDS,
+  MAX_DELAY_SECONDS,
+  PENDING_RETRY_GRACE_SECONDS,
+  RETRY_INTERVALS,
+  RETRY_PROFILE_INTERVALS,
+} from './webhook.constants'
 import { WebhookNoMoreRetriesError } from './webhook.errors'
+import { RetryInterval } from './webhook.types'
 
 /**
  * Formats a response object for update in the Submissions collection
@@ -23,25 +46,51 @@ export const formatWebhookResponse = (
   data: stringifySafe(response?.data) ?? '',
 })
 
+/**
+ * Computes the retry intervals of a retry policy. Custom policies wait twice
+ * as long before each subsequent retry, and have 10% jitter.
+ * @param retryPolicy Retry policy of the form, or undefined for the standard policy
+ */
+export const getRetryIntervals = (
+  retryPolicy?: WebhookRetryPolicy,
+): RetryInterval[] => {
+  if (!retryPolicy) return RETRY_INTERVALS
+  if (retryPolicy.profile !== WebhookRetryProfile.Custom) {
+    return RETRY_PROFILE_INTERVALS[retryPolicy.profile] ?? RETRY_INTERVALS
+  }
+  const { maxRetries = 0, backoffMinutes = 0 } = retryPolicy
+  return range(maxRetries).map((retryIndex) => {
+    // The waits before each retry sum to (2^n - 1) times the first wait.
+    const base = Math.min(
+      backoffMinutes * 60 * (2 ** (retryIndex + 1) - 1),
+      MAX_CUSTOM_RETRY_WAIT_SECONDS,
+    )
+    return { base, jitter: Math.floor(base / 10) }
+  })
+}
+
 /**
  * Computes epoch of next webhook attempt based on previous attempts.
  * @param previousAttempts Array of epochs of previous attempts
+ * @param retryPolicy Retry policy of the form, or undefined for the standard policy
  * @returns ok(epoch of next attempt) if there are valid retries remaining
  * @returns err(WebhookNoMoreRetriesError) if there are no more retries remaining
  */
 export const getNextAttempt = (
   previousAttempts: number[],
+  retryPolicy?: WebhookRetryPolicy,
 ): Result<number, WebhookNoMoreRetriesError> => {
-  // Total allowed number of attempts is RETRY_INTERVALS + 1.
+  const retryIntervals = getRetryIntervals(retryPolicy)
+  // Total allowed number of attempts is retryIntervals + 1.
   // The +1 accounts for the initial webhook attempt immediately
   // after form submission.
-  if (previousAttempts.length >= RETRY_INTERVALS.length + 1) {
+  if (previousAttempts.length >= retryIntervals.length + 1) {
     return err(new WebhookNoMoreRetriesError())
   }
   // The -1 accounts for the initial webhook attempt, e.g. if
   // the length of previousAttempts is 1, then we should get
-  // the interval for the first retry at RETRY_INTERVALS[0]
-  const interval = RETRY_INTERVALS[previousAttempts.length - 1]
+  // the interval for the first retry at retryIntervals[0]
+  const interval = retryIntervals[previousAttempts.length - 1]
   const nextAttemptWaitTimeSeconds = randomUniformInt(
     interval.base - interval.jitter,
     interval.base + interval.jitter,
@@ -52,6 +101,57 @@ export const getNextAttempt = (
   return ok(initialAttempt + nextAttemptWaitTimeSeconds * 1000)
 }
 
+/**
+ * Lists the endpoints which the webhooks of a form are sent to, starting with
+ * the primary webhook URL if it is set.
+ * @param webhook Webhook settings of the form
+ */
+export const getWebhookTargets = (
+  webhook?: Partial<FormWebhook>,
+): WebhookTarget[] => {
+  const primaryTargets: WebhookTarget[] = webhook?.url
+    ? [
+        {
+          webhookUrl: webhook.url,
+          isRetryEnabled: !!webhook.isRetryEnabled,
+          hmacSecret: webhook.hmacSecret || undefined,
+          headers: webhook.headers,
+          retryPolicy: webhook.retryPolicy,
+        },
+      ]
+    : []
+  const additionalTargets = (webhook?.additionalEndpoints ?? []).map(
+    (endpoint): WebhookTarget => ({
+      webhookUrl: endpoint.url,
+      isRetryEnabled: !!endpoint.isRetryEnabled,
+      endpointId: String(endpoint._id),
+      hmacSecret: endpoint.hmacSecret || undefined,
+      headers: endpoint.headers,
+      retryPolicy: webhook?.retryPolicy,
+    }),
+  )
+  return [...primaryTargets, ...additionalTargets]
+}
+
+/**
+ * Constructs the value of the HMAC signature header of a webhook, which
+ * receivers can verify with the shared secret by recomputing the HMAC-SHA256
+ * of the epoch and the raw request body, joined by a period.
+ * @param hmacSecret Shared secret of the webhook endpoint
+ * @param epoch Epoch at which the webhook is sent
+ * @param body Serialised request body
+ */
+export const constructHmacSignatureHeader = (
+  hmacSecret: string,
+  epoch: number,
+  body: string,
+): string => {
+  const signature = createHmac('sha256', hmacSecret)
+    .update(`${epoch}.${body}`)
+    .digest('hex')
+  return `t=${epoch},v1=${signature}`
+}
+
 /**
  * Encodes success condition of webhook. Webhooks are considered
  * successful if the status code >= 200 and < 300.
@@ -62,6 +162,28 @@ export const isSuccessfulResponse = (
   webhookResponse: WebhookResponse,
 ): boolean => inRange(webhookResponse.response.status, 200, 300)
 
+/**
+ * Checks whether a webhook view is of an event rather than a submission.
+ * @param webhookView View posted to the webhook URL
+ * @returns true if the webhook is an event webhook
+ */
+export const isWebhookEventView = (
+  webhookView: WebhookView | WebhookEventView,
+): webhookView is WebhookEventView => 'eventId' in webhookView.data
+
+/**
+ * Adds the time of the next retry, if any, to the record of a webhook attempt.
+ * @param webhookResponse Response from receiving server
+ * @param nextAttempt Epoch of next attempt, or undefined if no retry is scheduled
+ */
+export const addNextAttempt = (
+  webhookResponse: WebhookResponse,
+  nextAttempt?: number,
+): WebhookResponse =>
+  nextAttempt === undefined
+    ? webhookResponse
+    : { ...webhookResponse, nextAttemptAt: new Date(nextAttempt) }
+
 /**
  * Calculates the number of seconds to delay a message sent to
  * the webhook queue. This is the minimum of (time to next attempt,
@@ -80,3 +202,66 @@ export const calculateDelaySeconds = (nextAttempt: number): number => {
  */
 export const prettifyEpoch = (epoch: number): string =>
   moment(epoch).tz(TIMEZONE).format('D MMM YYYY, h:mm:ssa z')
+
+/**
+ * Determines the status of the webhook of a submission from its latest attempt.
+ * A failed attempt is pending retry if its next attempt has been scheduled and
+ * is not overdue, which would mean the retry was dropped from the queue.
+ * @param lastAttempt Record of the latest webhook attempt
+ */
+export const getWebhookDeliveryStatus = (
+  lastAttempt: SubmissionWebhookResponses['webhookResponses'][number],
+): WebhookDeliveryStatus => {
+  if (inRange(lastAttempt.response.status, 200, 300)) {
+    return WebhookDeliveryStatus.Success
+  }
+  if (
+    lastAttempt.nextAttemptAt &&
+    lastAttempt.nextAttemptAt.getTime() + PENDING_RETRY_GRACE_SECONDS * 1000 >
+      Date.now()
+  ) {
+    return WebhookDeliveryStatus.PendingRetry
+  }
+  return WebhookDeliveryStatus.Failed
+}
+
+/**
+ * Groups the webhook attempts of a submission by the endpoint they were sent
+ * to, in order of the first attempt to each endpoint.
+ * @param webhookResponses Records of webhook attempts, oldest first
+ */
+export const groupWebhookResponsesByEndpoint = (
+  webhookResponses: SubmissionWebhookResponses['webhookResponses'],
+): SubmissionWebhookResponses['webhookResponses'][] =>
+  Object.values(groupBy(webhookResponses, ({ endpointId }) => endpointId ?? ''))
+
+/**
+ * Summarises the webhook attempts of a submission, with one summary for each
+ * endpoint which webhooks were sent to.
+ * @param submission Submission with at least one webhook response
+ */
+export const toWebhookDeliveryDtos = ({
+  _id,
+  created,
+  webhookResponses,
+}: SubmissionWebhookResponses): WebhookDeliveryDto[] =>
+  groupWebhookResponsesByEndpoint(webhookResponses).map((attempts) => {
+    const lastAttempt = attempts[attempts.length - 1]
+    const status = getWebhookDeliveryStatus(lastAttempt)
+    return {
+      submissionId: String(_id) as SubmissionId,
+      submissionTime: created.toISOString() as DateString,
+      webhookUrl: lastAttempt.webhookUrl,
+      endpointId: lastAttempt.endpointId,
+      status,
+      responseStatus: lastAttempt.response.status,
+      latencyMs: lastAttempt.latencyMs,
+      attemptCount: attempts.length,
+      lastAttemptAt: lastAttempt.created.toISOString() as DateString,
+      nextAttemptAt:
+        status === WebhookDeliveryStatus.PendingRetry &&
+        lastAttempt.nextAttemptAt
+          ? (lastAttempt.nextAttemptAt.toISOString() as DateString)
+          : undefined,
+    }
+  })
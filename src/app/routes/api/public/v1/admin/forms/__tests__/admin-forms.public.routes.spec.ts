@@ -0,0 +1,257 @@
+import { setupApp } from '__tests__/integration/helpers/express-setup'
+import { generateDefaultField } from '__tests__/unit/backend/helpers/generate-form-data'
+import dbHandler from '__tests__/unit/backend/helpers/jest-db'
+import bcrypt from 'bcrypt'
+import crypto from 'crypto'
+import mongoose from 'mongoose'
+import supertest, { SuperTest, Test } from 'supertest'
+
+import getFormModel from 'src/app/models/form.server.model'
+import getUserModel from 'src/app/models/user.server.model'
+import { IUserSchema } from 'src/types'
+
+import {
+  BasicField,
+  FormResponseMode,
+  FormStatus,
+  LogicConditionState,
+  LogicIfValue,
+  LogicType,
+} from '../../../../../../../../../shared/types'
+import { AdminFormsPublicRouter } from '../admin-forms.public.routes'
+
+// Avoid async refresh calls
+jest.mock('src/app/modules/spcp/spcp.oidc.client.ts')
+
+const UserModel = getUserModel(mongoose)
+const FormModel = getFormModel(mongoose)
+
+const app = setupApp('/admin/forms', AdminFormsPublicRouter)
+
+const insertApiKey = async (user: IUserSchema): Promise<string> => {
+  const apiKey = `test_v1_${user._id}_${crypto
+    .randomBytes(32)
+    .toString('base64')}`
+  await UserModel.updateOne(
+    { _id: user._id },
+    {
+      apiToken: {
+        keyHash: await bcrypt.hash(apiKey, 10),
+        createdAt: new Date(),
+      },
+    },
+  )
+  return apiKey
+}
+
+describe('admin-forms.public.routes', () => {
+  let request: SuperTest<Test>
+
+  beforeAll(async () => await dbHandler.connect())
+  beforeEach(() => {
+    request = supertest(app)
+  })
+  afterEach(async () => {
+    await dbHandler.clearDatabase()
+    jest.restoreAllMocks()
+  })
+  afterAll(async () => await dbHandler.closeDatabase())
+
+  describe('POST /admin/forms', () => {
+    it('should return 200 with newly created form when API key is valid', async () => {
+      // Arrange
+      const { user } = await dbHandler.insertFormCollectionReqs()
+      const apiKey = await insertApiKey(user)
+
+      // Act
+      const response = await request
+        .post('/admin/forms')
+        .set('Authorization', `Bearer ${apiKey}`)
+        .send({
+          form: {
+            title: 'created via public api',
+            responseMode: FormResponseMode.Email,
+            emails: [user.email],
+          },
+        })
+
+      // Assert
+      expect(response.status).toEqual(200)
+      expect(response.body).toEqual(
+        expect.objectContaining({
+          title: 'created via public api',
+          admin: String(user._id),
+        }),
+      )
+    })
+
+    it('should return 401 when authorisation header is missing', async () => {
+      // Act
+      const response = await request.post('/admin/forms').send({
+        form: {
+          title: 'created via public api',
+          responseMode: FormResponseMode.Email,
+          emails: ['test@test.gov.sg'],
+        },
+      })
+
+      // Assert
+      expect(response.status).toEqual(401)
+      expect(response.body).toEqual({
+        message: 'Authorisation header is missing',
+      })
+    })
+  })
+
+  describe('GET /admin/forms/:formId', () => {
+    it('should return 200 with form when API key belongs to form admin', async () => {
+      // Arrange
+      const { form, user } = await dbHandler.insertEmailForm()
+      const apiKey = await insertApiKey(user)
+
+      // Act
+      const response = await request
+        .get(`/admin/forms/${form._id}`)
+        .set('Authorization', `Bearer ${apiKey}`)
+
+      // Assert
+      expect(response.status).toEqual(200)
+      expect(response.body.form).toEqual(
+        expect.objectContaining({ _id: String(form._id) }),
+      )
+    })
+
+    it('should not return a session cookie for API key requests', async () => {
+      // Arrange
+      const { form, user } = await dbHandler.insertEmailForm()
+      const apiKey = await insertApiKey(user)
+
+      // Act
+      const response = await request
+        .get(`/admin/forms/${form._id}`)
+        .set('Authorization', `Bearer ${apiKey}`)
+
+      // Assert
+      expect(response.status).toEqual(200)
+      expect(response.headers['set-cookie']).toBeUndefined()
+    })
+
+    it('should return 403 when API key belongs to user without access to form', async () => {
+      // Arrange
+      const { form, agency } = await dbHandler.insertEmailForm()
+      const otherUser = await dbHandler.insertUser({
+        agencyId: agency._id,
+        mailName: 'other',
+      })
+      const apiKey = await insertApiKey(otherUser)
+
+      // Act
+      const response = await request
+        .get(`/admin/forms/${form._id}`)
+        .set('Authorization', `Bearer ${apiKey}`)
+
+      // Assert
+      expect(response.status).toEqual(403)
+    })
+  })
+
+  describe('PATCH /admin/forms/:formId/settings', () => {
+    it('should return 200 with updated settings', async () => {
+      // Arrange
+      const { form, user } = await dbHandler.insertEmailForm()
+      const apiKey = await insertApiKey(user)
+
+      // Act
+      const response = await request
+        .patch(`/admin/forms/${form._id}/settings`)
+        .set('Authorization', `Bearer ${apiKey}`)
+        .send({ title: 'new title via public api' })
+
+      // Assert
+      expect(response.status).toEqual(200)
+      expect(response.body.title).toEqual('new title via public api')
+    })
+  })
+
+  describe('POST /admin/forms/:formId/fields', () => {
+    it('should return 200 with created field', async () => {
+      // Arrange
+      const { form, user } = await dbHandler.insertEmailForm()
+      const apiKey = await insertApiKey(user)
+
+      // Act
+      const response = await request
+        .post(`/admin/forms/${form._id}/fields`)
+        .set('Authorization', `Bearer ${apiKey}`)
+        .send({
+          fieldType: BasicField.YesNo,
+          title: 'new yes no field',
+          description: '',
+          required: true,
+          disabled: false,
+        })
+
+      // Assert
+      expect(response.status).toEqual(200)
+      expect(response.body).toEqual(
+        expect.objectContaining({
+          fieldType: BasicField.YesNo,
+          title: 'new yes no field',
+        }),
+      )
+    })
+  })
+
+  describe('POST /admin/forms/:formId/logic', () => {
+    it('should return 200 with created logic', async () => {
+      // Arrange
+      const field = generateDefaultField(BasicField.YesNo)
+      const { form, user } = await dbHandler.insertEmailForm({
+        formOptions: { form_fields: [field] },
+      })
+      const apiKey = await insertApiKey(user)
+
+      // Act
+      const response = await request
+        .post(`/admin/forms/${form._id}/logic`)
+        .set('Authorization', `Bearer ${apiKey}`)
+        .send({
+          logicType: LogicType.PreventSubmit,
+          preventSubmitMessage: 'no submissions',
+          conditions: [
+            {
+              field: String(field._id),
+              state: LogicConditionState.Equal,
+              value: 'Yes',
+              ifValueType: LogicIfValue.SingleSelect,
+            },
+          ],
+        })
+
+      // Assert
+      expect(response.status).toEqual(200)
+      expect(response.body).toEqual(
+        expect.objectContaining({ logicType: LogicType.PreventSubmit }),
+      )
+    })
+  })
+
+  describe('DELETE /admin/forms/:formId', () => {
+    it('should return 200 and archive the form', async () => {
+      // Arrange
+      const { form, user } = await dbHandler.insertEmailForm()
+      const apiKey = await insertApiKey(user)
+
+      // Act
+      const response = await request
+        .delete(`/admin/forms/${form._id}`)
+        .set('Authorization', `Bearer ${apiKey}`)
+
+      // Assert
+      expect(response.status).toEqual(200)
+      expect(response.body).toEqual({ message: 'Form has been archived' })
+      const archivedForm = await FormModel.findById(form._id)
+      expect(archivedForm?.status).toEqual(FormStatus.Archived)
+    })
+  })
+})
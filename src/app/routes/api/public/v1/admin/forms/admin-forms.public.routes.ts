@@ -1,7 +1,16 @@
 import { Router } from 'express'
 
+import {
+  ApiKeyScope,
+  FormPermissionScope,
+} from '../../../../../../../../shared/types'
 import { rateLimitConfig } from '../../../../../../config/config'
-import { authenticateApiKey } from '../../../../../../modules/auth/auth.middlewares'
+import {
+  authenticateApiKey,
+  logAdminAction,
+  withApiKeyScope,
+  withFormPermissionScope,
+} from '../../../../../../modules/auth/auth.middlewares'
 import * as AdminFormController from '../../../../../../modules/form/admin-form/admin-form.controller'
 import * as EncryptSubmissionController from '../../../../../../modules/submission/encrypt-submission/encrypt-submission.controller'
 import { limitRate } from '../../../../../../utils/limit-rate'
@@ -9,8 +18,13 @@ import { limitRate } from '../../../../../../utils/limit-rate'
 export const AdminFormsPublicRouter = Router()
 
 // All routes in this handler should be protected by authentication.
+// Each route additionally checks that the API key has the required scope, and
+// returns 403 otherwise.
 AdminFormsPublicRouter.use(authenticateApiKey)
 
+// Log all non-get admin form actions
+AdminFormsPublicRouter.use('/:formId([a-fA-F0-9]{24})', logAdminAction)
+
 AdminFormsPublicRouter.route('/')
   /**
    * List the forms managed by the user
@@ -23,8 +37,350 @@ AdminFormsPublicRouter.route('/')
    */
   .get(
     limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsRead),
     AdminFormController.handleListDashboardForms,
   )
+  /**
+   * Create a new form
+   * @security bearer
+   *
+   * @returns 200 with newly created form
+   * @returns 400 when Joi validation fails
+   * @returns 401 when user is not authorised
+   * @returns 409 when a database conflict error occurs
+   * @returns 413 when payload for created form exceeds size limit
+   * @returns 422 when user of given id cannnot be found in the database
+   * @returns 422 when form parameters are invalid
+   * @returns 500 when database error occurs
+   */
+  .post(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsWrite),
+    AdminFormController.handleCreateForm,
+  )
+
+AdminFormsPublicRouter.route('/:formId([a-fA-F0-9]{24})')
+  /**
+   * Return the specified form to the user.
+   * @security bearer
+   *
+   * @returns 200 with retrieved form with formId if user has read permissions
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to access form
+   * @returns 404 when form cannot be found
+   * @returns 410 when form is archived
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .get(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsRead),
+    AdminFormController.handleGetAdminForm,
+  )
+  /**
+   * Archive the specified form.
+   * @security bearer
+   *
+   * @returns 200 with success message when successfully archived
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to archive form
+   * @returns 404 when form cannot be found
+   * @returns 410 when form is already archived
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .delete(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsWrite),
+    AdminFormController.handleArchiveForm,
+  )
+
+/**
+ * Duplicate the specified form.
+ * @route POST /:formId/duplicate
+ * @security bearer
+ *
+ * @returns 200 with the duplicate form dashboard view
+ * @returns 400 when Joi validation fails
+ * @returns 401 when user is not authorised
+ * @returns 403 when user does not have permissions to access form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsPublicRouter.post(
+  '/:formId([a-fA-F0-9]{24})/duplicate',
+  limitRate({ max: rateLimitConfig.publicApi }),
+  withApiKeyScope(ApiKeyScope.FormsWrite),
+  AdminFormController.handleDuplicateAdminForm,
+)
+
+/**
+ * Create a new field in the specified form
+ * @route POST /:formId/fields
+ * @security bearer
+ *
+ * @returns 200 with created form field
+ * @returns 400 when body is malformed
+ * @returns 401 when user is not authorised
+ * @returns 403 when user does not have permissions to update form
+ * @returns 404 when form cannot be found
+ * @returns 409 when saving updated form incurs a conflict in the database
+ * @returns 410 when form to update is archived
+ * @returns 413 when updated form is too large to be saved in the database
+ * @returns 422 when user cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsPublicRouter.post(
+  '/:formId([a-fA-F0-9]{24})/fields',
+  limitRate({ max: rateLimitConfig.publicApi }),
+  withApiKeyScope(ApiKeyScope.FormsWrite),
+  AdminFormController.handleCreateFormField,
+)
+
+AdminFormsPublicRouter.route(
+  '/:formId([a-fA-F0-9]{24})/fields/:fieldId([a-fA-F0-9]{24})',
+)
+  /**
+   * Retrieves the form field using the fieldId from the specified form
+   * @security bearer
+   *
+   * @returns 200 with form field when retrieval is successful
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to retrieve form field
+   * @returns 404 when form or form field cannot be found
+   * @returns 410 when retrieving form field of an archived form
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .get(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsRead),
+    AdminFormController.handleGetFormField,
+  )
+  /**
+   * Update form field according to given new body.
+   * @security bearer
+   *
+   * @param body the new field to override current field
+   * @returns 200 with updated form field
+   * @returns 400 when given body fails Joi validation
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to update form field
+   * @returns 404 when form or form field cannot be found
+   * @returns 410 when updating form field for archived form
+   * @returns 422 when an invalid form field update is attempted on the form
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .put(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsWrite),
+    AdminFormController.handleUpdateFormField,
+  )
+  /**
+   * Delete form field by fieldId of form corresponding to formId.
+   * @security bearer
+   *
+   * @returns 204 when deletion is successful
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to delete form field
+   * @returns 404 when form or form field to delete cannot be found
+   * @returns 410 when deleting form field of an archived form
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs during deletion
+   */
+  .delete(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsWrite),
+    AdminFormController.handleDeleteFormField,
+  )
+
+/**
+ * Duplicates the form field with the fieldId from the specified form
+ * @route POST /:formId/fields/:fieldId/duplicate
+ * @security bearer
+ *
+ * @returns 200 with duplicated field
+ * @returns 401 when user is not authorised
+ * @returns 403 when user does not have permissions to update form
+ * @returns 404 when form or field to duplicate cannot be found
+ * @returns 409 when saving updated form incurs a conflict in the database
+ * @returns 410 when form to update is archived
+ * @returns 413 when updated form is too large to be saved in the database
+ * @returns 422 when user cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsPublicRouter.post(
+  '/:formId([a-fA-F0-9]{24})/fields/:fieldId([a-fA-F0-9]{24})/duplicate',
+  limitRate({ max: rateLimitConfig.publicApi }),
+  withApiKeyScope(ApiKeyScope.FormsWrite),
+  AdminFormController.handleDuplicateFormField,
+)
+
+/**
+ * Reorders the form field with the fieldId to the given position
+ * @route POST /:formId/fields/:fieldId/reorder
+ * @security bearer
+ *
+ * @returns 200 with new ordering of form fields
+ * @returns 400 when Joi validation fails
+ * @returns 401 when user is not authorised
+ * @returns 403 when user does not have permissions to update form
+ * @returns 404 when form or field to reorder cannot be found
+ * @returns 410 when form to update is archived
+ * @returns 422 when user cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsPublicRouter.post(
+  '/:formId([a-fA-F0-9]{24})/fields/:fieldId([a-fA-F0-9]{24})/reorder',
+  limitRate({ max: rateLimitConfig.publicApi }),
+  withApiKeyScope(ApiKeyScope.FormsWrite),
+  AdminFormController.handleReorderFormField,
+)
+
+/**
+ * Creates a logic in the specified form
+ * @route POST /:formId/logic
+ * @security bearer
+ *
+ * @returns 200 with created logic when successfully created
+ * @returns 400 when Joi validation fails
+ * @returns 401 when user is not authorised
+ * @returns 403 when user does not have permissions to create logic
+ * @returns 404 when form cannot be found
+ * @returns 422 when user cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsPublicRouter.post(
+  '/:formId([a-fA-F0-9]{24})/logic',
+  limitRate({ max: rateLimitConfig.publicApi }),
+  withApiKeyScope(ApiKeyScope.FormsWrite),
+  AdminFormController.handleCreateLogic,
+)
+
+AdminFormsPublicRouter.route(
+  '/:formId([a-fA-F0-9]{24})/logic/:logicId([a-fA-F0-9]{24})',
+)
+  /**
+   * Updates a logic in the specified form
+   * @security bearer
+   *
+   * @returns 200 with updated logic when successfully updated
+   * @returns 400 when Joi validation fails
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to update logic
+   * @returns 404 when form or logic cannot be found
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .put(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsWrite),
+    AdminFormController.handleUpdateLogic,
+  )
+  /**
+   * Deletes a logic in the specified form
+   * @security bearer
+   *
+   * @returns 200 with success message when successfully deleted
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to delete logic
+   * @returns 404 when form or logic cannot be found
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .delete(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsWrite),
+    AdminFormController.handleDeleteLogic,
+  )
+
+AdminFormsPublicRouter.route('/:formId([a-fA-F0-9]{24})/settings')
+  /**
+   * Retrieve the settings of the specified form
+   * @security bearer
+   *
+   * @returns 200 with latest form settings
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to obtain form settings
+   * @returns 404 when form cannot be found
+   * @returns 410 when form is archived
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .get(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsRead),
+    withFormPermissionScope(FormPermissionScope.Settings),
+    AdminFormController.handleGetSettings,
+  )
+  /**
+   * Update form settings according to given subset of settings.
+   * @security bearer
+   *
+   * @param body the subset of settings to patch
+   * @returns 200 with latest form settings on successful update
+   * @returns 400 when given body fails Joi validation
+   * @returns 401 when user is not authorised
+   * @returns 403 when user does not have permissions to update form settings
+   * @returns 404 when form to update settings for cannot be found
+   * @returns 409 when saving form settings incurs a conflict in the database
+   * @returns 410 when updating settings for archived form
+   * @returns 413 when updating settings causes form to be too large to be saved in the database
+   * @returns 422 when an invalid settings update is attempted on the form
+   * @returns 422 when user cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .patch(
+    limitRate({ max: rateLimitConfig.publicApi }),
+    withApiKeyScope(ApiKeyScope.FormsWrite),
+    withFormPermissionScope(FormPermissionScope.Settings),
+    AdminFormController.handleUpdateSettings,
+  )
+
+/**
+ * Replaces the startPage of the given form with what is given in the request
+ * @route PUT /:formId/start-page
+ * @security bearer
+ *
+ * @returns 200 with updated start page
+ * @returns 400 when Joi validation fails
+ * @returns 401 when user is not authorised
+ * @returns 403 when user does not have permissions to update the start page
+ * @returns 404 when form cannot be found
+ * @returns 410 when updating the start page for an archived form
+ * @returns 422 when user cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsPublicRouter.put(
+  '/:formId([a-fA-F0-9]{24})/start-page',
+  limitRate({ max: rateLimitConfig.publicApi }),
+  withApiKeyScope(ApiKeyScope.FormsWrite),
+  AdminFormController.handleUpdateStartPage,
+)
+
+/**
+ * Replaces the endPage of the given form with what is given in the request
+ * @route PUT /:formId/end-page
+ * @security bearer
+ *
+ * @returns 200 with updated end page
+ * @returns 400 when Joi validation fails
+ * @returns 401 when user is not authorised
+ * @returns 403 when user does not have permissions to update the end page
+ * @returns 404 when form cannot be found
+ * @returns 410 when updating the end page for an archived form
+ * @returns 422 when user cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsPublicRouter.put(
+  '/:formId([a-fA-F0-9]{24})/end-page',
+  limitRate({ max: rateLimitConfig.publicApi }),
+  withApiKeyScope(ApiKeyScope.FormsWrite),
+  AdminFormController.handleUpdateEndPage,
+)
 
 /**
  * Count the number of submissions for a form
@@ -41,6 +397,8 @@ AdminFormsPublicRouter.route('/')
  * @returns 500 when database error occurs
  */
 AdminFormsPublicRouter.route('/:formId([a-fA-F0-9]{24})/submissions/count').get(
+  withApiKeyScope(ApiKeyScope.ResponsesRead),
+  withFormPermissionScope(FormPermissionScope.Responses),
   AdminFormController.handleCountFormSubmissions,
 )
 
@@ -61,4 +419,8 @@ AdminFormsPublicRouter.route('/:formId([a-fA-F0-9]{24})/submissions/count').get(
  */
 AdminFormsPublicRouter.route(
   '/:formId([a-fA-F0-9]{24})/submissions/download',
-).get(EncryptSubmissionController.handleStreamEncryptedResponses)
+).get(
+  withApiKeyScope(ApiKeyScope.ResponsesRead),
+  withFormPermissionScope(FormPermissionScope.Responses),
+  EncryptSubmissionController.handleStreamEncryptedResponses,
+)
@@ -0,0 +1,47 @@
+import { Router } from 'express'
+
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
+import * as AdminFormAuditLogController from '../../../../../modules/form/admin-form/admin-form.audit-log.controller'
+
+export const AdminFormsAuditLogRouter = Router()
+
+/**
+ * Retrieve a page of the changes made to a form, such as changes to its fields,
+ * logic, settings and collaborators, most recent first
+ * @route GET /api/v3/admin/forms/:formId/audit-logs
+ * @security session
+ *
+ * @returns 200 with the changes in the page and the total number of changes
+ * @returns 400 when the page is malformed
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to access form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsAuditLogRouter.get(
+  '/:formId([a-fA-F0-9]{24})/audit-logs',
+  withFormPermissionScope(FormPermissionScope.Settings),
+  AdminFormAuditLogController.handleListFormAuditLogs,
+)
+
+/**
+ * Download all the changes made to a form as a CSV file
+ * @route GET /api/v3/admin/forms/:formId/audit-logs/download
+ * @security session
+ *
+ * @returns 200 with the CSV file of the changes
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to access form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsAuditLogRouter.get(
+  '/:formId([a-fA-F0-9]{24})/audit-logs/download',
+  withFormPermissionScope(FormPermissionScope.Settings),
+  AdminFormAuditLogController.handleDownloadFormAuditLogs,
+)
@@ -1,5 +1,7 @@
 import { Router } from 'express'
 
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
 import * as AdminFormController from '../../../../../modules/form/admin-form/admin-form.controller'
 
 export const AdminFormsFeedbackRouter = Router()
@@ -19,6 +21,7 @@ export const AdminFormsFeedbackRouter = Router()
  */
 AdminFormsFeedbackRouter.get(
   '/:formId([a-fA-F0-9]{24})/feedback',
+  withFormPermissionScope(FormPermissionScope.Responses),
   AdminFormController.handleGetFormFeedback,
 )
 
@@ -37,6 +40,7 @@ AdminFormsFeedbackRouter.get(
  */
 AdminFormsFeedbackRouter.get(
   '/:formId([a-fA-F0-9]{24})/feedback/count',
+  withFormPermissionScope(FormPermissionScope.Responses),
   AdminFormController.handleCountFormFeedback,
 )
 
@@ -55,5 +59,6 @@ AdminFormsFeedbackRouter.get(
  */
 AdminFormsFeedbackRouter.get(
   '/:formId([a-fA-F0-9]{24})/feedback/download',
+  withFormPermissionScope(FormPermissionScope.Responses),
   AdminFormController.handleStreamFormFeedback,
 )
@@ -1,5 +1,7 @@
 import { Router } from 'express'
 
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
 import * as AdminFormController from '../../../../../modules/form/admin-form/admin-form.controller'
 
 export const AdminFormsGoGovRouter = Router()
@@ -10,11 +12,17 @@ AdminFormsGoGovRouter.route('/:formId([a-fA-F0-9]{24})/gogov')
    * @route GET /:formId/gogov
    * @security session
    */
-  .get(AdminFormController.handleGetGoLinkSuffix)
+  .get(
+    withFormPermissionScope(FormPermissionScope.Settings),
+    AdminFormController.handleGetGoLinkSuffix,
+  )
 
   /**
    * Set the go.gov.sg link for specified form
    * @route POST /:formId/gogov
    * @security session
    */
-  .post(AdminFormController.handleSetGoLinkSuffix)
+  .post(
+    withFormPermissionScope(FormPermissionScope.Settings),
+    AdminFormController.handleSetGoLinkSuffix,
+  )
@@ -0,0 +1,28 @@
+import { Router } from 'express'
+
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
+import * as AdminFormInsightsController from '../../../../../modules/form/admin-form/admin-form.insights.controller'
+
+export const AdminFormsInsightsRouter = Router()
+
+/**
+ * Retrieve the insights of a form, such as its submissions over time, median
+ * completion time and conversion from views to submissions
+ * @route GET /api/v3/admin/forms/:formId/insights
+ * @security session
+ *
+ * @returns 200 with the insights of the form
+ * @returns 400 when the date range is malformed
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to access form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsInsightsRouter.get(
+  '/:formId([a-fA-F0-9]{24})/insights',
+  withFormPermissionScope(FormPermissionScope.Responses),
+  AdminFormInsightsController.handleGetFormInsights,
+)
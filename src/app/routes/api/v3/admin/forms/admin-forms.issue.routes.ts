@@ -1,5 +1,7 @@
 import { Router } from 'express'
 
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
 import * as AdminFormController from '../../../../../modules/form/admin-form/admin-form.issue.controller'
 
 export const AdminFormsIssueRouter = Router()
@@ -19,9 +21,72 @@ export const AdminFormsIssueRouter = Router()
  */
 AdminFormsIssueRouter.get(
   '/:formId([a-fA-F0-9]{24})/issues',
+  withFormPermissionScope(FormPermissionScope.Responses),
   AdminFormController.handleGetFormIssues,
 )
 
+/**
+ * Update the status of multiple issues of a form at once
+ * @route PATCH /api/v3/admin/forms/:formId/issues
+ * @security session
+ *
+ * @returns 200 with the number of issues updated
+ * @returns 400 when body is malformed
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to update the form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsIssueRouter.patch(
+  '/:formId([a-fA-F0-9]{24})/issues',
+  withFormPermissionScope(FormPermissionScope.Responses),
+  AdminFormController.handleUpdateFormIssuesStatus,
+)
+
+/**
+ * Update the status, assignee or notes of an issue of a form
+ * @route PATCH /api/v3/admin/forms/:formId/issues/:issueId
+ * @security session
+ *
+ * @returns 200 with the updated issue
+ * @returns 400 when body is malformed
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to update the form
+ * @returns 404 when form or issue cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 422 when the assignee is not the form admin or a collaborator
+ * @returns 500 when database error occurs
+ */
+AdminFormsIssueRouter.patch(
+  '/:formId([a-fA-F0-9]{24})/issues/:issueId([a-fA-F0-9]{24})',
+  withFormPermissionScope(FormPermissionScope.Responses),
+  AdminFormController.handleUpdateFormIssue,
+)
+
+/**
+ * Email a reply to the respondent who reported an issue of a form
+ * @route POST /api/v3/admin/forms/:formId/issues/:issueId/reply
+ * @security session
+ *
+ * @returns 200 with the updated issue
+ * @returns 400 when body is malformed
+ * @returns 400 when the reporter of the issue did not leave an email
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to update the form
+ * @returns 404 when form or issue cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when the reply could not be sent or database error occurs
+ */
+AdminFormsIssueRouter.post(
+  '/:formId([a-fA-F0-9]{24})/issues/:issueId([a-fA-F0-9]{24})/reply',
+  withFormPermissionScope(FormPermissionScope.Responses),
+  AdminFormController.handleReplyToFormIssue,
+)
+
 /**
  * Stream download all issues for a form
  * @route GET /api/v3/admin/forms/:formId/issues/download
@@ -37,5 +102,6 @@ AdminFormsIssueRouter.get(
  */
 AdminFormsIssueRouter.get(
   '/:formId([a-fA-F0-9]{24})/issues/download',
+  withFormPermissionScope(FormPermissionScope.Responses),
   AdminFormController.handleStreamFormIssues,
 )
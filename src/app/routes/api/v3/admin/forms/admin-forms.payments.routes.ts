@@ -1,5 +1,7 @@
 import { Router } from 'express'
 
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
 import * as AdminPaymentsController from '../../../../../modules/form/admin-form/admin-form.payments.controller'
 
 export const AdminFormsPaymentsRouter = Router()
@@ -19,7 +21,10 @@ AdminFormsPaymentsRouter.route('/:formId([a-fA-F0-9]{24})/stripe')
    * @returns 422 when the form to be updated is not an encrypt mode form
    * @returns 500 when database error occurs
    */
-  .post(AdminPaymentsController.handleConnectAccount)
+  .post(
+    withFormPermissionScope(FormPermissionScope.Payments),
+    AdminPaymentsController.handleConnectAccount,
+  )
   /**
    * Delete the specified form stripe credentials
    * @route DELETE /:formId/stripe
@@ -34,7 +39,10 @@ AdminFormsPaymentsRouter.route('/:formId([a-fA-F0-9]{24})/stripe')
    * @returns 422 when the form to be updated is not an encrypt mode form
    * @returns 500 when database error occurs
    */
-  .delete(AdminPaymentsController.handleUnlinkAccount)
+  .delete(
+    withFormPermissionScope(FormPermissionScope.Payments),
+    AdminPaymentsController.handleUnlinkAccount,
+  )
 
 /**
  * Validate that the connected Stripe account is able to receive payments.
@@ -52,6 +60,7 @@ AdminFormsPaymentsRouter.route('/:formId([a-fA-F0-9]{24})/stripe')
  * @returns 502 when the connected Stripe credentials are invalid
  */
 AdminFormsPaymentsRouter.route('/:formId([a-fA-F0-9]{24})/stripe/validate').get(
+  withFormPermissionScope(FormPermissionScope.Payments),
   AdminPaymentsController.handleValidatePaymentAccount,
 )
 
@@ -70,9 +79,57 @@ AdminFormsPaymentsRouter.route('/:formId([a-fA-F0-9]{24})/stripe/validate').get(
  */
 AdminFormsPaymentsRouter.put(
   '/:formId([a-fA-F0-9]{24})/payments',
+  withFormPermissionScope(FormPermissionScope.Payments),
   AdminPaymentsController.handleUpdatePayments,
 )
 
+/**
+ * Retrieves the report of all payments of the form, optionally within a date
+ * range, with a summary of totals. Payments within a date range of at most
+ * 31 days can also be compared against their state on Stripe to flag
+ * mismatches.
+ * @route GET /:formId/payments/report
+ * @precondition Must be preceded by request validation
+ * @security session
+ *
+ * @returns 200 with the payments report of the form, as JSON or as a CSV file
+ * @returns 400 when the date range is malformed, or missing or too long for a report verified with Stripe
+ * @returns 403 when current user does not have permissions to view the form
+ * @returns 404 when form cannot be found
+ * @returns 410 when the form has been archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 422 when the form is not an encrypt mode form
+ * @returns 500 when database error occurs
+ */
+AdminFormsPaymentsRouter.get(
+  '/:formId([a-fA-F0-9]{24})/payments/report',
+  withFormPermissionScope(FormPermissionScope.Payments),
+  AdminPaymentsController.handleGetPaymentsReport,
+)
+
+/**
+ * Refunds the given payment of the form, in full or in part, and notifies the
+ * payer by email
+ * @route POST /:formId/payments/:paymentId/refunds
+ * @precondition Must be preceded by request validation
+ * @security session
+ *
+ * @returns 200 with the refunded payment
+ * @returns 400 when the payment cannot be refunded or the refund amount is invalid
+ * @returns 403 when current user does not have permissions to refund the payment
+ * @returns 404 when form or payment cannot be found
+ * @returns 410 when the form has been archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 422 when the form is not an encrypt mode form
+ * @returns 500 when database error occurs
+ * @returns 502 when Stripe fails to create the refund
+ */
+AdminFormsPaymentsRouter.post(
+  '/:formId([a-fA-F0-9]{24})/payments/:paymentId([a-fA-F0-9]{24})/refunds',
+  withFormPermissionScope(FormPermissionScope.Payments),
+  AdminPaymentsController.handleRefundPayment,
+)
+
 AdminFormsPaymentsRouter.get(
   '/guide/payments',
   AdminPaymentsController.handleGetPaymentGuideLink,
@@ -5,9 +5,11 @@ import {
   withUserAuthentication,
 } from '../../../../../modules/auth/auth.middlewares'
 
+import { AdminFormsAuditLogRouter } from './admin-forms.audit-log.routes'
 import { AdminFormsFeedbackRouter } from './admin-forms.feedback.routes'
 import { AdminFormsFormRouter } from './admin-forms.form.routes'
 import { AdminFormsGoGovRouter } from './admin-forms.gogov.routes'
+import { AdminFormsInsightsRouter } from './admin-forms.insights.routes'
 import { AdminFormsIssueRouter } from './admin-forms.issue.routes'
 import { AdminFormsLogicRouter } from './admin-forms.logic.routes'
 import { AdminFormsPaymentsRouter } from './admin-forms.payments.routes'
@@ -15,7 +17,9 @@ import { AdminFormsPresignRouter } from './admin-forms.presign.routes'
 import { AdminFormsPreviewRouter } from './admin-forms.preview.routes'
 import { AdminFormsSettingsRouter } from './admin-forms.settings.routes'
 import { AdminFormsSubmissionsRouter } from './admin-forms.submissions.routes'
+import { AdminFormsTemplateRouter } from './admin-forms.template.routes'
 import { AdminFormsTwilioRouter } from './admin-forms.twilio.routes'
+import { AdminFormsWebhooksRouter } from './admin-forms.webhooks.routes'
 
 export const AdminFormsRouter = Router()
 
@@ -36,3 +40,7 @@ AdminFormsRouter.use(AdminFormsTwilioRouter)
 AdminFormsRouter.use(AdminFormsPaymentsRouter)
 AdminFormsRouter.use(AdminFormsGoGovRouter)
 AdminFormsRouter.use(AdminFormsIssueRouter)
+AdminFormsRouter.use(AdminFormsInsightsRouter)
+AdminFormsRouter.use(AdminFormsWebhooksRouter)
+AdminFormsRouter.use(AdminFormsTemplateRouter)
+AdminFormsRouter.use(AdminFormsAuditLogRouter)
@@ -1,5 +1,7 @@
 import { Router } from 'express'
 
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
 import * as AdminFormController from '../../../../../modules/form/admin-form/admin-form.controller'
 
 export const AdminFormsSettingsRouter = Router()
@@ -24,7 +26,10 @@ AdminFormsSettingsRouter.route('/:formId([a-fA-F0-9]{24})/settings')
    * @returns 422 when user in session cannot be retrieved from the database
    * @returns 500 when database error occurs
    */
-  .patch(AdminFormController.handleUpdateSettings)
+  .patch(
+    withFormPermissionScope(FormPermissionScope.Settings),
+    AdminFormController.handleUpdateSettings,
+  )
   /**
    * Retrieve the settings of the specified form
    * @route GET /admin/forms/:formId/settings
@@ -37,7 +42,10 @@ AdminFormsSettingsRouter.route('/:formId([a-fA-F0-9]{24})/settings')
    * @returns 409 when saving form settings incurs a conflict in the database
    * @returns 500 when database error occurs
    */
-  .get(AdminFormController.handleGetSettings)
+  .get(
+    withFormPermissionScope(FormPermissionScope.Settings),
+    AdminFormController.handleGetSettings,
+  )
 
 AdminFormsSettingsRouter.route('/:formId([a-fA-F0-9]{24})/collaborators')
   /**
@@ -54,7 +62,10 @@ AdminFormsSettingsRouter.route('/:formId([a-fA-F0-9]{24})/collaborators')
    * @returns 422 when user in session cannot be retrieved from the database
    * @returns 500 when database error occurs
    */
-  .put(AdminFormController.handleUpdateCollaborators)
+  .put(
+    withFormPermissionScope(FormPermissionScope.Collaborators),
+    AdminFormController.handleUpdateCollaborators,
+  )
   /**
    * Retrieves the collaborators for a given formId
    * @route GET /admin/forms/:formId/collaborators
@@ -70,7 +81,10 @@ AdminFormsSettingsRouter.route('/:formId([a-fA-F0-9]{24})/collaborators')
    * @returns 422 when user in session cannot be retrieved from the database
    * @returns 500 when database error occurs
    */
-  .get(AdminFormController.handleGetFormCollaborators)
+  .get(
+    withFormPermissionScope(FormPermissionScope.Collaborators),
+    AdminFormController.handleGetFormCollaborators,
+  )
 
 AdminFormsSettingsRouter.route('/:formId([a-fA-F0-9]{24})/collaborators/self')
   /**
@@ -87,4 +101,7 @@ AdminFormsSettingsRouter.route('/:formId([a-fA-F0-9]{24})/collaborators/self')
    * @returns 422 when user in session cannot be retrieved from the database
    * @returns 500 when database error occurs
    */
-  .delete(AdminFormController.handleRemoveSelfFromCollaborators)
+  .delete(
+    withFormPermissionScope(FormPermissionScope.Collaborators),
+    AdminFormController.handleRemoveSelfFromCollaborators,
+  )
@@ -1,5 +1,7 @@
 import { Router } from 'express'
 
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
 import * as AdminFormController from '../../../../../modules/form/admin-form/admin-form.controller'
 import * as EncryptSubmissionController from '../../../../../modules/submission/encrypt-submission/encrypt-submission.controller'
 
@@ -21,7 +23,10 @@ export const AdminFormsSubmissionsRouter = Router()
  */
 AdminFormsSubmissionsRouter.route(
   '/:formId([a-fA-F0-9]{24})/submissions/count',
-).get(AdminFormController.handleCountFormSubmissions)
+).get(
+  withFormPermissionScope(FormPermissionScope.Responses),
+  AdminFormController.handleCountFormSubmissions,
+)
 
 /**
  * Stream download all encrypted responses for a form
@@ -40,7 +45,10 @@ AdminFormsSubmissionsRouter.route(
  */
 AdminFormsSubmissionsRouter.route(
   '/:formId([a-fA-F0-9]{24})/submissions/download',
-).get(EncryptSubmissionController.handleStreamEncryptedResponses)
+).get(
+  withFormPermissionScope(FormPermissionScope.Responses),
+  EncryptSubmissionController.handleStreamEncryptedResponses,
+)
 
 /**
  * Retrieve actual response for a storage mode form
@@ -60,7 +68,10 @@ AdminFormsSubmissionsRouter.route(
  */
 AdminFormsSubmissionsRouter.route(
   '/:formId([a-fA-F0-9]{24})/submissions/:submissionId([a-fA-F0-9]{24})',
-).get(EncryptSubmissionController.handleGetEncryptedResponse)
+).get(
+  withFormPermissionScope(FormPermissionScope.Responses),
+  EncryptSubmissionController.handleGetEncryptedResponse,
+)
 
 /**
  * Retrieve metadata of responses for a form with encrypted storage
@@ -78,5 +89,6 @@ AdminFormsSubmissionsRouter.route(
  */
 AdminFormsSubmissionsRouter.get(
   '/:formId([a-fA-F0-9]{24})/submissions/metadata',
+  withFormPermissionScope(FormPermissionScope.Responses),
   EncryptSubmissionController.handleGetMetadata,
 )
@@ -0,0 +1,67 @@
+import { Router } from 'express'
+
+import * as AdminFormController from '../../../../../modules/form/admin-form/admin-form.template.controller'
+
+export const AdminFormsTemplateRouter = Router()
+
+AdminFormsTemplateRouter.route('/templates')
+  /**
+   * Retrieve the templates in the templates gallery
+   * @route GET /api/v3/admin/forms/templates
+   * @security session
+   *
+   * @returns 200 with the templates matching the query
+   * @returns 400 when Joi validation fails
+   * @returns 401 when user does not exist in session
+   * @returns 500 when database error occurs
+   */
+  .get(AdminFormController.handleListFormTemplates)
+  /**
+   * Publish a form to the templates gallery
+   * @route POST /api/v3/admin/forms/templates
+   * @security session
+   *
+   * @returns 200 with the published template
+   * @returns 400 when Joi validation fails
+   * @returns 401 when user does not exist in session
+   * @returns 403 when user is not the owner of the form
+   * @returns 403 when user is not an agency admin
+   * @returns 404 when form cannot be found
+   * @returns 409 when the form has already been published as a template
+   * @returns 410 when form is archived
+   * @returns 422 when user in session cannot be retrieved from the database
+   * @returns 422 when the form is not public
+   * @returns 500 when database error occurs
+   */
+  .post(AdminFormController.handlePublishFormTemplate)
+
+AdminFormsTemplateRouter.route('/templates/:templateId([a-fA-F0-9]{24})')
+  /**
+   * Update the title, description or category of a template
+   * @route PUT /api/v3/admin/forms/templates/:templateId
+   * @security session
+   *
+   * @returns 200 with the updated template
+   * @returns 400 when Joi validation fails
+   * @returns 401 when user does not exist in session
+   * @returns 403 when user is not the owner of the form of the template
+   * @returns 404 when template or its form cannot be found
+   * @returns 410 when the form of the template is archived
+   * @returns 422 when user in session cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .put(AdminFormController.handleUpdateFormTemplate)
+  /**
+   * Remove a template from the templates gallery
+   * @route DELETE /api/v3/admin/forms/templates/:templateId
+   * @security session
+   *
+   * @returns 200 when the template is unpublished
+   * @returns 401 when user does not exist in session
+   * @returns 403 when user is not the owner of the form of the template
+   * @returns 404 when template or its form cannot be found
+   * @returns 410 when the form of the template is archived
+   * @returns 422 when user in session cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .delete(AdminFormController.handleUnpublishFormTemplate)
@@ -1,5 +1,7 @@
 import { Router } from 'express'
 
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
 import * as AdminFormController from '../../../../../modules/form/admin-form/admin-form.controller'
 
 export const AdminFormsTwilioRouter = Router()
@@ -18,7 +20,10 @@ AdminFormsTwilioRouter.route('/:formId([a-fA-F0-9]{24})/twilio')
    * @returns 422 when id of user who is updating the form cannot be found
    * @returns 500 when database error occurs
    */
-  .put(AdminFormController.handleUpdateTwilio)
+  .put(
+    withFormPermissionScope(FormPermissionScope.Settings),
+    AdminFormController.handleUpdateTwilio,
+  )
   /**
    * @returns 200 when twilio credentials successfully deleted
    * @returns 401 when user does not exist in session
@@ -27,4 +32,7 @@ AdminFormsTwilioRouter.route('/:formId([a-fA-F0-9]{24})/twilio')
    * @returns 422 when user in session cannot be retrieved from the database
    * @returns 500 when database error occurs
    */
-  .delete(AdminFormController.handleDeleteTwilio)
+  .delete(
+    withFormPermissionScope(FormPermissionScope.Settings),
+    AdminFormController.handleDeleteTwilio,
+  )
@@ -0,0 +1,72 @@
+import { Router } from 'express'
+
+import { FormPermissionScope } from '../../../../../../../shared/types'
+import { withFormPermissionScope } from '../../../../../modules/auth/auth.middlewares'
+import * as AdminFormWebhookController from '../../../../../modules/form/admin-form/admin-form.webhook.controller'
+
+export const AdminFormsWebhooksRouter = Router()
+
+/**
+ * Retrieve the webhook deliveries of the latest submissions of a form,
+ * optionally only those with the given status, e.g. the failed deliveries
+ * @route GET /api/v3/admin/forms/:formId/webhooks/deliveries
+ * @security session
+ *
+ * @returns 200 with the webhook deliveries, most recent first
+ * @returns 400 when the limit or status query parameter is invalid
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to access form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AdminFormsWebhooksRouter.get(
+  '/:formId([a-fA-F0-9]{24})/webhooks/deliveries',
+  withFormPermissionScope(FormPermissionScope.Settings),
+  AdminFormWebhookController.handleGetWebhookDeliveries,
+)
+
+/**
+ * Queue the webhooks of a form which have failed since the given date for
+ * redelivery
+ * @route POST /api/v3/admin/forms/:formId/webhooks/deliveries/redeliver
+ * @security session
+ *
+ * @returns 200 with the number of webhooks queued for redelivery
+ * @returns 400 when the body is invalid or form has no webhook URL
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to update form
+ * @returns 404 when form cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs or webhooks cannot be queued
+ * @returns 503 when webhook queue is not configured
+ */
+AdminFormsWebhooksRouter.post(
+  '/:formId([a-fA-F0-9]{24})/webhooks/deliveries/redeliver',
+  withFormPermissionScope(FormPermissionScope.Settings),
+  AdminFormWebhookController.handleRedeliverFailedWebhooks,
+)
+
+/**
+ * Queue the webhook of a submission for redelivery, to the primary webhook URL
+ * or to the additional endpoint given in the body
+ * @route POST /api/v3/admin/forms/:formId/webhooks/deliveries/:submissionId/redeliver
+ * @security session
+ *
+ * @returns 200 when the webhook is queued for redelivery
+ * @returns 400 when form has no webhook URL or the given endpoint
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user does not have permissions to update form
+ * @returns 404 when form or submission cannot be found
+ * @returns 410 when form is archived
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs or webhook cannot be queued
+ * @returns 503 when webhook queue is not configured
+ */
+AdminFormsWebhooksRouter.post(
+  '/:formId([a-fA-F0-9]{24})/webhooks/deliveries/:submissionId([a-fA-F0-9]{24})/redeliver',
+  withFormPermissionScope(FormPermissionScope.Settings),
+  AdminFormWebhookController.handleRedeliverWebhook,
+)
@@ -0,0 +1,157 @@
+import { Router } from 'express'
+
+import * as AgencyController from '../../../../modules/agency/agency.controller'
+import { withUserAuthentication } from '../../../../modules/auth/auth.middlewares'
+
+export const AgenciesRouter = Router()
+
+// All routes in this router are protected, and only available to super-admins,
+// apart from the form routes which are only available to agency admins.
+AgenciesRouter.use(withUserAuthentication)
+
+AgenciesRouter.route('/')
+  /**
+   * List all agencies, along with their number of users
+   * @route GET /api/v3/agencies
+   * @security session
+   *
+   * @returns 200 with the agencies
+   * @returns 401 when user does not exist in session
+   * @returns 403 when user is not a super-admin
+   * @returns 422 when user in session cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .get(AgencyController.handleListAgencies)
+  /**
+   * Create an agency
+   * @route POST /api/v3/agencies
+   * @security session
+   *
+   * @returns 200 with the created agency
+   * @returns 400 when Joi validation fails or the agency is invalid
+   * @returns 401 when user does not exist in session
+   * @returns 403 when user is not a super-admin
+   * @returns 409 when any email domain already belongs to another agency
+   * @returns 422 when user in session cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .post(AgencyController.handleCreateAgency)
+
+/**
+ * Create a presigned URL to upload an agency logo with
+ * @route POST /api/v3/agencies/logos/presign
+ * @security session
+ *
+ * @returns 200 with presigned POST URL object
+ * @returns 400 when Joi validation fails or the presigned URL cannot be created
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user is not a super-admin
+ * @returns 422 when user in session cannot be retrieved from the database
+ */
+AgenciesRouter.post(
+  '/logos/presign',
+  AgencyController.handleCreatePresignedPostUrlForAgencyLogo,
+)
+
+AgenciesRouter.route('/:agencyId([a-fA-F0-9]{24})')
+  /**
+   * Retrieve an agency, along with its users and the number of forms they own
+   * @route GET /api/v3/agencies/:agencyId
+   * @security session
+   *
+   * @returns 200 with the agency and its users
+   * @returns 401 when user does not exist in session
+   * @returns 403 when user is not a super-admin
+   * @returns 404 when the agency cannot be found
+   * @returns 422 when user in session cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .get(AgencyController.handleGetAgency)
+  /**
+   * Update the details or email domains of an agency. Removing an email
+   * domain stops new logins with the domain, but existing users of the
+   * domain remain in the agency.
+   * @route PATCH /api/v3/agencies/:agencyId
+   * @security session
+   *
+   * @returns 200 with the updated agency
+   * @returns 400 when Joi validation fails or the updated agency is invalid
+   * @returns 401 when user does not exist in session
+   * @returns 403 when user is not a super-admin
+   * @returns 404 when the agency cannot be found
+   * @returns 409 when any email domain already belongs to another agency
+   * @returns 422 when user in session cannot be retrieved from the database
+   * @returns 500 when database error occurs
+   */
+  .patch(AgencyController.handleUpdateAgency)
+
+/**
+ * List the changes made to an agency by super-admins, most recent first
+ * @route GET /api/v3/agencies/:agencyId/audit-logs
+ * @security session
+ *
+ * @returns 200 with the changes made to the agency
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user is not a super-admin
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AgenciesRouter.get(
+  '/:agencyId([a-fA-F0-9]{24})/audit-logs',
+  AgencyController.handleListAgencyAuditLogs,
+)
+
+/**
+ * Assign or remove the agency admin role of a user of an agency
+ * @route PATCH /api/v3/agencies/:agencyId/users/:userId
+ * @security session
+ *
+ * @returns 200 with the updated user
+ * @returns 400 when Joi validation fails
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user is not a super-admin
+ * @returns 404 when the user to update is not a user of the agency, or is a super-admin
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AgenciesRouter.patch(
+  '/:agencyId([a-fA-F0-9]{24})/users/:userId([a-fA-F0-9]{24})',
+  AgencyController.handleUpdateAgencyUser,
+)
+
+/**
+ * List the forms owned by users of an agency which have not been deleted,
+ * most recently modified first
+ * @route GET /api/v3/agencies/:agencyId/forms
+ * @security session
+ *
+ * @returns 200 with the forms of the agency
+ * @returns 400 when Joi validation fails
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user is not an agency admin of the agency
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AgenciesRouter.get(
+  '/:agencyId([a-fA-F0-9]{24})/forms',
+  AgencyController.handleListAgencyForms,
+)
+
+/**
+ * Transfer the ownership of forms of an agency to another user of the agency
+ * @route POST /api/v3/agencies/:agencyId/forms/transfer-owner
+ * @security session
+ *
+ * @returns 200 with the transferred forms and the forms which could not be transferred
+ * @returns 400 when Joi validation fails, or the new owner has not logged in before or is not a user of the agency
+ * @returns 401 when user does not exist in session
+ * @returns 403 when user is not an agency admin of the agency of the forms
+ * @returns 404 when any form cannot be found
+ * @returns 410 when any form has been deleted
+ * @returns 422 when user in session cannot be retrieved from the database
+ * @returns 500 when database error occurs
+ */
+AgenciesRouter.post(
+  '/:agencyId([a-fA-F0-9]{24})/forms/transfer-owner',
+  AgencyController.handleTransferAgencyFormsOwnership,
+)
@@ -0,0 +1 @@
+export { AgenciesRouter } from './agencies.routes'
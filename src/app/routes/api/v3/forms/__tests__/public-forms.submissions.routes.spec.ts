@@ -7,6 +7,7 @@ import session, { Session } from 'supertest-session'
 
 import { FormFieldSchema } from 'src/types'
 
+import { MAX_RESPONSE_METADATA_PAGES } from '../../../../../../../shared/constants'
 import { FormAuthType, FormStatus } from '../../../../../../../shared/types'
 import {
   MOCK_COOKIE_AGE,
@@ -291,6 +292,42 @@ describe('public-form.submissions.routes', () => {
         expect(response.body.message).toEqual('Validation failed')
       })
 
+      it('should return 400 when response metadata has too many pages', async () => {
+        // Arrange
+        const { form } = await dbHandler.insertEmailForm({
+          formOptions: {
+            hasCaptcha: false,
+            status: FormStatus.Public,
+          },
+        })
+
+        // Act
+        const response = await request
+          .post(`/forms/${form._id}/submissions/email`)
+          .field(
+            'body',
+            JSON.stringify({
+              responses: [MOCK_TEXTFIELD_RESPONSE],
+              responseMetadata: {
+                responseTimeMs: 1000,
+                numVisibleFields: 1,
+                pages: Array.from(
+                  { length: MAX_RESPONSE_METADATA_PAGES + 1 },
+                  () => ({
+                    sectionId: new mongoose.Types.ObjectId().toHexString(),
+                    timeSpentMs: 10,
+                  }),
+                ),
+              },
+            }),
+          )
+          .query({ captchaResponse: 'null', captchaType: '' })
+
+        // Assert
+        expect(response.status).toBe(400)
+        expect(response.body.message).toEqual('Validation failed')
+      })
+
       it('should return 400 when response is missing _id', async () => {
         // Arrange
         const { form } = await dbHandler.insertEmailForm({
@@ -0,0 +1,59 @@
+import { Router } from 'express'
+
+import { rateLimitConfig } from '../../../../config/config'
+import * as DraftController from '../../../../modules/draft/draft.controller'
+import { limitRate } from '../../../../utils/limit-rate'
+
+export const PublicFormsDraftRouter = Router()
+
+/**
+ * Saves the respondent's draft of a form. New drafts of forms without
+ * Singpass, Corppass or sgID authentication are resumed with a link emailed to
+ * the respondent.
+ * @route POST /:formId/drafts
+ * @param {string} formId.path.required - the form id
+ * @param {SaveFormDraftBodyDto} body.required - the draft responses, with the email for new drafts or the key of the draft to update
+ * @returns 200 with the draft key and expiry if the draft was saved
+ * @returns 400 if a new draft is saved without an email
+ * @returns 401 if the respondent is not logged in to an authenticated form
+ * @returns 404 if form does not exist or is private, or the draft to update does not exist
+ * @returns 410 if form has been archived
+ * @returns 429 if the form has reached the maximum number of drafts
+ * @returns 500 if database error occurs or the resume link could not be emailed
+ */
+PublicFormsDraftRouter.route('/:formId([a-fA-F0-9]{24})/drafts')
+  .post(
+    limitRate({ max: rateLimitConfig.submissions }),
+    DraftController.handleSaveFormDraft,
+  )
+  /**
+   * Deletes the respondent's draft of a form, e.g. after it is submitted.
+   * @route DELETE /:formId/drafts
+   * @param {string} formId.path.required - the form id
+   * @param {FormDraftKeyBodyDto} body.required - the key of the draft for forms without authentication
+   * @returns 200 if the draft was deleted
+   * @returns 401 if the respondent is not logged in to an authenticated form
+   * @returns 404 if form or draft does not exist
+   * @returns 500 if database error occurs
+   */
+  .delete(
+    limitRate({ max: rateLimitConfig.submissions }),
+    DraftController.handleDeleteFormDraft,
+  )
+
+/**
+ * Retrieves the respondent's draft of a form.
+ * @route POST /:formId/drafts/resume
+ * @param {string} formId.path.required - the form id
+ * @param {FormDraftKeyBodyDto} body.required - the key of the draft from the resume link, for forms without authentication
+ * @returns 200 with the draft responses and expiry
+ * @returns 401 if the respondent is not logged in to an authenticated form
+ * @returns 404 if form does not exist or is private, or the draft does not exist or has expired
+ * @returns 410 if form has been archived
+ * @returns 500 if database error occurs or the draft could not be decrypted
+ */
+PublicFormsDraftRouter.post(
+  '/:formId([a-fA-F0-9]{24})/drafts/resume',
+  limitRate({ max: rateLimitConfig.submissions }),
+  DraftController.handleResumeFormDraft,
+)
@@ -1,6 +1,8 @@
 import { Router } from 'express'
 
+import { rateLimitConfig } from '../../../../config/config'
 import * as PublicFormController from '../../../../modules/form/public-form/public-form.controller'
+import { limitRate } from '../../../../utils/limit-rate'
 
 export const PublicFormsFormRouter = Router()
 
@@ -35,3 +37,18 @@ PublicFormsFormRouter.route('/:formId([a-fA-F0-9]{24})').get(
 PublicFormsFormRouter.route('/:formId([a-fA-F0-9]{24})/sample-submission').get(
   PublicFormController.handleGetPublicFormSampleSubmission,
 )
+
+/**
+ * Counts a view of the specified form for its insights. Sent by the public
+ * form page once per browser session of a respondent.
+ * @route POST /:formId/views
+ *
+ * @returns 200 if the view was counted
+ * @returns 404 when form is private or form with given ID does not exist
+ * @returns 410 when form is archived
+ * @returns 500 when database error occurs
+ */
+PublicFormsFormRouter.route('/:formId([a-fA-F0-9]{24})/views').post(
+  limitRate({ max: rateLimitConfig.submissions }),
+  PublicFormController.handleRecordFormView,
+)
@@ -1,9 +1,11 @@
 import { Router } from 'express'
 
 import { PublicFormsAuthRouter } from './public-forms.auth.routes'
+import { PublicFormsDraftRouter } from './public-forms.draft.routes'
 import { PublicFormsFeedbackRouter } from './public-forms.feedback.routes'
 import { PublicFormsFormRouter } from './public-forms.form.routes'
 import { PublicFormsIssueRouter } from './public-forms.issue.routes'
+import { PublicFormsScheduleRouter } from './public-forms.schedule.routes'
 import { PublicFormsSubmissionsRouter } from './public-forms.submissions.routes'
 import { PublicFormsVerificationRouter } from './public-forms.verification.routes'
 
@@ -15,3 +17,5 @@ PublicFormsRouter.use(PublicFormsFormRouter)
 PublicFormsRouter.use(PublicFormsAuthRouter)
 PublicFormsRouter.use(PublicFormsVerificationRouter)
 PublicFormsRouter.use(PublicFormsIssueRouter)
+PublicFormsRouter.use(PublicFormsDraftRouter)
+PublicFormsRouter.use(PublicFormsScheduleRouter)
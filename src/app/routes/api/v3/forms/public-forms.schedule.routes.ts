@@ -0,0 +1,22 @@
+import { Router } from 'express'
+
+import { withCronFormScheduleSecretAuthentication } from '../../../../modules/auth/auth.middlewares'
+import * as PublicFormController from '../../../../modules/form/public-form/public-form.controller'
+
+export const PublicFormsScheduleRouter = Router()
+
+/**
+ * Publishes and deactivates forms whose scheduled opening or closing times
+ * have passed, and notifies their admins and collaborators.
+ * @protected
+ * @route POST /forms/schedule/process
+ *
+ * @returns 200 with the number of forms opened and closed
+ * @returns 401 if the cron secret is invalid
+ * @returns 500 if database error occurs
+ */
+PublicFormsScheduleRouter.post(
+  '/schedule/process',
+  withCronFormScheduleSecretAuthentication,
+  PublicFormController.handleProcessFormSchedules,
+)
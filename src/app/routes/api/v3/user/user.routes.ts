@@ -1,6 +1,7 @@
 import { Router } from 'express'
 
 import { rateLimitConfig } from '../../../../config/config'
+import { withUserAuthentication } from '../../../../modules/auth/auth.middlewares'
 import * as UserController from '../../../../modules/user/user.controller'
 import { limitRate } from '../../../../utils/limit-rate'
 
@@ -67,4 +68,61 @@ UserRouter.post(
   UserController.handleUpdateUserLastSeenFeatureUpdateVersion,
 )
 
+// * /api-keys subroute
+
+/**
+ * Lists the API keys of the session user, including revoked and expired keys
+ * @route GET /user/api-keys
+ * @returns 200 with the list of API keys
+ * @returns 401 if user is not currently logged in
+ * @returns 422 when userId does not exist in the database
+ * @returns 500 when database errors occurs
+ */
+UserRouter.route('/api-keys')
+  .get(withUserAuthentication, UserController.handleListApiKeys)
+  /**
+   * Creates a new API key for the session user
+   * @route POST /user/api-keys
+   * @param body.name the name of the key
+   * @param body.scopes the scopes granted to the key
+   * @param body.formIds the forms the key is restricted to, if any
+   * @param body.expiresAt the expiry of the key, if any
+   * @returns 200 with the created API key and its plaintext token
+   * @returns 400 when body fails validation
+   * @returns 401 if user is not currently logged in
+   * @returns 422 when userId does not exist in the database
+   * @returns 422 when the maximum number of active API keys is reached
+   * @returns 500 when database errors occurs
+   */
+  .post(withUserAuthentication, UserController.handleCreateApiKey)
+
+/**
+ * Revokes an API key of the session user
+ * @route DELETE /user/api-keys/:keyId
+ * @returns 200 with the revoked API key
+ * @returns 401 if user is not currently logged in
+ * @returns 404 when the API key cannot be found or is already revoked
+ * @returns 500 when database errors occurs
+ */
+UserRouter.delete(
+  '/api-keys/:keyId([a-fA-F0-9]{24})',
+  withUserAuthentication,
+  UserController.handleRevokeApiKey,
+)
+
+/**
+ * Replaces the secret of an API key of the session user
+ * @route POST /user/api-keys/:keyId/rotate
+ * @returns 200 with the rotated API key and its new plaintext token
+ * @returns 401 if user is not currently logged in
+ * @returns 404 when the API key cannot be found or is no longer active
+ * @returns 422 when userId does not exist in the database
+ * @returns 500 when database errors occurs
+ */
+UserRouter.post(
+  '/api-keys/:keyId([a-fA-F0-9]{24})/rotate',
+  withUserAuthentication,
+  UserController.handleRotateApiKey,
+)
+
 export default UserRouter
@@ -1,6 +1,7 @@
 import { Router } from 'express'
 
 import { AdminRouter } from './admin'
+import { AgenciesRouter } from './agencies'
 import { AnalyticsRouter } from './analytics'
 import { AuthRouter } from './auth'
 import { BillingsRouter } from './billings'
@@ -27,3 +28,4 @@ V3Router.use('/singpass', SingpassOidcRouter)
 V3Router.use('/corppass', CorppassOidcRouter)
 V3Router.use('/payments', PaymentsRouter)
 V3Router.use('/feature-flags', FeatureFlagsRouter)
+V3Router.use('/agencies', AgenciesRouter)
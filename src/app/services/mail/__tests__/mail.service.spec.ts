@@ -5,6 +5,7 @@ import { err, ok, okAsync } from 'neverthrow'
 import Mail, { Attachment } from 'nodemailer/lib/mailer'
 
 import { extractFormLinkView } from 'src/app/modules/form/form.utils'
+import { AUTOREPLY_COPY } from 'src/app/services/mail/mail.constants'
 import {
   MailGenerationError,
   MailSendError,
@@ -12,13 +13,18 @@ import {
 import { MailService } from 'src/app/services/mail/mail.service'
 import {
   AutoreplySummaryRenderData,
+  FormDraftResumeLinkData,
+  FormScheduleNotificationData,
+  IssueReplyData,
   IssueReportedNotificationData,
   MailOptions,
   SendAutoReplyEmailsArgs,
+  WebhookFailureNotificationData,
 } from 'src/app/services/mail/mail.types'
 import * as MailUtils from 'src/app/services/mail/mail.utils'
 import { BounceType, IPopulatedForm, ISubmissionSchema } from 'src/types'
 
+import { Language } from '../../../../../shared/types'
 import {
   HASH_EXPIRE_AFTER_SECONDS,
   stringifiedSmsWarningTiers,
@@ -758,12 +764,18 @@ describe('mail.service', () => {
       `Dear Sir or Madam,\n\nThank you for submitting this form.\n\nRegards,\n${MOCK_AUTOREPLY_PARAMS.form.admin.agency.fullName}`.split(
         '\n',
       )
+    const ENGLISH_AUTO_REPLY_COPY = {
+      htmlLang: 'en',
+      responseIdLabel: 'Response ID:',
+      summaryIntro: AUTOREPLY_COPY[Language.English].summaryIntro,
+    }
 
     beforeAll(async () => {
       defaultHtml = (
         await MailUtils.generateAutoreplyHtml({
           submissionId: MOCK_AUTOREPLY_PARAMS.submission.id,
           autoReplyBody: DEFAULT_AUTO_REPLY_BODY,
+          copy: ENGLISH_AUTO_REPLY_COPY,
         })
       )._unsafeUnwrap()
 
@@ -801,6 +813,36 @@ describe('mail.service', () => {
       expect(sendMailSpy).toHaveBeenCalledWith(defaultExpectedArg)
     })
 
+    it('should send autoreply mail with defaults in the language of the submission', async () => {
+      // Arrange
+      sendMailSpy.mockResolvedValueOnce('mockedSuccessResponse')
+
+      const chineseParams = cloneDeep(MOCK_AUTOREPLY_PARAMS)
+      chineseParams.submission.language = Language.Chinese
+
+      const { defaultSubject, defaultBody, ...copy } =
+        AUTOREPLY_COPY[Language.Chinese]
+      const expectedHtml = (
+        await MailUtils.generateAutoreplyHtml({
+          submissionId: MOCK_AUTOREPLY_PARAMS.submission.id,
+          autoReplyBody: defaultBody(MOCK_SENDER_NAME).split('\n'),
+          copy,
+        })
+      )._unsafeUnwrap()
+
+      // Act
+      const actualResult = await mailService.sendAutoReplyEmails(chineseParams)
+
+      // Assert
+      expect(actualResult).toEqual(await Promise.allSettled([ok(true)]))
+      expect(expectedHtml).toContain('回复编号：')
+      expect(sendMailSpy).toHaveBeenCalledWith({
+        ...defaultExpectedArg,
+        subject: defaultSubject(MOCK_AUTOREPLY_PARAMS.form.title),
+        html: expectedHtml,
+      })
+    })
+
     it('should send array of multiple autoreply mails successfully with defaults', async () => {
       // Arrange
       const firstMockedResponse = 'mockedSuccessResponse1'
@@ -944,6 +986,7 @@ describe('mail.service', () => {
         await MailUtils.generateAutoreplyHtml({
           submissionId: MOCK_AUTOREPLY_PARAMS.submission.id,
           autoReplyBody: DEFAULT_AUTO_REPLY_BODY,
+          copy: ENGLISH_AUTO_REPLY_COPY,
           ...expectedRenderData,
         })
       )._unsafeUnwrap()
@@ -1616,6 +1659,49 @@ describe('mail.service', () => {
     })
   })
 
+  describe('sendRefundConfirmationEmail', () => {
+    const MOCK_INVALID_EMAIL = 'hello@world'
+    const MOCK_FORM_TITLE = 'Formally Information'
+    const MOCK_SUBMISSION_ID = 'mockSubmissionId'
+    const MOCK_FORM_ID = 'mockFormId'
+
+    it('should send refund confirmation emails successfully', async () => {
+      // Act
+      const actualResult = await mailService.sendRefundConfirmationEmail({
+        email: MOCK_VALID_EMAIL,
+        formTitle: MOCK_FORM_TITLE,
+        submissionId: MOCK_SUBMISSION_ID,
+        formId: MOCK_FORM_ID,
+        amount: 1050,
+        reason: 'Event cancelled',
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+      // Check arguments passed to sendNodeMail
+      expect(sendMailSpy).toHaveBeenCalledOnce()
+      expect(sendMailSpy.mock.calls[0][0].html).toContain('S$10.50')
+    })
+
+    it('should return MailSendError when the provided email is invalid', async () => {
+      // Act
+      const actualResult = await mailService.sendRefundConfirmationEmail({
+        email: MOCK_INVALID_EMAIL,
+        formTitle: MOCK_FORM_TITLE,
+        submissionId: MOCK_SUBMISSION_ID,
+        formId: MOCK_FORM_ID,
+        amount: 1050,
+      })
+
+      // Assert
+      expect(actualResult).toEqual(
+        err(new MailSendError('Invalid email error')),
+      )
+      // Check arguments passed to sendNodeMail
+      expect(sendMailSpy).not.toHaveBeenCalled()
+    })
+  })
+
   describe('sendPaymentOnboardingEmail', () => {
     const MOCK_INVALID_EMAIL = 'hello@world'
 
@@ -1751,4 +1837,210 @@ describe('mail.service', () => {
       expect(sendMailSpy).toHaveBeenCalledTimes(0)
     })
   })
+
+  describe('sendFormIssueReply', () => {
+    const MOCK_FORM = {
+      title: 'Mock form title',
+      _id: 'mockFormId',
+    } as unknown as IPopulatedForm
+    const MOCK_ADMIN_EMAIL = 'admin@example.com'
+
+    it('should send the reply to the reporter of the issue', async () => {
+      // Arrange
+      sendMailSpy.mockResolvedValueOnce('mockedSuccessResponse')
+      const htmlData: IssueReplyData = {
+        appName: MOCK_APP_NAME,
+        formTitle: MOCK_FORM.title,
+        issue: 'Cannot submit the form',
+        message: 'This has been fixed, please try again.',
+      }
+      const expectedHtml = (
+        await MailUtils.generateIssueReplyHtml({ htmlData })
+      )._unsafeUnwrap()
+
+      // Act
+      const actualResult = await mailService.sendFormIssueReply({
+        form: MOCK_FORM,
+        email: MOCK_VALID_EMAIL,
+        issue: htmlData.issue,
+        message: htmlData.message,
+        replyTo: MOCK_ADMIN_EMAIL,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+      expect(sendMailSpy).toHaveBeenCalledTimes(1)
+      expect(sendMailSpy).toHaveBeenCalledWith({
+        to: MOCK_VALID_EMAIL,
+        from: MOCK_SENDER_STRING,
+        subject: `Reply to your issue on ${MOCK_FORM.title}`,
+        html: expectedHtml,
+        replyTo: MOCK_ADMIN_EMAIL,
+        headers: {
+          // Hardcode in tests in case something changes this.
+          'X-Formsg-Email-Type': 'Issue reply',
+        },
+      })
+    })
+  })
+
+  describe('sendFormScheduleNotification', () => {
+    const MOCK_FORM = {
+      title: 'Mock form title',
+      _id: 'mockFormId',
+      admin: {
+        email: MOCK_VALID_EMAIL,
+      },
+      permissionList: [{ email: MOCK_VALID_EMAIL_2 }],
+    } as unknown as IPopulatedForm
+
+    it('should send notification email to admin and collaborators when form is opened', async () => {
+      // Arrange
+      sendMailSpy.mockResolvedValueOnce('mockedSuccessResponse')
+      const htmlData: FormScheduleNotificationData = {
+        appName: MOCK_APP_NAME,
+        formTitle: MOCK_FORM.title,
+        formUrl: `${MOCK_APP_URL}/${MOCK_FORM._id}`,
+        formSettingsUrl: `${MOCK_APP_URL}/admin/form/${MOCK_FORM._id}/settings`,
+        isOpened: true,
+      }
+      const expectedHtml = (
+        await MailUtils.generateFormScheduleNotificationHtml({ htmlData })
+      )._unsafeUnwrap()
+
+      // Act
+      const actualResult = await mailService.sendFormScheduleNotification({
+        form: MOCK_FORM,
+        isOpened: true,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+      expect(sendMailSpy).toHaveBeenCalledTimes(1)
+      expect(sendMailSpy).toHaveBeenCalledWith({
+        to: MOCK_VALID_EMAIL,
+        cc: [MOCK_VALID_EMAIL_2],
+        from: MOCK_SENDER_STRING,
+        subject: `Your form is now open: ${MOCK_FORM.title}`,
+        html: expectedHtml,
+        headers: {
+          // Hardcode in tests in case something changes this.
+          'X-Formsg-Email-Type': 'Form schedule notification',
+        },
+      })
+    })
+
+    it('should send closed notification email when form is closed', async () => {
+      // Arrange
+      sendMailSpy.mockResolvedValueOnce('mockedSuccessResponse')
+
+      // Act
+      const actualResult = await mailService.sendFormScheduleNotification({
+        form: MOCK_FORM,
+        isOpened: false,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+      expect(sendMailSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subject: `Your form has closed: ${MOCK_FORM.title}`,
+          html: expect.stringContaining('no longer accepting responses'),
+        }),
+      )
+    })
+  })
+
+  describe('sendFormDraftResumeLink', () => {
+    const MOCK_FORM = {
+      title: 'Mock form title',
+      _id: 'mockFormId',
+    } as unknown as IPopulatedForm
+    const MOCK_RESUME_URL = `${MOCK_APP_URL}/mockFormId?draft=mockDraftKey`
+
+    it('should send resume link email to the respondent', async () => {
+      // Arrange
+      sendMailSpy.mockResolvedValueOnce('mockedSuccessResponse')
+      const htmlData: FormDraftResumeLinkData = {
+        appName: MOCK_APP_NAME,
+        formTitle: MOCK_FORM.title,
+        resumeUrl: MOCK_RESUME_URL,
+        expiryDate: '2 Jan 2023',
+      }
+      const expectedHtml = (
+        await MailUtils.generateFormDraftResumeLinkHtml({ htmlData })
+      )._unsafeUnwrap()
+
+      // Act
+      const actualResult = await mailService.sendFormDraftResumeLink({
+        form: MOCK_FORM,
+        email: MOCK_VALID_EMAIL,
+        resumeUrl: MOCK_RESUME_URL,
+        expireAt: new Date('2023-01-01T16:00:00Z'),
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+      expect(sendMailSpy).toHaveBeenCalledTimes(1)
+      expect(sendMailSpy).toHaveBeenCalledWith({
+        to: MOCK_VALID_EMAIL,
+        from: MOCK_SENDER_STRING,
+        subject: `Your saved draft of ${MOCK_FORM.title}`,
+        html: expectedHtml,
+        headers: {
+          // Hardcode in tests in case something changes this.
+          'X-Formsg-Email-Type': 'Form draft resume link',
+        },
+      })
+    })
+  })
+
+  describe('sendWebhookFailureNotification', () => {
+    const MOCK_FORM = {
+      title: 'Mock form title',
+      _id: 'mockFormId',
+      admin: {
+        email: MOCK_VALID_EMAIL,
+      },
+      permissionList: [{ email: MOCK_VALID_EMAIL_2 }],
+    } as unknown as IPopulatedForm
+    const MOCK_WEBHOOK_URL = 'https://example.com/webhook'
+
+    it('should send notification email to admin and collaborators', async () => {
+      // Arrange
+      sendMailSpy.mockResolvedValueOnce('mockedSuccessResponse')
+      const htmlData: WebhookFailureNotificationData = {
+        appName: MOCK_APP_NAME,
+        formTitle: MOCK_FORM.title,
+        formSettingsUrl: `${MOCK_APP_URL}/admin/form/${MOCK_FORM._id}/settings`,
+        webhookUrl: MOCK_WEBHOOK_URL,
+        failureCount: 5,
+      }
+      const expectedHtml = (
+        await MailUtils.generateWebhookFailureNotificationHtml({ htmlData })
+      )._unsafeUnwrap()
+
+      // Act
+      const actualResult = await mailService.sendWebhookFailureNotification({
+        form: MOCK_FORM,
+        webhookUrl: MOCK_WEBHOOK_URL,
+        failureCount: 5,
+      })
+
+      // Assert
+      expect(actualResult._unsafeUnwrap()).toEqual(true)
+      expect(sendMailSpy).toHaveBeenCalledTimes(1)
+      expect(sendMailSpy).toHaveBeenCalledWith({
+        to: MOCK_VALID_EMAIL,
+        cc: [MOCK_VALID_EMAIL_2],
+        from: MOCK_SENDER_STRING,
+        subject: `Webhooks are failing for your form: ${MOCK_FORM.title}`,
+        html: expectedHtml,
+        headers: {
+          // Hardcode in tests in case something changes this.
+          'X-Formsg-Email-Type': 'Webhook failure notification',
+        },
+      })
+    })
+  })
 })
@@ -1,3 +1,7 @@
+import { Language } from '../../../../shared/types'
+
+import { AutoreplyCopy } from './mail.types'
+
 /**
  * Headers to send to SES so we can parse email notifications
  *
@@ -21,6 +25,54 @@ export enum EmailType {
   EmailConfirmation = 'Email confirmation',
   AdminBounce = 'Admin (bounce notification)',
   PaymentConfirmation = 'Payment confirmation',
+  RefundConfirmation = 'Refund confirmation',
   PaymentOnboarding = 'Payment onboarding',
   IssueReportedNotification = 'Issue reported notification',
+  IssueReply = 'Issue reply',
+  FormScheduleNotification = 'Form schedule notification',
+  FormDraftResumeLink = 'Form draft resume link',
+  WebhookFailureNotification = 'Webhook failure notification',
+}
+
+/**
+ * Text of autoreply mails which is not written by the form admin, in each
+ * language which respondents can fill in forms in.
+ */
+export const AUTOREPLY_COPY: Record<Language, AutoreplyCopy> = {
+  [Language.English]: {
+    htmlLang: 'en',
+    defaultSubject: (formTitle) => `Thank you for submitting ${formTitle}`,
+    defaultBody: (agencyName) =>
+      `Dear Sir or Madam,\n\nThank you for submitting this form.\n\nRegards,\n${agencyName}`,
+    responseIdLabel: 'Response ID:',
+    summaryIntro:
+      'A summary of your response is shown below. A PDF summary is also attached for your convenience.',
+  },
+  [Language.Chinese]: {
+    htmlLang: 'zh',
+    defaultSubject: (formTitle) => `感谢您提交${formTitle}`,
+    defaultBody: (agencyName) =>
+      `尊敬的先生/女士：\n\n感谢您提交此表格。\n\n此致\n${agencyName}`,
+    responseIdLabel: '回复编号：',
+    summaryIntro: '您的回复摘要如下。为方便起见，我们也附上了PDF格式的摘要。',
+  },
+  [Language.Malay]: {
+    htmlLang: 'ms',
+    defaultSubject: (formTitle) =>
+      `Terima kasih kerana menghantar ${formTitle}`,
+    defaultBody: (agencyName) =>
+      `Tuan/Puan,\n\nTerima kasih kerana menghantar borang ini.\n\nYang benar,\n${agencyName}`,
+    responseIdLabel: 'ID Respons:',
+    summaryIntro:
+      'Ringkasan respons anda ditunjukkan di bawah. Ringkasan PDF juga dilampirkan untuk kemudahan anda.',
+  },
+  [Language.Tamil]: {
+    htmlLang: 'ta',
+    defaultSubject: (formTitle) => `${formTitle} சமர்ப்பித்தமைக்கு நன்றி`,
+    defaultBody: (agencyName) =>
+      `அன்புடையீர்,\n\nஇந்தப் படிவத்தைச் சமர்ப்பித்தமைக்கு நன்றி.\n\nஇப்படிக்கு,\n${agencyName}`,
+    responseIdLabel: 'பதில் அடையாள எண்:',
+    summaryIntro:
+      'உங்கள் பதிலின் சுருக்கம் கீழே காட்டப்பட்டுள்ளது. உங்கள் வசதிக்காக PDF சுருக்கமும் இணைக்கப்பட்டுள்ளது.',
+  },
 }
@@ -6,6 +6,7 @@ import Mail from 'nodemailer/lib/mailer'
 import promiseRetry from 'promise-retry'
 import validator from 'validator'
 
+import { Language, PaymentLineItem } from '../../../../shared/types'
 import { getPaymentInvoiceDownloadUrlPath } from '../../../../shared/utils/urls'
 import {
   HASH_EXPIRE_AFTER_SECONDS,
@@ -27,7 +28,7 @@ import * as FormService from '../../modules/form/form.service'
 import { extractFormLinkView } from '../../modules/form/form.utils'
 import { formatAsPercentage } from '../../utils/formatters'
 
-import { EMAIL_HEADERS, EmailType } from './mail.constants'
+import { AUTOREPLY_COPY, EMAIL_HEADERS, EmailType } from './mail.constants'
 import { MailGenerationError, MailSendError } from './mail.errors'
 import {
   AdminSmsDisabledData,
@@ -36,28 +37,38 @@ import {
   BounceNotificationHtmlData,
   CollabSmsDisabledData,
   CollabSmsWarningData,
+  FormDraftResumeLinkData,
+  FormScheduleNotificationData,
+  IssueReplyData,
   IssueReportedNotificationData,
   MailOptions,
   MailServiceParams,
   PaymentConfirmationData,
+  RefundConfirmationData,
   SendAutoReplyEmailsArgs,
   SendMailOptions,
   SendSingleAutoreplyMailArgs,
+  WebhookFailureNotificationData,
 } from './mail.types'
 import {
   generateAutoreplyHtml,
   generateAutoreplyPdf,
   generateBounceNotificationHtml,
+  generateFormDraftResumeLinkHtml,
+  generateFormScheduleNotificationHtml,
+  generateIssueReplyHtml,
   generateIssueReportedNotificationHtml,
   generateLoginOtpHtml,
   generatePaymentConfirmationHtml,
   generatePaymentOnboardingHtml,
+  generateRefundConfirmationHtml,
   generateSmsVerificationDisabledHtmlForAdmin,
   generateSmsVerificationDisabledHtmlForCollab,
   generateSmsVerificationWarningHtmlForAdmin,
   generateSmsVerificationWarningHtmlForCollab,
   generateSubmissionToAdminHtml,
   generateVerificationOtpHtml,
+  generateWebhookFailureNotificationHtml,
   isToFieldValid,
 } from './mail.utils'
 
@@ -270,20 +281,25 @@ export class MailService {
     true,
     MailSendError | MailGenerationError
   > => {
-    const emailSubject =
-      autoReplyMailData.subject || `Thank you for submitting ${form.title}`
+    // Mails are sent in the language the respondent filled in the form in.
+    const { defaultSubject, defaultBody, ...copy } =
+      AUTOREPLY_COPY[submission.language ?? Language.English]
+
+    const emailSubject = autoReplyMailData.subject || defaultSubject(form.title)
     // Sender's name appearing after "("" symbol gets truncated. Escaping it
     // solves the problem.
     const emailSender = (
       autoReplyMailData.sender || form.admin.agency.fullName
     ).replace('(', '\\(')
 
-    const defaultBody = `Dear Sir or Madam,\n\nThank you for submitting this form.\n\nRegards,\n${form.admin.agency.fullName}`
-    const autoReplyBody = (autoReplyMailData.body || defaultBody).split('\n')
+    const autoReplyBody = (
+      autoReplyMailData.body || defaultBody(form.admin.agency.fullName)
+    ).split('\n')
 
     const templateData = {
       submissionId: submission.id,
       autoReplyBody,
+      copy,
       // Only destructure formSummaryRenderData if form summary is included.
       ...(autoReplyMailData.includeFormSummary && formSummaryRenderData),
     }
@@ -792,6 +808,7 @@ export class MailService {
    * @param submissionId the response ID
    * @param formId the payment form ID
    * @param paymentId the payment ID
+   * @param lineItems the products bought, for product catalogue payments
    * @returns err(MailSendError) when there was an error in sending the mail
    */
   sendPaymentConfirmationEmail = ({
@@ -800,12 +817,14 @@ export class MailService {
     submissionId,
     formId,
     paymentId,
+    lineItems = [],
   }: {
     email: string
     formTitle: string
     submissionId: string
     formId: string
     paymentId: string
+    lineItems?: PaymentLineItem[]
   }): ResultAsync<true, MailSendError> => {
     const htmlData: PaymentConfirmationData = {
       formTitle: formTitle,
@@ -815,6 +834,11 @@ export class MailService {
         formId,
         paymentId,
       )}`,
+      lineItems: lineItems.map(({ name, quantity, amount_cents }) => ({
+        name,
+        quantity,
+        amount: (amount_cents / 100).toFixed(2),
+      })),
     }
     return generatePaymentConfirmationHtml({ htmlData }).andThen((html) => {
       const mail: MailOptions = {
@@ -830,6 +854,52 @@ export class MailService {
     })
   }
 
+  /**
+   * Sends a confirmation of a refund issued by an admin to the payer.
+   * @param email the payer's email address
+   * @param formTitle the title of the form which was paid for
+   * @param submissionId the response id of the payment
+   * @param formId the id of the form which was paid for
+   * @param amount the amount refunded in cents
+   * @param reason the reason given for the refund, if any
+   * @returns err(MailSendError) when there was an error in sending the mail
+   */
+  sendRefundConfirmationEmail = ({
+    email,
+    formTitle,
+    submissionId,
+    formId,
+    amount,
+    reason,
+  }: {
+    email: string
+    formTitle: string
+    submissionId: string
+    formId: string
+    amount: number
+    reason?: string
+  }): ResultAsync<true, MailSendError> => {
+    const htmlData: RefundConfirmationData = {
+      appName: this.#appName,
+      formTitle,
+      submissionId,
+      amount: (amount / 100).toFixed(2),
+      reason,
+    }
+    return generateRefundConfirmationHtml({ htmlData }).andThen((html) => {
+      const mail: MailOptions = {
+        to: email,
+        from: this.#senderFromString,
+        subject: `Your payment on ${this.#appName} has been refunded`,
+        html,
+        headers: {
+          [EMAIL_HEADERS.emailType]: EmailType.RefundConfirmation,
+        },
+      }
+      return this.#sendNodeMail(mail, { mailId: 'refundConfirmation', formId })
+    })
+  }
+
   /**
    * Sends a payment onboarding email to a valid email
    * @param email the recipient email address
@@ -991,6 +1061,178 @@ export class MailService {
     )
   }
 
+  /**
+   * Sends a reply from a form admin to the respondent who reported an issue
+   * on the form.
+   * @param form form object which the issue was reported on
+   * @param email the email of the respondent who reported the issue
+   * @param issue the issue which was reported
+   * @param message the reply from the form admin
+   * @param replyTo the email of the form admin to direct responses to
+   */
+  sendFormIssueReply = ({
+    form,
+    email,
+    issue,
+    message,
+    replyTo,
+  }: {
+    form: Pick<IPopulatedForm, '_id' | 'title'>
+    email: string
+    issue: string
+    message: string
+    replyTo: string
+  }): ResultAsync<true, MailGenerationError | MailSendError> => {
+    const htmlData: IssueReplyData = {
+      appName: this.#appName,
+      formTitle: form.title,
+      issue,
+      message,
+    }
+    return generateIssueReplyHtml({ htmlData }).andThen((html) => {
+      const mail: MailOptions = {
+        to: email,
+        from: this.#senderFromString,
+        subject: `Reply to your issue on ${form.title}`,
+        html,
+        replyTo,
+        headers: {
+          [EMAIL_HEADERS.emailType]: EmailType.IssueReply,
+        },
+      }
+      return this.#sendNodeMail(mail, {
+        formId: form._id.toString(),
+        mailId: 'issueReply',
+      })
+    })
+  }
+
+  /**
+   * Sends a notification email to the admin and collaborators of the given
+   * form when it is opened or closed according to its schedule.
+   * @param form form object which has been opened or closed
+   * @param isOpened whether the form has been opened or closed
+   */
+  sendFormScheduleNotification = ({
+    form,
+    isOpened,
+  }: {
+    form: IPopulatedForm
+    isOpened: boolean
+  }): ResultAsync<true, MailGenerationError | MailSendError> => {
+    const htmlData: FormScheduleNotificationData = {
+      appName: this.#appName,
+      formTitle: form.title,
+      formUrl: `${this.#appUrl}/${form._id}`,
+      formSettingsUrl: `${this.#appUrl}/admin/form/${form._id}/settings`,
+      isOpened,
+    }
+    return generateFormScheduleNotificationHtml({ htmlData }).andThen(
+      (html) => {
+        const mail: MailOptions = {
+          to: form.admin.email,
+          cc: form.permissionList.map(({ email }) => email),
+          from: this.#senderFromString,
+          subject: isOpened
+            ? `Your form is now open: ${form.title}`
+            : `Your form has closed: ${form.title}`,
+          html,
+          headers: {
+            [EMAIL_HEADERS.emailType]: EmailType.FormScheduleNotification,
+          },
+        }
+        return this.#sendNodeMail(mail, {
+          formId: form._id.toString(),
+          mailId: 'formScheduleNotification',
+        })
+      },
+    )
+  }
+
+  /**
+   * Sends a link for a respondent to resume their saved draft of a form.
+   * @param form the form which the draft was saved for
+   * @param email the email of the respondent
+   * @param resumeUrl the link to resume the draft
+   * @param expireAt the time at which the draft expires
+   */
+  sendFormDraftResumeLink = ({
+    form,
+    email,
+    resumeUrl,
+    expireAt,
+  }: {
+    form: Pick<IPopulatedForm, '_id' | 'title'>
+    email: string
+    resumeUrl: string
+    expireAt: Date
+  }): ResultAsync<true, MailGenerationError | MailSendError> => {
+    const htmlData: FormDraftResumeLinkData = {
+      appName: this.#appName,
+      formTitle: form.title,
+      resumeUrl,
+      expiryDate: moment(expireAt).tz('Asia/Singapore').format('D MMM YYYY'),
+    }
+    return generateFormDraftResumeLinkHtml({ htmlData }).andThen((html) => {
+      const mail: MailOptions = {
+        to: email,
+        from: this.#senderFromString,
+        subject: `Your saved draft of ${form.title}`,
+        html,
+        headers: {
+          [EMAIL_HEADERS.emailType]: EmailType.FormDraftResumeLink,
+        },
+      }
+      return this.#sendNodeMail(mail, {
+        formId: form._id.toString(),
+        mailId: 'formDraftResumeLink',
+      })
+    })
+  }
+
+  /**
+   * Sends a notification email to the admin and collaborators of the given
+   * form when webhooks to one of its endpoints have failed continuously.
+   * @param form form object whose webhooks are failing
+   * @param webhookUrl the endpoint which webhooks have failed to be sent to
+   * @param failureCount the number of consecutive failed submissions
+   */
+  sendWebhookFailureNotification = ({
+    form,
+    webhookUrl,
+    failureCount,
+  }: {
+    form: IPopulatedForm
+    webhookUrl: string
+    failureCount: number
+  }): ResultAsync<true, MailGenerationError | MailSendError> => {
+    const htmlData: WebhookFailureNotificationData = {
+      appName: this.#appName,
+      formTitle: form.title,
+      formSettingsUrl: `${this.#appUrl}/admin/form/${form._id}/settings`,
+      webhookUrl,
+      failureCount,
+    }
+    return generateWebhookFailureNotificationHtml({ htmlData }).andThen(
+      (html) => {
+        const mail: MailOptions = {
+          to: form.admin.email,
+          cc: form.permissionList.map(({ email }) => email),
+          from: this.#senderFromString,
+          subject: `Webhooks are failing for your form: ${form.title}`,
+          html,
+          headers: {
+            [EMAIL_HEADERS.emailType]: EmailType.WebhookFailureNotification,
+          },
+        }
+        return this.#sendNodeMail(mail, {
+          formId: form._id.toString(),
+          mailId: 'webhookFailureNotification',
+        })
+      },
+    )
+  }
+
   // Utility method to send a mail during local dev (to maildev)
   // The sender and receipent are both form's internal mailing address
   sendLocalDevMail = (
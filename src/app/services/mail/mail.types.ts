@@ -18,7 +18,7 @@ export type SendMailOptions = {
 
 export type SendSingleAutoreplyMailArgs = {
   form: Pick<IPopulatedForm, 'admin' | '_id' | 'title'>
-  submission: Pick<ISubmissionSchema, 'id' | 'created'>
+  submission: Pick<ISubmissionSchema, 'id' | 'created' | 'language'>
   autoReplyMailData: AutoReplyMailData
   attachments: Mail.Attachment[]
   formSummaryRenderData: AutoreplySummaryRenderData
@@ -27,7 +27,7 @@ export type SendSingleAutoreplyMailArgs = {
 
 export type SendAutoReplyEmailsArgs = {
   form: Pick<IPopulatedForm, 'admin' | '_id' | 'title'>
-  submission: Pick<ISubmissionSchema, 'id' | 'created'>
+  submission: Pick<ISubmissionSchema, 'id' | 'created' | 'language'>
   attachments?: Mail.Attachment[]
   responsesData: Pick<EmailAdminDataField, 'question' | 'answerTemplate'>[]
   autoReplyMailDatas: AutoReplyMailData[]
@@ -74,9 +74,22 @@ export type SubmissionToAdminHtmlData = {
   appName: string
 }
 
+/**
+ * Default and static text of autoreply mails, in the language of the
+ * submission.
+ */
+export type AutoreplyCopy = {
+  htmlLang: string
+  defaultSubject: (formTitle: string) => string
+  defaultBody: (agencyName: string) => string
+  responseIdLabel: string
+  summaryIntro: string
+}
+
 type AutoreplyHtmlDefaultBody = {
   submissionId: string
   autoReplyBody: string[]
+  copy: Pick<AutoreplyCopy, 'htmlLang' | 'responseIdLabel' | 'summaryIntro'>
 }
 
 export type AutoreplyHtmlData =
@@ -121,6 +134,15 @@ export type PaymentConfirmationData = {
   formTitle: string
   submissionId: string
   invoiceUrl: string
+  lineItems: { name: string; quantity: number; amount: string }[]
+}
+
+export type RefundConfirmationData = {
+  appName: string
+  formTitle: string
+  submissionId: string
+  amount: string
+  reason?: string
 }
 
 export type IssueReportedNotificationData = {
@@ -128,3 +150,33 @@ export type IssueReportedNotificationData = {
   formTitle: string
   formResultUrl: string
 }
+
+export type IssueReplyData = {
+  appName: string
+  formTitle: string
+  issue: string
+  message: string
+}
+
+export type FormScheduleNotificationData = {
+  appName: string
+  formTitle: string
+  formUrl: string
+  formSettingsUrl: string
+  isOpened: boolean
+}
+
+export type FormDraftResumeLinkData = {
+  appName: string
+  formTitle: string
+  resumeUrl: string
+  expiryDate: string
+}
+
+export type WebhookFailureNotificationData = {
+  appName: string
+  formTitle: string
+  formSettingsUrl: string
+  webhookUrl: string
+  failureCount: number
+}
@@ -18,9 +18,14 @@ import {
   BounceNotificationHtmlData,
   CollabSmsDisabledData,
   CollabSmsWarningData,
+  FormDraftResumeLinkData,
+  FormScheduleNotificationData,
+  IssueReplyData,
   IssueReportedNotificationData,
   PaymentConfirmationData,
+  RefundConfirmationData,
   SubmissionToAdminHtmlData,
+  WebhookFailureNotificationData,
 } from './mail.types'
 
 const logger = createLoggerWithLabel(module)
@@ -286,6 +291,22 @@ export const generatePaymentConfirmationHtml = ({
   return safeRenderFile(pathToTemplate, htmlData)
 }
 
+export const generateRefundConfirmationHtml = ({
+  htmlData,
+}: {
+  htmlData: RefundConfirmationData
+}): ResultAsync<string, MailGenerationError> => {
+  const pathToTemplate = `${process.cwd()}/src/app/views/templates/refund-confirmation.view.html`
+  logger.info({
+    message: 'generateRefundConfirmationHtml',
+    meta: {
+      action: 'generateRefundConfirmationHtml',
+      pathToTemplate,
+    },
+  })
+  return safeRenderFile(pathToTemplate, htmlData)
+}
+
 export const generatePaymentOnboardingHtml = ({
   appName,
 }: {
@@ -316,3 +337,67 @@ export const generateIssueReportedNotificationHtml = ({
   })
   return safeRenderFile(pathToTemplate, htmlData)
 }
+
+export const generateIssueReplyHtml = ({
+  htmlData,
+}: {
+  htmlData: IssueReplyData
+}): ResultAsync<string, MailGenerationError> => {
+  const pathToTemplate = `${process.cwd()}/src/app/views/templates/issue-reply.view.html`
+  logger.info({
+    message: 'generateIssueReplyHtml',
+    meta: {
+      action: 'generateIssueReplyHtml',
+      pathToTemplate,
+    },
+  })
+  return safeRenderFile(pathToTemplate, htmlData)
+}
+
+export const generateFormScheduleNotificationHtml = ({
+  htmlData,
+}: {
+  htmlData: FormScheduleNotificationData
+}): ResultAsync<string, MailGenerationError> => {
+  const pathToTemplate = `${process.cwd()}/src/app/views/templates/form-schedule-notification.view.html`
+  logger.info({
+    message: 'generateFormScheduleNotificationHtml',
+    meta: {
+      action: 'generateFormScheduleNotificationHtml',
+      pathToTemplate,
+    },
+  })
+  return safeRenderFile(pathToTemplate, htmlData)
+}
+
+export const generateFormDraftResumeLinkHtml = ({
+  htmlData,
+}: {
+  htmlData: FormDraftResumeLinkData
+}): ResultAsync<string, MailGenerationError> => {
+  const pathToTemplate = `${process.cwd()}/src/app/views/templates/form-draft-resume-link.view.html`
+  logger.info({
+    message: 'generateFormDraftResumeLinkHtml',
+    meta: {
+      action: 'generateFormDraftResumeLinkHtml',
+      pathToTemplate,
+    },
+  })
+  return safeRenderFile(pathToTemplate, htmlData)
+}
+
+export const generateWebhookFailureNotificationHtml = ({
+  htmlData,
+}: {
+  htmlData: WebhookFailureNotificationData
+}): ResultAsync<string, MailGenerationError> => {
+  const pathToTemplate = `${process.cwd()}/src/app/views/templates/webhook-failure-notification.view.html`
+  logger.info({
+    message: 'generateWebhookFailureNotificationHtml',
+    meta: {
+      action: 'generateWebhookFailureNotificationHtml',
+      pathToTemplate,
+    },
+  })
+  return safeRenderFile(pathToTemplate, htmlData)
+}
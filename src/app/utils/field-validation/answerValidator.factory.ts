@@ -12,6 +12,7 @@ import {
 } from '../../modules/submission/submission.types'
 
 import { constructAttachmentValidator } from './validators/attachmentValidator'
+import { constructCalculationValidator } from './validators/calculationValidator'
 import { constructCheckboxValidator } from './validators/checkboxValidator'
 import { constructChildrenValidator } from './validators/childrenValidator'
 import { constructDateValidator } from './validators/dateValidator'
@@ -67,6 +68,8 @@ export const constructSingleAnswerValidator = (
       return constructUenValidator()
     case BasicField.YesNo:
       return constructYesNoValidator()
+    case BasicField.Calculation:
+      return constructCalculationValidator()
     default:
       return () => left('Unsupported field type')
   }
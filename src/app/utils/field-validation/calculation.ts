@@ -0,0 +1,58 @@
+import { BasicField } from '../../../../shared/types'
+import {
+  evaluateFormula,
+  formatCalculationResult,
+  getCalculationSourceValue,
+} from '../../../../shared/utils/calculation'
+import {
+  FieldResponse,
+  ICalculationFieldSchema,
+  IFormDocument,
+} from '../../../types'
+
+const isCalculationField = (
+  field: NonNullable<IFormDocument['form_fields']>[number],
+): field is ICalculationFieldSchema =>
+  field.fieldType === BasicField.Calculation
+
+/**
+ * Recomputes the answers of the calculation fields of a form from the other
+ * responses in a submission, so that the submitted answers can be verified.
+ * Source fields which are unanswered evaluate to 0.
+ * @param responses the responses of the submission
+ * @param form the form the submission is for
+ * @returns map of calculation field ids to their expected answers, for calculation fields with a response
+ */
+export const getCalculatedAnswers = (
+  responses: FieldResponse[],
+  form: IFormDocument,
+): Map<string, string> => {
+  const sourceValues: Record<string, number> = {}
+  responses.forEach((response) => {
+    const answer =
+      'answerArray' in response
+        ? (response.answerArray as string[])
+        : 'answer' in response
+        ? response.answer
+        : undefined
+    const value = getCalculationSourceValue(response.fieldType, answer)
+    if (value !== undefined) {
+      sourceValues[String(response._id)] = value
+    }
+  })
+
+  const responseIds = new Set(responses.map(({ _id }) => String(_id)))
+  const calculatedAnswers = new Map<string, string>()
+  form.form_fields?.forEach((field) => {
+    const fieldId = String(field._id)
+    if (!isCalculationField(field) || !responseIds.has(fieldId)) return
+    calculatedAnswers.set(
+      fieldId,
+      formatCalculationResult(
+        evaluateFormula(field.formula, sourceValues),
+        field.decimalPlaces,
+      ),
+    )
+  })
+  return calculatedAnswers
+}
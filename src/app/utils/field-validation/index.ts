@@ -95,34 +95,66 @@ const isResponsePresentOnHiddenField = (
   return false
 }
 
+/**
+ * Returns true if the field must be answered, either because the field is
+ * required or because form logic requires it, and the field is visible.
+ * @param formField The form field to compare the response to
+ * @param response The submitted response
+ */
+const isRequiredAndVisible = (
+  formField: FieldValidationSchema,
+  response: ProcessedFieldResponse,
+): boolean =>
+  (!!formField.required || !!response.isRequiredByLogic) && !!response.isVisible
+
+/**
+ * Returns true if the response does not match the value set on its field by
+ * form logic.
+ * This may happen if a submission is made programatically to try and bypass form logic.
+ * @param response The submitted response
+ */
+const isResponseMismatchingLogicValue = (
+  response: ProcessedFieldResponse,
+): boolean => {
+  if (!response.isVisible || response.logicValue === undefined) return false
+  return (
+    !isProcessedSingleAnswerResponse(response) ||
+    response.answer.trim() !== response.logicValue.trim()
+  )
+}
+
 /**
  * Determines whether a response requires validation. A required field
  * may not require an answer if it is not visible due to logic. However,
- * if an answer is presented, it should be validated.
+ * if an answer is presented, it should be validated. Visible calculation
+ * fields are always validated against their recomputed answer.
  * @param formField The form field to compare the response to
  * @param response The submitted response
  */
 const singleAnswerRequiresValidation = (
   formField: FieldValidationSchema,
   response: ProcessedSingleAnswerResponse,
-) => (formField.required && response.isVisible) || response.answer.trim() !== ''
+) =>
+  isRequiredAndVisible(formField, response) ||
+  response.answer.trim() !== '' ||
+  response.calculatedAnswer !== undefined
 
 const attachmentRequiresValidation = (
   formField: FieldValidationSchema,
   response: ProcessedAttachmentResponse,
-) => (formField.required && response.isVisible) || response.answer.trim() !== ''
+) => isRequiredAndVisible(formField, response) || response.answer.trim() !== ''
 
 const checkboxRequiresValidation = (
   formField: FieldValidationSchema,
   response: ProcessedCheckboxResponse,
 ) =>
-  (formField.required && response.isVisible) || response.answerArray.length > 0
+  isRequiredAndVisible(formField, response) || response.answerArray.length > 0
 
 const childrenRequiresValidation = (
   formField: FieldValidationSchema,
   response: ProcessedChildrenResponse,
 ) =>
-  (formField.required && response.isVisible) ||
+  isRequiredAndVisible(formField, response) ||
   response.answerArray.length > 0 ||
   (response?.childSubFieldsArray?.length ?? -1) > 0
 
@@ -131,8 +163,10 @@ const tableRequiresValidation = (
   response: ProcessedTableResponse,
 ) => {
   const { columns } = formField
-  const { isVisible } = response
-  const requiredVisible = columns.some((column) => column.required) && isVisible
+  const { isVisible, isRequiredByLogic } = response
+  const requiredVisible =
+    (isRequiredByLogic || columns.some((column) => column.required)) &&
+    isVisible
   const answerPresent = !response.answerArray.every((row) =>
     row.every((elem) => elem === ''),
   )
@@ -212,6 +246,14 @@ export const validateField = (
     )
   }
 
+  if (isResponseMismatchingLogicValue(response)) {
+    return err(
+      new ValidateFieldError(
+        `Attempted to submit response that differs from value set by logic`,
+      ),
+    )
+  }
+
   if (isProcessedSingleAnswerResponse(response)) {
     if (singleAnswerRequiresValidation(formField, response)) {
       const validator = constructSingleAnswerValidator(formField)
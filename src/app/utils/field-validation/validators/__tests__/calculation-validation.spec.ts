@@ -0,0 +1,67 @@
+import {
+  generateDefaultField,
+  generateNewSingleAnswerResponse,
+} from '__tests__/unit/backend/helpers/generate-form-data'
+
+import { ValidateFieldError } from 'src/app/modules/submission/submission.errors'
+import { validateField } from 'src/app/utils/field-validation'
+
+import { BasicField } from '../../../../../../shared/types'
+
+describe('Calculation field validation', () => {
+  const formField = generateDefaultField(BasicField.Calculation, {
+    required: false,
+    formula: '{a} * 2',
+    decimalPlaces: 2,
+  })
+
+  it('should allow answer that matches the calculated answer', () => {
+    const response = generateNewSingleAnswerResponse(BasicField.Calculation, {
+      answer: '4.00',
+      calculatedAnswer: '4.00',
+    })
+
+    const validateResult = validateField('formId', formField, response)
+    expect(validateResult.isOk()).toBe(true)
+    expect(validateResult._unsafeUnwrap()).toEqual(true)
+  })
+
+  it('should disallow answer that differs from the calculated answer', () => {
+    const response = generateNewSingleAnswerResponse(BasicField.Calculation, {
+      answer: '1.00',
+      calculatedAnswer: '4.00',
+    })
+
+    const validateResult = validateField('formId', formField, response)
+    expect(validateResult.isErr()).toBe(true)
+    expect(validateResult._unsafeUnwrapErr()).toEqual(
+      new ValidateFieldError('Invalid answer submitted'),
+    )
+  })
+
+  it('should disallow empty answer when there is a calculated answer', () => {
+    const response = generateNewSingleAnswerResponse(BasicField.Calculation, {
+      answer: '',
+      calculatedAnswer: '4.00',
+    })
+
+    const validateResult = validateField('formId', formField, response)
+    expect(validateResult.isErr()).toBe(true)
+    expect(validateResult._unsafeUnwrapErr()).toEqual(
+      new ValidateFieldError('Invalid answer submitted'),
+    )
+  })
+
+  it('should disallow answer on hidden calculation field', () => {
+    const response = generateNewSingleAnswerResponse(BasicField.Calculation, {
+      answer: '4.00',
+      isVisible: false,
+    })
+
+    const validateResult = validateField('formId', formField, response)
+    expect(validateResult.isErr()).toBe(true)
+    expect(validateResult._unsafeUnwrapErr()).toEqual(
+      new ValidateFieldError('Attempted to submit response on a hidden field'),
+    )
+  })
+})
@@ -147,6 +147,47 @@ describe('Text validation', () => {
         ),
       )
     })
+
+    it('should disallow empty submissions if field is required by logic', () => {
+      const formField = generateDefaultField(BasicField.ShortText, {
+        required: false,
+      })
+      const response = generateNewSingleAnswerResponse(BasicField.ShortText, {
+        answer: '',
+        isRequiredByLogic: true,
+      })
+      const validateResult = validateField('formId', formField, response)
+      expect(validateResult.isErr()).toBe(true)
+      expect(validateResult._unsafeUnwrapErr()).toEqual(
+        new ValidateFieldError('Invalid answer submitted'),
+      )
+    })
+
+    it('should allow submissions matching the value set by logic', () => {
+      const formField = generateDefaultField(BasicField.ShortText)
+      const response = generateNewSingleAnswerResponse(BasicField.ShortText, {
+        answer: 'set by logic',
+        logicValue: 'set by logic',
+      })
+      const validateResult = validateField('formId', formField, response)
+      expect(validateResult.isOk()).toBe(true)
+      expect(validateResult._unsafeUnwrap()).toEqual(true)
+    })
+
+    it('should disallow submissions differing from the value set by logic', () => {
+      const formField = generateDefaultField(BasicField.ShortText)
+      const response = generateNewSingleAnswerResponse(BasicField.ShortText, {
+        answer: 'something else',
+        logicValue: 'set by logic',
+      })
+      const validateResult = validateField('formId', formField, response)
+      expect(validateResult.isErr()).toBe(true)
+      expect(validateResult._unsafeUnwrapErr()).toEqual(
+        new ValidateFieldError(
+          'Attempted to submit response that differs from value set by logic',
+        ),
+      )
+    })
   })
 
   describe('Long text', () => {
@@ -0,0 +1,21 @@
+import { left, right } from 'fp-ts/lib/Either'
+
+import { ResponseValidator } from '../../../../types/field/utils/validation'
+import { ProcessedSingleAnswerResponse } from '../../../modules/submission/submission.types'
+
+type CalculationValidatorConstructor =
+  () => ResponseValidator<ProcessedSingleAnswerResponse>
+
+/**
+ * Returns a validation function for a calculation field when called.
+ * The answer must be the result of the field's formula, as recomputed from the
+ * other responses in the submission.
+ */
+export const constructCalculationValidator: CalculationValidatorConstructor =
+  () => (response) => {
+    return response.answer.trim() === (response.calculatedAnswer ?? '')
+      ? right(response)
+      : left(
+          `CalculationValidator:\tanswer does not match the calculated result`,
+        )
+  }
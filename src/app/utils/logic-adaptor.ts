@@ -2,6 +2,8 @@ import { ok, Result } from 'neverthrow'
 
 import {
   FieldIdSet,
+  getLogicFieldValues as logicGetLogicFieldValues,
+  getLogicRequiredFieldIds as logicGetLogicRequiredFieldIds,
   getLogicUnitPreventingSubmit as logicGetLogicUnitPreventingSubmit,
   getVisibleFieldIds as logicGetVisibleFieldIds,
 } from '../../shared/util/logic'
@@ -30,3 +32,19 @@ export const getLogicUnitPreventingSubmit = (
     logicGetLogicUnitPreventingSubmit(submission, form, visibleFieldIds),
   )
 }
+
+export const getLogicRequiredFieldIds = (
+  submission: FieldResponse[],
+  form: IFormDocument,
+  visibleFieldIds?: FieldIdSet,
+): Result<FieldIdSet, ProcessingError> => {
+  return ok(logicGetLogicRequiredFieldIds(submission, form, visibleFieldIds))
+}
+
+export const getLogicFieldValues = (
+  submission: FieldResponse[],
+  form: IFormDocument,
+  visibleFieldIds?: FieldIdSet,
+): Result<Map<string, string>, ProcessingError> => {
+  return ok(logicGetLogicFieldValues(submission, form, visibleFieldIds))
+}
@@ -3,6 +3,8 @@ import { ObjectId } from 'bson-ext'
 import {
   getApplicableIfFields,
   getApplicableIfStates,
+  getLogicFieldValues,
+  getLogicRequiredFieldIds,
   getLogicUnitPreventingSubmit,
   getVisibleFieldIds,
 } from 'src/shared/util/logic'
@@ -12,14 +14,18 @@ import {
   IFormDocument,
   IPreventSubmitLogicSchema,
   IRadioFieldSchema,
+  IRequireFieldsLogicSchema,
+  ISetFieldValueLogicSchema,
   IShortTextFieldSchema,
   IShowFieldsLogicSchema,
+  ISkipToSectionLogicSchema,
 } from 'src/types'
 
 import {
   BasicField,
   FieldBase,
   LogicConditionState,
+  LogicGroupOperator,
   LogicIfValue,
   LogicType,
 } from '../../../../shared/types'
@@ -223,6 +229,226 @@ describe('Logic validation', () => {
     })
   })
 
+  describe('visibility for additional states', () => {
+    const CONDITION_FIELD = makeField(new ObjectId().toHexString())
+    const LOGIC_FIELD = makeField(new ObjectId().toHexString())
+    const LOGIC_RESPONSE = makeResponse(LOGIC_FIELD._id, 'lorem')
+    const MOCK_LOGIC_ID = new ObjectId().toHexString()
+
+    let form: IFormDocument
+
+    const setCondition = (
+      state: LogicConditionState,
+      value: string | string[],
+      ifValueType: LogicIfValue,
+    ) => {
+      form.form_logics = [
+        {
+          show: [LOGIC_FIELD._id],
+          conditions: [
+            {
+              ifValueType,
+              _id: '58169',
+              field: CONDITION_FIELD._id,
+              state,
+              value,
+            },
+          ],
+          _id: MOCK_LOGIC_ID,
+          logicType: LogicType.ShowFields,
+        } as IShowFieldsLogicSchema,
+      ]
+    }
+
+    const isLogicFieldVisible = (conditionResponse: FieldResponse) =>
+      getVisibleFieldIds([conditionResponse, LOGIC_RESPONSE], form).has(
+        LOGIC_FIELD._id,
+      )
+
+    const makeTypedResponse = (
+      fieldType: BasicField,
+      answer: string,
+      answerArray: string[] | null = null,
+    ) =>
+      ({
+        ...makeResponse(CONDITION_FIELD._id, answer, answerArray),
+        fieldType,
+      } as FieldResponse)
+
+    beforeEach(() => {
+      form = {
+        _id: new ObjectId(),
+        form_fields: [CONDITION_FIELD, LOGIC_FIELD],
+      } as IFormDocument
+    })
+
+    it('should compute the correct visibility for "is not equal to"', () => {
+      // Arrange
+      setCondition(
+        LogicConditionState.NotEqual,
+        'Option 1',
+        LogicIfValue.SingleSelect,
+      )
+
+      // Act + Assert
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Dropdown, 'Option 2')),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Dropdown, 'Option 1')),
+      ).toEqual(false)
+      // Unanswered fields do not fulfil the condition.
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Dropdown, '')),
+      ).toEqual(false)
+    })
+
+    it('should compute the correct visibility for checkbox "contains any of"', () => {
+      // Arrange
+      setCondition(
+        LogicConditionState.ContainsAny,
+        ['Option 1', 'Others'],
+        LogicIfValue.MultiSelect,
+      )
+
+      // Act + Assert
+      expect(
+        isLogicFieldVisible(
+          makeTypedResponse(BasicField.Checkbox, '', ['Option 1', 'Option 2']),
+        ),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(
+          makeTypedResponse(BasicField.Checkbox, '', ['Others: lorem']),
+        ),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(
+          makeTypedResponse(BasicField.Checkbox, '', ['Option 2']),
+        ),
+      ).toEqual(false)
+    })
+
+    it('should compute the correct visibility for checkbox "contains all of"', () => {
+      // Arrange
+      setCondition(
+        LogicConditionState.ContainsAll,
+        ['Option 1', 'Option 2'],
+        LogicIfValue.MultiSelect,
+      )
+
+      // Act + Assert
+      expect(
+        isLogicFieldVisible(
+          makeTypedResponse(BasicField.Checkbox, '', [
+            'Option 1',
+            'Option 2',
+            'Option 3',
+          ]),
+        ),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(
+          makeTypedResponse(BasicField.Checkbox, '', ['Option 1']),
+        ),
+      ).toEqual(false)
+    })
+
+    it('should compute the correct visibility for date "is before" and "is after"', () => {
+      // Arrange
+      setCondition(LogicConditionState.Before, '2023-06-15', LogicIfValue.Date)
+
+      // Act + Assert
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Date, '14 Jun 2023')),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Date, '15 Jun 2023')),
+      ).toEqual(false)
+
+      setCondition(LogicConditionState.After, '2023-06-15', LogicIfValue.Date)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Date, '16 Jun 2023')),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Date, '15 Jun 2023')),
+      ).toEqual(false)
+    })
+
+    it('should compute the correct visibility for date "is between"', () => {
+      // Arrange
+      setCondition(
+        LogicConditionState.Between,
+        ['2023-06-01', '2023-06-30'],
+        LogicIfValue.DateRange,
+      )
+
+      // Act + Assert
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Date, '01 Jun 2023')),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Date, '30 Jun 2023')),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Date, '01 Jul 2023')),
+      ).toEqual(false)
+    })
+
+    it('should compute the correct visibility for "is empty"', () => {
+      // Arrange
+      setCondition(LogicConditionState.IsEmpty, '', LogicIfValue.Text)
+
+      // Act + Assert
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.ShortText, '  ')),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Checkbox, '', [])),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.ShortText, 'lorem')),
+      ).toEqual(false)
+    })
+
+    it('should compute the correct visibility for "contains"', () => {
+      // Arrange
+      setCondition(LogicConditionState.Contains, 'Ipsum', LogicIfValue.Text)
+
+      // Act + Assert
+      expect(
+        isLogicFieldVisible(
+          makeTypedResponse(BasicField.ShortText, 'lorem ipsum dolor'),
+        ),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.ShortText, 'lorem')),
+      ).toEqual(false)
+    })
+
+    it('should compute the correct visibility for "ends with domain"', () => {
+      // Arrange
+      setCondition(
+        LogicConditionState.EndsWithDomain,
+        '@gov.sg',
+        LogicIfValue.Text,
+      )
+
+      // Act + Assert
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Email, 'a@gov.sg')),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(
+          makeTypedResponse(BasicField.Email, 'a@tech.gov.sg'),
+        ),
+      ).toEqual(true)
+      expect(
+        isLogicFieldVisible(makeTypedResponse(BasicField.Email, 'a@notgov.sg')),
+      ).toEqual(false)
+    })
+  })
+
   describe('preventing submission for different states', () => {
     const CONDITION_FIELD = makeField(new ObjectId().toHexString())
     const LOGIC_FIELD = makeField(new ObjectId().toHexString())
@@ -558,6 +784,301 @@ describe('Logic validation', () => {
     })
   })
 
+  describe('show fields with condition groups', () => {
+    const CONDITION_FIELD_A = makeField(new ObjectId().toHexString())
+    const CONDITION_FIELD_B = makeField(new ObjectId().toHexString())
+    const CONDITION_FIELD_C = makeField(new ObjectId().toHexString())
+    const LOGIC_FIELD = makeField(new ObjectId().toHexString())
+    const LOGIC_RESPONSE = makeResponse(LOGIC_FIELD._id, 'lorem')
+
+    const makeYesCondition = (fieldId: string) => ({
+      ifValueType: LogicIfValue.SingleSelect,
+      field: fieldId,
+      state: LogicConditionState.Equal,
+      value: 'Yes',
+    })
+
+    let form: IFormDocument
+
+    const isLogicFieldVisible = (answers: [string, string, string]) =>
+      getVisibleFieldIds(
+        [
+          makeResponse(CONDITION_FIELD_A._id, answers[0]),
+          makeResponse(CONDITION_FIELD_B._id, answers[1]),
+          makeResponse(CONDITION_FIELD_C._id, answers[2]),
+          LOGIC_RESPONSE,
+        ],
+        form,
+      ).has(LOGIC_FIELD._id)
+
+    beforeEach(() => {
+      form = {
+        _id: new ObjectId(),
+        form_fields: [
+          CONDITION_FIELD_A,
+          CONDITION_FIELD_B,
+          CONDITION_FIELD_C,
+          LOGIC_FIELD,
+        ],
+      } as IFormDocument
+    })
+
+    it('should compute the correct visibility for OR groups', () => {
+      // Arrange
+      form.form_logics = [
+        {
+          show: [LOGIC_FIELD._id],
+          conditions: [
+            makeYesCondition(CONDITION_FIELD_A._id),
+            makeYesCondition(CONDITION_FIELD_B._id),
+            makeYesCondition(CONDITION_FIELD_C._id),
+          ],
+          conditionGroup: {
+            operator: LogicGroupOperator.Or,
+            items: [0, 1, 2],
+          },
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.ShowFields,
+        } as unknown as IShowFieldsLogicSchema,
+      ]
+
+      // Act + Assert
+      expect(isLogicFieldVisible(['No', 'No', 'Yes'])).toEqual(true)
+      expect(isLogicFieldVisible(['No', 'No', 'No'])).toEqual(false)
+    })
+
+    it('should compute the correct visibility for nested groups', () => {
+      // Arrange
+      // Show if A or (B and C)
+      form.form_logics = [
+        {
+          show: [LOGIC_FIELD._id],
+          conditions: [
+            makeYesCondition(CONDITION_FIELD_A._id),
+            makeYesCondition(CONDITION_FIELD_B._id),
+            makeYesCondition(CONDITION_FIELD_C._id),
+          ],
+          conditionGroup: {
+            operator: LogicGroupOperator.Or,
+            items: [0, { operator: LogicGroupOperator.And, items: [1, 2] }],
+          },
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.ShowFields,
+        } as unknown as IShowFieldsLogicSchema,
+      ]
+
+      // Act + Assert
+      expect(isLogicFieldVisible(['Yes', 'No', 'No'])).toEqual(true)
+      expect(isLogicFieldVisible(['No', 'Yes', 'Yes'])).toEqual(true)
+      expect(isLogicFieldVisible(['No', 'Yes', 'No'])).toEqual(false)
+    })
+  })
+
+  describe('logic actions', () => {
+    const CONDITION_FIELD = makeField(new ObjectId().toHexString())
+    const TARGET_FIELD = makeField(new ObjectId().toHexString())
+    const SKIPPED_FIELD = makeField(new ObjectId().toHexString())
+    const SECTION_FIELD = makeField(new ObjectId().toHexString())
+    const SECTION_CHILD_FIELD = makeField(new ObjectId().toHexString())
+
+    const YES_CONDITION = {
+      ifValueType: LogicIfValue.SingleSelect,
+      field: CONDITION_FIELD._id,
+      state: LogicConditionState.Equal,
+      value: 'Yes',
+    }
+
+    const makeSubmission = (conditionAnswer: string) => [
+      makeResponse(CONDITION_FIELD._id, conditionAnswer),
+      makeResponse(TARGET_FIELD._id, ''),
+      makeResponse(SKIPPED_FIELD._id, ''),
+      makeResponse(SECTION_FIELD._id, ''),
+      makeResponse(SECTION_CHILD_FIELD._id, ''),
+    ]
+
+    let form: IFormDocument
+
+    beforeEach(() => {
+      form = {
+        _id: new ObjectId(),
+        form_fields: [
+          CONDITION_FIELD,
+          TARGET_FIELD,
+          SKIPPED_FIELD,
+          SECTION_FIELD,
+          SECTION_CHILD_FIELD,
+        ],
+      } as IFormDocument
+    })
+
+    it('should require fields when conditions are fulfilled', () => {
+      // Arrange
+      form.form_logics = [
+        {
+          require: [TARGET_FIELD._id],
+          conditions: [YES_CONDITION],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.RequireFields,
+        } as unknown as IRequireFieldsLogicSchema,
+      ]
+
+      // Act + Assert
+      expect(
+        getLogicRequiredFieldIds(makeSubmission('Yes'), form),
+      ).toContainEqual(TARGET_FIELD._id)
+      expect(getLogicRequiredFieldIds(makeSubmission('No'), form).size).toEqual(
+        0,
+      )
+    })
+
+    it('should not require fields that are hidden', () => {
+      // Arrange
+      form.form_logics = [
+        {
+          require: [TARGET_FIELD._id],
+          conditions: [YES_CONDITION],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.RequireFields,
+        } as unknown as IRequireFieldsLogicSchema,
+        {
+          show: [TARGET_FIELD._id],
+          conditions: [{ ...YES_CONDITION, value: 'No' }],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.ShowFields,
+        } as unknown as IShowFieldsLogicSchema,
+      ]
+
+      // Act
+      const requiredFieldIds = getLogicRequiredFieldIds(
+        makeSubmission('Yes'),
+        form,
+      )
+
+      // Assert
+      expect(requiredFieldIds.size).toEqual(0)
+    })
+
+    it('should set field values when conditions are fulfilled', () => {
+      // Arrange
+      form.form_logics = [
+        {
+          setField: TARGET_FIELD._id,
+          setValue: 'first',
+          conditions: [YES_CONDITION],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.SetFieldValue,
+        } as unknown as ISetFieldValueLogicSchema,
+        {
+          setField: TARGET_FIELD._id,
+          setValue: 'second',
+          conditions: [YES_CONDITION],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.SetFieldValue,
+        } as unknown as ISetFieldValueLogicSchema,
+      ]
+
+      // Act + Assert
+      expect(getLogicFieldValues(makeSubmission('Yes'), form)).toEqual(
+        new Map([[TARGET_FIELD._id, 'second']]),
+      )
+      expect(getLogicFieldValues(makeSubmission('No'), form).size).toEqual(0)
+    })
+
+    it('should hide fields up to the section skipped to when conditions are fulfilled', () => {
+      // Arrange
+      form.form_logics = [
+        {
+          skipToSection: SECTION_FIELD._id,
+          conditions: [YES_CONDITION],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.SkipToSection,
+        } as unknown as ISkipToSectionLogicSchema,
+      ]
+
+      // Act
+      const skippedVisibleFieldIds = getVisibleFieldIds(
+        makeSubmission('Yes'),
+        form,
+      )
+      const visibleFieldIds = getVisibleFieldIds(makeSubmission('No'), form)
+
+      // Assert
+      expect(skippedVisibleFieldIds).toEqual(
+        new Set([
+          CONDITION_FIELD._id,
+          SECTION_FIELD._id,
+          SECTION_CHILD_FIELD._id,
+        ]),
+      )
+      expect(visibleFieldIds.size).toEqual(5)
+    })
+
+    it('should not hide fields if the section skipped to is before the conditions', () => {
+      // Arrange
+      form.form_fields = [
+        SECTION_FIELD,
+        TARGET_FIELD,
+        CONDITION_FIELD,
+        SKIPPED_FIELD,
+      ] as FormFieldSchema[]
+      form.form_logics = [
+        {
+          skipToSection: SECTION_FIELD._id,
+          conditions: [YES_CONDITION],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.SkipToSection,
+        } as unknown as ISkipToSectionLogicSchema,
+      ]
+
+      // Act
+      const visibleFieldIds = getVisibleFieldIds(makeSubmission('Yes'), form)
+
+      // Assert
+      expect(visibleFieldIds.size).toEqual(4)
+    })
+
+    it('should not apply skip logic whose conditions are skipped', () => {
+      // Arrange
+      form.form_logics = [
+        {
+          skipToSection: SECTION_FIELD._id,
+          conditions: [YES_CONDITION],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.SkipToSection,
+        } as unknown as ISkipToSectionLogicSchema,
+        {
+          skipToSection: SECTION_FIELD._id,
+          conditions: [{ ...YES_CONDITION, field: TARGET_FIELD._id }],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.SkipToSection,
+        } as unknown as ISkipToSectionLogicSchema,
+        {
+          show: [SECTION_CHILD_FIELD._id],
+          conditions: [{ ...YES_CONDITION, field: SKIPPED_FIELD._id }],
+          _id: new ObjectId().toHexString(),
+          logicType: LogicType.ShowFields,
+        } as unknown as IShowFieldsLogicSchema,
+      ]
+      const submission = [
+        makeResponse(CONDITION_FIELD._id, 'No'),
+        makeResponse(TARGET_FIELD._id, 'Yes'),
+        makeResponse(SKIPPED_FIELD._id, 'Yes'),
+        makeResponse(SECTION_FIELD._id, ''),
+        makeResponse(SECTION_CHILD_FIELD._id, ''),
+      ]
+
+      // Act
+      const visibleFieldIds = getVisibleFieldIds(submission, form)
+
+      // Assert
+      // The skip on TARGET_FIELD hides SKIPPED_FIELD, and in turn the field
+      // shown by SKIPPED_FIELD.
+      expect(visibleFieldIds).toEqual(
+        new Set([CONDITION_FIELD._id, TARGET_FIELD._id, SECTION_FIELD._id]),
+      )
+    })
+  })
+
   describe('prevent submit with multiple conditions', () => {
     const CONDITION_FIELD_1 = makeField(new ObjectId().toHexString())
     const CONDITION_FIELD_2 = makeField(new ObjectId().toHexString())
@@ -1014,9 +1535,14 @@ describe('Logic util', () => {
     BasicField.Dropdown,
     BasicField.Number,
     BasicField.Decimal,
+    BasicField.Calculation,
     BasicField.Rating,
     BasicField.YesNo,
     BasicField.Radio,
+    BasicField.Checkbox,
+    BasicField.Date,
+    BasicField.ShortText,
+    BasicField.Email,
   ]
 
   const INVALID_IF_CONDITION_FIELDS = Object.values(BasicField).filter(
@@ -1047,9 +1573,10 @@ describe('Logic util', () => {
         const states = getApplicableIfStates(fieldType)
         expect(states).toIncludeSameMembers([
           LogicConditionState.Equal,
+          LogicConditionState.NotEqual,
           LogicConditionState.Either,
         ])
-        expect(states).toBeArrayOfSize(2)
+        expect(states).toBeArrayOfSize(3)
       })
     })
     it('should return valid logic states for binary field types', () => {
@@ -1067,12 +1594,41 @@ describe('Logic util', () => {
         const states = getApplicableIfStates(fieldType)
         expect(states).toIncludeSameMembers([
           LogicConditionState.Equal,
+          LogicConditionState.NotEqual,
           LogicConditionState.Lte,
           LogicConditionState.Gte,
         ])
-        expect(states).toBeArrayOfSize(3)
+        expect(states).toBeArrayOfSize(4)
       })
     })
+    it('should return valid logic states for multi-select field types', () => {
+      const states = getApplicableIfStates(BasicField.Checkbox)
+      expect(states).toIncludeSameMembers([
+        LogicConditionState.ContainsAny,
+        LogicConditionState.ContainsAll,
+        LogicConditionState.IsEmpty,
+      ])
+    })
+    it('should return valid logic states for date field types', () => {
+      const states = getApplicableIfStates(BasicField.Date)
+      expect(states).toIncludeSameMembers([
+        LogicConditionState.Before,
+        LogicConditionState.After,
+        LogicConditionState.Between,
+        LogicConditionState.IsEmpty,
+      ])
+    })
+    it('should return valid logic states for text field types', () => {
+      expect(getApplicableIfStates(BasicField.ShortText)).toIncludeSameMembers([
+        LogicConditionState.Contains,
+        LogicConditionState.IsEmpty,
+      ])
+      expect(getApplicableIfStates(BasicField.Email)).toIncludeSameMembers([
+        LogicConditionState.Contains,
+        LogicConditionState.EndsWithDomain,
+        LogicConditionState.IsEmpty,
+      ])
+    })
     it('should return empty array for invalid conditional fields', () => {
       INVALID_IF_CONDITION_FIELDS.forEach((fieldType) => {
         const states = getApplicableIfStates(fieldType)
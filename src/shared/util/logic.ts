@@ -1,4 +1,10 @@
 // TODO: Import shared code from shared/logic.ts when possible.
+import { format, isValid, parse } from 'date-fns'
+
+import {
+  evaluateConditionGroup,
+  getConditionGroup,
+} from '../../../shared/modules/logic'
 import {
   BasicField,
   FieldBase,
@@ -12,19 +18,27 @@ import {
   IFormDocument,
   ILogicSchema,
   IPreventSubmitLogicSchema,
+  IRequireFieldsLogicSchema,
+  ISetFieldValueLogicSchema,
   IShowFieldsLogicSchema,
+  ISkipToSectionLogicSchema,
   LogicCondition,
 } from '../../types'
 
 const LOGIC_CONDITIONS: LogicCondition[] = [
   [
     BasicField.Dropdown,
-    [LogicConditionState.Equal, LogicConditionState.Either],
+    [
+      LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
+      LogicConditionState.Either,
+    ],
   ],
   [
     BasicField.Number,
     [
       LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
       LogicConditionState.Lte,
       LogicConditionState.Gte,
     ],
@@ -33,6 +47,7 @@ const LOGIC_CONDITIONS: LogicCondition[] = [
     BasicField.Decimal,
     [
       LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
       LogicConditionState.Lte,
       LogicConditionState.Gte,
     ],
@@ -41,18 +56,70 @@ const LOGIC_CONDITIONS: LogicCondition[] = [
     BasicField.Rating,
     [
       LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
+      LogicConditionState.Lte,
+      LogicConditionState.Gte,
+    ],
+  ],
+  [
+    BasicField.Calculation,
+    [
+      LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
       LogicConditionState.Lte,
       LogicConditionState.Gte,
     ],
   ],
   [BasicField.YesNo, [LogicConditionState.Equal]],
-  [BasicField.Radio, [LogicConditionState.Equal, LogicConditionState.Either]],
+  [
+    BasicField.Radio,
+    [
+      LogicConditionState.Equal,
+      LogicConditionState.NotEqual,
+      LogicConditionState.Either,
+    ],
+  ],
+  [
+    BasicField.Checkbox,
+    [
+      LogicConditionState.ContainsAny,
+      LogicConditionState.ContainsAll,
+      LogicConditionState.IsEmpty,
+    ],
+  ],
+  [
+    BasicField.Date,
+    [
+      LogicConditionState.Before,
+      LogicConditionState.After,
+      LogicConditionState.Between,
+      LogicConditionState.IsEmpty,
+    ],
+  ],
+  [
+    BasicField.ShortText,
+    [LogicConditionState.Contains, LogicConditionState.IsEmpty],
+  ],
+  [
+    BasicField.Email,
+    [
+      LogicConditionState.Contains,
+      LogicConditionState.EndsWithDomain,
+      LogicConditionState.IsEmpty,
+    ],
+  ],
 ]
 
 export const LOGIC_MAP = new Map<BasicField, LogicConditionState[]>(
   LOGIC_CONDITIONS,
 )
 
+const ISO_DATE_FORMAT = 'yyyy-MM-dd'
+// Formats that date values may be in, in order of precedence. Condition values
+// are stored in ISO format, while responses are in 'dd MMM yyyy' format on the
+// server and 'dd/MM/yyyy' format on the client.
+const LOGIC_DATE_FORMATS = [ISO_DATE_FORMAT, 'dd MMM yyyy', 'dd/MM/yyyy']
+
 /**
  * Given a list of form fields, returns only the fields that are
  * allowed to be present in the if-condition dropdown in the Logic tab.
@@ -67,7 +134,7 @@ export const getApplicableIfStates = (
   fieldType: BasicField,
 ): LogicConditionState[] => LOGIC_MAP.get(fieldType) ?? []
 
-type GroupedLogic = Record<string, IConditionSchema[][]>
+type GroupedLogic = Record<string, ILogicSchema[]>
 export type FieldIdSet = Set<IClientFieldSchema['_id']>
 // This module handles logic on both the client side (IFieldSchema[])
 // and server side (FieldResponse[])
@@ -87,6 +154,27 @@ const isPreventSubmitLogic = (
   return formLogic.logicType === LogicType.PreventSubmit
 }
 
+// Returns typed RequireFields logic unit
+const isRequireFieldsLogic = (
+  formLogic: ILogicSchema,
+): formLogic is IRequireFieldsLogicSchema => {
+  return formLogic.logicType === LogicType.RequireFields
+}
+
+// Returns typed SetFieldValue logic unit
+const isSetFieldValueLogic = (
+  formLogic: ILogicSchema,
+): formLogic is ISetFieldValueLogicSchema => {
+  return formLogic.logicType === LogicType.SetFieldValue
+}
+
+// Returns typed SkipToSection logic unit
+const isSkipToSectionLogic = (
+  formLogic: ILogicSchema,
+): formLogic is ISkipToSectionLogicSchema => {
+  return formLogic.logicType === LogicType.SkipToSection
+}
+
 /**
  * Parse logic into a map of fields that are shown/hidden depending on the
  * values of other fields.
@@ -108,15 +196,15 @@ const isPreventSubmitLogic = (
 
   logicUnitsGroupedByField:
   {
-    "1001": [ [{field: "1003", ifValueType: "single-select", state: "is equals to", value: "Option 1"},
-        {field: "1004", ifValueType: "single-select", state: "is equals to", value: "Yes"}] ],
-    "1002": [ [{field: "1003", ifValueType: "single-select", state: "is equals to", value: "Option 1"},
-        {field: "1004", ifValueType: "single-select", state: "is equals to", value: "Yes"}] ]
+    "1001": [ { show: ["1001","1002"], conditions: [{field: "1003", ifValueType: "single-select", state: "is equals to", value: "Option 1"},
+        {field: "1004", ifValueType: "single-select", state: "is equals to", value: "Yes"}] } ],
+    "1002": [ { show: ["1001","1002"], conditions: [{field: "1003", ifValueType: "single-select", state: "is equals to", value: "Option 1"},
+        {field: "1004", ifValueType: "single-select", state: "is equals to", value: "Yes"}] } ]
   }
  * @caption If "1001" is deleted, "1002" will still be rendered since we just won't add "1001" into logicUnitsGroupedByField
  *
  * @param form the form object to group its logic by field for
- * @returns an object containing fields to be displayed and their corresponding conditions, keyed by id of the displayable field
+ * @returns an object containing fields to be displayed and their corresponding logic units, keyed by id of the displayable field
  */
 export const groupLogicUnitsByField = (form: IFormDocument): GroupedLogic => {
   const formId = form._id
@@ -138,7 +226,7 @@ export const groupLogicUnitsByField = (form: IFormDocument): GroupedLogic => {
           logicUnitsGroupedByField[fieldId] = logicUnitsGroupedByField[fieldId]
             ? logicUnitsGroupedByField[fieldId]
             : []
-          logicUnitsGroupedByField[fieldId].push(logicUnit.conditions)
+          logicUnitsGroupedByField[fieldId].push(logicUnit)
         }
       })
     } else {
@@ -190,11 +278,7 @@ export const getLogicUnitPreventingSubmit = (
     visibleFieldIds ?? getVisibleFieldIds(submission, form)
   const preventSubmitConditions = getPreventSubmitConditions(form)
   return preventSubmitConditions.find((logicUnit) =>
-    isLogicUnitSatisfied(
-      submission,
-      logicUnit.conditions,
-      definedVisibleFieldIds,
-    ),
+    isLogicUnitSatisfied(submission, logicUnit, definedVisibleFieldIds),
   )
 }
 
@@ -218,6 +302,7 @@ const allConditionsExist = (
  * This function loops through all the form fields until the set of visible
  * fields no longer changes. The first loop adds all the fields with no
  * conditions attached, the second adds fields which are made visible due to fields added in the previous loop, and so on.
+ * Fields skipped over by satisfied SkipToSection logic are never visible.
  * @param submission the submission responses to retrieve logic units for. Can be `form_fields` (on client), or `req.body.responses` (on server)
  * @param form the form document for the submission
  * @returns a set of IDs of visible fields in the submission
@@ -225,6 +310,35 @@ const allConditionsExist = (
 export const getVisibleFieldIds = (
   submission: LogicFieldSchemaOrResponse[],
   form: IFormDocument,
+): FieldIdSet => {
+  const skippedFieldIds: FieldIdSet = new Set()
+  let visibleFieldIds = getShownFieldIds(submission, form, skippedFieldIds)
+  // Skip logic is applied in form order, so that a skip can hide the
+  // conditions of skip logic further down the form.
+  getSkipToSectionLogics(form).forEach(({ logicUnit, skippedIds }) => {
+    if (
+      skippedIds.length > 0 &&
+      isLogicUnitSatisfied(submission, logicUnit, visibleFieldIds)
+    ) {
+      skippedIds.forEach((fieldId) => skippedFieldIds.add(fieldId))
+      visibleFieldIds = getShownFieldIds(submission, form, skippedFieldIds)
+    }
+  })
+  return visibleFieldIds
+}
+
+/**
+ * Gets the IDs of fields shown by ShowFields logic, excluding the given
+ * skipped fields.
+ * @param submission the submission responses to retrieve logic units for
+ * @param form the form document for the submission
+ * @param skippedFieldIds the set of field IDs that have been skipped
+ * @returns a set of IDs of shown fields in the submission
+ */
+const getShownFieldIds = (
+  submission: LogicFieldSchemaOrResponse[],
+  form: IFormDocument,
+  skippedFieldIds: FieldIdSet,
 ): FieldIdSet => {
   const logicUnitsGroupedByField = groupLogicUnitsByField(form)
   const visibleFieldIds: FieldIdSet = new Set()
@@ -244,6 +358,7 @@ export const getVisibleFieldIds = (
       // 2) Show X if A=1
       if (
         !visibleFieldIds.has(field._id.toString()) &&
+        !skippedFieldIds.has(field._id.toString()) &&
         (!logicUnits ||
           logicUnits.some((logicUnit) =>
             isLogicUnitSatisfied(submission, logicUnit, visibleFieldIds),
@@ -258,25 +373,134 @@ export const getVisibleFieldIds = (
 }
 
 /**
- * Checks if an array of conditions is satisfied.
+ * Parse logic to get the valid SkipToSection logic units of a form, together
+ * with the ids of the fields each of them skips over, in form order.
+ * A logic unit skips over the fields after the last field referenced in its
+ * conditions, up to but excluding the section it skips to. Logic units whose
+ * section comes before any of its condition fields skip no fields.
+ * @param form the form document to retrieve logic units for
+ * @returns the skip logic units and their skipped field ids
+ */
+const getSkipToSectionLogics = (
+  form: IFormDocument,
+): { logicUnit: ISkipToSectionLogicSchema; skippedIds: string[] }[] => {
+  const formFieldIds = form.form_fields?.map((field) => String(field._id)) ?? []
+  const formFieldIdSet = new Set(formFieldIds)
+
+  return (form.form_logics?.filter(isSkipToSectionLogic) ?? [])
+    .filter((logicUnit) =>
+      allConditionsExist(logicUnit.conditions, formFieldIdSet),
+    )
+    .map((logicUnit) => {
+      const lastConditionIndex = Math.max(
+        ...logicUnit.conditions.map(({ field }) =>
+          formFieldIds.indexOf(String(field)),
+        ),
+      )
+      const sectionIndex = formFieldIds.indexOf(String(logicUnit.skipToSection))
+      return {
+        logicUnit,
+        lastConditionIndex,
+        skippedIds:
+          sectionIndex > lastConditionIndex
+            ? formFieldIds.slice(lastConditionIndex + 1, sectionIndex)
+            : [],
+      }
+    })
+    .sort((a, b) => a.lastConditionIndex - b.lastConditionIndex)
+    .map(({ logicUnit, skippedIds }) => ({ logicUnit, skippedIds }))
+}
+
+/**
+ * Gets the IDs of visible fields that are required by satisfied
+ * RequireFields logic, regardless of whether they are required in the form.
+ * @param submission the submission responses to retrieve logic units for. Can be `form_fields` (on client), or `req.body.responses` (on server)
+ * @param form the form document for the submission
+ * @param optionalVisibleFieldIds the optional set of currently visible fields. If this is not provided, it will be recomputed using the given form parameter.
+ * @returns a set of IDs of fields required by logic
+ */
+export const getLogicRequiredFieldIds = (
+  submission: LogicFieldSchemaOrResponse[],
+  form: IFormDocument,
+  visibleFieldIds?: FieldIdSet,
+): FieldIdSet => {
+  const definedVisibleFieldIds =
+    visibleFieldIds ?? getVisibleFieldIds(submission, form)
+  const formFieldIds = new Set(
+    form.form_fields?.map((field) => String(field._id)),
+  )
+  const requiredFieldIds: FieldIdSet = new Set()
+  form.form_logics?.filter(isRequireFieldsLogic).forEach((logicUnit) => {
+    if (
+      allConditionsExist(logicUnit.conditions, formFieldIds) &&
+      isLogicUnitSatisfied(submission, logicUnit, definedVisibleFieldIds)
+    ) {
+      logicUnit.require
+        .map(String)
+        .filter((fieldId) => definedVisibleFieldIds.has(fieldId))
+        .forEach((fieldId) => requiredFieldIds.add(fieldId))
+    }
+  })
+  return requiredFieldIds
+}
+
+/**
+ * Gets the values that satisfied SetFieldValue logic sets on visible fields.
+ * If multiple logic units set the same field, the last one takes precedence.
+ * @param submission the submission responses to retrieve logic units for. Can be `form_fields` (on client), or `req.body.responses` (on server)
+ * @param form the form document for the submission
+ * @param optionalVisibleFieldIds the optional set of currently visible fields. If this is not provided, it will be recomputed using the given form parameter.
+ * @returns a map of field IDs to the values set on them by logic
+ */
+export const getLogicFieldValues = (
+  submission: LogicFieldSchemaOrResponse[],
+  form: IFormDocument,
+  visibleFieldIds?: FieldIdSet,
+): Map<string, string> => {
+  const definedVisibleFieldIds =
+    visibleFieldIds ?? getVisibleFieldIds(submission, form)
+  const formFieldIds = new Set(
+    form.form_fields?.map((field) => String(field._id)),
+  )
+  const fieldValues = new Map<string, string>()
+  form.form_logics?.filter(isSetFieldValueLogic).forEach((logicUnit) => {
+    const fieldId = String(logicUnit.setField)
+    if (
+      definedVisibleFieldIds.has(fieldId) &&
+      allConditionsExist(logicUnit.conditions, formFieldIds) &&
+      isLogicUnitSatisfied(submission, logicUnit, definedVisibleFieldIds)
+    ) {
+      fieldValues.set(fieldId, logicUnit.setValue)
+    }
+  })
+  return fieldValues
+}
+
+/**
+ * Checks if the conditions of a logic unit are satisfied, combined according
+ * to the logic unit's condition group.
  * @param submission the submission responses to retrieve logic units for. Can be `form_fields` (on client), or `req.body.responses` (on server)
  * @param logicUnit an object containing the conditions specified in a single modal of `add new logic` on the form logic tab
  * @param visibleFieldIds the set of field IDs that are visible, which is used to ensure that conditions are visible
- * @returns true if all the conditions are satisfied, false otherwise
+ * @returns true if the condition group is satisfied, false otherwise
  */
 const isLogicUnitSatisfied = (
   submission: LogicFieldSchemaOrResponse[],
-  logicUnit: IConditionSchema[],
+  logicUnit: ILogicSchema,
   visibleFieldIds: FieldIdSet,
 ): boolean => {
-  return logicUnit.every((condition) => {
-    const conditionField = findConditionField(submission, condition.field)
-    return (
-      conditionField &&
-      visibleFieldIds.has(conditionField._id.toString()) &&
-      isConditionFulfilled(conditionField, condition)
-    )
-  })
+  return evaluateConditionGroup(
+    getConditionGroup(logicUnit),
+    logicUnit.conditions,
+    (condition) => {
+      const conditionField = findConditionField(submission, condition.field)
+      return (
+        !!conditionField &&
+        visibleFieldIds.has(conditionField._id.toString()) &&
+        isConditionFulfilled(conditionField, condition)
+      )
+    },
+  )
 }
 
 const getCurrentValue = (
@@ -285,12 +509,94 @@ const getCurrentValue = (
   if ('fieldValue' in field) {
     // client
     return field.fieldValue
+  } else if (
+    field.fieldType === BasicField.Checkbox &&
+    'answerArray' in field
+  ) {
+    // server, checkbox responses are submitted as an array of selected options
+    return field.answerArray as string[]
   } else if ('answer' in field) {
     // server
     return field.answer
   }
   return null
 }
+
+const isValueEmpty = (
+  value: string | null | undefined | string[],
+): value is null | undefined | '' | [] => {
+  if (value === null || value === undefined) return true
+  if (Array.isArray(value)) return value.length === 0
+  return String(value).trim().length === 0
+}
+
+/**
+ * Checks if the given field value is one of the condition's values.
+ * @param field the field the condition is on
+ * @param currentValue the current value of the field
+ * @param conditionValues the trimmed values of the condition
+ */
+const isValueInConditionValues = (
+  field: LogicFieldSchemaOrResponse,
+  currentValue: string,
+  conditionValues: string[],
+): boolean => {
+  /*
+  Handling 'Others' for radiobutton
+
+  form_logics: [{ ... value : 'Others' }]
+
+  Client-side:
+  When an Others radiobutton is checked, the fieldValue is 'radioButtonOthers'
+
+  Server-side:
+  When an Others radiobutton is checked, and submitted with the required value,
+  the answer is: 'Others: value'
+  */
+
+  // TODO: An option that is named "Others: Something..." will also pass this test,
+  // even if the field has not been configured to set othersRadioButton=true
+  if (conditionValues.indexOf('Others') > -1) {
+    // TODO: This is used for angular's client. The server has no need for these magic values, as they are never seen by the server.
+    if (field.fieldType === 'radiobutton') {
+      conditionValues.push('radioButtonOthers')
+    } else if (field.fieldType === 'checkbox') {
+      conditionValues.push('checkboxOthers')
+    }
+    // This needs to work for manual "Others" options created by users as well.
+    // The only reason this works is that manual "Others" will satisfy the client-side
+    // condition, albeit on the server. See #5318 for more info.
+    return (
+      conditionValues.indexOf(currentValue) > -1 || // Client-side
+      currentValue.startsWith('Others: ')
+    ) // Server-side
+  }
+  // Calculated answers are formatted to a fixed number of decimal places, so
+  // they are compared by value, e.g. '4.00' equals '4'.
+  if (field.fieldType === BasicField.Calculation) {
+    return conditionValues.some(
+      (conditionValue) => Number(conditionValue) === Number(currentValue),
+    )
+  }
+  return conditionValues.indexOf(currentValue) > -1
+}
+
+/**
+ * Converts a date value into an ISO date string (yyyy-MM-dd) so that dates can
+ * be compared lexicographically. Condition values are stored as ISO dates,
+ * while server responses are in the 'dd MMM yyyy' format.
+ * @param value the date value to convert
+ * @returns the ISO date string, or null if the value is not a valid date
+ */
+const toIsoDateString = (value: unknown): string | null => {
+  const dateString = String(value).trim()
+  for (const dateFormat of LOGIC_DATE_FORMATS) {
+    const date = parse(dateString, dateFormat, new Date())
+    if (isValid(date)) return format(date, ISO_DATE_FORMAT)
+  }
+  return null
+}
+
 /**
  * Checks if the field's value matches the condition
  * @param {Object} field
@@ -304,63 +610,81 @@ const isConditionFulfilled = (
   if (!field || !condition) {
     return false
   }
-  let currentValue = getCurrentValue(field)
-  if (
-    currentValue === null ||
-    currentValue === undefined ||
-    currentValue.length === 0
-  ) {
+  const currentValue = getCurrentValue(field)
+  if (condition.state === LogicConditionState.IsEmpty) {
+    return isValueEmpty(currentValue)
+  }
+  // All other conditions can only be fulfilled by fields that have been
+  // answered.
+  if (isValueEmpty(currentValue)) {
     return false
   }
 
-  if (
-    condition.state === LogicConditionState.Equal ||
-    condition.state === LogicConditionState.Either
-  ) {
-    // condition.value can be a string (is equals to), or an array (is either) (not strictly true either...)
-    const conditionValues = ([] as unknown[])
-      .concat(condition.value)
-      .map(String)
-      // TODO #4279: Revisit decision to trim in backend after React rollout is complete
-      .map((opt) => opt.trim())
-    currentValue = String(currentValue)
-    /*
-    Handling 'Others' for radiobutton
-
-    form_logics: [{ ... value : 'Others' }]
-
-    Client-side:
-    When an Others radiobutton is checked, the fieldValue is 'radioButtonOthers'
-
-    Server-side:
-    When an Others radiobutton is checked, and submitted with the required value,
-    the answer is: 'Others: value'
-    */
-
-    // TODO: An option that is named "Others: Something..." will also pass this test,
-    // even if the field has not been configured to set othersRadioButton=true
-    if (conditionValues.indexOf('Others') > -1) {
-      // TODO: This is used for angular's client. The server has no need for these magic values, as they are never seen by the server.
-      if (field.fieldType === 'radiobutton') {
-        conditionValues.push('radioButtonOthers')
-      } else if (field.fieldType === 'checkbox') {
-        conditionValues.push('checkboxOthers') // Checkbox currently doesn't have logic, but the 'Others' will work in the future if it in implemented
+  // condition.value can be a string (is equals to), or an array (is either) (not strictly true either...)
+  const conditionValues = ([] as unknown[])
+    .concat(condition.value)
+    .map(String)
+    // TODO #4279: Revisit decision to trim in backend after React rollout is complete
+    .map((opt) => opt.trim())
+
+  switch (condition.state) {
+    case LogicConditionState.Equal:
+    case LogicConditionState.Either:
+      return isValueInConditionValues(
+        field,
+        String(currentValue),
+        conditionValues,
+      )
+    case LogicConditionState.NotEqual:
+      return !isValueInConditionValues(
+        field,
+        String(currentValue),
+        conditionValues,
+      )
+    case LogicConditionState.Lte:
+      return Number(currentValue) <= Number(condition.value)
+    case LogicConditionState.Gte:
+      return Number(currentValue) >= Number(condition.value)
+    case LogicConditionState.ContainsAny:
+    case LogicConditionState.ContainsAll: {
+      const selectedValues = ([] as string[])
+        .concat(currentValue)
+        .map((value) => value.trim())
+      const isOptionSelected = (option: string) =>
+        selectedValues.some((value) =>
+          isValueInConditionValues(field, value, [option]),
+        )
+      return condition.state === LogicConditionState.ContainsAny
+        ? conditionValues.some(isOptionSelected)
+        : conditionValues.every(isOptionSelected)
+    }
+    case LogicConditionState.Before:
+    case LogicConditionState.After:
+    case LogicConditionState.Between: {
+      const currentDate = toIsoDateString(currentValue)
+      const conditionDates = conditionValues.map(toIsoDateString)
+      if (!currentDate || conditionDates.some((date) => !date)) return false
+      const [startDate, endDate] = conditionDates as string[]
+      if (condition.state === LogicConditionState.Before) {
+        return currentDate < startDate
+      } else if (condition.state === LogicConditionState.After) {
+        return currentDate > startDate
       }
-      // This needs to work for manual "Others" options created by users as well.
-      // The only reason this works is that manual "Others" will satisfy the client-side
-      // condition, albeit on the server. See #5318 for more info.
-      return (
-        conditionValues.indexOf(currentValue) > -1 || // Client-side
-        currentValue.startsWith('Others: ')
-      ) // Server-side
+      // Both ends of the range are inclusive.
+      return !!endDate && currentDate >= startDate && currentDate <= endDate
     }
-    return conditionValues.indexOf(currentValue) > -1
-  } else if (condition.state === LogicConditionState.Lte) {
-    return Number(currentValue) <= Number(condition.value)
-  } else if (condition.state === LogicConditionState.Gte) {
-    return Number(currentValue) >= Number(condition.value)
-  } else {
-    return false
+    case LogicConditionState.Contains:
+      return String(currentValue)
+        .toLowerCase()
+        .includes(String(conditionValues[0]).toLowerCase())
+    case LogicConditionState.EndsWithDomain: {
+      const email = String(currentValue).trim().toLowerCase()
+      const domain = String(conditionValues[0]).toLowerCase().replace(/^@/, '')
+      // Subdomains of the given domain also fulfil the condition.
+      return email.endsWith(`@${domain}`) || email.endsWith(`.${domain}`)
+    }
+    default:
+      return false
   }
 }
 
@@ -0,0 +1,20 @@
+import { Document, Model } from 'mongoose'
+
+import { AgencyAuditAction, AgencyAuditValues } from '../../shared/types'
+
+import { IAgencySchema } from './agency'
+import { IUserSchema } from './user'
+
+export interface IAgencyAuditLog {
+  agency: IAgencySchema['_id']
+  actor: IUserSchema['_id']
+  action: AgencyAuditAction
+  before: AgencyAuditValues
+  after: AgencyAuditValues
+}
+
+export interface IAgencyAuditLogSchema extends IAgencyAuditLog, Document {
+  created?: Date
+}
+
+export type IAgencyAuditLogModel = Model<IAgencyAuditLogSchema>
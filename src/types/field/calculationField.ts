@@ -0,0 +1,9 @@
+import { BasicField, CalculationFieldBase } from '../../../shared/types'
+
+import { IFieldSchema } from './baseField'
+
+export interface ICalculationFieldSchema
+  extends CalculationFieldBase,
+    IFieldSchema {
+  fieldType: BasicField.Calculation
+}
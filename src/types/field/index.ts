@@ -2,6 +2,7 @@ import type { Document } from 'mongoose'
 import type { ConditionalExcept, Merge } from 'type-fest'
 
 import type { IAttachmentFieldSchema } from './attachmentField'
+import type { ICalculationFieldSchema } from './calculationField'
 import type { ICheckboxFieldSchema } from './checkboxField'
 import type { IChildrenCompoundFieldSchema } from './childrenCompoundField'
 import type { IDateFieldSchema } from './dateField'
@@ -25,6 +26,7 @@ import type { IYesNoFieldSchema } from './yesNoField'
 
 export * from './attachmentField'
 export * from './baseField'
+export * from './calculationField'
 export * from './checkboxField'
 export * from './dateField'
 export * from './decimalField'
@@ -79,6 +81,7 @@ export type FormFieldSchema =
   | IUenFieldSchema
   | IYesNoFieldSchema
   | IChildrenCompoundFieldSchema
+  | ICalculationFieldSchema
 
 /**
  * Helper type to only retain from FormFieldSchema the props required to create
@@ -120,3 +123,4 @@ export type FieldValidationSchema =
   | OmitUnusedValidatorProps<IUenFieldSchema>
   | OmitUnusedValidatorProps<IYesNoFieldSchema>
   | OmitUnusedValidatorProps<IChildrenCompoundFieldSchema>
+  | OmitUnusedValidatorProps<ICalculationFieldSchema>
@@ -8,7 +8,7 @@ import {
   UpdateWriteOpResult,
 } from 'mongoose'
 import { DeepRequired } from 'ts-essentials'
-import type { Merge, SetOptional } from 'type-fest'
+import type { Merge, SetOptional, SetRequired } from 'type-fest'
 
 import {
   AdminDashboardFormMetaDto,
@@ -61,12 +61,16 @@ type FormDefaultableKey =
   | 'startPage'
   | 'endPage'
   | 'hasCaptcha'
+  | 'isMultiPage'
+  | 'supportedLanguages'
   | 'authType'
   | 'status'
   | 'inactiveMessage'
   | 'submissionLimit'
   | 'isListed'
   | 'webhook'
+  | 'opensAt'
+  | 'closesAt'
 
 export type IForm = Merge<
   SetOptional<FormBase, FormDefaultableKey>,
@@ -101,6 +105,7 @@ export type PickDuplicateForm = Pick<
   | 'inactiveMessage'
   | 'submissionLimit'
   | 'responseMode'
+  | 'supportedLanguages'
 >
 
 export interface IFormSchema extends IForm, Document, PublicView<PublicForm> {
@@ -250,6 +255,8 @@ interface IFormBaseDocument<T extends IFormSchema> {
   form_logics: NonNullable<T['form_logics']>
   permissionList: NonNullable<T['permissionList']>
   hasCaptcha: NonNullable<T['hasCaptcha']>
+  isMultiPage: NonNullable<T['isMultiPage']>
+  supportedLanguages: NonNullable<T['supportedLanguages']>
   authType: NonNullable<T['authType']>
   status: NonNullable<T['status']>
   inactiveMessage: NonNullable<T['inactiveMessage']>
@@ -259,7 +266,7 @@ interface IFormBaseDocument<T extends IFormSchema> {
   isListed: NonNullable<T['isListed']>
   startPage: Required<NonNullable<T['startPage']>>
   endPage: Required<NonNullable<T['endPage']>>
-  webhook: Required<NonNullable<T['webhook']>>
+  webhook: SetRequired<NonNullable<T['webhook']>, 'url' | 'isRetryEnabled'>
   responseMode: NonNullable<T['responseMode']>
 }
 
@@ -331,6 +338,34 @@ export interface IFormModel extends Model<IFormSchema> {
 
   deactivateById(formId: string): Promise<IFormSchema | null>
 
+  /**
+   * Publishes a form whose scheduled opening time has passed, and clears its
+   * opening time.
+   * @param now the current time
+   * @returns the updated form with populated admin details, or null if there are no forms due to open
+   */
+  openScheduledForm(now: Date): Promise<IPopulatedForm | null>
+
+  /**
+   * Deactivates a form whose scheduled closing time has passed, and clears its
+   * closing time.
+   * @param now the current time
+   * @returns the updated form with populated admin details, or null if there are no forms due to close
+   */
+  closeScheduledForm(now: Date): Promise<IPopulatedForm | null>
+
+  /**
+   * Records that the admin and collaborators of a form have been notified of
+   * failing webhooks, unless they were already notified after notifiedBefore.
+   * @param formId the id of the form whose webhooks are failing
+   * @param notifiedBefore the time before which earlier notifications lapse
+   * @returns true if the notification should be sent, false if it has already been sent
+   */
+  claimWebhookFailureNotification(
+    formId: string,
+    notifiedBefore: Date,
+  ): Promise<boolean>
+
   getMetaByUserIdOrEmail(
     userId: IUserSchema['_id'],
     userEmail: IUserSchema['email'],
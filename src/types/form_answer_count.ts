@@ -0,0 +1,14 @@
+import { Document, Model } from 'mongoose'
+
+import { IFormSchema } from './form'
+
+export interface IFormAnswerCount {
+  formId: IFormSchema['_id']
+  fieldId: string
+  answer: string
+  count: number
+}
+
+export interface IFormAnswerCountSchema extends IFormAnswerCount, Document {}
+
+export type IFormAnswerCountModel = Model<IFormAnswerCountSchema>
@@ -0,0 +1,21 @@
+import { Document, Model } from 'mongoose'
+
+import { FormAuditAction } from '../../shared/types'
+
+import { IFormSchema } from './form'
+import { IUserSchema } from './user'
+
+export interface IFormAuditLog {
+  form: IFormSchema['_id']
+  actor: IUserSchema['_id']
+  action: FormAuditAction
+  targetId?: string
+  before: Record<string, unknown>
+  after: Record<string, unknown>
+}
+
+export interface IFormAuditLogSchema extends IFormAuditLog, Document {
+  created?: Date
+}
+
+export type IFormAuditLogModel = Model<IFormAuditLogSchema>
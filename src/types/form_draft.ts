@@ -0,0 +1,26 @@
+import { Document, Model } from 'mongoose'
+
+import { IFormSchema } from './form'
+
+export interface IFormDraft {
+  formId: IFormSchema['_id']
+  /**
+   * Public key derived from the draft key. Drafts are looked up by this key so
+   * that the draft key itself is never stored.
+   */
+  draftPublicKey: string
+  /**
+   * The draft responses, encrypted with the draft key and the form's public
+   * key for storage mode forms, or with the draft key alone otherwise.
+   */
+  content: string
+  /** Whether the content is encrypted with the form's public key. */
+  isEncrypted: boolean
+  expireAt: Date
+  created?: Date
+  lastModified?: Date
+}
+
+export interface IFormDraftSchema extends IFormDraft, Document {}
+
+export type IFormDraftModel = Model<IFormDraftSchema>
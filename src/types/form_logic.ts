@@ -7,7 +7,10 @@ import {
   LogicConditionState,
   LogicType,
   PreventSubmitLogic,
+  RequireFieldsLogic,
+  SetFieldValueLogic,
   ShowFieldLogic,
+  SkipToSectionLogic,
 } from '../../shared/types'
 
 import { IFieldSchema } from './field'
@@ -38,7 +41,34 @@ export interface IPreventSubmitLogicSchema
   conditions: IConditionSchema[]
 }
 
-export type FormLogicSchema = IShowFieldsLogicSchema | IPreventSubmitLogicSchema
+export interface IRequireFieldsLogicSchema
+  extends ILogicSchema,
+    RequireFieldsLogic,
+    Document {
+  logicType: LogicType.RequireFields
+  conditions: IConditionSchema[]
+}
+export interface ISetFieldValueLogicSchema
+  extends ILogicSchema,
+    SetFieldValueLogic,
+    Document {
+  logicType: LogicType.SetFieldValue
+  conditions: IConditionSchema[]
+}
+export interface ISkipToSectionLogicSchema
+  extends ILogicSchema,
+    SkipToSectionLogic,
+    Document {
+  logicType: LogicType.SkipToSection
+  conditions: IConditionSchema[]
+}
+
+export type FormLogicSchema =
+  | IShowFieldsLogicSchema
+  | IPreventSubmitLogicSchema
+  | IRequireFieldsLogicSchema
+  | ISetFieldValueLogicSchema
+  | ISkipToSectionLogicSchema
 
 type LogicField = Extract<
   BasicField,
@@ -48,6 +78,11 @@ type LogicField = Extract<
   | BasicField.Number
   | BasicField.Decimal
   | BasicField.Rating
+  | BasicField.Checkbox
+  | BasicField.Date
+  | BasicField.ShortText
+  | BasicField.Email
+  | BasicField.Calculation
 >
 
 type LogicAssociation<K extends LogicField, VS extends LogicConditionState> = [
@@ -62,6 +97,7 @@ type CategoricalLogicField = Extract<
 >
 type CategoricalLogicStates =
   | LogicConditionState.Equal
+  | LogicConditionState.NotEqual
   | LogicConditionState.Either
 type CategoricalLogicCondition = LogicAssociation<
   CategoricalLogicField,
@@ -79,10 +115,14 @@ type BinaryLogicCondition = LogicAssociation<
 // Logic fields that can be numerically compared
 type NumericalLogicField = Extract<
   BasicField,
-  BasicField.Number | BasicField.Decimal | BasicField.Rating
+  | BasicField.Number
+  | BasicField.Decimal
+  | BasicField.Rating
+  | BasicField.Calculation
 >
 type NumericalLogicStates =
   | LogicConditionState.Equal
+  | LogicConditionState.NotEqual
   | LogicConditionState.Lte
   | LogicConditionState.Gte
 type NumericalLogicCondition = LogicAssociation<
@@ -90,7 +130,46 @@ type NumericalLogicCondition = LogicAssociation<
   NumericalLogicStates
 >
 
+// Logic fields that can have multiple options selected
+type MultiSelectLogicField = Extract<BasicField, BasicField.Checkbox>
+type MultiSelectLogicStates =
+  | LogicConditionState.ContainsAny
+  | LogicConditionState.ContainsAll
+  | LogicConditionState.IsEmpty
+type MultiSelectLogicCondition = LogicAssociation<
+  MultiSelectLogicField,
+  MultiSelectLogicStates
+>
+
+// Logic fields that can be chronologically compared
+type DateLogicField = Extract<BasicField, BasicField.Date>
+type DateLogicStates =
+  | LogicConditionState.Before
+  | LogicConditionState.After
+  | LogicConditionState.Between
+  | LogicConditionState.IsEmpty
+type DateLogicCondition = LogicAssociation<DateLogicField, DateLogicStates>
+
+// Logic fields that contain free text
+type TextLogicField = Extract<BasicField, BasicField.ShortText>
+type TextLogicStates =
+  | LogicConditionState.Contains
+  | LogicConditionState.IsEmpty
+type TextLogicCondition = LogicAssociation<TextLogicField, TextLogicStates>
+
+// Logic fields that contain email addresses
+type EmailLogicField = Extract<BasicField, BasicField.Email>
+type EmailLogicStates =
+  | LogicConditionState.Contains
+  | LogicConditionState.EndsWithDomain
+  | LogicConditionState.IsEmpty
+type EmailLogicCondition = LogicAssociation<EmailLogicField, EmailLogicStates>
+
 export type LogicCondition =
   | CategoricalLogicCondition
   | BinaryLogicCondition
   | NumericalLogicCondition
+  | MultiSelectLogicCondition
+  | DateLogicCondition
+  | TextLogicCondition
+  | EmailLogicCondition
@@ -0,0 +1,23 @@
+import { Document, Model } from 'mongoose'
+import { FormTemplateBase } from 'shared/types'
+import type { Merge } from 'type-fest'
+
+import { AgencyDocument } from './agency'
+import { IFormSchema } from './form'
+import { IUserSchema } from './user'
+
+export type IFormTemplate = Merge<
+  FormTemplateBase,
+  {
+    formId: IFormSchema['_id']
+    agency: AgencyDocument['_id']
+    publishedBy: IUserSchema['_id']
+  }
+>
+
+export interface IFormTemplateSchema extends IFormTemplate, Document {
+  created?: Date
+  lastModified?: Date
+}
+
+export type IFormTemplateModel = Model<IFormTemplateSchema>
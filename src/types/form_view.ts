@@ -0,0 +1,14 @@
+import { Document, Model } from 'mongoose'
+
+import { IFormSchema } from './form'
+
+export interface IFormView {
+  formId: IFormSchema['_id']
+  /** Start of the day in Singapore time which the views were counted for. */
+  date: Date
+  count: number
+}
+
+export interface IFormViewSchema extends IFormView, Document {}
+
+export type IFormViewModel = Model<IFormViewSchema>
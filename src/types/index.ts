@@ -1,11 +1,17 @@
 export * from './field'
 export * from './agency'
+export * from './agency_audit_log'
 export * from './bounce'
+export * from './form_answer_count'
+export * from './form_audit_log'
+export * from './form_draft'
 export * from './form_feedback'
 export * from './form_issue'
 export * from './form_logic'
 export * from './form_logo'
 export * from './form_statistics_total'
+export * from './form_template'
+export * from './form_view'
 export * from './form'
 export * from './login'
 export * from './myinfo_hash'
@@ -21,4 +27,6 @@ export * from './routing'
 export * from './email_mode_data'
 export * from './twilio'
 export * from './payment'
+export * from './product_stock_lock'
 export * from './admin_feedback'
+export * from './webhook_event'
@@ -0,0 +1,13 @@
+import { Document, Model } from 'mongoose'
+
+import { IFormSchema } from './form'
+
+export interface IProductStockLock {
+  formId: IFormSchema['_id']
+  /** Number of checkouts of stocked products of the form. */
+  checkouts: number
+}
+
+export interface IProductStockLockSchema extends IProductStockLock, Document {}
+
+export type IProductStockLockModel = Model<IProductStockLockSchema>
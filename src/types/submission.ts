@@ -1,5 +1,6 @@
 import { Document, Model, QueryCursor } from 'mongoose'
 
+import { WebhookHeader, WebhookRetryPolicy } from '../../shared/types/form'
 import {
   EmailModeSubmissionBase,
   StorageModeSubmissionBase,
@@ -25,12 +26,40 @@ export interface WebhookView {
   data: WebhookData
 }
 
-export type SubmissionWebhookInfo = {
+/**
+ * An endpoint which the webhooks of a form are sent to, with how to send them.
+ */
+export type WebhookTarget = {
   webhookUrl: string
   isRetryEnabled: boolean
+  /** Id of the additional endpoint, absent for the primary webhook URL. */
+  endpointId?: string
+  hmacSecret?: string
+  headers?: WebhookHeader[]
+  /** Retry policy of the form, shared by all its endpoints. */
+  retryPolicy?: WebhookRetryPolicy
+}
+
+export type SubmissionWebhookInfo = WebhookTarget & {
   webhookView: WebhookView
 }
 
+/**
+ * Webhook responses recorded for a submission, with the time of each attempt.
+ * The headers and data of the responses are omitted.
+ */
+export type SubmissionWebhookResponses = {
+  _id: IEncryptedSubmissionSchema['_id']
+  created: Date
+  webhookResponses: (Pick<
+    WebhookResponse,
+    'webhookUrl' | 'endpointId' | 'latencyMs' | 'nextAttemptAt'
+  > & {
+    response: Pick<WebhookResponse['response'], 'status'>
+    created: Date
+  })[]
+}
+
 export type FindFormsWithSubsAboveResult = {
   _id: IFormSchema['_id']
   count: number
@@ -166,11 +195,26 @@ export type IEncryptSubmissionModel = Model<IEncryptedSubmissionSchema> &
     /**
      * Retrieves webhook-related info for a given submission.
      * @param submissionId
+     * @param endpointId optional. Additional endpoint to retrieve the destination of, otherwise the primary webhook URL
      * @returns Object containing webhook destination and data
      */
     retrieveWebhookInfoById(
       submissionId: string,
+      endpointId?: string,
     ): Promise<SubmissionWebhookInfo | null>
+
+    /**
+     * Returns the webhook responses of the latest submissions of a form which
+     * have had webhooks sent, most recent first.
+     * @param formId the form id to return webhook responses for
+     * @param params.since optional. If provided, only submissions created since this date are returned
+     * @param params.hasFailedAttempt optional. If true, only submissions with at least one failed webhook attempt are returned
+     * @param params.limit the maximum number of submissions to return
+     */
+    findWebhookResponsesByFormId(
+      formId: string,
+      params: { since?: Date; hasFailedAttempt?: boolean; limit: number },
+    ): Promise<SubmissionWebhookResponses[]>
   }
 
 export interface IWebhookResponseSchema extends WebhookResponse, Document {}
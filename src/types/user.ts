@@ -2,7 +2,7 @@ import { ObjectId } from 'bson-ext'
 import { Document, Model } from 'mongoose'
 import type { SetOptional } from 'type-fest'
 
-import { PublicAgencyDto, UserBase } from '../../shared/types'
+import { ApiKeyBase, PublicAgencyDto, UserBase } from '../../shared/types'
 
 import { AgencyDocument, IAgencySchema } from './agency'
 import { PublicView } from './database'
@@ -15,9 +15,14 @@ export type AdminContactOtpData = {
   admin: IUserSchema['_id']
 }
 
+export interface IApiKey extends ApiKeyBase {
+  _id: ObjectId
+}
+
 export interface IUser
   extends SetOptional<UserBase, 'created' | 'lastAccessed' | 'updatedAt'> {
   agency: IAgencySchema['_id']
+  apiKeys?: IApiKey[]
 }
 
 export type UserContactView = Pick<IUser, 'email' | 'contact'>
@@ -0,0 +1,48 @@
+import { Document, Model } from 'mongoose'
+
+import {
+  WebhookEventDto,
+  WebhookEventPayloads,
+  WebhookEventType,
+  WebhookResponse,
+} from '../../shared/types'
+
+import { IFormSchema } from './form'
+import { WebhookTarget } from './submission'
+
+export interface IWebhookEvent<T extends WebhookEventType = WebhookEventType> {
+  form: IFormSchema['_id']
+  type: T
+  payload: WebhookEventPayloads[T]
+  webhookResponses: WebhookResponse[]
+  created?: Date
+}
+
+export interface WebhookEventView {
+  data: WebhookEventDto
+}
+
+export type WebhookEventInfo = WebhookTarget & {
+  webhookView: WebhookEventView
+}
+
+export interface IWebhookEventSchema extends IWebhookEvent, Document {
+  getWebhookView(): WebhookEventView
+}
+
+export interface IWebhookEventModel extends Model<IWebhookEventSchema> {
+  addWebhookResponse(
+    eventId: string,
+    webhookResponse: WebhookResponse,
+  ): Promise<IWebhookEventSchema | null>
+  /**
+   * Retrieves the event with the webhook target it is sent to.
+   * @param eventId the event to retrieve
+   * @param endpointId the additional endpoint, if not the primary webhook URL
+   * @returns the webhook information, or null if the event does not exist
+   */
+  retrieveWebhookInfoById(
+    eventId: string,
+    endpointId?: string,
+  ): Promise<WebhookEventInfo | null>
+}